@@ -0,0 +1,23 @@
+-- Monthly P&L Budgets
+-- Backs compare=budget on GET /api/organizations/[orgId]/pl.
+-- Amounts are entered positive in the account's normal direction
+-- (revenue as income, expenses as spend), one row per account per month.
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  account VARCHAR(255) NOT NULL,
+  account_type VARCHAR(100), -- used to place budget-only accounts on the P&L
+  month DATE NOT NULL, -- first day of the budgeted month
+  amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  customer VARCHAR(255), -- optional property-level budget
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (EXTRACT(DAY FROM month) = 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_org_account_month_customer
+  ON budgets(organization_id, account, month, COALESCE(customer, ''));
+
+CREATE INDEX IF NOT EXISTS idx_budgets_org_month ON budgets(organization_id, month);
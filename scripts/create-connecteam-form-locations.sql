@@ -0,0 +1,53 @@
+-- Connecteam Form -> Location Mapping (Client project)
+-- Replaces the LOCATION_TO_FORM_ID constant in /api/connecteam/production and the
+-- "answer contains Manheim" guess in the webhook. Managed at /settings/connecteam-forms.
+-- A location can have several forms; a form maps to one location at a time.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS connecteam_form_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  form_id BIGINT NOT NULL,
+  form_name VARCHAR(255), -- Connecteam form name when mapped, for display
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  effective_to DATE, -- inclusive; NULL = still in effect
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  -- A form can't point at two locations on the same day
+  EXCLUDE USING gist (
+    form_id WITH =,
+    daterange(effective_from, effective_to, '[]') WITH &&
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_connecteam_form_locations_form ON connecteam_form_locations(form_id, effective_from);
+CREATE INDEX IF NOT EXISTS idx_connecteam_form_locations_location ON connecteam_form_locations(location_id);
+CREATE INDEX IF NOT EXISTS idx_connecteam_form_locations_org ON connecteam_form_locations(organization_id);
+
+-- Resolved by the webhook from the mapping above
+ALTER TABLE connecteam_form_submissions ADD COLUMN IF NOT EXISTS location_id UUID;
+CREATE INDEX IF NOT EXISTS idx_connecteam_form_submissions_location ON connecteam_form_submissions(location_id);
+
+-- Seed from the old LOCATION_TO_FORM_ID constant
+INSERT INTO connecteam_form_locations (organization_id, location_id, form_id, form_name, effective_from)
+SELECT l.organization_id, l.id, m.form_id, m.location_name, DATE '2025-01-01'
+FROM (VALUES
+  ('Manheim Dallas', 4875728),
+  ('Enterprise Alabama', 3837714),
+  ('Enterprise Atlanta', 1856326)
+) AS m(location_name, form_id)
+JOIN locations l ON l.name = m.location_name
+WHERE NOT EXISTS (SELECT 1 FROM connecteam_form_locations f WHERE f.form_id = m.form_id);
+
+-- Backfill location_id on existing submissions
+UPDATE connecteam_form_submissions s
+SET location_id = f.location_id
+FROM connecteam_form_locations f
+WHERE s.location_id IS NULL
+  AND s.form_id = f.form_id
+  AND s.submission_date >= f.effective_from
+  AND (f.effective_to IS NULL OR s.submission_date <= f.effective_to);
@@ -0,0 +1,34 @@
+-- Connecteam User Directory (Client project)
+-- Local copy of the Connecteam account's users, kept current by
+-- /api/connecteam/users/sync (scheduled) and by user.* webhook events, so the
+-- hours route and webhook handlers don't page /users/v1/users on every call.
+-- Employees link to a Connecteam user explicitly through connecteam_user_id;
+-- see src/lib/connecteam/users.ts.
+
+CREATE TABLE IF NOT EXISTS connecteam_users (
+  user_id BIGINT PRIMARY KEY, -- Connecteam userId
+  email VARCHAR(255), -- lower-cased
+  first_name VARCHAR(255),
+  last_name VARCHAR(255),
+  phone_number VARCHAR(50),
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  raw JSONB, -- user object as Connecteam returned it
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE, -- gone from Connecteam; kept so old submissions still resolve
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_connecteam_users_email ON connecteam_users(email);
+
+-- Service role only
+ALTER TABLE connecteam_users ENABLE ROW LEVEL SECURITY;
+
+-- Explicit employee → Connecteam user link (replaces matching on email alone)
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS connecteam_user_id BIGINT;
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS connecteam_linked_by UUID; -- NULL when linked automatically by email
+-- Set once the link is decided. With connecteam_user_id NULL it means an admin
+-- said "no Connecteam user", so email matching leaves the employee alone.
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS connecteam_linked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_employees_connecteam_user ON employees(connecteam_user_id);
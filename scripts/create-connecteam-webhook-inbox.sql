@@ -0,0 +1,58 @@
+-- Connecteam Webhook Inbox (Client project)
+-- Every verified webhook is stored here before it is processed, so a failed
+-- handler (or a Connecteam API outage) never loses an event.
+-- See src/lib/connecteam/inbox.ts for the status lifecycle:
+--   pending -> processing -> processed
+--                         -> failed (retried with backoff) -> dead (after max attempts)
+-- Dead events are listed at GET /api/webhooks/connectteam/dead-letters and can be replayed.
+
+CREATE TABLE IF NOT EXISTS connecteam_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_key VARCHAR(255) NOT NULL, -- Connecteam event id header, or a SHA-256 of the body
+  event_type VARCHAR(100),
+  payload JSONB NOT NULL,
+  signature_timestamp TIMESTAMP WITH TIME ZONE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_error TEXT,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  replay_count INTEGER NOT NULL DEFAULT 0,
+  replayed_at TIMESTAMP WITH TIME ZONE,
+  replayed_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Redelivered events are recognised and not processed twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_connecteam_webhook_events_key ON connecteam_webhook_events(event_key);
+
+-- Retry worker: due pending/failed events, plus processing events whose
+-- worker died (next_attempt_at doubles as the processing lease)
+CREATE INDEX IF NOT EXISTS idx_connecteam_webhook_events_due
+  ON connecteam_webhook_events(next_attempt_at)
+  WHERE status IN ('pending', 'processing', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_connecteam_webhook_events_dead
+  ON connecteam_webhook_events(received_at DESC)
+  WHERE status = 'dead';
+
+-- Service role only
+ALTER TABLE connecteam_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Organization of form events, from the form's location mapping, so each
+-- organization's admins see and replay only their own. NULL for user events
+-- (and forms not mapped yet): super admins only.
+ALTER TABLE connecteam_webhook_events ADD COLUMN IF NOT EXISTS organization_id UUID;
+
+UPDATE connecteam_webhook_events e
+SET organization_id = (
+  SELECT m.organization_id FROM connecteam_form_locations m
+  WHERE m.form_id::text = e.payload->'data'->>'formId'
+  LIMIT 1
+)
+WHERE e.organization_id IS NULL AND e.event_type LIKE 'form.%';
+
+CREATE INDEX IF NOT EXISTS idx_connecteam_webhook_events_org_dead
+  ON connecteam_webhook_events(organization_id, received_at DESC)
+  WHERE status = 'dead';
@@ -0,0 +1,157 @@
+-- Employee Compensation History (Client project)
+-- Effective-dated pay rates per employee. The submit pages resolve each
+-- employee's rate as of the pay period instead of using the current value on
+-- `employees`, so re-opening or recomputing an old period keeps its rates.
+-- See src/lib/payroll/compensation.ts.
+--
+-- `employees.compensation_type` / hourly_rate / piece_rate / fixed_pay stay as
+-- the rate in effect today; changes are made through the API, which calls
+-- change_employee_compensation below to write a row here and update the
+-- employee when the change is already in effect.
+
+CREATE TABLE IF NOT EXISTS employee_compensation (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  compensation_type VARCHAR(20) NOT NULL CHECK (compensation_type IN ('hourly', 'production', 'fixed')),
+  rate NUMERIC(10, 2) NOT NULL CHECK (rate >= 0),
+  effective_from DATE NOT NULL,
+  effective_to DATE, -- inclusive; NULL while current
+  reason TEXT,
+  approved_by UUID, -- Platform user who made or approved the change
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_employee_compensation_start
+  ON employee_compensation(employee_id, effective_from);
+CREATE INDEX IF NOT EXISTS idx_employee_compensation_org ON employee_compensation(organization_id);
+
+-- Backfill: the rate on file today, from the employee's first pay date. Earlier
+-- rates were overwritten in place and can't be recovered. Employees added later
+-- get their first row when their rate is first changed.
+INSERT INTO employee_compensation (organization_id, employee_id, compensation_type, rate, effective_from, reason)
+SELECT
+  e.organization_id,
+  e.id,
+  e.compensation_type,
+  COALESCE(
+    CASE e.compensation_type
+      WHEN 'hourly' THEN e.hourly_rate
+      WHEN 'production' THEN e.piece_rate
+      ELSE e.fixed_pay
+    END,
+    0
+  ),
+  COALESCE((SELECT MIN(p.date) FROM payments p WHERE p.employee_id = e.id), CURRENT_DATE),
+  'Rate on file when history began'
+FROM employees e
+WHERE e.compensation_type IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM employee_compensation c WHERE c.employee_id = e.id);
+
+-- Service role only
+ALTER TABLE employee_compensation ENABLE ROW LEVEL SECURITY;
+
+-- Records a rate change in one transaction: seeds the rate being replaced for
+-- an employee with no history yet, closes the current row the day before the
+-- change, inserts the new row and, when it is already in effect, updates the
+-- rate columns on `employees`. Changes go forward only (55000 otherwise).
+-- Who may make the change is checked by the API (organization admins, never
+-- on their own record).
+CREATE OR REPLACE FUNCTION change_employee_compensation(
+  p_employee_id UUID,
+  p_compensation_type TEXT,
+  p_rate NUMERIC,
+  p_effective_from DATE,
+  p_reason TEXT,
+  p_approved_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_employee employees%ROWTYPE;
+  v_latest employee_compensation%ROWTYPE;
+  v_first_payment DATE;
+  v_record employee_compensation%ROWTYPE;
+  v_rate NUMERIC(10, 2) := ROUND(p_rate, 2);
+BEGIN
+  IF p_compensation_type IS NULL OR p_compensation_type NOT IN ('hourly', 'production', 'fixed') THEN
+    RAISE EXCEPTION 'Invalid compensation type "%"', p_compensation_type USING ERRCODE = '22023';
+  END IF;
+
+  -- Serializes changes to the same employee
+  SELECT * INTO v_employee FROM employees WHERE id = p_employee_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee % not found', p_employee_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_latest FROM employee_compensation
+  WHERE employee_id = p_employee_id
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF p_effective_from <= v_latest.effective_from THEN
+      RAISE EXCEPTION 'Rate changes must start after %, when the current rate took effect', v_latest.effective_from
+        USING ERRCODE = '55000';
+    END IF;
+    UPDATE employee_compensation SET effective_to = p_effective_from - 1 WHERE id = v_latest.id;
+  ELSE
+    -- No history yet (added after the backfill): keep the rate being replaced
+    SELECT MIN(date) INTO v_first_payment FROM payments WHERE employee_id = p_employee_id;
+    IF v_first_payment < p_effective_from AND v_employee.compensation_type IS NOT NULL THEN
+      INSERT INTO employee_compensation (
+        organization_id, employee_id, compensation_type, rate, effective_from, effective_to, reason
+      ) VALUES (
+        v_employee.organization_id,
+        p_employee_id,
+        v_employee.compensation_type,
+        COALESCE(
+          CASE v_employee.compensation_type
+            WHEN 'hourly' THEN v_employee.hourly_rate
+            WHEN 'production' THEN v_employee.piece_rate
+            ELSE v_employee.fixed_pay
+          END,
+          0
+        ),
+        v_first_payment,
+        p_effective_from - 1,
+        'Rate on file when history began'
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO employee_compensation (
+    organization_id, employee_id, compensation_type, rate, effective_from, reason, approved_by
+  ) VALUES (
+    v_employee.organization_id, p_employee_id, p_compensation_type, v_rate, p_effective_from, p_reason, p_approved_by
+  )
+  RETURNING * INTO v_record;
+
+  -- Future-dated changes leave today's rate on the employee until they start
+  IF p_effective_from <= CURRENT_DATE THEN
+    UPDATE employees
+    SET
+      compensation_type = p_compensation_type,
+      hourly_rate = CASE WHEN p_compensation_type = 'hourly' THEN v_rate END,
+      piece_rate = CASE WHEN p_compensation_type = 'production' THEN v_rate END,
+      fixed_pay = CASE WHEN p_compensation_type = 'fixed' THEN v_rate END
+    WHERE id = p_employee_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_record.id,
+    'employee_id', v_record.employee_id,
+    'compensation_type', v_record.compensation_type,
+    'rate', v_record.rate,
+    'effective_from', v_record.effective_from,
+    'effective_to', v_record.effective_to,
+    'reason', v_record.reason,
+    'approved_by', v_record.approved_by,
+    'created_at', v_record.created_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION change_employee_compensation(UUID, TEXT, NUMERIC, DATE, TEXT, UUID) TO service_role;
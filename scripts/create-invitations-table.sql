@@ -0,0 +1,40 @@
+-- Organization Invitations (Platform project)
+-- Replaces the hardcoded approvedEmails list. A signed-in user without a
+-- platform `users` row is let in only by accepting a pending invitation for
+-- their email (POST /api/invitations/accept, called from /login).
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL DEFAULT 'employee' CHECK (role IN ('super_admin', 'admin', 'owner', 'employee')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked', 'expired')),
+  token UUID NOT NULL DEFAULT gen_random_uuid(),
+  invited_by UUID,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '14 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One open invitation per email per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_org_email_pending
+  ON invitations(organization_id, lower(email)) WHERE status = 'pending';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_token ON invitations(token);
+CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(lower(email));
+
+-- Emails are matched exactly (lib/auth/invitations.ts), so they are stored
+-- lower-cased; normalize rows written before that
+UPDATE invitations SET email = lower(email) WHERE email <> lower(email);
+UPDATE users SET email = lower(email) WHERE email <> lower(email);
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_email_lowercase;
+ALTER TABLE invitations ADD CONSTRAINT invitations_email_lowercase CHECK (email = lower(email));
+
+-- Only the service role (API routes) reads or writes invitations
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+-- Migrating the old approvedEmails list: invite each address into its org, e.g.
+-- INSERT INTO invitations (organization_id, email, role)
+-- SELECT id, 'someone@example.com', 'admin' FROM organizations WHERE subdomain = '<subdomain>';
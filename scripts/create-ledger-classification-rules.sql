@@ -0,0 +1,27 @@
+-- Ledger Classification Override Rules
+-- Consumed by src/lib/ledger/classify.ts. Without rules every org uses the defaults.
+
+CREATE TABLE IF NOT EXISTS ledger_classification_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  match_field VARCHAR(30) NOT NULL CHECK (match_field IN ('account', 'account_type', 'detail_type', 'report_category')),
+  match_value VARCHAR(200) NOT NULL, -- case-insensitive; trailing * = prefix match
+  pl_section VARCHAR(20) CHECK (pl_section IN ('income', 'other_income', 'cogs', 'expense', 'other_expense', 'exclude')),
+  cash_flow_section VARCHAR(20) CHECK (cash_flow_section IN ('operating', 'investing', 'financing', 'transfer')),
+  priority INTEGER NOT NULL DEFAULT 0, -- highest wins when several rules match
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (pl_section IS NOT NULL OR cash_flow_section IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_classification_rules_org ON ledger_classification_rules(organization_id);
+
+-- Service role only: pages read their org's rules through
+-- GET /api/organizations/[orgId]/classification-rules
+ALTER TABLE ledger_classification_rules ENABLE ROW LEVEL SECURITY;
+
+-- Example: treat "Payroll Clearing" as a balance sheet account
+-- INSERT INTO ledger_classification_rules (organization_id, match_field, match_value, pl_section, priority)
+-- VALUES ('<org-uuid>', 'account', 'Payroll Clearing', 'exclude', 10);
@@ -0,0 +1,47 @@
+-- Monthly Ledger Totals
+-- Aggregates journal_entry_lines per month and account classification fields in
+-- one round trip. Called by src/lib/ledger/rollup.ts (trend-data); the app falls
+-- back to paginated reads when this function is not installed.
+
+CREATE OR REPLACE FUNCTION ledger_monthly_totals(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_customers TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  month DATE,
+  account TEXT,
+  account_type TEXT,
+  detail_type TEXT,
+  report_category TEXT,
+  debit NUMERIC,
+  credit NUMERIC,
+  line_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    date_trunc('month', j.date)::DATE AS month,
+    j.account::TEXT,
+    j.account_type::TEXT,
+    j.detail_type::TEXT,
+    j.report_category::TEXT,
+    COALESCE(SUM(j.debit), 0)::NUMERIC AS debit,
+    COALESCE(SUM(j.credit), 0)::NUMERIC AS credit,
+    COUNT(*) AS line_count
+  FROM journal_entry_lines j
+  WHERE j.organization_id = p_organization_id
+    AND j.date >= p_start
+    AND j.date <= p_end
+    AND (p_customers IS NULL OR cardinality(p_customers) = 0 OR j.customer = ANY(p_customers))
+  GROUP BY 1, 2, 3, 4, 5
+  ORDER BY 1, 2, 3, 4, 5;
+$$;
+
+-- Covers the WHERE clause above; see also idx_journal_entry_lines_org_date
+CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_org_date_customer
+  ON journal_entry_lines(organization_id, date, customer);
+
+GRANT EXECUTE ON FUNCTION ledger_monthly_totals(UUID, DATE, DATE, TEXT[]) TO authenticated, service_role;
@@ -0,0 +1,35 @@
+-- Location Payroll Policies + Overtime Split (Client project)
+-- Break and overtime settings per location, used by /api/connecteam/hours via
+-- src/lib/payroll/overtime.ts, and regular/overtime/double-time hours on
+-- payroll_entries and payments.
+-- Re-run create-payroll-transaction-functions.sql afterwards so submit/approve
+-- carry the new columns.
+
+CREATE TABLE IF NOT EXISTS location_payroll_policies (
+  location_id UUID PRIMARY KEY REFERENCES locations(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL,
+  state CHAR(2), -- selects state overtime rules (e.g. CA daily OT); NULL = federal weekly 40
+  time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- workdays are counted in this IANA timezone
+  workweek_start_day SMALLINT NOT NULL DEFAULT 0 CHECK (workweek_start_day BETWEEN 0 AND 6), -- 0 = Sunday
+  auto_break_after_hours NUMERIC(5, 2) DEFAULT 8, -- NULL = no auto break
+  auto_break_minutes INTEGER NOT NULL DEFAULT 60 CHECK (auto_break_minutes >= 0),
+  deduct_manual_breaks BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_payroll_policies_org ON location_payroll_policies(organization_id);
+
+-- hours stays the total paid hours; these split it
+ALTER TABLE payroll_entries ADD COLUMN IF NOT EXISTS regular_hours NUMERIC(10, 2);
+ALTER TABLE payroll_entries ADD COLUMN IF NOT EXISTS overtime_hours NUMERIC(10, 2);
+ALTER TABLE payroll_entries ADD COLUMN IF NOT EXISTS double_time_hours NUMERIC(10, 2);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS regular_hours NUMERIC(10, 2);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS overtime_hours NUMERIC(10, 2);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS double_time_hours NUMERIC(10, 2);
+
+-- Entries from before the split were all paid at straight time
+UPDATE payroll_entries SET regular_hours = hours WHERE hours IS NOT NULL AND regular_hours IS NULL;
+UPDATE payments SET regular_hours = hours WHERE hours IS NOT NULL AND regular_hours IS NULL;
@@ -0,0 +1,45 @@
+-- Organization Membership Admin (Platform project)
+-- Backs /settings/members and /api/organizations/[orgId]/members|invitations|audit-log.
+-- Run after create-invitations-table.sql.
+
+-- Deactivated members keep their row (and history) but lose access:
+-- lib/auth/session.ts treats them like users without an account.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_by UUID;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_status_check') THEN
+    ALTER TABLE users ADD CONSTRAINT users_status_check CHECK (status IN ('active', 'deactivated'));
+  END IF;
+END $$;
+
+-- Locations (Client project `locations.id`) assigned on acceptance as
+-- location_managers rows; empty for admins and owners.
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS location_ids UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS sent_count INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS last_sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS revoked_by UUID;
+
+-- Append-only record of membership changes
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  actor_id UUID,
+  actor_email VARCHAR(255),
+  action VARCHAR(100) NOT NULL, -- e.g. invitation.created, member.role_changed
+  target_type VARCHAR(50) NOT NULL, -- invitation | member
+  target_id UUID,
+  target_email VARCHAR(255),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb, -- before/after values
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_org_created ON audit_log(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_type, target_id);
+
+-- Only the service role (API routes) reads or writes the audit log
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,65 @@
+-- Payroll ACH Export (Client project)
+-- Employee bank details and the organization's ACH origination settings used to
+-- build NACHA files for approved payroll. See src/lib/payroll/nacha.ts and
+-- src/lib/payroll/bankAccounts.ts.
+--
+-- Account numbers are encrypted by the app (AES-256-GCM, key in
+-- BANK_ACCOUNT_ENCRYPTION_KEY) before they are stored; only the last four
+-- digits are kept in clear for display.
+
+CREATE TABLE IF NOT EXISTS employee_bank_accounts (
+  employee_id UUID PRIMARY KEY REFERENCES employees(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL,
+  account_holder_name VARCHAR(100) NOT NULL,
+  routing_number CHAR(9) NOT NULL,
+  account_number_encrypted TEXT NOT NULL,
+  account_last4 VARCHAR(4) NOT NULL,
+  account_type VARCHAR(10) NOT NULL CHECK (account_type IN ('checking', 'savings')),
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_bank_accounts_org ON employee_bank_accounts(organization_id);
+
+-- What the originating bank gave the company for ACH origination
+CREATE TABLE IF NOT EXISTS organization_ach_settings (
+  organization_id UUID PRIMARY KEY,
+  immediate_destination CHAR(9) NOT NULL, -- ODFI / bank routing number
+  immediate_destination_name VARCHAR(23) NOT NULL,
+  immediate_origin VARCHAR(10) NOT NULL, -- usually the company identification
+  immediate_origin_name VARCHAR(23) NOT NULL,
+  company_name VARCHAR(16) NOT NULL,
+  company_identification VARCHAR(10) NOT NULL,
+  originating_dfi CHAR(8) NOT NULL, -- first 8 digits of the ODFI routing number
+  entry_description VARCHAR(10) NOT NULL DEFAULT 'PAYROLL',
+  -- Optional settlement account. When set, each batch gets an offsetting debit
+  -- so the file balances on its own (banks that don't offset for you)
+  offset_routing_number CHAR(9),
+  offset_account_number_encrypted TEXT,
+  offset_account_last4 VARCHAR(4),
+  offset_account_type VARCHAR(10) CHECK (offset_account_type IN ('checking', 'savings')),
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per generated file, for the audit trail and file ID modifiers
+CREATE TABLE IF NOT EXISTS payroll_ach_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  pay_date DATE NOT NULL,
+  file_id_modifier CHAR(1) NOT NULL,
+  entry_count INTEGER NOT NULL,
+  total_credit DECIMAL(15, 2) NOT NULL,
+  submission_ids UUID[] NOT NULL,
+  exported_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_ach_exports_org_date ON payroll_ach_exports(organization_id, pay_date);
+
+-- Service role only
+ALTER TABLE employee_bank_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_ach_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_ach_exports ENABLE ROW LEVEL SECURITY;
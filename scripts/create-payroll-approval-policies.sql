@@ -0,0 +1,36 @@
+-- Payroll Approval Policies (Client project)
+-- Approval chains for payroll submissions, per organization with optional
+-- per-location overrides. See src/lib/payroll/approvals.ts.
+-- Re-run create-payroll-transaction-functions.sql afterwards so
+-- review_payroll_submission records the step each approval satisfied.
+
+-- steps: ordered [{name, approver_type, roles, user_ids, min_amount}]
+--   approver_type: location_manager (location_managers for the submission's
+--   location), role (any member with one of roles) or users (user_ids).
+--   min_amount: the step only applies when the submission total reaches it;
+--   negative (reversing correction) totals count by their size.
+-- location_id NULL is the organization default.
+CREATE TABLE IF NOT EXISTS payroll_approval_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  steps JSONB NOT NULL DEFAULT '[]',
+  prevent_self_approval BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_approval_policies_org_default
+  ON payroll_approval_policies(organization_id) WHERE location_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_approval_policies_location
+  ON payroll_approval_policies(organization_id, location_id) WHERE location_id IS NOT NULL;
+
+-- One row per step approved, plus the final approval or rejection
+ALTER TABLE payroll_approvals ADD COLUMN IF NOT EXISTS step_index INTEGER;
+ALTER TABLE payroll_approvals ADD COLUMN IF NOT EXISTS step_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payroll_approvals_submission ON payroll_approvals(submission_id, created_at);
+
+-- Service role only
+ALTER TABLE payroll_approval_policies ENABLE ROW LEVEL SECURITY;
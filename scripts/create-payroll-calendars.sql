@@ -0,0 +1,46 @@
+-- Payroll Calendars (Client project)
+-- One calendar per organization and payroll group. Replaces the hardcoded
+-- "pay date - 9, 14 days back" period math and the A/B week-parity guess from
+-- PAYROLL_REFERENCE_DATE. Periods are computed in src/lib/payroll/calendar.ts.
+
+CREATE TABLE IF NOT EXISTS payroll_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  payroll_group VARCHAR(20) NOT NULL,
+  frequency VARCHAR(20) NOT NULL DEFAULT 'biweekly'
+    CHECK (frequency IN ('weekly', 'biweekly', 'semi_monthly')),
+  -- Any scheduled pay date; weekly/biweekly pay dates repeat from it.
+  -- Semi-monthly periods are always the 1st-15th and 16th-end of month.
+  anchor_date DATE NOT NULL,
+  -- Days from period end to pay date
+  lag_days INTEGER NOT NULL DEFAULT 9 CHECK (lag_days >= 0),
+  -- Where a pay date that lands on a weekend or holiday moves to
+  holiday_shift VARCHAR(20) NOT NULL DEFAULT 'previous'
+    CHECK (holiday_shift IN ('previous', 'next', 'none')),
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, payroll_group)
+);
+
+CREATE TABLE IF NOT EXISTS payroll_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, holiday_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_holidays_org_date ON payroll_holidays(organization_id, holiday_date);
+
+-- Seed the schedule every org ran on before: biweekly Friday pay dates, group A
+-- on the week of 2025-01-03 and group B the week after, period ending 9 days prior
+INSERT INTO payroll_calendars (organization_id, payroll_group, frequency, anchor_date, lag_days, holiday_shift)
+SELECT o.id, g.payroll_group, 'biweekly', g.anchor_date, 9, 'none'
+FROM organizations o
+CROSS JOIN (VALUES
+  ('A', DATE '2025-01-03'),
+  ('B', DATE '2025-01-10')
+) AS g(payroll_group, anchor_date)
+ON CONFLICT (organization_id, payroll_group) DO NOTHING;
@@ -0,0 +1,98 @@
+-- Payroll Locks and Correction Runs (Client project)
+-- Approved payroll is immutable: its submission, entries and payments can no
+-- longer be changed or deleted. Mistakes are fixed with a correction run, a new
+-- submission linked by adjusts_submission_id that reverses the employees'
+-- approved values and replaces them with corrected ones. It goes through the
+-- normal approval chain and, once approved, writes its reversal and replacement
+-- rows to payments, so totals net out per pay date.
+--
+-- Apply this before create-payroll-transaction-functions.sql, which reads the
+-- columns added here. It doesn't need anything from that script. On a database
+-- that already has the payroll functions, apply that script right after this
+-- one: earlier versions of review_payroll_submission update entries after the
+-- submission is approved, which the entry lock below rejects.
+
+ALTER TABLE payroll_submissions ADD COLUMN IF NOT EXISTS adjusts_submission_id UUID REFERENCES payroll_submissions(id);
+ALTER TABLE payroll_submissions ADD COLUMN IF NOT EXISTS correction_reason TEXT;
+
+-- regular | reversal (negates approved values) | replacement (the corrected values)
+ALTER TABLE payroll_entries ADD COLUMN IF NOT EXISTS entry_kind VARCHAR(20) NOT NULL DEFAULT 'regular';
+ALTER TABLE payroll_entries ADD COLUMN IF NOT EXISTS adjusts_submission_id UUID;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS entry_kind VARCHAR(20) NOT NULL DEFAULT 'regular';
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS adjusts_submission_id UUID;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'payroll_entries_entry_kind_check') THEN
+    ALTER TABLE payroll_entries ADD CONSTRAINT payroll_entries_entry_kind_check
+      CHECK (entry_kind IN ('regular', 'reversal', 'replacement'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'payments_entry_kind_check') THEN
+    ALTER TABLE payments ADD CONSTRAINT payments_entry_kind_check
+      CHECK (entry_kind IN ('regular', 'reversal', 'replacement'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_payroll_submissions_adjusts ON payroll_submissions(adjusts_submission_id);
+CREATE INDEX IF NOT EXISTS idx_payments_adjusts ON payments(adjusts_submission_id);
+
+-- Locks. 55000 maps to 409 in the API (see create-payroll-transaction-functions.sql).
+CREATE OR REPLACE FUNCTION lock_approved_payroll_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'approved' THEN
+    RAISE EXCEPTION 'Payroll submission % is approved and locked. Make a correction run instead.', OLD.id
+      USING ERRCODE = '55000';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION lock_approved_payroll_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM payroll_submissions
+    WHERE status = 'approved'
+      AND id IN (
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD.submission_id END,
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW.submission_id END
+      )
+  ) THEN
+    RAISE EXCEPTION 'Entries of approved payroll are locked. Make a correction run instead.' USING ERRCODE = '55000';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+-- Payments imported outside the submit flow (no submission) stay editable
+CREATE OR REPLACE FUNCTION lock_submitted_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.submission_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Payments from approved payroll are locked. Make a correction run instead.' USING ERRCODE = '55000';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payroll_submissions_lock_approved ON payroll_submissions;
+CREATE TRIGGER payroll_submissions_lock_approved
+  BEFORE UPDATE OR DELETE ON payroll_submissions
+  FOR EACH ROW EXECUTE FUNCTION lock_approved_payroll_submission();
+
+DROP TRIGGER IF EXISTS payroll_entries_lock_approved ON payroll_entries;
+CREATE TRIGGER payroll_entries_lock_approved
+  BEFORE INSERT OR UPDATE OR DELETE ON payroll_entries
+  FOR EACH ROW EXECUTE FUNCTION lock_approved_payroll_entries();
+
+DROP TRIGGER IF EXISTS payments_lock_submitted ON payments;
+CREATE TRIGGER payments_lock_submitted
+  BEFORE UPDATE OR DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION lock_submitted_payments();
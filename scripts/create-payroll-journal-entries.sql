@@ -0,0 +1,59 @@
+-- Payroll Journal Entries (Client project)
+-- Approved payroll posted to the general ledger as a balanced journal entry per
+-- submission: wages expense (by location class), accrued payroll liability and,
+-- when configured, employer taxes. See src/lib/payroll/journal.ts.
+--
+-- Lines live in journal_entry_lines (tagged with payroll_submission_id) so the
+-- P&L shows labor cost right away. Once the entry reaches QuickBooks (pushed, or
+-- imported from the CSV/IIF export) the QBO sync pulls it back by doc number and
+-- the local lines are dropped so nothing is counted twice.
+
+-- Accounts are chart-of-accounts names as stored in balance_sheet_accounts.account
+CREATE TABLE IF NOT EXISTS payroll_account_maps (
+  organization_id UUID PRIMARY KEY,
+  wages_expense_account VARCHAR(200) NOT NULL,
+  accrued_payroll_account VARCHAR(200) NOT NULL,
+  -- Employer taxes are posted only when all three are set
+  employer_tax_expense_account VARCHAR(200),
+  employer_tax_liability_account VARCHAR(200),
+  employer_tax_rate NUMERIC(6, 4) CHECK (employer_tax_rate IS NULL OR (employer_tax_rate >= 0 AND employer_tax_rate < 1)), -- 0.0765 = 7.65%
+  -- location id → QBO class name; locations not listed use their name
+  location_classes JSONB NOT NULL DEFAULT '{}',
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS payroll_journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  submission_id UUID NOT NULL UNIQUE REFERENCES payroll_submissions(id) ON DELETE CASCADE,
+  location_id UUID,
+  doc_number VARCHAR(21) NOT NULL, -- QBO DocNumber limit
+  txn_date DATE NOT NULL,
+  total_amount DECIMAL(15, 2) NOT NULL, -- debits = credits
+  -- generated: lines are in journal_entry_lines; exported/pushed: sent to QBO;
+  -- recorded: the QBO sync has the entry, local lines removed
+  status VARCHAR(20) NOT NULL DEFAULT 'generated' CHECK (status IN ('generated', 'exported', 'pushed', 'recorded')),
+  lines JSONB NOT NULL, -- the entry as generated, for export and push
+  qbo_journal_entry_id VARCHAR(50),
+  exported_at TIMESTAMP WITH TIME ZONE,
+  pushed_at TIMESTAMP WITH TIME ZONE,
+  recorded_at TIMESTAMP WITH TIME ZONE,
+  push_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, doc_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_journal_entries_org_date ON payroll_journal_entries(organization_id, txn_date);
+
+-- Service role only
+ALTER TABLE payroll_account_maps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_journal_entries ENABLE ROW LEVEL SECURITY;
+
+-- Locally generated ledger lines; NULL for lines pulled from QBO
+ALTER TABLE journal_entry_lines ADD COLUMN IF NOT EXISTS payroll_submission_id UUID;
+CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_payroll_submission
+  ON journal_entry_lines(payroll_submission_id)
+  WHERE payroll_submission_id IS NOT NULL;
@@ -0,0 +1,59 @@
+-- Payroll Provider Exports (Client project)
+-- Import files for the payroll processor a client runs payroll in (Gusto, ADP
+-- Workforce Now, Paychex Flex), built from a pay date's approved
+-- payroll_entries. See src/lib/payroll/providerFormats.ts for the layouts and
+-- src/lib/payroll/providerExports.ts for how entries become file lines.
+
+-- Per organization and provider: the company/client code the provider knows
+-- the organization by, and which provider earning code each kind of pay maps to
+CREATE TABLE IF NOT EXISTS payroll_provider_settings (
+  organization_id UUID NOT NULL,
+  provider VARCHAR(20) NOT NULL CHECK (provider IN ('gusto', 'adp', 'paychex')),
+  company_code VARCHAR(20), -- ADP Co Code, Paychex client ID
+  batch_id VARCHAR(10), -- ADP batch ID
+  -- { "regular": "...", "overtime": "...", "double_time": "...",
+  --   "production": "...", "fixed": "...", "adjustment": "..." }
+  earning_codes JSONB NOT NULL DEFAULT '{}',
+  -- { "<location id>": "<department / org code>" }
+  location_codes JSONB NOT NULL DEFAULT '{}',
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, provider)
+);
+
+-- Employee ID crosswalk: the ID each provider uses for an employee (ADP file
+-- number, Paychex worker ID, Gusto employee ID)
+CREATE TABLE IF NOT EXISTS employee_provider_ids (
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL,
+  provider VARCHAR(20) NOT NULL CHECK (provider IN ('gusto', 'adp', 'paychex')),
+  external_id VARCHAR(50) NOT NULL,
+  updated_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (employee_id, provider),
+  UNIQUE (organization_id, provider, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_provider_ids_org ON employee_provider_ids(organization_id, provider);
+
+-- One row per generated file, for the audit trail
+CREATE TABLE IF NOT EXISTS payroll_provider_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  provider VARCHAR(20) NOT NULL,
+  pay_date DATE NOT NULL,
+  line_count INTEGER NOT NULL,
+  total_amount DECIMAL(15, 2) NOT NULL,
+  submission_ids UUID[] NOT NULL,
+  exported_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_provider_exports_org_date
+  ON payroll_provider_exports(organization_id, provider, pay_date);
+
+-- Service role only
+ALTER TABLE payroll_provider_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_provider_ids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_provider_exports ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,48 @@
+-- Payroll Submission Reminders (Client project)
+-- A scheduled job (/api/payroll/reminders, see src/lib/payroll/reminders.ts)
+-- reminds location managers whose location hasn't submitted payroll for the
+-- next pay date, or whose submission was rejected, at set days before the
+-- submission cutoff, then escalates the locations still missing to admins.
+-- Notifications land in the in-app inbox below and are emailed through the
+-- transport configured by EMAIL_TRANSPORT (see src/lib/notifications/email.ts).
+
+CREATE TABLE IF NOT EXISTS payroll_reminder_settings (
+  organization_id UUID PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Submissions are due this many days before the pay date
+  cutoff_days INTEGER NOT NULL DEFAULT 3 CHECK (cutoff_days >= 0),
+  -- Days before the cutoff that managers are reminded, e.g. {3,1,0}
+  reminder_offsets INTEGER[] NOT NULL DEFAULT '{3,1,0}',
+  -- Days before the cutoff that admins are told about locations still missing;
+  -- negative values escalate after the cutoff has passed
+  escalation_offset INTEGER NOT NULL DEFAULT 0,
+  send_email BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- In-app inbox. dedupe_key makes each reminder stage go out once per user,
+-- however often the job runs.
+CREATE TABLE IF NOT EXISTS user_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  user_id UUID NOT NULL, -- Platform users.id
+  kind VARCHAR(40) NOT NULL, -- payroll_reminder | payroll_escalation
+  title VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  link VARCHAR(500),
+  dedupe_key VARCHAR(255) NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  email_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_notifications_user ON user_notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_notifications_unread ON user_notifications(user_id) WHERE read_at IS NULL;
+
+-- Service role only
+ALTER TABLE payroll_reminder_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_notifications ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,174 @@
+-- Payroll Timesheet Snapshots (Client project)
+-- Shift-level detail behind each hourly payroll entry, as synced from Connecteam
+-- and corrected by managers on the submit pages. Written through
+-- /api/payroll/submissions/[submissionId]/timesheet via src/lib/payroll/timesheetStore.ts,
+-- which calls save_payroll_timesheet below.
+
+CREATE TABLE IF NOT EXISTS payroll_timesheet_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  submission_id UUID NOT NULL REFERENCES payroll_submissions(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL,
+  shift_key VARCHAR(128) NOT NULL, -- Connecteam shift id, or user id + clock-in
+  work_date DATE, -- local date the shift counts on; NULL when both timestamps are missing
+  -- What Connecteam recorded; never changed by a correction
+  original_start TIMESTAMP WITH TIME ZONE,
+  original_end TIMESTAMP WITH TIME ZONE,
+  original_break_minutes INTEGER NOT NULL DEFAULT 0,
+  -- Manager correction; all NULL when the shift is paid as recorded
+  adjusted_start TIMESTAMP WITH TIME ZONE,
+  adjusted_end TIMESTAMP WITH TIME ZONE,
+  adjusted_break_minutes INTEGER,
+  adjustment_reason TEXT,
+  adjusted_by UUID,
+  adjusted_at TIMESTAMP WITH TIME ZONE,
+  auto_break_minutes INTEGER NOT NULL DEFAULT 0,
+  paid_hours NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  flags TEXT[] NOT NULL DEFAULT '{}', -- missing_start, missing_end, over_14h
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (submission_id, employee_id, shift_key),
+  CHECK (adjusted_at IS NULL OR adjustment_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_timesheet_shifts_submission ON payroll_timesheet_shifts(submission_id);
+
+-- Append-only: one row per correction, revert or removed shift, previous vs new
+-- values (new_* are NULL for a removed shift)
+CREATE TABLE IF NOT EXISTS payroll_timesheet_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  submission_id UUID NOT NULL REFERENCES payroll_submissions(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL,
+  shift_key VARCHAR(128) NOT NULL,
+  previous_start TIMESTAMP WITH TIME ZONE,
+  previous_end TIMESTAMP WITH TIME ZONE,
+  previous_break_minutes INTEGER,
+  new_start TIMESTAMP WITH TIME ZONE,
+  new_end TIMESTAMP WITH TIME ZONE,
+  new_break_minutes INTEGER,
+  reason TEXT NOT NULL,
+  adjusted_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_timesheet_adjustments_submission
+  ON payroll_timesheet_adjustments(submission_id, employee_id);
+
+-- What Connecteam recorded for each shift, written by /api/connecteam/hours on
+-- every import. Timesheet saves take a shift's original times from here, never
+-- from the client.
+CREATE TABLE IF NOT EXISTS payroll_imported_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  location_id UUID NOT NULL,
+  employee_id UUID NOT NULL,
+  shift_key VARCHAR(128) NOT NULL,
+  original_start TIMESTAMP WITH TIME ZONE,
+  original_end TIMESTAMP WITH TIME ZONE,
+  original_break_minutes INTEGER NOT NULL DEFAULT 0,
+  imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (location_id, employee_id, shift_key)
+);
+
+-- Replaces a submission's snapshot and appends its audit rows in one
+-- transaction. p_shifts and p_adjustments are built by saveTimesheets; the
+-- organization comes from the submission. Approved submissions, and pending
+-- ones a reviewer has already approved a step of (since the last rejection),
+-- can't change: 55000, like the functions in
+-- create-payroll-transaction-functions.sql.
+CREATE OR REPLACE FUNCTION save_payroll_timesheet(
+  p_submission_id UUID,
+  p_shifts JSONB,
+  p_adjustments JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission payroll_submissions%ROWTYPE;
+  v_round_start TIMESTAMP WITH TIME ZONE;
+  v_count INTEGER;
+BEGIN
+  IF jsonb_typeof(p_shifts) IS DISTINCT FROM 'array' OR jsonb_typeof(p_adjustments) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Shifts and adjustments must be arrays' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_submission FROM payroll_submissions WHERE id = p_submission_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_submission.status = 'approved' THEN
+    RAISE EXCEPTION 'Submission is approved; its timesheets can''t change' USING ERRCODE = '55000';
+  END IF;
+  IF v_submission.status = 'pending' THEN
+    SELECT COALESCE(MAX(created_at), '-infinity') INTO v_round_start
+    FROM payroll_approvals WHERE submission_id = p_submission_id AND action = 'rejected';
+
+    IF EXISTS (
+      SELECT 1 FROM payroll_approvals
+      WHERE submission_id = p_submission_id AND action = 'approved' AND created_at > v_round_start
+    ) THEN
+      RAISE EXCEPTION 'Submission is partway through approval; its timesheets can''t change' USING ERRCODE = '55000';
+    END IF;
+  END IF;
+
+  DELETE FROM payroll_timesheet_shifts WHERE submission_id = p_submission_id;
+
+  INSERT INTO payroll_timesheet_shifts (
+    organization_id, submission_id, employee_id, shift_key, work_date,
+    original_start, original_end, original_break_minutes,
+    adjusted_start, adjusted_end, adjusted_break_minutes, adjustment_reason, adjusted_by, adjusted_at,
+    auto_break_minutes, paid_hours, flags, updated_at
+  )
+  SELECT
+    v_submission.organization_id, p_submission_id, s.employee_id, s.shift_key, s.work_date,
+    s.original_start, s.original_end, COALESCE(s.original_break_minutes, 0),
+    s.adjusted_start, s.adjusted_end, s.adjusted_break_minutes, s.adjustment_reason, s.adjusted_by, s.adjusted_at,
+    COALESCE(s.auto_break_minutes, 0), COALESCE(s.paid_hours, 0), COALESCE(s.flags, '{}'), NOW()
+  FROM jsonb_to_recordset(p_shifts) AS s(
+    employee_id UUID,
+    shift_key VARCHAR(128),
+    work_date DATE,
+    original_start TIMESTAMP WITH TIME ZONE,
+    original_end TIMESTAMP WITH TIME ZONE,
+    original_break_minutes INTEGER,
+    adjusted_start TIMESTAMP WITH TIME ZONE,
+    adjusted_end TIMESTAMP WITH TIME ZONE,
+    adjusted_break_minutes INTEGER,
+    adjustment_reason TEXT,
+    adjusted_by UUID,
+    adjusted_at TIMESTAMP WITH TIME ZONE,
+    auto_break_minutes INTEGER,
+    paid_hours NUMERIC(10, 2),
+    flags TEXT[]
+  );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO payroll_timesheet_adjustments (
+    organization_id, submission_id, employee_id, shift_key,
+    previous_start, previous_end, previous_break_minutes,
+    new_start, new_end, new_break_minutes, reason, adjusted_by
+  )
+  SELECT
+    v_submission.organization_id, p_submission_id, a.employee_id, a.shift_key,
+    a.previous_start, a.previous_end, a.previous_break_minutes,
+    a.new_start, a.new_end, a.new_break_minutes, a.reason, a.adjusted_by
+  FROM jsonb_to_recordset(p_adjustments) AS a(
+    employee_id UUID,
+    shift_key VARCHAR(128),
+    previous_start TIMESTAMP WITH TIME ZONE,
+    previous_end TIMESTAMP WITH TIME ZONE,
+    previous_break_minutes INTEGER,
+    new_start TIMESTAMP WITH TIME ZONE,
+    new_end TIMESTAMP WITH TIME ZONE,
+    new_break_minutes INTEGER,
+    reason TEXT,
+    adjusted_by UUID
+  );
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_payroll_timesheet(UUID, JSONB, JSONB) TO service_role;
@@ -0,0 +1,471 @@
+-- Transactional Payroll Submit / Review (Client project)
+-- Called from /api/payroll/submit via src/lib/payroll/submissions.ts. Each
+-- function runs in a single transaction: either every row is written or none is.
+--
+-- Errors use these SQLSTATEs so the API can map them to HTTP statuses:
+--   P0002  submission or location not found          -> 404
+--   55000  submission is not in a state for this action -> 409
+--   22023  invalid argument                           -> 400
+--
+-- Apply after the scripts that add the columns these functions use, in this
+-- order on a fresh database:
+--   create-location-payroll-policies.sql  (regular/overtime/double-time hours)
+--   create-payroll-approval-policies.sql  (payroll_approvals step columns)
+--   create-payroll-corrections.sql        (correction columns and locks)
+--   create-payroll-transaction-functions.sql
+-- Re-apply this script whenever one of those changes. The check below stops
+-- before anything is replaced if one of them hasn't been applied yet.
+
+DO $$
+DECLARE
+  v_missing TEXT;
+BEGIN
+  SELECT string_agg(format('%s.%s (%s)', r.tbl, r.col, r.script), ', ')
+  INTO v_missing
+  FROM (VALUES
+    ('payroll_entries', 'double_time_hours', 'create-location-payroll-policies.sql'),
+    ('payments', 'double_time_hours', 'create-location-payroll-policies.sql'),
+    ('payroll_approvals', 'step_index', 'create-payroll-approval-policies.sql'),
+    ('payroll_submissions', 'adjusts_submission_id', 'create-payroll-corrections.sql'),
+    ('payroll_entries', 'entry_kind', 'create-payroll-corrections.sql'),
+    ('payments', 'entry_kind', 'create-payroll-corrections.sql')
+  ) AS r(tbl, col, script)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM information_schema.columns c
+    WHERE c.table_schema = 'public' AND c.table_name = r.tbl AND c.column_name = r.col
+  );
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Missing columns: %. Apply those scripts first.', v_missing;
+  END IF;
+END;
+$$;
+
+-- Creates a submission with its entries, or replaces the entries of an existing
+-- draft/rejected submission (p_submission_id). p_status 'draft' saves without
+-- sending it for approval; 'pending' submits it.
+-- p_entries: [{employee_id, employee_name, employee_first_name, employee_last_name,
+--              employee_type, hours, regular_hours, overtime_hours, double_time_hours,
+--              units, fixed_count, adjustment_amount, rate, amount, notes}]
+DROP FUNCTION IF EXISTS submit_payroll(UUID, DATE, TEXT, DATE, DATE, UUID, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION submit_payroll(
+  p_location_id UUID,
+  p_pay_date DATE,
+  p_payroll_group TEXT,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_submitted_by UUID,
+  p_entries JSONB,
+  p_submission_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_submission payroll_submissions%ROWTYPE;
+  v_total_amount NUMERIC;
+  v_total_hours NUMERIC;
+  v_total_units NUMERIC;
+  v_count INTEGER;
+BEGIN
+  IF p_entries IS NULL OR jsonb_typeof(p_entries) <> 'array' OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'At least one payroll entry is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_status NOT IN ('draft', 'pending') THEN
+    RAISE EXCEPTION 'Invalid status %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT organization_id INTO v_organization_id FROM locations WHERE id = p_location_id;
+  IF v_organization_id IS NULL THEN
+    RAISE EXCEPTION 'Location % not found', p_location_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT
+    COALESCE(SUM((e->>'amount')::NUMERIC), 0),
+    COALESCE(SUM((e->>'hours')::NUMERIC), 0),
+    COALESCE(SUM((e->>'units')::NUMERIC), 0),
+    COUNT(*)
+  INTO v_total_amount, v_total_hours, v_total_units, v_count
+  FROM jsonb_array_elements(p_entries) e;
+
+  IF p_submission_id IS NOT NULL THEN
+    SELECT * INTO v_submission FROM payroll_submissions WHERE id = p_submission_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Submission % not found', p_submission_id USING ERRCODE = 'P0002';
+    END IF;
+    IF v_submission.status NOT IN ('draft', 'rejected') THEN
+      RAISE EXCEPTION 'Submission is % and cannot be resubmitted', v_submission.status USING ERRCODE = '55000';
+    END IF;
+    IF v_submission.location_id <> p_location_id THEN
+      RAISE EXCEPTION 'Submission belongs to a different location' USING ERRCODE = '22023';
+    END IF;
+    IF v_submission.adjusts_submission_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Correction runs cannot be resubmitted; create a new correction' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE payroll_submissions SET
+      status = p_status,
+      total_amount = v_total_amount,
+      total_employees = v_count,
+      employee_count = v_count,
+      total_hours = NULLIF(v_total_hours, 0),
+      total_units = NULLIF(v_total_units, 0),
+      submitted_by = p_submitted_by,
+      submitted_at = NOW(),
+      updated_at = NOW(),
+      rejected_by = NULL,
+      rejected_at = NULL,
+      rejection_note = NULL
+    WHERE id = p_submission_id
+    RETURNING * INTO v_submission;
+
+    DELETE FROM payroll_entries WHERE submission_id = p_submission_id;
+  ELSE
+    INSERT INTO payroll_submissions (
+      organization_id, location_id, pay_date, payroll_group, period_start, period_end,
+      total_amount, total_employees, employee_count, total_hours, total_units,
+      submitted_by, status, submitted_at
+    ) VALUES (
+      v_organization_id, p_location_id, p_pay_date, p_payroll_group, p_period_start, p_period_end,
+      v_total_amount, v_count, v_count, NULLIF(v_total_hours, 0), NULLIF(v_total_units, 0),
+      p_submitted_by, p_status, NOW()
+    )
+    RETURNING * INTO v_submission;
+  END IF;
+
+  INSERT INTO payroll_entries (
+    organization_id, submission_id, employee_id, employee_name, employee_first_name, employee_last_name,
+    employee_type, hours, regular_hours, overtime_hours, double_time_hours,
+    units, fixed_count, adjustment_amount, rate, amount, notes
+  )
+  SELECT
+    v_organization_id, v_submission.id, e.employee_id,
+    COALESCE(e.employee_name, NULLIF(TRIM(CONCAT_WS(' ', e.employee_first_name, e.employee_last_name)), '')),
+    e.employee_first_name, e.employee_last_name,
+    e.employee_type, e.hours, e.regular_hours, e.overtime_hours, e.double_time_hours,
+    e.units, e.fixed_count, e.adjustment_amount, e.rate, e.amount, e.notes
+  FROM jsonb_to_recordset(p_entries) AS e(
+    employee_id UUID,
+    employee_name TEXT,
+    employee_first_name TEXT,
+    employee_last_name TEXT,
+    employee_type TEXT,
+    hours NUMERIC,
+    regular_hours NUMERIC,
+    overtime_hours NUMERIC,
+    double_time_hours NUMERIC,
+    units NUMERIC,
+    fixed_count NUMERIC,
+    adjustment_amount NUMERIC,
+    rate NUMERIC,
+    amount NUMERIC,
+    notes TEXT
+  );
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission.id,
+    'submission_number', v_submission.submission_number,
+    'organization_id', v_organization_id,
+    'status', v_submission.status,
+    'entry_count', v_count,
+    'total_amount', v_total_amount,
+    'resubmitted', p_submission_id IS NOT NULL
+  );
+END;
+$$;
+
+-- Approves (writing payments) or rejects a pending submission. The row lock
+-- makes a second concurrent approval wait and then fail the status check.
+--
+-- With an approval chain (create-payroll-approval-policies.sql) p_step_index
+-- names the step being approved. p_final = FALSE records that step only and
+-- leaves the submission pending. Within one review round (since the last
+-- rejection) a step is approved once and each reviewer approves at most once.
+DROP FUNCTION IF EXISTS review_payroll_submission(UUID, TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION review_payroll_submission(
+  p_submission_id UUID,
+  p_action TEXT,
+  p_reviewed_by UUID,
+  p_notes TEXT DEFAULT NULL,
+  p_step_index INTEGER DEFAULT NULL,
+  p_step_name TEXT DEFAULT NULL,
+  p_final BOOLEAN DEFAULT TRUE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission payroll_submissions%ROWTYPE;
+  v_location_name TEXT;
+  v_entry_count INTEGER;
+  v_payments INTEGER := 0;
+  v_round_start TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid action "%". Must be "approved" or "rejected"', p_action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_submission FROM payroll_submissions WHERE id = p_submission_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_submission.status <> 'pending' THEN
+    RAISE EXCEPTION 'Submission is already %', v_submission.status USING ERRCODE = '55000';
+  END IF;
+
+  SELECT COUNT(*) INTO v_entry_count FROM payroll_entries WHERE submission_id = p_submission_id;
+  IF v_entry_count = 0 THEN
+    RAISE EXCEPTION 'Submission has no payroll entries' USING ERRCODE = '55000';
+  END IF;
+
+  IF p_action = 'approved' AND p_step_index IS NOT NULL THEN
+    SELECT COALESCE(MAX(created_at), '-infinity') INTO v_round_start
+    FROM payroll_approvals WHERE submission_id = p_submission_id AND action = 'rejected';
+
+    IF EXISTS (
+      SELECT 1 FROM payroll_approvals
+      WHERE submission_id = p_submission_id AND action = 'approved' AND created_at > v_round_start
+        AND (step_index = p_step_index OR approved_by = p_reviewed_by)
+    ) THEN
+      RAISE EXCEPTION 'Step % is already approved, or this reviewer already approved the submission', p_step_index
+        USING ERRCODE = '55000';
+    END IF;
+  END IF;
+
+  IF p_action = 'approved' AND NOT p_final THEN
+    INSERT INTO payroll_approvals (
+      organization_id, submission_id, approved_by, approved_at, action, notes, step_index, step_name, created_at
+    )
+    VALUES (
+      v_submission.organization_id, p_submission_id, p_reviewed_by, NOW(), p_action, p_notes, p_step_index, p_step_name, NOW()
+    );
+
+    RETURN jsonb_build_object(
+      'submission_id', p_submission_id,
+      'organization_id', v_submission.organization_id,
+      'status', 'pending',
+      'entry_count', v_entry_count,
+      'payments_created', 0
+    );
+  END IF;
+
+  IF p_action = 'approved' THEN
+    -- Entries first: once the submission is approved they are locked
+    UPDATE payroll_entries SET status = 'approved' WHERE submission_id = p_submission_id;
+
+    UPDATE payroll_submissions
+    SET status = 'approved', approved_by = p_reviewed_by, approved_at = NOW()
+    WHERE id = p_submission_id;
+
+    SELECT name INTO v_location_name FROM locations WHERE id = v_submission.location_id;
+
+    -- Historical payroll
+    INSERT INTO payments (
+      organization_id, submission_id, location_id, employee_id, first_name, last_name, department,
+      date, total_amount, hours, regular_hours, overtime_hours, double_time_hours,
+      units, rate, payroll_group, payment_method, source, entry_kind, adjusts_submission_id, created_at
+    )
+    SELECT
+      v_submission.organization_id, p_submission_id, v_submission.location_id, e.employee_id,
+      COALESCE(e.employee_first_name, split_part(COALESCE(e.employee_name, 'Unknown'), ' ', 1)),
+      COALESCE(e.employee_last_name, NULLIF(regexp_replace(COALESCE(e.employee_name, ''), '^\S+\s*', ''), ''), ''),
+      COALESCE(v_location_name, 'Unknown Location'),
+      v_submission.pay_date, e.amount, e.hours, e.regular_hours, e.overtime_hours, e.double_time_hours,
+      e.units, e.rate, v_submission.payroll_group,
+      'Direct Deposit', 'system', e.entry_kind, v_submission.adjusts_submission_id, NOW()
+    FROM payroll_entries e
+    WHERE e.submission_id = p_submission_id;
+
+    GET DIAGNOSTICS v_payments = ROW_COUNT;
+  ELSE
+    UPDATE payroll_submissions
+    SET status = 'rejected', rejected_by = p_reviewed_by, rejected_at = NOW(), rejection_note = p_notes
+    WHERE id = p_submission_id;
+
+    UPDATE payroll_entries SET status = 'rejected' WHERE submission_id = p_submission_id;
+  END IF;
+
+  INSERT INTO payroll_approvals (
+    organization_id, submission_id, approved_by, approved_at, action, notes, step_index, step_name, created_at
+  )
+  VALUES (
+    v_submission.organization_id, p_submission_id, p_reviewed_by, NOW(), p_action, p_notes, p_step_index, p_step_name, NOW()
+  );
+
+  RETURN jsonb_build_object(
+    'submission_id', p_submission_id,
+    'organization_id', v_submission.organization_id,
+    'status', p_action,
+    'entry_count', v_entry_count,
+    'payments_created', v_payments
+  );
+END;
+$$;
+
+-- Opens a correction run against an approved submission: a pending submission
+-- for the same location and pay date whose entries reverse each listed
+-- employee's approved values (the original plus approved corrections) and
+-- replace them with the corrected ones. remove = true reverses without a
+-- replacement; employees not in the original only get a replacement.
+-- p_entries: submit_payroll's entry shape plus an optional remove flag.
+CREATE OR REPLACE FUNCTION create_payroll_correction(
+  p_submission_id UUID,
+  p_reason TEXT,
+  p_created_by UUID,
+  p_entries JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_original payroll_submissions%ROWTYPE;
+  v_correction payroll_submissions%ROWTYPE;
+  v_total_amount NUMERIC;
+  v_total_hours NUMERIC;
+  v_total_units NUMERIC;
+  v_count INTEGER;
+  v_employees INTEGER;
+BEGIN
+  IF p_reason IS NULL OR TRIM(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required for a correction' USING ERRCODE = '22023';
+  END IF;
+  IF p_entries IS NULL OR jsonb_typeof(p_entries) <> 'array' OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'At least one corrected entry is required' USING ERRCODE = '22023';
+  END IF;
+  IF (SELECT COUNT(*) - COUNT(DISTINCT e->>'employee_id') FROM jsonb_array_elements(p_entries) e) > 0 THEN
+    RAISE EXCEPTION 'Each employee can appear once in a correction' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_original FROM payroll_submissions WHERE id = p_submission_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_original.adjusts_submission_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Correct the original submission, not a correction run' USING ERRCODE = '22023';
+  END IF;
+  IF v_original.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved payroll is corrected; this submission is %', v_original.status USING ERRCODE = '55000';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM payroll_submissions
+    WHERE adjusts_submission_id = p_submission_id AND status IN ('draft', 'pending')
+  ) THEN
+    RAISE EXCEPTION 'A correction for this submission is already waiting for approval' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO payroll_submissions (
+    organization_id, location_id, pay_date, payroll_group, period_start, period_end,
+    total_amount, total_employees, employee_count, submitted_by, status, submitted_at,
+    adjusts_submission_id, correction_reason
+  ) VALUES (
+    v_original.organization_id, v_original.location_id, v_original.pay_date, v_original.payroll_group,
+    v_original.period_start, v_original.period_end,
+    0, 0, 0, p_created_by, 'pending', NOW(),
+    p_submission_id, TRIM(p_reason)
+  )
+  RETURNING * INTO v_correction;
+
+  -- Reversals of what is approved today for each listed employee
+  INSERT INTO payroll_entries (
+    organization_id, submission_id, employee_id, employee_name, employee_first_name, employee_last_name,
+    employee_type, hours, regular_hours, overtime_hours, double_time_hours,
+    units, fixed_count, adjustment_amount, rate, amount, notes, entry_kind, adjusts_submission_id
+  )
+  SELECT
+    v_original.organization_id, v_correction.id, c.employee_id, c.employee_name, c.employee_first_name,
+    c.employee_last_name, c.employee_type, -c.hours, -c.regular_hours, -c.overtime_hours, -c.double_time_hours,
+    -c.units, -c.fixed_count, -c.adjustment_amount, c.rate, -c.amount,
+    'Reversal: ' || TRIM(p_reason), 'reversal', p_submission_id
+  FROM (
+    SELECT
+      pe.employee_id,
+      (ARRAY_AGG(pe.employee_name ORDER BY s.created_at DESC))[1] AS employee_name,
+      (ARRAY_AGG(pe.employee_first_name ORDER BY s.created_at DESC))[1] AS employee_first_name,
+      (ARRAY_AGG(pe.employee_last_name ORDER BY s.created_at DESC))[1] AS employee_last_name,
+      (ARRAY_AGG(pe.employee_type ORDER BY s.created_at DESC))[1] AS employee_type,
+      (ARRAY_AGG(pe.rate ORDER BY s.created_at DESC))[1] AS rate,
+      SUM(pe.hours) AS hours,
+      SUM(pe.regular_hours) AS regular_hours,
+      SUM(pe.overtime_hours) AS overtime_hours,
+      SUM(pe.double_time_hours) AS double_time_hours,
+      SUM(pe.units) AS units,
+      SUM(pe.fixed_count) AS fixed_count,
+      SUM(pe.adjustment_amount) AS adjustment_amount,
+      COALESCE(SUM(pe.amount), 0) AS amount
+    FROM payroll_entries pe
+    JOIN payroll_submissions s ON s.id = pe.submission_id
+    WHERE (s.id = p_submission_id OR s.adjusts_submission_id = p_submission_id)
+      AND s.status = 'approved'
+      AND pe.employee_id IN (SELECT (e->>'employee_id')::UUID FROM jsonb_array_elements(p_entries) e)
+    GROUP BY pe.employee_id
+  ) c
+  WHERE c.amount <> 0 OR COALESCE(c.hours, 0) <> 0 OR COALESCE(c.units, 0) <> 0;
+
+  INSERT INTO payroll_entries (
+    organization_id, submission_id, employee_id, employee_name, employee_first_name, employee_last_name,
+    employee_type, hours, regular_hours, overtime_hours, double_time_hours,
+    units, fixed_count, adjustment_amount, rate, amount, notes, entry_kind, adjusts_submission_id
+  )
+  SELECT
+    v_original.organization_id, v_correction.id, e.employee_id,
+    COALESCE(e.employee_name, NULLIF(TRIM(CONCAT_WS(' ', e.employee_first_name, e.employee_last_name)), '')),
+    e.employee_first_name, e.employee_last_name,
+    e.employee_type, e.hours, e.regular_hours, e.overtime_hours, e.double_time_hours,
+    e.units, e.fixed_count, e.adjustment_amount, e.rate, e.amount, COALESCE(e.notes, TRIM(p_reason)),
+    'replacement', p_submission_id
+  FROM jsonb_to_recordset(p_entries) AS e(
+    employee_id UUID,
+    employee_name TEXT,
+    employee_first_name TEXT,
+    employee_last_name TEXT,
+    employee_type TEXT,
+    hours NUMERIC,
+    regular_hours NUMERIC,
+    overtime_hours NUMERIC,
+    double_time_hours NUMERIC,
+    units NUMERIC,
+    fixed_count NUMERIC,
+    adjustment_amount NUMERIC,
+    rate NUMERIC,
+    amount NUMERIC,
+    notes TEXT,
+    remove BOOLEAN
+  )
+  WHERE NOT COALESCE(e.remove, FALSE);
+
+  SELECT
+    COALESCE(SUM(amount), 0), COALESCE(SUM(hours), 0), COALESCE(SUM(units), 0),
+    COUNT(*), COUNT(DISTINCT employee_id)
+  INTO v_total_amount, v_total_hours, v_total_units, v_count, v_employees
+  FROM payroll_entries WHERE submission_id = v_correction.id;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Nothing to correct: the listed employees have no approved pay to reverse' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE payroll_submissions SET
+    total_amount = v_total_amount,
+    total_employees = v_employees,
+    employee_count = v_employees,
+    total_hours = NULLIF(v_total_hours, 0),
+    total_units = NULLIF(v_total_units, 0)
+  WHERE id = v_correction.id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_correction.id,
+    'adjusts_submission_id', p_submission_id,
+    'organization_id', v_original.organization_id,
+    'status', 'pending',
+    'entry_count', v_count,
+    'total_amount', v_total_amount
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_payroll(UUID, DATE, TEXT, DATE, DATE, UUID, JSONB, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION review_payroll_submission(UUID, TEXT, UUID, TEXT, INTEGER, TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION create_payroll_correction(UUID, TEXT, UUID, JSONB) TO service_role;
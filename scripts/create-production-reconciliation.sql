@@ -0,0 +1,60 @@
+-- Production Reconciliation Queue (Client project)
+-- Connecteam form submissions that /api/connecteam/production couldn't match to
+-- an employee are stored here instead of being dropped, so a manager can
+-- assign them to an employee or mark them non-payable before submitting
+-- payroll. See src/lib/connecteam/reconciliation.ts.
+
+CREATE TABLE IF NOT EXISTS production_reconciliation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  form_submission_id TEXT NOT NULL UNIQUE,
+  form_id BIGINT,
+  submitting_user_id BIGINT,
+  user_email VARCHAR(255), -- lower-cased
+  submission_date DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'assigned', 'non_payable')),
+  employee_id UUID, -- set when assigned
+  resolution_source VARCHAR(20) CHECK (resolution_source IN ('manual', 'rule')),
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (status <> 'assigned' OR employee_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_reconciliation_queue
+  ON production_reconciliation_items(location_id, submission_date)
+  WHERE status = 'open';
+
+-- Remembered assignments: later submissions from the same submitter at the
+-- location are assigned (or, with employee_id NULL, marked non-payable) automatically
+CREATE TABLE IF NOT EXISTS production_submitter_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  submitting_user_id BIGINT,
+  user_email VARCHAR(255), -- only used when the submission has no user id
+  employee_id UUID, -- NULL = non-payable
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (submitting_user_id IS NOT NULL OR user_email IS NOT NULL)
+);
+
+-- A rule keys on the user id, or on the email when there is none (the other
+-- column is NULL), so full unique indexes hold one rule per submitter. They
+-- must not be partial: resolveItem upserts ON CONFLICT (location_id, ...),
+-- which can't use a partial index.
+DROP INDEX IF EXISTS idx_production_submitter_rules_user;
+DROP INDEX IF EXISTS idx_production_submitter_rules_email;
+
+UPDATE production_submitter_rules SET user_email = NULL
+WHERE submitting_user_id IS NOT NULL AND user_email IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_production_submitter_rules_location_user
+  ON production_submitter_rules(location_id, submitting_user_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_production_submitter_rules_location_email
+  ON production_submitter_rules(location_id, user_email);
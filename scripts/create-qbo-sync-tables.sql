@@ -0,0 +1,59 @@
+-- QuickBooks Online Sync Tables
+
+-- OAuth connection per organization (one QBO company / realm each)
+CREATE TABLE IF NOT EXISTS qbo_connections (
+  organization_id UUID PRIMARY KEY,
+  realm_id VARCHAR(50) NOT NULL,
+  access_token TEXT,
+  refresh_token TEXT NOT NULL,
+  access_token_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Per-organization change cursors, one row per synced stream
+-- stream: general_ledger, ar_aging, ap_aging, accounts
+CREATE TABLE IF NOT EXISTS qbo_sync_cursors (
+  organization_id UUID NOT NULL,
+  stream VARCHAR(50) NOT NULL,
+  cursor_value TEXT, -- ISO timestamp of the last successful pull
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, stream)
+);
+
+-- General ledger lines: organization scoping + QBO source identifiers
+ALTER TABLE journal_entry_lines ADD COLUMN IF NOT EXISTS organization_id UUID;
+ALTER TABLE journal_entry_lines ADD COLUMN IF NOT EXISTS qbo_txn_id VARCHAR(50);
+ALTER TABLE journal_entry_lines ADD COLUMN IF NOT EXISTS qbo_txn_type VARCHAR(50);
+ALTER TABLE journal_entry_lines ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE;
+
+-- Idempotent upserts key on entry_number + line_sequence within an organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entry_lines_org_entry_line
+  ON journal_entry_lines(organization_id, entry_number, line_sequence);
+CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_org_date ON journal_entry_lines(organization_id, date);
+CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_qbo_txn ON journal_entry_lines(organization_id, qbo_txn_type, qbo_txn_id);
+
+-- Aging snapshots are reconciled on every sync; qbo_txn_id identifies each open item
+ALTER TABLE ar_aging_detail ADD COLUMN IF NOT EXISTS organization_id UUID;
+ALTER TABLE ar_aging_detail ADD COLUMN IF NOT EXISTS qbo_txn_id VARCHAR(50);
+ALTER TABLE ar_aging_detail ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ar_aging_detail_org_txn ON ar_aging_detail(organization_id, qbo_txn_id);
+
+ALTER TABLE ap_aging ADD COLUMN IF NOT EXISTS organization_id UUID;
+ALTER TABLE ap_aging ADD COLUMN IF NOT EXISTS qbo_txn_id VARCHAR(50);
+ALTER TABLE ap_aging ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ap_aging_org_txn ON ap_aging(organization_id, qbo_txn_id);
+
+-- Chart of accounts
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS organization_id UUID;
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS qbo_account_id VARCHAR(50);
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS account VARCHAR(200);
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS account_type VARCHAR(100);
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS detail_type VARCHAR(100);
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS classification VARCHAR(50); -- Asset, Liability, Equity, Revenue, Expense
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS current_balance DECIMAL(15,2);
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE;
+ALTER TABLE balance_sheet_accounts ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_balance_sheet_accounts_org_qbo
+  ON balance_sheet_accounts(organization_id, qbo_account_id);
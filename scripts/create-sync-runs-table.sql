@@ -0,0 +1,21 @@
+-- Sync Run History
+
+-- One row per sync attempt, written when the run starts and completed when it ends
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  source VARCHAR(50) NOT NULL DEFAULT 'quickbooks', -- quickbooks, connecteam, ...
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+  triggered_by VARCHAR(255), -- user id/email, or 'schedule'
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  rows_added INTEGER DEFAULT 0,
+  rows_changed INTEGER DEFAULT 0,
+  rows_deleted INTEGER DEFAULT 0,
+  error_text TEXT,
+  streams JSONB, -- per-stream counts and errors
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_org_started ON sync_runs(organization_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_org_status ON sync_runs(organization_id, status);
@@ -0,0 +1,34 @@
+// scripts/fake-qbo-server.ts
+// Local stand-in for the QuickBooks Online API so /api/sync can be exercised
+// without an Intuit sandbox.
+// Run with: npx tsx scripts/fake-qbo-server.ts [fixtures.json]
+// Then start the app with:
+//   QBO_API_BASE_URL=http://localhost:4010
+//   QBO_OAUTH_TOKEN_URL=http://localhost:4010/oauth2/v1/tokens/bearer
+//
+// Fixture file shape (every key optional):
+// {
+//   "accounts": [{ "Id": "1", "Name": "Checking", "AccountType": "Bank", "Classification": "Asset" }],
+//   "classes": [{ "Id": "5", "Name": "Downtown" }],
+//   "reports": { "GeneralLedger": {...}, "AgedReceivableDetail": {...}, "AgedPayableDetail": {...} },
+//   "changes": { "Invoice": [{ "Id": "42", "TxnDate": "2025-01-15" }] }
+// }
+// The server itself is src/test/fakeQboServer.ts, which the sync tests use too.
+
+import { readFileSync } from 'fs'
+import { createFakeQboServer, type QboFixtures } from '../src/test/fakeQboServer'
+
+const PORT = Number(process.env.FAKE_QBO_PORT || 4010)
+const fixturesPath = process.argv[2]
+
+// Re-read on every request so fixtures can be edited between sync runs
+const loadFixtures = (): QboFixtures => (fixturesPath ? JSON.parse(readFileSync(fixturesPath, 'utf8')) : {})
+
+const server = createFakeQboServer(loadFixtures, (request) => {
+  const query = new URLSearchParams(request.params).toString()
+  console.log(`📥 ${request.method} ${request.path}${query ? `?${query}` : ''}`)
+})
+
+server.listen(PORT, () => {
+  console.log(`🧪 Fake QBO server listening on http://localhost:${PORT}`)
+})
@@ -0,0 +1,25 @@
+// scripts/fake-smtp-server.ts
+// Local stand-in for an SMTP server so email notifications (payroll reminders)
+// can be exercised without a mail provider. Accepts everything, prints each
+// message and, given a file, appends it there as one JSON object per line.
+// Run with: npx tsx scripts/fake-smtp-server.ts [outbox.jsonl]
+// Then start the app with:
+//   EMAIL_TRANSPORT=smtp
+//   SMTP_HOST=localhost
+//   SMTP_PORT=1025
+// The server itself is src/test/fakeSmtpServer.ts, which the tests use too.
+
+import { appendFileSync } from 'fs'
+import { createFakeSmtpServer } from '../src/test/fakeSmtpServer'
+
+const PORT = Number(process.env.FAKE_SMTP_PORT || 1025)
+const outboxPath = process.argv[2]
+
+const server = createFakeSmtpServer((message) => {
+  console.log(`📨 ${message.from} → ${message.to.join(', ')}\n${message.data}\n`)
+  if (outboxPath) appendFileSync(outboxPath, JSON.stringify(message) + '\n')
+})
+
+server.listen(PORT, () => {
+  console.log(`📮 Fake SMTP server listening on localhost:${PORT}${outboxPath ? `, writing to ${outboxPath}` : ''}`)
+})
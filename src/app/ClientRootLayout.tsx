@@ -5,7 +5,7 @@ import { useEffect } from "react"
 
 import "./globals.css"
 
-import { getAuthClient, syncDataClientSession } from "@/lib/supabase/client"
+import { getAuthClient, syncDataClientSession, syncSessionCookie } from "@/lib/supabase/client"
 
 // Use sessionStorage instead of in-memory flag for mobile persistence
 const PKCE_PROCESSED_KEY = "pkce_callback_processed"
@@ -113,12 +113,14 @@ export default function ClientRootLayout({ children }: ClientRootLayoutProps) {
     const authClient = getAuthClient()
 
     void authClient.auth.getSession().then(async ({ data }) => {
+      syncSessionCookie(data.session ?? null)
       await syncDataClientSession(data.session ?? null)
     })
 
     const {
       data: { subscription },
     } = authClient.auth.onAuthStateChange((_event, session) => {
+      syncSessionCookie(session ?? null)
       void syncDataClientSession(session ?? null)
     })
 
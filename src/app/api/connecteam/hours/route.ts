@@ -1,17 +1,44 @@
 // app/api/connecteam/hours/route.ts
-// WORKING VERSION - Gets users first, then matches time activities by userId
+// Resolves employees to Connecteam users (lib/connecteam/users.ts), then matches
+// time activities by userId and splits each employee's hours into
+// regular/overtime/double time by the location's policy.
+// Also returns each employee's shifts (breaks, auto break, flags) for review, and
+// records them as the originals timesheet saves are checked against.
 import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { organizationForLocation } from '@/lib/payroll/submissions'
+import { loadLocationPolicy, workweekStart, type HoursSplit } from '@/lib/payroll/overtime'
+import { resolveEmployeeUsers } from '@/lib/connecteam/users'
+import { describeShift, splitTimesheet, type ShiftTimes, type TimesheetShift } from '@/lib/payroll/timesheets'
+import { recordImportedShifts } from '@/lib/payroll/timesheetStore'
 
 export async function POST(request: NextRequest) {
   try {
     console.log('🔵 Connecteam API route called')
     
     const body = await request.json()
-    const { periodStart, periodEnd, employeeEmails, payrollGroup } = body
+    const { periodStart, periodEnd, employeeEmails, payrollGroup, locationId } = body
+
+    if (!locationId || !periodStart || !periodEnd || !Array.isArray(employeeEmails)) {
+      return NextResponse.json({ error: 'locationId, periodStart, periodEnd and employeeEmails are required' }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const organizationId = await organizationForLocation(supabase, locationId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 })
+    }
+    await requireOrgAccess(request, organizationId)
+
+    const policy = await loadLocationPolicy(supabase, locationId)
+    // Earlier days of the first workweek count toward its weekly overtime threshold
+    const fetchStart = workweekStart(periodStart, policy.workweekStartDay)
 
     console.log('📅 Period:', periodStart, 'to', periodEnd)
     console.log('👥 Payroll Group:', payrollGroup)
     console.log('📧 Employee emails:', employeeEmails)
+    console.log(`📏 Policy: ${policy.state || 'federal'} rules, ${policy.timeZone}, workweek from day ${policy.workweekStartDay}`)
 
     const connecteamApiKey = process.env.CONNECTEAM_API_KEY
     const timeClockIdA = process.env.CONNECTEAM_TIME_CLOCK_ID_A
@@ -29,73 +56,17 @@ export async function POST(request: NextRequest) {
 
     console.log(`🔑 Using time clock ID ${timeClockId}`)
 
-    // STEP 1: Get ALL users (with pagination) to map userId → email
-    console.log('\n📋 STEP 1: Getting user list...')
-    
-    const userIdToEmail: Record<number, string> = {}
-    const emailToUserId: Record<string, number> = {}
-    
-    let page = 1
-    let hasMore = true
-    let totalUsers = 0
-    
-    while (hasMore && page <= 10) { // Safety limit of 10 pages
-      const usersUrl = `https://api.connecteam.com/users/v1/users?page=${page}&limit=100`
-      console.log(`📄 Fetching page ${page}...`)
-      
-      const usersResponse = await fetch(usersUrl, {
-        method: 'GET',
-        headers: {
-          'X-API-KEY': connecteamApiKey,
-          'Accept': 'application/json',
-        },
-      })
-
-      if (!usersResponse.ok) {
-        return NextResponse.json({
-          error: 'Failed to get users from Connecteam',
-          status: usersResponse.status
-        }, { status: 502 })
-      }
+    // STEP 1: Resolve employees to Connecteam users from the local directory
+    console.log('\n📋 STEP 1: Resolving Connecteam users...')
+    const { userIdToEmail, unmatched } = await resolveEmployeeUsers(supabase, locationId, employeeEmails)
+    const relevantUserIds = [...userIdToEmail.keys()]
 
-      const usersData = JSON.parse(await usersResponse.text())
-      const users = usersData.data?.users || []
-      
-      if (users.length === 0) {
-        hasMore = false
-        break
-      }
-      
-      users.forEach((user: any) => {
-        if (user.userId && user.email) {
-          userIdToEmail[user.userId] = user.email.toLowerCase()
-          emailToUserId[user.email.toLowerCase()] = user.userId
-          totalUsers++
-        }
-      })
-      
-      // Check if there are more pages
-      hasMore = users.length === 100 // If we got 100, there might be more
-      page++
-    }
-
-    console.log(`✅ Found ${totalUsers} users across ${page - 1} page(s)`)
-    console.log(`📧 Looking for userIds for:`, employeeEmails)
-    
-    const relevantUserIds: number[] = []
-    employeeEmails.forEach((email: string) => {
-      const userId = emailToUserId[email.toLowerCase()]
-      if (userId) {
-        relevantUserIds.push(userId)
-        console.log(`  ✅ ${email} → userId ${userId}`)
-      } else {
-        console.log(`  ❌ ${email} → NOT FOUND in Connecteam`)
-      }
-    })
+    userIdToEmail.forEach((email, userId) => console.log(`  ✅ ${email} → userId ${userId}`))
+    unmatched.forEach((email) => console.log(`  ❌ ${email} → not linked to a Connecteam user`))
 
     // STEP 2: Get time activities
     console.log(`\n⏰ STEP 2: Getting time activities...`)
-    const timeActivitiesUrl = `https://api.connecteam.com/time-clock/v1/time-clocks/${timeClockId}/time-activities?startDate=${periodStart}&endDate=${periodEnd}`
+    const timeActivitiesUrl = `https://api.connecteam.com/time-clock/v1/time-clocks/${timeClockId}/time-activities?startDate=${fetchStart}&endDate=${periodEnd}`
     
     console.log('🔗 Calling:', timeActivitiesUrl)
 
@@ -119,93 +90,96 @@ export async function POST(request: NextRequest) {
     
     console.log(`📊 Found time activities for ${timeActivitiesByUsers.length} users`)
 
-    // STEP 3: Calculate hours for each employee
+    // STEP 3: Split hours for each employee
     console.log('\n🧮 STEP 3: Calculating hours...')
     const hoursMap: Record<string, number> = {}
+    const breakdown: Record<string, HoursSplit> = {}
+    // Shift-level detail for the timesheet drawer, including earlier days of the
+    // first workweek (date < periodStart) that only feed the weekly threshold
+    const shiftsMap: Record<string, TimesheetShift[]> = {}
     
     employeeEmails.forEach((email: string) => {
       hoursMap[email.toLowerCase()] = 0
+      breakdown[email.toLowerCase()] = { regular: 0, overtime: 0, doubleTime: 0 }
+      shiftsMap[email.toLowerCase()] = []
     })
 
     timeActivitiesByUsers.forEach((userActivity: any) => {
       const userId = userActivity.userId
-      const userEmail = userIdToEmail[userId]
+      const userEmail = userIdToEmail.get(Number(userId))
       const shifts = userActivity.shifts || []
       const manualBreaks = userActivity.manualBreaks || []
       
       if (!userEmail) {
-        console.log(`  ⚠️  Unknown user ${userId} (${shifts.length} shifts) - no email mapping`)
-        return
-      }
-
-      if (!employeeEmails.map((e: string) => e.toLowerCase()).includes(userEmail)) {
-        console.log(`  ⏭️  Skipping ${userEmail} (${shifts.length} shifts) - not in employee list`)
+        console.log(`  ⏭️  Skipping user ${userId} (${shifts.length} shifts) - not in employee list`)
         return
       }
 
       console.log(`\n  👤 Processing ${userEmail} (userId ${userId}): ${shifts.length} shifts, ${manualBreaks.length} breaks`)
-      
-      // Log first shift structure to see all fields
-      if (shifts.length > 0) {
-        console.log(`  🔍 First shift structure:`, JSON.stringify(shifts[0], null, 2))
-      }
-      
-      let totalHours = 0
-      let totalBreakHours = 0
-      
-      // Calculate shift hours
+
+      const recorded: { key: string; times: ShiftTimes }[] = []
       shifts.forEach((shift: any, index: number) => {
-        const startTimestamp = shift.start?.timestamp
-        const endTimestamp = shift.end?.timestamp
-        
-        if (startTimestamp && endTimestamp) {
-          const shiftHours = (endTimestamp - startTimestamp) / 3600 // Convert seconds to hours
-          
-          // Apply auto-break rule: 1 hour deducted for shifts 8+ hours
-          let autoBreakHours = 0
-          if (shiftHours >= 8) {
-            autoBreakHours = 1
-          }
-          
-          const paidShiftHours = shiftHours - autoBreakHours
-          totalHours += paidShiftHours
-          totalBreakHours += autoBreakHours
-          
-          console.log(`    Shift ${index + 1}: ${shiftHours.toFixed(2)}h total - ${autoBreakHours.toFixed(2)}h break = ${paidShiftHours.toFixed(2)}h paid`)
-        } else {
-          console.log(`    Shift ${index + 1}: Missing timestamps`)
+        const startTimestamp = shift.start?.timestamp ?? null
+        const endTimestamp = shift.end?.timestamp ?? null
+        if (!startTimestamp || !endTimestamp) {
+          console.log(`    Shift ${index + 1}: Missing timestamps - flagged for review`)
         }
+        recorded.push({
+          key: String(shift.id ?? `${userId}-${startTimestamp ?? endTimestamp ?? index}`),
+          times: { start: startTimestamp, end: endTimestamp, breakMinutes: 0 },
+        })
       })
-      
-      // Calculate break hours
-      manualBreaks.forEach((breakItem: any, index: number) => {
+
+      // Attach each clocked break to the shift it falls in
+      manualBreaks.forEach((breakItem: any) => {
         const startTimestamp = breakItem.start?.timestamp || breakItem.startTime
         const endTimestamp = breakItem.end?.timestamp || breakItem.endTime
-        
-        if (startTimestamp && endTimestamp) {
-          const breakHours = (endTimestamp - startTimestamp) / 3600
-          totalBreakHours += breakHours
-          console.log(`    Break ${index + 1}: ${breakHours.toFixed(2)} hours`)
-        }
+        if (!startTimestamp || !endTimestamp) return
+
+        const shift = recorded.find(
+          ({ times }) => times.start !== null && times.end !== null && startTimestamp >= times.start && startTimestamp < times.end,
+        )
+        if (shift) shift.times.breakMinutes += Math.round((endTimestamp - startTimestamp) / 60)
+      })
+
+      const timesheet = recorded.map(({ key, times }) => describeShift(key, times, null, policy))
+      const { days, total } = splitTimesheet(timesheet, policy, periodStart, periodEnd)
+
+      days.forEach((day) => {
+        console.log(`    ${day.date}: ${day.paid}h paid = ${day.regular} reg + ${day.overtime} OT + ${day.doubleTime} DT`)
+      })
+
+      timesheet.filter((s) => s.flags.length > 0).forEach((s) => {
+        console.log(`    ⚠️  Shift ${s.key} on ${s.date ?? 'unknown date'}: ${s.flags.join(', ')}`)
       })
 
-      const totalShiftHours = totalHours + totalBreakHours
-      hoursMap[userEmail] = Math.round(totalHours * 100) / 100
+      breakdown[userEmail] = total
+      shiftsMap[userEmail] = timesheet
+      hoursMap[userEmail] = Math.round((total.regular + total.overtime + total.doubleTime) * 100) / 100
       
-      console.log(`  📊 Total shift time: ${totalShiftHours.toFixed(2)}h - Auto breaks: ${totalBreakHours.toFixed(2)}h = Paid: ${hoursMap[userEmail]}h`)
+      console.log(`  📊 Paid: ${hoursMap[userEmail]}h (${total.regular} reg, ${total.overtime} OT, ${total.doubleTime} DT)`)
     })
 
+    await recordImportedShifts(supabase, organizationId, locationId, shiftsMap)
+
     console.log('\n✅ Final hours:', hoursMap)
 
     return NextResponse.json({
       success: true,
       hours: hoursMap,
+      breakdown,
+      shifts: shiftsMap,
+      policy,
       payrollGroup,
       period: { start: periodStart, end: periodEnd },
-      usersProcessed: relevantUserIds.length
+      usersProcessed: relevantUserIds.length,
+      unmatched,
     })
 
   } catch (error: any) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('❌ Error:', error.message)
     console.error('❌ Stack:', error.stack)
     return NextResponse.json({ error: error.message }, { status: 500 })
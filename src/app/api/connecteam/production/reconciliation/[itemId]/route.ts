@@ -0,0 +1,73 @@
+// app/api/connecteam/production/reconciliation/[itemId]/route.ts
+// A manager's decision on one unmatched production submission
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { getItem, resolveItem, type ReconciliationStatus } from '@/lib/connecteam/reconciliation'
+import { payrollErrorResponse, PayrollError } from '@/lib/payroll/submissions'
+
+type Params = { params: Promise<{ itemId: string }> }
+
+const STATUSES: ReconciliationStatus[] = ['open', 'assigned', 'non_payable']
+
+interface ResolveBody {
+  status?: ReconciliationStatus
+  employeeId?: string | null
+  remember?: boolean
+  note?: string | null
+}
+
+// PATCH - { status: 'assigned', employeeId } | { status: 'non_payable' } | { status: 'open' },
+// with remember to apply the decision to the submitter's future submissions
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { itemId } = await params
+    const body: ResolveBody | null = await request.json().catch(() => null)
+
+    if (!body?.status || !STATUSES.includes(body.status)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+    }
+    if (body.status === 'assigned' && !body.employeeId) {
+      return NextResponse.json({ error: 'employeeId is required to assign a submission' }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const item = await getItem(supabase, itemId)
+    if (!item) throw new PayrollError('Reconciliation item not found', 404)
+
+    const user = await requireOrgAccess(request, item.organization_id)
+
+    if (body.status === 'assigned') {
+      const { data: employee, error } = await supabase
+        .from('employees')
+        .select('id')
+        .eq('id', body.employeeId!)
+        .eq('location_id', item.location_id)
+        .maybeSingle()
+      if (error) throw error
+      if (!employee) throw new PayrollError('Employee does not work at this location', 400)
+    }
+
+    console.log(`🧾 Reconciling submission ${item.form_submission_id}: ${body.status}`)
+    const result = await resolveItem(
+      supabase,
+      item,
+      { status: body.status, employeeId: body.employeeId, note: body.note, remember: !!body.remember },
+      user.id,
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Reconciliation error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
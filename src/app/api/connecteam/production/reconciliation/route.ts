@@ -0,0 +1,44 @@
+// app/api/connecteam/production/reconciliation/route.ts
+// Production submissions for a location's pay period that matched no employee,
+// with how each was resolved (see lib/connecteam/reconciliation.ts)
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { listItemsForPeriod } from '@/lib/connecteam/reconciliation'
+import { organizationForLocation, payrollErrorResponse } from '@/lib/payroll/submissions'
+
+// GET - ?locationId=&periodStart=&periodEnd=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const locationId = searchParams.get('locationId')
+    const periodStart = searchParams.get('periodStart')
+    const periodEnd = searchParams.get('periodEnd')
+
+    if (!locationId || !periodStart || !periodEnd) {
+      return NextResponse.json({ error: 'locationId, periodStart and periodEnd are required' }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const organizationId = await organizationForLocation(supabase, locationId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 })
+    }
+    await requireOrgAccess(request, organizationId)
+
+    const items = await listItemsForPeriod(supabase, locationId, periodStart, periodEnd)
+    return NextResponse.json({ items })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Reconciliation error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -1,96 +1,123 @@
 // app/api/connecteam/production/route.ts
 // UPDATED VERSION: Fast production counts from Supabase (populated by webhook)
-// This replaces the old Connecteam API polling version
+// This replaces the old Connecteam API polling version.
+// Forms are resolved from connecteam_form_locations for the pay period, so a
+// location can report through several forms and new sites need no deploy.
+// Submissions that match no employee are queued for reconciliation
+// (see lib/connecteam/reconciliation.ts) and returned as orphans.
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE!
-
-// Map location names to Connecteam form IDs
-const LOCATION_TO_FORM_ID: Record<string, number> = {
-  'Manheim Dallas': 4875728,
-  'Enterprise Alabama': 3837714,
-  'Enterprise Atlanta': 1856326,
-  // Add other locations as needed
-}
+import { getServerDataClient } from '@/lib/supabase/server'
+import { authErrorResponse, requireOrgAccess } from '@/lib/auth/server'
+import { mappingsForLocation } from '@/lib/connecteam/formLocations'
+import { resolveEmployeeUsers } from '@/lib/connecteam/users'
+import { attributeSubmissions, type ProductionSubmission } from '@/lib/connecteam/reconciliation'
+import { organizationForLocation } from '@/lib/payroll/submissions'
 
 export async function POST(request: NextRequest) {
   try {
     console.log('🔵 Production API (Supabase) called')
-    
+
     const body = await request.json()
-    const { periodStart, periodEnd, employeeEmails, locationName } = body
+    const { periodStart, periodEnd, employeeEmails = [], locationId, locationName } = body
 
     console.log('📅 Period:', periodStart, 'to', periodEnd)
-    console.log('📍 Location:', locationName)
+    console.log('📍 Location:', locationId || locationName)
     console.log('📧 Employee emails:', employeeEmails)
 
-    // Get the form ID for this location
-    const formId = LOCATION_TO_FORM_ID[locationName]
-    
-    if (!formId) {
-      console.error('❌ Unknown location:', locationName)
-      return NextResponse.json({ 
-        error: `Unknown location: ${locationName}. Available locations: ${Object.keys(LOCATION_TO_FORM_ID).join(', ')}` 
-      }, { status: 400 })
+    if (!periodStart || !periodEnd || (!locationId && !locationName)) {
+      return NextResponse.json(
+        { error: 'periodStart, periodEnd and locationId (or locationName) are required' },
+        { status: 400 },
+      )
+    }
+
+    const supabase = getServerDataClient()
+
+    // Older clients send only the name
+    let resolvedLocationId: string | null = locationId || null
+    if (!resolvedLocationId) {
+      const { data: matches, error: locError } = await supabase
+        .from('locations')
+        .select('id')
+        .eq('name', locationName)
+        .limit(2)
+      if (locError) throw locError
+      if (!matches || matches.length !== 1) {
+        return NextResponse.json(
+          { error: matches?.length ? `Location name is ambiguous: ${locationName}` : `Unknown location: ${locationName}` },
+          { status: 400 },
+        )
+      }
+      resolvedLocationId = matches[0].id as string
     }
 
-    console.log(`📋 Using form_id: ${formId}`)
+    const organizationId = await organizationForLocation(supabase, resolvedLocationId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 })
+    }
+    await requireOrgAccess(request, organizationId)
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const mappings = await mappingsForLocation(supabase, resolvedLocationId, periodStart, periodEnd)
 
-    console.log(`📊 Querying submissions for form ${formId} from ${periodStart} to ${periodEnd}...`)
+    if (mappings.length === 0) {
+      console.error('❌ No Connecteam form mapped for location:', locationName || resolvedLocationId)
+      return NextResponse.json(
+        {
+          error: `No Connecteam form is mapped to ${locationName || 'this location'} for ${periodStart} – ${periodEnd}. Map one in Settings → Connecteam forms.`,
+        },
+        { status: 400 },
+      )
+    }
 
-    // Query Supabase by date (much cleaner than timestamp conversion!)
-    const { data: submissions, error } = await supabase
-      .from('connecteam_form_submissions')
-      .select('*')
-      .eq('form_id', formId)
-      .gte('submission_date', periodStart)
-      .lte('submission_date', periodEnd)
-      .is('deleted_at', null)
+    const formIds = [...new Set(mappings.map((m) => m.form_id))]
+    console.log(`📋 Using form_ids: ${formIds.join(', ')}`)
+
+    // Each mapping only counts submissions inside its own effective window
+    const submissions: ProductionSubmission[] = []
+    const seen = new Set<string>()
+    for (const mapping of mappings) {
+      const from = mapping.effective_from > periodStart ? mapping.effective_from : periodStart
+      const to = mapping.effective_to && mapping.effective_to < periodEnd ? mapping.effective_to : periodEnd
+
+      console.log(`📊 Querying submissions for form ${mapping.form_id} from ${from} to ${to}...`)
+
+      // Query Supabase by date (much cleaner than timestamp conversion!)
+      const { data, error } = await supabase
+        .from('connecteam_form_submissions')
+        .select('form_submission_id, form_id, submitting_user_id, user_email, submission_date')
+        .eq('form_id', mapping.form_id)
+        .gte('submission_date', from)
+        .lte('submission_date', to)
+        .is('deleted_at', null)
+
+      if (error) {
+        console.error('❌ Supabase query error:', error)
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
 
-    if (error) {
-      console.error('❌ Supabase query error:', error)
-      return NextResponse.json({ error: error.message }, { status: 500 })
+      ;(data || []).forEach((row: ProductionSubmission) => {
+        if (seen.has(row.form_submission_id)) return
+        seen.add(row.form_submission_id)
+        submissions.push(row)
+      })
     }
 
     console.log(`✅ Found ${submissions.length} submissions in date range`)
 
-    // Count submissions per employee
-    const unitsMap: Record<string, number> = {}
-    
+    // Submissions count for the employee linked to the submitting Connecteam
+    // user; only rows without a user id fall back to the stored email. The rest
+    // go through manager decisions and remembered rules, then the queue.
+    const { userIdToEmail } = await resolveEmployeeUsers(supabase, resolvedLocationId, employeeEmails)
+    const { units, orphans, nonPayable } = await attributeSubmissions(
+      supabase,
+      { organizationId, locationId: resolvedLocationId, userIdToEmail, employeeEmails },
+      submissions,
+    )
+
     // Initialize all employees with 0
+    const unitsMap: Record<string, number> = {}
     employeeEmails.forEach((email: string) => {
-      unitsMap[email] = 0
-    })
-
-    // Track submissions we can't match
-    let nullEmailCount = 0
-    let unmatchedEmailCount = 0
-    const unmatchedEmails = new Set<string>()
-
-    // Count by email (case-insensitive)
-    submissions.forEach((submission: any) => {
-      const userEmail = submission.user_email?.toLowerCase()
-      
-      if (!userEmail) {
-        nullEmailCount++
-        return
-      }
-      
-      // Find matching employee email (case-insensitive)
-      const matchingEmail = employeeEmails.find(
-        (e: string) => e.toLowerCase() === userEmail
-      )
-      
-      if (matchingEmail) {
-        unitsMap[matchingEmail] = (unitsMap[matchingEmail] || 0) + 1
-      } else {
-        unmatchedEmailCount++
-        unmatchedEmails.add(userEmail)
-      }
+      unitsMap[email] = units.get(email.toLowerCase()) || 0
     })
 
     // Log detailed results
@@ -98,26 +125,34 @@ export async function POST(request: NextRequest) {
     Object.entries(unitsMap).forEach(([email, count]) => {
       console.log(`  ${email}: ${count} units`)
     })
-    
-    console.log(`\n⚠️ Submissions with null email: ${nullEmailCount}`)
-    console.log(`⚠️ Submissions with unmatched email: ${unmatchedEmailCount}`)
-    if (unmatchedEmails.size > 0) {
-      console.log(`📧 Unmatched emails: ${Array.from(unmatchedEmails).join(', ')}`)
-    }
+
+    const nullEmailCount = orphans.filter((o) => o.submitting_user_id == null && !o.user_email).length
+    console.log(`\n⚠️ Submissions awaiting reconciliation: ${orphans.length} (${nullEmailCount} without a submitter)`)
+    console.log(`🚫 Non-payable submissions: ${nonPayable}`)
 
     return NextResponse.json({
       success: true,
       units: unitsMap,
-      locationName,
-      formId,
+      locationId: resolvedLocationId,
+      locationName: locationName || mappings[0].location_name,
+      formId: formIds[0],
+      formIds,
       period: { start: periodStart, end: periodEnd },
       totalSubmissions: submissions.length,
       nullEmailCount,
-      unmatchedEmailCount
+      unmatchedEmailCount: orphans.length - nullEmailCount,
+      nonPayableCount: nonPayable,
+      orphans,
     })
 
-  } catch (error: any) {
-    console.error('❌ Error:', error.message)
-    return NextResponse.json({ error: error.message }, { status: 500 })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('❌ Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
   }
 }
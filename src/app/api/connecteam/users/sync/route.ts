@@ -0,0 +1,33 @@
+// app/api/connecteam/users/sync/route.ts
+// Refreshes the local Connecteam user directory and links new employees by
+// email. Run on a schedule with the cron secret, or trigger manually as an admin.
+import { NextResponse } from 'next/server'
+import { authErrorResponse, hasCronSecret, requireAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { syncConnecteamUsers } from '@/lib/connecteam/users'
+
+async function sync(req: Request) {
+  try {
+    if (!hasCronSecret(req)) {
+      await requireAdmin(req)
+    }
+
+    const summary = await syncConnecteamUsers(getServerDataClient())
+
+    console.log('👥 Connecteam user sync:', summary)
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('❌ Connecteam user sync error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
+
+// Either method, so any scheduler can call it
+export const GET = sync
+export const POST = sync
@@ -0,0 +1,35 @@
+// app/api/invitations/accept/route.ts
+// Called by /login after sign-in: joins the caller to the org they were invited to
+import { NextResponse } from "next/server"
+import { authErrorResponse, getPlatformAdminClient, getSessionUser } from "@/lib/auth/server"
+import { acceptPendingInvitation } from "@/lib/auth/invitations"
+import { getServerDataClient } from "@/lib/supabase/server"
+
+export async function POST(req: Request) {
+  try {
+    const user = await getSessionUser(req)
+    const result = await acceptPendingInvitation(getPlatformAdminClient(), getServerDataClient(), user)
+
+    if (result.status === "not_invited") {
+      return NextResponse.json(
+        { error: "No pending invitation for this email address", status: result.status },
+        { status: 403 },
+      )
+    }
+
+    if (result.status === "accepted") {
+      console.log(`✅ ${user.email} accepted invitation ${result.invitationId}`)
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Accept invitation error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
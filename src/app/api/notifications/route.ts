@@ -0,0 +1,53 @@
+// app/api/notifications/route.ts
+// The signed-in user's in-app inbox (see lib/notifications/inbox.ts). GET lists
+// recent notifications (?unread=true for unread only); PATCH marks them read,
+// { ids } for some or {} for all.
+import { NextResponse } from 'next/server'
+import { authErrorResponse, getRequestUser } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { listNotifications, markNotificationsRead } from '@/lib/notifications/inbox'
+
+export async function GET(req: Request) {
+  try {
+    const user = await getRequestUser(req)
+    const unreadOnly = new URL(req.url).searchParams.get('unread') === 'true'
+
+    const notifications = await listNotifications(getServerDataClient(), user.id, { unreadOnly })
+    return NextResponse.json({
+      notifications,
+      unread: notifications.filter((n) => !n.read_at).length,
+    })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('❌ Notifications error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const user = await getRequestUser(req)
+    const body = await req.json().catch(() => ({}))
+    const ids = body?.ids
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'ids must be a list of notification ids' }, { status: 400 })
+    }
+
+    await markNotificationsRead(getServerDataClient(), user.id, ids)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('❌ Mark notifications read error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/organizations/[orgId]/audit-log/route.ts
+// Recent membership changes for the organization (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse } from "@/lib/auth/server"
+import { listAuditLog } from "@/lib/auth/audit"
+import { membershipErrorResponse, requireMembershipContext } from "@/lib/auth/members"
+
+const MAX_LIMIT = 500
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const ctx = await requireMembershipContext(req, orgId)
+
+    const requested = Number(new URL(req.url).searchParams.get("limit")) || 100
+    const entries = await listAuditLog(ctx.platform, orgId, Math.min(Math.max(requested, 1), MAX_LIMIT))
+
+    return NextResponse.json({ entries })
+  } catch (error) {
+    const authResponse = authErrorResponse(error) || membershipErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Audit log error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
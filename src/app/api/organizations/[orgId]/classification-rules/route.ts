@@ -0,0 +1,26 @@
+// app/api/organizations/[orgId]/classification-rules/route.ts
+// The organization's ledger classification overrides, so client-side reports
+// classify accounts the same way the server routes do
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { loadClassificationRules } from "@/lib/ledger/classify"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const rules = await loadClassificationRules(getServerDataClient(), orgId)
+    return NextResponse.json({ rules })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Classification rules error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/organizations/[orgId]/connecteam/employees/[employeeId]/route.ts
+// Link an employee to a Connecteam user, or mark them as having none (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { linkEmployee } from "@/lib/connecteam/users"
+
+type Params = { params: Promise<{ orgId: string; employeeId: string }> }
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId, employeeId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as { connecteamUserId?: number | null } | null
+    const connecteamUserId = body?.connecteamUserId ?? null
+    if (!body || (connecteamUserId !== null && (!Number.isInteger(connecteamUserId) || connecteamUserId <= 0))) {
+      return NextResponse.json({ error: "connecteamUserId must be a Connecteam user id, or null for none" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    if (connecteamUserId !== null) {
+      const { data, error } = await supabase
+        .from("connecteam_users")
+        .select("user_id")
+        .eq("user_id", connecteamUserId)
+        .is("deleted_at", null)
+        .maybeSingle()
+      if (error) throw error
+      if (!data) {
+        return NextResponse.json({ error: `Connecteam user ${connecteamUserId} is not in the directory` }, { status: 404 })
+      }
+    }
+
+    const employee = await linkEmployee(supabase, orgId, employeeId, connecteamUserId, user.id)
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found in this organization" }, { status: 404 })
+    }
+
+    console.log(`✅ Employee ${employeeId} linked to Connecteam user ${connecteamUserId ?? "none"}`)
+    return NextResponse.json({ employee })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Link Connecteam user error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
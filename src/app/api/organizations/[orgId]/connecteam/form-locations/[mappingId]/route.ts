@@ -0,0 +1,83 @@
+// app/api/organizations/[orgId]/connecteam/form-locations/[mappingId]/route.ts
+// Change the location or dates of a form mapping, or remove it (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import {
+  deleteFormLocation,
+  isOverlapError,
+  locationInOrganization,
+  updateFormLocation,
+  type FormLocationInput,
+} from "@/lib/connecteam/formLocations"
+
+type Params = { params: Promise<{ orgId: string; mappingId: string }> }
+
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { orgId, mappingId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as Partial<FormLocationInput> | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    if ((body.effectiveFrom && !isISODate(body.effectiveFrom)) || (body.effectiveTo && !isISODate(body.effectiveTo))) {
+      return NextResponse.json({ error: "effectiveFrom and effectiveTo must be YYYY-MM-DD dates" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    if (body.locationId && !(await locationInOrganization(supabase, orgId, body.locationId))) {
+      return NextResponse.json({ error: "Location not found in this organization" }, { status: 404 })
+    }
+
+    try {
+      const mapping = await updateFormLocation(supabase, orgId, mappingId, body)
+      if (!mapping) {
+        return NextResponse.json({ error: "Mapping not found" }, { status: 404 })
+      }
+      return NextResponse.json({ mapping })
+    } catch (error) {
+      if (isOverlapError(error)) {
+        return NextResponse.json(
+          { error: "That form is already mapped to a location for part of that date range" },
+          { status: 409 },
+        )
+      }
+      throw error
+    }
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Update form mapping error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const { orgId, mappingId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const deleted = await deleteFormLocation(getServerDataClient(), orgId, mappingId)
+    if (!deleted) {
+      return NextResponse.json({ error: "Mapping not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Delete form mapping error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
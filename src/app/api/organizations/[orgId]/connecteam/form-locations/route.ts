@@ -0,0 +1,77 @@
+// app/api/organizations/[orgId]/connecteam/form-locations/route.ts
+// List and create Connecteam form → location mappings (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import {
+  createFormLocation,
+  isOverlapError,
+  listFormLocations,
+  locationInOrganization,
+  type FormLocationInput,
+} from "@/lib/connecteam/formLocations"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const mappings = await listFormLocations(getServerDataClient(), orgId)
+
+    return NextResponse.json({ mappings })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ List form mappings error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as FormLocationInput | null
+    const formId = Number(body?.formId)
+    if (!body?.locationId || !Number.isInteger(formId) || formId <= 0) {
+      return NextResponse.json({ error: "locationId and a numeric formId are required" }, { status: 400 })
+    }
+    if ((body.effectiveFrom && !isISODate(body.effectiveFrom)) || (body.effectiveTo && !isISODate(body.effectiveTo))) {
+      return NextResponse.json({ error: "effectiveFrom and effectiveTo must be YYYY-MM-DD dates" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    if (!(await locationInOrganization(supabase, orgId, body.locationId))) {
+      return NextResponse.json({ error: "Location not found in this organization" }, { status: 404 })
+    }
+
+    try {
+      const mapping = await createFormLocation(supabase, orgId, { ...body, formId }, user.id)
+      console.log(`✅ Form ${formId} mapped to ${mapping.location_name} from ${mapping.effective_from}`)
+      return NextResponse.json({ mapping }, { status: 201 })
+    } catch (error) {
+      if (isOverlapError(error)) {
+        return NextResponse.json(
+          { error: `Form ${formId} is already mapped to a location for part of that date range` },
+          { status: 409 },
+        )
+      }
+      throw error
+    }
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Create form mapping error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/organizations/[orgId]/connecteam/forms/route.ts
+// Connecteam forms on the account alongside their location mappings (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { listForms } from "@/lib/connecteam/client"
+import { listFormLocations } from "@/lib/connecteam/formLocations"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const [forms, mappings] = await Promise.all([listForms(), listFormLocations(getServerDataClient(), orgId)])
+
+    return NextResponse.json({
+      forms: forms.map((form) => ({
+        formId: form.formId,
+        formName: form.formName,
+        isArchived: !!form.isArchived,
+        mappings: mappings.filter((m) => m.form_id === Number(form.formId)),
+      })),
+    })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Connecteam forms error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,28 @@
+// app/api/organizations/[orgId]/connecteam/users/route.ts
+// The organization's employees with their Connecteam user links, and the
+// directory users they can be linked to (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { listDirectoryUsers, listEmployeeLinks } from "@/lib/connecteam/users"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const supabase = getServerDataClient()
+    const [employees, users] = await Promise.all([listEmployeeLinks(supabase, orgId), listDirectoryUsers(supabase)])
+
+    return NextResponse.json({ employees, users })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Connecteam users error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
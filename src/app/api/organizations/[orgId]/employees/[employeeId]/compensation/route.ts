@@ -0,0 +1,73 @@
+// app/api/organizations/[orgId]/employees/[employeeId]/compensation/route.ts
+// An employee's rate history and pay totals (GET), and effective-dated rate
+// changes (POST). Admins, or managers of the employee's location, can view;
+// only admins can change a rate, and not their own.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import {
+  changeCompensation,
+  employeeForUser,
+  employeeProfile,
+  validateCompensationChange,
+  type CompensationChangeInput,
+} from "@/lib/payroll/compensation"
+
+type Params = { params: Promise<{ orgId: string; employeeId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId, employeeId } = await params
+    const user = await requireOrgAccess(req, orgId)
+
+    const supabase = getServerDataClient()
+    const employee = await employeeForUser(supabase, user, orgId, employeeId)
+    const profile = await employeeProfile(supabase, employee, user)
+
+    return NextResponse.json({ profile })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Employee profile error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { orgId, employeeId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as Partial<CompensationChangeInput> | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    const invalid = validateCompensationChange(body)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const employee = await employeeForUser(supabase, user, orgId, employeeId)
+    const record = await changeCompensation(supabase, employee, body as CompensationChangeInput, user)
+    console.log(
+      `💵 Rate change for employee ${employeeId}: ${record.compensation_type} ${record.rate} from ${record.effective_from}`,
+    )
+
+    return NextResponse.json({ record })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Compensation change error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
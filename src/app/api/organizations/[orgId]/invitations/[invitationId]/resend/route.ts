@@ -0,0 +1,34 @@
+// app/api/organizations/[orgId]/invitations/[invitationId]/resend/route.ts
+// Re-send a pending or expired invitation with a fresh expiry (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse } from "@/lib/auth/server"
+import {
+  invitationLoginUrl,
+  membershipErrorResponse,
+  requireMembershipContext,
+  resendInvitation,
+} from "@/lib/auth/members"
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ orgId: string; invitationId: string }> },
+) {
+  try {
+    const { orgId, invitationId } = await params
+    const ctx = await requireMembershipContext(req, orgId)
+
+    const result = await resendInvitation(ctx, invitationId, invitationLoginUrl(req))
+    console.log(`📧 Invitation for ${result.invitation.email} resent by ${ctx.actor.email}`)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const authResponse = authErrorResponse(error) || membershipErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Resend invitation error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
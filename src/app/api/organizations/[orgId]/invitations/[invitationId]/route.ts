@@ -0,0 +1,29 @@
+// app/api/organizations/[orgId]/invitations/[invitationId]/route.ts
+// Revoke a pending invitation (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse } from "@/lib/auth/server"
+import { membershipErrorResponse, requireMembershipContext, revokeInvitation } from "@/lib/auth/members"
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ orgId: string; invitationId: string }> },
+) {
+  try {
+    const { orgId, invitationId } = await params
+    const ctx = await requireMembershipContext(req, orgId)
+
+    const invitation = await revokeInvitation(ctx, invitationId)
+    console.log(`🚫 Invitation for ${invitation.email} revoked by ${ctx.actor.email}`)
+
+    return NextResponse.json({ invitation })
+  } catch (error) {
+    const authResponse = authErrorResponse(error) || membershipErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Revoke invitation error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,61 @@
+// app/api/organizations/[orgId]/invitations/route.ts
+// List and send organization invitations (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse } from "@/lib/auth/server"
+import {
+  createInvitation,
+  invitationLoginUrl,
+  listInvitations,
+  membershipErrorResponse,
+  requireMembershipContext,
+  type InviteInput,
+} from "@/lib/auth/members"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const ctx = await requireMembershipContext(req, orgId)
+
+    const invitations = await listInvitations(ctx)
+
+    return NextResponse.json({ invitations })
+  } catch (error) {
+    const authResponse = authErrorResponse(error) || membershipErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ List invitations error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const ctx = await requireMembershipContext(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as InviteInput | null
+    if (!body?.email || !body.role) {
+      return NextResponse.json({ error: "email and role are required" }, { status: 400 })
+    }
+    if (body.locationIds !== undefined && !Array.isArray(body.locationIds)) {
+      return NextResponse.json({ error: "locationIds must be an array" }, { status: 400 })
+    }
+
+    const result = await createInvitation(ctx, body, invitationLoginUrl(req))
+    console.log(`✅ ${ctx.actor.email} invited ${result.invitation.email} as ${result.invitation.role}`)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    const authResponse = authErrorResponse(error) || membershipErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Create invitation error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
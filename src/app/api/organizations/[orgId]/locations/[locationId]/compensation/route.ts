@@ -0,0 +1,40 @@
+// app/api/organizations/[orgId]/locations/[locationId]/compensation/route.ts
+// Rates in effect on ?asOf=YYYY-MM-DD for the location's active employees, so a
+// pay period is priced at its own rates rather than today's
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { locationInOrganization } from "@/lib/connecteam/formLocations"
+import { isISODate } from "@/lib/ledger/pl"
+import { resolveCompensation } from "@/lib/payroll/compensation"
+
+type Params = { params: Promise<{ orgId: string; locationId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId, locationId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const asOf = new URL(req.url).searchParams.get("asOf")
+    if (!isISODate(asOf)) {
+      return NextResponse.json({ error: "asOf must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    if (!(await locationInOrganization(supabase, orgId, locationId))) {
+      return NextResponse.json({ error: "Location not found in this organization" }, { status: 404 })
+    }
+
+    const rates = await resolveCompensation(supabase, locationId, asOf)
+    return NextResponse.json({ asOf, rates })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Compensation rates error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
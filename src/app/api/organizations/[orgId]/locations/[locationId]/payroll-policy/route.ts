@@ -0,0 +1,111 @@
+// app/api/organizations/[orgId]/locations/[locationId]/payroll-policy/route.ts
+// Overtime state rules, workweek and break policy for a location (PUT is admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { locationInOrganization } from "@/lib/connecteam/formLocations"
+import {
+  FEDERAL_RULES,
+  loadLocationPolicy,
+  rulesForState,
+  saveLocationPolicy,
+  type LocationPayrollPolicy,
+} from "@/lib/payroll/overtime"
+
+type Params = { params: Promise<{ orgId: string; locationId: string }> }
+
+function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId, locationId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const supabase = getServerDataClient()
+    if (!(await locationInOrganization(supabase, orgId, locationId))) {
+      return NextResponse.json({ error: "Location not found in this organization" }, { status: 404 })
+    }
+
+    const policy = await loadLocationPolicy(supabase, locationId)
+    return NextResponse.json({ policy, rules: rulesForState(policy.state) })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll policy error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId, locationId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as Partial<LocationPayrollPolicy> | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    if (body.state && !/^[A-Za-z]{2}$/.test(body.state)) {
+      return NextResponse.json({ error: "state must be a two-letter code" }, { status: 400 })
+    }
+    if (!isTimeZone(body.timeZone)) {
+      return NextResponse.json({ error: "timeZone must be an IANA timezone like America/Chicago" }, { status: 400 })
+    }
+    if (!Number.isInteger(body.workweekStartDay) || body.workweekStartDay! < 0 || body.workweekStartDay! > 6) {
+      return NextResponse.json({ error: "workweekStartDay must be 0 (Sunday) to 6 (Saturday)" }, { status: 400 })
+    }
+    if (body.autoBreakAfterHours != null && !(body.autoBreakAfterHours > 0)) {
+      return NextResponse.json({ error: "autoBreakAfterHours must be positive, or null for no auto break" }, { status: 400 })
+    }
+    if (!Number.isInteger(body.autoBreakMinutes) || body.autoBreakMinutes! < 0) {
+      return NextResponse.json({ error: "autoBreakMinutes must be a whole number of minutes" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    if (!(await locationInOrganization(supabase, orgId, locationId))) {
+      return NextResponse.json({ error: "Location not found in this organization" }, { status: 404 })
+    }
+
+    const policy = await saveLocationPolicy(
+      supabase,
+      orgId,
+      {
+        locationId,
+        state: body.state || null,
+        timeZone: body.timeZone,
+        workweekStartDay: body.workweekStartDay!,
+        autoBreakAfterHours: body.autoBreakAfterHours ?? null,
+        autoBreakMinutes: body.autoBreakMinutes!,
+        deductManualBreaks: !!body.deductManualBreaks,
+      },
+      user.id,
+    )
+    const rules = rulesForState(policy.state)
+    console.log(
+      `✅ Payroll policy for ${locationId}: ${rules === FEDERAL_RULES ? "federal" : policy.state} rules, ${policy.timeZone}`,
+    )
+
+    return NextResponse.json({ policy, rules })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Update payroll policy error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/organizations/[orgId]/members/[userId]/route.ts
+// Change a member's role or locations, or deactivate/reactivate them (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse } from "@/lib/auth/server"
+import {
+  membershipErrorResponse,
+  requireMembershipContext,
+  updateMember,
+  type MemberUpdate,
+} from "@/lib/auth/members"
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ orgId: string; userId: string }> }) {
+  try {
+    const { orgId, userId } = await params
+    const ctx = await requireMembershipContext(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as MemberUpdate | null
+    if (!body || (body.role === undefined && body.status === undefined && body.locationIds === undefined)) {
+      return NextResponse.json({ error: "Provide role, status or locationIds" }, { status: 400 })
+    }
+    if (body.locationIds !== undefined && !Array.isArray(body.locationIds)) {
+      return NextResponse.json({ error: "locationIds must be an array" }, { status: 400 })
+    }
+
+    const member = await updateMember(ctx, userId, body)
+    console.log(`✅ Member ${member.email} updated by ${ctx.actor.email}`)
+
+    return NextResponse.json({ member })
+  } catch (error) {
+    const authResponse = authErrorResponse(error) || membershipErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Update member error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/organizations/[orgId]/members/route.ts
+// Organization members with their roles and assigned locations (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse } from "@/lib/auth/server"
+import { assignableRoles, listMembers, membershipErrorResponse, requireMembershipContext } from "@/lib/auth/members"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const ctx = await requireMembershipContext(req, orgId)
+
+    const members = await listMembers(ctx)
+
+    return NextResponse.json({
+      members,
+      assignableRoles: assignableRoles(ctx.actor.role),
+      currentUserId: ctx.actor.id,
+    })
+  } catch (error) {
+    const authResponse = authErrorResponse(error) || membershipErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ List members error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/organizations/[orgId]/pay-stubs/route.ts
+// Every earnings statement for a pay date's approved payroll in one PDF, a
+// page per employee and submission (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { approvedSubmissionIds, loadPayStubs } from "@/lib/payroll/payStubs"
+import { buildPayStubPdf } from "@/lib/payroll/payStubPdf"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const payDate = new URL(req.url).searchParams.get("payDate")
+    if (!payDate || !isISODate(payDate)) {
+      return NextResponse.json({ error: "payDate must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const stubs = await loadPayStubs(supabase, orgId, await approvedSubmissionIds(supabase, orgId, payDate))
+    if (stubs.length === 0) {
+      return NextResponse.json({ error: "No approved payroll for this pay date" }, { status: 404 })
+    }
+    console.log(`🧾 ${stubs.length} earnings statements for ${payDate}`)
+
+    return new NextResponse(buildPayStubPdf(stubs), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="pay-stubs-${payDate}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Pay stubs error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
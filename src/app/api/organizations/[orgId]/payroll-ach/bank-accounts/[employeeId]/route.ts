@@ -0,0 +1,76 @@
+// app/api/organizations/[orgId]/payroll-ach/bank-accounts/[employeeId]/route.ts
+// Set or remove an employee's direct-deposit account (admins only). The
+// account number is encrypted before it is stored and never returned.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { PayrollError, payrollErrorResponse } from "@/lib/payroll/submissions"
+import {
+  deleteBankAccount,
+  saveBankAccount,
+  validateBankAccount,
+  type BankAccountInput,
+} from "@/lib/payroll/bankAccounts"
+
+type Params = { params: Promise<{ orgId: string; employeeId: string }> }
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId, employeeId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as Partial<BankAccountInput> | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    const invalid = validateBankAccount(body)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const { data: employee, error } = await supabase
+      .from("employees")
+      .select("id")
+      .eq("id", employeeId)
+      .eq("organization_id", orgId)
+      .maybeSingle()
+    if (error) throw error
+    if (!employee) throw new PayrollError("Employee not found", 404)
+
+    const account = await saveBankAccount(supabase, orgId, employeeId, body as BankAccountInput, user.id)
+    console.log(`🏦 Bank details saved for employee ${employeeId}`)
+
+    return NextResponse.json({ account })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Save bank account error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const { orgId, employeeId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    await deleteBankAccount(getServerDataClient(), orgId, employeeId)
+    console.log(`🗑️ Bank details removed for employee ${employeeId}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Delete bank account error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,36 @@
+// app/api/organizations/[orgId]/payroll-ach/bank-accounts/route.ts
+// Active employees with their masked direct-deposit details (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { listBankAccounts } from "@/lib/payroll/bankAccounts"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const supabase = getServerDataClient()
+    const [accounts, { data: employees, error }] = await Promise.all([
+      listBankAccounts(supabase, orgId),
+      supabase
+        .from("employees")
+        .select("id, first_name, last_name, location_id")
+        .eq("organization_id", orgId)
+        .eq("is_active", true)
+        .order("first_name"),
+    ])
+    if (error) throw error
+
+    return NextResponse.json({ employees: employees || [], accounts })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Bank accounts error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,51 @@
+// app/api/organizations/[orgId]/payroll-ach/file/route.ts
+// NACHA file for a pay date's approved payroll. Refused with the validation
+// report when it has errors; every file handed out is recorded.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { prepareAchExport, recordAchExport } from "@/lib/payroll/ach"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const payDate = new URL(req.url).searchParams.get("payDate")
+    if (!payDate || !isISODate(payDate)) {
+      return NextResponse.json({ error: "payDate must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const achExport = await prepareAchExport(supabase, orgId, payDate)
+    if (!achExport.file) {
+      return NextResponse.json(
+        { error: "The ACH file has validation errors", details: achExport.report.errors.join("; "), report: achExport.report },
+        { status: 409 },
+      )
+    }
+
+    await recordAchExport(supabase, orgId, achExport, user.id)
+    console.log(
+      `🏦 ACH file ${payDate}/${achExport.fileIdModifier}: ${achExport.report.totals.entryCount} entries, ${achExport.report.totals.totalCreditCents / 100}`,
+    )
+
+    return new NextResponse(achExport.file, {
+      headers: {
+        "Content-Type": "text/plain; charset=us-ascii",
+        "Content-Disposition": `attachment; filename="payroll-${payDate}-${achExport.fileIdModifier}.ach"`,
+      },
+    })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ ACH export error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
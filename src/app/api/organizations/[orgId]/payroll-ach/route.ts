@@ -0,0 +1,33 @@
+// app/api/organizations/[orgId]/payroll-ach/route.ts
+// Pre-export validation report for a pay date's ACH file: batches per
+// location, totals, and anything that would stop the file being built
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { prepareAchExport } from "@/lib/payroll/ach"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const payDate = new URL(req.url).searchParams.get("payDate")
+    if (!payDate || !isISODate(payDate)) {
+      return NextResponse.json({ error: "payDate must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+
+    const { report } = await prepareAchExport(getServerDataClient(), orgId, payDate)
+    return NextResponse.json({ report })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ ACH validation error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,75 @@
+// app/api/organizations/[orgId]/payroll-ach/settings/route.ts
+// The organization's ACH origination details from its bank (admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { loadAchSettings, saveAchSettings, validateAchSettings, type AchSettingsInput } from "@/lib/payroll/ach"
+
+type Params = { params: Promise<{ orgId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const settings = await loadAchSettings(getServerDataClient(), orgId)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ ACH settings error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as Partial<AchSettingsInput> | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    const invalid = validateAchSettings(body)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const settings = await saveAchSettings(
+      getServerDataClient(),
+      orgId,
+      {
+        immediate_destination: body.immediate_destination!,
+        immediate_destination_name: body.immediate_destination_name!.trim(),
+        immediate_origin: body.immediate_origin!.trim(),
+        immediate_origin_name: body.immediate_origin_name!.trim(),
+        company_name: body.company_name!.trim(),
+        company_identification: body.company_identification!.trim(),
+        originating_dfi: body.originating_dfi!,
+        entry_description: body.entry_description || "PAYROLL",
+        offset_routing_number: body.offset_routing_number || null,
+        offset_account_type: body.offset_routing_number ? body.offset_account_type || null : null,
+        offset_account_number: body.offset_account_number || null,
+      },
+      user.id,
+    )
+    console.log(`✅ ACH settings saved for ${orgId}`)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Update ACH settings error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
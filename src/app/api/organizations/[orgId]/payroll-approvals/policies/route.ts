@@ -0,0 +1,120 @@
+// app/api/organizations/[orgId]/payroll-approvals/policies/route.ts
+// Payroll approval chains: the organization default and per-location overrides
+// (admins only). GET also returns the locations and members to choose from.
+import { NextResponse } from "next/server"
+import { authErrorResponse, getPlatformAdminClient, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { locationInOrganization } from "@/lib/connecteam/formLocations"
+import {
+  defaultApprovalPolicy,
+  deleteApprovalPolicy,
+  listApprovalPolicies,
+  saveApprovalPolicy,
+  validateApprovalPolicy,
+  type ApprovalPolicyInput,
+} from "@/lib/payroll/approvals"
+
+type Params = { params: Promise<{ orgId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const supabase = getServerDataClient()
+    const [policies, { data: locations, error }, { data: members, error: membersError }] = await Promise.all([
+      listApprovalPolicies(supabase, orgId),
+      supabase.from("locations").select("id, name").eq("organization_id", orgId).order("name"),
+      getPlatformAdminClient()
+        .from("users")
+        .select("id, email, name, role")
+        .eq("organization_id", orgId)
+        .neq("status", "deactivated")
+        .order("email"),
+    ])
+    if (error) throw error
+    if (membersError) throw membersError
+
+    return NextResponse.json({
+      policies,
+      defaultPolicy: defaultApprovalPolicy(orgId),
+      locations: locations || [],
+      members: members || [],
+    })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Approval policies error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { locationId: string | null, steps, prevent_self_approval }
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as (Partial<ApprovalPolicyInput> & { locationId?: string | null }) | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    const invalid = validateApprovalPolicy(body)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const locationId = body.locationId || null
+    if (locationId && !(await locationInOrganization(supabase, orgId, locationId))) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 })
+    }
+
+    const policy = await saveApprovalPolicy(
+      supabase,
+      orgId,
+      locationId,
+      { steps: body.steps!, prevent_self_approval: body.prevent_self_approval ?? true },
+      user.id,
+    )
+    console.log(`✅ Approval policy saved for ${locationId || `organization ${orgId}`}: ${policy.steps.length} steps`)
+
+    return NextResponse.json({ policy })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Update approval policy error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+// ?locationId= removes a location override; without it, the organization default
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const locationId = new URL(req.url).searchParams.get("locationId")
+    await deleteApprovalPolicy(getServerDataClient(), orgId, locationId)
+    console.log(`🗑️ Approval policy removed for ${locationId || `organization ${orgId}`}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Delete approval policy error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
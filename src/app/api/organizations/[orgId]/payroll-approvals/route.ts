@@ -0,0 +1,34 @@
+// app/api/organizations/[orgId]/payroll-approvals/route.ts
+// Approval chain status of every pending submission, keyed by submission id,
+// so approval lists can show who each run is waiting on
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { approvalStatuses, type ReviewableSubmission } from "@/lib/payroll/approvals"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const supabase = getServerDataClient()
+    const { data: submissions, error } = await supabase
+      .from("payroll_submissions")
+      .select("id, organization_id, location_id, total_amount, submitted_by, status")
+      .eq("organization_id", orgId)
+      .eq("status", "pending")
+    if (error) throw error
+
+    const approvals = await approvalStatuses(supabase, orgId, (submissions || []) as ReviewableSubmission[])
+    return NextResponse.json({ approvals })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll approvals error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
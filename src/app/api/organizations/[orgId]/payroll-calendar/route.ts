@@ -0,0 +1,106 @@
+// app/api/organizations/[orgId]/payroll-calendar/route.ts
+// Payroll calendars and their past/upcoming pay periods (GET), and calendar
+// configuration per payroll group (PUT, admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import {
+  HOLIDAY_SHIFTS,
+  PAY_FREQUENCIES,
+  holidayWindow,
+  listPayPeriods,
+  loadHolidays,
+  loadPayrollCalendars,
+  upsertPayrollCalendar,
+  type PayrollCalendarInput,
+} from "@/lib/payroll/calendar"
+
+const MAX_PERIODS = 52
+
+function countParam(value: string | null, fallback: number): number {
+  const n = Number(value)
+  return value !== null && Number.isInteger(n) && n >= 0 ? Math.min(n, MAX_PERIODS) : fallback
+}
+
+// ?date=YYYY-MM-DD (default today) splits past from upcoming; ?past= and
+// ?future= are periods per group; ?group= limits to one payroll group
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const url = new URL(req.url)
+    const date = url.searchParams.get("date") || new Date().toISOString().slice(0, 10)
+    if (!isISODate(date)) {
+      return NextResponse.json({ error: "date must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+    const past = countParam(url.searchParams.get("past"), 6)
+    const future = countParam(url.searchParams.get("future"), 12)
+    const group = url.searchParams.get("group")
+
+    const supabase = getServerDataClient()
+    const calendars = (await loadPayrollCalendars(supabase, orgId)).filter((c) => !group || c.payroll_group === group)
+    const { from, to } = holidayWindow(date, past, future)
+    const holidays = await loadHolidays(supabase, orgId, from, to)
+
+    const periods = calendars
+      .flatMap((calendar) => listPayPeriods(calendar, holidays, { from: date, past, future }))
+      .sort((a, b) => a.payDate.localeCompare(b.payDate) || a.payrollGroup.localeCompare(b.payrollGroup))
+
+    return NextResponse.json({
+      date,
+      calendars,
+      past: periods.filter((p) => p.payDate < date),
+      upcoming: periods.filter((p) => p.payDate >= date),
+    })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll calendar error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as (PayrollCalendarInput & { payrollGroup?: string }) | null
+    const payrollGroup = body?.payrollGroup?.trim()
+    if (!body || !payrollGroup) {
+      return NextResponse.json({ error: "payrollGroup is required" }, { status: 400 })
+    }
+    if (!PAY_FREQUENCIES.includes(body.frequency)) {
+      return NextResponse.json({ error: `frequency must be one of ${PAY_FREQUENCIES.join(", ")}` }, { status: 400 })
+    }
+    if (!HOLIDAY_SHIFTS.includes(body.holidayShift)) {
+      return NextResponse.json({ error: `holidayShift must be one of ${HOLIDAY_SHIFTS.join(", ")}` }, { status: 400 })
+    }
+    if (!isISODate(body.anchorDate)) {
+      return NextResponse.json({ error: "anchorDate must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+    if (!Number.isInteger(body.lagDays) || body.lagDays < 0 || body.lagDays > 31) {
+      return NextResponse.json({ error: "lagDays must be a whole number from 0 to 31" }, { status: 400 })
+    }
+
+    const calendar = await upsertPayrollCalendar(getServerDataClient(), orgId, payrollGroup, body, user.id)
+    console.log(`✅ Payroll calendar for group ${payrollGroup} set to ${calendar.frequency} from ${calendar.anchor_date}`)
+
+    return NextResponse.json({ calendar })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Update payroll calendar error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
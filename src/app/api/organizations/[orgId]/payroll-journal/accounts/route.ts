@@ -0,0 +1,96 @@
+// app/api/organizations/[orgId]/payroll-journal/accounts/route.ts
+// Account map used to build payroll journal entries, plus the chart of accounts
+// to choose from (PUT is admins only)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { loadPayrollAccountMap, savePayrollAccountMap, type PayrollAccountMapInput } from "@/lib/payroll/journal"
+
+type Params = { params: Promise<{ orgId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const supabase = getServerDataClient()
+    const [accountMap, { data: accounts, error }, { data: locations, error: locationsError }] = await Promise.all([
+      loadPayrollAccountMap(supabase, orgId),
+      supabase
+        .from("balance_sheet_accounts")
+        .select("account, account_type, classification")
+        .eq("organization_id", orgId)
+        .eq("is_active", true)
+        .not("account", "is", null)
+        .order("account"),
+      supabase.from("locations").select("id, name").eq("organization_id", orgId).order("name"),
+    ])
+    if (error) throw error
+    if (locationsError) throw locationsError
+
+    return NextResponse.json({ accountMap, accounts: accounts || [], locations: locations || [] })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll account map error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as Partial<PayrollAccountMapInput> | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    if (!body.wages_expense_account || !body.accrued_payroll_account) {
+      return NextResponse.json(
+        { error: "wages_expense_account and accrued_payroll_account are required" },
+        { status: 400 },
+      )
+    }
+    const rate = body.employer_tax_rate ?? null
+    if (rate !== null && !(typeof rate === "number" && rate >= 0 && rate < 1)) {
+      return NextResponse.json({ error: "employer_tax_rate must be a fraction, e.g. 0.0765" }, { status: 400 })
+    }
+    const classes = body.location_classes ?? {}
+    if (typeof classes !== "object" || Array.isArray(classes) || Object.values(classes).some((c) => typeof c !== "string")) {
+      return NextResponse.json({ error: "location_classes must map location ids to class names" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const accountMap = await savePayrollAccountMap(
+      supabase,
+      orgId,
+      {
+        wages_expense_account: body.wages_expense_account,
+        accrued_payroll_account: body.accrued_payroll_account,
+        employer_tax_expense_account: body.employer_tax_expense_account || null,
+        employer_tax_liability_account: body.employer_tax_liability_account || null,
+        employer_tax_rate: rate,
+        location_classes: Object.fromEntries(Object.entries(classes).filter(([, c]) => c.trim())),
+      },
+      user.id,
+    )
+    console.log(`✅ Payroll account map saved for ${orgId}`)
+
+    return NextResponse.json({ accountMap })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Update payroll account map error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
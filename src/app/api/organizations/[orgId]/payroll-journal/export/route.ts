@@ -0,0 +1,65 @@
+// app/api/organizations/[orgId]/payroll-journal/export/route.ts
+// Payroll journal entries as a QuickBooks import file. Generated entries in the
+// file are marked exported (admins only, since that changes their status).
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import {
+  listPayrollJournals,
+  markPayrollJournalsExported,
+  toJournalCsv,
+  toJournalIif,
+} from "@/lib/payroll/journal"
+
+// ?format=csv|iif, with ?ids=a,b or ?from=&to=. Entries already recorded in
+// QuickBooks are left out.
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const url = new URL(req.url)
+    const format = url.searchParams.get("format") || "csv"
+    const from = url.searchParams.get("from")
+    const to = url.searchParams.get("to")
+    const ids = url.searchParams.get("ids")?.split(",").filter(Boolean)
+    if (format !== "csv" && format !== "iif") {
+      return NextResponse.json({ error: "format must be csv or iif" }, { status: 400 })
+    }
+    if ((from && !isISODate(from)) || (to && !isISODate(to))) {
+      return NextResponse.json({ error: "from and to must be YYYY-MM-DD dates" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const entries = (await listPayrollJournals(supabase, orgId, { from, to, ids })).filter(
+      (e) => e.status !== "recorded",
+    )
+    if (entries.length === 0) {
+      return NextResponse.json({ error: "No payroll journal entries to export" }, { status: 404 })
+    }
+
+    const body = format === "csv" ? toJournalCsv(entries) : toJournalIif(entries)
+    await markPayrollJournalsExported(
+      supabase,
+      entries.map((e) => e.id),
+    )
+    console.log(`📤 Exported ${entries.length} payroll journal entries as ${format}`)
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="payroll-journal-${new Date().toISOString().slice(0, 10)}.${format}"`,
+      },
+    })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll journal export error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
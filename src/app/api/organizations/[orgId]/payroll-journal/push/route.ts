@@ -0,0 +1,39 @@
+// app/api/organizations/[orgId]/payroll-journal/push/route.ts
+// Creates payroll journal entries in QuickBooks Online (admins only). The next
+// QBO sync pulls them back and replaces the locally generated lines.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { QboApiError } from "@/lib/qbo/client"
+import { pushPayrollJournals } from "@/lib/payroll/journal"
+
+// Body { entryIds?: string[] }: without ids every generated entry is pushed
+export async function POST(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => ({}))) as { entryIds?: unknown }
+    if (body.entryIds !== undefined && !(Array.isArray(body.entryIds) && body.entryIds.every((id) => typeof id === "string"))) {
+      return NextResponse.json({ error: "entryIds must be an array of entry ids" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const summary = await pushPayrollJournals(supabase, orgId, body.entryIds as string[] | undefined)
+    console.log(`📤 Pushed ${summary.pushed} payroll journal entries to QuickBooks, ${summary.failed.length} failed`)
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+    if (error instanceof QboApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status === 404 ? 409 : 502 })
+    }
+
+    console.error("❌ Payroll journal push error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
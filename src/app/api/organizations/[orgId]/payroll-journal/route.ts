@@ -0,0 +1,39 @@
+// app/api/organizations/[orgId]/payroll-journal/route.ts
+// Payroll journal entries generated from approved submissions (see lib/payroll/journal.ts)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import { listPayrollJournals, loadPayrollAccountMap } from "@/lib/payroll/journal"
+
+// ?from=&to= filter on the entry (pay) date
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const url = new URL(req.url)
+    const from = url.searchParams.get("from")
+    const to = url.searchParams.get("to")
+    if ((from && !isISODate(from)) || (to && !isISODate(to))) {
+      return NextResponse.json({ error: "from and to must be YYYY-MM-DD dates" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const [entries, accountMap] = await Promise.all([
+      listPayrollJournals(supabase, orgId, { from, to }),
+      loadPayrollAccountMap(supabase, orgId),
+    ])
+
+    return NextResponse.json({ entries, accountMap })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll journal error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
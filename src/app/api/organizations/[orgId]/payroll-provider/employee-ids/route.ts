@@ -0,0 +1,94 @@
+// app/api/organizations/[orgId]/payroll-provider/employee-ids/route.ts
+// Employee ID crosswalk for a payroll processor (admins only): GET lists active
+// employees with their ID at ?provider=; PUT { provider, ids: { <employee
+// id>: "<provider id>" | null } } sets or clears them.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { isPayrollProvider } from "@/lib/payroll/providerFormats"
+import {
+  listEmployeeProviderIds,
+  saveEmployeeProviderIds,
+  validateEmployeeProviderIds,
+} from "@/lib/payroll/providerExports"
+
+type Params = { params: Promise<{ orgId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const provider = new URL(req.url).searchParams.get("provider")
+    if (!isPayrollProvider(provider)) {
+      return NextResponse.json({ error: "provider must be gusto, adp or paychex" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const [ids, { data: employees, error }] = await Promise.all([
+      listEmployeeProviderIds(supabase, orgId, provider),
+      supabase
+        .from("employees")
+        .select("id, first_name, last_name, location_id")
+        .eq("organization_id", orgId)
+        .eq("is_active", true)
+        .order("first_name"),
+    ])
+    if (error) throw error
+
+    return NextResponse.json({ employees: employees || [], ids })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll provider employee IDs error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = await req.json().catch(() => null)
+    if (!body || typeof body.ids !== "object" || body.ids === null || Array.isArray(body.ids)) {
+      return NextResponse.json({ error: "ids must map employee ids to provider ids" }, { status: 400 })
+    }
+    if (!isPayrollProvider(body.provider)) {
+      return NextResponse.json({ error: "provider must be gusto, adp or paychex" }, { status: 400 })
+    }
+    const ids = body.ids as Record<string, unknown>
+    if (Object.values(ids).some((id) => id !== null && typeof id !== "string")) {
+      return NextResponse.json({ error: "Provider ids must be strings or null" }, { status: 400 })
+    }
+    const invalid = validateEmployeeProviderIds(body.provider, ids as Record<string, string | null>)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const saved = await saveEmployeeProviderIds(
+      getServerDataClient(),
+      orgId,
+      body.provider,
+      ids as Record<string, string | null>,
+      user.id,
+    )
+    console.log(`🔗 ${body.provider} employee IDs saved for ${Object.keys(ids).length} employees`)
+
+    return NextResponse.json({ ids: saved })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Save payroll provider employee IDs error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/organizations/[orgId]/payroll-provider/file/route.ts
+// Payroll processor import file for a pay date's approved payroll. Refused
+// with the validation report when it has errors; every file handed out is
+// recorded.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { isPayrollProvider } from "@/lib/payroll/providerFormats"
+import { prepareProviderExport, recordProviderExport } from "@/lib/payroll/providerExports"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const url = new URL(req.url)
+    const provider = url.searchParams.get("provider")
+    const payDate = url.searchParams.get("payDate")
+    if (!isPayrollProvider(provider)) {
+      return NextResponse.json({ error: "provider must be gusto, adp or paychex" }, { status: 400 })
+    }
+    if (!payDate || !isISODate(payDate)) {
+      return NextResponse.json({ error: "payDate must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const providerExport = await prepareProviderExport(supabase, orgId, provider, payDate)
+    if (!providerExport.file) {
+      return NextResponse.json(
+        {
+          error: "The export has validation errors",
+          details: providerExport.report.errors.join("; "),
+          report: providerExport.report,
+        },
+        { status: 409 },
+      )
+    }
+
+    await recordProviderExport(supabase, orgId, providerExport, user.id)
+    console.log(
+      `📤 ${provider} export ${payDate}: ${providerExport.report.totals.lines} lines, ${providerExport.report.totals.amount}`,
+    )
+
+    return new NextResponse(providerExport.file, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${providerExport.fileName}"`,
+      },
+    })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Payroll provider export error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
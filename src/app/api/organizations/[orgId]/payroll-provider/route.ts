@@ -0,0 +1,40 @@
+// app/api/organizations/[orgId]/payroll-provider/route.ts
+// Pre-export report for a pay date's payroll processor import file
+// (?provider=gusto|adp|paychex&payDate=): lines per employee and location,
+// totals, and anything that would stop the file being built
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { isISODate } from "@/lib/ledger/pl"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { isPayrollProvider } from "@/lib/payroll/providerFormats"
+import { prepareProviderExport } from "@/lib/payroll/providerExports"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const url = new URL(req.url)
+    const provider = url.searchParams.get("provider")
+    const payDate = url.searchParams.get("payDate")
+    if (!isPayrollProvider(provider)) {
+      return NextResponse.json({ error: "provider must be gusto, adp or paychex" }, { status: 400 })
+    }
+    if (!payDate || !isISODate(payDate)) {
+      return NextResponse.json({ error: "payDate must be a YYYY-MM-DD date" }, { status: 400 })
+    }
+
+    const { report } = await prepareProviderExport(getServerDataClient(), orgId, provider, payDate)
+    return NextResponse.json({ report })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Payroll provider export validation error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,89 @@
+// app/api/organizations/[orgId]/payroll-provider/settings/route.ts
+// Company code, earning codes and department codes for a payroll processor
+// (?provider=, admins only). GET also returns the organization's locations for
+// the department mapping.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import { isPayrollProvider } from "@/lib/payroll/providerFormats"
+import {
+  loadProviderSettings,
+  saveProviderSettings,
+  validateProviderSettings,
+  type ProviderSettingsInput,
+} from "@/lib/payroll/providerExports"
+
+type Params = { params: Promise<{ orgId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const provider = new URL(req.url).searchParams.get("provider")
+    if (!isPayrollProvider(provider)) {
+      return NextResponse.json({ error: "provider must be gusto, adp or paychex" }, { status: 400 })
+    }
+
+    const supabase = getServerDataClient()
+    const [settings, { data: locations, error }] = await Promise.all([
+      loadProviderSettings(supabase, orgId, provider),
+      supabase.from("locations").select("id, name").eq("organization_id", orgId).order("name"),
+    ])
+    if (error) throw error
+
+    return NextResponse.json({ settings, locations: locations || [] })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ Payroll provider settings error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as
+      | (Partial<ProviderSettingsInput> & { provider?: unknown })
+      | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    const { provider, ...input } = body
+    if (!isPayrollProvider(provider)) {
+      return NextResponse.json({ error: "provider must be gusto, adp or paychex" }, { status: 400 })
+    }
+    const invalid = validateProviderSettings(provider, input)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const settings = await saveProviderSettings(
+      getServerDataClient(),
+      orgId,
+      provider,
+      input as ProviderSettingsInput,
+      user.id,
+    )
+    console.log(`✅ ${provider} export settings saved for ${orgId}`)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Update payroll provider settings error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
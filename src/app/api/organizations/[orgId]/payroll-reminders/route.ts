@@ -0,0 +1,84 @@
+// app/api/organizations/[orgId]/payroll-reminders/route.ts
+// Reminder schedule for payroll submissions (admins only). GET also returns the
+// locations that still owe payroll for the next pay dates.
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { payrollErrorResponse } from "@/lib/payroll/submissions"
+import {
+  findMissingSubmissions,
+  loadReminderSettings,
+  saveReminderSettings,
+  validateReminderSettings,
+  type ReminderSettingsInput,
+} from "@/lib/payroll/reminders"
+
+type Params = { params: Promise<{ orgId: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    await requireOrgAdmin(req, orgId)
+
+    const supabase = getServerDataClient()
+    const settings = await loadReminderSettings(supabase, orgId)
+    const missing = await findMissingSubmissions(
+      supabase,
+      orgId,
+      settings.cutoff_days,
+      new Date().toISOString().slice(0, 10),
+    )
+
+    return NextResponse.json({ settings, missing })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Payroll reminder settings error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { orgId } = await params
+    const user = await requireOrgAdmin(req, orgId)
+
+    const body = (await req.json().catch(() => null)) as Partial<ReminderSettingsInput> | null
+    if (!body) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+    const invalid = validateReminderSettings(body)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const settings = await saveReminderSettings(
+      getServerDataClient(),
+      orgId,
+      {
+        enabled: body.enabled!,
+        cutoff_days: body.cutoff_days!,
+        reminder_offsets: body.reminder_offsets!,
+        escalation_offset: body.escalation_offset!,
+        send_email: body.send_email!,
+      },
+      user.id,
+    )
+    console.log(`✅ Payroll reminder settings saved for ${orgId}`)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Update payroll reminder settings error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
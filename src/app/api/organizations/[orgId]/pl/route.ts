@@ -0,0 +1,60 @@
+// app/api/organizations/[orgId]/pl/route.ts
+// P&L account hierarchy with totals, built server-side from journal_entry_lines
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import {
+  buildPLReport,
+  isISODate,
+  PL_COMPARE_MODES,
+  PL_GROUP_BY,
+  type PLCompare,
+  type PLGroupBy,
+} from "@/lib/ledger/pl"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const url = new URL(req.url)
+
+    const year = new Date().getFullYear()
+    const start = url.searchParams.get("start") || `${year}-01-01`
+    const end = url.searchParams.get("end") || new Date().toISOString().slice(0, 10)
+    const compare = url.searchParams.get("compare") as PLCompare | null
+    const groupBy = url.searchParams.get("groupBy") as PLGroupBy | null
+    const customers = (url.searchParams.get("customers") || "")
+      .split(",")
+      .map((c) => c.trim())
+      .filter(Boolean)
+
+    if (!isISODate(start) || !isISODate(end) || start > end) {
+      return NextResponse.json({ error: "start and end must be YYYY-MM-DD dates with start <= end" }, { status: 400 })
+    }
+    if (compare && !PL_COMPARE_MODES.includes(compare)) {
+      return NextResponse.json(
+        { error: `Invalid compare. Valid values: ${PL_COMPARE_MODES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+    if (groupBy && !PL_GROUP_BY.includes(groupBy)) {
+      return NextResponse.json({ error: `Invalid groupBy. Valid values: ${PL_GROUP_BY.join(", ")}` }, { status: 400 })
+    }
+
+    console.log(`📊 P&L for org ${orgId}: ${start} → ${end}${compare ? ` vs ${compare}` : ""}${groupBy ? ` by ${groupBy}` : ""}`)
+
+    const report = await buildPLReport(getServerDataClient(), orgId, { start, end, compare, groupBy, customers })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ P&L API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
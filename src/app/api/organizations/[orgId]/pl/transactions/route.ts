@@ -0,0 +1,55 @@
+// app/api/organizations/[orgId]/pl/transactions/route.ts
+// Drill-through: the ledger lines behind one P&L row (and optionally one groupBy column)
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { decodeDrillId, fetchDrillLines, isISODate, PL_GROUP_BY, type PLGroupBy } from "@/lib/ledger/pl"
+
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
+
+    const url = new URL(req.url)
+
+    const drillId = url.searchParams.get("drillId")
+    const start = url.searchParams.get("start")
+    const end = url.searchParams.get("end")
+    const groupBy = url.searchParams.get("groupBy") as PLGroupBy | null
+    const group = url.searchParams.get("group")
+    const customers = (url.searchParams.get("customers") || "")
+      .split(",")
+      .map((c) => c.trim())
+      .filter(Boolean)
+
+    const accounts = drillId ? decodeDrillId(drillId) : null
+    if (!accounts) {
+      return NextResponse.json({ error: "Missing or invalid drillId" }, { status: 400 })
+    }
+    if (!isISODate(start) || !isISODate(end) || start > end) {
+      return NextResponse.json({ error: "start and end must be YYYY-MM-DD dates with start <= end" }, { status: 400 })
+    }
+    if (groupBy && !PL_GROUP_BY.includes(groupBy)) {
+      return NextResponse.json({ error: `Invalid groupBy. Valid values: ${PL_GROUP_BY.join(", ")}` }, { status: 400 })
+    }
+
+    const transactions = await fetchDrillLines(getServerDataClient(), orgId, accounts, {
+      start,
+      end,
+      groupBy,
+      group,
+      customers,
+    })
+
+    return NextResponse.json({ accounts, transactions })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error("❌ P&L drill-through error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server"
-import { supabase } from "@/lib/supabaseClient"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { addToPLTotals, emptyPLTotals, loadClassificationRules } from "@/lib/ledger/classify"
+import { fetchMonthlyLedgerTotals } from "@/lib/ledger/rollup"
 
 const MONTH_NAMES = [
   "January",
@@ -16,107 +19,72 @@ const MONTH_NAMES = [
   "December",
 ]
 
-const isIncomeAccount = (type: string | null) => {
-  const t = type?.toLowerCase() || ""
-  return (
-    t === "income" ||
-    t === "other income" ||
-    t.includes("income") ||
-    t.includes("revenue")
-  )
-}
-
-const isExpenseAccount = (type: string | null) => {
-  const t = type?.toLowerCase() || ""
-  return (
-    t === "expense" ||
-    t === "other expense" ||
-    t === "cost of goods sold" ||
-    t.includes("expense")
-  )
-}
-
-interface Entry {
-  account_type: string | null
-  debit: number | string | null
-  credit: number | string | null
-  customer?: string | null
-}
-
-export async function GET(req: Request) {
-  const url = new URL(req.url)
-  const months = Number.parseInt(url.searchParams.get("months") || "12", 10)
-  const endMonth = Number.parseInt(url.searchParams.get("endMonth") || "1", 10)
-  const endYear = Number.parseInt(url.searchParams.get("endYear") || "2024", 10)
-  const customerParam = url.searchParams.get("customerId")
-  const customerIds = customerParam
-    ? customerParam
-        .split(",")
-        .map((c) => c.trim())
-        .filter(Boolean)
-    : []
+// Upper bound on a single request; 36-month ranges are the common worst case
+const MAX_MONTHS = 60
 
-  const monthlyData: {
-    monthName: string
-    year: number
-    totalRevenue: number
-    totalExpenses: number
-    netProfit: number
-  }[] = []
+export async function GET(req: Request, { params }: { params: Promise<{ orgId: string }> }) {
+  try {
+    const { orgId } = await params
+    await requireOrgAccess(req, orgId)
 
-  for (let i = months - 1; i >= 0; i--) {
-    const monthIndex = (endMonth - 1 - i + 12) % 12
-    const year = endMonth - 1 - i < 0 ? endYear - 1 : endYear
-    const startDate = `${year}-${String(monthIndex + 1).padStart(2, "0")}-01`
-    const daysInMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
-    let lastDay = daysInMonth[monthIndex]
-    if (
-      monthIndex === 1 &&
-      ((year % 4 === 0 && year % 100 !== 0) || year % 400 === 0)
-    ) {
-      lastDay = 29
-    }
-    const endDate = `${year}-${String(monthIndex + 1).padStart(2, "0")}-${String(
-      lastDay,
-    ).padStart(2, "0")}`
+    const url = new URL(req.url)
+    const months = Math.min(Math.max(Number.parseInt(url.searchParams.get("months") || "12", 10) || 12, 1), MAX_MONTHS)
+    const endMonth = Number.parseInt(url.searchParams.get("endMonth") || "1", 10)
+    const endYear = Number.parseInt(url.searchParams.get("endYear") || "2024", 10)
+    const customerParam = url.searchParams.get("customerId")
+    const customerIds = customerParam
+      ? customerParam
+          .split(",")
+          .map((c) => c.trim())
+          .filter(Boolean)
+      : []
 
-    let query = supabase
-      .from("journal_entry_lines")
-      .select("account_type,debit,credit,customer")
-      .gte("date", startDate)
-      .lte("date", endDate)
-
-    if (customerIds.length > 0) {
-      query = query.in("customer", customerIds)
-    }
+    // Oldest month first, counting back from endMonth/endYear
+    const periods = Array.from({ length: months }, (_, i) => {
+      const offset = endYear * 12 + (endMonth - 1) - (months - 1 - i)
+      const year = Math.floor(offset / 12)
+      const monthIndex = offset % 12
+      return { year, monthIndex, key: `${year}-${String(monthIndex + 1).padStart(2, "0")}` }
+    })
 
-    const { data, error } = await query
+    const first = periods[0]
+    const last = periods[periods.length - 1]
+    const startDate = `${first.key}-01`
+    const lastDay = new Date(Date.UTC(last.year, last.monthIndex + 1, 0)).getUTCDate()
+    const endDate = `${last.key}-${String(lastDay).padStart(2, "0")}`
 
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 })
-    }
+    const supabase = getServerDataClient()
+    const [rules, rows] = await Promise.all([
+      loadClassificationRules(supabase, orgId),
+      fetchMonthlyLedgerTotals(supabase, orgId, { start: startDate, end: endDate, customers: customerIds }),
+    ])
 
-    let totalRevenue = 0
-    let totalExpenses = 0
+    const totalsByMonth = new Map(periods.map((p) => [p.key, emptyPLTotals()]))
+    rows.forEach((row) => {
+      const totals = totalsByMonth.get(row.month)
+      if (totals) addToPLTotals(totals, row, rules)
+    })
 
-    ;(data || []).forEach((tx: Entry) => {
-      const debit = Number(tx.debit) || 0
-      const credit = Number(tx.credit) || 0
-      if (isIncomeAccount(tx.account_type)) {
-        totalRevenue += credit - debit
-      } else if (isExpenseAccount(tx.account_type)) {
-        totalExpenses += debit - credit
+    const monthlyData = periods.map((p) => {
+      const totals = totalsByMonth.get(p.key)!
+      return {
+        monthName: MONTH_NAMES[p.monthIndex],
+        year: p.year,
+        totalRevenue: totals.revenue,
+        totalExpenses: totals.totalExpenses,
+        netProfit: totals.netIncome,
       }
     })
 
-    monthlyData.push({
-      monthName: MONTH_NAMES[monthIndex],
-      year,
-      totalRevenue,
-      totalExpenses,
-      netProfit: totalRevenue - totalExpenses,
-    })
-  }
+    return NextResponse.json({ monthlyData })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
 
-  return NextResponse.json({ monthlyData })
+    console.error("❌ Trend data error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
 }
@@ -0,0 +1,42 @@
+// app/api/pay-stubs/[token]/route.ts
+// Employee-facing earnings statement: no login, the signed token is the
+// credential (see lib/payroll/payStubs.ts). Shown inline in the browser.
+import { NextResponse } from 'next/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { organizationForSubmission } from '@/lib/payroll/submissions'
+import { loadPayStubs, verifyPayStubToken } from '@/lib/payroll/payStubs'
+import { buildPayStubPdf } from '@/lib/payroll/payStubPdf'
+
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params
+    const check = verifyPayStubToken(token)
+    if (!check.ok) {
+      return NextResponse.json({ error: check.reason }, { status: 404 })
+    }
+
+    const supabase = getServerDataClient()
+    const organizationId = await organizationForSubmission(supabase, check.submissionId)
+    const stubs = organizationId
+      ? await loadPayStubs(supabase, organizationId, [check.submissionId], check.employeeId)
+      : []
+    if (stubs.length === 0) {
+      return NextResponse.json({ error: 'Earnings statement not found' }, { status: 404 })
+    }
+
+    return new NextResponse(buildPayStubPdf(stubs), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="pay-stub-${stubs[0].payDate}.pdf"`,
+        'Cache-Control': 'private, no-store',
+        'X-Robots-Tag': 'noindex',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Employee pay stub error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
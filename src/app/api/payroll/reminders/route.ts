@@ -0,0 +1,52 @@
+// app/api/payroll/reminders/route.ts
+// Sends due payroll submission reminders and escalations (see
+// lib/payroll/reminders.ts). Run daily on a schedule with the cron secret for
+// every organization, or trigger it as an admin with ?organizationId=.
+// ?date=YYYY-MM-DD runs it as of another day.
+import { NextResponse } from 'next/server'
+import { authErrorResponse, hasCronSecret, requireOrgAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { isISODate } from '@/lib/ledger/pl'
+import { emailTransportFromEnv } from '@/lib/notifications/email'
+import { payrollErrorResponse } from '@/lib/payroll/submissions'
+import { runPayrollReminders } from '@/lib/payroll/reminders'
+
+async function remind(req: Request) {
+  try {
+    const url = new URL(req.url)
+    const organizationId = url.searchParams.get('organizationId')
+    if (!hasCronSecret(req)) {
+      if (!organizationId) {
+        return NextResponse.json({ error: 'organizationId is required' }, { status: 400 })
+      }
+      await requireOrgAdmin(req, organizationId)
+    }
+
+    const date = url.searchParams.get('date')
+    if (date && !isISODate(date)) {
+      return NextResponse.json({ error: 'date must be a YYYY-MM-DD date' }, { status: 400 })
+    }
+
+    const summary = await runPayrollReminders(getServerDataClient(), emailTransportFromEnv(), {
+      today: date || new Date().toISOString().slice(0, 10),
+      appUrl: url.origin,
+      organizationId,
+    })
+
+    console.log('⏰ Payroll reminders:', summary)
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Payroll reminders error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
+
+// Either method, so any scheduler can call it
+export const GET = remind
+export const POST = remind
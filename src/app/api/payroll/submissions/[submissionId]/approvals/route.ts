@@ -0,0 +1,37 @@
+// app/api/payroll/submissions/[submissionId]/approvals/route.ts
+// Where a submission is in its approval chain, who can approve next, and every
+// approval and rejection recorded for it (see lib/payroll/approvals.ts)
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { payrollErrorResponse } from '@/lib/payroll/submissions'
+import { approvalHistory, approvalStatuses, getReviewableSubmission } from '@/lib/payroll/approvals'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ submissionId: string }> }) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const submission = await getReviewableSubmission(supabase, submissionId)
+    await requireOrgAccess(request, submission.organization_id)
+
+    const [statuses, history] = await Promise.all([
+      approvalStatuses(supabase, submission.organization_id, [submission]),
+      approvalHistory(supabase, submissionId),
+    ])
+
+    return NextResponse.json({ approval: statuses[submissionId], history })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Payroll approvals error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,92 @@
+// app/api/payroll/submissions/[submissionId]/corrections/route.ts
+// Correction runs for an approved (locked) submission (see
+// lib/payroll/corrections.ts). GET returns where each employee stands after
+// approved corrections plus the runs so far; POST opens a new one (admins only).
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess, requireOrgAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { organizationForSubmission, payrollErrorResponse } from '@/lib/payroll/submissions'
+import {
+  createCorrection,
+  currentEntries,
+  listCorrections,
+  validateCorrection,
+  type CorrectionEntryInput,
+} from '@/lib/payroll/corrections'
+
+type Params = { params: Promise<{ submissionId: string }> }
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const organizationId = await organizationForSubmission(supabase, submissionId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    await requireOrgAccess(request, organizationId)
+
+    const [current, corrections] = await Promise.all([
+      currentEntries(supabase, submissionId),
+      listCorrections(supabase, submissionId),
+    ])
+    return NextResponse.json({ current, corrections })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Payroll corrections error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// POST - { reason, entries } where entries are the corrected employees; the
+// correction is created pending and goes through the approval chain
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const body = await request.json().catch(() => null)
+    const invalid = validateCorrection(body?.reason, body?.entries)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const organizationId = await organizationForSubmission(supabase, submissionId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    const user = await requireOrgAdmin(request, organizationId)
+
+    const result = await createCorrection(
+      supabase,
+      submissionId,
+      body.reason,
+      user.id,
+      body.entries as CorrectionEntryInput[],
+    )
+    console.log(`🔁 Correction ${result.submission_id} for ${submissionId}: ${result.entry_count} entries, net ${result.total_amount}`)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Payroll correction error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,76 @@
+// app/api/payroll/submissions/[submissionId]/journal/route.ts
+// The general ledger journal entry for an approved submission (see
+// lib/payroll/journal.ts). POST regenerates it, e.g. after fixing the account map.
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess, requireOrgAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { organizationForSubmission, payrollErrorResponse } from '@/lib/payroll/submissions'
+import { generatePayrollJournal, getJournalForSubmission } from '@/lib/payroll/journal'
+
+type Params = { params: Promise<{ submissionId: string }> }
+
+// GET - The stored entry, or null when none has been generated
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const organizationId = await organizationForSubmission(supabase, submissionId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    await requireOrgAccess(request, organizationId)
+
+    const journal = await getJournalForSubmission(supabase, submissionId)
+    return NextResponse.json({ journal })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Payroll journal error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// POST - Rebuild the entry from the submission's payments (admins only)
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const organizationId = await organizationForSubmission(supabase, submissionId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    await requireOrgAdmin(request, organizationId)
+
+    const journal = await generatePayrollJournal(supabase, submissionId)
+    if (!journal) {
+      return NextResponse.json(
+        { error: 'No journal entry: set up the payroll account map first, or the submission payments net to zero' },
+        { status: 409 },
+      )
+    }
+
+    console.log(`🧾 Regenerated journal entry ${journal.doc_number}`)
+    return NextResponse.json({ journal })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Payroll journal error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,40 @@
+// app/api/payroll/submissions/[submissionId]/pay-stubs/links/route.ts
+// Signed, expiring links employees can open without logging in, one per
+// employee on an approved submission (admins only; see lib/payroll/payStubs.ts)
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { organizationForSubmission, payrollErrorResponse } from '@/lib/payroll/submissions'
+import { payStubLinks } from '@/lib/payroll/payStubs'
+
+type Params = { params: Promise<{ submissionId: string }> }
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const organizationId = await organizationForSubmission(supabase, submissionId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    const user = await requireOrgAdmin(request, organizationId)
+
+    const links = await payStubLinks(supabase, organizationId, submissionId, request.nextUrl.origin)
+    console.log(`🔗 ${links.length} pay stub link(s) for submission ${submissionId} by ${user.id}`)
+
+    return NextResponse.json({ links })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Pay stub links error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,58 @@
+// app/api/payroll/submissions/[submissionId]/pay-stubs/route.ts
+// Earnings statement PDF for an approved submission (admins only): every
+// employee on it, or just ?employeeId=
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { organizationForSubmission, payrollErrorResponse } from '@/lib/payroll/submissions'
+import { loadPayStubs } from '@/lib/payroll/payStubs'
+import { buildPayStubPdf } from '@/lib/payroll/payStubPdf'
+
+type Params = { params: Promise<{ submissionId: string }> }
+
+const fileSlug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const organizationId = await organizationForSubmission(supabase, submissionId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    await requireOrgAdmin(request, organizationId)
+
+    const employeeId = request.nextUrl.searchParams.get('employeeId')
+    const stubs = await loadPayStubs(supabase, organizationId, [submissionId], employeeId)
+    if (stubs.length === 0) {
+      return NextResponse.json({ error: 'No earnings statements: the submission is not approved or has no such employee' }, { status: 404 })
+    }
+
+    const first = stubs[0]
+    const fileName = employeeId
+      ? `pay-stub-${first.payDate}-${fileSlug(first.employeeName)}.pdf`
+      : `pay-stubs-${first.payDate}-${fileSlug(first.locationName)}.pdf`
+    console.log(`🧾 ${stubs.length} earnings statement(s) for submission ${submissionId}`)
+
+    return new NextResponse(buildPayStubPdf(stubs), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Pay stub error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
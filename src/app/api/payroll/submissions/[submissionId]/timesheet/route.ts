@@ -0,0 +1,139 @@
+// app/api/payroll/submissions/[submissionId]/timesheet/route.ts
+// Shift-level timesheet snapshot for a submission, with manager corrections and
+// their audit trail (see lib/payroll/timesheetStore.ts)
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { payrollErrorResponse, PayrollError } from '@/lib/payroll/submissions'
+import { loadLocationPolicy } from '@/lib/payroll/overtime'
+import { listTimesheetAdjustments, loadTimesheets, saveTimesheets } from '@/lib/payroll/timesheetStore'
+import type { EmployeeTimesheetInput, ShiftAdjustment, ShiftTimes } from '@/lib/payroll/timesheets'
+
+type Params = { params: Promise<{ submissionId: string }> }
+
+async function loadSubmission(request: NextRequest, submissionId: string) {
+  const supabase = getServerDataClient()
+  const { data, error } = await supabase
+    .from('payroll_submissions')
+    .select('id, organization_id, location_id, status')
+    .eq('id', submissionId)
+    .maybeSingle()
+  if (error) throw error
+  if (!data) throw new PayrollError('Submission not found', 404)
+
+  const user = await requireOrgAccess(request, data.organization_id)
+  return { supabase, submission: data, user }
+}
+
+const isTimestamp = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value) && value > 0)
+
+function isShiftTimes(value: Partial<ShiftTimes> | null | undefined): value is ShiftTimes {
+  return (
+    !!value &&
+    isTimestamp(value.start) &&
+    isTimestamp(value.end) &&
+    Number.isInteger(value.breakMinutes) &&
+    value.breakMinutes! >= 0 &&
+    (value.start === null || value.end === null || value.end! > value.start!)
+  )
+}
+
+interface TimesheetBody {
+  timesheets?: {
+    employeeId?: string
+    shifts?: { key?: string; adjusted?: Partial<ShiftAdjustment> | null }[]
+  }[]
+}
+
+// Checks the body shape; returns an error message or null. Original times are
+// ignored: they come from the Connecteam import.
+function validateTimesheets(body: TimesheetBody | null): string | null {
+  if (!body || !Array.isArray(body.timesheets)) return 'timesheets must be an array'
+  for (const sheet of body.timesheets) {
+    if (!sheet?.employeeId || !Array.isArray(sheet.shifts)) return 'Each timesheet needs employeeId and shifts'
+    for (const shift of sheet.shifts) {
+      if (!shift?.key) return 'Each shift needs a key'
+      if (shift.adjusted === null || shift.adjusted === undefined) continue
+      const { reason, ...times } = shift.adjusted
+      if (!isShiftTimes(times)) return `Shift ${shift.key} has invalid adjusted times`
+      if (typeof reason !== 'string' || !reason.trim()) {
+        return `Shift ${shift.key} needs a reason for the adjustment`
+      }
+    }
+  }
+  return null
+}
+
+// GET - Stored shifts per employee plus the adjustment history
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const { supabase } = await loadSubmission(request, submissionId)
+
+    const [timesheets, adjustments] = await Promise.all([
+      loadTimesheets(supabase, submissionId),
+      listTimesheetAdjustments(supabase, submissionId),
+    ])
+
+    return NextResponse.json({ timesheets, adjustments })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Timesheet error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Replace the snapshot. Paid hours and flags are recomputed with the
+// location's policy; each changed correction and removed shift is written to the
+// audit trail. Approved submissions, and pending ones partway through approval,
+// are rejected with 409.
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { submissionId } = await params
+    const body = (await request.json().catch(() => null)) as TimesheetBody | null
+
+    const invalid = validateTimesheets(body)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const { supabase, submission, user } = await loadSubmission(request, submissionId)
+
+    const timesheets: EmployeeTimesheetInput[] = body!.timesheets!.map((sheet) => ({
+      employeeId: sheet.employeeId!,
+      shifts: sheet.shifts!.map((shift) => ({
+        key: String(shift.key),
+        adjusted: shift.adjusted ? (shift.adjusted as ShiftAdjustment) : null,
+      })),
+    }))
+
+    const policy = await loadLocationPolicy(supabase, submission.location_id)
+    const saved = await saveTimesheets(supabase, submission, timesheets, policy, user.id)
+
+    const shiftCount = saved.reduce((sum, sheet) => sum + sheet.shifts.length, 0)
+    const adjustedCount = saved.reduce((sum, sheet) => sum + sheet.shifts.filter((s) => s.adjusted).length, 0)
+    console.log(`✅ Timesheet for ${submissionId}: ${shiftCount} shifts, ${adjustedCount} adjusted`)
+
+    return NextResponse.json({ success: true, timesheets: saved })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Save timesheet error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/payroll/submissions/[submissionId]/variance/route.ts
+// Pre-approval variance report: the run and each employee against the
+// location's trailing pay dates, with flags (see lib/payroll/variance.ts)
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAccess } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { organizationForSubmission, payrollErrorResponse } from '@/lib/payroll/submissions'
+import { buildVarianceReport } from '@/lib/payroll/variance'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ submissionId: string }> }) {
+  try {
+    const { submissionId } = await params
+    const supabase = getServerDataClient()
+
+    const organizationId = await organizationForSubmission(supabase, submissionId)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    await requireOrgAccess(request, organizationId)
+
+    const report = await buildVarianceReport(supabase, submissionId)
+    console.log(`📊 Variance report for ${submissionId}: ${report.employees.filter((e) => e.flags.length > 0).length} flagged employees`)
+
+    return NextResponse.json({ report })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error) || payrollErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error('❌ Payroll variance error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    )
+  }
+}
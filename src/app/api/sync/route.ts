@@ -1,6 +1,63 @@
-import { NextResponse } from "next/server"
+// app/api/sync/route.ts
+// Triggers an incremental QuickBooks Online sync for one organization (admins only)
+import { NextRequest, NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAdmin } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { runQboSync, SYNC_STREAMS, type SyncStream } from "@/lib/qbo/sync"
+import { failSyncRun, finishSyncRun, getSyncStatus, startSyncRun } from "@/lib/sync/runs"
 
-export async function POST() {
-  // Placeholder for QuickBooks sync trigger
-  return NextResponse.json({ status: "ok" })
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const organizationId: string | undefined =
+      body.organizationId || request.nextUrl.searchParams.get("orgId") || undefined
+    const streams: SyncStream[] | undefined = body.streams
+    const full = body.full === true
+
+    if (!organizationId) {
+      return NextResponse.json({ error: "Missing required field: organizationId" }, { status: 400 })
+    }
+    const user = await requireOrgAdmin(request, organizationId)
+
+    const unknownStreams = (streams || []).filter((s) => !SYNC_STREAMS.includes(s))
+    if (unknownStreams.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown streams: ${unknownStreams.join(", ")}. Valid streams: ${SYNC_STREAMS.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    console.log(`🔄 QBO sync requested for org ${organizationId}${full ? " (full)" : ""}`)
+
+    const supabase = getServerDataClient()
+
+    const current = await getSyncStatus(supabase, organizationId, "quickbooks")
+    if (current.running) {
+      return NextResponse.json(
+        { error: "A sync is already running for this organization", runId: current.lastRun?.id },
+        { status: 409 },
+      )
+    }
+
+    const runId = await startSyncRun(supabase, organizationId, "quickbooks", user.id)
+
+    try {
+      const summary = await runQboSync(supabase, organizationId, { streams, full })
+      const status = await finishSyncRun(supabase, runId, summary)
+
+      return NextResponse.json({ status, runId, summary }, { status: status === "failed" ? 502 : 200 })
+    } catch (error) {
+      await failSyncRun(supabase, runId, error instanceof Error ? error.message : "Unknown error")
+      throw error
+    }
+  } catch (error) {
+    const errorResponse = authErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Sync error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
 }
@@ -0,0 +1,34 @@
+// app/api/sync/runs/route.ts
+// Recent sync runs for an organization, newest first
+import { NextRequest, NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { listSyncRuns } from "@/lib/sync/runs"
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const organizationId = params.get("organizationId")
+
+    if (!organizationId) {
+      return NextResponse.json({ error: "Missing required parameter: organizationId" }, { status: 400 })
+    }
+    await requireOrgAccess(request, organizationId)
+
+    const runs = await listSyncRuns(getServerDataClient(), organizationId, {
+      source: params.get("source") || undefined,
+      limit: Number.parseInt(params.get("limit") || "20", 10) || 20,
+    })
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    const errorResponse = authErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Sync runs error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/sync/status/route.ts
+// Latest sync state for an organization: running, last result and staleness
+import { NextRequest, NextResponse } from "next/server"
+import { authErrorResponse, requireOrgAccess } from "@/lib/auth/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { getSyncStatus } from "@/lib/sync/runs"
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const organizationId = params.get("organizationId")
+
+    if (!organizationId) {
+      return NextResponse.json({ error: "Missing required parameter: organizationId" }, { status: 400 })
+    }
+    await requireOrgAccess(request, organizationId)
+
+    const status = await getSyncStatus(getServerDataClient(), organizationId, params.get("source") || undefined)
+
+    return NextResponse.json(status)
+  } catch (error) {
+    const errorResponse = authErrorResponse(error)
+    if (errorResponse) return errorResponse
+
+    console.error("❌ Sync status error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,45 @@
+// app/api/webhooks/connectteam/dead-letters/[eventId]/replay/route.ts
+// Re-runs a dead-lettered Connecteam event with a fresh retry budget (admins of
+// the event's organization; super admins for events not tied to one)
+import { NextResponse } from 'next/server'
+import { authErrorResponse, getRequestUser, requireOrgAdmin, requireSuperAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { eventOrganization, replayEvent } from '@/lib/connecteam/inbox'
+
+export async function POST(req: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  try {
+    const { eventId } = await params
+    await getRequestUser(req)
+    const supabase = getServerDataClient()
+
+    const organizationId = await eventOrganization(supabase, eventId)
+    if (organizationId === undefined) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+    const user = organizationId ? await requireOrgAdmin(req, organizationId) : await requireSuperAdmin(req)
+
+    const result = await replayEvent(supabase, eventId, user.id)
+
+    if (!result.found) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+    if (!result.replayable) {
+      return NextResponse.json(
+        { error: `Only dead or failed events can be replayed (event is ${result.status})` },
+        { status: 409 },
+      )
+    }
+
+    console.log(`🔁 Connecteam event ${eventId} replayed by ${user.email}: ${result.status}`)
+    return NextResponse.json({ success: result.status === 'processed', id: eventId, status: result.status })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('❌ Replay error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/webhooks/connectteam/dead-letters/route.ts
+// Connecteam events that exhausted their retries, for one organization's admins
+// (?organizationId=). Without it, every organization's plus events not tied to
+// one (super admins only).
+import { NextResponse } from 'next/server'
+import { authErrorResponse, requireOrgAdmin, requireSuperAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { listDeadLetters } from '@/lib/connecteam/inbox'
+
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams
+    const organizationId = params.get('organizationId')
+    if (organizationId) {
+      await requireOrgAdmin(req, organizationId)
+    } else {
+      await requireSuperAdmin(req)
+    }
+
+    const requested = Number(params.get('limit')) || 100
+    const events = await listDeadLetters(getServerDataClient(), organizationId, Math.min(Math.max(requested, 1), 500))
+
+    return NextResponse.json({ events })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('❌ Dead letter list error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,42 @@
+// app/api/webhooks/connectteam/retry/route.ts
+// Retries due Connecteam inbox events. Run on a schedule with the cron secret
+// for every organization, or trigger it as an admin with ?organizationId= for
+// that organization's events. A manual run for every organization is for
+// super admins only.
+import { NextResponse } from 'next/server'
+import { authErrorResponse, hasCronSecret, requireOrgAdmin, requireSuperAdmin } from '@/lib/auth/server'
+import { getServerDataClient } from '@/lib/supabase/server'
+import { processDueEvents } from '@/lib/connecteam/inbox'
+
+async function retry(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams
+    const organizationId = params.get('organizationId')
+    if (!hasCronSecret(req)) {
+      if (organizationId) {
+        await requireOrgAdmin(req, organizationId)
+      } else {
+        await requireSuperAdmin(req)
+      }
+    }
+
+    const requested = Number(params.get('limit')) || 25
+    const summary = await processDueEvents(getServerDataClient(), Math.min(Math.max(requested, 1), 100), organizationId)
+
+    console.log('🔁 Connecteam inbox retry:', summary)
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('❌ Connecteam retry error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
+
+// Either method, so any scheduler can call it
+export const GET = retry
+export const POST = retry
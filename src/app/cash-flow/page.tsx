@@ -9,6 +9,14 @@ import autoTable from "jspdf-autotable"
 import { supabase } from "@/lib/supabaseClient"
 import CustomerMultiSelect from "@/components/CustomerMultiSelect"
 import DateRangePicker from "@/components/DateRangePicker"
+import {
+  classifyCashFlow,
+  isOperatingInflow,
+  isPayableAccount,
+  isReceivableAccount,
+} from "@/lib/ledger/classify"
+import { useClassificationRules } from "@/lib/hooks/useClassificationRules"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
 
 // I AM CFO Brand Colors
 const BRAND_COLORS = {
@@ -133,27 +141,11 @@ type PeriodType = "monthly" | "weekly" | "total"
 type TimePeriod = "Monthly" | "Quarterly" | "YTD" | "Trailing 12" | "Custom"
 type NameField = "name" | "customer" | "vendor"
 
-const isReceivable = (t: { accountType?: string; account?: string }) => {
-  const type = t.accountType?.toLowerCase() || ""
-  const acct = t.account?.toLowerCase() || ""
-  return (
-    type.includes("accounts receivable") ||
-    acct.includes("accounts receivable") ||
-    type.includes("a/r") ||
-    acct.includes("a/r")
-  )
-}
+const isReceivable = (t: { accountType?: string; account?: string }) =>
+  isReceivableAccount({ account_type: t.accountType, account: t.account })
 
-const isPayable = (t: { accountType?: string; account?: string }) => {
-  const type = t.accountType?.toLowerCase() || ""
-  const acct = t.account?.toLowerCase() || ""
-  return (
-    type.includes("accounts payable") ||
-    acct.includes("accounts payable") ||
-    type.includes("a/p") ||
-    acct.includes("a/p")
-  )
-}
+const isPayable = (t: { accountType?: string; account?: string }) =>
+  isPayableAccount({ account_type: t.accountType, account: t.account })
 
 // Generate months and years lists
 const monthsList = [
@@ -248,6 +240,10 @@ export default function CashFlowPage() {
   // Store detailed transaction data for reuse
   const [transactionData, setTransactionData] = useState<Map<string, any[]>>(new Map())
 
+  // Org overrides for operating / investing / financing buckets
+  const organizationId = useOrganizationId()
+  const classificationRules = useClassificationRules(organizationId)
+
   // Extract date parts directly from string
   const getDateParts = (dateString: string) => {
     const datePart = dateString.split("T")[0]
@@ -612,6 +608,7 @@ export default function CashFlowPage() {
       const klass = classifyTransaction(
         tx.account_type,
         tx.report_category,
+        account,
       )
       const impact = tx.cashFlowImpact || 0
       if (klass === "transfer" && !includeTransfers) return
@@ -723,25 +720,11 @@ export default function CashFlowPage() {
     doc.save("cash_flow.pdf")
   }
 
-  function classifyTransaction(accountType?: string, reportCategory?: string) {
-    const at = (accountType || "").trim().toLowerCase()
-    const rc = (reportCategory || "").trim().toLowerCase()
-
-    if (rc === "transfer") return "transfer"
-
-    if (
-      at.includes("accounts payable") ||
-      at.includes("a/p") ||
-      rc.includes("accounts payable") ||
-      rc.includes("a/p")
+  function classifyTransaction(accountType?: string, reportCategory?: string, account?: string) {
+    return classifyCashFlow(
+      { account_type: accountType, report_category: reportCategory, account },
+      classificationRules,
     )
-      return "operating"
-
-    if (at.includes("fixed asset") || at.includes("long term asset")) return "investing"
-
-    if (at.includes("equity") || at === "long term liabilities") return "financing"
-
-    return "operating"
   }
 
   // Calculate date range based on selected period
@@ -1152,7 +1135,7 @@ export default function CashFlowPage() {
         let financingTotal = 0
         let investingTotal = 0
         transactions.forEach((row: any) => {
-          const classification = classifyTransaction(row.account_type, row.report_category)
+          const classification = classifyTransaction(row.account_type, row.report_category, row.account)
           const impact = row.cashFlowImpact
           if (classification === "operating") operatingTotal += impact
           else if (classification === "financing") financingTotal += impact
@@ -1375,7 +1358,7 @@ export default function CashFlowPage() {
       transactions.forEach((row: any) => {
         const account = row.account?.toLowerCase() || ""
         const accountType = row.account_type?.toLowerCase() || ""
-        const classification = classifyTransaction(row.account_type, row.report_category)
+        const classification = classifyTransaction(row.account_type, row.report_category, row.account)
         const impact = row.cashFlowImpact || 0
 
         if (classification === "operating") {
@@ -1444,7 +1427,7 @@ export default function CashFlowPage() {
       )
 
       const filteredTransactions = transactions.filter((row: any) => {
-        const classification = classifyTransaction(row.account_type, row.report_category)
+        const classification = classifyTransaction(row.account_type, row.report_category, row.account)
         return classification === category
       })
 
@@ -1605,19 +1588,11 @@ export default function CashFlowPage() {
     offsetAccountData.forEach((account) => {
       const sampleTx = offsetTransactions.find((tx) => tx.account === account.offsetAccount)
       const classification = sampleTx
-        ? classifyTransaction(sampleTx.account_type, sampleTx.report_category)
+        ? classifyTransaction(sampleTx.account_type, sampleTx.report_category, sampleTx.account)
         : "other"
-      const accountType = sampleTx?.account_type?.toLowerCase() || ""
 
       if (classification === "operating") {
-        const isPayable = accountType.includes("accounts payable") || accountType.includes("a/p")
-        const isInflow =
-          (accountType === "income" ||
-            accountType === "other income" ||
-            accountType.includes("current asset") ||
-            accountType.includes("accounts receivable")) &&
-          !isPayable
-        if (isInflow) operatingInflows.push(account)
+        if (isOperatingInflow({ account_type: sampleTx?.account_type })) operatingInflows.push(account)
         else operatingOutflows.push(account)
       } else if (classification === "financing") {
         financing.push(account)
@@ -1672,6 +1647,7 @@ export default function CashFlowPage() {
     viewMode,
     periodType,
     includeTransfers, // NEW: Added to dependency array
+    classificationRules,
   ])
 
   return (
@@ -23,6 +23,9 @@ import {
   Sparkles
 } from "lucide-react";
 import { formatCurrency, formatDate } from "@/lib/utils";
+import { classifyPL, isRevenueSection, type PLSection } from "@/lib/ledger/classify";
+import { useClassificationRules } from "@/lib/hooks/useClassificationRules";
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId";
 import { parse } from "date-fns";
 
 const BRAND_COLORS = {
@@ -83,6 +86,8 @@ export default function EnhancedComparativeAnalysis() {
   // Labels for display
   const [labelA, setLabelA] = useState("A");
   const [labelB, setLabelB] = useState("B");
+  const organizationId = useOrganizationId();
+  const classificationRules = useClassificationRules(organizationId);
 
   useEffect(() => {
     fetchCustomers();
@@ -122,7 +127,7 @@ export default function EnhancedComparativeAnalysis() {
   const fetchLines = async (start: string, end: string, customersFilter?: string[]) => {
     let query = supabase
       .from("journal_entry_lines")
-      .select("account, account_type, debit, credit, class, date, customer")
+      .select("account, account_type, report_category, debit, credit, class, date, customer")
       .gte("date", start)
       .lte("date", end);
 
@@ -143,12 +148,12 @@ export default function EnhancedComparativeAnalysis() {
     let revenue = 0, cogs = 0, opEx = 0;
     lines.forEach((l) => {
       const amount = (Number(l.credit) || 0) - (Number(l.debit) || 0);
-      const type = (l.account_type || "").toLowerCase();
-      if (type.includes("income") || type.includes("revenue")) {
+      const section = classifyPL(l, classificationRules);
+      if (isRevenueSection(section)) {
         revenue += amount;
-      } else if (type.includes("cost of goods sold")) {
+      } else if (section === "cogs") {
         cogs += amount;
-      } else if (type.includes("expense")) {
+      } else if (section) {
         opEx += amount;
       }
     });
@@ -234,13 +239,13 @@ export default function EnhancedComparativeAnalysis() {
         
         const week = weeks.get(weekKey)!;
         const amount = (Number(line.credit) || 0) - (Number(line.debit) || 0);
-        const type = (line.account_type || "").toLowerCase();
+        const section = classifyPL(line, classificationRules);
         
-        if (type.includes("income") || type.includes("revenue")) {
+        if (isRevenueSection(section)) {
           week[key].revenue += amount;
-        } else if (type.includes("cost of goods sold")) {
+        } else if (section === "cogs") {
           week[key].cogs += amount;
-        } else if (type.includes("expense")) {
+        } else if (section) {
           week[key].opEx += amount;
         }
       });
@@ -272,30 +277,22 @@ export default function EnhancedComparativeAnalysis() {
   const computeVarianceTable = (linesA: any[], linesB: any[]) => {
     const map = new Map<
       string,
-      { account: string; type: string; a: number; b: number }
+      { account: string; section: PLSection; a: number; b: number }
     >();
 
     const addLine = (line: any, field: "a" | "b") => {
       const amount = (Number(line.credit) || 0) - (Number(line.debit) || 0);
-      const type = (line.account_type || "").toLowerCase();
-      if (
-        !(
-          type.includes("income") ||
-          type.includes("revenue") ||
-          type.includes("cost of goods sold") ||
-          type.includes("expense")
-        )
-      )
-        return;
+      const section = classifyPL(line, classificationRules);
+      if (!section) return;
       const key = line.account;
       const existing = map.get(key) || {
         account: key,
-        type,
+        section,
         a: 0,
         b: 0,
       };
       existing[field] += amount;
-      existing.type = type;
+      existing.section = section;
       map.set(key, existing);
     };
 
@@ -311,13 +308,10 @@ export default function EnhancedComparativeAnalysis() {
     rows.sort((a, b) => Math.abs(b.var) - Math.abs(a.var));
 
     return {
-      income: rows.filter(
-        (r) => r.type.includes("income") || r.type.includes("revenue"),
-      ),
-      cogs: rows.filter((r) => r.type.includes("cost of goods sold")),
+      income: rows.filter((r) => isRevenueSection(r.section)),
+      cogs: rows.filter((r) => r.section === "cogs"),
       expenses: rows.filter(
-        (r) =>
-          r.type.includes("expense") && !r.type.includes("cost of goods sold"),
+        (r) => r.section === "expense" || r.section === "other_expense",
       ),
     };
   };
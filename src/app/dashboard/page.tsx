@@ -40,6 +40,17 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { supabase } from "@/lib/supabaseClient";
 import DateRangePicker from "@/components/DateRangePicker";
 import CustomerMultiSelect from "@/components/CustomerMultiSelect";
+import SyncStatusBadge from "@/components/SyncStatusBadge";
+import {
+  addToPLTotals,
+  classifyPL,
+  emptyPLTotals,
+  isRevenueSection,
+  plAmount,
+} from "@/lib/ledger/classify";
+import { useClassificationRules } from "@/lib/hooks/useClassificationRules";
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId";
+import { authFetch } from "@/lib/supabase/client";
 
 // I AM CFO Brand Colors
 const BRAND_COLORS = {
@@ -63,44 +74,6 @@ const CHART_COLORS = [
   "#82ca9d",
 ];
 
-// P&L Classification using the same logic as financials page
-const classifyPLAccount = (accountType, reportCategory, accountName) => {
-  const typeLower = accountType?.toLowerCase() || "";
-  const nameLower = accountName?.toLowerCase() || "";
-  const categoryLower = reportCategory?.toLowerCase() || "";
-
-  // Exclude transfers and cash accounts first
-  const isTransfer =
-    categoryLower === "transfer" || nameLower.includes("transfer");
-  const isCashAccount =
-    typeLower.includes("bank") ||
-    typeLower.includes("cash") ||
-    nameLower.includes("checking") ||
-    nameLower.includes("savings") ||
-    nameLower.includes("cash");
-
-  if (isCashAccount || isTransfer) return null;
-
-  // INCOME ACCOUNTS - Based on account_type
-  const isIncomeAccount =
-    typeLower === "income" ||
-    typeLower === "other income" ||
-    typeLower.includes("income") ||
-    typeLower.includes("revenue");
-
-  // EXPENSE ACCOUNTS - Based on account_type
-  const isExpenseAccount =
-    typeLower === "expense" ||
-    typeLower === "other expense" ||
-    typeLower === "cost of goods sold" ||
-    typeLower.includes("expense");
-
-  if (isIncomeAccount) return "INCOME";
-  if (isExpenseAccount) return "EXPENSES";
-
-  return null; // Not a P&L account (likely Balance Sheet account)
-};
-
 // ---------- String normalization + fuzzy match ----------
 const norm = (s: string) =>
   (s || "")
@@ -308,7 +281,9 @@ export default function FinancialOverviewPage() {
     | "transactionCount";
   const [sortColumn, setSortColumn] = useState<SortColumn>("netIncome");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
-  const orgId = "1";
+  const orgId = useOrganizationId();
+  const [syncRefreshKey, setSyncRefreshKey] = useState(0);
+  const classificationRules = useClassificationRules(orgId);
 
   useEffect(() => {
     if (typeof window !== "undefined" && window.innerWidth < 768) {
@@ -852,75 +827,38 @@ export default function FinancialOverviewPage() {
     };
   };
 
-  // Process P&L transactions (same logic as financials page)
+  // Process P&L transactions (shared classification in lib/ledger/classify)
   const processPLTransactions = (transactions) => {
     const accountMap = new Map();
+    const totals = emptyPLTotals();
 
     transactions.forEach((tx) => {
-      const classification = classifyPLAccount(
-        tx.account_type,
-        tx.report_category,
-        tx.account,
-      );
-      if (!classification) return; // Skip non-P&L accounts
+      const section = addToPLTotals(totals, tx, classificationRules);
+      if (!section) return; // Skip non-P&L accounts
 
       const account = tx.account;
       if (!accountMap.has(account)) {
         accountMap.set(account, {
           account,
-          category: classification,
+          category: isRevenueSection(section) ? "INCOME" : "EXPENSES",
+          section,
           account_type: tx.account_type,
           transactions: [],
-          totalCredits: 0,
-          totalDebits: 0,
+          total: 0,
         });
       }
 
       const accountData = accountMap.get(account);
       accountData.transactions.push(tx);
-
-      const debitValue = tx.debit ? Number.parseFloat(tx.debit.toString()) : 0;
-      const creditValue = tx.credit
-        ? Number.parseFloat(tx.credit.toString())
-        : 0;
-
-      if (!isNaN(debitValue) && debitValue > 0) {
-        accountData.totalDebits += debitValue;
-      }
-      if (!isNaN(creditValue) && creditValue > 0) {
-        accountData.totalCredits += creditValue;
-      }
+      accountData.total += plAmount(section, tx.debit, tx.credit);
     });
 
-    // Calculate totals
-    let totalIncome = 0;
-    let totalCogs = 0;
-    let totalExpenses = 0;
-
-    for (const [, data] of accountMap.entries()) {
-      let amount;
-      if (data.category === "INCOME") {
-        amount = data.totalCredits - data.totalDebits;
-        totalIncome += amount;
-      } else {
-        amount = data.totalDebits - data.totalCredits;
-        if (data.account_type?.toLowerCase().includes("cost of goods sold")) {
-          totalCogs += amount;
-        } else {
-          totalExpenses += amount;
-        }
-      }
-    }
-
-    const grossProfit = totalIncome - totalCogs;
-    const netIncome = grossProfit - totalExpenses;
-
     return {
-      totalIncome,
-      totalCogs,
-      totalExpenses,
-      grossProfit,
-      netIncome,
+      totalIncome: totals.revenue,
+      totalCogs: totals.cogs,
+      totalExpenses: totals.totalExpenses,
+      grossProfit: totals.grossProfit,
+      netIncome: totals.netIncome,
       accounts: Array.from(accountMap.values()),
     };
   };
@@ -967,13 +905,9 @@ export default function FinancialOverviewPage() {
 
     transactions.forEach((transaction) => {
       const property = transaction.customer || "Unassigned";
-      const category = classifyPLAccount(
-        transaction.account_type,
-        transaction.report_category,
-        transaction.account,
-      );
+      const section = classifyPL(transaction, classificationRules);
 
-      if (!category) return;
+      if (!section) return;
 
       if (!properties[property]) {
         properties[property] = {
@@ -984,19 +918,12 @@ export default function FinancialOverviewPage() {
         };
       }
 
-      const debitValue = transaction.debit
-        ? Number.parseFloat(transaction.debit.toString())
-        : 0;
-      const creditValue = transaction.credit
-        ? Number.parseFloat(transaction.credit.toString())
-        : 0;
       properties[property].transactionCount++;
 
-      if (category === "INCOME") {
-        const amount = creditValue - debitValue;
+      const amount = plAmount(section, transaction.debit, transaction.credit);
+      if (isRevenueSection(section)) {
         properties[property].revenue += amount;
       } else {
-        const amount = debitValue - creditValue;
         properties[property].expenses += amount;
       }
 
@@ -1108,6 +1035,7 @@ export default function FinancialOverviewPage() {
   };
 
   const loadTrendData = async () => {
+    if (!orgId) return;
     try {
       setLoadingTrend(true);
       setTrendError(null);
@@ -1119,7 +1047,7 @@ export default function FinancialOverviewPage() {
         selectedCustomerList.length > 0
           ? `&customerId=${encodeURIComponent(selectedCustomerList.join(","))}`
           : "";
-      const res = await fetch(
+      const res = await authFetch(
         `/api/organizations/${orgId}/trend-data?months=12&endMonth=${endMonth}&endYear=${selectedYear}${customerQuery}`,
       );
       if (!res.ok) throw new Error("Failed to fetch trend data");
@@ -1141,11 +1069,12 @@ export default function FinancialOverviewPage() {
   };
 
   const loadPropertyData = async () => {
+    if (!orgId) return;
     try {
       setLoadingProperty(true);
       setPropertyError(null);
       const { startDate, endDate } = calculateDateRange();
-      const res = await fetch(
+      const res = await authFetch(
         `/api/organizations/${orgId}/dashboard-summary?start=${startDate}&end=${endDate}&includeProperties=true`,
       );
       if (!res.ok) throw new Error("Failed to fetch customer data");
@@ -1421,11 +1350,22 @@ export default function FinancialOverviewPage() {
   };
 
   const handleSync = async () => {
+    if (!orgId) return;
+    setSyncRefreshKey((k) => k + 1);
     try {
-      await fetch("/api/sync", { method: "POST" });
+      const res = await authFetch("/api/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ organizationId: orgId }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        console.error("Sync failed", json.summary?.errors || json.error);
+      }
     } catch (e) {
       console.error("Sync failed", e);
     } finally {
+      setSyncRefreshKey((k) => k + 1);
       loadTrendData();
       loadPropertyData();
       fetchPayrollSummary();
@@ -1450,7 +1390,13 @@ export default function FinancialOverviewPage() {
     selectedCustomers,
     customStartDate,
     customEndDate,
+    orgId,
   ]);
+
+  // Re-run the client-side P&L once org classification overrides arrive
+  useEffect(() => {
+    if (classificationRules.length > 0) fetchFinancialData();
+  }, [classificationRules]);
   /* eslint-enable react-hooks/exhaustive-deps */
 
   // Helper functions
@@ -1684,6 +1630,11 @@ export default function FinancialOverviewPage() {
                   Last updated: {lastUpdated.toLocaleString()}
                 </p>
               )}
+              <SyncStatusBadge
+                organizationId={orgId}
+                refreshKey={syncRefreshKey}
+                className="mt-2"
+              />
             </div>
             <button
               onClick={fetchFinancialData}
@@ -19,6 +19,20 @@ import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import CustomerMultiSelect from "@/components/CustomerMultiSelect";
 import DateRangePicker from "@/components/DateRangePicker";
+import {
+  classifyPL,
+  isRevenueSection,
+  type ClassificationRule,
+  type LedgerAccountFields,
+} from "@/lib/ledger/classify";
+import { useClassificationRules } from "@/lib/hooks/useClassificationRules";
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId";
+import {
+  fetchPLReport,
+  fetchPLTransactions,
+  SERVER_PL_ENABLED,
+} from "@/lib/ledger/plClient";
+import type { PLGroupBy, PLReport } from "@/lib/ledger/pl";
 
 // I AM CFO Brand Colors
 const BRAND_COLORS = {
@@ -114,8 +128,19 @@ interface PLAccount {
   category: "INCOME" | "EXPENSES";
   account_type: string;
   transactions: FinancialTransaction[];
+  // Set when loaded from the P&L API: column totals and drill-through handle
+  byGroup?: Record<string, number>;
+  drillId?: string;
+  totalDrillId?: string;
 }
 
+// Column grouping requested from the P&L API for each view
+const PL_GROUP_BY_VIEW: Record<ViewMode, PLGroupBy | null> = {
+  Total: null,
+  Detail: "month",
+  Customer: "customer",
+};
+
 // Smart debugging configuration
 const DEBUG_CONFIG = {
   isDevelopment: process.env.NODE_ENV === "development",
@@ -214,44 +239,45 @@ type GroupedAccount = {
   combinedAmount: number;
 };
 
-const classifyPLAccount = (
-  accountType: string,
-  accountName: string,
-  reportCategory: string,
-) => {
-  const typeLower = accountType?.toLowerCase() || "";
-  const nameLower = accountName?.toLowerCase() || "";
-  const categoryLower = reportCategory?.toLowerCase() || "";
-
-  const isTransfer =
-    categoryLower === "transfer" || nameLower.includes("transfer");
-  const isCashAccount =
-    typeLower.includes("bank") ||
-    typeLower.includes("cash") ||
-    nameLower.includes("checking") ||
-    nameLower.includes("savings") ||
-    nameLower.includes("cash");
-
-  if (isCashAccount || isTransfer) return null;
-
-  const isIncomeAccount =
-    typeLower === "income" ||
-    typeLower === "other income" ||
-    typeLower.includes("income") ||
-    typeLower.includes("revenue");
-
-  const isExpenseAccount =
-    typeLower === "expenses" ||
-    typeLower === "other expense" ||
-    typeLower === "cost of goods sold" ||
-    typeLower.includes("expense");
-
-  if (isIncomeAccount) return "INCOME";
-  if (isExpenseAccount) return "EXPENSES";
-
-  return null;
+// Collapses the shared P&L sections into the two buckets this report renders
+const plCategory = (
+  tx: LedgerAccountFields,
+  rules: ClassificationRule[],
+): PLAccount["category"] | null => {
+  const section = classifyPL(tx, rules);
+  if (!section) return null;
+  return isRevenueSection(section) ? "INCOME" : "EXPENSES";
 };
 
+// Flattens the P&L API hierarchy into the rows this page renders. Month
+// columns come back as "2024-01" and are relabelled to match getMonthYear.
+const plAccountsFromReport = (report: PLReport): PLAccount[] =>
+  Object.values(report.sections)
+    .flat()
+    .flatMap((root) => [root, ...root.children])
+    .filter((node) => node.lineCount > 0)
+    .map((node) => ({
+      account: node.account,
+      parent_account: node.parent_account,
+      sub_account: node.sub_account,
+      is_sub_account: node.is_sub_account,
+      amount: node.amount,
+      category: isRevenueSection(node.section) ? "INCOME" : "EXPENSES",
+      account_type: node.account_type || "",
+      transactions: [],
+      byGroup:
+        report.groupBy === "month"
+          ? Object.fromEntries(
+              Object.entries(node.byGroup).map(([k, v]) => [
+                getMonthYear(`${k}-01`),
+                v,
+              ]),
+            )
+          : node.byGroup,
+      drillId: node.drillId,
+      totalDrillId: node.totalDrillId,
+    }));
+
 const groupParentSubAccounts = (accounts: PLAccount[]): GroupedAccount[] => {
   if (!accounts.length) {
     return [];
@@ -336,6 +362,7 @@ const groupParentSubAccounts = (accounts: PLAccount[]): GroupedAccount[] => {
 
 const processPLTransactionsEnhanced = async (
   transactions: any[],
+  rules: ClassificationRule[] = [],
 ): Promise<PLAccount[]> => {
   const accountMap = new Map<string, PLAccount>();
 
@@ -377,10 +404,13 @@ const processPLTransactionsEnhanced = async (
       }
     });
 
-    const classification = classifyPLAccount(
-      accountType,
-      account,
-      reportCategory,
+    const classification = plCategory(
+      {
+        account,
+        account_type: accountType,
+        report_category: reportCategory,
+      },
+      rules,
     );
     if (!classification) continue;
 
@@ -495,6 +525,8 @@ export default function FinancialsPage() {
   const monthDropdownRef = useRef<HTMLDivElement>(null);
   const yearDropdownRef = useRef<HTMLDivElement>(null);
   const exportDropdownRef = useRef<HTMLDivElement>(null);
+  const organizationId = useOrganizationId();
+  const classificationRules = useClassificationRules(organizationId);
 
   // Generate months and years lists
   const monthsList = useMemo(
@@ -729,6 +761,22 @@ export default function FinancialsPage() {
       smartLog(`📅 Period: ${startDate} to ${endDate}`);
       smartLog(`🏢 Customer Filter: "${selectedList.join(", ")}"`);
 
+      if (SERVER_PL_ENABLED && organizationId) {
+        const report = await fetchPLReport(organizationId, {
+          start: startDate,
+          end: endDate,
+          groupBy: PL_GROUP_BY_VIEW[viewMode],
+          customers: selectedCustomers.has("All Customers")
+            ? undefined
+            : selectedList,
+        });
+        setPlAccounts(plAccountsFromReport(report));
+        smartLog(
+          `✅ Loaded P&L from API: ${report.lineCount} lines summarized server-side`,
+        );
+        return;
+      }
+
       // ENHANCED QUERY: Use the new database structure with better field selection
       let query = supabase
         .from("journal_entry_lines")
@@ -789,12 +837,7 @@ export default function FinancialsPage() {
 
       // Filter for P&L accounts using enhanced classification
       const plTransactions = filteredTransactions.filter((tx) => {
-        const classification = classifyPLAccount(
-          tx.account_type,
-          tx.account,
-          tx.report_category,
-        );
-        return classification !== null;
+        return plCategory(tx, classificationRules) !== null;
       });
 
       smartLog(`📈 Filtered to ${plTransactions.length} P&L transactions`);
@@ -803,6 +846,7 @@ export default function FinancialsPage() {
       // Process transactions using ENHANCED logic
       const processedAccounts = await processPLTransactionsEnhanced(
         plTransactions,
+        classificationRules,
       );
       setPlAccounts(processedAccounts);
 
@@ -837,7 +881,13 @@ export default function FinancialsPage() {
     } finally {
       setIsLoadingData(false);
     }
-  }, [dateRange, selectedCustomers]);
+  }, [
+    dateRange,
+    selectedCustomers,
+    classificationRules,
+    organizationId,
+    viewMode,
+  ]);
 
   const handleExportExcel = () => {
     const headers = columnHeaders;
@@ -1039,8 +1089,11 @@ export default function FinancialsPage() {
       if (acc.category === "INCOME") {
         income.push(acc);
       } else if (acc.category === "EXPENSES") {
-        const accountType = acc.account_type?.toLowerCase() || "";
-        if (accountType.includes("cost of goods sold")) {
+        const section = classifyPL(
+          { account: acc.account, account_type: acc.account_type },
+          classificationRules,
+        );
+        if (section === "cogs") {
           cogs.push(acc);
         } else {
           expenses.push(acc);
@@ -1049,7 +1102,7 @@ export default function FinancialsPage() {
     });
 
     return { income, cogs, expenses };
-  }, [plAccounts]);
+  }, [plAccounts, classificationRules]);
 
   const incomeAccounts = categorizedAccounts.income;
   const cogsAccounts = categorizedAccounts.cogs;
@@ -1112,6 +1165,12 @@ export default function FinancialsPage() {
     isParentCombined = false,
     subAccounts?: PLAccount[],
   ) => {
+    if (account.byGroup) {
+      const accounts =
+        isParentCombined && subAccounts ? [account, ...subAccounts] : [account];
+      return accounts.reduce((sum, acc) => sum + (acc.byGroup?.[header] || 0), 0);
+    }
+
     let transactions = account.transactions;
 
     // If this is a combined parent view, include sub-account transactions
@@ -1194,6 +1253,17 @@ export default function FinancialsPage() {
     subAccounts?: PLAccount[],
   ) => {
     const targetAccount = subAccount || account;
+
+    if (targetAccount.drillId && organizationId) {
+      showServerTransactionDetails(
+        targetAccount,
+        period,
+        property,
+        isParentCombined && !subAccount ? subAccounts : undefined,
+      );
+      return;
+    }
+
     let transactions = targetAccount.transactions || [];
 
     // If this is a combined parent view, include sub-account transactions
@@ -1244,6 +1314,59 @@ export default function FinancialsPage() {
     setShowTransactionModal(true);
   };
 
+  // Drill-through for API-loaded rows: fetch the lines behind the clicked cell
+  const showServerTransactionDetails = async (
+    account: PLAccount,
+    period?: string,
+    property?: string,
+    subAccounts?: PLAccount[],
+  ) => {
+    const drillId = subAccounts ? account.totalDrillId : account.drillId;
+    if (!organizationId || !drillId) return;
+    const groupBy = PL_GROUP_BY_VIEW[viewMode];
+    let group: string | null = null;
+    if (period && groupBy === "month") {
+      const [monthName, yearPart] = period.split(" ");
+      const monthIndex = monthsList.indexOf(monthName) + 1;
+      group = `${yearPart}-${String(monthIndex).padStart(2, "0")}`;
+    } else if (property && groupBy === "customer") {
+      group = property;
+    }
+
+    try {
+      const lines = await fetchPLTransactions(
+        organizationId,
+        drillId,
+        {
+          start: dateRange.startDate,
+          end: dateRange.endDate,
+          groupBy: group ? groupBy : null,
+          group,
+          customers: selectedCustomers.has("All Customers")
+            ? undefined
+            : Array.from(selectedCustomers),
+        },
+      );
+
+      let title = account.is_sub_account
+        ? `${account.parent_account}: ${account.sub_account}`
+        : account.account;
+      if (subAccounts) title += " (Combined)";
+      if (period) title += ` - ${period}`;
+      if (property) title += ` - ${property}`;
+
+      setTransactionModalTitle(title);
+      setModalTransactionDetails(lines as unknown as FinancialTransaction[]);
+      setShowTransactionModal(true);
+    } catch (err) {
+      setNotification({
+        show: true,
+        message: `Error loading transactions: ${err instanceof Error ? err.message : "Unknown error"}`,
+        type: "error",
+      });
+    }
+  };
+
   const openJournalEntry = async (entryNumber?: string) => {
     if (!entryNumber) return;
     const { data, error } = await supabase
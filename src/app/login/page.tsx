@@ -1,16 +1,89 @@
 'use client'
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import { authFetch, getAuthClient, syncSessionCookie } from '@/lib/supabase/client'
+
+// Only same-site paths, so /login?returnTo= can't be used as an open redirect
+function safeReturnTo(value: string | null): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/login')) {
+    return '/'
+  }
+  return value
+}
 
 export default function ClientLoginPage() {
+  const [notInvited, setNotInvited] = useState(false)
+
   useEffect(() => {
-    // Get the full current URL (the client subdomain page they were trying to access)
-    const currentUrl = window.location.href.split('#')[0] // Remove any hash
-    const returnTo = encodeURIComponent(currentUrl)
-    
-    // Redirect to platform login WITH returnTo parameter
-    window.location.href = `https://iamcfo.com/login?returnTo=${returnTo}`
+    const params = new URLSearchParams(window.location.search)
+    const returnTo = safeReturnTo(params.get('returnTo'))
+    const authClient = getAuthClient()
+    let finished = false
+
+    // Middleware sent us here without a usable session cookie. Restore it from
+    // the stored session, join the invited org if needed, then go back.
+    const continueWithSession = async (session: Session) => {
+      if (finished) return
+      finished = true
+      syncSessionCookie(session)
+
+      const res = await authFetch('/api/invitations/accept', { method: 'POST' })
+      if (!res.ok) {
+        console.error('❌ No access for this account:', res.status)
+        setNotInvited(true)
+        return
+      }
+
+      window.location.replace(returnTo)
+    }
+
+    const {
+      data: { subscription },
+    } = authClient.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_IN' && session) void continueWithSession(session)
+    })
+
+    void authClient.auth.getSession().then(({ data }) => {
+      if (data.session) {
+        void continueWithSession(data.session)
+        return
+      }
+
+      // Tokens in the hash are being processed by ClientRootLayout; SIGNED_IN follows
+      if (window.location.hash.includes('access_token')) return
+
+      // Redirect to platform login WITH returnTo parameter
+      const target = encodeURIComponent(`${window.location.origin}${returnTo}`)
+      window.location.href = `https://iamcfo.com/login?returnTo=${target}`
+    })
+
+    return () => {
+      subscription.unsubscribe()
+    }
   }, [])
 
+  if (notInvited) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center max-w-md px-6">
+          <h1 className="text-xl font-semibold text-gray-900">Access not granted</h1>
+          <p className="mt-2 text-gray-600">
+            Your account has not been invited to this organization. Ask an administrator to send you an invitation.
+          </p>
+          <button
+            onClick={async () => {
+              await getAuthClient().auth.signOut()
+              window.location.href = 'https://iamcfo.com/login'
+            }}
+            className="mt-6 px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Sign in with a different account
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
       <div className="text-center">
@@ -20,6 +20,9 @@ import {
 import { useRouter } from "next/navigation";
 
 import { supabase } from "@/lib/supabaseClient";
+import { classifyCashFlow } from "@/lib/ledger/classify";
+import { useClassificationRules } from "@/lib/hooks/useClassificationRules";
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId";
 
 // I AM CFO Brand Colors
 const BRAND_COLORS = {
@@ -121,58 +124,10 @@ const insights = [
   },
 ];
 
-// Enhanced classification function to mirror cash flow component
-const classifyTransaction = (
-  accountType: string | null,
-  reportCategory: string | null,
-) => {
-  const typeLower = accountType?.toLowerCase() || "";
-  
-  if (reportCategory === "transfer") {
-    return "transfer";
-  }
-
-  // Operating activities - Income and Expenses (mirroring cash flow logic)
-  const isReceivable = typeLower.includes("accounts receivable") || typeLower.includes("a/r");
-  const isPayable = typeLower.includes("accounts payable") || typeLower.includes("a/p");
-
-  if (
-    typeLower === "income" ||
-    typeLower === "other income" ||
-    typeLower === "expenses" ||
-    typeLower === "expense" ||
-    typeLower === "cost of goods sold" ||
-    isReceivable ||
-    isPayable
-  ) {
-    return "operating";
-  }
-
-  // Investing activities - Fixed Assets and Other Assets
-  if (
-    typeLower === "fixed assets" || 
-    typeLower === "other assets" || 
-    typeLower === "property, plant & equipment"
-  ) {
-    return "investing";
-  }
-
-  // Financing activities - Liabilities, Equity, Credit Cards
-  if (
-    typeLower === "long term liabilities" ||
-    typeLower === "equity" ||
-    typeLower === "credit card" ||
-    typeLower === "other current liabilities" ||
-    typeLower === "line of credit"
-  ) {
-    return "financing";
-  }
-
-  return "other";
-};
-
 export default function CashFlowMobileDashboard() {
   const router = useRouter();
+  const organizationId = useOrganizationId();
+  const classificationRules = useClassificationRules(organizationId);
   const [menuOpen, setMenuOpen] = useState(false);
   const [reportPeriod, setReportPeriod] = useState<
     "Monthly" | "Custom" | "Year to Date" | "Trailing 12" | "Quarterly"
@@ -305,9 +260,9 @@ export default function CashFlowMobileDashboard() {
         const debit = Number(row.debit) || 0;
         const credit = Number(row.credit) || 0;
 
-        const classification = classifyTransaction(row.account_type, row.report_category);
+        const classification = classifyCashFlow(row, classificationRules);
 
-        if (classification !== "other" && classification !== "transfer") {
+        if (classification !== "transfer") {
           const cashImpact = row.report_category === "transfer"
             ? debit - credit
             : row.normal_balance || credit - debit;
@@ -334,7 +289,7 @@ export default function CashFlowMobileDashboard() {
       setProperties(finalList);
     };
     load();
-  }, [reportPeriod, month, year, customStart, customEnd, getDateRange]);
+  }, [reportPeriod, month, year, customStart, customEnd, getDateRange, classificationRules]);
 
   const cashKing = useMemo(() => {
     if (!properties.length) return null;
@@ -480,12 +435,9 @@ export default function CashFlowMobileDashboard() {
         return;
       }
 
-      const classification = classifyTransaction(
-        row.account_type,
-        row.report_category,
-      );
+      const classification = classifyCashFlow(row, classificationRules);
 
-      if (classification !== "other" && classification !== "transfer") {
+      if (classification !== "transfer") {
         const cashImpact = debit - credit;
 
         if (classification === "operating") {
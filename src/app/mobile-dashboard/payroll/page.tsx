@@ -24,6 +24,9 @@ import {
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import {getAuthClient, getDataClient, syncDataClientSession } from '@/lib/supabase/client';
+import { fetchPendingApprovals, isFinalApproval, reviewPayrollSubmission, type ApprovalStatus } from '@/lib/payroll/submitClient';
+import ApprovalWaitingOn from '@/components/ApprovalWaitingOn';
+import PayrollVarianceReport from '@/components/PayrollVarianceReport';
 
 // I AM CFO Brand Colors
 const BRAND_COLORS = {
@@ -74,6 +77,8 @@ interface PendingSubmission {
   submitted_by: string;
   submitted_at: string;
   status: string;
+  adjusts_submission_id?: string | null;
+  correction_reason?: string | null;
 }
 
 interface LocationStatus {
@@ -136,6 +141,7 @@ export default function PayrollDashboard() {
   
   // Approval States
   const [pendingSubmissions, setPendingSubmissions] = useState<PendingSubmission[]>([]);
+  const [approvals, setApprovals] = useState<Record<string, ApprovalStatus>>({});
   const [allLocations, setAllLocations] = useState<LocationStatus[]>([]);
   const [selectedSubmission, setSelectedSubmission] = useState<PendingSubmission | null>(null);
   const [submissionDetails, setSubmissionDetails] = useState<SubmissionDetail[]>([]);
@@ -394,6 +400,15 @@ export default function PayrollDashboard() {
 
     console.log('✅ Final submissions with names:', submissionsWithNames);
     setPendingSubmissions(submissionsWithNames);
+
+    // Who each run is waiting on; the list still works without it
+    if (orgId) {
+      try {
+        setApprovals(await fetchPendingApprovals(orgId));
+      } catch (approvalError) {
+        console.error('❌ Error loading approval status:', approvalError);
+      }
+    }
   };
 
   const loadAllLocations = async (orgId?: string) => {
@@ -439,7 +454,8 @@ export default function PayrollDashboard() {
     .from('payroll_submissions')
     .select('*')
     .eq('organization_id', orgId)
-    .eq('pay_date', nextFriday);
+    .eq('pay_date', nextFriday)
+    .is('adjusts_submission_id', null);
 
   console.log('📊 Submissions for this pay period:', submissions?.length || 0, submissions);
 
@@ -560,118 +576,12 @@ export default function PayrollDashboard() {
         detailsCount: submissionDetails.length
       });
 
-      // STEP 1: Update payroll_submissions status to 'approved'
-      const { error: updateSubmissionError } = await dataClient
-        .from('payroll_submissions')
-        .update({
-          status: 'approved',
-          approved_by: userId,
-          approved_at: new Date().toISOString()
-        })
-        .eq('id', selectedSubmission.id);
-
-      if (updateSubmissionError) {
-        console.error('❌ Failed to update submission:', updateSubmissionError);
-        throw updateSubmissionError;
-      }
-
-      console.log('✅ Submission updated to approved');
-
-      // STEP 2: Update all payroll_entries for this submission to 'approved'
-      const { error: updateEntriesError } = await dataClient
-        .from('payroll_entries')
-        .update({
-          status: 'approved'
-        })
-        .eq('submission_id', selectedSubmission.id);
-
-      if (updateEntriesError) {
-        console.error('❌ Failed to update entries:', updateEntriesError);
-        throw updateEntriesError;
-      }
-
-      console.log('✅ Entries updated to approved');
-
-      // STEP 3: Skip audit log (not needed)
-      console.log('✅ Skipping approval log');
-
-      // STEP 4: Post to payments table
-      if (submissionDetails.length > 0) {
-        const paymentsToInsert = submissionDetails.map(detail => {
-          const nameParts = detail.employee_name.split(' ');
-          const firstName = nameParts[0] || 'Unknown';
-          const lastName = nameParts.slice(1).join(' ') || firstName;
-          
-          return {
-            employee_id: detail.employee_id,
-            submission_id: selectedSubmission.id,
-            location_id: selectedSubmission.location_id,
-            first_name: firstName,
-            last_name: lastName,
-            department: selectedSubmission.location_name || 'Unknown',
-            date: selectedSubmission.pay_date,
-            total_amount: detail.amount,
-            payment_method: 'Direct Deposit',
-            payroll_group: selectedSubmission.payroll_group,
-            hours: detail.hours,
-            units: detail.units,
-            source: 'system'
-          };
-        });
-
-        console.log('💾 Inserting payments:', {
-          count: paymentsToInsert.length,
-          total: paymentsToInsert.reduce((sum, p) => sum + p.total_amount, 0),
-          sample: paymentsToInsert[0]
-        });
-
-        const { data: insertedPayments, error: paymentsError } = await dataClient
-          .from('payments')
-          .insert(paymentsToInsert)
-          .select();
-
-        if (paymentsError) {
-          console.error('❌ Payments insert error:', paymentsError);
-          throw new Error(`Failed to insert payments: ${paymentsError.message}`);
-        }
-
-        console.log('✅ Payments inserted:', insertedPayments?.length);
-      }
-
-      // STEP 5: Update submission to 'posted' status
-      const { error: postedError } = await dataClient
-        .from('payroll_submissions')
-        .update({
-          status: 'posted',
-          processed_by: userId,
-          processed_at: new Date().toISOString()
-        })
-        .eq('id', selectedSubmission.id);
-
-      if (postedError) {
-        console.error('❌ Failed to update to posted:', postedError);
-        throw postedError;
-      }
-
-      console.log('✅ Submission marked as posted');
-
-      // STEP 6: Update entries to 'posted'
-      const { error: entriesPostedError } = await dataClient
-        .from('payroll_entries')
-        .update({
-          status: 'posted'
-        })
-        .eq('submission_id', selectedSubmission.id);
-
-      if (entriesPostedError) {
-        console.error('❌ Failed to update entries to posted:', entriesPostedError);
-        throw entriesPostedError;
-      }
-
-      console.log('✅ Entries marked as posted');
+      // Submission, entries, payments and the approval record are written in one transaction
+      const result = await reviewPayrollSubmission(selectedSubmission.id, 'approved');
+      console.log('✅ Payments inserted:', result.payments_created);
 
-      // Success!
-      alert('✅ Payroll approved and posted successfully!');
+      // Success! An earlier step of the approval chain leaves the run pending
+      alert(result.status === 'pending' ? `✅ ${result.message}` : '✅ Payroll approved and posted successfully!');
       setShowApprovalModal(false);
       setSelectedSubmission(null);
       
@@ -738,45 +648,7 @@ export default function PayrollDashboard() {
         note: rejectionNote
       });
 
-      // STEP 1: Update submission with rejection fields
-      console.log('Step 1: Updating submission status...');
-      const { data: updatedSubmission, error: submissionError } = await dataClient
-        .from('payroll_submissions')
-        .update({
-          status: 'rejected',
-          rejected_by: userId,
-          rejected_at: new Date().toISOString(),
-          rejection_note: rejectionNote || null
-        })
-        .eq('id', selectedSubmission.id)
-        .select()
-        .single();
-
-      if (submissionError) {
-        console.error('❌ Failed to update submission:', submissionError);
-        throw new Error(`Submission update failed: ${submissionError.message}`);
-      }
-
-      console.log('✅ Submission updated to rejected:', updatedSubmission);
-
-      // STEP 2: Update entries status
-      console.log('Step 2: Updating entries status...');
-      const { error: entriesError } = await dataClient
-        .from('payroll_entries')
-        .update({
-          status: 'rejected'
-        })
-        .eq('submission_id', selectedSubmission.id);
-
-      if (entriesError) {
-        console.error('❌ Failed to update entries:', entriesError);
-        throw new Error(`Entries update failed: ${entriesError.message}`);
-      }
-
-      console.log('✅ Entries updated to rejected');
-
-      // STEP 3: Log rejection (optional - skip if it requires org_id)
-      console.log('Step 3: Skipping audit log (not required)');
+      await reviewPayrollSubmission(selectedSubmission.id, 'rejected', rejectionNote);
 
       // SUCCESS!
       console.log('✅ Rejection complete');
@@ -1354,6 +1226,7 @@ const getLocationStatusIcon = (status: LocationStatus['status']) => {
                       minute: '2-digit'
                     })}
                   </div>
+                  {approvals[submission.id] && <ApprovalWaitingOn approval={approvals[submission.id]} />}
                 </div>
               ))
             ) : (
@@ -2052,6 +1925,11 @@ const getLocationStatusIcon = (status: LocationStatus['status']) => {
                   {formatDate(selectedSubmission.period_start)} - {formatDate(selectedSubmission.period_end)}
                 </div>
               </div>
+              {selectedSubmission.adjusts_submission_id && (
+                <div style={{ marginTop: '12px', fontSize: '13px', color: BRAND_COLORS.warning }}>
+                  Correction run: {selectedSubmission.correction_reason}. Negative lines reverse what was already paid.
+                </div>
+              )}
             </div>
 
             <h3 style={{ fontSize: '16px', fontWeight: '600', marginBottom: '12px' }}>
@@ -2105,6 +1983,16 @@ const getLocationStatusIcon = (status: LocationStatus['status']) => {
               </div>
             </div>
 
+            {!selectedSubmission.adjusts_submission_id && (
+              <div style={{ marginBottom: '20px' }}>
+                <PayrollVarianceReport submissionId={selectedSubmission.id} />
+              </div>
+            )}
+
+            {approvals[selectedSubmission.id] && (
+              <ApprovalWaitingOn approval={approvals[selectedSubmission.id]} className="mb-5" />
+            )}
+
             {/* ✅ NEW: Rejection Note Input */}
             <div style={{ marginBottom: '20px' }}>
               <label style={{
@@ -2190,7 +2078,7 @@ const getLocationStatusIcon = (status: LocationStatus['status']) => {
                 ) : (
                   <>
                     <CheckCircle size={18} />
-                    Approve & Post
+                    {isFinalApproval(approvals[selectedSubmission.id]) ? 'Approve & Post' : 'Approve Step'}
                   </>
                 )}
               </button>
@@ -3,6 +3,16 @@
 import { useEffect, useMemo, useState, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { getAuthClient, getDataClient, syncDataClientSession } from '@/lib/supabase/client'
+import { useOrganizationId } from '@/lib/hooks/useOrganizationId'
+import { fetchPayPeriods, periodKey, type PayPeriod } from '@/lib/payroll/calendarClient'
+import { hourlyPay, splitEnteredHours, type HoursSplit, type LocationPayrollPolicy } from '@/lib/payroll/overtime'
+import { carryOverAdjustments, splitTimesheet, type TimesheetShift } from '@/lib/payroll/timesheets'
+import { fetchLocationPolicy, fetchTimesheets, saveSubmissionTimesheets } from '@/lib/payroll/timesheetClient'
+import { applyRates, changeEmployeeRate, fetchRatesAsOf, rateChanged, rateOf } from '@/lib/payroll/compensationClient'
+import { submitPayrollEntries, type SubmittedEmployee } from '@/lib/payroll/submitClient'
+import TimesheetDrawer from '@/components/mobile-dashboard/TimesheetDrawer'
+import { fetchReconciliationItems, resolveReconciliationItem, type ReconciliationItem, type ResolveInput } from '@/lib/payroll/reconciliationClient'
+import ProductionReconciliation from '@/components/mobile-dashboard/ProductionReconciliation'
 import { LogOut, DollarSign, Clock, Users, CheckCircle2, AlertCircle, X, Calendar, MapPin, ChevronDown, RefreshCw, Hash } from 'lucide-react'
 
 // Types
@@ -24,6 +34,9 @@ type Employee = {
 
 type EmployeeRow = Employee & {
   hours: string
+  // Part of hours, paid at 1.5x / 2x
+  overtime_hours: string
+  double_time_hours: string
   units: string
   count: string
   adjustment: string
@@ -41,6 +54,23 @@ type Alert = {
   message: string
 }
 
+// Rates in effect at the start of the pay period, not today's. Keeps the
+// current rates if the period isn't known yet or the lookup fails.
+async function withPeriodRates(
+  rows: EmployeeRow[],
+  organizationId: string | null,
+  locationId: string,
+  periodStart: string,
+): Promise<EmployeeRow[]> {
+  if (!organizationId || !periodStart) return rows
+  try {
+    return applyRates(rows, await fetchRatesAsOf(organizationId, locationId, periodStart))
+  } catch (error) {
+    console.error('❌ Error loading rates for the period:', error)
+    return rows
+  }
+}
+
 // Date helper functions
 function parseLocalDate(dateStr: string): Date | null {
   const parts = dateStr.split('-').map(Number)
@@ -49,13 +79,6 @@ function parseLocalDate(dateStr: string): Date | null {
   return new Date(year, month - 1, day)
 }
 
-function formatInputDate(date: Date): string {
-  const y = date.getFullYear()
-  const m = String(date.getMonth() + 1).padStart(2, '0')
-  const d = String(date.getDate()).padStart(2, '0')
-  return `${y}-${m}-${d}`
-}
-
 function formatCurrency(
   value: number | string | null | undefined,
   fractionDigits = 2,
@@ -77,52 +100,6 @@ function formatCurrency(
   })
 }
 
-const MS_PER_DAY = 1000 * 60 * 60 * 24
-const MS_PER_WEEK = MS_PER_DAY * 7
-const PAYROLL_REFERENCE_DATE = new Date(2025, 0, 3)
-
-function calculatePayrollInfo(payDateStr: string): {
-  payrollGroup: PayrollGroup
-  periodStart: string
-  periodEnd: string
-} {
-  const payDate = parseLocalDate(payDateStr)
-  if (!payDate) {
-    return { payrollGroup: 'A', periodStart: payDateStr, periodEnd: payDateStr }
-  }
-
-  const periodEnd = new Date(payDate)
-  periodEnd.setDate(payDate.getDate() - 9)
-
-  const periodStart = new Date(periodEnd)
-  periodStart.setDate(periodEnd.getDate() - 13)
-
-  const payDateUTC = Date.UTC(payDate.getFullYear(), payDate.getMonth(), payDate.getDate())
-  const referenceDateUTC = Date.UTC(
-    PAYROLL_REFERENCE_DATE.getFullYear(),
-    PAYROLL_REFERENCE_DATE.getMonth(),
-    PAYROLL_REFERENCE_DATE.getDate(),
-  )
-  const weeksDifference = Math.round((payDateUTC - referenceDateUTC) / MS_PER_WEEK)
-  const parity = ((weeksDifference % 2) + 2) % 2
-  const payrollGroup: PayrollGroup = parity === 0 ? 'A' : 'B'
-
-  return {
-    payrollGroup,
-    periodStart: formatInputDate(periodStart),
-    periodEnd: formatInputDate(periodEnd),
-  }
-}
-
-function getNextFriday(): string {
-  const today = new Date()
-  const dayOfWeek = today.getDay()
-  const daysUntilFriday = dayOfWeek <= 5 ? 5 - dayOfWeek : 6
-  const nextFriday = new Date(today)
-  nextFriday.setDate(today.getDate() + daysUntilFriday)
-  return formatInputDate(nextFriday)
-}
-
 function formatDateRange(startDate: string, endDate: string): string {
   const start = parseLocalDate(startDate)
   const end = parseLocalDate(endDate)
@@ -140,31 +117,50 @@ function formatDateRange(startDate: string, endDate: string): string {
   }
 }
 
-function generateFridayOptions(pastCount = 6, futureCount = 12) {
-  const today = new Date()
-  const dayOfWeek = today.getDay()
-  const daysUntilNextFriday = (5 - dayOfWeek + 7) % 7
-  const nextFriday = new Date(today)
-  nextFriday.setDate(today.getDate() + daysUntilNextFriday)
-
-  const startDate = new Date(nextFriday)
-  startDate.setDate(nextFriday.getDate() - pastCount * 7)
-
-  const options: { value: string; label: string }[] = []
-  for (let i = 0; i <= pastCount + futureCount; i++) {
-    const optionDate = new Date(startDate)
-    optionDate.setDate(startDate.getDate() + i * 7)
-    options.push({
-      value: formatInputDate(optionDate),
-      label: optionDate.toLocaleDateString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-      }),
-    })
+// Regular/overtime/double-time split of an hourly row as entered
+function hoursSplitFor(emp: EmployeeRow): HoursSplit {
+  return splitEnteredHours(
+    parseFloat(emp.hours) || 0,
+    parseFloat(emp.overtime_hours) || 0,
+    parseFloat(emp.double_time_hours) || 0,
+  )
+}
+
+function hoursSplitColumns(emp: EmployeeRow) {
+  if (emp.compensation_type !== 'hourly') {
+    return { regular_hours: null, overtime_hours: null, double_time_hours: null }
+  }
+  const split = hoursSplitFor(emp)
+  return { regular_hours: split.regular, overtime_hours: split.overtime, double_time_hours: split.doubleTime }
+}
+
+function submittedEmployee(emp: EmployeeRow): SubmittedEmployee {
+  return {
+    employee_id: emp.id,
+    first_name: emp.first_name,
+    last_name: emp.last_name,
+    type: emp.compensation_type,
+    hours: emp.compensation_type === 'hourly' ? parseFloat(emp.hours) : null,
+    ...hoursSplitColumns(emp),
+    units: emp.compensation_type === 'production' ? parseFloat(emp.units) : null,
+    fixed_count: emp.compensation_type === 'fixed' ? parseFloat(emp.count) : null,
+    adjustment_amount: emp.compensation_type === 'fixed' ? parseFloat(emp.adjustment) : null,
+    amount: emp.amount,
+    notes: emp.notes || null,
   }
-  return options
+}
+
+// Total paid hours of a split, as the hours input shows it
+function splitTotal(split: HoursSplit): string {
+  return String(Math.round((split.regular + split.overtime + split.doubleTime) * 100) / 100)
+}
+
+function payPeriodLabel(period: PayPeriod): string {
+  const date = parseLocalDate(period.payDate)
+  const label = date
+    ? date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+    : period.payDate
+  return `${label} · Group ${period.payrollGroup}`
 }
 
 export default function MobilePayrollSubmit() {
@@ -204,6 +200,8 @@ export default function MobilePayrollSubmit() {
   
   const [showEditEmployee, setShowEditEmployee] = useState(false)
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null)
+  // A rate edit is recorded as a change starting on effective_from (default: the period start)
+  const [rateChange, setRateChange] = useState({ effective_from: '', reason: '' })
   const [swipedEmployeeId, setSwipedEmployeeId] = useState<string | null>(null)
   const [touchStart, setTouchStart] = useState<{ x: number; y: number } | null>(null)
   const [touchOffset, setTouchOffset] = useState(0)
@@ -218,19 +216,36 @@ export default function MobilePayrollSubmit() {
     fixed_pay: '',
   })
 
-  const fridayOptions = useMemo(() => generateFridayOptions(), [])
+  const organizationId = useOrganizationId()
+  const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([])
+  // Connecteam shifts per employee id, from the hours sync or the submission's snapshot
+  const [timesheets, setTimesheets] = useState<Record<string, TimesheetShift[]>>({})
+  const [payrollPolicy, setPayrollPolicy] = useState<LocationPayrollPolicy | null>(null)
+  const [showTimesheet, setShowTimesheet] = useState(false)
+  // Production submissions for the period that matched no employee
+  const [reconciliationItems, setReconciliationItems] = useState<ReconciliationItem[]>([])
+
+  const applyPayPeriod = useCallback((period: PayPeriod) => {
+    setPayDate(period.payDate)
+    setPayrollGroup(period.payrollGroup as PayrollGroup)
+    setPeriodStart(period.periodStart)
+    setPeriodEnd(period.periodEnd)
+  }, [])
 
-  // Initialize pay date
+  // Pay dates come from the org's payroll calendar; start on the next one
   useEffect(() => {
-    if (fridayOptions.length === 0) return
-    const nextFriday = getNextFriday()
-    const defaultDate = fridayOptions.find((option) => option.value === nextFriday)?.value ?? fridayOptions[fridayOptions.length - 1]?.value ?? nextFriday
-    setPayDate(defaultDate)
-    const info = calculatePayrollInfo(defaultDate)
-    setPayrollGroup(info.payrollGroup)
-    setPeriodStart(info.periodStart)
-    setPeriodEnd(info.periodEnd)
-  }, [fridayOptions])
+    if (!organizationId) return
+    fetchPayPeriods(organizationId)
+      .then(({ past, upcoming }) => {
+        setPayPeriods([...past, ...upcoming])
+        const next = upcoming[0] ?? past[past.length - 1]
+        if (next) applyPayPeriod(next)
+      })
+      .catch((error) => {
+        console.error('❌ Error loading payroll calendar:', error)
+        setAlert({ type: 'error', message: 'Failed to load pay dates from the payroll calendar' })
+      })
+  }, [organizationId, applyPayPeriod])
 
   // Auth check
   useEffect(() => {
@@ -312,21 +327,25 @@ export default function MobilePayrollSubmit() {
   }, [authClient, dataSupabase, router])
 
   // Check for draft or rejected submissions when location/payDate/payrollGroup changes
-  const loadExistingSubmission = useCallback(async (locationId: string, currentEmployees: EmployeeRow[]) => {
+  const loadExistingSubmission = useCallback(async (locationId: string, loadedEmployees: EmployeeRow[]) => {
     console.log('🔍 loadExistingSubmission called:', { 
       locationId, 
       payDate, 
       payrollGroup,
-      employees: currentEmployees.length 
+      employees: loadedEmployees.length 
     })
     
     try {
+      const currentEmployees = await withPeriodRates(loadedEmployees, organizationId, locationId, periodStart)
+
       // Check for ANY existing submission (not just draft/rejected)
       const { data: submissions, error } = await dataSupabase
         .from('payroll_submissions')
         .select('*, payroll_entries(*)')
         .eq('location_id', locationId)
         .eq('pay_date', payDate)
+        // Correction runs are made from the approval screen, not edited here
+        .is('adjusts_submission_id', null)
         .order('created_at', { ascending: false })
         .limit(1)
 
@@ -386,6 +405,8 @@ export default function MobilePayrollSubmit() {
             return {
               ...emp,
               hours: entry.hours != null ? entry.hours.toString() : '',
+              overtime_hours: entry.overtime_hours != null ? entry.overtime_hours.toString() : '',
+              double_time_hours: entry.double_time_hours != null ? entry.double_time_hours.toString() : '',
               units: entry.units != null ? entry.units.toString() : '',
               count: entry.fixed_count != null ? entry.fixed_count.toString() : '1',
               adjustment: entry.adjustment_amount != null ? entry.adjustment_amount.toString() : '0',
@@ -399,8 +420,17 @@ export default function MobilePayrollSubmit() {
         console.log('✅ Updated employees with loaded data. Employees with data:', 
           updatedEmployees.filter(e => e.hours || e.units || parseFloat(e.count || '0') > 1).length)
         setEmployees(updatedEmployees)
+
+        // Shifts and corrections saved with the submission
+        const savedTimesheets = await fetchTimesheets(submission.id)
+        setTimesheets(Object.fromEntries(savedTimesheets.map((sheet) => [sheet.employeeId, sheet.shifts])))
+        if (savedTimesheets.length > 0 && organizationId) {
+          setPayrollPolicy(await fetchLocationPolicy(organizationId, locationId))
+        }
       } else {
         console.log('ℹ️ No existing submission found - starting fresh')
+        setEmployees(currentEmployees)
+        setTimesheets({})
         setSubmissionStatus('none')
         setSubmittedAt(null)
         setSubmittedBy(null)
@@ -411,7 +441,7 @@ export default function MobilePayrollSubmit() {
     } catch (error) {
       console.error('❌ Error loading submission:', error)
     }
-  }, [payDate, payrollGroup, dataSupabase])
+  }, [payDate, payrollGroup, periodStart, dataSupabase, organizationId])
 
   useEffect(() => {
     console.log('🎯 useEffect triggered - checking conditions:', {
@@ -443,6 +473,8 @@ export default function MobilePayrollSubmit() {
       const employeeRows: EmployeeRow[] = (data || []).map((emp: Employee) => ({
         ...emp,
         hours: '',
+        overtime_hours: '',
+        double_time_hours: '',
         units: '',
         count: '1',
         adjustment: '0',
@@ -450,7 +482,7 @@ export default function MobilePayrollSubmit() {
         amount: 0,
       }))
 
-      setEmployees(employeeRows)
+      setEmployees(await withPeriodRates(employeeRows, organizationId, locationId, periodStart))
       // ✅ Don't call loadExistingSubmission here - the useEffect will handle it
       
     } catch (error) {
@@ -460,6 +492,14 @@ export default function MobilePayrollSubmit() {
   }
 
   // ✅ NEW: Auto-save function (debounced)
+  // Store synced shifts and any corrections with the submission's entries
+  const persistTimesheets = useCallback(async (submissionId: string, employeesData: EmployeeRow[]) => {
+    const sheets = employeesData
+      .filter((emp) => emp.compensation_type === 'hourly' && timesheets[emp.id]?.length)
+      .map((emp) => ({ employeeId: emp.id, shifts: timesheets[emp.id] }))
+    if (sheets.length > 0) await saveSubmissionTimesheets(submissionId, sheets)
+  }, [timesheets])
+
   const autoSaveDraft = useCallback(async (employeesData: EmployeeRow[]) => {
     if (!selectedLocationId || !userId) return
 
@@ -477,116 +517,19 @@ export default function MobilePayrollSubmit() {
 
     setIsAutoSaving(true)
     try {
-      // Get organization_id
-      const { data: locationData, error: locationError } = await dataSupabase
-        .from('locations')
-        .select('organization_id')
-        .eq('id', selectedLocationId)
-        .single()
-
-      if (locationError || !locationData?.organization_id) {
-        throw new Error('Failed to get organization ID')
-      }
-
-      const organizationId = locationData.organization_id
-      const totalAmount = employeesWithData.reduce((sum, emp) => sum + emp.amount, 0)
-
-      const existingSubmissionId = draftSubmissionId || rejectedSubmissionId
-
-      if (existingSubmissionId) {
-        // UPDATE existing submission as draft
-        const { error: updateError } = await dataSupabase
-          .from('payroll_submissions')
-          .update({
-            // status removed - inherited from submission
-            total_amount: totalAmount,
-            employee_count: employeesWithData.length,
-            submitted_by: userId,
-            rejected_by: null,
-            rejected_at: null,
-            rejection_note: null,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', existingSubmissionId)
-
-        if (updateError) throw updateError
-
-        // Delete old entries
-        await dataSupabase
-          .from('payroll_entries')
-          .delete()
-          .eq('submission_id', existingSubmissionId)
-
-        // Insert updated entries
-        const details = employeesWithData.map(emp => ({
-          organization_id: organizationId,
-          submission_id: existingSubmissionId,
-          employee_id: emp.id,
-          employee_first_name: emp.first_name,
-          employee_last_name: emp.last_name,
-          hours: emp.compensation_type === 'hourly' ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === 'production' ? parseFloat(emp.units) : null,
-          fixed_count: emp.compensation_type === 'fixed' ? parseFloat(emp.count) : null,
-          adjustment_amount: emp.compensation_type === 'fixed' ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          // status removed - inherited from submission
-        }))
-
-        const { error: detailsError } = await dataSupabase
-          .from('payroll_entries')
-          .insert(details)
-
-        if (detailsError) throw detailsError
-
-        setDraftSubmissionId(existingSubmissionId)
-        setRejectedSubmissionId(null)
-        setRejectionNote(null)
-
-      } else {
-        // CREATE new draft submission
-        const { data: submission, error: submissionError } = await dataSupabase
-          .from('payroll_submissions')
-          .insert({
-            organization_id: organizationId,
-            location_id: selectedLocationId,
-            pay_date: payDate,
-            payroll_group: payrollGroup,
-            period_start: periodStart,
-            period_end: periodEnd,
-            total_amount: totalAmount,
-            employee_count: employeesWithData.length,
-            submitted_by: userId,
-            // status removed - inherited from submission
-          })
-          .select()
-          .single()
+      const result = await submitPayrollEntries({
+        locationId: selectedLocationId,
+        payDate,
+        payrollGroup,
+        employees: employeesWithData.map(submittedEmployee),
+        submissionId: draftSubmissionId || rejectedSubmissionId,
+        status: 'draft',
+      })
+      await persistTimesheets(result.submission_id, employeesWithData)
 
-        if (submissionError) throw submissionError
-
-        const details = employeesWithData.map(emp => ({
-          organization_id: organizationId,
-          submission_id: submission.id,
-          employee_id: emp.id,
-          employee_first_name: emp.first_name,
-          employee_last_name: emp.last_name,
-          hours: emp.compensation_type === 'hourly' ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === 'production' ? parseFloat(emp.units) : null,
-          fixed_count: emp.compensation_type === 'fixed' ? parseFloat(emp.count) : null,
-          adjustment_amount: emp.compensation_type === 'fixed' ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          // status removed - inherited from submission
-        }))
-
-        const { error: detailsError } = await dataSupabase
-          .from('payroll_entries')
-          .insert(details)
-
-        if (detailsError) throw detailsError
-
-        setDraftSubmissionId(submission.id)
-      }
+      setDraftSubmissionId(result.submission_id)
+      setRejectedSubmissionId(null)
+      setRejectionNote(null)
 
       setLastSavedAt(new Date())
       
@@ -596,7 +539,7 @@ export default function MobilePayrollSubmit() {
     } finally {
       setIsAutoSaving(false)
     }
-  }, [selectedLocationId, userId, payDate, payrollGroup, periodStart, periodEnd, draftSubmissionId, rejectedSubmissionId, dataSupabase])
+  }, [selectedLocationId, userId, payDate, payrollGroup, draftSubmissionId, rejectedSubmissionId, persistTimesheets])
 
   // ✅ NEW: Manual Save Draft (with user feedback)
   async function handleSaveDraft() {
@@ -616,116 +559,19 @@ export default function MobilePayrollSubmit() {
 
     setIsAutoSaving(true)
     try {
-      // Get organization_id
-      const { data: locationData, error: locationError } = await dataSupabase
-        .from('locations')
-        .select('organization_id')
-        .eq('id', selectedLocationId)
-        .single()
-
-      if (locationError || !locationData?.organization_id) {
-        throw new Error('Failed to get organization ID')
-      }
-
-      const organizationId = locationData.organization_id
-      const totalAmount = employeesWithData.reduce((sum, emp) => sum + emp.amount, 0)
-
-      const existingSubmissionId = draftSubmissionId || rejectedSubmissionId
-
-      if (existingSubmissionId) {
-        // UPDATE existing submission as draft
-        const { error: updateError } = await dataSupabase
-          .from('payroll_submissions')
-          .update({
-            // status removed - inherited from submission
-            total_amount: totalAmount,
-            employee_count: employeesWithData.length,
-            submitted_by: userId,
-            rejected_by: null,
-            rejected_at: null,
-            rejection_note: null,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', existingSubmissionId)
-
-        if (updateError) throw updateError
-
-        // Delete old entries
-        await dataSupabase
-          .from('payroll_entries')
-          .delete()
-          .eq('submission_id', existingSubmissionId)
-
-        // Insert updated entries
-        const details = employeesWithData.map(emp => ({
-          organization_id: organizationId,
-          submission_id: existingSubmissionId,
-          employee_id: emp.id,
-          employee_first_name: emp.first_name,
-          employee_last_name: emp.last_name,
-          hours: emp.compensation_type === 'hourly' ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === 'production' ? parseFloat(emp.units) : null,
-          fixed_count: emp.compensation_type === 'fixed' ? parseFloat(emp.count) : null,
-          adjustment_amount: emp.compensation_type === 'fixed' ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          // status removed - inherited from submission
-        }))
-
-        const { error: detailsError } = await dataSupabase
-          .from('payroll_entries')
-          .insert(details)
-
-        if (detailsError) throw detailsError
-
-        setDraftSubmissionId(existingSubmissionId)
-        setRejectedSubmissionId(null)
-        setRejectionNote(null)
-
-      } else {
-        // CREATE new draft submission
-        const { data: submission, error: submissionError } = await dataSupabase
-          .from('payroll_submissions')
-          .insert({
-            organization_id: organizationId,
-            location_id: selectedLocationId,
-            pay_date: payDate,
-            payroll_group: payrollGroup,
-            period_start: periodStart,
-            period_end: periodEnd,
-            total_amount: totalAmount,
-            employee_count: employeesWithData.length,
-            submitted_by: userId,
-            // status removed - inherited from submission
-          })
-          .select()
-          .single()
+      const result = await submitPayrollEntries({
+        locationId: selectedLocationId,
+        payDate,
+        payrollGroup,
+        employees: employeesWithData.map(submittedEmployee),
+        submissionId: draftSubmissionId || rejectedSubmissionId,
+        status: 'draft',
+      })
+      await persistTimesheets(result.submission_id, employeesWithData)
 
-        if (submissionError) throw submissionError
-
-        const details = employeesWithData.map(emp => ({
-          organization_id: organizationId,
-          submission_id: submission.id,
-          employee_id: emp.id,
-          employee_first_name: emp.first_name,
-          employee_last_name: emp.last_name,
-          hours: emp.compensation_type === 'hourly' ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === 'production' ? parseFloat(emp.units) : null,
-          fixed_count: emp.compensation_type === 'fixed' ? parseFloat(emp.count) : null,
-          adjustment_amount: emp.compensation_type === 'fixed' ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          // status removed - inherited from submission
-        }))
-
-        const { error: detailsError } = await dataSupabase
-          .from('payroll_entries')
-          .insert(details)
-
-        if (detailsError) throw detailsError
-
-        setDraftSubmissionId(submission.id)
-      }
+      setDraftSubmissionId(result.submission_id)
+      setRejectedSubmissionId(null)
+      setRejectionNote(null)
 
       setLastSavedAt(new Date())
       showAlert('success', '💾 Draft saved successfully!')
@@ -779,6 +625,27 @@ export default function MobilePayrollSubmit() {
     )
   }, [filteredEmployees])
 
+  const openReconciliationItems = useMemo(
+    () => reconciliationItems.filter(item => item.status === 'open'),
+    [reconciliationItems],
+  )
+
+  const loadReconciliation = useCallback(async () => {
+    if (!selectedLocationId || !periodStart || !periodEnd) {
+      setReconciliationItems([])
+      return
+    }
+    try {
+      setReconciliationItems(await fetchReconciliationItems(selectedLocationId, periodStart, periodEnd))
+    } catch (error) {
+      console.error('❌ Error loading production reconciliation:', error)
+    }
+  }, [selectedLocationId, periodStart, periodEnd])
+
+  useEffect(() => {
+    loadReconciliation()
+  }, [loadReconciliation])
+
   const totals = useMemo(() => {
     const employeesWithData = filteredEmployees.filter(emp => {
       if (emp.compensation_type === 'hourly') return parseFloat(emp.hours || '0') > 0
@@ -800,31 +667,35 @@ export default function MobilePayrollSubmit() {
     }
   }, [filteredEmployees])
 
+  const selectedTimesheet = useMemo(() => {
+    return selectedEmployee ? timesheets[selectedEmployee.id] || [] : []
+  }, [selectedEmployee, timesheets])
+
   const selectedEmployeeAdjustment = useMemo(() => {
     return parseFloat(selectedEmployee?.adjustment || '0')
   }, [selectedEmployee])
 
-  function handlePayDateChange(newPayDate: string) {
-    setPayDate(newPayDate)
-    const info = calculatePayrollInfo(newPayDate)
-    setPayrollGroup(info.payrollGroup)
-    setPeriodStart(info.periodStart)
-    setPeriodEnd(info.periodEnd)
+  function handlePayPeriodChange(key: string) {
+    const period = payPeriods.find((p) => periodKey(p) === key)
+    if (period) applyPayPeriod(period)
   }
 
   function handleEmployeeSelect(employee: EmployeeRow) {
     setSelectedEmployee(employee)
+    setShowTimesheet(false)
   }
 
-  function handleInputChange(field: 'hours' | 'units' | 'count' | 'adjustment' | 'notes', value: string) {
+  function handleInputChange(
+    field: 'hours' | 'overtime_hours' | 'double_time_hours' | 'units' | 'count' | 'adjustment' | 'notes',
+    value: string,
+  ) {
     if (!selectedEmployee) return
 
     const updated = { ...selectedEmployee, [field]: value }
 
     // Calculate amount based on compensation type
     if (selectedEmployee.compensation_type === 'hourly') {
-      const hours = parseFloat(field === 'hours' ? value : updated.hours) || 0
-      updated.amount = hours * (selectedEmployee.hourly_rate || 0)
+      updated.amount = hourlyPay(hoursSplitFor(updated), selectedEmployee.hourly_rate || 0)
     } else if (selectedEmployee.compensation_type === 'production') {
       const units = parseFloat(field === 'units' ? value : updated.units) || 0
       updated.amount = units * (selectedEmployee.piece_rate || 0)
@@ -838,6 +709,57 @@ export default function MobilePayrollSubmit() {
     setSelectedEmployee(updated)
   }
 
+  // Timesheet drawer corrections: hours and pay follow the corrected shifts
+  function handleTimesheetChange(shifts: TimesheetShift[]) {
+    if (!selectedEmployee || !payrollPolicy) return
+
+    const split = splitTimesheet(shifts, payrollPolicy, periodStart, periodEnd).total
+    setTimesheets((prev) => ({ ...prev, [selectedEmployee.id]: shifts }))
+    setSelectedEmployee({
+      ...selectedEmployee,
+      hours: splitTotal(split),
+      overtime_hours: split.overtime.toString(),
+      double_time_hours: split.doubleTime.toString(),
+      amount: hourlyPay(split, selectedEmployee.hourly_rate || 0),
+    })
+  }
+
+  // Assigned submissions count toward the employee's units right away; a later
+  // production sync counts them the same way
+  async function handleResolveReconciliation(item: ReconciliationItem, input: ResolveInput) {
+    try {
+      const { item: updated, alsoResolved } = await resolveReconciliationItem(item.id, input)
+      const resolved = [updated, ...alsoResolved]
+      const byId = new Map(resolved.map(r => [r.id, r]))
+      setReconciliationItems(prev => prev.map(r => byId.get(r.id) || r))
+
+      const addedUnits: Record<string, number> = {}
+      resolved
+        .filter(r => r.status === 'assigned' && r.employee_id && reconciliationItems.some(p => p.id === r.id))
+        .forEach(r => {
+          addedUnits[r.employee_id!] = (addedUnits[r.employee_id!] || 0) + 1
+        })
+
+      if (Object.keys(addedUnits).length > 0) {
+        const updatedEmployees = employees.map(emp => {
+          const added = addedUnits[emp.id]
+          if (!added || emp.compensation_type !== 'production') return emp
+          const units = parseFloat(emp.units || '0') + added
+          return { ...emp, units: units.toString(), amount: units * (emp.piece_rate || 0) }
+        })
+        setEmployees(updatedEmployees)
+        triggerAutoSave()
+      }
+
+      showAlert('success', input.status === 'assigned'
+        ? `✓ Assigned ${resolved.length} submission${resolved.length !== 1 ? 's' : ''}`
+        : `✓ Marked ${resolved.length} submission${resolved.length !== 1 ? 's' : ''} non-payable`)
+    } catch (error) {
+      console.error('❌ Reconciliation error:', error)
+      showAlert('error', error instanceof Error ? error.message : 'Failed to update the submission')
+    }
+  }
+
   // ✅ MODIFIED: handleSaveEmployee now triggers auto-save
   function handleSaveEmployee() {
     if (!selectedEmployee) return
@@ -905,6 +827,7 @@ export default function MobilePayrollSubmit() {
         periodEnd: periodEnd,
         employeeEmails: employeeEmails,
         payrollGroup: payrollGroup,
+        locationId: selectedLocationId,
       }),
     })
 
@@ -921,26 +844,39 @@ export default function MobilePayrollSubmit() {
     
     if (result.hours && Object.keys(result.hours).length > 0) {
       let syncedCount = 0
+      const syncedTimesheets: Record<string, TimesheetShift[]> = {}
       
       const updatedEmployees = employees.map(emp => {
         if (emp.compensation_type !== 'hourly' || !emp.email) return emp
         
         const email = emp.email.toLowerCase()
         const syncedHours = result.hours[email]
+        // Corrections already made to these shifts survive a re-sync
+        const shifts: TimesheetShift[] | null = result.shifts?.[email]?.length
+          ? carryOverAdjustments(result.shifts[email], timesheets[emp.id], result.policy)
+          : null
+        if (shifts) syncedTimesheets[emp.id] = shifts
         
         if (syncedHours !== undefined && syncedHours > 0) {
           syncedCount++
-          const hoursStr = syncedHours.toString()
+          // Split by the location's overtime rules in /api/connecteam/hours
+          const split: HoursSplit = shifts?.some((s) => s.adjusted)
+            ? splitTimesheet(shifts, result.policy, periodStart, periodEnd).total
+            : result.breakdown?.[email] || { regular: syncedHours, overtime: 0, doubleTime: 0 }
           return {
             ...emp,
-            hours: hoursStr,
-            amount: syncedHours * (emp.hourly_rate || 0)
+            hours: splitTotal(split),
+            overtime_hours: split.overtime.toString(),
+            double_time_hours: split.doubleTime.toString(),
+            amount: hourlyPay(split, emp.hourly_rate || 0)
           }
         }
         return emp
       })
       
       setEmployees(updatedEmployees)
+      setTimesheets(syncedTimesheets)
+      if (result.policy) setPayrollPolicy(result.policy)
       
       if (syncedCount > 0) {
         showAlert('success', `✓ Synced hours for ${syncedCount} employee${syncedCount !== 1 ? 's' : ''} from Connecteam!`)
@@ -1007,6 +943,7 @@ export default function MobilePayrollSubmit() {
           'Authorization': `Bearer ${session.access_token}`
         },
         body: JSON.stringify({
+          locationId: selectedLocationId,
           locationName: locationName,
           periodStart: periodStart,
           periodEnd: periodEnd,
@@ -1024,6 +961,8 @@ export default function MobilePayrollSubmit() {
 
       const result = await response.json()
       console.log('✅ Production sync result:', result)
+      // The sync queues submissions it couldn't match
+      loadReconciliation()
       
       if (result.units && Object.keys(result.units).length > 0) {
         let syncedCount = 0
@@ -1091,124 +1030,37 @@ export default function MobilePayrollSubmit() {
     return
   }
 
+  if (openReconciliationItems.length > 0) {
+    showAlert('error', `Assign or mark non-payable the ${openReconciliationItems.length} unmatched production submission${openReconciliationItems.length !== 1 ? 's' : ''} before submitting`)
+    return
+  }
+
   setIsSubmitting(true)
   try {
-    const { data: locationData, error: locationError } = await dataSupabase
-      .from('locations')
-      .select('organization_id')
-      .eq('id', selectedLocationId)
-      .single()
-
-    if (locationError || !locationData?.organization_id) {
-      throw new Error('Failed to get organization ID from location')
-    }
-
-    const organizationId = locationData.organization_id
-    console.log('🏢 Organization ID:', organizationId)
-
-    const totalAmount = employeesToSubmit.reduce((sum, emp) => sum + emp.amount, 0)
-
     const existingSubmissionId = draftSubmissionId || rejectedSubmissionId
+    console.log(existingSubmissionId
+      ? `🔄 Resubmitting existing submission (${rejectedSubmissionId ? 'REJECTED' : 'DRAFT'}): ${existingSubmissionId}`
+      : '✨ Creating NEW submission')
 
-    if (existingSubmissionId) {
-      console.log(`🔄 Updating existing submission (${rejectedSubmissionId ? 'REJECTED' : 'DRAFT'}):`, existingSubmissionId)
-      
-      const { error: updateError } = await dataSupabase
-        .from('payroll_submissions')
-        .update({
-          // status removed - inherited from submission
-          total_amount: totalAmount,
-          employee_count: employeesToSubmit.length,
-          submitted_at: new Date().toISOString(),
-          submitted_by: userId,
-          rejected_by: null,
-          rejected_at: null,
-          rejection_note: null,
-        })
-        .eq('id', existingSubmissionId)
-
-      if (updateError) throw updateError
-
-      const { error: deleteError } = await dataSupabase
-        .from('payroll_entries')
-        .delete()
-        .eq('submission_id', existingSubmissionId)
-
-      if (deleteError) throw deleteError
-
-      const details = employeesToSubmit.map(emp => ({
-        organization_id: organizationId,
-        submission_id: existingSubmissionId,
-        employee_id: emp.id,
-          employee_first_name: emp.first_name,
-          employee_last_name: emp.last_name,
-        hours: emp.compensation_type === 'hourly' ? parseFloat(emp.hours) : null,
-        units: emp.compensation_type === 'production' ? parseFloat(emp.units) : null,
-        fixed_count: emp.compensation_type === 'fixed' ? parseFloat(emp.count) : null,
-        adjustment_amount: emp.compensation_type === 'fixed' ? parseFloat(emp.adjustment) : null,
-        amount: emp.amount,
-        notes: emp.notes || null,
-        // status removed - inherited from submission
-      }))
-
-      const { error: detailsError } = await dataSupabase
-        .from('payroll_entries')
-        .insert(details)
-
-      if (detailsError) throw detailsError
+    const result = await submitPayrollEntries({
+      locationId: selectedLocationId,
+      payDate,
+      payrollGroup,
+      employees: employeesToSubmit.map(submittedEmployee),
+      submissionId: existingSubmissionId,
+    })
+    await persistTimesheets(result.submission_id, employeesToSubmit)
 
+    if (existingSubmissionId) {
       showAlert('success', rejectedSubmissionId ? '✅ Payroll resubmitted for approval!' : '✅ Draft submitted for approval!')
-      
+
       setDraftSubmissionId(null)
       setRejectedSubmissionId(null)
       setRejectionNote(null)
-
     } else {
-      console.log('✨ Creating NEW submission')
-      
-      const { data: submission, error: submissionError } = await dataSupabase
-        .from('payroll_submissions')
-        .insert({
-          organization_id: organizationId,
-          location_id: selectedLocationId,
-          pay_date: payDate,
-          payroll_group: payrollGroup,
-          period_start: periodStart,
-          period_end: periodEnd,
-          total_amount: totalAmount,
-          employee_count: employeesToSubmit.length,
-          submitted_by: userId,
-          // status removed - inherited from submission
-        })
-        .select()
-        .single()
-
-      if (submissionError) throw submissionError
-
-      const details = employeesToSubmit.map(emp => ({
-        organization_id: organizationId,
-        submission_id: submission.id,
-        employee_id: emp.id,
-          employee_first_name: emp.first_name,
-          employee_last_name: emp.last_name,
-        hours: emp.compensation_type === 'hourly' ? parseFloat(emp.hours) : null,
-        units: emp.compensation_type === 'production' ? parseFloat(emp.units) : null,
-        fixed_count: emp.compensation_type === 'fixed' ? parseFloat(emp.count) : null,
-        adjustment_amount: emp.compensation_type === 'fixed' ? parseFloat(emp.adjustment) : null,
-        amount: emp.amount,
-        notes: emp.notes || null,
-        // status removed - inherited from submission
-      }))
-
-      const { error: detailsError } = await dataSupabase
-        .from('payroll_entries')
-        .insert(details)
-
-      if (detailsError) throw detailsError
-
       showAlert('success', '✅ Payroll submitted successfully!')
     }
-    
+
     await loadEmployees(selectedLocationId)
     
   } catch (error: any) {
@@ -1307,7 +1159,25 @@ export default function MobilePayrollSubmit() {
   async function handleUpdateEmployee() {
     if (!editingEmployee) return
 
+    const original = employees.find((emp) => emp.id === editingEmployee.id)
+    const isRateChange = !original || rateChanged(original, editingEmployee)
+    if (isRateChange && !rateChange.reason.trim()) {
+      showAlert('error', 'Please enter a reason for the rate change')
+      return
+    }
+
     try {
+      // Rates are effective-dated; the API keeps the history and updates the employee
+      if (isRateChange) {
+        if (!organizationId) throw new Error('Organization not loaded yet')
+        await changeEmployeeRate(organizationId, editingEmployee.id, {
+          compensation_type: editingEmployee.compensation_type,
+          rate: rateOf(editingEmployee),
+          effective_from: rateChange.effective_from || periodStart,
+          reason: rateChange.reason,
+        })
+      }
+
       const { error } = await dataSupabase
         .from('employees')
         .update({
@@ -1315,10 +1185,6 @@ export default function MobilePayrollSubmit() {
           last_name: editingEmployee.last_name,
           email: editingEmployee.email || null,
           payroll_group: editingEmployee.payroll_group,
-          compensation_type: editingEmployee.compensation_type,
-          hourly_rate: editingEmployee.compensation_type === 'hourly' ? editingEmployee.hourly_rate : null,
-          piece_rate: editingEmployee.compensation_type === 'production' ? editingEmployee.piece_rate : null,
-          fixed_pay: editingEmployee.compensation_type === 'fixed' ? editingEmployee.fixed_pay : null,
           location_id: editingEmployee.location_id, // Update location assignment
         })
         .eq('id', editingEmployee.id)
@@ -1328,6 +1194,7 @@ export default function MobilePayrollSubmit() {
       showAlert('success', '✓ Employee updated!')
       setShowEditEmployee(false)
       setEditingEmployee(null)
+      setRateChange({ effective_from: '', reason: '' })
       
       if (selectedLocationId) {
         await loadEmployees(selectedLocationId)
@@ -1449,6 +1316,7 @@ export default function MobilePayrollSubmit() {
               onClick={() => {
                 setShowEditEmployee(false)
                 setEditingEmployee(null)
+                setRateChange({ effective_from: '', reason: '' })
               }}
               className="text-blue-100 text-sm font-medium"
             >
@@ -1571,6 +1439,41 @@ export default function MobilePayrollSubmit() {
                 />
               </div>
             )}
+
+            {(() => {
+              const original = employees.find((emp) => emp.id === editingEmployee.id)
+              if (original && !rateChanged(original, editingEmployee)) return null
+              return (
+                <>
+                  <div>
+                    <label className="text-blue-200 text-sm font-medium mb-2 block">Rate Effective From</label>
+                    <input
+                      type="date"
+                      value={rateChange.effective_from || periodStart}
+                      onChange={(e) => setRateChange({ ...rateChange, effective_from: e.target.value })}
+                      className="w-full px-4 py-3 bg-white/5 border-2 border-white/20 rounded-xl text-white focus:outline-none focus:border-blue-400 focus:bg-white/10 transition"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-blue-200 text-sm font-medium mb-2 block">Reason for Change *</label>
+                    <input
+                      type="text"
+                      value={rateChange.reason}
+                      onChange={(e) => setRateChange({ ...rateChange, reason: e.target.value })}
+                      className="w-full px-4 py-3 bg-white/5 border-2 border-white/20 rounded-xl text-white focus:outline-none focus:border-blue-400 focus:bg-white/10 transition"
+                      placeholder="e.g. Annual raise"
+                    />
+                  </div>
+                </>
+              )
+            })()}
+
+            <a
+              href={`/payroll-submit/employees/${editingEmployee.id}`}
+              className="block text-blue-300 text-sm font-medium"
+            >
+              Rate history & pay totals →
+            </a>
           </div>
 
           <button
@@ -1786,6 +1689,53 @@ export default function MobilePayrollSubmit() {
                   />
                 </label>
 
+                <div className="grid grid-cols-2 gap-3 mb-2">
+                  <label className="block">
+                    <span className="text-blue-200 text-sm font-medium mb-2 block">Overtime (1.5×)</span>
+                    <input
+                      type="number"
+                      step="0.25"
+                      value={selectedEmployee.overtime_hours}
+                      onChange={(e) => handleInputChange('overtime_hours', e.target.value)}
+                      className="w-full px-4 py-3 text-lg font-bold bg-white/5 border-2 border-white/20 rounded-xl text-white placeholder-blue-300/50 focus:outline-none focus:border-blue-400 focus:bg-white/10 transition"
+                      placeholder="0"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-blue-200 text-sm font-medium mb-2 block">Double time (2×)</span>
+                    <input
+                      type="number"
+                      step="0.25"
+                      value={selectedEmployee.double_time_hours}
+                      onChange={(e) => handleInputChange('double_time_hours', e.target.value)}
+                      className="w-full px-4 py-3 text-lg font-bold bg-white/5 border-2 border-white/20 rounded-xl text-white placeholder-blue-300/50 focus:outline-none focus:border-blue-400 focus:bg-white/10 transition"
+                      placeholder="0"
+                    />
+                  </label>
+                </div>
+                <p className="text-blue-200 text-xs mb-4">
+                  Part of hours worked. Connecteam sync fills these in from the location&apos;s overtime rules.
+                </p>
+
+                {selectedTimesheet.length > 0 && payrollPolicy && (
+                  <button
+                    type="button"
+                    onClick={() => setShowTimesheet(true)}
+                    className="w-full mb-4 px-4 py-3 bg-white/5 border-2 border-white/20 rounded-xl text-blue-100 text-sm font-medium flex items-center justify-between hover:bg-white/10 transition"
+                  >
+                    <span className="flex items-center gap-2">
+                      <Clock className="w-4 h-4" />
+                      Timesheet · {selectedTimesheet.length} shift{selectedTimesheet.length !== 1 ? 's' : ''}
+                    </span>
+                    {selectedTimesheet.some((s) => s.flags.length > 0) && (
+                      <span className="text-amber-300 flex items-center gap-1">
+                        <AlertCircle className="w-4 h-4" />
+                        Needs review
+                      </span>
+                    )}
+                  </button>
+                )}
+
                 <label className="block mb-6">
                   <span className="text-blue-200 text-sm font-medium mb-2 block">Notes (optional)</span>
                   <textarea
@@ -1934,6 +1884,19 @@ export default function MobilePayrollSubmit() {
             ✓ Confirm
           </button>
         </div>
+
+        {showTimesheet && payrollPolicy && (
+          <TimesheetDrawer
+            employeeName={`${selectedEmployee.first_name} ${selectedEmployee.last_name}`}
+            shifts={selectedTimesheet}
+            policy={payrollPolicy}
+            periodStart={periodStart}
+            periodEnd={periodEnd}
+            readOnly={submissionStatus === 'pending' || submissionStatus === 'approved'}
+            onChange={handleTimesheetChange}
+            onClose={() => setShowTimesheet(false)}
+          />
+        )}
       </div>
     )
   }
@@ -2071,16 +2034,16 @@ export default function MobilePayrollSubmit() {
               <div className="space-y-4 mb-6">
                 <div className="flex items-center gap-2 mb-2">
                   <Calendar className="w-4 h-4 text-blue-300" />
-                  <span className="text-blue-200 text-sm font-medium">Select Pay Date (Friday)</span>
+                  <span className="text-blue-200 text-sm font-medium">Select Pay Date</span>
                 </div>
                 <select
-                  value={payDate}
-                  onChange={(e) => handlePayDateChange(e.target.value)}
+                  value={periodKey({ payDate, payrollGroup })}
+                  onChange={(e) => handlePayPeriodChange(e.target.value)}
                   className="w-full px-4 py-2 text-base font-semibold bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:border-blue-400 focus:bg-white/10 transition"
                 >
-                  {fridayOptions.map((option) => (
-                    <option key={option.value} value={option.value} className="bg-slate-900 text-white">
-                      {option.label}
+                  {payPeriods.map((period) => (
+                    <option key={periodKey(period)} value={periodKey(period)} className="bg-slate-900 text-white">
+                      {payPeriodLabel(period)}
                     </option>
                   ))}
                 </select>
@@ -2094,7 +2057,7 @@ export default function MobilePayrollSubmit() {
                   <div className="mt-1 w-full px-4 py-2 text-base font-semibold bg-white/5 border border-white/20 rounded-xl text-white text-center">
                     Payroll Group {payrollGroup}
                   </div>
-                  <p className="text-blue-200 text-xs mt-1 text-center">Auto-calculated from pay date</p>
+                  <p className="text-blue-200 text-xs mt-1 text-center">Set by the payroll calendar</p>
                 </div>
                 <div>
                   <span className="text-blue-200 text-xs font-medium uppercase tracking-wide block text-center">
@@ -2125,6 +2088,15 @@ export default function MobilePayrollSubmit() {
               </div>
             </div>
 
+            <ProductionReconciliation
+              items={openReconciliationItems}
+              employees={filteredEmployees
+                .filter(emp => emp.compensation_type === 'production')
+                .map(emp => ({ id: emp.id, name: `${emp.first_name} ${emp.last_name}` }))}
+              readOnly={submissionStatus === 'pending' || submissionStatus === 'approved'}
+              onResolve={handleResolveReconciliation}
+            />
+
             {filteredEmployees.length > 0 && (
               <div className="space-y-3 mb-6">
                 <div className="flex items-center justify-between">
@@ -20,6 +20,11 @@ import {
 import { useRouter } from "next/navigation";
 
 import { supabase } from "@/lib/supabaseClient";
+import { classifyPL, isRevenueSection, plAmount } from "@/lib/ledger/classify";
+import { useClassificationRules } from "@/lib/hooks/useClassificationRules";
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId";
+import { fetchPLReport, SERVER_PL_ENABLED } from "@/lib/ledger/plClient";
+import type { PLAccountNode } from "@/lib/ledger/pl";
 
 // I AM CFO Brand Colors
 const BRAND_COLORS = {
@@ -37,6 +42,9 @@ const BRAND_COLORS = {
   }
 };
 
+// Group key the P&L API uses for lines without a customer; shown here as "General"
+const UNASSIGNED_GROUP = "Unassigned";
+
 interface PropertySummary {
   name: string;
   revenue?: number;
@@ -64,6 +72,7 @@ interface Transaction {
 interface JournalRow {
   account: string;
   account_type: string | null;
+  report_category?: string | null;
   debit: number | null;
   credit: number | null;
   customer: string | null;
@@ -120,6 +129,8 @@ const insights = [
 
 export default function PLMobileDashboard() {
   const router = useRouter();
+  const organizationId = useOrganizationId();
+  const classificationRules = useClassificationRules(organizationId);
   const [menuOpen, setMenuOpen] = useState(false);
   const [reportPeriod, setReportPeriod] = useState<
     "Monthly" | "Custom" | "Year to Date" | "Trailing 12" | "Quarterly"
@@ -206,7 +217,27 @@ export default function PLMobileDashboard() {
     const load = async () => {
       const { start, end } = getDateRange();
 
-      const selectColumns = "account_type, report_category, normal_balance, debit, credit, customer, date, entry_bank_account, is_cash_account";
+      if (SERVER_PL_ENABLED) {
+        if (!organizationId) return;
+        try {
+          const report = await fetchPLReport(organizationId, { start, end, groupBy: "customer" });
+          const list = Object.entries(report.groupTotals)
+            .map(([name, t]) => ({
+              name: name === UNASSIGNED_GROUP ? "General" : name,
+              revenue: t.revenue,
+              cogs: t.cogs,
+              expenses: t.operatingExpenses + t.otherExpenses,
+              netIncome: t.netIncome,
+            }))
+            .filter((p) => p.revenue !== 0 || p.cogs !== 0 || p.expenses !== 0 || p.netIncome !== 0);
+          setProperties(list);
+        } catch (error) {
+          console.error("❌ Error loading P&L summary:", error);
+        }
+        return;
+      }
+
+      const selectColumns = "account, account_type, report_category, normal_balance, debit, credit, customer, date, entry_bank_account, is_cash_account";
 
       const { data } = await supabase
         .from("journal_entry_lines")
@@ -228,17 +259,14 @@ export default function PLMobileDashboard() {
           };
         }
 
-        const debit = Number(row.debit) || 0;
-        const credit = Number(row.credit) || 0;
-        const t = (row.account_type || "").toLowerCase();
+        const section = classifyPL(row, classificationRules);
+        const amt = plAmount(section, row.debit, row.credit);
 
-        if (t.includes("income") || t.includes("revenue")) {
-          map[customer].revenue = (map[customer].revenue || 0) + (credit - debit);
-        } else if (t.includes("cost of goods sold") || t.includes("cogs")) {
-          const amt = debit - credit;
+        if (isRevenueSection(section)) {
+          map[customer].revenue = (map[customer].revenue || 0) + amt;
+        } else if (section === "cogs") {
           map[customer].cogs = (map[customer].cogs || 0) + amt;
-        } else if (t.includes("expense")) {
-          const amt = debit - credit;
+        } else if (section) {
           map[customer].expenses = (map[customer].expenses || 0) + amt;
         }
         
@@ -257,7 +285,7 @@ export default function PLMobileDashboard() {
       setProperties(finalList);
     };
     load();
-  }, [reportPeriod, month, year, customStart, customEnd, getDateRange]);
+  }, [reportPeriod, month, year, customStart, customEnd, getDateRange, classificationRules, organizationId]);
 
   const revenueKing = useMemo(() => {
     if (!properties.length) return null;
@@ -372,10 +400,34 @@ export default function PLMobileDashboard() {
 
   const loadPL = async (propertyName: string | null = selectedProperty) => {
     const { start, end } = getDateRange();
+
+    if (SERVER_PL_ENABLED && organizationId) {
+      const report = await fetchPLReport(organizationId, {
+        start,
+        end,
+        groupBy: propertyName ? "customer" : null,
+      });
+      const group = propertyName === "General" ? UNASSIGNED_GROUP : propertyName;
+      const toCategories = (roots: PLAccountNode[]) =>
+        roots
+          .flatMap((root) => [root, ...root.children])
+          .map((node) => ({
+            name: node.account,
+            total: group ? node.byGroup[group] || 0 : node.amount,
+          }))
+          .filter((c) => c.total !== 0);
+
+      setPlData({
+        revenue: toCategories([...report.sections.income, ...report.sections.other_income]),
+        cogs: toCategories(report.sections.cogs),
+        expenses: toCategories([...report.sections.expense, ...report.sections.other_expense]),
+      });
+      return;
+    }
     
     let query = supabase
       .from("journal_entry_lines")
-      .select("account, account_type, debit, credit, customer, date")
+      .select("account, account_type, report_category, debit, credit, customer, date")
       .gte("date", start)
       .lte("date", end);
       
@@ -392,19 +444,15 @@ export default function PLMobileDashboard() {
     const exp: Record<string, number> = {};
     
     ((data as JournalRow[]) || []).forEach((row) => {
-      const debit = Number(row.debit) || 0;
-      const credit = Number(row.credit) || 0;
-      const t = (row.account_type || "").toLowerCase();
+      const section = classifyPL(row, classificationRules);
+      const amount = plAmount(section, row.debit, row.credit);
 
-      if (t.includes("income") || t.includes("revenue")) {
-        const amount = credit - debit;
+      if (isRevenueSection(section)) {
         rev[row.account] = (rev[row.account] || 0) + amount;
-      } else if (t.includes("cost of goods sold") || t.includes("cogs")) {
-        const cogsAmount = debit - credit;
-        cogs[row.account] = (cogs[row.account] || 0) + cogsAmount;
-      } else if (t.includes("expense")) {
-        const expAmount = debit - credit;
-        exp[row.account] = (exp[row.account] || 0) + expAmount;
+      } else if (section === "cogs") {
+        cogs[row.account] = (cogs[row.account] || 0) + amount;
+      } else if (section) {
+        exp[row.account] = (exp[row.account] || 0) + amount;
       }
     });
     
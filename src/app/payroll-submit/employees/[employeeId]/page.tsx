@@ -0,0 +1,311 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+import { todayLocal } from "@/lib/payroll/calendarClient"
+import {
+  changeEmployeeRate,
+  fetchEmployeeProfile,
+  rateOf,
+  type CompensationChangeInput,
+  type CompensationType,
+  type EmployeeProfile,
+} from "@/lib/payroll/compensationClient"
+
+const TYPE_LABELS: Record<CompensationType, string> = {
+  hourly: "Hourly",
+  production: "Piece rate",
+  fixed: "Fixed pay",
+}
+
+const formatMoney = (n: number | null) =>
+  (n ?? 0).toLocaleString("en-US", { style: "currency", currency: "USD" })
+
+const emptyChange = (type: CompensationType): CompensationChangeInput => ({
+  compensation_type: type,
+  rate: 0,
+  effective_from: todayLocal(),
+  reason: "",
+})
+
+export default function EmployeeProfilePage() {
+  const { employeeId } = useParams<{ employeeId: string }>()
+  const organizationId = useOrganizationId()
+  const [profile, setProfile] = useState<EmployeeProfile | null>(null)
+  const [change, setChange] = useState<CompensationChangeInput | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const load = useCallback(async () => {
+    if (!organizationId || !employeeId) return
+    try {
+      setProfile(await fetchEmployeeProfile(organizationId, employeeId))
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading employee profile:", err)
+      setError(err instanceof Error ? err.message : "Failed to load employee")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, employeeId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const saveChange = async () => {
+    if (!organizationId || !change) return
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      const record = await changeEmployeeRate(organizationId, employeeId, change)
+      setNotice(`New rate of ${formatMoney(record.rate)} starts ${record.effective_from}`)
+      setChange(null)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save rate change")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading employee...</div>
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link href="/payroll-submit" className="text-sm text-blue-600">
+          ← Back to payroll
+        </Link>
+        <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error || "Employee not found"}</div>
+      </div>
+    )
+  }
+
+  const { employee, history, totals, byYear, recentPayments, canChangeRate } = profile
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <Link href="/payroll-submit" className="text-sm text-blue-600">
+        ← Back to payroll
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">
+            {employee.first_name} {employee.last_name}
+          </h1>
+          <div className="text-sm text-gray-600 mt-1">
+            {employee.location_name || "No location"} · Group {employee.payroll_group || "—"}
+            {!employee.is_active && " · Archived"}
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-gray-500">Current rate</div>
+          <div className="text-xl font-semibold">
+            {formatMoney(rateOf(employee))}{" "}
+            <span className="text-sm font-normal text-gray-500">{TYPE_LABELS[employee.compensation_type]}</span>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <div className="grid grid-cols-2 gap-4 max-w-md">
+        <div className="border rounded p-4">
+          <div className="text-xs text-gray-500">Paid this year</div>
+          <div className="text-lg font-semibold">{formatMoney(totals.yearToDate)}</div>
+        </div>
+        <div className="border rounded p-4">
+          <div className="text-xs text-gray-500">Paid all time</div>
+          <div className="text-lg font-semibold">{formatMoney(totals.lifetime)}</div>
+        </div>
+      </div>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Rate history</h2>
+          {canChangeRate && !change && (
+            <button
+              type="button"
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm"
+              onClick={() => setChange(emptyChange(employee.compensation_type))}
+            >
+              Change rate
+            </button>
+          )}
+        </div>
+
+        {change && (
+          <div className="border rounded p-4 space-y-3">
+            <div className="grid gap-3 md:grid-cols-3 text-sm">
+              <label className="block">
+                <span className="font-medium">Type</span>
+                <select
+                  className="mt-1 w-full border rounded p-2"
+                  value={change.compensation_type}
+                  onChange={(e) => setChange({ ...change, compensation_type: e.target.value as CompensationType })}
+                >
+                  {(Object.keys(TYPE_LABELS) as CompensationType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-medium">Rate ($)</span>
+                <input
+                  className="mt-1 w-full border rounded p-2"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={change.rate || ""}
+                  onChange={(e) => setChange({ ...change, rate: parseFloat(e.target.value) || 0 })}
+                />
+              </label>
+              <label className="block">
+                <span className="font-medium">Effective from</span>
+                <input
+                  className="mt-1 w-full border rounded p-2"
+                  type="date"
+                  value={change.effective_from}
+                  onChange={(e) => setChange({ ...change, effective_from: e.target.value })}
+                />
+              </label>
+            </div>
+            <label className="block text-sm">
+              <span className="font-medium">Reason</span>
+              <input
+                className="mt-1 w-full border rounded p-2"
+                placeholder="e.g. Annual raise"
+                value={change.reason}
+                onChange={(e) => setChange({ ...change, reason: e.target.value })}
+              />
+            </label>
+            <div className="text-xs text-gray-500">
+              Pay periods starting on or after this date use the new rate. Earlier periods keep the rate they were
+              paid at.
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+                disabled={busy || !change.reason.trim()}
+                onClick={saveChange}
+              >
+                Save rate change
+              </button>
+              <button type="button" className="px-3 py-2 rounded border text-sm" onClick={() => setChange(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {history.length === 0 ? (
+          <div className="text-sm text-gray-500">
+            No rate changes recorded yet. The current rate applies to every period.
+          </div>
+        ) : (
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-2">From</th>
+                <th className="p-2">To</th>
+                <th className="p-2">Type</th>
+                <th className="p-2 text-right">Rate</th>
+                <th className="p-2">Reason</th>
+                <th className="p-2">Approved by</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((record) => (
+                <tr key={record.id} className="border-t">
+                  <td className="p-2">{record.effective_from}</td>
+                  <td className="p-2">{record.effective_to || "Current"}</td>
+                  <td className="p-2">{TYPE_LABELS[record.compensation_type]}</td>
+                  <td className="p-2 text-right">{formatMoney(record.rate)}</td>
+                  <td className="p-2">{record.reason || "—"}</td>
+                  <td className="p-2">{record.approved_by_name || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Pay by year</h2>
+        {byYear.length === 0 ? (
+          <div className="text-sm text-gray-500">No approved payroll for this employee yet.</div>
+        ) : (
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-2">Year</th>
+                <th className="p-2 text-right">Pay dates</th>
+                <th className="p-2 text-right">Hours</th>
+                <th className="p-2 text-right">Units</th>
+                <th className="p-2 text-right">Paid</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byYear.map((year) => (
+                <tr key={year.year} className="border-t">
+                  <td className="p-2">{year.year}</td>
+                  <td className="p-2 text-right">{year.payDates}</td>
+                  <td className="p-2 text-right">{year.hours || "—"}</td>
+                  <td className="p-2 text-right">{year.units || "—"}</td>
+                  <td className="p-2 text-right">{formatMoney(year.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {recentPayments.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Recent pay dates</h2>
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-2">Pay date</th>
+                <th className="p-2">Location</th>
+                <th className="p-2 text-right">Hours</th>
+                <th className="p-2 text-right">Units</th>
+                <th className="p-2 text-right">Rate</th>
+                <th className="p-2 text-right">Paid</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recentPayments.map((payment) => (
+                <tr key={`${payment.date}-${payment.location}`} className="border-t">
+                  <td className="p-2">{payment.date}</td>
+                  <td className="p-2">{payment.location}</td>
+                  <td className="p-2 text-right">{payment.hours ?? "—"}</td>
+                  <td className="p-2 text-right">{payment.units ?? "—"}</td>
+                  <td className="p-2 text-right">{payment.rate != null ? formatMoney(payment.rate) : "—"}</td>
+                  <td className="p-2 text-right">{formatMoney(payment.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  )
+}
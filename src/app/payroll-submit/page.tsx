@@ -1,8 +1,15 @@
 "use client";
 
 import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { getAuthClient, getDataClient, syncDataClientSession } from "@/lib/supabase/client";
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId";
+import { fetchPayPeriods, todayLocal, type PayPeriod } from "@/lib/payroll/calendarClient";
+import { hourlyPay, splitEnteredHours, type HoursSplit } from "@/lib/payroll/overtime";
+import { applyRates, fetchRatesAsOf } from "@/lib/payroll/compensationClient";
+import { submitPayrollEntries, type SubmittedEmployee } from "@/lib/payroll/submitClient";
+import NotificationInbox from "@/components/NotificationInbox";
 import {
   LogOut,
   DollarSign,
@@ -63,6 +70,9 @@ type Employee = {
 
 type EmployeeRow = Employee & {
   hours: string;
+  // Part of hours, paid at 1.5x / 2x
+  overtime_hours: string;
+  double_time_hours: string;
   units: string;
   count: string;
   adjustment: string;
@@ -75,6 +85,36 @@ type Alert = {
   message: string;
 };
 
+// Regular/overtime/double-time split of an hourly row as entered
+const hoursSplitFor = (emp: EmployeeRow): HoursSplit =>
+  splitEnteredHours(
+    parseFloat(emp.hours) || 0,
+    parseFloat(emp.overtime_hours) || 0,
+    parseFloat(emp.double_time_hours) || 0
+  );
+
+const hoursSplitColumns = (emp: EmployeeRow) => {
+  if (emp.compensation_type !== "hourly") {
+    return { regular_hours: null, overtime_hours: null, double_time_hours: null };
+  }
+  const split = hoursSplitFor(emp);
+  return { regular_hours: split.regular, overtime_hours: split.overtime, double_time_hours: split.doubleTime };
+};
+
+const submittedEmployee = (emp: EmployeeRow): SubmittedEmployee => ({
+  employee_id: emp.id,
+  first_name: emp.first_name,
+  last_name: emp.last_name,
+  type: emp.compensation_type,
+  hours: emp.compensation_type === "hourly" ? parseFloat(emp.hours) : null,
+  ...hoursSplitColumns(emp),
+  units: emp.compensation_type === "production" ? parseFloat(emp.units) : null,
+  fixed_count: emp.compensation_type === "fixed" ? parseFloat(emp.count) : null,
+  adjustment_amount: emp.compensation_type === "fixed" ? parseFloat(emp.adjustment) : null,
+  amount: emp.amount,
+  notes: emp.notes || null,
+});
+
 const IAMCFOLogo = ({ className = "w-8 h-8" }: { className?: string }) => (
   <div className={`${className} flex items-center justify-center`}>
     <img 
@@ -104,9 +144,7 @@ export default function DesktopPayrollSubmit() {
   const [showLocationDropdown, setShowLocationDropdown] = useState(false);
 
   // Form state
-  const [payDate, setPayDate] = useState<string>(
-    new Date().toISOString().split("T")[0]
-  );
+  const [payDate, setPayDate] = useState<string>("");
   const [payrollGroup, setPayrollGroup] = useState<PayrollGroup>("A");
   const [employees, setEmployees] = useState<EmployeeRow[]>([]);
   const [alert, setAlert] = useState<Alert | null>(null);
@@ -136,15 +174,32 @@ export default function DesktopPayrollSubmit() {
     return location?.name || 'Select Location';
   }, [availableLocations, selectedLocationId]);
 
-  // Helper function to get next Friday
-  const getNextFriday = () => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const daysUntilFriday = dayOfWeek <= 5 ? 5 - dayOfWeek : 7 - dayOfWeek + 5;
-    const nextFriday = new Date(today);
-    nextFriday.setDate(today.getDate() + daysUntilFriday);
-    return `${nextFriday.getFullYear()}-${String(nextFriday.getMonth() + 1).padStart(2, '0')}-${String(nextFriday.getDate()).padStart(2, '0')}`;
-  };
+  // Pay dates come from the org's payroll calendar
+  const organizationId = useOrganizationId();
+  const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([]);
+
+  useEffect(() => {
+    if (!organizationId) return;
+    fetchPayPeriods(organizationId)
+      .then(({ past, upcoming }) => setPayPeriods([...past, ...upcoming]))
+      .catch((error) => {
+        console.error("❌ Error loading payroll calendar:", error);
+        setAlert({ message: "Failed to load pay dates from the payroll calendar", type: "error" });
+      });
+  }, [organizationId]);
+
+  const groupPeriods = useMemo(
+    () => payPeriods.filter((p) => p.payrollGroup === payrollGroup),
+    [payPeriods, payrollGroup]
+  );
+  const selectedPeriod = groupPeriods.find((p) => p.payDate === payDate) || null;
+
+  // Keep the pay date on the selected group's calendar, defaulting to its next pay date
+  useEffect(() => {
+    if (groupPeriods.length === 0 || groupPeriods.some((p) => p.payDate === payDate)) return;
+    const today = todayLocal();
+    setPayDate((groupPeriods.find((p) => p.payDate >= today) ?? groupPeriods[groupPeriods.length - 1]).payDate);
+  }, [groupPeriods, payDate]);
 
   useEffect(() => {
     initializeUser();
@@ -252,10 +307,10 @@ export default function DesktopPayrollSubmit() {
   };
 
   useEffect(() => {
-    if (selectedLocationId && payrollGroup) {
+    if (selectedLocationId && payrollGroup && payDate) {
       loadDraftOrRejected();
     }
-  }, [selectedLocationId, payrollGroup]);
+  }, [selectedLocationId, payrollGroup, payDate]);
 
   const loadDraftOrRejected = async () => {
     if (!selectedLocationId) return;
@@ -263,15 +318,14 @@ export default function DesktopPayrollSubmit() {
     setIsLoading(true);
     try {
       // Check for rejected submission first (higher priority)
-      const nextFriday = getNextFriday();
-      
       const { data: rejected, error: rejectedError } = await dataSupabase
         .from('payroll_submissions')
         .select('*')
         .eq('location_id', selectedLocationId)
-        .eq('pay_date', nextFriday)
+        .eq('pay_date', payDate)
         .eq('payroll_group', payrollGroup)
         .eq('status', 'rejected')
+        .is('adjusts_submission_id', null)
         .maybeSingle();
 
       if (rejectedError && rejectedError.code !== 'PGRST116') {
@@ -307,9 +361,10 @@ export default function DesktopPayrollSubmit() {
         .from('payroll_submissions')
         .select('*')
         .eq('location_id', selectedLocationId)
-        .eq('pay_date', nextFriday)
+        .eq('pay_date', payDate)
         .eq('payroll_group', payrollGroup)
         .eq('status', 'draft')
+        .is('adjusts_submission_id', null)
         .maybeSingle();
 
       if (draft) {
@@ -374,9 +429,11 @@ export default function DesktopPayrollSubmit() {
         d.employee_id,
         {
           hours: d.hours?.toString() || '',
+          overtime_hours: d.overtime_hours?.toString() || '',
+          double_time_hours: d.double_time_hours?.toString() || '',
           units: d.units?.toString() || '',
-          count: d.count?.toString() || '1',
-          adjustment: d.adjustment?.toString() || '0',
+          count: d.fixed_count?.toString() || '1',
+          adjustment: d.adjustment_amount?.toString() || '0',
           amount: d.amount || 0,
           notes: d.notes || ''
         }
@@ -391,6 +448,8 @@ export default function DesktopPayrollSubmit() {
         return {
           ...emp,
           hours: prevData.hours,
+          overtime_hours: prevData.overtime_hours,
+          double_time_hours: prevData.double_time_hours,
           units: prevData.units,
           count: prevData.count,
           adjustment: prevData.adjustment,
@@ -401,6 +460,8 @@ export default function DesktopPayrollSubmit() {
         return {
           ...emp,
           hours: "",
+          overtime_hours: "",
+          double_time_hours: "",
           units: "",
           count: "1",
           adjustment: "0",
@@ -410,10 +471,22 @@ export default function DesktopPayrollSubmit() {
       }
     });
 
-    setEmployees(rows);
+    setEmployees(await withPeriodRates(rows));
     console.log('✅ Loaded', rows.length, 'employees with submission data pre-filled');
   };
 
+  // Rates in effect at the start of the selected period, not today's
+  const withPeriodRates = async (rows: EmployeeRow[]): Promise<EmployeeRow[]> => {
+    if (!organizationId || !selectedLocationId || !selectedPeriod) return rows;
+    try {
+      return applyRates(rows, await fetchRatesAsOf(organizationId, selectedLocationId, selectedPeriod.periodStart));
+    } catch (error) {
+      console.error("❌ Error loading rates for the period:", error);
+      showAlert("Couldn't load this period's rates; showing current rates", "warning");
+      return rows;
+    }
+  };
+
   const loadEmployees = async () => {
     if (!selectedLocationId) return;
 
@@ -431,6 +504,8 @@ export default function DesktopPayrollSubmit() {
       const rows: EmployeeRow[] = (data || []).map((emp) => ({
         ...emp,
         hours: "",
+        overtime_hours: "",
+        double_time_hours: "",
         units: "",
         count: "1",
         adjustment: "0",
@@ -438,7 +513,7 @@ export default function DesktopPayrollSubmit() {
         amount: 0,
       }));
 
-      setEmployees(rows);
+      setEmployees(await withPeriodRates(rows));
       console.log('✅ Desktop Payroll: Loaded', rows.length, 'employees');
     } catch (error) {
       console.error("Error loading employees:", error);
@@ -455,15 +530,21 @@ export default function DesktopPayrollSubmit() {
       const updated = [...prev];
       const emp = { ...updated[index] };
 
-      if (field === "hours" || field === "units" || field === "count" || field === "adjustment" || field === "notes") {
+      if (
+        field === "hours" ||
+        field === "overtime_hours" ||
+        field === "double_time_hours" ||
+        field === "units" ||
+        field === "count" ||
+        field === "adjustment" ||
+        field === "notes"
+      ) {
         emp[field] = value;
       }
 
       // Recalculate amount
       if (emp.compensation_type === "hourly") {
-        const hours = parseFloat(emp.hours) || 0;
-        const rate = emp.hourly_rate || 0;
-        emp.amount = hours * rate;
+        emp.amount = hourlyPay(hoursSplitFor(emp), emp.hourly_rate || 0);
       } else if (emp.compensation_type === "production") {
         const units = parseFloat(emp.units) || 0;
         const rate = emp.piece_rate || 0;
@@ -573,6 +654,11 @@ export default function DesktopPayrollSubmit() {
       return;
     }
 
+    if (!selectedPeriod) {
+      showAlert("Choose a pay date from the payroll calendar", "error");
+      return;
+    }
+
     const employeesWithData = employees.filter(
       (emp) =>
         (emp.compensation_type === "hourly" && parseFloat(emp.hours) > 0) ||
@@ -588,111 +674,20 @@ export default function DesktopPayrollSubmit() {
     setIsSavingDraft(true);
 
     try {
-      const payDateObj = new Date(payDate);
-      const dayOfWeek = payDateObj.getDay();
-      const daysToFriday = dayOfWeek === 5 ? 0 : dayOfWeek < 5 ? 5 - dayOfWeek : 7 - dayOfWeek + 5;
-      const periodEnd = new Date(payDateObj);
-      periodEnd.setDate(payDateObj.getDate() + daysToFriday - 1);
-      const periodStart = new Date(periodEnd);
-      periodStart.setDate(periodEnd.getDate() - 6);
-
-      const existingSubmissionId = draftSubmissionId || rejectedSubmissionId;
-
-      if (existingSubmissionId) {
-        // UPDATE existing submission as draft
-        console.log('🔄 Updating existing submission as draft:', existingSubmissionId);
-        
-        const { error: updateError } = await dataSupabase
-          .from('payroll_submissions')
-          .update({
-            status: 'draft',
-            total_amount: totalAmount,
-            employee_count: employeesWithData.length,
-            submitted_by: userId,
-            rejected_by: null,
-            rejected_at: null,
-            rejection_note: null,
-          })
-          .eq('id', existingSubmissionId);
-
-        if (updateError) throw updateError;
-
-        // Delete old details
-        const { error: deleteError } = await dataSupabase
-          .from('payroll_entries')
-          .delete()
-          .eq('submission_id', existingSubmissionId);
-
-        if (deleteError) throw deleteError;
-
-        // Insert new details
-        const details = employeesWithData.map((emp) => ({
-          submission_id: existingSubmissionId,
-          employee_id: emp.id,
-          hours: emp.compensation_type === "hourly" ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === "production" ? parseFloat(emp.units) : null,
-          count: emp.compensation_type === "fixed" ? parseFloat(emp.count) : null,
-          adjustment: emp.compensation_type === "fixed" ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          status: 'draft'
-        }));
-
-        const { error: detailsError } = await dataSupabase
-          .from("payroll_entries")
-          .insert(details);
-
-        if (detailsError) throw detailsError;
-
-        setDraftSubmissionId(existingSubmissionId);
-        setRejectedSubmissionId(null);
-        setRejectionNote(null);
+      const result = await submitPayrollEntries({
+        locationId: selectedLocationId,
+        payDate,
+        payrollGroup,
+        employees: employeesWithData.map(submittedEmployee),
+        submissionId: draftSubmissionId || rejectedSubmissionId,
+        status: "draft",
+      });
 
-      } else {
-        // CREATE new draft submission
-        console.log('✨ Creating new draft submission');
-        
-        const { data: submission, error: submissionError } = await dataSupabase
-          .from("payroll_submissions")
-          .insert({
-            location_id: selectedLocationId,
-            pay_date: payDate,
-            payroll_group: payrollGroup,
-            period_start: periodStart.toISOString().split("T")[0],
-            period_end: periodEnd.toISOString().split("T")[0],
-            total_amount: totalAmount,
-            employee_count: employeesWithData.length,
-            submitted_by: userId,
-            status: "draft",
-          })
-          .select()
-          .single();
-
-        if (submissionError) throw submissionError;
-
-        const details = employeesWithData.map((emp) => ({
-          submission_id: submission.id,
-          employee_id: emp.id,
-          hours: emp.compensation_type === "hourly" ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === "production" ? parseFloat(emp.units) : null,
-          count: emp.compensation_type === "fixed" ? parseFloat(emp.count) : null,
-          adjustment: emp.compensation_type === "fixed" ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          status: 'draft'
-        }));
-
-        const { error: detailsError } = await dataSupabase
-          .from("payroll_entries")
-          .insert(details);
-
-        if (detailsError) throw detailsError;
-
-        setDraftSubmissionId(submission.id);
-      }
+      setDraftSubmissionId(result.submission_id);
+      setRejectedSubmissionId(null);
+      setRejectionNote(null);
 
       showAlert("✅ Draft saved! You can return later to complete.", "success");
-
     } catch (error: any) {
       console.error("Save draft error:", error);
       showAlert(error.message || "Failed to save draft", "error");
@@ -707,6 +702,11 @@ export default function DesktopPayrollSubmit() {
       return;
     }
 
+    if (!selectedPeriod) {
+      showAlert("Choose a pay date from the payroll calendar", "error");
+      return;
+    }
+
     const employeesWithData = employees.filter(
       (emp) =>
         (emp.compensation_type === "hourly" && parseFloat(emp.hours) > 0) ||
@@ -722,126 +722,32 @@ export default function DesktopPayrollSubmit() {
     setIsSubmitting(true);
 
     try {
-      // Calculate period dates
-      const payDateObj = new Date(payDate);
-      const dayOfWeek = payDateObj.getDay();
-      const daysToFriday = dayOfWeek === 5 ? 0 : dayOfWeek < 5 ? 5 - dayOfWeek : 7 - dayOfWeek + 5;
-      const periodEnd = new Date(payDateObj);
-      periodEnd.setDate(payDateObj.getDate() + daysToFriday - 1);
-      const periodStart = new Date(periodEnd);
-      periodStart.setDate(periodEnd.getDate() - 6);
-
-      // ✅ Check if updating existing draft or rejected submission
       const existingSubmissionId = draftSubmissionId || rejectedSubmissionId;
+      console.log(existingSubmissionId ? `🔄 Resubmitting existing submission: ${existingSubmissionId}` : "📝 Creating new submission");
+
+      await submitPayrollEntries({
+        locationId: selectedLocationId,
+        payDate,
+        payrollGroup,
+        employees: employeesWithData.map(submittedEmployee),
+        submissionId: existingSubmissionId,
+      });
 
-      if (existingSubmissionId) {
-        // UPDATE existing submission (draft or rejected) to pending
-        console.log(`🔄 Updating existing submission (${rejectedSubmissionId ? 'REJECTED' : 'DRAFT'}):`, existingSubmissionId);
-        
-        const { error: updateError } = await dataSupabase
-          .from('payroll_submissions')
-          .update({
-            status: 'pending',
-            total_amount: totalAmount,
-            employee_count: employeesWithData.length,
-            submitted_at: new Date().toISOString(),
-            submitted_by: userId,
-            rejected_by: null,
-            rejected_at: null,
-            rejection_note: null,
-          })
-          .eq('id', existingSubmissionId);
-
-        if (updateError) throw updateError;
-
-        // Delete old details
-        const { error: deleteError } = await dataSupabase
-          .from('payroll_entries')
-          .delete()
-          .eq('submission_id', existingSubmissionId);
-
-        if (deleteError) throw deleteError;
-
-        // Insert new details
-        const details = employeesWithData.map((emp) => ({
-          submission_id: existingSubmissionId,
-          employee_id: emp.id,
-          hours: emp.compensation_type === "hourly" ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === "production" ? parseFloat(emp.units) : null,
-          count: emp.compensation_type === "fixed" ? parseFloat(emp.count) : null,
-          adjustment: emp.compensation_type === "fixed" ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          status: 'pending'
-        }));
-
-        const { error: detailsError } = await dataSupabase
-          .from("payroll_entries")
-          .insert(details);
-
-        if (detailsError) throw detailsError;
-
-        showAlert(rejectedSubmissionId ? "✅ Payroll resubmitted for approval!" : "✅ Draft submitted for approval!", "success");
-        
-        // Clear draft/rejection state and reset form
-        setRejectedSubmissionId(null);
-        setDraftSubmissionId(null);
-        setRejectionNote(null);
-        setTimeout(() => {
-          loadDraftOrRejected();
-          setPayDate(new Date().toISOString().split("T")[0]);
-        }, 2000);
-
+      if (rejectedSubmissionId) {
+        showAlert("✅ Payroll resubmitted for approval!", "success");
+      } else if (draftSubmissionId) {
+        showAlert("✅ Draft submitted for approval!", "success");
       } else {
-        // CREATE new submission (normal flow)
-        console.log('📝 Creating new submission');
-        
-        const { data: submission, error: submissionError } = await dataSupabase
-          .from("payroll_submissions")
-          .insert([
-            {
-              location_id: selectedLocationId,
-              pay_date: payDate,
-              payroll_group: payrollGroup,
-              period_start: periodStart.toISOString().split("T")[0],
-              period_end: periodEnd.toISOString().split("T")[0],
-              total_amount: totalAmount,
-              employee_count: employeesWithData.length,
-              submitted_by: userId,
-              status: "pending",
-            },
-          ])
-          .select()
-          .single();
-
-        if (submissionError) throw submissionError;
-
-        const details = employeesWithData.map((emp) => ({
-          submission_id: submission.id,
-          employee_id: emp.id,
-          hours: emp.compensation_type === "hourly" ? parseFloat(emp.hours) : null,
-          units: emp.compensation_type === "production" ? parseFloat(emp.units) : null,
-          count: emp.compensation_type === "fixed" ? parseFloat(emp.count) : null,
-          adjustment: emp.compensation_type === "fixed" ? parseFloat(emp.adjustment) : null,
-          amount: emp.amount,
-          notes: emp.notes || null,
-          status: 'pending'
-        }));
-
-        const { error: detailsError } = await dataSupabase
-          .from("payroll_entries")
-          .insert(details);
-
-        if (detailsError) throw detailsError;
-
         showAlert("✅ Payroll submitted successfully!", "success");
-        
-        // Reset form
-        setTimeout(() => {
-          loadDraftOrRejected();
-          setPayDate(new Date().toISOString().split("T")[0]);
-        }, 2000);
       }
+
+      // Clear draft/rejection state and reset form
+      setRejectedSubmissionId(null);
+      setDraftSubmissionId(null);
+      setRejectionNote(null);
+      setTimeout(() => {
+        loadDraftOrRejected();
+      }, 2000);
     } catch (error: any) {
       console.error("Submission error:", error);
       showAlert(error.message || "Failed to submit payroll", "error");
@@ -948,6 +854,7 @@ export default function DesktopPayrollSubmit() {
             </div>
 
             <div className="flex items-center gap-4">
+              <NotificationInbox />
               <div className="text-right">
                 <p className="text-sm font-medium text-gray-900">{userName}</p>
                 <p className="text-xs text-gray-500 capitalize">{userRole}</p>
@@ -1032,13 +939,18 @@ export default function DesktopPayrollSubmit() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Pay Date
                   </label>
-                  <input
-                    type="date"
+                  <select
                     value={payDate}
                     onChange={(e) => setPayDate(e.target.value)}
                     className="w-full px-4 py-2 border-2 rounded-lg"
                     style={{ borderColor: BRAND_COLORS.gray[300] }}
-                  />
+                  >
+                    {groupPeriods.map((period) => (
+                      <option key={period.payDate} value={period.payDate}>
+                        {period.payDate} ({period.periodStart} – {period.periodEnd})
+                      </option>
+                    ))}
+                  </select>
                 </div>
 
                 <div>
@@ -1096,7 +1008,7 @@ export default function DesktopPayrollSubmit() {
                         Hours/Units/Qty
                       </th>
                       <th className="px-6 py-4 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
-                        Adjustment
+                        Adjustment / OT · DT
                       </th>
                       <th className="px-6 py-4 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
                         Amount
@@ -1123,9 +1035,12 @@ export default function DesktopPayrollSubmit() {
                       employees.map((emp, idx) => (
                         <tr key={emp.id} className="hover:bg-gray-50">
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">
+                            <Link
+                              href={`/payroll-submit/employees/${emp.id}`}
+                              className="text-sm font-medium text-gray-900 hover:underline"
+                            >
                               {emp.first_name} {emp.last_name}
-                            </div>
+                            </Link>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span
@@ -1205,6 +1120,31 @@ export default function DesktopPayrollSubmit() {
                                 className="w-24 px-3 py-2 border rounded-lg text-sm"
                                 style={{ borderColor: BRAND_COLORS.gray[300] }}
                               />
+                            ) : emp.compensation_type === "hourly" ? (
+                              <div className="flex gap-2">
+                                <input
+                                  type="number"
+                                  step="0.25"
+                                  min="0"
+                                  value={emp.overtime_hours}
+                                  onChange={(e) => updateEmployeeRow(idx, "overtime_hours", e.target.value)}
+                                  placeholder="OT"
+                                  title="Overtime hours (1.5×), part of hours"
+                                  className="w-20 px-3 py-2 border rounded-lg text-sm"
+                                  style={{ borderColor: BRAND_COLORS.gray[300] }}
+                                />
+                                <input
+                                  type="number"
+                                  step="0.25"
+                                  min="0"
+                                  value={emp.double_time_hours}
+                                  onChange={(e) => updateEmployeeRow(idx, "double_time_hours", e.target.value)}
+                                  placeholder="DT"
+                                  title="Double-time hours (2×), part of hours"
+                                  className="w-20 px-3 py-2 border rounded-lg text-sm"
+                                  style={{ borderColor: BRAND_COLORS.gray[300] }}
+                                />
+                              </div>
                             ) : (
                               <span className="text-sm text-gray-400">—</span>
                             )}
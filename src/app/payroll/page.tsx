@@ -24,6 +24,8 @@ import {
   X,
   Target,
   Award,
+  RotateCcw,
+  FileText,
 } from "lucide-react";
 import {
   ResponsiveContainer,
@@ -41,6 +43,19 @@ import {
 } from "recharts";
 import { getAuthClient, getDataClient, syncDataClientSession } from '@/lib/supabase/client';
 import { supabase } from "@/lib/supabaseClient";
+import {
+  downloadPayDateStubs,
+  fetchPendingApprovals,
+  isFinalApproval,
+  reviewPayrollSubmission,
+  type ApprovalStatus,
+  type EntryKind,
+} from "@/lib/payroll/submitClient";
+import ApprovalWaitingOn from "@/components/ApprovalWaitingOn";
+import PayrollCorrectionModal from "@/components/PayrollCorrectionModal";
+import PayStubsModal from "@/components/PayStubsModal";
+import NotificationInbox from "@/components/NotificationInbox";
+import PayrollVarianceReport from "@/components/PayrollVarianceReport";
 
 // I AM CFO Brand Colors
 const BRAND_COLORS = {
@@ -73,6 +88,9 @@ type Payment = {
   payment_method: string | null;
   date: string | null;
   total_amount: number | null;
+  // Set on rows written by correction runs
+  entry_kind?: EntryKind | null;
+  adjusts_submission_id?: string | null;
 };
 
 type TimePeriod = "Monthly" | "Quarterly" | "YTD" | "Trailing 12" | "Custom";
@@ -92,6 +110,8 @@ interface PendingSubmission {
   submitted_at: string;
   status: string;
   rejection_note?: string | null;
+  adjusts_submission_id?: string | null;
+  correction_reason?: string | null;
 }
 
 interface LocationStatus {
@@ -116,6 +136,7 @@ interface SubmissionDetail {
   amount: number;
   notes: string | null;
   organization_id: string;
+  entry_kind: EntryKind;
 }
 
 const formatDate = (date: string) =>
@@ -126,6 +147,12 @@ const formatDate = (date: string) =>
     timeZone: 'UTC',
   });
 
+const ENTRY_KIND_LABELS: Record<EntryKind, string> = {
+  regular: "Regular",
+  reversal: "Reversal",
+  replacement: "Corrected",
+};
+
 const formatCurrency = (amount: number | null) => {
   if (amount === null || amount === undefined) return "$0.00";
   return new Intl.NumberFormat("en-US", {
@@ -170,16 +197,22 @@ export default function PayrollPage() {
   const [totalPayroll, setTotalPayroll] = useState(0);
   const [employeeCount, setEmployeeCount] = useState(0);
   const [avgPayment, setAvgPayment] = useState(0);
+  // Net of correction runs' reversal and replacement payments in the range
+  const [adjustments, setAdjustments] = useState({ total: 0, count: 0 });
   const [departments, setDepartments] = useState<string[]>([]);
   
   // Approval data
   const [pendingSubmissions, setPendingSubmissions] = useState<PendingSubmission[]>([]);
+  const [approvals, setApprovals] = useState<Record<string, ApprovalStatus>>({});
   const [allLocations, setAllLocations] = useState<LocationStatus[]>([]);
   const [selectedSubmission, setSelectedSubmission] = useState<PendingSubmission | null>(null);
   const [submissionDetails, setSubmissionDetails] = useState<SubmissionDetail[]>([]);
   const [showApprovalModal, setShowApprovalModal] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [rejectionNote, setRejectionNote] = useState('');
+  const [correctionTarget, setCorrectionTarget] = useState<LocationStatus | null>(null);
+  const [payStubTarget, setPayStubTarget] = useState<LocationStatus | null>(null);
+  const [downloadingPayDate, setDownloadingPayDate] = useState<string | null>(null);
   
   // User context
   const [userRole, setUserRole] = useState<string | null>(null);
@@ -308,6 +341,13 @@ export default function PayrollPage() {
       console.log('✅ Loaded submissions:', formattedSubmissions.length);
       setPendingSubmissions(formattedSubmissions);
 
+      // Who each run is waiting on; the list still works without it
+      try {
+        setApprovals(await fetchPendingApprovals(organizationId));
+      } catch (approvalError) {
+        console.error('❌ Error loading approval status:', approvalError);
+      }
+
       await loadAllLocationsStatus();
     } catch (error) {
       console.error('❌ Error in loadPendingSubmissions:', error);
@@ -330,10 +370,12 @@ export default function PayrollPage() {
         return;
       }
 
+      // Correction runs show under the pending list, not as the location's payroll
       const { data: submissions, error: subError } = await supabase
         .from('payroll_submissions')
         .select('*')
         .eq('organization_id', organizationId)
+        .is('adjusts_submission_id', null)
         .order('submitted_at', { ascending: false });
 
       if (subError) {
@@ -387,6 +429,7 @@ export default function PayrollPage() {
           adjustment_amount,
           amount,
           notes,
+          entry_kind,
           employees (first_name, last_name),
           organization_id
         `)
@@ -407,7 +450,8 @@ export default function PayrollPage() {
         adjustment_amount: d.adjustment_amount,
         amount: d.amount,
         notes: d.notes,
-        organization_id: d.organization_id
+        organization_id: d.organization_id,
+        entry_kind: d.entry_kind || 'regular'
       }));
 
       setSubmissionDetails(formattedDetails);
@@ -427,79 +471,17 @@ export default function PayrollPage() {
     try {
       console.log('✅ Starting approval process for submission:', selectedSubmission.id);
 
-      // Step 1: Update submission status to 'approved'
-      const { error: updateError } = await supabase
-        .from('payroll_submissions')
-        .update({
-          status: 'approved',
-          approved_by: userId,
-          approved_at: new Date().toISOString()
-        })
-        .eq('id', selectedSubmission.id);
-
-      if (updateError) {
-        throw new Error(`Failed to update submission: ${updateError.message}`);
-      }
-
-      // Step 2: Get entries and insert into payments
-      const { data: entries, error: entriesError } = await supabase
-        .from('payroll_entries')
-        .select(`
-          *,
-          employees (first_name, last_name, department)
-        `)
-        .eq('submission_id', selectedSubmission.id);
-
-      if (entriesError) {
-        throw new Error(`Failed to fetch entries: ${entriesError.message}`);
-      }
-
-      // Step 3: Insert payments
-      const paymentRecords = entries.map(entry => ({
-        organization_id: entry.organization_id,
-        first_name: entry.employees.first_name,
-        last_name: entry.employees.last_name,
-        department: entry.employees.department || 'General',
-        date: selectedSubmission.pay_date,
-        total_amount: entry.amount,
-        payment_method: 'Direct Deposit'
-      }));
-
-      const { error: paymentsError } = await supabase
-        .from('payments')
-        .insert(paymentRecords);
-
-      if (paymentsError) {
-        throw new Error(`Failed to create payments: ${paymentsError.message}`);
-      }
-
-      // Step 4: Update submission to 'posted'
-      const { error: postError } = await supabase
-        .from('payroll_submissions')
-        .update({ status: 'posted' })
-        .eq('id', selectedSubmission.id);
-
-      if (postError) {
-        throw new Error(`Failed to mark as posted: ${postError.message}`);
-      }
-
-      // Step 5: Create audit log
-      const { error: auditError } = await supabase
-        .from('payroll_approvals')
-        .insert({
-          submission_id: selectedSubmission.id,
-          approved_by: userId,
-          approved_at: new Date().toISOString(),
-          action: 'approved',
-          organization_id: organizationId
-        });
+      // Submission, entries, payments and the approval record are written in one transaction
+      const result = await reviewPayrollSubmission(selectedSubmission.id, 'approved');
+      console.log(`✅ ${result.payments_created} payments created`);
 
-      if (auditError) {
-        console.warn('⚠️ Failed to create audit log:', auditError);
+      if (result.status === 'pending') {
+        // An earlier step of the approval chain; the run stays pending
+        showNotification(result.message, 'info');
+      } else {
+        console.log('✅ Approval complete!');
+        showNotification('Payroll approved and posted successfully!', 'success');
       }
-
-      console.log('✅ Approval complete!');
-      showNotification('Payroll approved and posted successfully!', 'success');
       
       setShowApprovalModal(false);
       setSelectedSubmission(null);
@@ -513,7 +495,7 @@ export default function PayrollPage() {
     } finally {
       setIsApproving(false);
     }
-  }, [selectedSubmission, userId, organizationId, showNotification, loadPendingSubmissions]);
+  }, [selectedSubmission, userId, showNotification, loadPendingSubmissions]);
 
   // Handle rejection
   const handleReject = useCallback(async () => {
@@ -524,34 +506,7 @@ export default function PayrollPage() {
     try {
       console.log('🚫 Rejecting submission:', selectedSubmission.id);
 
-      const { error: updateError } = await supabase
-        .from('payroll_submissions')
-        .update({
-          status: 'rejected',
-          rejected_by: userId,
-          rejected_at: new Date().toISOString(),
-          rejection_note: rejectionNote || null
-        })
-        .eq('id', selectedSubmission.id);
-
-      if (updateError) {
-        throw new Error(`Failed to reject submission: ${updateError.message}`);
-      }
-
-      const { error: auditError } = await supabase
-        .from('payroll_approvals')
-        .insert({
-          submission_id: selectedSubmission.id,
-          approved_by: userId,
-          approved_at: new Date().toISOString(),
-          action: 'rejected',
-          notes: rejectionNote || null,
-          organization_id: organizationId
-        });
-
-      if (auditError) {
-        console.warn('⚠️ Failed to create audit log:', auditError);
-      }
+      await reviewPayrollSubmission(selectedSubmission.id, 'rejected', rejectionNote);
 
       console.log('✅ Rejection complete!');
       showNotification('Payroll rejected. Location manager can edit and resubmit.', 'warning');
@@ -568,7 +523,7 @@ export default function PayrollPage() {
     } finally {
       setIsApproving(false);
     }
-  }, [selectedSubmission, userId, rejectionNote, organizationId, showNotification, loadPendingSubmissions]);
+  }, [selectedSubmission, userId, rejectionNote, showNotification, loadPendingSubmissions]);
 
   // Load approvals data
   useEffect(() => {
@@ -611,6 +566,12 @@ export default function PayrollPage() {
       const total = searchFiltered.reduce((sum, p) => sum + (p.total_amount || 0), 0);
       const uniqueEmployees = new Set(searchFiltered.map((p) => `${p.first_name} ${p.last_name}`)).size;
       
+      const corrections = searchFiltered.filter((p) => p.adjusts_submission_id);
+      setAdjustments({
+        total: corrections.reduce((sum, p) => sum + (p.total_amount || 0), 0),
+        count: new Set(corrections.map((p) => p.adjusts_submission_id)).size,
+      });
+
       setTotalPayroll(total);
       setEmployeeCount(uniqueEmployees);
       setAvgPayment(uniqueEmployees > 0 ? total / uniqueEmployees : 0);
@@ -666,6 +627,28 @@ export default function PayrollPage() {
     calculateDateRange();
   }, [timePeriod, selectedMonth, selectedYear, customStartDate, customEndDate]);
 
+  // Pay dates with approved payroll, newest first
+  const approvedPayDates = useMemo(
+    () =>
+      [...new Set(allLocations.filter((loc) => loc.status === 'approved' && loc.pay_date).map((loc) => loc.pay_date!))]
+        .sort()
+        .reverse(),
+    [allLocations],
+  );
+
+  const downloadPayDate = async (payDate: string) => {
+    if (!organizationId) return;
+    setDownloadingPayDate(payDate);
+    try {
+      await downloadPayDateStubs(organizationId, payDate);
+    } catch (error) {
+      console.error('❌ Error downloading pay stubs:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to download pay stubs', 'error');
+    } finally {
+      setDownloadingPayDate(null);
+    }
+  };
+
   // Department summary
   const departmentSummary = useMemo(() => {
     const deptMap = new Map<string, { total: number; people: { name: string; amount: number }[] }>();
@@ -745,13 +728,14 @@ export default function PayrollPage() {
   };
 
   const exportCSV = () => {
-    const headers = ["First Name", "Last Name", "Department", "Date", "Amount"];
+    const headers = ["First Name", "Last Name", "Department", "Date", "Amount", "Entry Type"];
     const rows = payments.map((p) => [
       p.first_name,
       p.last_name,
       p.department,
       p.date,
       p.total_amount,
+      ENTRY_KIND_LABELS[p.entry_kind || "regular"],
     ]);
     
     const csvContent = [headers, ...rows].map((row) => row.join(",")).join("\n");
@@ -774,7 +758,8 @@ export default function PayrollPage() {
               <h1 className="text-2xl font-bold text-gray-900">Payroll Dashboard</h1>
             </div>
             
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              <NotificationInbox />
               <button
                 onClick={() => setViewMode('analytics')}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -837,9 +822,12 @@ export default function PayrollPage() {
                           <p className="text-sm text-gray-600">Group {sub.payroll_group}</p>
                         </div>
                         <div className="px-3 py-1 rounded-full text-xs font-medium text-white" style={{ backgroundColor: BRAND_COLORS.warning }}>
-                          Pending
+                          {sub.adjusts_submission_id ? 'Correction' : 'Pending'}
                         </div>
                       </div>
+                      {sub.adjusts_submission_id && (
+                        <p className="text-xs text-gray-600 mb-2 italic">{sub.correction_reason}</p>
+                      )}
                       
                       <div className="space-y-2 text-sm">
                         <div className="flex justify-between">
@@ -856,6 +844,7 @@ export default function PayrollPage() {
                             {formatCurrency(sub.total_amount)}
                           </span>
                         </div>
+                        {approvals[sub.id] && <ApprovalWaitingOn approval={approvals[sub.id]} />}
                       </div>
                     </div>
                   ))}
@@ -871,9 +860,25 @@ export default function PayrollPage() {
 
             {/* All Locations Status */}
             <div className="bg-white rounded-xl shadow-sm border p-6">
-              <div className="flex items-center gap-3 mb-6">
-                <Target size={24} style={{ color: BRAND_COLORS.accent }} />
-                <h2 className="text-xl font-bold text-gray-900">All Locations Status</h2>
+              <div className="flex items-center justify-between gap-3 mb-6">
+                <div className="flex items-center gap-3">
+                  <Target size={24} style={{ color: BRAND_COLORS.accent }} />
+                  <h2 className="text-xl font-bold text-gray-900">All Locations Status</h2>
+                </div>
+                {/* Every approved location's stubs for a pay date, correction runs included */}
+                <div className="flex flex-wrap gap-2">
+                  {approvedPayDates.map((payDate) => (
+                    <button
+                      key={payDate}
+                      onClick={() => downloadPayDate(payDate)}
+                      disabled={downloadingPayDate !== null}
+                      className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <Download size={14} />
+                      {downloadingPayDate === payDate ? 'Preparing…' : `Pay Stubs ${formatDate(payDate)}`}
+                    </button>
+                  ))}
+                </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -919,6 +924,26 @@ export default function PayrollPage() {
                         </div>
                       </div>
                     )}
+
+                    {/* Approved payroll is locked; mistakes go through a correction run */}
+                    {loc.status === 'approved' && loc.submission_id && (
+                      <div className="mt-3 grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => setPayStubTarget(loc)}
+                          className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 flex items-center justify-center gap-2"
+                        >
+                          <FileText size={14} />
+                          Pay Stubs
+                        </button>
+                        <button
+                          onClick={() => setCorrectionTarget(loc)}
+                          className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 flex items-center justify-center gap-2"
+                        >
+                          <RotateCcw size={14} />
+                          Correct
+                        </button>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -1084,7 +1109,7 @@ export default function PayrollPage() {
             </div>
 
             {/* KPIs */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div className="bg-white rounded-xl shadow-sm border p-6">
                 <div className="flex items-center gap-3 mb-2">
                   <DollarSign size={24} style={{ color: BRAND_COLORS.success }} />
@@ -1114,6 +1139,21 @@ export default function PayrollPage() {
                   {formatCurrency(avgPayment)}
                 </p>
               </div>
+
+              <div className="bg-white rounded-xl shadow-sm border p-6">
+                <div className="flex items-center gap-3 mb-2">
+                  <RotateCcw size={24} style={{ color: BRAND_COLORS.warning }} />
+                  <h3 className="text-sm font-medium text-gray-600">Adjustments</h3>
+                </div>
+                <p className="text-3xl font-bold" style={{ color: BRAND_COLORS.warning }}>
+                  {adjustments.total > 0 ? '+' : ''}{formatCurrency(adjustments.total)}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {adjustments.count === 0
+                    ? 'No corrections in this period'
+                    : `Net of ${adjustments.count} correction run${adjustments.count === 1 ? '' : 's'}, included in the total`}
+                </p>
+              </div>
             </div>
 
             {/* Summary */}
@@ -1250,6 +1290,29 @@ export default function PayrollPage() {
         )}
       </main>
 
+      {payStubTarget?.submission_id && (
+        <PayStubsModal
+          submissionId={payStubTarget.submission_id}
+          locationName={payStubTarget.location_name}
+          payDate={payStubTarget.pay_date ? formatDate(payStubTarget.pay_date) : ''}
+          onClose={() => setPayStubTarget(null)}
+        />
+      )}
+
+      {correctionTarget?.submission_id && (
+        <PayrollCorrectionModal
+          submissionId={correctionTarget.submission_id}
+          locationName={correctionTarget.location_name}
+          payDate={correctionTarget.pay_date ? formatDate(correctionTarget.pay_date) : ''}
+          onClose={() => setCorrectionTarget(null)}
+          onCreated={async () => {
+            setCorrectionTarget(null);
+            showNotification('Correction created and sent for approval', 'success');
+            await loadPendingSubmissions();
+          }}
+        />
+      )}
+
       {/* Approval Modal */}
       {showApprovalModal && selectedSubmission && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -1267,6 +1330,15 @@ export default function PayrollPage() {
             </div>
 
             <div className="p-6 space-y-6">
+              {selectedSubmission.adjusts_submission_id && (
+                <div className="rounded-lg p-4 border-2 text-sm" style={{ borderColor: BRAND_COLORS.warning }}>
+                  <div className="font-semibold mb-1">Correction run: {selectedSubmission.correction_reason}</div>
+                  <div className="text-gray-600">
+                    Reversal lines cancel what was already paid; corrected lines pay the new values. The total is the net change.
+                  </div>
+                </div>
+              )}
+
               <div className="bg-gray-50 rounded-lg p-4 grid grid-cols-3 gap-4">
                 <div>
                   <div className="text-xs text-gray-600 mb-1">Pay Date</div>
@@ -1293,6 +1365,11 @@ export default function PayrollPage() {
                         <div className="flex items-center gap-2">
                           <User size={16} style={{ color: BRAND_COLORS.accent }} />
                           <span className="font-semibold">{detail.employee_name}</span>
+                          {detail.entry_kind !== 'regular' && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-gray-200 text-gray-700">
+                              {ENTRY_KIND_LABELS[detail.entry_kind]}
+                            </span>
+                          )}
                         </div>
                         <span className="text-xl font-bold" style={{ color: BRAND_COLORS.accent }}>
                           {formatCurrency(detail.amount)}
@@ -1330,6 +1407,36 @@ export default function PayrollPage() {
                 </div>
               </div>
 
+              {!selectedSubmission.adjusts_submission_id && (
+                <PayrollVarianceReport submissionId={selectedSubmission.id} />
+              )}
+
+              {approvals[selectedSubmission.id] && approvals[selectedSubmission.id].steps.length > 1 && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-3">Approval Steps</h3>
+                  <div className="space-y-2">
+                    {approvals[selectedSubmission.id].steps.map((step) => (
+                      <div key={step.index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border text-sm">
+                        <span className={step.required ? 'font-medium' : 'text-gray-400 line-through'}>
+                          {step.index + 1}. {step.name}
+                          {step.minAmount != null && ` (${formatCurrency(step.minAmount)}+)`}
+                        </span>
+                        <span className="text-gray-600">
+                          {!step.required
+                            ? 'Not needed'
+                            : step.approvedAt
+                            ? `✓ ${formatDate(step.approvedAt.slice(0, 10))}`
+                            : step.index === approvals[selectedSubmission.id].currentStep
+                            ? 'Waiting'
+                            : 'Later'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <ApprovalWaitingOn approval={approvals[selectedSubmission.id]} />
+                </div>
+              )}
+
               {/* Rejection Note Input */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1369,7 +1476,7 @@ export default function PayrollPage() {
                   ) : (
                     <>
                       <CheckCircle size={20} />
-                      Approve & Post
+                      {isFinalApproval(approvals[selectedSubmission.id]) ? 'Approve & Post' : 'Approve Step'}
                     </>
                   )}
                 </button>
@@ -0,0 +1,254 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { supabase } from "@/lib/supabaseClient"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+
+interface Mapping {
+  id: string
+  location_id: string
+  location_name: string | null
+  form_id: number
+  effective_from: string
+  effective_to: string | null
+}
+
+interface ConnecteamForm {
+  formId: number
+  formName: string
+  isArchived: boolean
+  mappings: Mapping[]
+}
+
+interface Location {
+  id: string
+  name: string
+}
+
+interface NewMapping {
+  locationId: string
+  effectiveFrom: string
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+export default function ConnecteamFormsPage() {
+  const organizationId = useOrganizationId()
+  const [forms, setForms] = useState<ConnecteamForm[]>([])
+  const [locations, setLocations] = useState<Location[]>([])
+  const [drafts, setDrafts] = useState<Record<number, NewMapping>>({})
+  const [showArchived, setShowArchived] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const call = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const res = await authFetch(`/api/organizations/${organizationId}/connecteam${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init.headers },
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || `Request failed (${res.status})`)
+      return body
+    },
+    [organizationId],
+  )
+
+  const loadForms = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const result = await call("/forms")
+      setForms(result.forms || [])
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading Connecteam forms:", err)
+      setError(err instanceof Error ? err.message : "Failed to load Connecteam forms")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, call])
+
+  useEffect(() => {
+    loadForms()
+  }, [loadForms])
+
+  useEffect(() => {
+    if (!organizationId) return
+    const loadLocations = async () => {
+      const { data, error: locError } = await supabase
+        .from("locations")
+        .select("id, name")
+        .eq("organization_id", organizationId)
+        .order("name")
+      if (locError) {
+        console.error("❌ Error loading locations:", locError)
+        return
+      }
+      setLocations(data || [])
+    }
+    loadLocations()
+  }, [organizationId])
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setError("")
+    setNotice("")
+    try {
+      await action()
+      setNotice(success)
+      await loadForms()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    }
+  }
+
+  const draftFor = (formId: number): NewMapping => drafts[formId] || { locationId: "", effectiveFrom: today() }
+
+  const setDraft = (formId: number, patch: Partial<NewMapping>) =>
+    setDrafts((prev) => ({ ...prev, [formId]: { ...draftFor(formId), ...patch } }))
+
+  const addMapping = (form: ConnecteamForm) => {
+    const draft = draftFor(form.formId)
+    if (!draft.locationId) {
+      setError("Choose a location first")
+      return
+    }
+    run(async () => {
+      await call("/form-locations", {
+        method: "POST",
+        body: JSON.stringify({
+          formId: form.formId,
+          formName: form.formName,
+          locationId: draft.locationId,
+          effectiveFrom: draft.effectiveFrom,
+        }),
+      })
+      setDrafts((prev) => {
+        const next = { ...prev }
+        delete next[form.formId]
+        return next
+      })
+    }, `${form.formName} mapped`)
+  }
+
+  const visibleForms = forms.filter((f) => showArchived || !f.isArchived || f.mappings.length > 0)
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading Connecteam forms...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Connecteam Forms</h1>
+        <div className="text-sm text-gray-600 mt-1">
+          Map each production form to the location it counts units for. A location can use several forms; end-date a
+          mapping and add a new one when a form moves to another site.
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+        Show archived forms
+      </label>
+
+      <table className="w-full text-sm border">
+        <thead className="bg-gray-50 text-left">
+          <tr>
+            <th className="p-2 w-1/3">Form</th>
+            <th className="p-2">Locations</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleForms.map((form) => {
+            const draft = draftFor(form.formId)
+            return (
+              <tr key={form.formId} className="border-t align-top">
+                <td className="p-2">
+                  <div className="font-medium">{form.formName}</div>
+                  <div className="text-gray-500">
+                    #{form.formId}
+                    {form.isArchived && " · archived"}
+                  </div>
+                </td>
+                <td className="p-2 space-y-2">
+                  {form.mappings.map((mapping) => (
+                    <div key={mapping.id} className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{mapping.location_name || mapping.location_id}</span>
+                      <span className="text-gray-500">from {mapping.effective_from} to</span>
+                      <input
+                        type="date"
+                        className="border rounded p-1"
+                        value={mapping.effective_to || ""}
+                        onChange={(e) =>
+                          run(
+                            () =>
+                              call(`/form-locations/${mapping.id}`, {
+                                method: "PATCH",
+                                body: JSON.stringify({ effectiveTo: e.target.value || null }),
+                              }),
+                            e.target.value ? `Mapping ends ${e.target.value}` : "Mapping is open-ended",
+                          )
+                        }
+                      />
+                      {!mapping.effective_to && <span className="text-gray-400">(current)</span>}
+                      <button
+                        type="button"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => {
+                          if (confirm("Remove this mapping? Past production for it will no longer be counted.")) {
+                            run(() => call(`/form-locations/${mapping.id}`, { method: "DELETE" }), "Mapping removed")
+                          }
+                        }}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      className="border rounded p-1"
+                      value={draft.locationId}
+                      onChange={(e) => setDraft(form.formId, { locationId: e.target.value })}
+                    >
+                      <option value="">Add location…</option>
+                      {locations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {location.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-gray-500">from</span>
+                    <input
+                      type="date"
+                      className="border rounded p-1"
+                      value={draft.effectiveFrom}
+                      onChange={(e) => setDraft(form.formId, { effectiveFrom: e.target.value })}
+                    />
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      disabled={!draft.locationId}
+                      onClick={() => addMapping(form)}
+                    >
+                      Map
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
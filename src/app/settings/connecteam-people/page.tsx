@@ -0,0 +1,229 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+
+interface EmployeeLink {
+  id: string
+  first_name: string
+  last_name: string
+  email: string | null
+  location_name: string | null
+  connecteam_user_id: number | null
+  connecteam_linked_by: string | null
+  connecteam_linked_at: string | null
+}
+
+interface DirectoryUser {
+  user_id: number
+  email: string | null
+  first_name: string | null
+  last_name: string | null
+  is_archived: boolean
+}
+
+const userLabel = (user: DirectoryUser) =>
+  `${[user.first_name, user.last_name].filter(Boolean).join(" ") || `User ${user.user_id}`}${user.email ? ` · ${user.email}` : ""}${user.is_archived ? " (archived)" : ""}`
+
+// Directory users most likely to be this employee first: same email, then same name
+function rankUsers(employee: EmployeeLink, users: DirectoryUser[]): DirectoryUser[] {
+  const email = employee.email?.trim().toLowerCase()
+  const name = `${employee.first_name} ${employee.last_name}`.trim().toLowerCase()
+  const score = (user: DirectoryUser) =>
+    (email && user.email === email ? 2 : 0) +
+    (`${user.first_name || ""} ${user.last_name || ""}`.trim().toLowerCase() === name ? 1 : 0)
+  return [...users].sort((a, b) => score(b) - score(a))
+}
+
+export default function ConnecteamPeoplePage() {
+  const organizationId = useOrganizationId()
+  const [employees, setEmployees] = useState<EmployeeLink[]>([])
+  const [users, setUsers] = useState<DirectoryUser[]>([])
+  const [showLinked, setShowLinked] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const call = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await authFetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(body.error || `Request failed (${res.status})`)
+    return body
+  }, [])
+
+  const loadLinks = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const result = await call(`/api/organizations/${organizationId}/connecteam/users`)
+      setEmployees(result.employees || [])
+      setUsers(result.users || [])
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading Connecteam people:", err)
+      setError(err instanceof Error ? err.message : "Failed to load Connecteam people")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, call])
+
+  useEffect(() => {
+    loadLinks()
+  }, [loadLinks])
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setError("")
+    setNotice("")
+    try {
+      await action()
+      setNotice(success)
+      await loadLinks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    }
+  }
+
+  const syncDirectory = async () => {
+    setSyncing(true)
+    setError("")
+    setNotice("")
+    try {
+      const summary = await call("/api/connecteam/users/sync", { method: "POST" })
+      setNotice(`${summary.users} Connecteam users synced, ${summary.linked} employees linked by email`)
+      await loadLinks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed")
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const setLink = (employee: EmployeeLink, connecteamUserId: number | null) =>
+    run(
+      () =>
+        call(`/api/organizations/${organizationId}/connecteam/employees/${employee.id}`, {
+          method: "PUT",
+          body: JSON.stringify({ connecteamUserId }),
+        }),
+      connecteamUserId === null
+        ? `${employee.first_name} ${employee.last_name} has no Connecteam user`
+        : `${employee.first_name} ${employee.last_name} linked`,
+    )
+
+  const usersById = new Map(users.map((user) => [user.user_id, user]))
+  const unmatched = employees.filter((e) => e.connecteam_user_id === null)
+  const visibleEmployees = showLinked ? employees : unmatched
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading Connecteam people...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Connecteam People</h1>
+          <div className="text-sm text-gray-600 mt-1">
+            Hours and production are matched to employees through these links. Employees are linked automatically when
+            exactly one Connecteam user has their email; resolve the rest here.
+          </div>
+        </div>
+        <button
+          type="button"
+          className="shrink-0 px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+          disabled={syncing}
+          onClick={syncDirectory}
+        >
+          {syncing ? "Syncing…" : "Sync directory"}
+        </button>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          {unmatched.length} of {employees.length} active employees without a Connecteam user
+        </span>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showLinked} onChange={(e) => setShowLinked(e.target.checked)} />
+          Show linked employees
+        </label>
+      </div>
+
+      <table className="w-full text-sm border">
+        <thead className="bg-gray-50 text-left">
+          <tr>
+            <th className="p-2 w-1/3">Employee</th>
+            <th className="p-2">Connecteam user</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleEmployees.length === 0 && (
+            <tr>
+              <td colSpan={2} className="p-4 text-center text-gray-500">
+                Every active employee is linked.
+              </td>
+            </tr>
+          )}
+          {visibleEmployees.map((employee) => {
+            const linkedUser = employee.connecteam_user_id !== null ? usersById.get(employee.connecteam_user_id) : null
+            const markedNone = employee.connecteam_user_id === null && !!employee.connecteam_linked_at
+            return (
+              <tr key={employee.id} className="border-t align-top">
+                <td className="p-2">
+                  <div className="font-medium">
+                    {employee.first_name} {employee.last_name}
+                  </div>
+                  <div className="text-gray-500">
+                    {employee.email || "no email"}
+                    {employee.location_name && ` · ${employee.location_name}`}
+                  </div>
+                </td>
+                <td className="p-2 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      className="border rounded p-1 max-w-md"
+                      value={employee.connecteam_user_id ?? ""}
+                      onChange={(e) => setLink(employee, e.target.value ? Number(e.target.value) : null)}
+                    >
+                      <option value="">{markedNone ? "No Connecteam user" : "Choose a user…"}</option>
+                      {rankUsers(employee, users).map((user) => (
+                        <option key={user.user_id} value={user.user_id}>
+                          {userLabel(user)}
+                        </option>
+                      ))}
+                    </select>
+                    {employee.connecteam_user_id === null && !markedNone && (
+                      <button
+                        type="button"
+                        className="text-gray-600 hover:text-gray-800"
+                        onClick={() => setLink(employee, null)}
+                      >
+                        Not on Connecteam
+                      </button>
+                    )}
+                  </div>
+                  <div className="text-gray-500 text-xs">
+                    {employee.connecteam_user_id !== null && !linkedUser && "Linked user is no longer in Connecteam · "}
+                    {employee.connecteam_linked_at
+                      ? `${employee.connecteam_linked_by ? "Set by an admin" : "Matched by email"} on ${employee.connecteam_linked_at.slice(0, 10)}`
+                      : "Not linked yet"}
+                  </div>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,444 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { supabase } from "@/lib/supabaseClient"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+
+interface Member {
+  id: string
+  email: string
+  name: string | null
+  role: string
+  status: "active" | "deactivated"
+  locationIds: string[]
+}
+
+interface Invitation {
+  id: string
+  email: string
+  name: string | null
+  role: string
+  status: "pending" | "accepted" | "revoked" | "expired"
+  location_ids: string[]
+  expires_at: string | null
+  sent_count: number
+  created_at: string
+}
+
+interface AuditEntry {
+  id: string
+  actor_email: string | null
+  action: string
+  target_email: string | null
+  details: Record<string, unknown>
+  created_at: string
+}
+
+interface Location {
+  id: string
+  name: string
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin: "Super admin",
+  admin: "Admin",
+  owner: "Owner",
+  employee: "Employee (location manager)",
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : "—")
+
+function LocationPicker({
+  locations,
+  selected,
+  onChange,
+}: {
+  locations: Location[]
+  selected: string[]
+  onChange: (ids: string[]) => void
+}) {
+  if (locations.length === 0) {
+    return <div className="text-sm text-gray-500">No locations set up</div>
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      {locations.map((location) => (
+        <label key={location.id} className="flex items-center gap-1 text-sm border rounded px-2 py-1">
+          <input
+            type="checkbox"
+            checked={selected.includes(location.id)}
+            onChange={(e) =>
+              onChange(e.target.checked ? [...selected, location.id] : selected.filter((id) => id !== location.id))
+            }
+          />
+          {location.name}
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export default function MembersPage() {
+  const organizationId = useOrganizationId()
+  const [members, setMembers] = useState<Member[]>([])
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([])
+  const [locations, setLocations] = useState<Location[]>([])
+  const [assignableRoles, setAssignableRoles] = useState<string[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteName, setInviteName] = useState("")
+  const [inviteRole, setInviteRole] = useState("employee")
+  const [inviteLocations, setInviteLocations] = useState<string[]>([])
+  const [editingLocations, setEditingLocations] = useState<{ userId: string; ids: string[] } | null>(null)
+
+  const locationNames = useMemo(() => new Map(locations.map((l) => [l.id, l.name])), [locations])
+
+  const call = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const res = await authFetch(`/api/organizations/${organizationId}${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init.headers },
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || `Request failed (${res.status})`)
+      return body
+    },
+    [organizationId],
+  )
+
+  const loadAll = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const [membersRes, invitationsRes, auditRes] = await Promise.all([
+        call("/members"),
+        call("/invitations"),
+        call("/audit-log?limit=50"),
+      ])
+      setMembers(membersRes.members || [])
+      setAssignableRoles(membersRes.assignableRoles || [])
+      setCurrentUserId(membersRes.currentUserId || null)
+      setInvitations(invitationsRes.invitations || [])
+      setAuditLog(auditRes.entries || [])
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading members:", err)
+      setError(err instanceof Error ? err.message : "Failed to load members")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, call])
+
+  useEffect(() => {
+    loadAll()
+  }, [loadAll])
+
+  useEffect(() => {
+    if (!organizationId) return
+    const loadLocations = async () => {
+      const { data, error: locError } = await supabase
+        .from("locations")
+        .select("id, name")
+        .eq("organization_id", organizationId)
+        .order("name")
+      if (locError) {
+        console.error("❌ Error loading locations:", locError)
+        return
+      }
+      setLocations(data || [])
+    }
+    loadLocations()
+  }, [organizationId])
+
+  // Runs a mutation, then reloads everything so the audit log stays in step
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setError("")
+    setNotice("")
+    try {
+      const message = await action()
+      setNotice(typeof message === "string" ? message : success)
+      await loadAll()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    }
+  }
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const result = await call("/invitations", {
+        method: "POST",
+        body: JSON.stringify({
+          email: inviteEmail,
+          name: inviteName,
+          role: inviteRole,
+          locationIds: inviteRole === "employee" ? inviteLocations : [],
+        }),
+      })
+      setInviteEmail("")
+      setInviteName("")
+      setInviteLocations([])
+      if (!result.emailSent) {
+        return `Invitation created. ${inviteEmail} already has an account and can accept by signing in.`
+      }
+    }, `Invitation sent to ${inviteEmail}`)
+  }
+
+  const updateMember = (member: Member, update: Record<string, unknown>, success: string) =>
+    run(() => call(`/members/${member.id}`, { method: "PATCH", body: JSON.stringify(update) }), success)
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading members...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-8">
+      <h1 className="text-2xl font-bold">Members &amp; Invitations</h1>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <form onSubmit={handleInvite} className="space-y-3 p-4 bg-gray-50 rounded-lg">
+        <h2 className="text-xl font-semibold">Invite someone</h2>
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="email"
+            required
+            className="flex-1 min-w-[220px] border rounded p-2"
+            placeholder="Email address"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+          />
+          <input
+            className="w-56 border rounded p-2"
+            placeholder="Name (optional)"
+            value={inviteName}
+            onChange={(e) => setInviteName(e.target.value)}
+          />
+          <select className="w-60 border rounded p-2 text-sm" value={inviteRole} onChange={(e) => setInviteRole(e.target.value)}>
+            {assignableRoles.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role] || role}
+              </option>
+            ))}
+          </select>
+        </div>
+        {inviteRole === "employee" && (
+          <div>
+            <div className="text-sm text-gray-600 mb-1">Locations they can submit payroll for</div>
+            <LocationPicker locations={locations} selected={inviteLocations} onChange={setInviteLocations} />
+          </div>
+        )}
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+        >
+          Send Invitation
+        </button>
+      </form>
+
+      <div>
+        <h2 className="text-xl font-semibold mb-2">Members</h2>
+        <table className="w-full text-sm border">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="p-2">Member</th>
+              <th className="p-2">Role</th>
+              <th className="p-2">Locations</th>
+              <th className="p-2">Status</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((member) => {
+              const isSelf = member.id === currentUserId
+              const editing = editingLocations?.userId === member.id
+              return (
+                <tr key={member.id} className={`border-t ${member.status === "deactivated" ? "text-gray-400" : ""}`}>
+                  <td className="p-2">
+                    <div className="font-medium">{member.name || member.email}</div>
+                    <div className="text-gray-500">{member.email}</div>
+                  </td>
+                  <td className="p-2">
+                    <select
+                      className="border rounded p-1"
+                      value={member.role}
+                      disabled={isSelf || !assignableRoles.includes(member.role)}
+                      onChange={(e) =>
+                        updateMember(member, { role: e.target.value }, `${member.email} is now ${ROLE_LABELS[e.target.value] || e.target.value}`)
+                      }
+                    >
+                      {[...new Set([member.role, ...assignableRoles])].map((role) => (
+                        <option key={role} value={role}>
+                          {ROLE_LABELS[role] || role}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    {editing ? (
+                      <div className="space-y-2">
+                        <LocationPicker
+                          locations={locations}
+                          selected={editingLocations.ids}
+                          onChange={(ids) => setEditingLocations({ userId: member.id, ids })}
+                        />
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            className="text-blue-600 hover:text-blue-800"
+                            onClick={() => {
+                              const ids = editingLocations.ids
+                              setEditingLocations(null)
+                              updateMember(member, { locationIds: ids }, `Locations updated for ${member.email}`)
+                            }}
+                          >
+                            Save
+                          </button>
+                          <button type="button" className="text-gray-500" onClick={() => setEditingLocations(null)}>
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() => setEditingLocations({ userId: member.id, ids: member.locationIds })}
+                      >
+                        {member.locationIds.length
+                          ? member.locationIds.map((id) => locationNames.get(id) || id).join(", ")
+                          : "None"}
+                      </button>
+                    )}
+                  </td>
+                  <td className="p-2 capitalize">{member.status}</td>
+                  <td className="p-2 text-right">
+                    {!isSelf &&
+                      (member.status === "active" ? (
+                        <button
+                          type="button"
+                          className="text-red-600 hover:text-red-800"
+                          onClick={() => {
+                            if (confirm(`Deactivate ${member.email}? They will lose access immediately.`)) {
+                              updateMember(member, { status: "deactivated" }, `${member.email} deactivated`)
+                            }
+                          }}
+                        >
+                          Deactivate
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          className="text-blue-600 hover:text-blue-800"
+                          onClick={() => updateMember(member, { status: "active" }, `${member.email} reactivated`)}
+                        >
+                          Reactivate
+                        </button>
+                      ))}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold mb-2">Invitations</h2>
+        {invitations.length === 0 ? (
+          <div className="text-sm text-gray-500">No invitations yet</div>
+        ) : (
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-2">Email</th>
+                <th className="p-2">Role</th>
+                <th className="p-2">Status</th>
+                <th className="p-2">Expires</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {invitations.map((invitation) => (
+                <tr key={invitation.id} className="border-t">
+                  <td className="p-2">{invitation.email}</td>
+                  <td className="p-2">{ROLE_LABELS[invitation.role] || invitation.role}</td>
+                  <td className="p-2 capitalize">
+                    {invitation.status}
+                    {invitation.sent_count > 1 && <span className="text-gray-400"> (sent {invitation.sent_count}×)</span>}
+                  </td>
+                  <td className="p-2">{invitation.status === "pending" ? formatDate(invitation.expires_at) : "—"}</td>
+                  <td className="p-2 text-right space-x-3">
+                    {(invitation.status === "pending" || invitation.status === "expired") && (
+                      <button
+                        type="button"
+                        className="text-blue-600 hover:text-blue-800"
+                        onClick={() =>
+                          run(
+                            () => call(`/invitations/${invitation.id}/resend`, { method: "POST" }),
+                            `Invitation resent to ${invitation.email}`,
+                          )
+                        }
+                      >
+                        Resend
+                      </button>
+                    )}
+                    {invitation.status === "pending" && (
+                      <button
+                        type="button"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() =>
+                          run(
+                            () => call(`/invitations/${invitation.id}`, { method: "DELETE" }),
+                            `Invitation for ${invitation.email} revoked`,
+                          )
+                        }
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold mb-2">Recent Activity</h2>
+        {auditLog.length === 0 ? (
+          <div className="text-sm text-gray-500">No membership changes recorded</div>
+        ) : (
+          <ul className="text-sm divide-y border rounded">
+            {auditLog.map((entry) => (
+              <li key={entry.id} className="p-2 flex justify-between gap-4">
+                <span>
+                  <span className="font-medium">{entry.actor_email || "System"}</span> {entry.action.replace(/[._]/g, " ")}{" "}
+                  {entry.target_email}
+                  {"from" in entry.details && (
+                    <span className="text-gray-500">
+                      {" "}
+                      ({JSON.stringify(entry.details.from)} → {JSON.stringify(entry.details.to)})
+                    </span>
+                  )}
+                </span>
+                <span className="text-gray-400 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
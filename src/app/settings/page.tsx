@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import Papa from "papaparse"
 import { supabase } from "@/lib/supabaseClient"
 
@@ -211,7 +212,35 @@ export default function SettingsPage() {
 
   return (
     <div className="p-6 space-y-6">
-      <h1 className="text-2xl font-bold">Settings</h1>
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <div className="flex gap-4">
+          <Link href="/settings/members" className="text-sm text-blue-600 hover:text-blue-800">
+            Manage members &amp; invitations →
+          </Link>
+          <Link href="/settings/connecteam-forms" className="text-sm text-blue-600 hover:text-blue-800">
+            Connecteam forms →
+          </Link>
+          <Link href="/settings/connecteam-people" className="text-sm text-blue-600 hover:text-blue-800">
+            Connecteam people →
+          </Link>
+          <Link href="/settings/payroll-journal" className="text-sm text-blue-600 hover:text-blue-800">
+            Payroll journal →
+          </Link>
+          <Link href="/settings/payroll-ach" className="text-sm text-blue-600 hover:text-blue-800">
+            Payroll ACH →
+          </Link>
+          <Link href="/settings/payroll-provider" className="text-sm text-blue-600 hover:text-blue-800">
+            Payroll provider export →
+          </Link>
+          <Link href="/settings/payroll-approvals" className="text-sm text-blue-600 hover:text-blue-800">
+            Payroll approvals →
+          </Link>
+          <Link href="/settings/payroll-reminders" className="text-sm text-blue-600 hover:text-blue-800">
+            Payroll reminders →
+          </Link>
+        </div>
+      </div>
 
       <div>
         <label className="block text-sm font-medium mb-1" htmlFor="date">
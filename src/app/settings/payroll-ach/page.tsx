@@ -0,0 +1,468 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+import type { AchSettings, AchSettingsInput, AchValidationReport } from "@/lib/payroll/ach"
+import type { BankAccountInput, BankAccountSummary } from "@/lib/payroll/bankAccounts"
+
+interface Employee {
+  id: string
+  first_name: string | null
+  last_name: string | null
+}
+
+const EMPTY_SETTINGS: AchSettingsInput = {
+  immediate_destination: "",
+  immediate_destination_name: "",
+  immediate_origin: "",
+  immediate_origin_name: "",
+  company_name: "",
+  company_identification: "",
+  originating_dfi: "",
+  entry_description: "PAYROLL",
+  offset_routing_number: null,
+  offset_account_type: null,
+  offset_account_number: null,
+}
+
+const EMPTY_ACCOUNT: BankAccountInput = {
+  accountHolderName: "",
+  routingNumber: "",
+  accountNumber: "",
+  accountType: "checking",
+}
+
+const SETTINGS_FIELDS: { field: keyof AchSettingsInput; label: string; hint?: string }[] = [
+  { field: "immediate_destination", label: "Bank routing number", hint: "Immediate destination, 9 digits" },
+  { field: "immediate_destination_name", label: "Bank name" },
+  { field: "originating_dfi", label: "Originating DFI", hint: "First 8 digits of the bank routing number" },
+  { field: "immediate_origin", label: "Immediate origin", hint: "Usually the company identification" },
+  { field: "immediate_origin_name", label: "Company name (file header)" },
+  { field: "company_name", label: "Company name (batch, 16 characters)" },
+  { field: "company_identification", label: "Company identification", hint: "Assigned by the bank, often 1 + EIN" },
+  { field: "entry_description", label: "Entry description", hint: "Shown on employee statements" },
+]
+
+const formatMoney = (n: number) => n.toLocaleString("en-US", { style: "currency", currency: "USD" })
+const employeeName = (e: Employee) => [e.first_name, e.last_name].filter(Boolean).join(" ") || e.id
+
+export default function PayrollAchPage() {
+  const organizationId = useOrganizationId()
+  const [settings, setSettings] = useState<AchSettingsInput>(EMPTY_SETTINGS)
+  const [savedSettings, setSavedSettings] = useState<AchSettings | null>(null)
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [accounts, setAccounts] = useState<BankAccountSummary[]>([])
+  const [editing, setEditing] = useState<string | null>(null)
+  const [accountForm, setAccountForm] = useState<BankAccountInput>(EMPTY_ACCOUNT)
+  const [payDate, setPayDate] = useState("")
+  const [report, setReport] = useState<AchValidationReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const call = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await authFetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(body.details || body.error || `Request failed (${res.status})`)
+    return body
+  }, [])
+
+  const load = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const [settingsBody, accountsBody] = await Promise.all([
+        call(`/api/organizations/${organizationId}/payroll-ach/settings`),
+        call(`/api/organizations/${organizationId}/payroll-ach/bank-accounts`),
+      ])
+      const saved = settingsBody.settings as AchSettings | null
+      if (saved) {
+        setSettings({
+          ...EMPTY_SETTINGS,
+          ...Object.fromEntries(Object.keys(EMPTY_SETTINGS).map((key) => [key, saved[key as keyof AchSettings] ?? null])),
+          offset_account_number: null,
+        })
+      }
+      setSavedSettings(saved)
+      setEmployees(accountsBody.employees || [])
+      setAccounts(accountsBody.accounts || [])
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading ACH setup:", err)
+      setError(err instanceof Error ? err.message : "Failed to load ACH setup")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, call])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      setNotice(await action())
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveSettings = () =>
+    run(async () => {
+      await call(`/api/organizations/${organizationId}/payroll-ach/settings`, {
+        method: "PUT",
+        body: JSON.stringify(settings),
+      })
+      return "ACH settings saved"
+    })
+
+  const saveAccount = (employeeId: string) =>
+    run(async () => {
+      await call(`/api/organizations/${organizationId}/payroll-ach/bank-accounts/${employeeId}`, {
+        method: "PUT",
+        body: JSON.stringify(accountForm),
+      })
+      setEditing(null)
+      setAccountForm(EMPTY_ACCOUNT)
+      return "Bank details saved"
+    })
+
+  const removeAccount = (employee: Employee) => {
+    if (!confirm(`Remove the bank details for ${employeeName(employee)}?`)) return
+    run(async () => {
+      await call(`/api/organizations/${organizationId}/payroll-ach/bank-accounts/${employee.id}`, { method: "DELETE" })
+      return "Bank details removed"
+    })
+  }
+
+  const validate = () =>
+    run(async () => {
+      const body = await call(`/api/organizations/${organizationId}/payroll-ach?payDate=${payDate}`)
+      setReport(body.report)
+      return body.report.ok ? "Ready to export" : ""
+    })
+
+  const download = () =>
+    run(async () => {
+      const res = await authFetch(`/api/organizations/${organizationId}/payroll-ach/file?payDate=${payDate}`)
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        if (body.report) setReport(body.report)
+        throw new Error(body.details || body.error || `Export failed (${res.status})`)
+      }
+      const disposition = res.headers.get("Content-Disposition") || ""
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = disposition.match(/filename="(.+)"/)?.[1] || `payroll-${payDate}.ach`
+      link.click()
+      URL.revokeObjectURL(url)
+      setReport(null)
+      return "ACH file downloaded. Upload it to your bank's ACH portal."
+    })
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading ACH setup...</div>
+      </div>
+    )
+  }
+
+  const accountByEmployee = new Map(accounts.map((a) => [a.employee_id, a]))
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Payroll ACH</h1>
+        <div className="text-sm text-gray-600 mt-1">
+          Build a NACHA direct-deposit file from approved payroll for a pay date and upload it to your bank.
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <section className="border rounded p-4 space-y-4">
+        <h2 className="font-semibold">Export</h2>
+        <div className="flex items-end gap-2">
+          <label className="block text-sm">
+            <span className="font-medium">Pay date</span>
+            <input
+              type="date"
+              className="mt-1 block border rounded p-2"
+              value={payDate}
+              onChange={(e) => {
+                setPayDate(e.target.value)
+                setReport(null)
+              }}
+            />
+          </label>
+          <button
+            type="button"
+            className="px-3 py-2 rounded border text-sm disabled:text-gray-400"
+            disabled={busy || !payDate}
+            onClick={validate}
+          >
+            Check
+          </button>
+          <button
+            type="button"
+            className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+            disabled={busy || !report?.ok}
+            onClick={download}
+          >
+            Download ACH file
+          </button>
+        </div>
+
+        {report && (
+          <div className="space-y-3 text-sm">
+            {report.errors.length > 0 && (
+              <ul className="p-3 rounded bg-red-50 text-red-700 list-disc list-inside">
+                {report.errors.map((message, i) => (
+                  <li key={i}>{message}</li>
+                ))}
+              </ul>
+            )}
+            {report.warnings.length > 0 && (
+              <ul className="p-3 rounded bg-amber-50 text-amber-800 list-disc list-inside">
+                {report.warnings.map((message, i) => (
+                  <li key={i}>{message}</li>
+                ))}
+              </ul>
+            )}
+            <div>
+              {report.totals.batchCount} batches · {report.totals.entryCount} entries ·{" "}
+              {formatMoney(report.totals.totalCreditCents / 100)} in deposits
+              {report.totals.totalDebitCents > 0 && ` · ${formatMoney(report.totals.totalDebitCents / 100)} offset`}
+            </div>
+            {report.batches.map((batch) => (
+              <table key={batch.locationId} className="w-full border">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="p-2">{batch.locationName}</th>
+                    <th className="p-2">Account</th>
+                    <th className="p-2 text-right">{formatMoney(batch.total)}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batch.entries.map((entry) => (
+                    <tr key={entry.employeeId} className="border-t">
+                      <td className="p-2">{entry.name}</td>
+                      <td className="p-2">
+                        {entry.accountLast4 ? (
+                          `${entry.accountType} ••••${entry.accountLast4}`
+                        ) : (
+                          <span className="text-red-600">Missing</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">{formatMoney(entry.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+            {report.previousExports.length > 0 && (
+              <div className="text-gray-500">
+                Previous files:{" "}
+                {report.previousExports
+                  .map((e) => `${new Date(e.created_at).toLocaleString()} (${e.file_id_modifier}, ${formatMoney(Number(e.total_credit))})`)
+                  .join(", ")}
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="border rounded p-4 space-y-4">
+        <h2 className="font-semibold">Bank settings</h2>
+        <div className="grid gap-4 md:grid-cols-2">
+          {SETTINGS_FIELDS.map(({ field, label, hint }) => (
+            <label key={field} className="block text-sm">
+              <span className="font-medium">{label}</span>
+              <input
+                className="mt-1 w-full border rounded p-2"
+                value={(settings[field] as string | null) || ""}
+                onChange={(e) => setSettings({ ...settings, [field]: e.target.value })}
+              />
+              {hint && <span className="text-xs text-gray-500">{hint}</span>}
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Offset account (optional)</div>
+          <div className="text-xs text-gray-500 mb-2">
+            Adds a balancing debit to each batch. Leave blank if your bank settles the file against your account.
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <input
+              className="border rounded p-2 text-sm"
+              placeholder="Routing number"
+              value={settings.offset_routing_number || ""}
+              onChange={(e) => setSettings({ ...settings, offset_routing_number: e.target.value || null })}
+            />
+            <input
+              className="border rounded p-2 text-sm"
+              placeholder={
+                savedSettings?.offset_account_last4 ? `••••${savedSettings.offset_account_last4}` : "Account number"
+              }
+              value={settings.offset_account_number || ""}
+              onChange={(e) => setSettings({ ...settings, offset_account_number: e.target.value || null })}
+            />
+            <select
+              className="border rounded p-2 text-sm"
+              value={settings.offset_account_type || ""}
+              onChange={(e) =>
+                setSettings({ ...settings, offset_account_type: (e.target.value || null) as AchSettings["offset_account_type"] })
+              }
+            >
+              <option value="">Account type…</option>
+              <option value="checking">Checking</option>
+              <option value="savings">Savings</option>
+            </select>
+          </div>
+        </div>
+
+        <button
+          type="button"
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+          disabled={busy}
+          onClick={saveSettings}
+        >
+          Save bank settings
+        </button>
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="font-semibold">Employee bank details</h2>
+        <table className="w-full text-sm border">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="p-2">Employee</th>
+              <th className="p-2">Account</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {employees.length === 0 && (
+              <tr>
+                <td colSpan={3} className="p-4 text-center text-gray-500">
+                  No active employees.
+                </td>
+              </tr>
+            )}
+            {employees.map((employee) => {
+              const account = accountByEmployee.get(employee.id)
+              return (
+                <tr key={employee.id} className="border-t align-top">
+                  <td className="p-2">{employeeName(employee)}</td>
+                  <td className="p-2">
+                    {editing === employee.id ? (
+                      <div className="grid gap-2 md:grid-cols-4">
+                        <input
+                          className="border rounded p-1"
+                          placeholder="Account holder"
+                          value={accountForm.accountHolderName}
+                          onChange={(e) => setAccountForm({ ...accountForm, accountHolderName: e.target.value })}
+                        />
+                        <input
+                          className="border rounded p-1"
+                          placeholder="Routing number"
+                          inputMode="numeric"
+                          value={accountForm.routingNumber}
+                          onChange={(e) => setAccountForm({ ...accountForm, routingNumber: e.target.value.trim() })}
+                        />
+                        <input
+                          className="border rounded p-1"
+                          placeholder="Account number"
+                          inputMode="numeric"
+                          autoComplete="off"
+                          value={accountForm.accountNumber}
+                          onChange={(e) => setAccountForm({ ...accountForm, accountNumber: e.target.value.trim() })}
+                        />
+                        <select
+                          className="border rounded p-1"
+                          value={accountForm.accountType}
+                          onChange={(e) =>
+                            setAccountForm({ ...accountForm, accountType: e.target.value as BankAccountInput["accountType"] })
+                          }
+                        >
+                          <option value="checking">Checking</option>
+                          <option value="savings">Savings</option>
+                        </select>
+                      </div>
+                    ) : account ? (
+                      <span>
+                        {account.account_holder_name} · {account.account_type} ••••{account.account_last4} · routing{" "}
+                        {account.routing_number}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">Not set</span>
+                    )}
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap space-x-3">
+                    {editing === employee.id ? (
+                      <>
+                        <button
+                          type="button"
+                          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                          disabled={busy}
+                          onClick={() => saveAccount(employee.id)}
+                        >
+                          Save
+                        </button>
+                        <button type="button" className="text-gray-600" onClick={() => setEditing(null)}>
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          className="text-blue-600 hover:text-blue-800"
+                          onClick={() => {
+                            setEditing(employee.id)
+                            setAccountForm({
+                              ...EMPTY_ACCOUNT,
+                              accountHolderName: account?.account_holder_name || employeeName(employee),
+                              routingNumber: account?.routing_number || "",
+                              accountType: account?.account_type || "checking",
+                            })
+                          }}
+                        >
+                          {account ? "Replace" : "Add"}
+                        </button>
+                        {account && (
+                          <button
+                            type="button"
+                            className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+                            disabled={busy}
+                            onClick={() => removeAccount(employee)}
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,315 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+import { ADMIN_ROLES, USER_ROLES, type UserRole } from "@/lib/auth/routes"
+import type { ApprovalPolicy, ApprovalStep, ApproverType } from "@/lib/payroll/approvals"
+
+interface Location {
+  id: string
+  name: string
+}
+
+interface Member {
+  id: string
+  email: string
+  name: string | null
+  role: string
+}
+
+const APPROVER_LABELS: Record<ApproverType, string> = {
+  location_manager: "Location manager",
+  role: "Anyone with a role",
+  users: "Specific people",
+}
+
+const NEW_STEP: ApprovalStep = { name: "", approver_type: "role", roles: ADMIN_ROLES, min_amount: null }
+
+const formatMoney = (n: number) => n.toLocaleString("en-US", { style: "currency", currency: "USD" })
+
+export default function PayrollApprovalsPage() {
+  const organizationId = useOrganizationId()
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([])
+  const [defaultPolicy, setDefaultPolicy] = useState<ApprovalPolicy | null>(null)
+  const [locations, setLocations] = useState<Location[]>([])
+  const [members, setMembers] = useState<Member[]>([])
+  // "" edits the organization default
+  const [scope, setScope] = useState("")
+  const [steps, setSteps] = useState<ApprovalStep[]>([])
+  const [preventSelfApproval, setPreventSelfApproval] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const call = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await authFetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(body.details || body.error || `Request failed (${res.status})`)
+    return body
+  }, [])
+
+  const load = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const body = await call(`/api/organizations/${organizationId}/payroll-approvals/policies`)
+      setPolicies(body.policies || [])
+      setDefaultPolicy(body.defaultPolicy)
+      setLocations(body.locations || [])
+      setMembers(body.members || [])
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading approval policies:", err)
+      setError(err instanceof Error ? err.message : "Failed to load approval policies")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, call])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const saved = policies.find((p) => p.location_id === (scope || null)) || null
+  const inherited = scope ? policies.find((p) => p.location_id === null) || defaultPolicy : defaultPolicy
+
+  // Reset the editor when the scope or the saved policy changes
+  useEffect(() => {
+    const source = saved || inherited
+    setSteps(source ? source.steps.map((s) => ({ ...s })) : [])
+    setPreventSelfApproval(saved ? saved.prevent_self_approval : true)
+  }, [saved, inherited])
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      setNotice(await action())
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const save = () =>
+    run(async () => {
+      await call(`/api/organizations/${organizationId}/payroll-approvals/policies`, {
+        method: "PUT",
+        body: JSON.stringify({ locationId: scope || null, steps, prevent_self_approval: preventSelfApproval }),
+      })
+      return "Approval chain saved. It applies to approvals from now on."
+    })
+
+  const remove = () =>
+    run(async () => {
+      const query = scope ? `?locationId=${scope}` : ""
+      await call(`/api/organizations/${organizationId}/payroll-approvals/policies${query}`, { method: "DELETE" })
+      return scope ? "Location override removed" : "Organization chain removed; any admin can approve"
+    })
+
+  const updateStep = (index: number, patch: Partial<ApprovalStep>) =>
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)))
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps]
+    const [step] = next.splice(index, 1)
+    next.splice(index + offset, 0, step)
+    setSteps(next)
+  }
+
+  const toggle = <T,>(values: T[] | undefined, value: T) =>
+    (values || []).includes(value) ? (values || []).filter((v) => v !== value) : [...(values || []), value]
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading approval policies...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Payroll Approvals</h1>
+        <div className="text-sm text-gray-600 mt-1">
+          Payroll is approved one step at a time, in order. Steps with a minimum amount only apply to larger runs, and
+          each step needs a different person.
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <label className="block text-sm max-w-sm">
+        <span className="font-medium">Applies to</span>
+        <select className="mt-1 w-full border rounded p-2" value={scope} onChange={(e) => setScope(e.target.value)}>
+          <option value="">All locations (organization default)</option>
+          {locations.map((location) => (
+            <option key={location.id} value={location.id}>
+              {location.name}
+              {policies.some((p) => p.location_id === location.id) ? " · custom" : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {!saved && (
+        <div className="text-sm text-gray-500">
+          {scope
+            ? "This location uses the organization default. Saving creates an override."
+            : "No chain is set up, so any admin can approve in one step. Saving replaces that."}
+        </div>
+      )}
+
+      <section className="space-y-3">
+        {steps.map((step, index) => (
+          <div key={index} className="border rounded p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold text-sm w-6">{index + 1}.</span>
+              <input
+                className="flex-1 border rounded p-2 text-sm"
+                placeholder="Step name, e.g. Regional manager"
+                value={step.name}
+                onChange={(e) => updateStep(index, { name: e.target.value })}
+              />
+              <button
+                type="button"
+                className="text-sm text-gray-600 disabled:text-gray-300"
+                disabled={index === 0}
+                onClick={() => moveStep(index, -1)}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="text-sm text-gray-600 disabled:text-gray-300"
+                disabled={index === steps.length - 1}
+                onClick={() => moveStep(index, 1)}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="text-sm text-red-600 hover:text-red-800"
+                onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+              >
+                Remove
+              </button>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2 text-sm">
+              <label className="block">
+                <span className="font-medium">Approver</span>
+                <select
+                  className="mt-1 w-full border rounded p-2"
+                  value={step.approver_type}
+                  onChange={(e) => updateStep(index, { approver_type: e.target.value as ApproverType })}
+                >
+                  {(Object.keys(APPROVER_LABELS) as ApproverType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {APPROVER_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-medium">Only when the run total is at least</span>
+                <input
+                  className="mt-1 w-full border rounded p-2"
+                  inputMode="decimal"
+                  placeholder="Always"
+                  value={step.min_amount ?? ""}
+                  onChange={(e) => updateStep(index, { min_amount: e.target.value.trim() ? Number(e.target.value) : null })}
+                />
+              </label>
+            </div>
+
+            {step.approver_type === "location_manager" && (
+              <div className="text-xs text-gray-500">
+                Members assigned to the submission&apos;s location on the Members page.
+              </div>
+            )}
+            {step.approver_type === "role" && (
+              <div className="flex flex-wrap gap-4 text-sm">
+                {USER_ROLES.map((role: UserRole) => (
+                  <label key={role} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={(step.roles || []).includes(role)}
+                      onChange={() => updateStep(index, { roles: toggle(step.roles, role) })}
+                    />
+                    {role}
+                  </label>
+                ))}
+              </div>
+            )}
+            {step.approver_type === "users" && (
+              <div className="grid gap-1 md:grid-cols-2 text-sm">
+                {members.map((member) => (
+                  <label key={member.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={(step.user_ids || []).includes(member.id)}
+                      onChange={() => updateStep(index, { user_ids: toggle(step.user_ids, member.id) })}
+                    />
+                    {member.name || member.email}
+                    <span className="text-gray-400">{member.role}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {step.min_amount != null && (
+              <div className="text-xs text-gray-500">Skipped for runs, and reversals, under {formatMoney(step.min_amount)}.</div>
+            )}
+          </div>
+        ))}
+
+        <button
+          type="button"
+          className="px-3 py-2 rounded border text-sm"
+          onClick={() => setSteps([...steps, { ...NEW_STEP }])}
+        >
+          Add step
+        </button>
+      </section>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={preventSelfApproval}
+          onChange={(e) => setPreventSelfApproval(e.target.checked)}
+        />
+        The person who submitted a run can&apos;t approve it
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+          disabled={busy || steps.length === 0}
+          onClick={save}
+        >
+          Save approval chain
+        </button>
+        {saved && (
+          <button
+            type="button"
+            className="px-3 py-2 rounded border text-sm text-red-600 disabled:text-gray-400"
+            disabled={busy}
+            onClick={remove}
+          >
+            {scope ? "Use organization default" : "Remove chain"}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
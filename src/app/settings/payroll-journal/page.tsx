@@ -0,0 +1,319 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+import type { PayrollAccountMapInput, PayrollJournalEntry } from "@/lib/payroll/journal"
+
+interface ChartAccount {
+  account: string
+  account_type: string | null
+  classification: string | null
+}
+
+interface Location {
+  id: string
+  name: string
+}
+
+const EMPTY_MAP: PayrollAccountMapInput = {
+  wages_expense_account: "",
+  accrued_payroll_account: "",
+  employer_tax_expense_account: null,
+  employer_tax_liability_account: null,
+  employer_tax_rate: null,
+  location_classes: {},
+}
+
+const STATUS_LABELS: Record<PayrollJournalEntry["status"], string> = {
+  generated: "Posted locally",
+  exported: "Exported",
+  pushed: "Sent to QuickBooks",
+  recorded: "In QuickBooks",
+}
+
+const formatMoney = (n: number) => n.toLocaleString("en-US", { style: "currency", currency: "USD" })
+
+export default function PayrollJournalPage() {
+  const organizationId = useOrganizationId()
+  const [map, setMap] = useState<PayrollAccountMapInput>(EMPTY_MAP)
+  const [taxPercent, setTaxPercent] = useState("")
+  const [accounts, setAccounts] = useState<ChartAccount[]>([])
+  const [locations, setLocations] = useState<Location[]>([])
+  const [entries, setEntries] = useState<PayrollJournalEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const call = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await authFetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(body.details || body.error || `Request failed (${res.status})`)
+    return body
+  }, [])
+
+  const load = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const [setup, journal] = await Promise.all([
+        call(`/api/organizations/${organizationId}/payroll-journal/accounts`),
+        call(`/api/organizations/${organizationId}/payroll-journal`),
+      ])
+      if (setup.accountMap) {
+        setMap(setup.accountMap)
+        setTaxPercent(setup.accountMap.employer_tax_rate != null ? String(setup.accountMap.employer_tax_rate * 100) : "")
+      }
+      setAccounts(setup.accounts || [])
+      setLocations(setup.locations || [])
+      setEntries(journal.entries || [])
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading payroll journal:", err)
+      setError(err instanceof Error ? err.message : "Failed to load payroll journal")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, call])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      setNotice(await action())
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveMap = () =>
+    run(async () => {
+      await call(`/api/organizations/${organizationId}/payroll-journal/accounts`, {
+        method: "PUT",
+        body: JSON.stringify({ ...map, employer_tax_rate: taxPercent.trim() ? Number(taxPercent) / 100 : null }),
+      })
+      return "Account map saved. It applies to payroll approved from now on."
+    })
+
+  const push = () =>
+    run(async () => {
+      const summary = await call(`/api/organizations/${organizationId}/payroll-journal/push`, { method: "POST" })
+      const failed = summary.failed.map((f: { docNumber: string; error: string }) => `${f.docNumber}: ${f.error}`)
+      if (failed.length > 0) throw new Error(`${summary.pushed} sent; failed: ${failed.join("; ")}`)
+      return `${summary.pushed} entries sent to QuickBooks`
+    })
+
+  const download = (format: "csv" | "iif") =>
+    run(async () => {
+      const res = await authFetch(`/api/organizations/${organizationId}/payroll-journal/export?format=${format}`)
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error || `Export failed (${res.status})`)
+      }
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `payroll-journal.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+      return `Exported as ${format.toUpperCase()}. Import it into QuickBooks; the next sync picks the entries up.`
+    })
+
+  const regenerate = (entry: PayrollJournalEntry) =>
+    run(async () => {
+      await call(`/api/payroll/submissions/${entry.submission_id}/journal`, { method: "POST" })
+      return `${entry.doc_number} rebuilt`
+    })
+
+  const accountSelect = (field: keyof PayrollAccountMapInput, label: string, optional = false) => (
+    <label className="block text-sm">
+      <span className="font-medium">{label}</span>
+      <select
+        className="mt-1 w-full border rounded p-2"
+        value={(map[field] as string | null) || ""}
+        onChange={(e) => setMap({ ...map, [field]: e.target.value || null })}
+      >
+        <option value="">{optional ? "None" : "Choose an account…"}</option>
+        {accounts.map((a) => (
+          <option key={a.account} value={a.account}>
+            {a.account}
+            {a.account_type ? ` · ${a.account_type}` : ""}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading payroll journal...</div>
+      </div>
+    )
+  }
+
+  const unsent = entries.filter((e) => e.status === "generated" || e.status === "exported")
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Payroll Journal</h1>
+        <div className="text-sm text-gray-600 mt-1">
+          Approved payroll is posted to the general ledger as a journal entry using these accounts. Send the entries
+          to QuickBooks directly or export them for import.
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <section className="border rounded p-4 space-y-4">
+        <h2 className="font-semibold">Account map</h2>
+        {accounts.length === 0 && (
+          <div className="text-sm text-gray-500">No chart of accounts yet. Run a QuickBooks sync first.</div>
+        )}
+        <div className="grid gap-4 md:grid-cols-2">
+          {accountSelect("wages_expense_account", "Wages expense (debit)")}
+          {accountSelect("accrued_payroll_account", "Accrued payroll liability (credit)")}
+          {accountSelect("employer_tax_expense_account", "Employer tax expense", true)}
+          {accountSelect("employer_tax_liability_account", "Employer tax liability", true)}
+          <label className="block text-sm">
+            <span className="font-medium">Employer tax rate (%)</span>
+            <input
+              className="mt-1 w-full border rounded p-2"
+              inputMode="decimal"
+              placeholder="e.g. 7.65"
+              value={taxPercent}
+              onChange={(e) => setTaxPercent(e.target.value)}
+            />
+          </label>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Class per location</div>
+          <div className="grid gap-2 md:grid-cols-2">
+            {locations.map((location) => (
+              <label key={location.id} className="flex items-center gap-2 text-sm">
+                <span className="w-1/2 truncate">{location.name}</span>
+                <input
+                  className="flex-1 border rounded p-1"
+                  placeholder={location.name}
+                  value={map.location_classes[location.id] || ""}
+                  onChange={(e) =>
+                    setMap({ ...map, location_classes: { ...map.location_classes, [location.id]: e.target.value } })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">Leave blank to use the location name as the class.</div>
+        </div>
+
+        <button
+          type="button"
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+          disabled={busy || !map.wages_expense_account || !map.accrued_payroll_account}
+          onClick={saveMap}
+        >
+          Save account map
+        </button>
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Entries</h2>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="px-3 py-2 rounded border text-sm disabled:text-gray-400"
+              disabled={busy || unsent.length === 0}
+              onClick={() => download("csv")}
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              className="px-3 py-2 rounded border text-sm disabled:text-gray-400"
+              disabled={busy || unsent.length === 0}
+              onClick={() => download("iif")}
+            >
+              Export IIF
+            </button>
+            <button
+              type="button"
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+              disabled={busy || !entries.some((e) => e.status === "generated")}
+              onClick={push}
+            >
+              Send to QuickBooks
+            </button>
+          </div>
+        </div>
+
+        <table className="w-full text-sm border">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="p-2">Entry</th>
+              <th className="p-2">Date</th>
+              <th className="p-2">Lines</th>
+              <th className="p-2 text-right">Amount</th>
+              <th className="p-2">Status</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="p-4 text-center text-gray-500">
+                  No payroll has been posted yet.
+                </td>
+              </tr>
+            )}
+            {entries.map((entry) => (
+              <tr key={entry.id} className="border-t align-top">
+                <td className="p-2 font-mono">{entry.doc_number}</td>
+                <td className="p-2">{entry.txn_date}</td>
+                <td className="p-2">
+                  {entry.lines.map((line, i) => (
+                    <div key={i} className="text-gray-600">
+                      {line.debit ? "Dr" : "Cr"} {line.account}
+                      {line.class && ` · ${line.class}`} {formatMoney(line.debit || line.credit)}
+                    </div>
+                  ))}
+                </td>
+                <td className="p-2 text-right">{formatMoney(Number(entry.total_amount))}</td>
+                <td className="p-2">
+                  {STATUS_LABELS[entry.status]}
+                  {entry.push_error && <div className="text-red-600 text-xs">{entry.push_error}</div>}
+                </td>
+                <td className="p-2 text-right">
+                  {(entry.status === "generated" || entry.status === "exported") && (
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      disabled={busy}
+                      onClick={() => regenerate(entry)}
+                    >
+                      Rebuild
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,457 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+import {
+  EARNING_KINDS,
+  EARNING_LABELS,
+  HOURS_KINDS,
+  PAYROLL_PROVIDERS,
+  PROVIDER_FORMATTERS,
+  type PayrollProvider,
+} from "@/lib/payroll/providerFormats"
+import type { ProviderExportReport, ProviderSettings, ProviderSettingsInput } from "@/lib/payroll/providerExports"
+
+interface Employee {
+  id: string
+  first_name: string | null
+  last_name: string | null
+}
+
+interface Location {
+  id: string
+  name: string | null
+}
+
+const EMPTY_SETTINGS: ProviderSettingsInput = {
+  company_code: null,
+  batch_id: null,
+  earning_codes: {},
+  location_codes: {},
+}
+
+const formatMoney = (n: number) => n.toLocaleString("en-US", { style: "currency", currency: "USD" })
+const formatHours = (n: number) => (n ? n.toFixed(2) : "")
+const employeeName = (e: Employee) => [e.first_name, e.last_name].filter(Boolean).join(" ") || e.id
+
+export default function PayrollProviderPage() {
+  const organizationId = useOrganizationId()
+  const [provider, setProvider] = useState<PayrollProvider>("gusto")
+  const [settings, setSettings] = useState<ProviderSettingsInput>(EMPTY_SETTINGS)
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+  const [locations, setLocations] = useState<Location[]>([])
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [externalIds, setExternalIds] = useState<Record<string, string>>({})
+  const [savedIds, setSavedIds] = useState<Record<string, string>>({})
+  const [payDate, setPayDate] = useState("")
+  const [report, setReport] = useState<ProviderExportReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const formatter = PROVIDER_FORMATTERS[provider]
+
+  const call = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await authFetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(body.details || body.error || `Request failed (${res.status})`)
+    return body
+  }, [])
+
+  const load = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const [settingsBody, idsBody] = await Promise.all([
+        call(`/api/organizations/${organizationId}/payroll-provider/settings?provider=${provider}`),
+        call(`/api/organizations/${organizationId}/payroll-provider/employee-ids?provider=${provider}`),
+      ])
+      const saved = settingsBody.settings as ProviderSettings | null
+      setSettings(
+        saved
+          ? {
+              company_code: saved.company_code,
+              batch_id: saved.batch_id,
+              earning_codes: saved.earning_codes || {},
+              location_codes: saved.location_codes || {},
+            }
+          : EMPTY_SETTINGS,
+      )
+      setSavedAt(saved?.updated_at || null)
+      setLocations(settingsBody.locations || [])
+      setEmployees(idsBody.employees || [])
+      const ids = Object.fromEntries(
+        ((idsBody.ids || []) as { employee_id: string; external_id: string }[]).map((row) => [
+          row.employee_id,
+          row.external_id,
+        ]),
+      )
+      setSavedIds(ids)
+      setExternalIds(ids)
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading payroll provider setup:", err)
+      setError(err instanceof Error ? err.message : "Failed to load payroll provider setup")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, provider, call])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      setNotice(await action())
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveSettings = () =>
+    run(async () => {
+      await call(`/api/organizations/${organizationId}/payroll-provider/settings`, {
+        method: "PUT",
+        body: JSON.stringify({ provider, ...settings }),
+      })
+      return `${formatter.label} settings saved`
+    })
+
+  const changedIds = employees.filter((e) => (externalIds[e.id] || "") !== (savedIds[e.id] || ""))
+
+  const saveIds = () =>
+    run(async () => {
+      await call(`/api/organizations/${organizationId}/payroll-provider/employee-ids`, {
+        method: "PUT",
+        body: JSON.stringify({
+          provider,
+          ids: Object.fromEntries(changedIds.map((e) => [e.id, externalIds[e.id]?.trim() || null])),
+        }),
+      })
+      return `${formatter.externalId.label}s saved`
+    })
+
+  const validate = () =>
+    run(async () => {
+      const body = await call(
+        `/api/organizations/${organizationId}/payroll-provider?provider=${provider}&payDate=${payDate}`,
+      )
+      setReport(body.report)
+      return body.report.ok ? "Ready to export" : ""
+    })
+
+  const download = () =>
+    run(async () => {
+      const res = await authFetch(
+        `/api/organizations/${organizationId}/payroll-provider/file?provider=${provider}&payDate=${payDate}`,
+      )
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        if (body.report) setReport(body.report)
+        throw new Error(body.details || body.error || `Export failed (${res.status})`)
+      }
+      const disposition = res.headers.get("Content-Disposition") || ""
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = disposition.match(/filename="(.+)"/)?.[1] || `${provider}-${payDate}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+      setReport(null)
+      return `File downloaded. Import it into ${formatter.label}.`
+    })
+
+  if (!organizationId || loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading payroll provider setup...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Payroll provider export</h1>
+          <div className="text-sm text-gray-600 mt-1">
+            Turn a pay date&apos;s approved payroll into an import file for your payroll processor instead of re-keying it.
+          </div>
+        </div>
+        <select
+          className="border rounded p-2 text-sm"
+          value={provider}
+          onChange={(e) => {
+            setProvider(e.target.value as PayrollProvider)
+            setReport(null)
+            setNotice("")
+          }}
+        >
+          {PAYROLL_PROVIDERS.map((p) => (
+            <option key={p} value={p}>
+              {PROVIDER_FORMATTERS[p].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <section className="border rounded p-4 space-y-4">
+        <h2 className="font-semibold">Export</h2>
+        <div className="flex items-end gap-2">
+          <label className="block text-sm">
+            <span className="font-medium">Pay date</span>
+            <input
+              type="date"
+              className="mt-1 block border rounded p-2"
+              value={payDate}
+              onChange={(e) => {
+                setPayDate(e.target.value)
+                setReport(null)
+              }}
+            />
+          </label>
+          <button
+            type="button"
+            className="px-3 py-2 rounded border text-sm disabled:text-gray-400"
+            disabled={busy || !payDate}
+            onClick={validate}
+          >
+            Check
+          </button>
+          <button
+            type="button"
+            className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+            disabled={busy || !report?.ok}
+            onClick={download}
+          >
+            Download {formatter.label} file
+          </button>
+        </div>
+
+        {report && (
+          <div className="space-y-3 text-sm">
+            {report.errors.length > 0 && (
+              <ul className="p-3 rounded bg-red-50 text-red-700 list-disc list-inside">
+                {report.errors.map((message, i) => (
+                  <li key={i}>{message}</li>
+                ))}
+              </ul>
+            )}
+            {report.warnings.length > 0 && (
+              <ul className="p-3 rounded bg-amber-50 text-amber-800 list-disc list-inside">
+                {report.warnings.map((message, i) => (
+                  <li key={i}>{message}</li>
+                ))}
+              </ul>
+            )}
+            <div>
+              {report.totals.employees} employees · {report.totals.lines} lines · {report.totals.hours.toFixed(2)} hours ·{" "}
+              {formatMoney(report.totals.amount)} gross
+            </div>
+            {report.lines.length > 0 && (
+              <table className="w-full border">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="p-2">Employee</th>
+                    <th className="p-2">{formatter.externalId.label}</th>
+                    <th className="p-2">Location</th>
+                    {EARNING_KINDS.map((kind) => (
+                      <th key={kind} className="p-2 text-right">
+                        {EARNING_LABELS[kind]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.lines.map((line) => (
+                    <tr key={`${line.employeeId}|${line.locationName}|${line.rate ?? ""}`} className="border-t">
+                      <td className="p-2">{line.name}</td>
+                      <td className="p-2">
+                        {line.externalId || (
+                          <span className={formatter.externalId.required ? "text-red-600" : "text-gray-400"}>
+                            Missing
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {line.locationName}
+                        {line.locationCode && <span className="text-gray-500"> · {line.locationCode}</span>}
+                      </td>
+                      {EARNING_KINDS.map((kind) => (
+                        <td key={kind} className="p-2 text-right">
+                          {HOURS_KINDS.includes(kind)
+                            ? formatHours(line.earnings[kind])
+                            : line.earnings[kind]
+                              ? formatMoney(line.earnings[kind])
+                              : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {report.previousExports.length > 0 && (
+              <div className="text-gray-500">
+                Previous files:{" "}
+                {report.previousExports
+                  .map((e) => `${new Date(e.created_at).toLocaleString()} (${formatMoney(Number(e.total_amount))})`)
+                  .join(", ")}
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="border rounded p-4 space-y-4">
+        <h2 className="font-semibold">{formatter.label} settings</h2>
+        {(formatter.companyCode || formatter.batchId) && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {formatter.companyCode && (
+              <label className="block text-sm">
+                <span className="font-medium">{formatter.companyCode.label}</span>
+                <input
+                  className="mt-1 w-full border rounded p-2"
+                  value={settings.company_code || ""}
+                  onChange={(e) => setSettings({ ...settings, company_code: e.target.value.trim() || null })}
+                />
+                <span className="text-xs text-gray-500">{formatter.companyCode.hint}</span>
+              </label>
+            )}
+            {formatter.batchId && (
+              <label className="block text-sm">
+                <span className="font-medium">{formatter.batchId.label}</span>
+                <input
+                  className="mt-1 w-full border rounded p-2"
+                  value={settings.batch_id || ""}
+                  onChange={(e) => setSettings({ ...settings, batch_id: e.target.value.trim() || null })}
+                />
+                <span className="text-xs text-gray-500">{formatter.batchId.hint}</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        <div>
+          <div className="text-sm font-medium mb-2">Earning codes</div>
+          <div className="text-xs text-gray-500 mb-2">
+            The {formatter.label} earning code each kind of pay is imported under. Blank uses the default shown.
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            {formatter.mappedEarnings.map((kind) => (
+              <label key={kind} className="block text-sm">
+                <span>{EARNING_LABELS[kind]}</span>
+                <input
+                  className="mt-1 w-full border rounded p-2"
+                  placeholder={formatter.defaultEarningCodes[kind]}
+                  value={settings.earning_codes[kind] || ""}
+                  onChange={(e) =>
+                    setSettings({ ...settings, earning_codes: { ...settings.earning_codes, [kind]: e.target.value } })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {provider !== "gusto" && locations.length > 0 && (
+          <div>
+            <div className="text-sm font-medium mb-2">Department codes</div>
+            <div className="text-xs text-gray-500 mb-2">
+              Optional. Pay for each location is charged to this {provider === "adp" ? "department" : "org unit"}.
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              {locations.map((location) => (
+                <label key={location.id} className="block text-sm">
+                  <span>{location.name || location.id}</span>
+                  <input
+                    className="mt-1 w-full border rounded p-2"
+                    value={settings.location_codes[location.id] || ""}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        location_codes: { ...settings.location_codes, [location.id]: e.target.value },
+                      })
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+            disabled={busy}
+            onClick={saveSettings}
+          >
+            Save {formatter.label} settings
+          </button>
+          {savedAt && <span className="text-xs text-gray-500">Saved {new Date(savedAt).toLocaleString()}</span>}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="font-semibold">{formatter.externalId.label}s</h2>
+            <div className="text-xs text-gray-500">{formatter.externalId.hint}</div>
+          </div>
+          <button
+            type="button"
+            className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+            disabled={busy || changedIds.length === 0}
+            onClick={saveIds}
+          >
+            Save {changedIds.length > 0 ? `${changedIds.length} ` : ""}changes
+          </button>
+        </div>
+        <table className="w-full text-sm border">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="p-2">Employee</th>
+              <th className="p-2">{formatter.externalId.label}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {employees.length === 0 && (
+              <tr>
+                <td colSpan={2} className="p-4 text-center text-gray-500">
+                  No active employees.
+                </td>
+              </tr>
+            )}
+            {employees.map((employee) => (
+              <tr key={employee.id} className="border-t">
+                <td className="p-2">{employeeName(employee)}</td>
+                <td className="p-2">
+                  <input
+                    className="border rounded p-1 w-48"
+                    value={externalIds[employee.id] || ""}
+                    onChange={(e) => setExternalIds({ ...externalIds, [employee.id]: e.target.value })}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { authFetch } from "@/lib/supabase/client"
+import { useOrganizationId } from "@/lib/hooks/useOrganizationId"
+import type { MissingStatus, MissingSubmission, ReminderSettings, ReminderSettingsInput } from "@/lib/payroll/reminders"
+
+const STATUS_LABELS: Record<MissingStatus, string> = {
+  not_submitted: "Not submitted",
+  draft: "Draft",
+  rejected: "Rejected",
+}
+
+const cutoffLabel = (days: number) =>
+  days > 0 ? `${days} day${days === 1 ? "" : "s"} left` : days === 0 ? "Due today" : `${-days} day${days === -1 ? "" : "s"} late`
+
+export default function PayrollRemindersPage() {
+  const organizationId = useOrganizationId()
+  const [settings, setSettings] = useState<ReminderSettingsInput | null>(null)
+  const [offsetsText, setOffsetsText] = useState("")
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+  const [missing, setMissing] = useState<MissingSubmission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const call = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await authFetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(body.details || body.error || `Request failed (${res.status})`)
+    return body
+  }, [])
+
+  const load = useCallback(async () => {
+    if (!organizationId) return
+    try {
+      const body = await call(`/api/organizations/${organizationId}/payroll-reminders`)
+      const saved = body.settings as ReminderSettings
+      setSettings({
+        enabled: saved.enabled,
+        cutoff_days: saved.cutoff_days,
+        reminder_offsets: saved.reminder_offsets,
+        escalation_offset: saved.escalation_offset,
+        send_email: saved.send_email,
+      })
+      setOffsetsText(saved.reminder_offsets.join(", "))
+      setSavedAt(saved.updated_at)
+      setMissing(body.missing || [])
+      setError("")
+    } catch (err) {
+      console.error("❌ Error loading payroll reminders:", err)
+      setError(err instanceof Error ? err.message : "Failed to load payroll reminders")
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId, call])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      setNotice(await action())
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const save = () =>
+    run(async () => {
+      const reminder_offsets = offsetsText
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number)
+      await call(`/api/organizations/${organizationId}/payroll-reminders`, {
+        method: "PUT",
+        body: JSON.stringify({ ...settings, reminder_offsets }),
+      })
+      return "Reminder settings saved"
+    })
+
+  const sendNow = () =>
+    run(async () => {
+      const body = await call(`/api/payroll/reminders?organizationId=${organizationId}`, { method: "POST" })
+      return `Sent ${body.reminders} reminder${body.reminders === 1 ? "" : "s"} and ${body.escalations} escalation${
+        body.escalations === 1 ? "" : "s"
+      }${body.emailFailed > 0 ? ` (${body.emailFailed} email${body.emailFailed === 1 ? "" : "s"} failed)` : ""}`
+    })
+
+  if (!organizationId || loading || !settings) {
+    return (
+      <div className="p-6">
+        {error ? (
+          <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>
+        ) : (
+          <div className="text-center">Loading payroll reminders...</div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Payroll reminders</h1>
+        <div className="text-sm text-gray-600 mt-1">
+          Remind location managers to submit payroll before the cutoff, then tell admins about locations still missing.
+          Reminders go to each user&apos;s notification inbox and, if enabled, by email.
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+      {notice && <div className="p-3 rounded bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+      <section className="border rounded p-4 space-y-4">
+        <h2 className="font-semibold">Schedule</h2>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+          />
+          <span className="font-medium">Send reminders</span>
+        </label>
+        <div className="grid gap-4 md:grid-cols-3">
+          <label className="block text-sm">
+            <span className="font-medium">Cutoff (days before pay date)</span>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              className="mt-1 w-full border rounded p-2"
+              value={settings.cutoff_days}
+              onChange={(e) => setSettings({ ...settings, cutoff_days: Number(e.target.value) })}
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium">Remind managers (days before cutoff)</span>
+            <input
+              className="mt-1 w-full border rounded p-2"
+              placeholder="3, 1, 0"
+              value={offsetsText}
+              onChange={(e) => setOffsetsText(e.target.value)}
+            />
+            <span className="text-xs text-gray-500">0 is the day of the cutoff</span>
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium">Escalate to admins (days before cutoff)</span>
+            <input
+              type="number"
+              min={-14}
+              max={30}
+              className="mt-1 w-full border rounded p-2"
+              value={settings.escalation_offset}
+              onChange={(e) => setSettings({ ...settings, escalation_offset: Number(e.target.value) })}
+            />
+            <span className="text-xs text-gray-500">Negative to escalate after the cutoff has passed</span>
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={settings.send_email}
+            onChange={(e) => setSettings({ ...settings, send_email: e.target.checked })}
+          />
+          <span>Also send reminders by email</span>
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:bg-gray-400"
+            disabled={busy}
+            onClick={save}
+          >
+            Save reminder settings
+          </button>
+          <button
+            type="button"
+            className="px-3 py-2 rounded border text-sm disabled:text-gray-400"
+            disabled={busy || !savedAt}
+            onClick={sendNow}
+          >
+            Send due reminders now
+          </button>
+          {savedAt && <span className="text-xs text-gray-500">Saved {new Date(savedAt).toLocaleString()}</span>}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="font-semibold">Missing for the next pay date</h2>
+        <table className="w-full text-sm border">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="p-2">Location</th>
+              <th className="p-2">Group</th>
+              <th className="p-2">Pay date</th>
+              <th className="p-2">Cutoff</th>
+              <th className="p-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {missing.length === 0 && (
+              <tr>
+                <td colSpan={5} className="p-4 text-center text-gray-500">
+                  Every location has submitted.
+                </td>
+              </tr>
+            )}
+            {missing.map((item) => (
+              <tr key={`${item.locationId}|${item.payrollGroup}|${item.payDate}`} className="border-t">
+                <td className="p-2">{item.locationName}</td>
+                <td className="p-2">{item.payrollGroup}</td>
+                <td className="p-2">{item.payDate}</td>
+                <td className={`p-2 ${item.daysToCutoff < 0 ? "text-red-600" : ""}`}>
+                  {item.cutoff} · {cutoffLabel(item.daysToCutoff)}
+                </td>
+                <td className="p-2">
+                  {STATUS_LABELS[item.status]}
+                  {item.rejectionNote && <span className="text-gray-500"> · {item.rejectionNote}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  )
+}
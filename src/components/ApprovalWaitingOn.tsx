@@ -0,0 +1,28 @@
+'use client'
+
+import { Clock } from 'lucide-react'
+import type { ApprovalStatus } from '@/lib/payroll/submitClient'
+
+interface ApprovalWaitingOnProps {
+  approval: ApprovalStatus
+  className?: string
+}
+
+// "Waiting on <step>: <approvers>" for a pending payroll submission
+export default function ApprovalWaitingOn({ approval, className = '' }: ApprovalWaitingOnProps) {
+  if (approval.currentStep === null) return null
+  const step = approval.steps[approval.currentStep]
+  const required = approval.steps.filter((s) => s.required)
+  const names = approval.pendingApprovers.map((a) => a.name || a.email)
+
+  return (
+    <div className={`flex items-start gap-2 text-xs text-gray-600 pt-2 ${className}`}>
+      <Clock size={14} className="mt-0.5 shrink-0" />
+      <span>
+        Waiting on <span className="font-medium">{step.name}</span>
+        {required.length > 1 && ` (step ${required.indexOf(step) + 1} of ${required.length})`}
+        {names.length > 0 ? `: ${names.join(', ')}` : ': no eligible approver'}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Bell } from 'lucide-react'
+import { fetchNotifications, markNotificationsRead, type UserNotification } from '@/lib/notifications/inboxClient'
+
+const REFRESH_MS = 5 * 60 * 1000
+
+interface NotificationInboxProps {
+  className?: string
+}
+
+// Bell with the signed-in user's unread count; opens their recent notifications
+export default function NotificationInbox({ className = '' }: NotificationInboxProps) {
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [unread, setUnread] = useState(0)
+  const [open, setOpen] = useState(false)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const result = await fetchNotifications()
+      setNotifications(result.notifications)
+      setUnread(result.unread)
+    } catch (err) {
+      console.error('❌ Error loading notifications:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+    const timer = setInterval(load, REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [load])
+
+  useEffect(() => {
+    if (!open) return
+    const close = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', close)
+    return () => document.removeEventListener('mousedown', close)
+  }, [open])
+
+  const markRead = async (ids?: string[]) => {
+    const now = new Date().toISOString()
+    setNotifications((current) =>
+      current.map((n) => (!n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: now } : n)),
+    )
+    setUnread((count) => (ids ? Math.max(0, count - ids.length) : 0))
+    try {
+      await markNotificationsRead(ids)
+    } catch (err) {
+      console.error('❌ Error marking notifications read:', err)
+      load()
+    }
+  }
+
+  return (
+    <div ref={panelRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        className="relative p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+        onClick={() => setOpen(!open)}
+        aria-label={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+      >
+        <Bell size={20} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white border rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-3 py-2 border-b">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unread > 0 && (
+              <button type="button" className="text-xs text-blue-600 hover:text-blue-800" onClick={() => markRead()}>
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 && <div className="p-4 text-sm text-center text-gray-500">No notifications</div>}
+          {notifications.map((n) => {
+            const content = (
+              <>
+                <div className={`text-sm ${n.read_at ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>{n.title}</div>
+                <div className="text-xs text-gray-600 mt-0.5 whitespace-pre-line">{n.body}</div>
+                <div className="text-[11px] text-gray-400 mt-1">{new Date(n.created_at).toLocaleString()}</div>
+              </>
+            )
+            const onClick = () => {
+              if (!n.read_at) markRead([n.id])
+              setOpen(false)
+            }
+            return (
+              <div key={n.id} className={`border-b last:border-b-0 ${n.read_at ? '' : 'bg-blue-50'}`}>
+                {n.link ? (
+                  <Link href={n.link} className="block px-3 py-2 hover:bg-gray-50" onClick={onClick}>
+                    {content}
+                  </Link>
+                ) : (
+                  <button type="button" className="block w-full text-left px-3 py-2 hover:bg-gray-50" onClick={onClick}>
+                    {content}
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
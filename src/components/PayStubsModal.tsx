@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Copy, Download, FileText, X } from 'lucide-react'
+import { downloadPayStubs, fetchPayStubLinks, type PayStubLink } from '@/lib/payroll/submitClient'
+
+interface PayStubsModalProps {
+  submissionId: string
+  locationName: string
+  payDate: string
+  onClose: () => void
+}
+
+// Earnings statements for an approved submission: the whole location as one
+// PDF, a single employee's, or a signed link to send the employee
+export default function PayStubsModal({ submissionId, locationName, payDate, onClose }: PayStubsModalProps) {
+  const [links, setLinks] = useState<PayStubLink[] | null>(null)
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchPayStubLinks(submissionId)
+      .then((result) => {
+        if (!cancelled) setLinks(result)
+      })
+      .catch((err) => {
+        console.error('❌ Error loading pay stub links:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load pay stubs')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [submissionId])
+
+  const download = async (employeeId?: string) => {
+    setBusy(employeeId || 'all')
+    setError('')
+    try {
+      await downloadPayStubs(submissionId, employeeId)
+    } catch (err) {
+      console.error('❌ Error downloading pay stubs:', err)
+      setError(err instanceof Error ? err.message : 'Download failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const copy = async (link: PayStubLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url)
+      setCopied(link.employeeId)
+    } catch {
+      setError('Could not copy the link to the clipboard')
+    }
+  }
+
+  const expires = links?.[0] ? new Date(links[0].expiresAt).toLocaleDateString('en-US') : ''
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-auto">
+        <div className="sticky top-0 bg-white border-b p-6 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold mb-1">Pay Stubs</h2>
+            <p className="text-gray-600">
+              {locationName} · Pay date {payDate}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 text-sm">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-gray-600">
+              Employee links open their own statement without logging in
+              {expires ? ` and work until ${expires}` : ''}.
+            </p>
+            <button
+              onClick={() => download()}
+              disabled={!!busy || !links?.length}
+              className="px-4 py-2 rounded-lg font-semibold text-white bg-blue-600 flex items-center gap-2 whitespace-nowrap disabled:opacity-50"
+            >
+              <Download size={16} />
+              {busy === 'all' ? 'Preparing…' : 'Download All'}
+            </button>
+          </div>
+
+          {error && <div className="p-3 rounded-lg bg-red-50 text-red-700">{error}</div>}
+
+          {links === null && !error && <div className="text-gray-500">Loading pay stubs…</div>}
+          {links?.length === 0 && <div className="text-gray-500">No approved employees on this payroll.</div>}
+
+          {links && links.length > 0 && (
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Employee</th>
+                  <th className="py-2 text-right">Statement</th>
+                </tr>
+              </thead>
+              <tbody>
+                {links.map((link) => (
+                  <tr key={link.employeeId} className="border-b last:border-0">
+                    <td className="py-2 font-medium text-gray-900">
+                      <div className="flex items-center gap-2">
+                        <FileText size={14} className="text-gray-400" />
+                        {link.employeeName}
+                      </div>
+                    </td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => copy(link)}
+                          className="px-3 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 flex items-center gap-1"
+                        >
+                          <Copy size={14} />
+                          {copied === link.employeeId ? 'Copied' : 'Copy link'}
+                        </button>
+                        <button
+                          onClick={() => download(link.employeeId)}
+                          disabled={!!busy}
+                          className="px-3 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <Download size={14} />
+                          {busy === link.employeeId ? 'Preparing…' : 'PDF'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
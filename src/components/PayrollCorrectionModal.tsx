@@ -0,0 +1,297 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { RotateCcw, X } from 'lucide-react'
+import {
+  createPayrollCorrection,
+  fetchCorrections,
+  type CorrectionEntryInput,
+  type CorrectionRun,
+  type CurrentEntry,
+} from '@/lib/payroll/submitClient'
+
+interface PayrollCorrectionModalProps {
+  submissionId: string
+  locationName: string
+  payDate: string
+  onClose: () => void
+  // Called with the new pending correction's id
+  onCreated: (correctionId: string) => void
+}
+
+interface Draft {
+  hours: string
+  units: string
+  amount: string
+  notes: string
+  remove: boolean
+}
+
+const formatCurrency = (amount: number | null) =>
+  (amount ?? 0).toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+const toField = (value: number | null) => (value == null ? '' : String(value))
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value))
+
+const draftOf = (entry: CurrentEntry): Draft => ({
+  hours: toField(entry.hours),
+  units: toField(entry.units),
+  amount: toField(entry.amount),
+  notes: '',
+  remove: false,
+})
+
+const nameOf = (entry: CurrentEntry) =>
+  entry.employee_name || [entry.employee_first_name, entry.employee_last_name].filter(Boolean).join(' ') || 'Unknown'
+
+// Approved payroll is locked; this opens a correction run that reverses the
+// changed employees and pays them the corrected values once approved
+export default function PayrollCorrectionModal({
+  submissionId,
+  locationName,
+  payDate,
+  onClose,
+  onCreated,
+}: PayrollCorrectionModalProps) {
+  const [current, setCurrent] = useState<CurrentEntry[] | null>(null)
+  const [corrections, setCorrections] = useState<CorrectionRun[]>([])
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({})
+  const [reason, setReason] = useState('')
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchCorrections(submissionId)
+      .then((result) => {
+        if (cancelled) return
+        setCurrent(result.current)
+        setCorrections(result.corrections)
+        setDrafts(Object.fromEntries(result.current.map((entry) => [entry.employee_id, draftOf(entry)])))
+      })
+      .catch((err) => {
+        console.error('❌ Error loading corrections:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load approved payroll')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [submissionId])
+
+  // Employees whose values differ from what was approved
+  const changes = useMemo<CorrectionEntryInput[]>(() => {
+    return (current || []).flatMap((entry) => {
+      const draft = drafts[entry.employee_id]
+      if (!draft) return []
+      const base = draftOf(entry)
+      const edited =
+        draft.remove || draft.hours !== base.hours || draft.units !== base.units || draft.amount !== base.amount
+      if (!edited) return []
+
+      const hoursChanged = draft.hours !== base.hours
+      return [
+        {
+          employee_id: entry.employee_id,
+          employee_name: entry.employee_name,
+          employee_first_name: entry.employee_first_name,
+          employee_last_name: entry.employee_last_name,
+          employee_type: entry.employee_type,
+          hours: toNumber(draft.hours),
+          // The overtime split no longer holds once hours change
+          regular_hours: hoursChanged ? null : entry.regular_hours,
+          overtime_hours: hoursChanged ? null : entry.overtime_hours,
+          double_time_hours: hoursChanged ? null : entry.double_time_hours,
+          units: toNumber(draft.units),
+          fixed_count: entry.fixed_count,
+          adjustment_amount: entry.adjustment_amount,
+          rate: entry.rate,
+          amount: toNumber(draft.amount) ?? 0,
+          notes: draft.notes.trim() || null,
+          remove: draft.remove,
+        },
+      ]
+    })
+  }, [current, drafts])
+
+  const netChange = changes.reduce((sum, change) => {
+    const entry = current?.find((e) => e.employee_id === change.employee_id)
+    return sum + (change.remove ? 0 : change.amount) - (entry?.amount || 0)
+  }, 0)
+
+  const pending = corrections.find((c) => c.status === 'pending' || c.status === 'draft')
+  const invalidAmount = changes.some((c) => !c.remove && !Number.isFinite(c.amount))
+
+  const update = (employeeId: string, patch: Partial<Draft>) =>
+    setDrafts((prev) => ({ ...prev, [employeeId]: { ...prev[employeeId], ...patch } }))
+
+  const submit = async () => {
+    setSaving(true)
+    setError('')
+    try {
+      const result = await createPayrollCorrection(submissionId, reason, changes)
+      onCreated(result.submission_id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create correction')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-auto">
+        <div className="sticky top-0 bg-white border-b p-6 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold mb-1">Correct Approved Payroll</h2>
+            <p className="text-gray-600">
+              {locationName} · Pay date {payDate}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 text-sm">
+          <p className="text-gray-600">
+            This payroll is approved and locked. Change the employees that were wrong: the correction reverses what
+            they were paid and pays the corrected values, and goes to approval like any other run.
+          </p>
+
+          {error && <div className="p-3 rounded bg-red-50 text-red-700">{error}</div>}
+          {pending && (
+            <div className="p-3 rounded bg-amber-50 text-amber-800">
+              A correction ({pending.correction_reason}) is already waiting for approval. Approve or reject it first.
+            </div>
+          )}
+
+          {corrections.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-2">Earlier corrections</h3>
+              <div className="space-y-1">
+                {corrections.map((run) => (
+                  <div key={run.id} className="flex justify-between p-2 bg-gray-50 rounded border">
+                    <span>
+                      {run.correction_reason} · <span className="capitalize">{run.status}</span>
+                    </span>
+                    <span className="font-medium">{formatCurrency(run.total_amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!current ? (
+            !error && <div className="text-gray-500">Loading approved payroll…</div>
+          ) : (
+            <table className="w-full border">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="p-2">Employee</th>
+                  <th className="p-2">Hours</th>
+                  <th className="p-2">Units</th>
+                  <th className="p-2">Amount</th>
+                  <th className="p-2">Note</th>
+                  <th className="p-2">Remove</th>
+                </tr>
+              </thead>
+              <tbody>
+                {current.map((entry) => {
+                  const draft = drafts[entry.employee_id]
+                  if (!draft) return null
+                  return (
+                    <tr key={entry.employee_id} className={`border-t ${draft.remove ? 'opacity-50' : ''}`}>
+                      <td className="p-2">
+                        <div className="font-medium">{nameOf(entry)}</div>
+                        <div className="text-xs text-gray-500">Approved {formatCurrency(entry.amount)}</div>
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          className="w-20 border rounded p-1"
+                          value={draft.hours}
+                          disabled={draft.remove}
+                          onChange={(e) => update(entry.employee_id, { hours: e.target.value })}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          className="w-20 border rounded p-1"
+                          value={draft.units}
+                          disabled={draft.remove}
+                          onChange={(e) => update(entry.employee_id, { units: e.target.value })}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          className="w-28 border rounded p-1"
+                          value={draft.amount}
+                          disabled={draft.remove}
+                          onChange={(e) => update(entry.employee_id, { amount: e.target.value })}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          className="w-full border rounded p-1"
+                          value={draft.notes}
+                          disabled={draft.remove}
+                          onChange={(e) => update(entry.employee_id, { notes: e.target.value })}
+                        />
+                      </td>
+                      <td className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={draft.remove}
+                          onChange={(e) => update(entry.employee_id, { remove: e.target.checked })}
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <label className="block">
+            <span className="font-medium">Reason</span>
+            <input
+              className="mt-1 w-full border rounded p-2"
+              placeholder="E.g. 'Overtime for Jane Doe was left off'"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </label>
+
+          <div className="flex items-center justify-between">
+            <div className="text-gray-600">
+              {changes.length} employee{changes.length === 1 ? '' : 's'} changed · net{' '}
+              <span className={`font-semibold ${netChange < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                {netChange > 0 ? '+' : ''}
+                {formatCurrency(netChange)}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={onClose} className="px-4 py-2 rounded-lg border">
+                Cancel
+              </button>
+              <button
+                onClick={submit}
+                disabled={saving || !!pending || changes.length === 0 || invalidAmount || !reason.trim()}
+                className="px-4 py-2 rounded-lg font-semibold text-white bg-amber-600 flex items-center gap-2 disabled:opacity-50"
+              >
+                <RotateCcw size={16} />
+                {saving ? 'Creating…' : 'Create Correction'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, TrendingDown, TrendingUp } from 'lucide-react'
+import {
+  fetchVarianceReport,
+  type VarianceFlag,
+  type VarianceReport,
+} from '@/lib/payroll/submitClient'
+
+interface PayrollVarianceReportProps {
+  submissionId: string
+}
+
+const FLAG_LABELS: Record<VarianceFlag, string> = {
+  new_employee: 'New employee',
+  rate_change: 'Rate changed',
+  hours_spike: 'Hours spike',
+  amount_spike: 'Pay spike',
+  amount_drop: 'Pay drop',
+  zero_pay_regular: 'Regular not paid',
+  duplicate_employee: 'Paid at another location',
+}
+
+const formatCurrency = (amount: number | null) =>
+  (amount ?? 0).toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+function Change({ pct }: { pct: number | null }) {
+  if (pct == null) return <span className="text-gray-400">no history</span>
+  const up = pct >= 0
+  const Icon = up ? TrendingUp : TrendingDown
+  return (
+    <span className={`inline-flex items-center gap-1 ${Math.abs(pct) > 0.25 ? 'text-amber-700 font-medium' : 'text-gray-600'}`}>
+      <Icon size={12} />
+      {up ? '+' : ''}
+      {Math.round(pct * 100)}%
+    </span>
+  )
+}
+
+// Run and per-employee comparison with the location's recent pay dates, for the approval modals
+export default function PayrollVarianceReport({ submissionId }: PayrollVarianceReportProps) {
+  const [report, setReport] = useState<VarianceReport | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setReport(null)
+    setError('')
+    fetchVarianceReport(submissionId)
+      .then((result) => {
+        if (!cancelled) setReport(result)
+      })
+      .catch((err) => {
+        console.error('❌ Error loading variance report:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load variance report')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [submissionId])
+
+  if (error) return <div className="text-sm text-red-600">Variance check unavailable: {error}</div>
+  if (!report) return <div className="text-sm text-gray-500">Checking against prior pay periods…</div>
+
+  const flagged = report.employees.filter((e) => e.flags.length > 0)
+  const periods = report.comparedPayDates.length
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Variance vs. prior periods</h3>
+        <span className="text-xs text-gray-500">
+          {periods > 0 ? `Average of last ${periods} pay date${periods === 1 ? '' : 's'}` : 'No prior payroll at this location'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <div className="text-xs text-gray-500">Total</div>
+          <div className="font-semibold">{formatCurrency(report.amount.current)}</div>
+          <div className="text-xs">
+            avg {formatCurrency(report.amount.average)} · <Change pct={report.amount.changePct} />
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Hours</div>
+          <div className="font-semibold">{report.hours.current ?? '—'}</div>
+          <div className="text-xs">
+            avg {report.hours.average ?? '—'} · <Change pct={report.hours.changePct} />
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Employees</div>
+          <div className="font-semibold">{report.employeeCount.current}</div>
+          <div className="text-xs">
+            avg {report.employeeCount.average ?? '—'} · <Change pct={report.employeeCount.changePct} />
+          </div>
+        </div>
+      </div>
+
+      {flagged.length === 0 ? (
+        <div className="text-green-700">No employee flags.</div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(report.flagCounts) as VarianceFlag[]).map((flag) => (
+              <span key={flag} className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs">
+                {FLAG_LABELS[flag]}: {report.flagCounts[flag]}
+              </span>
+            ))}
+          </div>
+          <div className="max-h-64 overflow-y-auto divide-y border rounded">
+            {flagged.map((employee) => (
+              <div key={employee.employeeId} className="p-2">
+                <div className="flex justify-between">
+                  <span className="font-medium flex items-center gap-1">
+                    <AlertTriangle size={14} className="text-amber-600" />
+                    {employee.name}
+                  </span>
+                  <span>
+                    {formatCurrency(employee.amount.current)}
+                    {employee.amount.average != null && (
+                      <span className="text-xs text-gray-500"> (avg {formatCurrency(employee.amount.average)})</span>
+                    )}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-600 mt-1">
+                  {employee.flags.map((flag) => FLAG_LABELS[flag]).join(' · ')}
+                  {employee.flags.includes('rate_change') &&
+                    ` · ${formatCurrency(employee.previousRate)} → ${formatCurrency(employee.rate)}`}
+                  {employee.flags.includes('hours_spike') &&
+                    ` · ${employee.hours.current} hrs vs avg ${employee.hours.average}`}
+                  {employee.duplicateLocations.length > 0 && ` · ${employee.duplicateLocations.join(', ')}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, CheckCircle2, Clock, RefreshCw } from 'lucide-react'
+import { authFetch } from '@/lib/supabase/client'
+import { cn } from '@/lib/utils'
+
+interface SyncStatusResponse {
+  running: boolean
+  lastRun: { status: 'running' | 'succeeded' | 'partial' | 'failed'; error_text: string | null } | null
+  lastSuccessAt: string | null
+  minutesSinceSuccess: number | null
+  stale: boolean
+}
+
+interface SyncStatusBadgeProps {
+  organizationId: string | null
+  // Bump to force a refetch, e.g. after the user clicks Sync
+  refreshKey?: number
+  className?: string
+}
+
+const POLL_INTERVAL_MS = 60_000
+
+function formatAgo(minutes: number): string {
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`
+  const days = Math.floor(hours / 24)
+  return `${days} day${days === 1 ? '' : 's'} ago`
+}
+
+export default function SyncStatusBadge({ organizationId, refreshKey = 0, className }: SyncStatusBadgeProps) {
+  const [status, setStatus] = useState<SyncStatusResponse | null>(null)
+
+  useEffect(() => {
+    if (!organizationId) return
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const res = await authFetch(`/api/sync/status?organizationId=${encodeURIComponent(organizationId)}`)
+        if (!res.ok) return
+        const json: SyncStatusResponse = await res.json()
+        if (!cancelled) setStatus(json)
+      } catch (e) {
+        console.error('Failed to load sync status', e)
+      }
+    }
+
+    load()
+    const timer = setInterval(load, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [organizationId, refreshKey])
+
+  if (!status) return null
+
+  let label: string
+  let tone: string
+  let Icon = CheckCircle2
+
+  if (status.running) {
+    label = 'Syncing…'
+    tone = 'bg-blue-50 text-blue-700 border-blue-200'
+    Icon = RefreshCw
+  } else if (status.lastRun?.status === 'failed') {
+    label = status.minutesSinceSuccess !== null
+      ? `Sync failed · last good ${formatAgo(status.minutesSinceSuccess)}`
+      : 'Sync failed'
+    tone = 'bg-red-50 text-red-700 border-red-200'
+    Icon = AlertTriangle
+  } else if (status.minutesSinceSuccess === null) {
+    label = 'Never synced'
+    tone = 'bg-gray-100 text-gray-600 border-gray-200'
+    Icon = Clock
+  } else {
+    label = `Last synced ${formatAgo(status.minutesSinceSuccess)}`
+    tone = status.stale || status.lastRun?.status === 'partial'
+      ? 'bg-amber-50 text-amber-700 border-amber-200'
+      : 'bg-green-50 text-green-700 border-green-200'
+    Icon = status.stale || status.lastRun?.status === 'partial' ? Clock : CheckCircle2
+  }
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs font-medium', tone, className)}
+      title={status.lastRun?.error_text || undefined}
+    >
+      <Icon className={cn('h-3 w-3', status.running && 'animate-spin')} />
+      {label}
+    </span>
+  )
+}
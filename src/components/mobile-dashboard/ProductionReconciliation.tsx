@@ -0,0 +1,130 @@
+'use client'
+import { useState } from 'react'
+import { AlertCircle, Ban, UserCheck } from 'lucide-react'
+import type { ReconciliationItem, ResolveInput } from '@/lib/payroll/reconciliationClient'
+
+interface ProductionReconciliationProps {
+  // Open items only
+  items: ReconciliationItem[]
+  employees: { id: string; name: string }[]
+  readOnly?: boolean
+  onResolve: (item: ReconciliationItem, input: ResolveInput) => Promise<void>
+}
+
+function submitterLabel(item: ReconciliationItem): string {
+  if (item.user_email) return item.user_email
+  if (item.submitting_user_id != null) return `Connecteam user ${item.submitting_user_id}`
+  return 'Unknown submitter'
+}
+
+function formatDay(date: string | null): string {
+  if (!date) return 'Unknown date'
+  const [y, m, d] = date.split('-').map(Number)
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+// Production submissions that matched no employee. Each has to be assigned to
+// an employee or marked non-payable before payroll can be submitted.
+export default function ProductionReconciliation({
+  items,
+  employees,
+  readOnly = false,
+  onResolve,
+}: ProductionReconciliationProps) {
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [remember, setRemember] = useState<Record<string, boolean>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  if (items.length === 0) return null
+
+  async function resolve(item: ReconciliationItem, input: Omit<ResolveInput, 'remember'>) {
+    setBusyId(item.id)
+    try {
+      await onResolve(item, { ...input, remember: remember[item.id] ?? true })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="bg-amber-500/10 border border-amber-400/30 rounded-xl p-4 mb-6">
+      <div className="flex items-start gap-2 mb-3">
+        <AlertCircle className="w-5 h-5 text-amber-300 flex-shrink-0 mt-0.5" />
+        <div>
+          <h3 className="text-amber-100 font-semibold">
+            {items.length} unmatched production submission{items.length !== 1 ? 's' : ''}
+          </h3>
+          <p className="text-amber-200/80 text-xs">
+            Assign each to an employee or mark it non-payable before submitting payroll.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item) => {
+          const employeeId = choices[item.id] ?? ''
+          const busy = busyId === item.id
+          return (
+            <div key={item.id} className="bg-white/5 border border-white/10 rounded-lg p-3">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-white font-medium truncate">{submitterLabel(item)}</span>
+                <span className="text-blue-200 text-xs flex-shrink-0 ml-2">{formatDay(item.submission_date)}</span>
+              </div>
+
+              {!readOnly && (
+                <>
+                  <select
+                    value={employeeId}
+                    onChange={(e) => setChoices((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                    disabled={busy}
+                    className="w-full mb-2 px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-blue-400"
+                  >
+                    <option value="" className="bg-slate-800">
+                      Choose an employee…
+                    </option>
+                    {employees.map((emp) => (
+                      <option key={emp.id} value={emp.id} className="bg-slate-800">
+                        {emp.name}
+                      </option>
+                    ))}
+                  </select>
+
+                  <div className="flex gap-2 mb-2">
+                    <button
+                      type="button"
+                      onClick={() => resolve(item, { status: 'assigned', employeeId })}
+                      disabled={busy || !employeeId}
+                      className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-blue-500/30 hover:bg-blue-500/40 border border-blue-400/30 rounded-lg text-blue-100 text-sm font-medium transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <UserCheck className="w-4 h-4" />
+                      Assign
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => resolve(item, { status: 'non_payable' })}
+                      disabled={busy}
+                      className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/20 rounded-lg text-blue-100 text-sm font-medium transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Not payable
+                    </button>
+                  </div>
+
+                  <label className="flex items-center gap-2 text-xs text-blue-200">
+                    <input
+                      type="checkbox"
+                      checked={remember[item.id] ?? true}
+                      onChange={(e) => setRemember((prev) => ({ ...prev, [item.id]: e.target.checked }))}
+                      disabled={busy}
+                    />
+                    Remember for future periods
+                  </label>
+                </>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { ChevronLeft, Menu, X } from 'lucide-react'
+import SyncStatusBadge from '@/components/SyncStatusBadge'
 
 const BRAND_COLORS = {
   primary: '#56B6E9',
@@ -29,6 +30,8 @@ interface ReportHeaderProps {
   title: string
   subtitle: string
   showDateFilter?: boolean
+  // When set, shows the QuickBooks sync status for this organization under the subtitle
+  organizationId?: string | null
   reportPeriod?: "Monthly" | "Custom" | "Year to Date" | "Trailing 12" | "Quarterly"
   month?: number
   year?: number
@@ -47,6 +50,7 @@ export default function ReportHeader({
   title,
   subtitle,
   showDateFilter = true,
+  organizationId = null,
   reportPeriod = "Monthly",
   month = new Date().getMonth() + 1,
   year = new Date().getFullYear(),
@@ -133,6 +137,9 @@ export default function ReportHeader({
             }}>
               {subtitle}
             </p>
+            {organizationId && (
+              <SyncStatusBadge organizationId={organizationId} className="mt-1" />
+            )}
           </div>
 
           {showDateFilter && (
@@ -0,0 +1,266 @@
+'use client'
+import { useState } from 'react'
+import { AlertCircle, Clock, RotateCcw, X } from 'lucide-react'
+import type { LocationPayrollPolicy } from '@/lib/payroll/overtime'
+import {
+  describeShift,
+  effectiveTimes,
+  zonedDateTime,
+  zonedTimestamp,
+  type ShiftAdjustment,
+  type TimesheetShift,
+} from '@/lib/payroll/timesheets'
+import { SHIFT_FLAG_LABELS } from '@/lib/payroll/timesheetClient'
+
+interface TimesheetDrawerProps {
+  employeeName: string
+  shifts: TimesheetShift[]
+  policy: LocationPayrollPolicy
+  periodStart: string
+  periodEnd: string
+  // Submitted/approved payroll can be viewed but not corrected
+  readOnly?: boolean
+  onChange: (shifts: TimesheetShift[]) => void
+  onClose: () => void
+}
+
+interface ShiftForm {
+  key: string
+  start: string
+  end: string
+  breakMinutes: string
+  reason: string
+}
+
+function formatTime(timestamp: number | null, timeZone: string): string {
+  if (timestamp === null) return '—'
+  return new Date(timestamp * 1000).toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' })
+}
+
+function formatDay(date: string | null): string {
+  if (!date) return 'Unknown date'
+  const [y, m, d] = date.split('-').map(Number)
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+// Bottom sheet listing an hourly employee's Connecteam shifts for the period.
+// In-period shifts can be corrected with a reason; the parent recomputes hours.
+export default function TimesheetDrawer({
+  employeeName,
+  shifts,
+  policy,
+  periodStart,
+  periodEnd,
+  readOnly = false,
+  onChange,
+  onClose,
+}: TimesheetDrawerProps) {
+  const [form, setForm] = useState<ShiftForm | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const inPeriod = (shift: TimesheetShift) => !!shift.date && shift.date >= periodStart && shift.date <= periodEnd
+  const periodShifts = shifts.filter(inPeriod)
+  const carriedShifts = shifts.filter((s) => s.date && s.date < periodStart)
+  const paidTotal = periodShifts.reduce((sum, s) => sum + s.paidHours, 0)
+
+  function startEditing(shift: TimesheetShift) {
+    const times = effectiveTimes(shift)
+    setForm({
+      key: shift.key,
+      start: times.start !== null ? zonedDateTime(times.start, policy.timeZone) : '',
+      end: times.end !== null ? zonedDateTime(times.end, policy.timeZone) : '',
+      breakMinutes: String(times.breakMinutes),
+      reason: shift.adjusted?.reason || '',
+    })
+    setFormError(null)
+  }
+
+  function replaceShift(updated: TimesheetShift) {
+    onChange(shifts.map((s) => (s.key === updated.key ? updated : s)))
+    setForm(null)
+  }
+
+  function handleSaveShift() {
+    if (!form) return
+    const shift = shifts.find((s) => s.key === form.key)
+    if (!shift) return
+
+    const start = zonedTimestamp(form.start, policy.timeZone)
+    const end = zonedTimestamp(form.end, policy.timeZone)
+    const breakMinutes = parseInt(form.breakMinutes || '0', 10)
+
+    if (start === null || end === null) {
+      setFormError('Enter both clock-in and clock-out')
+      return
+    }
+    if (end <= start) {
+      setFormError('Clock-out must be after clock-in')
+      return
+    }
+    if (!Number.isInteger(breakMinutes) || breakMinutes < 0) {
+      setFormError('Break must be a whole number of minutes')
+      return
+    }
+    if (!form.reason.trim()) {
+      setFormError('A reason is required for every adjustment')
+      return
+    }
+
+    const adjusted: ShiftAdjustment = { start, end, breakMinutes, reason: form.reason.trim() }
+    replaceShift(describeShift(shift.key, shift.original, adjusted, policy))
+  }
+
+  function handleRevert(shift: TimesheetShift) {
+    replaceShift(describeShift(shift.key, shift.original, null, policy))
+  }
+
+  function renderShift(shift: TimesheetShift, editable: boolean) {
+    const times = effectiveTimes(shift)
+    const editing = form?.key === shift.key
+
+    return (
+      <div key={shift.key} className={`rounded-xl p-4 border ${shift.flags.length > 0 ? 'bg-amber-500/10 border-amber-400/40' : 'bg-white/5 border-white/10'}`}>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-white font-semibold">{formatDay(shift.date)}</p>
+            <p className="text-blue-200 text-sm">
+              {formatTime(times.start, policy.timeZone)} – {formatTime(times.end, policy.timeZone)}
+              {times.breakMinutes > 0 && ` · ${times.breakMinutes}m break`}
+              {shift.autoBreakMinutes > 0 && ` · ${shift.autoBreakMinutes}m auto break`}
+            </p>
+            {shift.adjusted && (
+              <p className="text-blue-300 text-xs mt-1">
+                Was {formatTime(shift.original.start, policy.timeZone)} – {formatTime(shift.original.end, policy.timeZone)}
+                {shift.original.breakMinutes > 0 && `, ${shift.original.breakMinutes}m break`} · {shift.adjusted.reason}
+              </p>
+            )}
+            {shift.flags.length > 0 && (
+              <p className="text-amber-300 text-xs mt-1 flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" />
+                {shift.flags.map((flag) => SHIFT_FLAG_LABELS[flag]).join(' · ')}
+              </p>
+            )}
+          </div>
+          <div className="text-right shrink-0">
+            <p className="text-white font-bold">{shift.paidHours.toFixed(2)}h</p>
+            {editable && !editing && (
+              <div className="flex gap-2 mt-2 justify-end">
+                {shift.adjusted && (
+                  <button onClick={() => handleRevert(shift)} className="text-blue-300 text-xs flex items-center gap-1">
+                    <RotateCcw className="w-3 h-3" />
+                    Revert
+                  </button>
+                )}
+                <button onClick={() => startEditing(shift)} className="text-blue-100 text-xs font-semibold underline">
+                  Adjust
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {editing && form && (
+          <div className="mt-4 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-blue-200 text-xs font-medium mb-1 block">Clock-in</span>
+                <input
+                  type="datetime-local"
+                  value={form.start}
+                  onChange={(e) => setForm({ ...form, start: e.target.value })}
+                  className="w-full px-3 py-2 bg-white/5 border-2 border-white/20 rounded-xl text-white text-sm focus:outline-none focus:border-blue-400"
+                />
+              </label>
+              <label className="block">
+                <span className="text-blue-200 text-xs font-medium mb-1 block">Clock-out</span>
+                <input
+                  type="datetime-local"
+                  value={form.end}
+                  onChange={(e) => setForm({ ...form, end: e.target.value })}
+                  className="w-full px-3 py-2 bg-white/5 border-2 border-white/20 rounded-xl text-white text-sm focus:outline-none focus:border-blue-400"
+                />
+              </label>
+            </div>
+            <label className="block">
+              <span className="text-blue-200 text-xs font-medium mb-1 block">Clocked break (minutes)</span>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={form.breakMinutes}
+                onChange={(e) => setForm({ ...form, breakMinutes: e.target.value })}
+                className="w-full px-3 py-2 bg-white/5 border-2 border-white/20 rounded-xl text-white text-sm focus:outline-none focus:border-blue-400"
+              />
+            </label>
+            <label className="block">
+              <span className="text-blue-200 text-xs font-medium mb-1 block">Reason *</span>
+              <input
+                type="text"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                className="w-full px-3 py-2 bg-white/5 border-2 border-white/20 rounded-xl text-white text-sm placeholder-blue-300/50 focus:outline-none focus:border-blue-400"
+                placeholder="e.g. Forgot to clock out, confirmed with supervisor"
+              />
+            </label>
+            {formError && <p className="text-red-300 text-xs">{formError}</p>}
+            <div className="flex gap-3">
+              <button
+                onClick={() => setForm(null)}
+                className="flex-1 py-2 rounded-xl bg-white/10 text-blue-100 text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveShift}
+                className="flex-1 py-2 rounded-xl bg-blue-500 text-white text-sm font-semibold"
+              >
+                Save adjustment
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-t-3xl bg-slate-900 border-t border-white/20 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-white text-lg font-semibold flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              Timesheet
+            </h3>
+            <p className="text-blue-200 text-sm">
+              {employeeName} · {paidTotal.toFixed(2)}h paid in period
+            </p>
+          </div>
+          <button onClick={onClose} className="text-blue-200" aria-label="Close timesheet">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {periodShifts.length === 0 && <p className="text-blue-200 text-sm">No shifts in this period.</p>}
+          {periodShifts.map((shift) => renderShift(shift, !readOnly))}
+          {shifts
+            .filter((s) => !s.date)
+            .map((shift) => renderShift(shift, !readOnly))}
+        </div>
+
+        {carriedShifts.length > 0 && (
+          <div className="mt-6">
+            <p className="text-blue-200 text-xs mb-2">
+              Earlier in the first workweek — counted toward weekly overtime only
+            </p>
+            <div className="space-y-3 opacity-70">{carriedShifts.map((shift) => renderShift(shift, false))}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
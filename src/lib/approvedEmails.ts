@@ -1,6 +0,0 @@
-export const approvedEmails = [
-  'gpober@iamcfo.com',
-  'gdeleon@iamcfo.com',
-  'tom.b@terra2.com',
-  'tom.k@terra2.com',
-]
@@ -0,0 +1,70 @@
+// src/lib/auth/audit.ts
+// Server-only. Writes and reads the platform audit_log
+// (see scripts/create-membership-admin-tables.sql).
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type AuditAction =
+  | "invitation.created"
+  | "invitation.resent"
+  | "invitation.revoked"
+  | "invitation.accepted"
+  | "member.role_changed"
+  | "member.locations_changed"
+  | "member.deactivated"
+  | "member.reactivated"
+
+export interface AuditActor {
+  id: string
+  email: string | null
+}
+
+export interface AuditEntry {
+  organizationId: string
+  actor: AuditActor
+  action: AuditAction
+  targetType: "invitation" | "member"
+  targetId: string
+  targetEmail?: string | null
+  details?: Record<string, unknown>
+}
+
+export interface AuditLogRow {
+  id: string
+  organization_id: string
+  actor_id: string | null
+  actor_email: string | null
+  action: AuditAction
+  target_type: string
+  target_id: string | null
+  target_email: string | null
+  details: Record<string, unknown>
+  created_at: string
+}
+
+// Throws on failure so an unlogged change is reported as an error, not a success
+export async function recordAudit(platform: SupabaseClient, entry: AuditEntry): Promise<void> {
+  const { error } = await platform.from("audit_log").insert({
+    organization_id: entry.organizationId,
+    actor_id: entry.actor.id,
+    actor_email: entry.actor.email,
+    action: entry.action,
+    target_type: entry.targetType,
+    target_id: entry.targetId,
+    target_email: entry.targetEmail ?? null,
+    details: entry.details || {},
+  })
+  if (error) throw error
+}
+
+export async function listAuditLog(platform: SupabaseClient, organizationId: string, limit = 100): Promise<AuditLogRow[]> {
+  const { data, error } = await platform
+    .from("audit_log")
+    .select("id, organization_id, actor_id, actor_email, action, target_type, target_id, target_email, details, created_at")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as AuditLogRow[]
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { FakeSupabase } from "@/test/fakeSupabase"
+import { acceptPendingInvitation } from "./invitations"
+
+const ORG = "11111111-1111-1111-1111-111111111111"
+
+const invitation = (email: string) => ({
+  id: `inv-${email}`,
+  organization_id: ORG,
+  email,
+  name: null,
+  role: "admin",
+  status: "pending",
+  location_ids: [],
+  expires_at: new Date(Date.now() + 86_400_000).toISOString(),
+  created_at: new Date().toISOString(),
+})
+
+const signedIn = (email: string) => ({ id: "new-user", email, role: null, organizationId: null })
+
+describe("acceptPendingInvitation", () => {
+  it("does not treat _ or % in the address as wildcards", async () => {
+    const platform = new FakeSupabase({ invitations: [invitation("axb@x.com")] })
+    for (const email of ["a_b@x.com", "a%@x.com"]) {
+      const result = await acceptPendingInvitation(platform.client, new FakeSupabase().client, signedIn(email))
+      expect(result).toEqual({ status: "not_invited" })
+    }
+    expect(platform.rows("users")).toHaveLength(0)
+  })
+
+  it("accepts the invitation whatever the case of the sign-in email", async () => {
+    const platform = new FakeSupabase({ invitations: [invitation("alice@a.test")] })
+    const result = await acceptPendingInvitation(platform.client, new FakeSupabase().client, signedIn("Alice@A.test"))
+
+    expect(result).toEqual({ status: "accepted", organizationId: ORG, invitationId: "inv-alice@a.test" })
+    expect(platform.rows("users")).toMatchObject([{ id: "new-user", email: "alice@a.test", role: "admin" }])
+    expect(platform.rows("invitations")[0].status).toBe("accepted")
+  })
+})
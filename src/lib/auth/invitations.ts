@@ -0,0 +1,107 @@
+// src/lib/auth/invitations.ts
+// Server-only. Turns a pending invitation into a platform `users` row.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { recordAudit } from "./audit"
+import { setLocationAssignments } from "./locations"
+import type { SessionUser } from "./session"
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired"
+
+export interface Invitation {
+  id: string
+  organization_id: string
+  email: string
+  name: string | null
+  role: string
+  status: InvitationStatus
+  location_ids: string[]
+  token: string
+  invited_by: string | null
+  expires_at: string | null
+  sent_count: number
+  last_sent_at: string | null
+  accepted_at: string | null
+  accepted_by: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export const INVITATION_COLUMNS =
+  "id, organization_id, email, name, role, status, location_ids, token, invited_by, expires_at, sent_count, last_sent_at, accepted_at, accepted_by, revoked_at, created_at"
+
+export type AcceptResult =
+  | { status: "member"; organizationId: string | null }
+  | { status: "accepted"; organizationId: string; invitationId: string }
+  | { status: "not_invited" }
+
+// Idempotent: existing members are returned as-is. With several open
+// invitations for the same email the newest one wins. `data` is the Client
+// project, where the invitation's location_managers rows are created.
+export async function acceptPendingInvitation(
+  platform: SupabaseClient,
+  data: SupabaseClient,
+  user: SessionUser,
+): Promise<AcceptResult> {
+  if (user.role) {
+    return { status: "member", organizationId: user.organizationId }
+  }
+  if (!user.email) {
+    return { status: "not_invited" }
+  }
+  // Invitations store emails lower-cased; an exact match, since _ and % are
+  // wildcards to ilike and would match other people's addresses
+  const email = user.email.toLowerCase()
+
+  const { data: rows, error } = await platform
+    .from("invitations")
+    .select(INVITATION_COLUMNS)
+    .eq("email", email)
+    .eq("status", "pending")
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+
+  if (error) throw error
+  const invitation = (rows?.[0] as Invitation | undefined) || null
+  if (!invitation) {
+    return { status: "not_invited" }
+  }
+
+  const { error: userError } = await platform.from("users").upsert({
+    id: user.id,
+    organization_id: invitation.organization_id,
+    email,
+    name: invitation.name || email,
+    role: invitation.role,
+    status: "active",
+    deactivated_at: null,
+    deactivated_by: null,
+  })
+  if (userError) throw userError
+
+  await setLocationAssignments(data, user.id, invitation.location_ids || [])
+
+  const { error: updateError } = await platform
+    .from("invitations")
+    .update({
+      status: "accepted",
+      accepted_at: new Date().toISOString(),
+      accepted_by: user.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", invitation.id)
+  if (updateError) throw updateError
+
+  await recordAudit(platform, {
+    organizationId: invitation.organization_id,
+    actor: { id: user.id, email: user.email },
+    action: "invitation.accepted",
+    targetType: "invitation",
+    targetId: invitation.id,
+    targetEmail: user.email,
+    details: { role: invitation.role, locationIds: invitation.location_ids || [] },
+  })
+
+  return { status: "accepted", organizationId: invitation.organization_id, invitationId: invitation.id }
+}
@@ -0,0 +1,34 @@
+// src/lib/auth/locations.ts
+// Server-only. Reads and writes location_managers (Client project), which
+// limits payroll submission to a user's assigned locations.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export async function loadLocationIds(data: SupabaseClient, userIds: string[]): Promise<Map<string, string[]>> {
+  const byUser = new Map<string, string[]>()
+  if (userIds.length === 0) return byUser
+
+  const { data: rows, error } = await data
+    .from("location_managers")
+    .select("user_id, location_id")
+    .in("user_id", userIds)
+
+  if (error) throw error
+  ;(rows || []).forEach((row: { user_id: string; location_id: string }) => {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), row.location_id])
+  })
+  return byUser
+}
+
+// Replaces a user's location_managers rows
+export async function setLocationAssignments(data: SupabaseClient, userId: string, locationIds: string[]) {
+  const { error: deleteError } = await data.from("location_managers").delete().eq("user_id", userId)
+  if (deleteError) throw deleteError
+
+  if (locationIds.length === 0) return
+
+  const { error } = await data
+    .from("location_managers")
+    .insert(locationIds.map((locationId) => ({ user_id: userId, location_id: locationId })))
+  if (error) throw error
+}
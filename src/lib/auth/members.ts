@@ -0,0 +1,404 @@
+// src/lib/auth/members.ts
+// Server-only. Organization membership admin: invitations, role changes,
+// location assignments and deactivation. Every change is written to audit_log.
+//
+// Members and invitations live in the Platform project; location_managers and
+// locations live in the Client (data) project.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { NextResponse } from "next/server"
+import { getServerDataClient } from "@/lib/supabase/server"
+import { recordAudit } from "./audit"
+import { INVITATION_COLUMNS, type Invitation } from "./invitations"
+import { loadLocationIds, setLocationAssignments } from "./locations"
+import { isUserRole, type UserRole } from "./routes"
+import { getPlatformAdminClient, requireOrgAdmin, type RequestUser } from "./server"
+
+export type MemberStatus = "active" | "deactivated"
+
+export interface Member {
+  id: string
+  email: string
+  name: string | null
+  role: string
+  status: MemberStatus
+  created_at: string | null
+  deactivated_at: string | null
+  locationIds: string[]
+}
+
+export interface MembershipContext {
+  platform: SupabaseClient
+  data: SupabaseClient
+  actor: RequestUser
+  organizationId: string
+}
+
+export interface InviteInput {
+  email: string
+  role: string
+  name?: string | null
+  locationIds?: string[]
+}
+
+export interface MemberUpdate {
+  role?: string
+  status?: MemberStatus
+  locationIds?: string[]
+}
+
+export class MembershipError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409,
+  ) {
+    super(message)
+    this.name = "MembershipError"
+  }
+}
+
+// Route helper: checks the caller is an admin of orgId and builds the context
+export async function requireMembershipContext(req: Request, orgId: string): Promise<MembershipContext> {
+  const actor = await requireOrgAdmin(req, orgId)
+  return {
+    platform: getPlatformAdminClient(),
+    data: getServerDataClient(),
+    actor,
+    organizationId: orgId,
+  }
+}
+
+// Route catch blocks: turns MembershipError into its status, anything else into null
+export function membershipErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof MembershipError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  return null
+}
+
+// Where invite emails land; /login accepts the invitation after sign-in
+export function invitationLoginUrl(req: Request): string {
+  return `${new URL(req.url).origin}/login`
+}
+
+const INVITATION_TTL_DAYS = 14
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const MEMBER_COLUMNS = "id, email, name, role, status, created_at, deactivated_at"
+
+// Only a super_admin can hand out super_admin
+export function assignableRoles(actorRole: UserRole): UserRole[] {
+  return actorRole === "super_admin"
+    ? ["super_admin", "admin", "owner", "employee"]
+    : ["admin", "owner", "employee"]
+}
+
+function checkAssignableRole(ctx: MembershipContext, role: string): UserRole {
+  if (!isUserRole(role) || !assignableRoles(ctx.actor.role).includes(role)) {
+    throw new MembershipError(`You cannot assign the role "${role}"`, 400)
+  }
+  return role
+}
+
+function invitationExpiry() {
+  return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+}
+
+async function checkLocations(ctx: MembershipContext, locationIds: string[]): Promise<string[]> {
+  const ids = [...new Set(locationIds.filter(Boolean))]
+  if (ids.length === 0) return []
+
+  const { data, error } = await ctx.data
+    .from("locations")
+    .select("id")
+    .eq("organization_id", ctx.organizationId)
+    .in("id", ids)
+
+  if (error) throw error
+  if ((data || []).length !== ids.length) {
+    throw new MembershipError("One or more locations do not belong to this organization", 400)
+  }
+  return ids
+}
+
+// Sends the platform's invite email. Existing platform accounts can't be
+// re-invited by Supabase; they accept by signing in with the invited email.
+async function sendInvitationEmail(platform: SupabaseClient, invitation: Invitation, loginUrl: string) {
+  const { error } = await platform.auth.admin.inviteUserByEmail(invitation.email, {
+    redirectTo: loginUrl,
+    data: { name: invitation.name, organization_id: invitation.organization_id },
+  })
+
+  if (error) {
+    console.log(`⚠️ Invite email not sent to ${invitation.email}: ${error.message}`)
+    return false
+  }
+  return true
+}
+
+async function getInvitation(ctx: MembershipContext, invitationId: string): Promise<Invitation> {
+  const { data, error } = await ctx.platform
+    .from("invitations")
+    .select(INVITATION_COLUMNS)
+    .eq("id", invitationId)
+    .eq("organization_id", ctx.organizationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new MembershipError("Invitation not found", 404)
+  return data as Invitation
+}
+
+async function getMember(ctx: MembershipContext, userId: string): Promise<Member> {
+  const { data, error } = await ctx.platform
+    .from("users")
+    .select(MEMBER_COLUMNS)
+    .eq("id", userId)
+    .eq("organization_id", ctx.organizationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new MembershipError("Member not found", 404)
+
+  const locations = await loadLocationIds(ctx.data, [userId])
+  return { ...(data as Omit<Member, "locationIds">), locationIds: locations.get(userId) || [] }
+}
+
+export async function listMembers(ctx: MembershipContext): Promise<Member[]> {
+  const { data, error } = await ctx.platform
+    .from("users")
+    .select(MEMBER_COLUMNS)
+    .eq("organization_id", ctx.organizationId)
+    .order("email")
+
+  if (error) throw error
+  const rows = (data || []) as Omit<Member, "locationIds">[]
+  const locations = await loadLocationIds(
+    ctx.data,
+    rows.map((row) => row.id),
+  )
+  return rows.map((row) => ({ ...row, locationIds: locations.get(row.id) || [] }))
+}
+
+// Pending invitations past expires_at are reported as expired
+export async function listInvitations(ctx: MembershipContext): Promise<Invitation[]> {
+  const { data, error } = await ctx.platform
+    .from("invitations")
+    .select(INVITATION_COLUMNS)
+    .eq("organization_id", ctx.organizationId)
+    .order("created_at", { ascending: false })
+    .limit(200)
+
+  if (error) throw error
+  const now = Date.now()
+  return ((data || []) as Invitation[]).map((invitation) =>
+    invitation.status === "pending" && invitation.expires_at && new Date(invitation.expires_at).getTime() < now
+      ? { ...invitation, status: "expired" }
+      : invitation,
+  )
+}
+
+export async function createInvitation(ctx: MembershipContext, input: InviteInput, loginUrl: string) {
+  const email = (input.email || "").trim().toLowerCase()
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new MembershipError("A valid email address is required", 400)
+  }
+  const role = checkAssignableRole(ctx, input.role)
+  const locationIds = await checkLocations(ctx, input.locationIds || [])
+
+  const { data: existingMember, error: memberError } = await ctx.platform
+    .from("users")
+    .select("id, status")
+    .eq("organization_id", ctx.organizationId)
+    .eq("email", email)
+    .maybeSingle()
+  if (memberError) throw memberError
+  if (existingMember && existingMember.status !== "deactivated") {
+    throw new MembershipError(`${email} is already a member of this organization`, 409)
+  }
+
+  // A stale pending row would block the unique index; retire it first
+  const { data: pending, error: pendingError } = await ctx.platform
+    .from("invitations")
+    .select("id, expires_at")
+    .eq("organization_id", ctx.organizationId)
+    .eq("status", "pending")
+    .eq("email", email)
+  if (pendingError) throw pendingError
+
+  for (const open of pending || []) {
+    if (open.expires_at && new Date(open.expires_at).getTime() >= Date.now()) {
+      throw new MembershipError(`${email} already has a pending invitation; resend it instead`, 409)
+    }
+    const { error } = await ctx.platform
+      .from("invitations")
+      .update({ status: "expired", updated_at: new Date().toISOString() })
+      .eq("id", open.id)
+    if (error) throw error
+  }
+
+  const { data, error } = await ctx.platform
+    .from("invitations")
+    .insert({
+      organization_id: ctx.organizationId,
+      email,
+      name: input.name?.trim() || null,
+      role,
+      location_ids: locationIds,
+      invited_by: ctx.actor.id,
+      expires_at: invitationExpiry(),
+    })
+    .select(INVITATION_COLUMNS)
+    .single()
+  if (error) throw error
+
+  const invitation = data as Invitation
+  const emailSent = await sendInvitationEmail(ctx.platform, invitation, loginUrl)
+
+  await recordAudit(ctx.platform, {
+    organizationId: ctx.organizationId,
+    actor: ctx.actor,
+    action: "invitation.created",
+    targetType: "invitation",
+    targetId: invitation.id,
+    targetEmail: email,
+    details: { role, locationIds, emailSent },
+  })
+
+  return { invitation, emailSent }
+}
+
+// New token and expiry; also revives an expired invitation
+export async function resendInvitation(ctx: MembershipContext, invitationId: string, loginUrl: string) {
+  const current = await getInvitation(ctx, invitationId)
+  if (current.status !== "pending" && current.status !== "expired") {
+    throw new MembershipError(`Cannot resend an invitation that is ${current.status}`, 400)
+  }
+
+  const { data, error } = await ctx.platform
+    .from("invitations")
+    .update({
+      status: "pending",
+      token: crypto.randomUUID(),
+      expires_at: invitationExpiry(),
+      sent_count: (current.sent_count || 1) + 1,
+      last_sent_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", invitationId)
+    .select(INVITATION_COLUMNS)
+    .single()
+  if (error) throw error
+
+  const invitation = data as Invitation
+  const emailSent = await sendInvitationEmail(ctx.platform, invitation, loginUrl)
+
+  await recordAudit(ctx.platform, {
+    organizationId: ctx.organizationId,
+    actor: ctx.actor,
+    action: "invitation.resent",
+    targetType: "invitation",
+    targetId: invitation.id,
+    targetEmail: invitation.email,
+    details: { sentCount: invitation.sent_count, emailSent },
+  })
+
+  return { invitation, emailSent }
+}
+
+export async function revokeInvitation(ctx: MembershipContext, invitationId: string): Promise<Invitation> {
+  const current = await getInvitation(ctx, invitationId)
+  if (current.status !== "pending") {
+    throw new MembershipError(`Cannot revoke an invitation that is ${current.status}`, 400)
+  }
+
+  const { data, error } = await ctx.platform
+    .from("invitations")
+    .update({
+      status: "revoked",
+      revoked_at: new Date().toISOString(),
+      revoked_by: ctx.actor.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", invitationId)
+    .select(INVITATION_COLUMNS)
+    .single()
+  if (error) throw error
+
+  await recordAudit(ctx.platform, {
+    organizationId: ctx.organizationId,
+    actor: ctx.actor,
+    action: "invitation.revoked",
+    targetType: "invitation",
+    targetId: invitationId,
+    targetEmail: current.email,
+  })
+
+  return data as Invitation
+}
+
+// Applies role, location and status changes, logging each one separately
+export async function updateMember(ctx: MembershipContext, userId: string, update: MemberUpdate): Promise<Member> {
+  const member = await getMember(ctx, userId)
+
+  if (userId === ctx.actor.id && (update.role !== undefined || update.status !== undefined)) {
+    throw new MembershipError("You cannot change your own role or deactivate yourself", 400)
+  }
+  if (member.role === "super_admin" && ctx.actor.role !== "super_admin") {
+    throw new MembershipError("Only a super admin can change a super admin", 400)
+  }
+
+  const audit = {
+    organizationId: ctx.organizationId,
+    actor: ctx.actor,
+    targetType: "member" as const,
+    targetId: userId,
+    targetEmail: member.email,
+  }
+
+  if (update.role !== undefined && update.role !== member.role) {
+    const role = checkAssignableRole(ctx, update.role)
+    const { error } = await ctx.platform.from("users").update({ role }).eq("id", userId)
+    if (error) throw error
+    await recordAudit(ctx.platform, {
+      ...audit,
+      action: "member.role_changed",
+      details: { from: member.role, to: role },
+    })
+  }
+
+  if (update.locationIds !== undefined) {
+    const locationIds = await checkLocations(ctx, update.locationIds)
+    const before = [...member.locationIds].sort()
+    if (before.join(",") !== [...locationIds].sort().join(",")) {
+      await setLocationAssignments(ctx.data, userId, locationIds)
+      await recordAudit(ctx.platform, {
+        ...audit,
+        action: "member.locations_changed",
+        details: { from: before, to: locationIds },
+      })
+    }
+  }
+
+  if (update.status !== undefined && update.status !== member.status) {
+    if (update.status !== "active" && update.status !== "deactivated") {
+      throw new MembershipError(`Unknown status "${update.status}"`, 400)
+    }
+    const deactivating = update.status === "deactivated"
+    const { error } = await ctx.platform
+      .from("users")
+      .update({
+        status: update.status,
+        deactivated_at: deactivating ? new Date().toISOString() : null,
+        deactivated_by: deactivating ? ctx.actor.id : null,
+      })
+      .eq("id", userId)
+    if (error) throw error
+    await recordAudit(ctx.platform, {
+      ...audit,
+      action: deactivating ? "member.deactivated" : "member.reactivated",
+    })
+  }
+
+  return getMember(ctx, userId)
+}
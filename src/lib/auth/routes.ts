@@ -0,0 +1,60 @@
+// src/lib/auth/routes.ts
+// Which pages each role may open. Shared by src/middleware.ts (server-side
+// redirects) and useAuth (navigation filtering), so keep it free of browser APIs.
+
+export type UserRole = 'super_admin' | 'admin' | 'owner' | 'employee'
+
+export const USER_ROLES: UserRole[] = ['super_admin', 'admin', 'owner', 'employee']
+
+// '*' grants every route
+export const ROLE_ROUTES: Record<UserRole, string[]> = {
+  employee: [
+    '/payroll-submit',  // ONLY payroll submit - nothing else!
+    '/mobile-dashboard/payroll/submit',
+  ],
+  admin: [
+    // Admin has full access to organization (same as owner)
+    '*'
+  ],
+  owner: [
+    // Owner has full access to organization (same as admin)
+    '*'
+  ],
+  super_admin: [
+    // Super admin has full platform access
+    '*'
+  ]
+}
+
+// Roles that manage the organization (members, invitations, settings)
+export const ADMIN_ROLES: UserRole[] = ['super_admin', 'admin', 'owner']
+
+// Reachable without a session
+export const PUBLIC_ROUTES = ['/login', '/signup']
+
+const matches = (pathname: string, route: string) =>
+  pathname === route || pathname.startsWith(`${route}/`)
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value)
+}
+
+export function isAdminRole(role: UserRole | null | undefined): boolean {
+  return !!role && ADMIN_ROLES.includes(role)
+}
+
+export function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some((route) => matches(pathname, route))
+}
+
+export function canAccessRoute(role: UserRole, pathname: string): boolean {
+  const routes = ROLE_ROUTES[role] || []
+  return routes.includes('*') || routes.some((route) => matches(pathname, route))
+}
+
+export function defaultRouteForRole(role: UserRole, isMobile = false): string {
+  if (role === 'employee') {
+    return isMobile ? '/mobile-dashboard/payroll/submit' : '/payroll-submit'
+  }
+  return isMobile ? '/mobile-dashboard' : '/dashboard'
+}
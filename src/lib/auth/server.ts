@@ -0,0 +1,136 @@
+// src/lib/auth/server.ts
+// Server-only. Do NOT import into "use client" files.
+// Resolves the caller of an API route from their Platform (auth) session and
+// checks they may act on an organization.
+
+import { createClient as createSupabaseClient, SupabaseClient } from "@supabase/supabase-js"
+import { NextResponse } from "next/server"
+import { isAdminRole, type UserRole } from "./routes"
+import { ACCESS_TOKEN_COOKIE, resolveSessionUser, type SessionUser } from "./session"
+
+export type { UserRole }
+
+export interface RequestUser extends SessionUser {
+  role: UserRole
+}
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403,
+  ) {
+    super(message)
+    this.name = "AuthError"
+  }
+}
+
+let platformAdminClient: SupabaseClient | null = null
+
+// Service-role client for the Platform project (users, organizations, invitations)
+export function getPlatformAdminClient(): SupabaseClient {
+  if (platformAdminClient) {
+    return platformAdminClient
+  }
+
+  const url = process.env.NEXT_PUBLIC_PLATFORM_SUPABASE_URL
+  const key = process.env.PLATFORM_SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error("Missing NEXT_PUBLIC_PLATFORM_SUPABASE_URL or PLATFORM_SUPABASE_SERVICE_ROLE_KEY")
+  }
+
+  platformAdminClient = createSupabaseClient(url, key, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  })
+
+  return platformAdminClient
+}
+
+// Bearer header from authFetch, or the session cookie on same-origin navigations
+export function getAccessToken(req: Request): string | null {
+  const header = req.headers.get("authorization")
+  if (header?.toLowerCase().startsWith("bearer ")) {
+    return header.slice(7).trim() || null
+  }
+
+  const cookie = req.headers.get("cookie") || ""
+  const match = cookie.split(/;\s*/).find((c) => c.startsWith(`${ACCESS_TOKEN_COOKIE}=`))
+  return match ? decodeURIComponent(match.slice(ACCESS_TOKEN_COOKIE.length + 1)) || null : null
+}
+
+// Throws AuthError(401) without a valid session; the user may not have joined an org yet
+export async function getSessionUser(req: Request): Promise<SessionUser> {
+  const token = getAccessToken(req)
+  if (!token) {
+    throw new AuthError("Authentication required", 401)
+  }
+
+  const user = await resolveSessionUser(token)
+  if (!user) {
+    throw new AuthError("Invalid or expired session", 401)
+  }
+  return user
+}
+
+// Throws AuthError(403) when the session has no platform user row
+export async function getRequestUser(req: Request): Promise<RequestUser> {
+  const user = await getSessionUser(req)
+  if (!user.role) {
+    throw new AuthError("No account for this user", 403)
+  }
+  return user as RequestUser
+}
+
+// Throws AuthError(403) unless the caller belongs to orgId or is a super_admin
+export async function requireOrgAccess(req: Request, orgId: string): Promise<RequestUser> {
+  const user = await getRequestUser(req)
+  if (user.role !== "super_admin" && user.organizationId !== orgId) {
+    throw new AuthError("You do not have access to this organization", 403)
+  }
+  return user
+}
+
+// requireOrgAccess plus an admin, owner or super_admin role
+export async function requireOrgAdmin(req: Request, orgId: string): Promise<RequestUser> {
+  const user = await requireOrgAccess(req, orgId)
+  if (!isAdminRole(user.role)) {
+    throw new AuthError("Only organization admins can do this", 403)
+  }
+  return user
+}
+
+// For platform-wide operations that are not tied to one organization
+export async function requireAdmin(req: Request): Promise<RequestUser> {
+  const user = await getRequestUser(req)
+  if (!isAdminRole(user.role)) {
+    throw new AuthError("Admin access required", 403)
+  }
+  return user
+}
+
+// Platform operators only, e.g. for data not attributed to any organization
+export async function requireSuperAdmin(req: Request): Promise<RequestUser> {
+  const user = await getRequestUser(req)
+  if (user.role !== "super_admin") {
+    throw new AuthError("Super admin access required", 403)
+  }
+  return user
+}
+
+// Scheduled jobs authenticate with `Authorization: Bearer $CRON_SECRET`
+export function hasCronSecret(req: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  return !!secret && req.headers.get("authorization") === `Bearer ${secret}`
+}
+
+// Route catch blocks: turns AuthError into its status, anything else into null
+export function authErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  return null
+}
@@ -0,0 +1,54 @@
+// src/lib/auth/session.ts
+// Validates a Platform (auth) access token and loads the caller's platform
+// `users` row. Plain fetch so it also runs in middleware (Edge runtime).
+
+import { isUserRole, type UserRole } from './routes'
+
+// Mirrors the platform session's access token so middleware can see it;
+// written by syncSessionCookie in lib/supabase/client.ts
+export const ACCESS_TOKEN_COOKIE = 'iamcfo-access-token'
+
+export interface SessionUser {
+  id: string
+  email: string | null
+  // null when the user has no platform `users` row yet (not invited / not accepted)
+  // or their membership was deactivated
+  role: UserRole | null
+  organizationId: string | null
+}
+
+function platformConfig() {
+  const url = process.env.NEXT_PUBLIC_PLATFORM_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_PLATFORM_SUPABASE_ANON_KEY
+  if (!url || !anonKey) {
+    throw new Error('Missing NEXT_PUBLIC_PLATFORM_SUPABASE_URL or NEXT_PUBLIC_PLATFORM_SUPABASE_ANON_KEY')
+  }
+  return { url, anonKey }
+}
+
+// Returns null when the token is missing, expired or revoked
+export async function resolveSessionUser(accessToken: string): Promise<SessionUser | null> {
+  const { url, anonKey } = platformConfig()
+  const headers = { apikey: anonKey, Authorization: `Bearer ${accessToken}` }
+
+  const userRes = await fetch(`${url}/auth/v1/user`, { headers, cache: 'no-store' })
+  if (!userRes.ok) return null
+  const authUser: { id: string; email?: string | null } = await userRes.json()
+
+  const rowRes = await fetch(
+    `${url}/rest/v1/users?id=eq.${encodeURIComponent(authUser.id)}&select=role,organization_id,status`,
+    { headers, cache: 'no-store' },
+  )
+  if (!rowRes.ok) {
+    throw new Error(`Failed to load platform user: ${rowRes.status}`)
+  }
+  const rows: { role: string | null; organization_id: string | null; status: string | null }[] = await rowRes.json()
+  const row = rows[0]?.status === 'deactivated' ? undefined : rows[0]
+
+  return {
+    id: authUser.id,
+    email: authUser.email ?? null,
+    role: row && isUserRole(row.role) ? row.role : null,
+    organizationId: row?.organization_id ?? null,
+  }
+}
@@ -0,0 +1,92 @@
+// src/lib/connecteam/client.ts
+// Server-only. Minimal Connecteam REST client (X-API-KEY auth).
+
+const CONNECTEAM_API = 'https://api.connecteam.com'
+
+export interface ConnecteamForm {
+  formId: number
+  formName: string
+  isArchived?: boolean
+}
+
+export interface ConnecteamUser {
+  userId: number
+  email?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  phoneNumber?: string | null
+  isArchived?: boolean
+  [key: string]: unknown
+}
+
+export async function connecteamFetch(path: string): Promise<Response> {
+  const connecteamApiKey = process.env.CONNECTEAM_API_KEY
+  if (!connecteamApiKey) {
+    throw new Error('CONNECTEAM_API_KEY is not configured')
+  }
+
+  return fetch(`${CONNECTEAM_API}${path}`, {
+    headers: {
+      'X-API-KEY': connecteamApiKey,
+      'Accept': 'application/json',
+    },
+    cache: 'no-store',
+  })
+}
+
+// All forms on the account, following Connecteam's offset paging
+export async function listForms(): Promise<ConnecteamForm[]> {
+  const allForms: ConnecteamForm[] = []
+  let offset = 0
+
+  // Safety limit of 50 pages
+  for (let page = 0; page < 50; page++) {
+    const response = await connecteamFetch(`/forms/v1/forms?offset=${offset}`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Connecteam forms: ${response.status}`)
+    }
+
+    const data = await response.json()
+    const forms: ConnecteamForm[] = data.data?.forms || []
+    allForms.push(...forms)
+
+    const nextOffset = data.paging?.offset
+    if (forms.length === 0 || !nextOffset || nextOffset === offset) break
+    offset = nextOffset
+  }
+
+  return allForms
+}
+
+// All users on the account, following the page/limit paging of /users/v1/users
+export async function listUsers(): Promise<ConnecteamUser[]> {
+  const allUsers: ConnecteamUser[] = []
+
+  for (let page = 1; page <= 50; page++) {
+    const response = await connecteamFetch(`/users/v1/users?page=${page}&limit=100`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Connecteam users: ${response.status}`)
+    }
+
+    const data = await response.json()
+    const users: ConnecteamUser[] = data.data?.users || []
+    allUsers.push(...users)
+
+    if (users.length < 100) return allUsers
+  }
+
+  // A partial list would make the directory sync treat the rest as deleted
+  throw new Error('Connecteam user list exceeded 50 pages')
+}
+
+// One user, or null when Connecteam no longer has them
+export async function getUser(userId: number): Promise<ConnecteamUser | null> {
+  const response = await connecteamFetch(`/users/v1/users/${userId}`)
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Failed to get Connecteam user ${userId}: ${response.status}`)
+  }
+
+  const data = await response.json()
+  return data.data?.user || data.user || null
+}
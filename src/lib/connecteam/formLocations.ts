@@ -0,0 +1,177 @@
+// src/lib/connecteam/formLocations.ts
+// Server-only. Which location each Connecteam form reports production for
+// (see scripts/create-connecteam-form-locations.sql). Mappings are effective-dated
+// so a form can move between locations without rewriting history.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface FormLocationMapping {
+  id: string
+  organization_id: string
+  location_id: string
+  location_name: string | null
+  form_id: number
+  form_name: string | null
+  effective_from: string
+  effective_to: string | null
+  created_at: string | null
+}
+
+export interface FormLocationInput {
+  locationId: string
+  formId: number
+  formName?: string | null
+  effectiveFrom?: string
+  effectiveTo?: string | null
+}
+
+type MappingRow = Omit<FormLocationMapping, 'location_name'> & {
+  locations: { name: string | null } | { name: string | null }[] | null
+}
+
+const MAPPING_COLUMNS =
+  'id, organization_id, location_id, form_id, form_name, effective_from, effective_to, created_at, locations(name)'
+
+function toMapping(row: MappingRow): FormLocationMapping {
+  const { locations, ...rest } = row
+  const location = Array.isArray(locations) ? locations[0] : locations
+  return { ...rest, form_id: Number(rest.form_id), location_name: location?.name ?? null }
+}
+
+// YYYY-MM-DD (UTC) for a Connecteam unix timestamp in seconds or milliseconds
+export function submissionDate(timestamp: number | string | null | undefined): string {
+  const n = Number(timestamp)
+  if (!timestamp || !Number.isFinite(n)) return new Date().toISOString().slice(0, 10)
+  return new Date(n > 1e12 ? n : n * 1000).toISOString().slice(0, 10)
+}
+
+// Postgres exclusion_violation: the form is already mapped for part of that range
+export function isOverlapError(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as { code?: string }).code === '23P01'
+}
+
+export async function resolveFormLocation(
+  supabase: SupabaseClient,
+  formId: number | string,
+  date: string,
+): Promise<FormLocationMapping | null> {
+  const { data, error } = await supabase
+    .from('connecteam_form_locations')
+    .select(MAPPING_COLUMNS)
+    .eq('form_id', formId)
+    .lte('effective_from', date)
+    .or(`effective_to.is.null,effective_to.gte.${date}`)
+    .limit(1)
+
+  if (error) throw error
+  const row = data?.[0] as unknown as MappingRow | undefined
+  return row ? toMapping(row) : null
+}
+
+// Mappings for a location that overlap [start, end]
+export async function mappingsForLocation(
+  supabase: SupabaseClient,
+  locationId: string,
+  start: string,
+  end: string,
+): Promise<FormLocationMapping[]> {
+  const { data, error } = await supabase
+    .from('connecteam_form_locations')
+    .select(MAPPING_COLUMNS)
+    .eq('location_id', locationId)
+    .lte('effective_from', end)
+    .or(`effective_to.is.null,effective_to.gte.${start}`)
+    .order('effective_from')
+
+  if (error) throw error
+  return ((data || []) as unknown as MappingRow[]).map(toMapping)
+}
+
+export async function listFormLocations(supabase: SupabaseClient, organizationId: string): Promise<FormLocationMapping[]> {
+  const { data, error } = await supabase
+    .from('connecteam_form_locations')
+    .select(MAPPING_COLUMNS)
+    .eq('organization_id', organizationId)
+    .order('form_id')
+    .order('effective_from')
+
+  if (error) throw error
+  return ((data || []) as unknown as MappingRow[]).map(toMapping)
+}
+
+export async function createFormLocation(
+  supabase: SupabaseClient,
+  organizationId: string,
+  input: FormLocationInput,
+  createdBy: string | null,
+): Promise<FormLocationMapping> {
+  const { data, error } = await supabase
+    .from('connecteam_form_locations')
+    .insert({
+      organization_id: organizationId,
+      location_id: input.locationId,
+      form_id: input.formId,
+      form_name: input.formName || null,
+      effective_from: input.effectiveFrom || new Date().toISOString().slice(0, 10),
+      effective_to: input.effectiveTo || null,
+      created_by: createdBy,
+    })
+    .select(MAPPING_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return toMapping(data as unknown as MappingRow)
+}
+
+// Only dates and location change; remap a different form by creating a new row
+export async function updateFormLocation(
+  supabase: SupabaseClient,
+  organizationId: string,
+  id: string,
+  patch: Partial<Pick<FormLocationInput, 'locationId' | 'effectiveFrom' | 'effectiveTo'>>,
+): Promise<FormLocationMapping | null> {
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (patch.locationId !== undefined) update.location_id = patch.locationId
+  if (patch.effectiveFrom !== undefined) update.effective_from = patch.effectiveFrom
+  if (patch.effectiveTo !== undefined) update.effective_to = patch.effectiveTo || null
+
+  const { data, error } = await supabase
+    .from('connecteam_form_locations')
+    .update(update)
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+    .select(MAPPING_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toMapping(data as unknown as MappingRow) : null
+}
+
+export async function deleteFormLocation(supabase: SupabaseClient, organizationId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('connecteam_form_locations')
+    .delete()
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+// The location must belong to the organization being edited
+export async function locationInOrganization(
+  supabase: SupabaseClient,
+  organizationId: string,
+  locationId: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('locations')
+    .select('id')
+    .eq('id', locationId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) throw error
+  return !!data
+}
@@ -0,0 +1,273 @@
+// src/lib/connecteam/inbox.ts
+// Server-only. Durable inbox for Connecteam webhooks
+// (see scripts/create-connecteam-webhook-inbox.sql).
+//
+// The webhook route stores each verified event, then processes it inline.
+// Failures are retried with exponential backoff by processDueEvents (called
+// from POST /api/webhooks/connectteam/retry on a schedule) until
+// MAX_ATTEMPTS, after which the event is dead-lettered for manual replay.
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { handleConnecteamEvent, type ConnecteamSubmissionData, type ConnecteamWebhookPayload } from './submissions'
+
+export type InboxStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead'
+
+export interface InboxEvent {
+  id: string
+  // From the form's location mapping; null for user events and unmapped forms
+  organization_id: string | null
+  event_key: string
+  event_type: string | null
+  payload: ConnecteamWebhookPayload
+  signature_timestamp: string | null
+  status: InboxStatus
+  attempts: number
+  next_attempt_at: string | null
+  last_error: string | null
+  received_at: string
+  processed_at: string | null
+  replay_count: number
+  replayed_at: string | null
+}
+
+export interface ProcessSummary {
+  processed: number
+  failed: number
+  dead: number
+  skipped: number
+}
+
+export const EVENT_ID_HEADER = 'x-connecteam-event-id'
+export const MAX_ATTEMPTS = 8
+
+const INBOX_COLUMNS =
+  'id, organization_id, event_key, event_type, payload, signature_timestamp, status, attempts, next_attempt_at, last_error, received_at, processed_at, replay_count, replayed_at'
+
+// How long a claimed event may stay "processing" before another worker takes it over
+const PROCESSING_LEASE_MS = 5 * 60 * 1000
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000
+
+// 1, 2, 4, 8... minutes, capped at 6 hours
+export function retryDelayMs(attempts: number): number {
+  return Math.min(60 * 1000 * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+}
+
+// Connecteam's event id when sent, otherwise the body hash (identical redeliveries)
+export function eventKey(headers: Headers, rawBody: string): string {
+  const id = headers.get(EVENT_ID_HEADER)?.trim()
+  if (id) return `id:${id}`
+  return `sha256:${createHash('sha256').update(rawBody).digest('hex')}`
+}
+
+// The organization a form event belongs to, so its admins can see and replay
+// it. The webhook is shared, and user events aren't tied to one organization.
+async function eventOrganizationId(supabase: SupabaseClient, payload: ConnecteamWebhookPayload): Promise<string | null> {
+  const formId = payload.event?.startsWith('form.') ? (payload.data as ConnecteamSubmissionData | undefined)?.formId : null
+  if (!formId) return null
+
+  const { data, error } = await supabase
+    .from('connecteam_form_locations')
+    .select('organization_id')
+    .eq('form_id', formId)
+    .limit(1)
+  if (error) throw error
+  return data?.[0]?.organization_id ?? null
+}
+
+// Returns the existing row instead of a second copy when the event was seen before
+export async function storeEvent(
+  supabase: SupabaseClient,
+  input: { eventKey: string; payload: ConnecteamWebhookPayload; signatureTimestamp: Date },
+): Promise<{ event: InboxEvent; duplicate: boolean }> {
+  const { data, error } = await supabase
+    .from('connecteam_webhook_events')
+    .insert({
+      organization_id: await eventOrganizationId(supabase, input.payload),
+      event_key: input.eventKey,
+      event_type: input.payload.event || null,
+      payload: input.payload,
+      signature_timestamp: input.signatureTimestamp.toISOString(),
+    })
+    .select(INBOX_COLUMNS)
+    .single()
+
+  if (!error) {
+    return { event: data as InboxEvent, duplicate: false }
+  }
+
+  if (error.code !== '23505') throw error
+
+  const { data: existing, error: existingError } = await supabase
+    .from('connecteam_webhook_events')
+    .select(INBOX_COLUMNS)
+    .eq('event_key', input.eventKey)
+    .single()
+  if (existingError) throw existingError
+
+  return { event: existing as InboxEvent, duplicate: true }
+}
+
+// Takes the event if it is due and nobody else has it; the attempts check
+// makes concurrent claims of the same row lose instead of double-processing.
+async function claimEvent(supabase: SupabaseClient, id: string): Promise<InboxEvent | null> {
+  const { data: current, error } = await supabase
+    .from('connecteam_webhook_events')
+    .select(INBOX_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw error
+  if (!current) return null
+
+  const now = new Date()
+  const due = !current.next_attempt_at || new Date(current.next_attempt_at) <= now
+  if (!['pending', 'processing', 'failed'].includes(current.status) || !due) return null
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('connecteam_webhook_events')
+    .update({
+      status: 'processing',
+      attempts: current.attempts + 1,
+      next_attempt_at: new Date(now.getTime() + PROCESSING_LEASE_MS).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', current.status)
+    .eq('attempts', current.attempts)
+    .select(INBOX_COLUMNS)
+  if (claimError) throw claimError
+
+  return (claimed?.[0] as InboxEvent | undefined) || null
+}
+
+// Processes one event. Returns its resulting status, or null when it was not
+// due / already handled elsewhere.
+export async function processEvent(supabase: SupabaseClient, id: string): Promise<InboxStatus | null> {
+  const event = await claimEvent(supabase, id)
+  if (!event) return null
+
+  try {
+    await handleConnecteamEvent(supabase, event.payload)
+
+    const { error } = await supabase
+      .from('connecteam_webhook_events')
+      .update({
+        status: 'processed',
+        processed_at: new Date().toISOString(),
+        next_attempt_at: null,
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+    if (error) throw error
+
+    return 'processed'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const status: InboxStatus = event.attempts >= MAX_ATTEMPTS ? 'dead' : 'failed'
+    console.error(`❌ Connecteam event ${id} attempt ${event.attempts} failed (${status}):`, message)
+
+    const { error: updateError } = await supabase
+      .from('connecteam_webhook_events')
+      .update({
+        status,
+        last_error: message,
+        next_attempt_at: status === 'dead' ? null : new Date(Date.now() + retryDelayMs(event.attempts)).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+    if (updateError) throw updateError
+
+    return status
+  }
+}
+
+// One organization's due events; null retries every organization's plus the
+// unattributed ones
+export async function processDueEvents(
+  supabase: SupabaseClient,
+  limit = 25,
+  organizationId: string | null = null,
+): Promise<ProcessSummary> {
+  let query = supabase
+    .from('connecteam_webhook_events')
+    .select('id')
+    .in('status', ['pending', 'processing', 'failed'])
+    .lte('next_attempt_at', new Date().toISOString())
+  if (organizationId) query = query.eq('organization_id', organizationId)
+
+  const { data, error } = await query.order('next_attempt_at', { ascending: true }).limit(limit)
+  if (error) throw error
+
+  const summary: ProcessSummary = { processed: 0, failed: 0, dead: 0, skipped: 0 }
+  for (const row of data || []) {
+    const status = await processEvent(supabase, row.id)
+    if (status === 'processed') summary.processed++
+    else if (status === 'failed') summary.failed++
+    else if (status === 'dead') summary.dead++
+    else summary.skipped++
+  }
+  return summary
+}
+
+// One organization's dead letters; null lists every organization's plus the
+// unattributed ones (super admins only)
+export async function listDeadLetters(
+  supabase: SupabaseClient,
+  organizationId: string | null,
+  limit = 100,
+): Promise<InboxEvent[]> {
+  let query = supabase.from('connecteam_webhook_events').select(INBOX_COLUMNS).eq('status', 'dead')
+  if (organizationId) query = query.eq('organization_id', organizationId)
+
+  const { data, error } = await query.order('received_at', { ascending: false }).limit(limit)
+  if (error) throw error
+  return (data || []) as InboxEvent[]
+}
+
+// undefined when there is no such event
+export async function eventOrganization(supabase: SupabaseClient, id: string): Promise<string | null | undefined> {
+  const { data, error } = await supabase
+    .from('connecteam_webhook_events')
+    .select('organization_id')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw error
+  return data ? data.organization_id : undefined
+}
+
+// Resets a dead (or failed) event to a fresh attempt budget and processes it now
+export async function replayEvent(
+  supabase: SupabaseClient,
+  id: string,
+  replayedBy: string | null,
+): Promise<{ found: boolean; replayable: boolean; status: InboxStatus | null }> {
+  const { data: current, error } = await supabase
+    .from('connecteam_webhook_events')
+    .select('id, status, replay_count')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw error
+  if (!current) return { found: false, replayable: false, status: null }
+  if (current.status !== 'dead' && current.status !== 'failed') {
+    return { found: true, replayable: false, status: current.status as InboxStatus }
+  }
+
+  const { error: resetError } = await supabase
+    .from('connecteam_webhook_events')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      replay_count: (current.replay_count || 0) + 1,
+      replayed_at: new Date().toISOString(),
+      replayed_by: replayedBy,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', current.status)
+  if (resetError) throw resetError
+
+  const status = await processEvent(supabase, id)
+  return { found: true, replayable: true, status }
+}
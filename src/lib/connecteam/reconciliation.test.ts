@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { FakeSupabase, MAX_ROWS } from '@/test/fakeSupabase'
+import { attributeSubmissions, getItem, resolveItem, type ProductionSubmission } from './reconciliation'
+
+const ORG = 'org-1'
+const LOCATION = 'loc-1'
+
+let db: FakeSupabase
+let supabase: SupabaseClient
+
+const openItem = (n: number, submitter: { userId?: number; email?: string }) => ({
+  id: `item-${n}`,
+  organization_id: ORG,
+  location_id: LOCATION,
+  form_submission_id: `sub-${n}`,
+  form_id: 7,
+  submitting_user_id: submitter.userId ?? null,
+  user_email: submitter.email ?? null,
+  submission_date: `2026-03-${String((n % 28) + 1).padStart(2, '0')}`,
+  status: 'open',
+  employee_id: null,
+  resolution_source: null,
+  resolved_by: null,
+  resolved_at: null,
+  note: null,
+})
+
+beforeEach(() => {
+  db = new FakeSupabase({ employees: [{ id: 'emp-1', location_id: LOCATION, email: 'Dana@Example.com' }] })
+  // Same constraints as scripts/create-production-reconciliation.sql
+  db.unique('production_reconciliation_items', ['form_submission_id'])
+  db.unique('production_submitter_rules', ['location_id', 'submitting_user_id'])
+  db.unique('production_submitter_rules', ['location_id', 'user_email'])
+  supabase = db.client
+})
+
+describe('resolveItem', () => {
+  it('remembers a decision for a Connecteam user and applies it to their other open items', async () => {
+    db.rows('production_reconciliation_items').push(openItem(1, { userId: 42 }), openItem(2, { userId: 42 }), openItem(3, { userId: 43 }))
+
+    const item = (await getItem(supabase, 'item-1'))!
+    const { alsoResolved } = await resolveItem(supabase, item, { status: 'assigned', employeeId: 'emp-1', remember: true }, 'manager-1')
+
+    expect(alsoResolved.map((i) => i.id)).toEqual(['item-2'])
+    expect(db.rows('production_submitter_rules')).toMatchObject([
+      { location_id: LOCATION, submitting_user_id: 42, user_email: null, employee_id: 'emp-1' },
+    ])
+    expect(db.rows('production_reconciliation_items').find((i) => i.id === 'item-3')?.status).toBe('open')
+  })
+
+  it('updates the existing rule when the same submitter is resolved again', async () => {
+    db.rows('production_reconciliation_items').push(openItem(1, { email: 'temp@example.com' }), openItem(2, { email: 'temp@example.com' }))
+
+    await resolveItem(supabase, (await getItem(supabase, 'item-1'))!, { status: 'assigned', employeeId: 'emp-1', remember: true }, 'manager-1')
+    await resolveItem(supabase, (await getItem(supabase, 'item-2'))!, { status: 'non_payable', remember: true }, 'manager-1')
+
+    expect(db.rows('production_submitter_rules')).toMatchObject([
+      { location_id: LOCATION, submitting_user_id: null, user_email: 'temp@example.com', employee_id: null },
+    ])
+  })
+})
+
+describe('attributeSubmissions', () => {
+  it('reads, writes and returns every submission past the row cap in batches', async () => {
+    const count = MAX_ROWS + 500
+    // Already queued: everything but the last 100, which are new
+    db.rows('production_reconciliation_items').push(
+      ...Array.from({ length: count - 100 }, (_, n) => openItem(n, { userId: 1000 + n })),
+    )
+    const submissions: ProductionSubmission[] = Array.from({ length: count }, (_, n) => ({
+      form_submission_id: `sub-${n}`,
+      form_id: 7,
+      submitting_user_id: 1000 + n,
+      user_email: null,
+      submission_date: '2026-03-02',
+    }))
+    // Submitter 1000 has since been linked to an employee
+    const userIdToEmail = new Map([[1000, 'dana@example.com']])
+
+    const result = await attributeSubmissions(
+      supabase,
+      { organizationId: ORG, locationId: LOCATION, userIdToEmail, employeeEmails: ['Dana@Example.com'] },
+      submissions,
+    )
+
+    expect(result.units.get('dana@example.com')).toBe(1)
+    expect(result.orphans).toHaveLength(count - 1)
+    expect(db.rows('production_reconciliation_items')).toHaveLength(count - 1)
+    expect(db.rows('production_reconciliation_items').some((i) => i.id === 'item-0')).toBe(false)
+
+    const inSizes = db.calls.flatMap((c) => c.filters).filter((f) => / in \(/.test(f)).map((f) => Number(f.match(/\((\d+)\)/)![1]))
+    expect(Math.max(...inSizes)).toBeLessThanOrEqual(200)
+  })
+})
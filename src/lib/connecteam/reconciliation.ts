@@ -0,0 +1,303 @@
+// src/lib/connecteam/reconciliation.ts
+// Server-only. Production submissions that can't be matched to an employee
+// (see scripts/create-production-reconciliation.sql).
+//
+// attributeSubmissions decides who each submission counts for: a manager's
+// decision on that submission, then the Connecteam user link / email, then a
+// remembered rule for the submitter. Anything left is queued as "open" for a
+// manager to assign or mark non-payable from the submit pages.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type ReconciliationStatus = 'open' | 'assigned' | 'non_payable'
+
+export interface ProductionSubmission {
+  form_submission_id: string
+  form_id: number | null
+  submitting_user_id: number | null
+  user_email: string | null
+  submission_date: string | null
+}
+
+export interface ReconciliationItem {
+  id: string
+  location_id: string
+  form_submission_id: string
+  form_id: number | null
+  submitting_user_id: number | null
+  user_email: string | null
+  submission_date: string | null
+  status: ReconciliationStatus
+  employee_id: string | null
+  resolution_source: 'manual' | 'rule' | null
+  resolved_by: string | null
+  resolved_at: string | null
+  note: string | null
+}
+
+export interface Attribution {
+  // Lower-cased employee email → submissions
+  units: Map<string, number>
+  orphans: ReconciliationItem[]
+  nonPayable: number
+}
+
+export interface ResolveInput {
+  status: ReconciliationStatus
+  employeeId?: string | null
+  note?: string | null
+  // Apply the same decision to this submitter's later submissions at the location
+  remember?: boolean
+}
+
+const ITEM_COLUMNS =
+  'id, location_id, form_submission_id, form_id, submitting_user_id, user_email, submission_date, status, employee_id, resolution_source, resolved_by, resolved_at, note'
+
+// Rules match on the Connecteam user when the submission has one, otherwise on email
+function submitterKey(userId: number | null, email: string | null): string | null {
+  if (userId != null) return `user:${userId}`
+  return email ? `email:${email.toLowerCase()}` : null
+}
+
+// Ids per .in() filter, to keep request URLs short and each read under the row cap
+const ID_BATCH = 200
+
+async function loadRules(supabase: SupabaseClient, locationId: string): Promise<Map<string, string | null>> {
+  const { data, error } = await supabase
+    .from('production_submitter_rules')
+    .select('submitting_user_id, user_email, employee_id')
+    .eq('location_id', locationId)
+  if (error) throw error
+
+  const rules = new Map<string, string | null>()
+  for (const rule of data || []) {
+    const key = submitterKey(rule.submitting_user_id, rule.user_email)
+    if (key) rules.set(key, rule.employee_id)
+  }
+  return rules
+}
+
+async function employeeEmails(supabase: SupabaseClient, locationId: string): Promise<Map<string, string>> {
+  const { data, error } = await supabase.from('employees').select('id, email').eq('location_id', locationId)
+  if (error) throw error
+  return new Map(
+    (data || []).filter((e) => e.email).map((e) => [e.id as string, String(e.email).trim().toLowerCase()]),
+  )
+}
+
+export async function attributeSubmissions(
+  supabase: SupabaseClient,
+  context: { organizationId: string; locationId: string; userIdToEmail: Map<number, string>; employeeEmails: string[] },
+  submissions: ProductionSubmission[],
+): Promise<Attribution> {
+  const { organizationId, locationId, userIdToEmail } = context
+  const wanted = new Set(context.employeeEmails.map((e) => e.toLowerCase()))
+
+  const ids = submissions.map((s) => String(s.form_submission_id))
+  const existing = new Map<string, ReconciliationItem>()
+  for (let i = 0; i < ids.length; i += ID_BATCH) {
+    const { data, error } = await supabase
+      .from('production_reconciliation_items')
+      .select(ITEM_COLUMNS)
+      .in('form_submission_id', ids.slice(i, i + ID_BATCH))
+    if (error) throw error
+    for (const item of (data || []) as ReconciliationItem[]) existing.set(item.form_submission_id, item)
+  }
+
+  const [rules, emailsById] = await Promise.all([loadRules(supabase, locationId), employeeEmails(supabase, locationId)])
+
+  const units = new Map<string, number>()
+  const count = (email: string) => units.set(email, (units.get(email) || 0) + 1)
+  const upserts: Record<string, unknown>[] = []
+  const matchedOpenIds: string[] = []
+  let nonPayable = 0
+  const now = new Date().toISOString()
+
+  for (const submission of submissions) {
+    const submissionId = String(submission.form_submission_id)
+    const item = existing.get(submissionId)
+
+    // A manager (or rule) already decided this one
+    if (item && item.status !== 'open') {
+      if (item.status === 'non_payable') nonPayable++
+      else if (item.employee_id && emailsById.has(item.employee_id)) count(emailsById.get(item.employee_id)!)
+      continue
+    }
+
+    // Submitters with a user id only match through the user link
+    const email =
+      submission.submitting_user_id != null
+        ? userIdToEmail.get(Number(submission.submitting_user_id))
+        : submission.user_email?.toLowerCase()
+    if (email && wanted.has(email)) {
+      count(email)
+      // Queued earlier, before the employee was linked
+      if (item) matchedOpenIds.push(item.id)
+      continue
+    }
+
+    const base = {
+      organization_id: organizationId,
+      location_id: locationId,
+      form_submission_id: submissionId,
+      form_id: submission.form_id,
+      submitting_user_id: submission.submitting_user_id,
+      user_email: submission.user_email?.toLowerCase() || null,
+      submission_date: submission.submission_date,
+      updated_at: now,
+    }
+
+    const key = submitterKey(submission.submitting_user_id, submission.user_email)
+    if (key && rules.has(key)) {
+      const employeeId = rules.get(key) ?? null
+      upserts.push({
+        ...base,
+        status: employeeId ? 'assigned' : 'non_payable',
+        employee_id: employeeId,
+        resolution_source: 'rule',
+        resolved_by: null,
+        resolved_at: now,
+      })
+      if (!employeeId) nonPayable++
+      else if (emailsById.has(employeeId)) count(emailsById.get(employeeId)!)
+      continue
+    }
+
+    if (!item) upserts.push({ ...base, status: 'open' })
+  }
+
+  for (let i = 0; i < upserts.length; i += ID_BATCH) {
+    const { error } = await supabase
+      .from('production_reconciliation_items')
+      .upsert(upserts.slice(i, i + ID_BATCH), { onConflict: 'form_submission_id' })
+    if (error) throw error
+  }
+  for (let i = 0; i < matchedOpenIds.length; i += ID_BATCH) {
+    const { error } = await supabase
+      .from('production_reconciliation_items')
+      .delete()
+      .in('id', matchedOpenIds.slice(i, i + ID_BATCH))
+    if (error) throw error
+  }
+
+  const orphans = await listOpenItems(
+    supabase,
+    locationId,
+    submissions.map((s) => String(s.form_submission_id)),
+  )
+  return { units, orphans, nonPayable }
+}
+
+// Open items for the location, optionally limited to the given submissions
+export async function listOpenItems(
+  supabase: SupabaseClient,
+  locationId: string,
+  formSubmissionIds?: string[],
+): Promise<ReconciliationItem[]> {
+  const query = () =>
+    supabase
+      .from('production_reconciliation_items')
+      .select(ITEM_COLUMNS)
+      .eq('location_id', locationId)
+      .eq('status', 'open')
+      .order('submission_date', { ascending: true })
+
+  if (!formSubmissionIds) {
+    const { data, error } = await query()
+    if (error) throw error
+    return (data || []) as ReconciliationItem[]
+  }
+
+  const items: ReconciliationItem[] = []
+  for (let i = 0; i < formSubmissionIds.length; i += ID_BATCH) {
+    const { data, error } = await query().in('form_submission_id', formSubmissionIds.slice(i, i + ID_BATCH))
+    if (error) throw error
+    items.push(...((data || []) as ReconciliationItem[]))
+  }
+  return items.sort((a, b) => (a.submission_date || '').localeCompare(b.submission_date || ''))
+}
+
+export async function listItemsForPeriod(
+  supabase: SupabaseClient,
+  locationId: string,
+  from: string,
+  to: string,
+): Promise<ReconciliationItem[]> {
+  const { data, error } = await supabase
+    .from('production_reconciliation_items')
+    .select(ITEM_COLUMNS)
+    .eq('location_id', locationId)
+    .gte('submission_date', from)
+    .lte('submission_date', to)
+    .order('submission_date', { ascending: true })
+  if (error) throw error
+  return (data || []) as ReconciliationItem[]
+}
+
+export async function getItem(supabase: SupabaseClient, itemId: string): Promise<(ReconciliationItem & { organization_id: string }) | null> {
+  const { data, error } = await supabase
+    .from('production_reconciliation_items')
+    .select(`${ITEM_COLUMNS}, organization_id`)
+    .eq('id', itemId)
+    .maybeSingle()
+  if (error) throw error
+  return data as (ReconciliationItem & { organization_id: string }) | null
+}
+
+// Assigns, marks non-payable, or reopens an item. With remember, the decision
+// becomes a rule for the submitter and is applied to their other open items.
+export async function resolveItem(
+  supabase: SupabaseClient,
+  item: ReconciliationItem & { organization_id: string },
+  input: ResolveInput,
+  userId: string,
+): Promise<{ item: ReconciliationItem; alsoResolved: ReconciliationItem[] }> {
+  const now = new Date().toISOString()
+  const employeeId = input.status === 'assigned' ? input.employeeId || null : null
+  const decision =
+    input.status === 'open'
+      ? { status: 'open', employee_id: null, resolution_source: null, resolved_by: null, resolved_at: null }
+      : { status: input.status, employee_id: employeeId, resolution_source: 'manual', resolved_by: userId, resolved_at: now }
+
+  const { data, error } = await supabase
+    .from('production_reconciliation_items')
+    .update({ ...decision, note: input.note ?? item.note, updated_at: now })
+    .eq('id', item.id)
+    .select(ITEM_COLUMNS)
+    .single()
+  if (error) throw error
+
+  const key = submitterKey(item.submitting_user_id, item.user_email)
+  if (!input.remember || input.status === 'open' || !key) {
+    return { item: data as ReconciliationItem, alsoResolved: [] }
+  }
+
+  const byUser = item.submitting_user_id != null
+  const { error: ruleError } = await supabase.from('production_submitter_rules').upsert(
+    {
+      organization_id: item.organization_id,
+      location_id: item.location_id,
+      submitting_user_id: byUser ? item.submitting_user_id : null,
+      user_email: byUser ? null : item.user_email,
+      employee_id: employeeId,
+      created_by: userId,
+      updated_at: now,
+    },
+    { onConflict: byUser ? 'location_id,submitting_user_id' : 'location_id,user_email' },
+  )
+  if (ruleError) throw ruleError
+
+  let others = supabase
+    .from('production_reconciliation_items')
+    .update({ ...decision, resolution_source: 'rule', updated_at: now })
+    .eq('location_id', item.location_id)
+    .eq('status', 'open')
+    .neq('id', item.id)
+  others = byUser
+    ? others.eq('submitting_user_id', item.submitting_user_id!)
+    : others.is('submitting_user_id', null).eq('user_email', item.user_email!)
+  const { data: alsoResolved, error: othersError } = await others.select(ITEM_COLUMNS)
+  if (othersError) throw othersError
+
+  return { item: data as ReconciliationItem, alsoResolved: (alsoResolved || []) as ReconciliationItem[] }
+}
@@ -0,0 +1,61 @@
+// src/lib/connecteam/signature.ts
+// Server-only. HMAC verification for Connecteam webhooks.
+//
+// Connecteam signs `${timestamp}.${rawBody}` with HMAC-SHA256 using the shared
+// secret (CONNECTEAM_WEBHOOK_SECRET) and sends:
+//   x-connecteam-timestamp: unix time the event was sent
+//   x-connecteam-signature: hex digest, optionally prefixed "sha256="
+// Requests outside the replay window are rejected even with a valid signature.
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const SIGNATURE_HEADER = 'x-connecteam-signature'
+export const TIMESTAMP_HEADER = 'x-connecteam-timestamp'
+
+const DEFAULT_TOLERANCE_SECONDS = 300
+
+export type SignatureCheck =
+  | { ok: true; timestamp: Date }
+  | { ok: false; reason: string }
+
+export function signPayload(secret: string, timestamp: string, rawBody: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+}
+
+// Accepts seconds or milliseconds since the epoch
+function parseTimestamp(value: string): Date | null {
+  if (!/^\d+$/.test(value)) return null
+  const n = Number(value)
+  return new Date(n > 1e12 ? n : n * 1000)
+}
+
+export function verifySignature(
+  rawBody: string,
+  headers: Headers,
+  secret: string,
+  now: Date = new Date(),
+  toleranceSeconds = Number(process.env.CONNECTEAM_WEBHOOK_TOLERANCE_SECONDS) || DEFAULT_TOLERANCE_SECONDS,
+): SignatureCheck {
+  const signature = headers.get(SIGNATURE_HEADER)?.trim().replace(/^sha256=/i, '')
+  const timestampHeader = headers.get(TIMESTAMP_HEADER)?.trim()
+
+  if (!signature || !timestampHeader) {
+    return { ok: false, reason: 'Missing signature or timestamp header' }
+  }
+
+  const timestamp = parseTimestamp(timestampHeader)
+  if (!timestamp) {
+    return { ok: false, reason: 'Invalid timestamp header' }
+  }
+  if (Math.abs(now.getTime() - timestamp.getTime()) > toleranceSeconds * 1000) {
+    return { ok: false, reason: 'Timestamp outside the replay window' }
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestampHeader, rawBody), 'hex')
+  const received = Buffer.from(signature, 'hex')
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return { ok: false, reason: 'Signature mismatch' }
+  }
+
+  return { ok: true, timestamp }
+}
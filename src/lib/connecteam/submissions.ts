@@ -0,0 +1,135 @@
+// src/lib/connecteam/submissions.ts
+// Server-only. Applies Connecteam form webhook events to connecteam_form_submissions,
+// and user events to the connecteam_users directory (users.ts). Handlers throw on any failure so the inbox (inbox.ts) retries the event
+// instead of storing partial rows.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ConnecteamUser } from './client'
+import { resolveFormLocation, submissionDate } from './formLocations'
+import { emailForConnecteamUser, markConnecteamUsersDeleted, upsertConnecteamUsers } from './users'
+
+export interface ConnecteamAnswer {
+  questionType?: string
+  selectedAnswers?: { text?: string }[]
+  [key: string]: unknown
+}
+
+export interface ConnecteamSubmissionData {
+  formSubmissionId: string | number
+  formId?: string | number
+  submittingUserId?: number
+  submissionTimestamp?: number | string
+  entryNum?: number
+  answers?: ConnecteamAnswer[]
+}
+
+export interface ConnecteamWebhookPayload {
+  event?: string
+  // Form events carry the submission; user.* events carry the user
+  data?: ConnecteamSubmissionData | ConnecteamUser
+}
+
+export function isWebhookPayload(
+  body: unknown,
+): body is ConnecteamWebhookPayload & { event: string; data: ConnecteamSubmissionData | ConnecteamUser } {
+  if (!body || typeof body !== 'object') return false
+  const { event, data } = body as ConnecteamWebhookPayload
+  return typeof event === 'string' && !!data && typeof data === 'object'
+}
+
+async function handleSubmissionUpsert(supabase: SupabaseClient, data: ConnecteamSubmissionData) {
+  console.log('✏️ Upserting submission:', data.formSubmissionId)
+
+  const { formSubmissionId, formId, submittingUserId, submissionTimestamp, entryNum } = data
+
+  const userEmail = submittingUserId ? await emailForConnecteamUser(supabase, submittingUserId) : null
+
+  // Location comes from the form's mapping on the submission date
+  const mapping = formId ? await resolveFormLocation(supabase, formId, submissionDate(submissionTimestamp)) : null
+  if (!mapping) {
+    console.log(`⚠️ Form ${formId} has no location mapping; map it in Settings → Connecteam forms`)
+  }
+
+  const { error } = await supabase
+    .from('connecteam_form_submissions')
+    .upsert(
+      {
+        form_submission_id: formSubmissionId,
+        form_id: formId,
+        submitting_user_id: submittingUserId,
+        user_email: userEmail,
+        location_id: mapping?.location_id || null,
+        location_name: mapping?.location_name || null,
+        submission_timestamp: submissionTimestamp,
+        entry_num: entryNum,
+        updated_at: new Date().toISOString(),
+        deleted_at: null, // Clear soft delete if it was previously deleted
+      },
+      { onConflict: 'form_submission_id' },
+    )
+
+  if (error) throw error
+
+  console.log('✅ Submission upserted:', formSubmissionId)
+}
+
+async function handleSubmissionDelete(supabase: SupabaseClient, data: ConnecteamSubmissionData) {
+  console.log('🗑️ Soft deleting submission:', data.formSubmissionId)
+
+  // Soft delete by setting deleted_at timestamp
+  const { error } = await supabase
+    .from('connecteam_form_submissions')
+    .update({
+      deleted_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('form_submission_id', data.formSubmissionId)
+
+  if (error) throw error
+
+  console.log('✅ Submission soft deleted:', data.formSubmissionId)
+}
+
+async function handleUserUpsert(supabase: SupabaseClient, user: ConnecteamUser) {
+  if (!user.userId) throw new Error('User event without userId')
+  await upsertConnecteamUsers(supabase, [user])
+  console.log('✅ Connecteam user stored:', user.userId)
+}
+
+async function handleUserDelete(supabase: SupabaseClient, user: ConnecteamUser) {
+  if (!user.userId) throw new Error('User event without userId')
+  await markConnecteamUsersDeleted(supabase, [user.userId])
+  console.log('✅ Connecteam user marked deleted:', user.userId)
+}
+
+export async function handleConnecteamEvent(supabase: SupabaseClient, payload: ConnecteamWebhookPayload) {
+  if (!isWebhookPayload(payload)) {
+    throw new Error('Invalid webhook payload')
+  }
+
+  switch (payload.event) {
+    case 'form.submitted':
+    case 'form.updated':
+      await handleSubmissionUpsert(supabase, payload.data as ConnecteamSubmissionData)
+      break
+
+    case 'form.deleted':
+      await handleSubmissionDelete(supabase, payload.data as ConnecteamSubmissionData)
+      break
+
+    // Archiving keeps the user (is_archived comes with the payload)
+    case 'user.created':
+    case 'user.updated':
+    case 'user.archived':
+    case 'user.restored':
+      await handleUserUpsert(supabase, payload.data as ConnecteamUser)
+      break
+
+    case 'user.deleted':
+      await handleUserDelete(supabase, payload.data as ConnecteamUser)
+      break
+
+    default:
+      console.log(`⚠️ Unhandled event type: ${payload.event}`)
+  }
+}
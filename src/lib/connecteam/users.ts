@@ -0,0 +1,256 @@
+// src/lib/connecteam/users.ts
+// Server-only. Local Connecteam user directory (see scripts/create-connecteam-users.sql)
+// and the explicit employee → Connecteam user links built on it.
+//
+// syncConnecteamUsers refreshes the whole directory (scheduled via
+// /api/connecteam/users/sync); user.* webhook events keep it current in between.
+// Hours and production lookups resolve employees through connecteam_user_id and
+// only fall back to matching email for employees nobody has linked yet.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getUser, listUsers, type ConnecteamUser } from './client'
+
+export interface DirectoryUser {
+  user_id: number
+  email: string | null
+  first_name: string | null
+  last_name: string | null
+  is_archived: boolean
+  deleted_at: string | null
+}
+
+export interface EmployeeLink {
+  id: string
+  first_name: string
+  last_name: string
+  email: string | null
+  location_id: string
+  location_name: string | null
+  connecteam_user_id: number | null
+  connecteam_linked_by: string | null
+  connecteam_linked_at: string | null
+}
+
+export interface UserSyncSummary {
+  users: number
+  deleted: number
+  linked: number
+}
+
+const DIRECTORY_COLUMNS = 'user_id, email, first_name, last_name, is_archived, deleted_at'
+const UPSERT_BATCH = 500
+
+function toRow(user: ConnecteamUser, now: string) {
+  return {
+    user_id: user.userId,
+    email: user.email?.trim().toLowerCase() || null,
+    first_name: user.firstName || null,
+    last_name: user.lastName || null,
+    phone_number: user.phoneNumber || null,
+    is_archived: !!user.isArchived,
+    raw: user,
+    synced_at: now,
+    deleted_at: null,
+    updated_at: now,
+  }
+}
+
+export async function upsertConnecteamUsers(supabase: SupabaseClient, users: ConnecteamUser[]): Promise<void> {
+  const now = new Date().toISOString()
+  const rows = users.filter((u) => u.userId).map((u) => toRow(u, now))
+
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
+    const { error } = await supabase.from('connecteam_users').upsert(rows.slice(i, i + UPSERT_BATCH), { onConflict: 'user_id' })
+    if (error) throw error
+  }
+}
+
+// Kept rather than removed, so older form submissions still resolve to an email
+export async function markConnecteamUsersDeleted(supabase: SupabaseClient, userIds: number[]): Promise<void> {
+  if (userIds.length === 0) return
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('connecteam_users')
+    .update({ deleted_at: now, updated_at: now })
+    .in('user_id', userIds)
+    .is('deleted_at', null)
+  if (error) throw error
+}
+
+// Links employees nobody has linked (or unlinked) yet to the one Connecteam
+// user with the same email. Ambiguous emails (several users) are left for an admin.
+export async function linkEmployeesByEmail(supabase: SupabaseClient): Promise<number> {
+  const [{ data: employees, error: employeesError }, { data: users, error: usersError }] = await Promise.all([
+    supabase.from('employees').select('id, email').is('connecteam_linked_at', null).not('email', 'is', null),
+    supabase.from('connecteam_users').select('user_id, email').is('deleted_at', null).not('email', 'is', null),
+  ])
+  if (employeesError) throw employeesError
+  if (usersError) throw usersError
+
+  const byEmail = new Map<string, number[]>()
+  for (const user of users || []) {
+    byEmail.set(user.email, [...(byEmail.get(user.email) || []), user.user_id])
+  }
+
+  let linked = 0
+  const now = new Date().toISOString()
+  for (const employee of employees || []) {
+    const matches = byEmail.get(String(employee.email).trim().toLowerCase()) || []
+    if (matches.length !== 1) continue
+
+    const { error } = await supabase
+      .from('employees')
+      .update({ connecteam_user_id: matches[0], connecteam_linked_by: null, connecteam_linked_at: now })
+      .eq('id', employee.id)
+      .is('connecteam_linked_at', null)
+    if (error) throw error
+    linked++
+  }
+  return linked
+}
+
+// Full refresh: every user Connecteam returns is upserted, every stored user it
+// no longer returns is marked deleted, then new employees are linked by email.
+export async function syncConnecteamUsers(supabase: SupabaseClient): Promise<UserSyncSummary> {
+  const users = await listUsers()
+  await upsertConnecteamUsers(supabase, users)
+
+  const { data: stored, error } = await supabase.from('connecteam_users').select('user_id').is('deleted_at', null)
+  if (error) throw error
+
+  const current = new Set(users.map((u) => Number(u.userId)))
+  const gone = (stored || []).map((row) => Number(row.user_id)).filter((id) => !current.has(id))
+  await markConnecteamUsersDeleted(supabase, gone)
+
+  const linked = await linkEmployeesByEmail(supabase)
+  return { users: users.length, deleted: gone.length, linked }
+}
+
+// Email of a Connecteam user from the directory. A user the directory hasn't
+// seen yet is fetched once and stored.
+export async function emailForConnecteamUser(supabase: SupabaseClient, userId: number): Promise<string | null> {
+  const { data, error } = await supabase.from('connecteam_users').select('email').eq('user_id', userId).maybeSingle()
+  if (error) throw error
+  if (data) return data.email
+
+  const user = await getUser(userId)
+  if (!user) {
+    // Deleted user: nothing to retry for
+    console.log(`⚠️ Connecteam user ${userId} not found`)
+    return null
+  }
+  await upsertConnecteamUsers(supabase, [user])
+  return user.email?.trim().toLowerCase() || null
+}
+
+// Connecteam user id → lower-cased employee email for the given employees of a
+// location. Linked employees use their link; employees nobody has decided on
+// yet fall back to a single directory user with the same email. Unresolved
+// emails are returned so callers can point admins at Settings → Connecteam people.
+export async function resolveEmployeeUsers(
+  supabase: SupabaseClient,
+  locationId: string,
+  employeeEmails: string[],
+): Promise<{ userIdToEmail: Map<number, string>; unmatched: string[] }> {
+  const wanted = new Set(employeeEmails.map((e) => e.trim().toLowerCase()))
+
+  const { data: employees, error } = await supabase
+    .from('employees')
+    .select('email, connecteam_user_id, connecteam_linked_at')
+    .eq('location_id', locationId)
+    .not('email', 'is', null)
+  if (error) throw error
+
+  const userIdToEmail = new Map<number, string>()
+  const decided = new Set<string>()
+  const unmatched: string[] = []
+  for (const employee of employees || []) {
+    const email = String(employee.email).trim().toLowerCase()
+    if (!wanted.has(email) || !employee.connecteam_linked_at) continue
+    decided.add(email)
+    // Linked, or deliberately unlinked by an admin
+    if (employee.connecteam_user_id != null) userIdToEmail.set(Number(employee.connecteam_user_id), email)
+    else unmatched.push(email)
+  }
+
+  const unlinked = [...wanted].filter((email) => !decided.has(email))
+  if (unlinked.length > 0) {
+    const { data: users, error: usersError } = await supabase
+      .from('connecteam_users')
+      .select('user_id, email')
+      .in('email', unlinked)
+      .is('deleted_at', null)
+    if (usersError) throw usersError
+
+    for (const email of unlinked) {
+      const matches = (users || []).filter((u) => u.email === email)
+      if (matches.length === 1) userIdToEmail.set(Number(matches[0].user_id), email)
+      else unmatched.push(email)
+    }
+  }
+
+  return { userIdToEmail, unmatched }
+}
+
+export async function listDirectoryUsers(supabase: SupabaseClient): Promise<DirectoryUser[]> {
+  const { data, error } = await supabase
+    .from('connecteam_users')
+    .select(DIRECTORY_COLUMNS)
+    .is('deleted_at', null)
+    .order('last_name')
+    .order('first_name')
+  if (error) throw error
+  return (data || []) as DirectoryUser[]
+}
+
+const EMPLOYEE_LINK_COLUMNS =
+  'id, first_name, last_name, email, location_id, connecteam_user_id, connecteam_linked_by, connecteam_linked_at, locations!inner(name, organization_id)'
+
+type EmployeeLinkRow = Omit<EmployeeLink, 'location_name'> & { locations: { name: string | null } | { name: string | null }[] }
+
+function toEmployeeLink({ locations, ...employee }: EmployeeLinkRow): EmployeeLink {
+  const location = Array.isArray(locations) ? locations[0] : locations
+  return { ...employee, location_name: location?.name ?? null }
+}
+
+export async function listEmployeeLinks(supabase: SupabaseClient, organizationId: string): Promise<EmployeeLink[]> {
+  const { data, error } = await supabase
+    .from('employees')
+    .select(EMPLOYEE_LINK_COLUMNS)
+    .eq('locations.organization_id', organizationId)
+    .eq('is_active', true)
+    .order('last_name')
+  if (error) throw error
+  return ((data || []) as EmployeeLinkRow[]).map(toEmployeeLink)
+}
+
+// Sets an employee's Connecteam user, or with null marks them as having none so
+// email matching stops linking them. Returns null when the employee isn't in
+// the organization.
+export async function linkEmployee(
+  supabase: SupabaseClient,
+  organizationId: string,
+  employeeId: string,
+  connecteamUserId: number | null,
+  linkedBy: string,
+): Promise<EmployeeLink | null> {
+  const { data, error } = await supabase
+    .from('employees')
+    .update({
+      connecteam_user_id: connecteamUserId,
+      connecteam_linked_by: linkedBy,
+      connecteam_linked_at: new Date().toISOString(),
+    })
+    .eq('id', employeeId)
+    .in('location_id', await organizationLocationIds(supabase, organizationId))
+    .select(EMPLOYEE_LINK_COLUMNS)
+    .maybeSingle()
+  if (error) throw error
+  return data ? toEmployeeLink(data as EmployeeLinkRow) : null
+}
+
+async function organizationLocationIds(supabase: SupabaseClient, organizationId: string): Promise<string[]> {
+  const { data, error } = await supabase.from('locations').select('id').eq('organization_id', organizationId)
+  if (error) throw error
+  return (data || []).map((row) => row.id as string)
+}
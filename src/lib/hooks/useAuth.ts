@@ -4,10 +4,11 @@
 "use client"
 
 import { useState, useEffect } from 'react'
-import { createClient } from '@/lib/supabase/client'
+import { getAuthClient } from '@/lib/supabase/client'
 import { useRouter, usePathname } from 'next/navigation'
+import { canAccessRoute, defaultRouteForRole, isAdminRole, type UserRole } from '@/lib/auth/routes'
 
-export type UserRole = 'super_admin' | 'admin' | 'owner' | 'employee'
+export type { UserRole }
 
 export interface AuthUser {
   id: string
@@ -17,25 +18,6 @@ export interface AuthUser {
   organization_id: string
 }
 
-// Define which routes each role can access
-const ROLE_ROUTES: Record<UserRole, string[]> = {
-  employee: [
-    '/payroll-submit',  // ONLY payroll submit - nothing else!
-  ],
-  admin: [
-    // Admin has full access to organization (same as owner)
-    '*'
-  ],
-  owner: [
-    // Owner has full access to organization (same as admin)
-    '*'
-  ],
-  super_admin: [
-    // Super admin has full platform access
-    '*'
-  ]
-}
-
 // Improved mobile detection
 function isMobileDevice(): boolean {
   if (typeof window === 'undefined') return false
@@ -61,7 +43,7 @@ export function useAuth() {
   useEffect(() => {
     checkUser()
     
-    const supabase = createClient()
+    const supabase = getAuthClient()
     const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
       checkUser()
     })
@@ -73,7 +55,7 @@ export function useAuth() {
 
   async function checkUser() {
     try {
-      const supabase = createClient()
+      const supabase = getAuthClient()
       const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
 
       if (authError || !authUser) {
@@ -110,36 +92,14 @@ export function useAuth() {
   function checkRouteAccess(route: string): boolean {
     if (!user) return false
     
-    // Super admin, admin, and owner have access to everything
-    if (user.role === 'super_admin' || user.role === 'admin' || user.role === 'owner') {
-      return true
-    }
-
-    // Employees can only access payroll-submit
-    if (user.role === 'employee') {
-      return route === '/payroll-submit' || route.startsWith('/payroll-submit/')
-    }
-
-    return false
+    return canAccessRoute(user.role, route)
   }
 
   // Get navigation items filtered by user role
   function getFilteredNavigation(navigation: any[]): any[] {
     if (!user) return []
     
-    // Super admin, admin, and owner see everything
-    if (user.role === 'super_admin' || user.role === 'admin' || user.role === 'owner') {
-      return navigation
-    }
-
-    // Employees only see payroll submit
-    if (user.role === 'employee') {
-      return navigation.filter(item => 
-        item.href === '/payroll-submit' || item.href.startsWith('/payroll-submit/')
-      )
-    }
-
-    return []
+    return navigation.filter(item => canAccessRoute(user.role, item.href))
   }
 
   // Redirect user to appropriate page based on role
@@ -149,20 +109,12 @@ export function useAuth() {
       return
     }
 
-    // Employees always go to payroll-submit
-    if (user.role === 'employee') {
-      router.push('/payroll-submit')
-      return
-    }
-
-    // Admin, owner, super_admin go to dashboard
-    router.push('/dashboard')
+    router.push(defaultRouteForRole(user.role, isMobileDevice()))
   }
 
   // Check if user has admin-level access (admin, owner, or super_admin)
   function isAdmin(): boolean {
-    if (!user) return false
-    return user.role === 'admin' || user.role === 'owner' || user.role === 'super_admin'
+    return isAdminRole(user?.role)
   }
 
   // Check if user is super admin
@@ -172,7 +124,7 @@ export function useAuth() {
   }
 
   async function signOut() {
-    const supabase = createClient()
+    const supabase = getAuthClient()
     await supabase.auth.signOut()
     setUser(null)
     
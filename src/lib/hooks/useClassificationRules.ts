@@ -0,0 +1,36 @@
+// src/lib/hooks/useClassificationRules.ts
+// Loads the org's ledger classification overrides for client-side reports
+
+"use client"
+
+import { useEffect, useState } from 'react'
+import { authFetch } from '@/lib/supabase/client'
+import type { ClassificationRule } from '@/lib/ledger/classify'
+
+// Empty (the defaults) until the organization is known or if the rules can't be loaded
+export function useClassificationRules(organizationId: string | null) {
+  const [rules, setRules] = useState<ClassificationRule[]>([])
+
+  useEffect(() => {
+    if (!organizationId) return
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const res = await authFetch(`/api/organizations/${organizationId}/classification-rules`)
+        const json = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+        if (!cancelled) setRules(json.rules || [])
+      } catch (error) {
+        console.error('Failed to load classification rules:', error)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [organizationId])
+
+  return rules
+}
@@ -0,0 +1,57 @@
+// src/lib/hooks/useOrganizationId.ts
+// Resolves the organization a page is working in: the subdomain's org when there
+// is one, otherwise the signed-in user's org from the platform `users` table.
+
+"use client"
+
+import { useEffect, useState } from 'react'
+import { getAuthClient, getDataClient, syncDataClientSession } from '@/lib/supabase/client'
+
+export function useOrganizationId() {
+  const [organizationId, setOrganizationId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const resolve = async () => {
+      try {
+        const { data: { session } } = await getAuthClient().auth.getSession()
+        if (!session) return
+
+        await syncDataClientSession(session)
+        const dataClient = getDataClient()
+        const authClient = getAuthClient()
+
+        const parts = window.location.hostname.split('.')
+        if (parts.length >= 3) {
+          const { data: org } = await dataClient
+            .from('organizations')
+            .select('id')
+            .eq('subdomain', parts[0])
+            .maybeSingle()
+          if (org?.id) {
+            if (!cancelled) setOrganizationId(org.id)
+            return
+          }
+        }
+
+        const { data: platformUser } = await authClient
+          .from('users')
+          .select('organization_id')
+          .eq('id', session.user.id)
+          .maybeSingle()
+
+        if (!cancelled && platformUser?.organization_id) setOrganizationId(platformUser.organization_id)
+      } catch (error) {
+        console.error('❌ Error resolving organization:', error)
+      }
+    }
+
+    resolve()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return organizationId
+}
@@ -0,0 +1,263 @@
+// src/lib/ledger/classify.ts
+// Single source of truth for how a journal_entry_lines row is classified on the
+// P&L and the cash flow statement. Safe to import from both API routes and
+// "use client" pages.
+//
+// Organizations can override the defaults with rows in ledger_classification_rules
+// (see scripts/create-ledger-classification-rules.sql); pass them as `rules`.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type PLSection = "income" | "other_income" | "cogs" | "expense" | "other_expense"
+
+export type CashFlowSection = "operating" | "investing" | "financing" | "transfer"
+
+export interface LedgerAccountFields {
+  account?: string | null
+  account_type?: string | null
+  detail_type?: string | null
+  report_category?: string | null
+}
+
+export type RuleMatchField = "account" | "account_type" | "detail_type" | "report_category"
+
+export interface ClassificationRule {
+  id?: string
+  organization_id?: string
+  match_field: RuleMatchField
+  // Case-insensitive exact match; a trailing "*" matches as a prefix ("Payroll*")
+  match_value: string
+  // "exclude" keeps the account off the P&L entirely; null leaves the default
+  pl_section: PLSection | "exclude" | null
+  cash_flow_section: CashFlowSection | null
+  priority: number
+}
+
+export interface PLTotals {
+  revenue: number
+  otherIncome: number
+  cogs: number
+  operatingExpenses: number
+  otherExpenses: number
+  grossProfit: number
+  totalExpenses: number
+  netIncome: number
+}
+
+const lower = (s: string | null | undefined) => (s || "").trim().toLowerCase()
+
+function ruleMatches(rule: ClassificationRule, fields: LedgerAccountFields): boolean {
+  const value = lower(fields[rule.match_field])
+  const pattern = lower(rule.match_value)
+  if (!value || !pattern) return false
+  return pattern.endsWith("*") ? value.startsWith(pattern.slice(0, -1)) : value === pattern
+}
+
+function findRule(
+  fields: LedgerAccountFields,
+  rules: ClassificationRule[],
+  key: "pl_section" | "cash_flow_section",
+): ClassificationRule | null {
+  let best: ClassificationRule | null = null
+  for (const rule of rules) {
+    if (rule[key] === null || rule[key] === undefined) continue
+    if (!ruleMatches(rule, fields)) continue
+    if (!best || rule.priority > best.priority) best = rule
+  }
+  return best
+}
+
+export function isTransfer(fields: LedgerAccountFields): boolean {
+  return lower(fields.report_category) === "transfer" || lower(fields.account).includes("transfer")
+}
+
+export function isCashAccount(fields: LedgerAccountFields): boolean {
+  const type = lower(fields.account_type)
+  const name = lower(fields.account)
+  return (
+    type.includes("bank") ||
+    type.includes("cash") ||
+    name.includes("checking") ||
+    name.includes("savings") ||
+    name.includes("cash")
+  )
+}
+
+export function isReceivableAccount(fields: LedgerAccountFields): boolean {
+  const type = lower(fields.account_type)
+  const name = lower(fields.account)
+  return (
+    type.includes("accounts receivable") ||
+    name.includes("accounts receivable") ||
+    type.includes("a/r") ||
+    name.includes("a/r")
+  )
+}
+
+export function isPayableAccount(fields: LedgerAccountFields): boolean {
+  const type = lower(fields.account_type)
+  const name = lower(fields.account)
+  return (
+    type.includes("accounts payable") ||
+    name.includes("accounts payable") ||
+    type.includes("a/p") ||
+    name.includes("a/p")
+  )
+}
+
+// P&L section for a line, or null when it belongs on the balance sheet
+// (including bank/cash accounts and transfers).
+export function classifyPL(fields: LedgerAccountFields, rules: ClassificationRule[] = []): PLSection | null {
+  const rule = findRule(fields, rules, "pl_section")
+  if (rule) return rule.pl_section === "exclude" ? null : rule.pl_section
+
+  if (isTransfer(fields) || isCashAccount(fields)) return null
+
+  const type = lower(fields.account_type)
+  if (type.includes("cost of goods sold") || type.includes("cogs")) return "cogs"
+  if (type === "other income") return "other_income"
+  if (type.includes("income") || type.includes("revenue")) return "income"
+  if (type === "other expense" || type === "other expenses") return "other_expense"
+  if (type.includes("expense")) return "expense"
+
+  return null
+}
+
+export function isRevenueSection(section: PLSection | null): boolean {
+  return section === "income" || section === "other_income"
+}
+
+export function isExpenseSection(section: PLSection | null): boolean {
+  return section === "cogs" || section === "expense" || section === "other_expense"
+}
+
+// Signed so that revenue and expenses are both positive in their normal direction
+export function plAmount(section: PLSection | null, debit: number | string | null, credit: number | string | null) {
+  const d = Number(debit) || 0
+  const c = Number(credit) || 0
+  if (isRevenueSection(section)) return c - d
+  if (isExpenseSection(section)) return d - c
+  return 0
+}
+
+export function emptyPLTotals(): PLTotals {
+  return {
+    revenue: 0,
+    otherIncome: 0,
+    cogs: 0,
+    operatingExpenses: 0,
+    otherExpenses: 0,
+    grossProfit: 0,
+    totalExpenses: 0,
+    netIncome: 0,
+  }
+}
+
+// Adds an already-classified amount to running totals. Revenue includes other
+// income and total expenses include COGS, so netIncome = revenue - totalExpenses
+// on every screen.
+export function addSectionAmount(totals: PLTotals, section: PLSection, amount: number) {
+  switch (section) {
+    case "income":
+      totals.revenue += amount
+      break
+    case "other_income":
+      totals.revenue += amount
+      totals.otherIncome += amount
+      break
+    case "cogs":
+      totals.cogs += amount
+      totals.totalExpenses += amount
+      break
+    case "expense":
+      totals.operatingExpenses += amount
+      totals.totalExpenses += amount
+      break
+    case "other_expense":
+      totals.otherExpenses += amount
+      totals.totalExpenses += amount
+      break
+  }
+
+  totals.grossProfit = totals.revenue - totals.cogs
+  totals.netIncome = totals.revenue - totals.totalExpenses
+}
+
+// Classifies one ledger line and adds it to running totals
+export function addToPLTotals(
+  totals: PLTotals,
+  line: LedgerAccountFields & { debit?: number | string | null; credit?: number | string | null },
+  rules: ClassificationRule[] = [],
+): PLSection | null {
+  const section = classifyPL(line, rules)
+  if (!section) return null
+
+  addSectionAmount(totals, section, plAmount(section, line.debit ?? 0, line.credit ?? 0))
+  return section
+}
+
+export function summarizePL(
+  lines: (LedgerAccountFields & { debit?: number | string | null; credit?: number | string | null })[],
+  rules: ClassificationRule[] = [],
+): PLTotals {
+  const totals = emptyPLTotals()
+  lines.forEach((line) => addToPLTotals(totals, line, rules))
+  return totals
+}
+
+export function classifyCashFlow(
+  fields: LedgerAccountFields,
+  rules: ClassificationRule[] = [],
+): CashFlowSection {
+  const rule = findRule(fields, rules, "cash_flow_section")
+  if (rule?.cash_flow_section) return rule.cash_flow_section
+
+  if (lower(fields.report_category) === "transfer") return "transfer"
+  if (isReceivableAccount(fields) || isPayableAccount(fields)) return "operating"
+
+  const type = lower(fields.account_type)
+  if (
+    type.includes("fixed asset") ||
+    type.includes("long term asset") ||
+    type === "other assets" ||
+    type === "property, plant & equipment"
+  ) {
+    return "investing"
+  }
+  if (type.includes("equity") || type === "long term liabilities" || type === "line of credit") {
+    return "financing"
+  }
+
+  return "operating"
+}
+
+// Operating lines that bring cash in (income, receivables, current assets)
+export function isOperatingInflow(fields: LedgerAccountFields): boolean {
+  const type = lower(fields.account_type)
+  if (isPayableAccount(fields)) return false
+  return (
+    type === "income" ||
+    type === "other income" ||
+    type.includes("current asset") ||
+    isReceivableAccount(fields)
+  )
+}
+
+// Server-side (the table is service role only); pages get the same rules from
+// GET /api/organizations/[orgId]/classification-rules via useClassificationRules
+export async function loadClassificationRules(
+  supabase: SupabaseClient,
+  organizationId: string,
+): Promise<ClassificationRule[]> {
+  const { data, error } = await supabase
+    .from("ledger_classification_rules")
+    .select("id, organization_id, match_field, match_value, pl_section, cash_flow_section, priority")
+    .eq("organization_id", organizationId)
+    .order("priority", { ascending: false })
+  if (error) {
+    // Fall back to defaults rather than failing the whole report
+    console.error("Failed to load classification rules:", error.message)
+    return []
+  }
+  return (data || []) as ClassificationRule[]
+}
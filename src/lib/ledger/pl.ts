@@ -0,0 +1,464 @@
+// src/lib/ledger/pl.ts
+// Server-only. Builds the P&L account hierarchy behind /api/organizations/[orgId]/pl
+// so reports get totals instead of every raw journal_entry_lines row.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { readAll } from "@/lib/supabase/paginate"
+import {
+  addSectionAmount,
+  classifyPL,
+  emptyPLTotals,
+  loadClassificationRules,
+  plAmount,
+  type ClassificationRule,
+  type PLSection,
+  type PLTotals,
+} from "./classify"
+
+export type PLCompare = "prior_period" | "prior_year" | "budget"
+
+// "property" is an alias for customer: properties are tracked as QBO customers
+export type PLGroupBy = "customer" | "class" | "property" | "month" | "quarter"
+
+export const PL_COMPARE_MODES: PLCompare[] = ["prior_period", "prior_year", "budget"]
+export const PL_GROUP_BY: PLGroupBy[] = ["customer", "class", "property", "month", "quarter"]
+export const PL_SECTIONS: PLSection[] = ["income", "other_income", "cogs", "expense", "other_expense"]
+
+const UNASSIGNED_CUSTOMER = "Unassigned"
+const UNASSIGNED_CLASS = "Unclassified"
+
+export interface DateRange {
+  start: string
+  end: string
+}
+
+export interface PLReportOptions extends DateRange {
+  compare?: PLCompare | null
+  groupBy?: PLGroupBy | null
+  customers?: string[]
+}
+
+export interface PLAccountNode {
+  account: string
+  parent_account: string
+  sub_account: string | null
+  is_sub_account: boolean
+  section: PLSection
+  account_type: string | null
+  // This account's own lines; `total*` fields also roll up its sub-accounts
+  amount: number
+  total: number
+  compareAmount: number | null
+  compareTotal: number | null
+  byGroup: Record<string, number>
+  totalByGroup: Record<string, number>
+  lineCount: number
+  // Pass to /pl/transactions to list the lines behind `amount` / `total`
+  drillId: string
+  totalDrillId: string
+  children: PLAccountNode[]
+}
+
+export interface PLReport {
+  organizationId: string
+  period: DateRange
+  compare: PLCompare | null
+  comparePeriod: DateRange | null
+  groupBy: PLGroupBy | null
+  groups: string[]
+  sections: Record<PLSection, PLAccountNode[]>
+  totals: PLTotals
+  compareTotals: PLTotals | null
+  groupTotals: Record<string, PLTotals>
+  lineCount: number
+}
+
+export interface PLLine {
+  id: string
+  entry_number: string
+  line_sequence: number | null
+  date: string
+  account: string
+  account_type: string | null
+  detail_type: string | null
+  report_category: string | null
+  class: string | null
+  customer: string | null
+  vendor: string | null
+  name: string | null
+  memo: string | null
+  debit: number | string | null
+  credit: number | string | null
+}
+
+export interface DrillOptions extends DateRange {
+  groupBy?: PLGroupBy | null
+  group?: string | null
+  customers?: string[]
+}
+
+interface BudgetRow {
+  account: string
+  account_type: string | null
+  month: string
+  amount: number | string
+}
+
+const LINE_COLUMNS =
+  "entry_number, line_sequence, date, account, account_type, detail_type, report_category, class, customer, vendor, name, memo, debit, credit"
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+export const isISODate = (s: string | null | undefined): s is string =>
+  !!s && /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(Date.parse(`${s}T00:00:00Z`))
+
+const toDate = (s: string) => new Date(`${s}T00:00:00Z`)
+const toISO = (d: Date) => d.toISOString().slice(0, 10)
+
+function addDays(s: string, days: number): string {
+  const d = toDate(s)
+  d.setUTCDate(d.getUTCDate() + days)
+  return toISO(d)
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+// Shifts a date by whole months, clamping to the end of shorter months
+function addMonths(s: string, months: number, snapToMonthEnd = false): string {
+  const [y, m, d] = s.split("-").map(Number)
+  const total = y * 12 + (m - 1) + months
+  const year = Math.floor(total / 12)
+  const month = (total % 12) + 1
+  const last = lastDayOfMonth(year, month)
+  const day = snapToMonthEnd ? last : Math.min(d, last)
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+function isWholeMonths({ start, end }: DateRange): boolean {
+  const [ey, em, ed] = end.split("-").map(Number)
+  return start.endsWith("-01") && ed === lastDayOfMonth(ey, em)
+}
+
+export function comparisonRange(range: DateRange, compare: PLCompare): DateRange {
+  if (compare === "prior_year") {
+    return {
+      start: addMonths(range.start, -12),
+      end: addMonths(range.end, -12, isWholeMonths(range)),
+    }
+  }
+
+  // Month-aligned ranges compare against the same number of preceding months
+  // (Q1 → Q4 of last year); anything else shifts back by its length in days.
+  if (isWholeMonths(range)) {
+    const [sy, sm] = range.start.split("-").map(Number)
+    const [ey, em] = range.end.split("-").map(Number)
+    const months = (ey - sy) * 12 + (em - sm) + 1
+    return { start: addMonths(range.start, -months), end: addDays(range.start, -1) }
+  }
+
+  const days = Math.round((toDate(range.end).getTime() - toDate(range.start).getTime()) / 86_400_000) + 1
+  return { start: addDays(range.start, -days), end: addDays(range.start, -1) }
+}
+
+const monthKey = (date: string) => date.slice(0, 7)
+
+function quarterKey(date: string): string {
+  const [y, m] = date.split("-").map(Number)
+  return `${y}-Q${Math.floor((m - 1) / 3) + 1}`
+}
+
+function groupKey(line: PLLine, groupBy: PLGroupBy): string {
+  switch (groupBy) {
+    case "customer":
+    case "property":
+      return line.customer || UNASSIGNED_CUSTOMER
+    case "class":
+      return line.class || UNASSIGNED_CLASS
+    case "month":
+      return monthKey(line.date)
+    case "quarter":
+      return quarterKey(line.date)
+  }
+}
+
+// Every month/quarter in the range, so empty periods still get a column
+function periodGroups(range: DateRange, groupBy: "month" | "quarter"): string[] {
+  const keys: string[] = []
+  for (let d = `${monthKey(range.start)}-01`; d <= range.end; d = addMonths(d, 1)) {
+    const key = groupBy === "month" ? monthKey(d) : quarterKey(d)
+    if (keys[keys.length - 1] !== key) keys.push(key)
+  }
+  return keys
+}
+
+function groupRange(range: DateRange, groupBy: PLGroupBy, group: string): DateRange {
+  let start: string
+  let end: string
+  if (groupBy === "month") {
+    start = `${group}-01`
+    end = addMonths(start, 0, true)
+  } else if (groupBy === "quarter") {
+    const [y, q] = group.split("-Q").map(Number)
+    start = `${y}-${String((q - 1) * 3 + 1).padStart(2, "0")}-01`
+    end = addMonths(start, 2, true)
+  } else {
+    return range
+  }
+  return { start: start > range.start ? start : range.start, end: end < range.end ? end : range.end }
+}
+
+export function encodeDrillId(accounts: string[]): string {
+  return Buffer.from(JSON.stringify(accounts), "utf8").toString("base64url")
+}
+
+export function decodeDrillId(drillId: string): string[] | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(drillId, "base64url").toString("utf8"))
+    if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every((a) => typeof a === "string")) return null
+    return parsed as string[]
+  } catch {
+    return null
+  }
+}
+
+export async function fetchLedgerLines(
+  supabase: SupabaseClient,
+  organizationId: string,
+  range: DateRange,
+  { customers, accounts }: { customers?: string[]; accounts?: string[] } = {},
+): Promise<PLLine[]> {
+  const rows = await readAll<Omit<PLLine, "id">>((from, to) => {
+    let query = supabase
+      .from("journal_entry_lines")
+      .select(LINE_COLUMNS)
+      .eq("organization_id", organizationId)
+      .gte("date", range.start)
+      .lte("date", range.end)
+
+    if (customers && customers.length > 0) query = query.in("customer", customers)
+    if (accounts && accounts.length > 0) query = query.in("account", accounts)
+
+    return query.order("date").order("entry_number").order("line_sequence").range(from, to)
+  })
+
+  return rows.map((row) => ({ ...row, id: `${row.entry_number}:${row.line_sequence ?? 0}` }))
+}
+
+async function fetchBudgets(
+  supabase: SupabaseClient,
+  organizationId: string,
+  range: DateRange,
+  customers?: string[],
+): Promise<BudgetRow[]> {
+  return readAll<BudgetRow>((from, to) => {
+    let query = supabase
+      .from("budgets")
+      .select("account, account_type, month, amount")
+      .eq("organization_id", organizationId)
+      .gte("month", `${monthKey(range.start)}-01`)
+      .lte("month", range.end)
+
+    if (customers && customers.length > 0) query = query.in("customer", customers)
+
+    return query.order("month").order("account").range(from, to)
+  })
+}
+
+function splitAccount(account: string) {
+  const idx = account.indexOf(":")
+  if (idx === -1) return { parent: account, sub: null }
+  return { parent: account.slice(0, idx).trim(), sub: account.slice(idx + 1).trim() || null }
+}
+
+function newNode(account: string, section: PLSection, accountType: string | null): PLAccountNode {
+  const { parent, sub } = splitAccount(account)
+  return {
+    account,
+    parent_account: parent,
+    sub_account: sub,
+    is_sub_account: sub !== null,
+    section,
+    account_type: accountType,
+    amount: 0,
+    total: 0,
+    compareAmount: null,
+    compareTotal: null,
+    byGroup: {},
+    totalByGroup: {},
+    lineCount: 0,
+    drillId: "",
+    totalDrillId: "",
+    children: [],
+  }
+}
+
+export async function buildPLReport(
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: PLReportOptions,
+  rules?: ClassificationRule[],
+): Promise<PLReport> {
+  const period: DateRange = { start: options.start, end: options.end }
+  const compare = options.compare || null
+  const groupBy = options.groupBy || null
+  const comparePeriod = compare === "prior_period" || compare === "prior_year" ? comparisonRange(period, compare) : null
+  const budgetPeriod = compare === "budget" ? period : null
+
+  const [classificationRules, lines, compareLines, budgetRows] = await Promise.all([
+    rules ? Promise.resolve(rules) : loadClassificationRules(supabase, organizationId),
+    fetchLedgerLines(supabase, organizationId, period, { customers: options.customers }),
+    comparePeriod
+      ? fetchLedgerLines(supabase, organizationId, comparePeriod, { customers: options.customers })
+      : Promise.resolve([] as PLLine[]),
+    budgetPeriod ? fetchBudgets(supabase, organizationId, budgetPeriod, options.customers) : Promise.resolve([]),
+  ])
+
+  const nodes = new Map<string, PLAccountNode>()
+  const nodeFor = (account: string, section: PLSection, accountType: string | null) => {
+    let node = nodes.get(account)
+    if (!node) {
+      node = newNode(account, section, accountType)
+      nodes.set(account, node)
+    }
+    return node
+  }
+
+  const totals = emptyPLTotals()
+  const groupTotals: Record<string, PLTotals> = {}
+  const groups = new Set<string>(
+    groupBy === "month" || groupBy === "quarter" ? periodGroups(period, groupBy) : [],
+  )
+
+  for (const line of lines) {
+    const section = classifyPL(line, classificationRules)
+    if (!section) continue
+    const amount = plAmount(section, line.debit, line.credit)
+    const node = nodeFor(line.account || "Uncategorized", section, line.account_type)
+    node.amount += amount
+    node.lineCount++
+    addSectionAmount(totals, section, amount)
+
+    if (groupBy) {
+      const key = groupKey(line, groupBy)
+      groups.add(key)
+      node.byGroup[key] = (node.byGroup[key] || 0) + amount
+      if (!groupTotals[key]) groupTotals[key] = emptyPLTotals()
+      addSectionAmount(groupTotals[key], section, amount)
+    }
+  }
+
+  let compareTotals: PLTotals | null = null
+  if (compare) {
+    compareTotals = emptyPLTotals()
+    nodes.forEach((node) => (node.compareAmount = 0))
+
+    for (const line of compareLines) {
+      const section = classifyPL(line, classificationRules)
+      if (!section) continue
+      const amount = plAmount(section, line.debit, line.credit)
+      const node = nodeFor(line.account || "Uncategorized", section, line.account_type)
+      node.compareAmount = (node.compareAmount || 0) + amount
+      addSectionAmount(compareTotals, section, amount)
+    }
+
+    for (const row of budgetRows) {
+      // Budget rows follow the section of the matching actuals when there are any
+      const section =
+        nodes.get(row.account)?.section ||
+        classifyPL({ account: row.account, account_type: row.account_type }, classificationRules)
+      if (!section) continue
+      const amount = Number(row.amount) || 0
+      const node = nodeFor(row.account, section, row.account_type)
+      node.compareAmount = (node.compareAmount || 0) + amount
+      addSectionAmount(compareTotals, section, amount)
+    }
+  }
+
+  // Attach sub-accounts to their parents, creating a header row when the parent
+  // account itself has no lines in the period.
+  const roots = new Map<string, PLAccountNode>()
+  nodes.forEach((node) => {
+    if (!node.is_sub_account) roots.set(node.account, node)
+  })
+  nodes.forEach((node) => {
+    if (!node.is_sub_account) return
+    let parent = roots.get(node.parent_account)
+    if (!parent) {
+      parent = newNode(node.parent_account, node.section, node.account_type)
+      if (compare) parent.compareAmount = 0
+      roots.set(parent.account, parent)
+    }
+    parent.children.push(node)
+  })
+
+  const sections = Object.fromEntries(PL_SECTIONS.map((s) => [s, [] as PLAccountNode[]])) as Record<
+    PLSection,
+    PLAccountNode[]
+  >
+
+  roots.forEach((root) => {
+    root.children.sort((a, b) => a.account.localeCompare(b.account))
+
+    const finish = (node: PLAccountNode, children: PLAccountNode[]) => {
+      node.total = node.amount + children.reduce((sum, c) => sum + c.amount, 0)
+      node.compareTotal =
+        node.compareAmount === null
+          ? null
+          : node.compareAmount + children.reduce((sum, c) => sum + (c.compareAmount || 0), 0)
+      node.totalByGroup = { ...node.byGroup }
+      children.forEach((c) =>
+        Object.entries(c.byGroup).forEach(([k, v]) => (node.totalByGroup[k] = (node.totalByGroup[k] || 0) + v)),
+      )
+      node.drillId = encodeDrillId([node.account])
+      node.totalDrillId = encodeDrillId([node.account, ...children.map((c) => c.account)])
+
+      node.amount = round2(node.amount)
+      node.total = round2(node.total)
+      if (node.compareAmount !== null) node.compareAmount = round2(node.compareAmount)
+      if (node.compareTotal !== null) node.compareTotal = round2(node.compareTotal)
+      Object.keys(node.byGroup).forEach((k) => (node.byGroup[k] = round2(node.byGroup[k])))
+      Object.keys(node.totalByGroup).forEach((k) => (node.totalByGroup[k] = round2(node.totalByGroup[k])))
+    }
+
+    root.children.forEach((child) => finish(child, []))
+    finish(root, root.children)
+    sections[root.section].push(root)
+  })
+
+  PL_SECTIONS.forEach((s) => sections[s].sort((a, b) => a.account.localeCompare(b.account)))
+
+  const roundTotals = (t: PLTotals): PLTotals =>
+    Object.fromEntries(Object.entries(t).map(([k, v]) => [k, round2(v)])) as unknown as PLTotals
+
+  const groupList = Array.from(groups)
+  if (groupBy !== "month" && groupBy !== "quarter") groupList.sort((a, b) => a.localeCompare(b))
+
+  return {
+    organizationId,
+    period,
+    compare,
+    comparePeriod: comparePeriod || budgetPeriod,
+    groupBy,
+    groups: groupList,
+    sections,
+    totals: roundTotals(totals),
+    compareTotals: compareTotals ? roundTotals(compareTotals) : null,
+    groupTotals: Object.fromEntries(Object.entries(groupTotals).map(([k, t]) => [k, roundTotals(t)])),
+    lineCount: lines.length,
+  }
+}
+
+// Lines behind a node's drillId, optionally narrowed to one groupBy column
+export async function fetchDrillLines(
+  supabase: SupabaseClient,
+  organizationId: string,
+  accounts: string[],
+  { groupBy, group, customers, ...range }: DrillOptions,
+): Promise<PLLine[]> {
+  const window = groupBy && group ? groupRange(range, groupBy, group) : range
+  let lines = await fetchLedgerLines(supabase, organizationId, window, { customers, accounts })
+  if (groupBy && group) lines = lines.filter((line) => groupKey(line, groupBy) === group)
+  return lines
+}
@@ -0,0 +1,61 @@
+// src/lib/ledger/plClient.ts
+// Browser helpers for /api/organizations/[orgId]/pl. Pages opt in with
+// NEXT_PUBLIC_SERVER_PL=true; otherwise they keep building the P&L client-side.
+
+import { authFetch } from "@/lib/supabase/client"
+import type { PLCompare, PLGroupBy, PLLine, PLReport } from "./pl"
+
+export const SERVER_PL_ENABLED = process.env.NEXT_PUBLIC_SERVER_PL === "true"
+
+export interface PLRequest {
+  start: string
+  end: string
+  compare?: PLCompare | null
+  groupBy?: PLGroupBy | null
+  customers?: string[]
+}
+
+function toQuery(params: Record<string, string | null | undefined>) {
+  const qs = new URLSearchParams()
+  Object.entries(params).forEach(([k, v]) => {
+    if (v) qs.set(k, v)
+  })
+  return qs.toString()
+}
+
+async function getJSON<T>(url: string): Promise<T> {
+  const res = await authFetch(url)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json as T
+}
+
+export function fetchPLReport(organizationId: string, req: PLRequest): Promise<PLReport> {
+  const query = toQuery({
+    start: req.start,
+    end: req.end,
+    compare: req.compare,
+    groupBy: req.groupBy,
+    customers: req.customers?.join(","),
+  })
+  return getJSON<PLReport>(`/api/organizations/${encodeURIComponent(organizationId)}/pl?${query}`)
+}
+
+export async function fetchPLTransactions(
+  organizationId: string,
+  drillId: string,
+  req: PLRequest & { group?: string | null },
+): Promise<PLLine[]> {
+  const query = toQuery({
+    drillId,
+    start: req.start,
+    end: req.end,
+    groupBy: req.groupBy,
+    group: req.group,
+    customers: req.customers?.join(","),
+  })
+  const { transactions } = await getJSON<{ transactions: PLLine[] }>(
+    `/api/organizations/${encodeURIComponent(organizationId)}/pl/transactions?${query}`,
+  )
+  return transactions
+}
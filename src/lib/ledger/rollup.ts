@@ -0,0 +1,138 @@
+// src/lib/ledger/rollup.ts
+// Server-only. Monthly debit/credit totals per account, aggregated in Postgres by
+// ledger_monthly_totals (scripts/create-ledger-monthly-totals-function.sql).
+// Falls back to a paginated read when the function isn't installed yet.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { readAll } from "@/lib/supabase/paginate"
+import type { LedgerAccountFields } from "./classify"
+
+export interface MonthlyLedgerTotal extends LedgerAccountFields {
+  month: string // YYYY-MM
+  debit: number
+  credit: number
+  line_count: number
+}
+
+export interface MonthlyTotalsOptions {
+  start: string
+  end: string
+  customers?: string[]
+}
+
+interface RollupRow {
+  month: string
+  account: string | null
+  account_type: string | null
+  detail_type: string | null
+  report_category: string | null
+  debit: number | string | null
+  credit: number | string | null
+  line_count: number | string
+}
+
+interface LineRow {
+  date: string
+  account: string | null
+  account_type: string | null
+  detail_type: string | null
+  report_category: string | null
+  debit: number | string | null
+  credit: number | string | null
+}
+
+// PostgREST "function not found" / Postgres "undefined function"
+const MISSING_FUNCTION_CODES = new Set(["PGRST202", "42883"])
+
+class MissingRollupFunctionError extends Error {}
+
+async function fetchFromFunction(
+  supabase: SupabaseClient,
+  organizationId: string,
+  { start, end, customers }: MonthlyTotalsOptions,
+): Promise<MonthlyLedgerTotal[]> {
+  const rows = await readAll<RollupRow>(async (from, to) => {
+    const result = await supabase
+      .rpc("ledger_monthly_totals", {
+        p_organization_id: organizationId,
+        p_start: start,
+        p_end: end,
+        p_customers: customers && customers.length > 0 ? customers : null,
+      })
+      .range(from, to)
+    if (result.error && MISSING_FUNCTION_CODES.has(result.error.code)) {
+      throw new MissingRollupFunctionError(result.error.message)
+    }
+    return result
+  })
+
+  return rows.map((row) => ({
+    month: row.month.slice(0, 7),
+    account: row.account,
+    account_type: row.account_type,
+    detail_type: row.detail_type,
+    report_category: row.report_category,
+    debit: Number(row.debit) || 0,
+    credit: Number(row.credit) || 0,
+    line_count: Number(row.line_count) || 0,
+  }))
+}
+
+// Same result shape, summed in JS from every line in the range
+async function fetchFromLines(
+  supabase: SupabaseClient,
+  organizationId: string,
+  { start, end, customers }: MonthlyTotalsOptions,
+): Promise<MonthlyLedgerTotal[]> {
+  const lines = await readAll<LineRow>((from, to) => {
+    let query = supabase
+      .from("journal_entry_lines")
+      .select("date, account, account_type, detail_type, report_category, debit, credit")
+      .eq("organization_id", organizationId)
+      .gte("date", start)
+      .lte("date", end)
+
+    if (customers && customers.length > 0) query = query.in("customer", customers)
+
+    return query.order("date").order("entry_number").order("line_sequence").range(from, to)
+  })
+
+  const totals = new Map<string, MonthlyLedgerTotal>()
+  lines.forEach((line) => {
+    const month = line.date.slice(0, 7)
+    const key = [month, line.account, line.account_type, line.detail_type, line.report_category].join("|")
+    let total = totals.get(key)
+    if (!total) {
+      total = {
+        month,
+        account: line.account,
+        account_type: line.account_type,
+        detail_type: line.detail_type,
+        report_category: line.report_category,
+        debit: 0,
+        credit: 0,
+        line_count: 0,
+      }
+      totals.set(key, total)
+    }
+    total.debit += Number(line.debit) || 0
+    total.credit += Number(line.credit) || 0
+    total.line_count++
+  })
+
+  return Array.from(totals.values())
+}
+
+export async function fetchMonthlyLedgerTotals(
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: MonthlyTotalsOptions,
+): Promise<MonthlyLedgerTotal[]> {
+  try {
+    return await fetchFromFunction(supabase, organizationId, options)
+  } catch (error) {
+    if (!(error instanceof MissingRollupFunctionError)) throw error
+    console.warn("⚠️ ledger_monthly_totals not installed, summing journal_entry_lines instead")
+    return fetchFromLines(supabase, organizationId, options)
+  }
+}
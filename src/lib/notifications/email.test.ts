@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { startFakeSmtpServer } from "@/test/fakeSmtpServer"
+import { emailTransportFromEnv, smtpTransport, type SmtpOptions } from "./email"
+
+let smtp: Awaited<ReturnType<typeof startFakeSmtpServer>>
+
+const options = (extra: Partial<SmtpOptions> = {}): SmtpOptions => ({
+  host: "127.0.0.1",
+  port: smtp.port,
+  secure: false,
+  from: "Payroll <payroll@acme.test>",
+  ...extra,
+})
+
+beforeEach(async () => {
+  smtp = await startFakeSmtpServer({ rejectRecipient: (address) => address.endsWith("@gone.test") })
+})
+
+afterEach(async () => {
+  await smtp.close()
+  delete process.env.EMAIL_TRANSPORT
+  delete process.env.SMTP_HOST
+  delete process.env.SMTP_PORT
+})
+
+describe("smtpTransport", () => {
+  it("delivers the message with its envelope and headers", async () => {
+    await smtpTransport(options()).send({ to: "dana@acme.test", subject: "Payroll due today", text: "Hello\nSee you" })
+
+    expect(smtp.messages).toHaveLength(1)
+    const [message] = smtp.messages
+    expect(message.from).toBe("payroll@acme.test")
+    expect(message.to).toEqual(["dana@acme.test"])
+    expect(message.user).toBeNull()
+    expect(message.data).toContain("From: Payroll <payroll@acme.test>\n")
+    expect(message.data).toContain("Subject: Payroll due today\n")
+    expect(message.data).toMatch(/\n\nHello\nSee you\n$/)
+  })
+
+  it("logs in with AUTH PLAIN when a user is configured", async () => {
+    await smtpTransport(options({ user: "mailer", password: "secret" })).send({ to: "dana@acme.test", subject: "Hi", text: "Hi" })
+    expect(smtp.messages[0].user).toBe("mailer")
+  })
+
+  it("dot-stuffs body lines so a lone dot doesn't end the message", async () => {
+    await smtpTransport(options()).send({ to: "dana@acme.test", subject: "Dots", text: "first\n.\n..two\nlast" })
+    expect(smtp.messages[0].data).toMatch(/\n\nfirst\n\.\n\.\.two\nlast\n$/)
+  })
+
+  it("encodes a non-ASCII subject", async () => {
+    await smtpTransport(options()).send({ to: "dana@acme.test", subject: "Nómina", text: "Hola" })
+    expect(smtp.messages[0].data).toContain(`Subject: =?UTF-8?B?${Buffer.from("Nómina").toString("base64")}?=\n`)
+  })
+
+  it("fails with the server's reply when a recipient is refused", async () => {
+    await expect(smtpTransport(options()).send({ to: "old@gone.test", subject: "Hi", text: "Hi" })).rejects.toThrow(
+      "SMTP error: 550 old@gone.test: mailbox unavailable",
+    )
+    expect(smtp.messages).toHaveLength(0)
+  })
+})
+
+describe("emailTransportFromEnv", () => {
+  it("sends through SMTP_HOST and SMTP_PORT when EMAIL_TRANSPORT=smtp", async () => {
+    process.env.EMAIL_TRANSPORT = "smtp"
+    process.env.SMTP_HOST = "127.0.0.1"
+    process.env.SMTP_PORT = String(smtp.port)
+
+    const transport = emailTransportFromEnv()
+    expect(transport.name).toBe("smtp")
+    await transport.send({ to: "dana@acme.test", subject: "Hi", text: "Hi" })
+    expect(smtp.messages.map((m) => m.from)).toEqual(["payroll@localhost"])
+  })
+})
@@ -0,0 +1,166 @@
+// src/lib/notifications/email.ts
+// Server-only. Outgoing email behind a small transport interface so callers
+// don't care how mail leaves the app. EMAIL_TRANSPORT picks one:
+//   console (default) - logs the message instead of sending it
+//   smtp              - SMTP_HOST, SMTP_PORT, SMTP_SECURE=true for implicit
+//                       TLS (port 465), SMTP_USER/SMTP_PASSWORD for AUTH PLAIN
+// EMAIL_FROM is the sender. scripts/fake-smtp-server.ts is a local SMTP
+// stand-in for trying the smtp transport without a mail provider.
+
+import { connect as connectTcp, type Socket } from "net"
+import { connect as connectTls } from "tls"
+import { hostname } from "os"
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string | null
+  password?: string | null
+  from: string
+}
+
+const SMTP_TIMEOUT_MS = 15_000
+const DEFAULT_FROM = "payroll@localhost"
+
+export function consoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`✉️ [email not sent] To: ${message.to} · ${message.subject}\n${message.text}`)
+    },
+  }
+}
+
+// RFC 2047 for non-ASCII subjects
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+}
+
+function formatMessage(from: string, message: EmailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, " "))}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ]
+  // Dot-stuffing: a line starting with "." would otherwise end DATA early
+  const body = message.text
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n")
+  return `${headers.join("\r\n")}\r\n\r\n${body}`
+}
+
+// Reads SMTP replies off the socket; multi-line replies ("250-...") are joined
+function replyReader(socket: Socket) {
+  let buffer = ""
+  const replies: string[] = []
+  const waiting: { resolve: (reply: string) => void; reject: (error: Error) => void }[] = []
+  let failure: Error | null = null
+
+  socket.on("data", (chunk: string) => {
+    buffer += chunk
+    let match: RegExpMatchArray | null
+    while ((match = buffer.match(/^((?:\d{3}-[^\r\n]*\r?\n)*\d{3}(?: [^\r\n]*)?)\r?\n/))) {
+      buffer = buffer.slice(match[0].length)
+      const next = waiting.shift()
+      if (next) next.resolve(match[1])
+      else replies.push(match[1])
+    }
+  })
+  const fail = (error: Error) => {
+    failure = error
+    waiting.splice(0).forEach((w) => w.reject(error))
+  }
+  socket.on("error", fail)
+  socket.on("timeout", () => {
+    fail(new Error("SMTP server timed out"))
+    socket.destroy()
+  })
+  socket.on("close", () => fail(new Error("SMTP connection closed")))
+
+  return (): Promise<string> => {
+    const ready = replies.shift()
+    if (ready !== undefined) return Promise.resolve(ready)
+    if (failure) return Promise.reject(failure)
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }))
+  }
+}
+
+export function smtpTransport(options: SmtpOptions): EmailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      const socket = options.secure
+        ? connectTls({ host: options.host, port: options.port, servername: options.host })
+        : connectTcp({ host: options.host, port: options.port })
+      socket.setEncoding("utf8")
+      socket.setTimeout(SMTP_TIMEOUT_MS)
+      const nextReply = replyReader(socket)
+
+      const expect = async (codes: number[]) => {
+        const reply = await nextReply()
+        const code = Number(reply.slice(0, 3))
+        if (!codes.includes(code)) throw new Error(`SMTP error: ${reply.replace(/\r?\n/g, " ")}`)
+      }
+      const command = async (line: string, codes: number[]) => {
+        socket.write(`${line}\r\n`)
+        await expect(codes)
+      }
+
+      try {
+        await expect([220])
+        await command(`EHLO ${hostname() || "localhost"}`, [250])
+        if (options.user) {
+          const credentials = Buffer.from(`\0${options.user}\0${options.password || ""}`, "utf8").toString("base64")
+          await command(`AUTH PLAIN ${credentials}`, [235])
+        }
+        const sender = options.from.match(/<([^>]+)>/)?.[1] || options.from
+        await command(`MAIL FROM:<${sender}>`, [250])
+        await command(`RCPT TO:<${message.to}>`, [250, 251])
+        await command("DATA", [354])
+        await command(`${formatMessage(options.from, message)}\r\n.`, [250])
+        await command("QUIT", [221]).catch(() => undefined)
+      } finally {
+        socket.end()
+      }
+    },
+  }
+}
+
+// The transport configured by the environment
+export function emailTransportFromEnv(): EmailTransport {
+  const from = process.env.EMAIL_FROM || DEFAULT_FROM
+  switch (process.env.EMAIL_TRANSPORT || "console") {
+    case "smtp":
+      if (!process.env.SMTP_HOST) throw new Error("EMAIL_TRANSPORT=smtp needs SMTP_HOST")
+      return smtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (process.env.SMTP_SECURE === "true" ? 465 : 25),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER || null,
+        password: process.env.SMTP_PASSWORD || null,
+        from,
+      })
+    case "console":
+      return consoleTransport()
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${process.env.EMAIL_TRANSPORT}`)
+  }
+}
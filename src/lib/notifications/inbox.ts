@@ -0,0 +1,123 @@
+// src/lib/notifications/inbox.ts
+// Server-only. The in-app notification inbox (user_notifications, see
+// scripts/create-payroll-reminders.sql) and emailing new notifications.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { EmailTransport } from "./email"
+
+export interface UserNotification {
+  id: string
+  organization_id: string
+  user_id: string
+  kind: string
+  title: string
+  body: string
+  link: string | null
+  read_at: string | null
+  emailed_at: string | null
+  email_error: string | null
+  created_at: string
+}
+
+export interface NotificationInput {
+  organization_id: string
+  user_id: string
+  kind: string
+  title: string
+  body: string
+  link?: string | null
+  // Same user + key is only ever stored once
+  dedupe_key: string
+}
+
+export interface EmailResult {
+  sent: number
+  failed: number
+}
+
+const NOTIFICATION_COLUMNS =
+  "id, organization_id, user_id, kind, title, body, link, read_at, emailed_at, email_error, created_at"
+
+// Stores the notifications and returns the ones that are new; repeats of an
+// existing dedupe_key are skipped
+export async function createNotifications(
+  supabase: SupabaseClient,
+  inputs: NotificationInput[],
+): Promise<UserNotification[]> {
+  if (inputs.length === 0) return []
+  const { data, error } = await supabase
+    .from("user_notifications")
+    .upsert(inputs, { onConflict: "user_id,dedupe_key", ignoreDuplicates: true })
+    .select(NOTIFICATION_COLUMNS)
+  if (error) throw error
+  return (data || []) as UserNotification[]
+}
+
+export async function listNotifications(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {},
+): Promise<UserNotification[]> {
+  let query = supabase
+    .from("user_notifications")
+    .select(NOTIFICATION_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 50)
+  if (options.unreadOnly) query = query.is("read_at", null)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as UserNotification[]
+}
+
+// ids omitted marks everything read
+export async function markNotificationsRead(supabase: SupabaseClient, userId: string, ids?: string[]): Promise<void> {
+  let query = supabase
+    .from("user_notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null)
+  if (ids) query = query.in("id", ids)
+
+  const { error } = await query
+  if (error) throw error
+}
+
+// Sends each notification to its user's address and records the outcome on
+// the row; one failed address doesn't stop the rest. Links are app paths,
+// resolved against appUrl (the request origin) for the email.
+export async function emailNotifications(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  notifications: UserNotification[],
+  emails: Map<string, string>,
+  appUrl: string,
+): Promise<EmailResult> {
+  const result: EmailResult = { sent: 0, failed: 0 }
+  for (const notification of notifications) {
+    const to = emails.get(notification.user_id)
+    if (!to) continue
+
+    let emailError: string | null = null
+    try {
+      await transport.send({
+        to,
+        subject: notification.title,
+        text: notification.body + (notification.link ? `\n\n${new URL(notification.link, appUrl)}` : ""),
+      })
+      result.sent++
+    } catch (error) {
+      emailError = error instanceof Error ? error.message : "Unknown error"
+      console.error(`❌ Email to ${to} failed (${transport.name}):`, emailError)
+      result.failed++
+    }
+
+    const { error } = await supabase
+      .from("user_notifications")
+      .update(emailError ? { email_error: emailError } : { emailed_at: new Date().toISOString(), email_error: null })
+      .eq("id", notification.id)
+    if (error) throw error
+  }
+  return result
+}
@@ -0,0 +1,25 @@
+// src/lib/notifications/inboxClient.ts
+// Browser helpers for /api/notifications, the signed-in user's inbox.
+
+import { authFetch } from "@/lib/supabase/client"
+import type { UserNotification } from "./inbox"
+
+export type { UserNotification } from "./inbox"
+
+export async function fetchNotifications(): Promise<{ notifications: UserNotification[]; unread: number }> {
+  const res = await authFetch("/api/notifications")
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return { notifications: json.notifications || [], unread: json.unread || 0 }
+}
+
+// ids omitted marks everything read
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  const res = await authFetch("/api/notifications", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(ids ? { ids } : {}),
+  })
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+}
@@ -0,0 +1,381 @@
+// src/lib/payroll/ach.ts
+// Server-only. NACHA direct-deposit files for approved payroll (see
+// scripts/create-payroll-ach.sql).
+//
+// prepareAchExport gathers every approved submission for a pay date, sums the
+// approved payroll_entries per employee (one batch per location) and checks
+// them against the ACH settings and stored bank details. The report it returns
+// is shown before export; the file is only built when the report has no errors.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { decryptAccountNumber, encryptAccountNumber, loadAchAccounts } from "./bankAccounts"
+import {
+  achFileTotals,
+  buildNachaFile,
+  isValidRoutingNumber,
+  type AchAccount,
+  type AchAccountType,
+  type AchBatch,
+  type AchFileTotals,
+  type AchOriginator,
+} from "./nacha"
+import { PayrollError } from "./submissions"
+
+export interface AchSettings {
+  organization_id: string
+  immediate_destination: string
+  immediate_destination_name: string
+  immediate_origin: string
+  immediate_origin_name: string
+  company_name: string
+  company_identification: string
+  originating_dfi: string
+  entry_description: string
+  offset_routing_number: string | null
+  offset_account_last4: string | null
+  offset_account_type: AchAccountType | null
+  updated_at: string | null
+}
+
+export type AchSettingsInput = Omit<
+  AchSettings,
+  "organization_id" | "offset_account_last4" | "updated_at"
+> & {
+  // Plain account number; omitted or blank keeps the stored one
+  offset_account_number?: string | null
+}
+
+export interface AchReportEntry {
+  employeeId: string
+  name: string
+  amount: number
+  accountLast4: string | null
+  accountType: AchAccountType | null
+}
+
+export interface AchReportBatch {
+  locationId: string
+  locationName: string
+  submissionIds: string[]
+  entries: AchReportEntry[]
+  total: number
+}
+
+export interface AchValidationReport {
+  payDate: string
+  ok: boolean
+  errors: string[]
+  warnings: string[]
+  batches: AchReportBatch[]
+  totals: AchFileTotals
+  previousExports: { id: string; file_id_modifier: string; total_credit: number; created_at: string }[]
+}
+
+export interface AchExport {
+  report: AchValidationReport
+  // null when the report has errors
+  file: string | null
+  fileIdModifier: string
+}
+
+const SETTINGS_COLUMNS =
+  "organization_id, immediate_destination, immediate_destination_name, immediate_origin, immediate_origin_name, company_name, company_identification, originating_dfi, entry_description, offset_routing_number, offset_account_last4, offset_account_type, updated_at"
+
+const FILE_ID_MODIFIERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+export async function loadAchSettings(supabase: SupabaseClient, organizationId: string): Promise<AchSettings | null> {
+  const { data, error } = await supabase
+    .from("organization_ach_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("organization_id", organizationId)
+    .maybeSingle()
+  if (error) throw error
+  return data as AchSettings | null
+}
+
+// Returns an error message, or null when the settings can be saved
+export function validateAchSettings(input: Partial<AchSettingsInput>): string | null {
+  if (!input.immediate_destination || !isValidRoutingNumber(input.immediate_destination)) {
+    return "Bank routing number (immediate destination) is not valid"
+  }
+  if (!input.immediate_destination_name?.trim()) return "Bank name is required"
+  if (!input.immediate_origin?.trim() || input.immediate_origin.length > 10) {
+    return "Immediate origin must be 1 to 10 characters"
+  }
+  if (!input.immediate_origin_name?.trim()) return "Company name for the file header is required"
+  if (!input.company_name?.trim()) return "Company name is required"
+  if (!input.company_identification?.trim() || input.company_identification.length > 10) {
+    return "Company identification must be 1 to 10 characters"
+  }
+  if (!input.originating_dfi || !/^\d{8}$/.test(input.originating_dfi)) {
+    return "Originating DFI must be the first 8 digits of the bank routing number"
+  }
+  if (input.offset_routing_number) {
+    if (!isValidRoutingNumber(input.offset_routing_number)) return "Offset routing number is not valid"
+    if (input.offset_account_type !== "checking" && input.offset_account_type !== "savings") {
+      return "Offset account type must be checking or savings"
+    }
+  }
+  if (input.offset_account_number && !/^\d{4,17}$/.test(input.offset_account_number)) {
+    return "Offset account number must be 4 to 17 digits"
+  }
+  return null
+}
+
+export async function saveAchSettings(
+  supabase: SupabaseClient,
+  organizationId: string,
+  input: AchSettingsInput,
+  userId: string,
+): Promise<AchSettings> {
+  const { offset_account_number, ...settings } = input
+  const offset: Record<string, string | null> = {}
+  if (!settings.offset_routing_number) {
+    Object.assign(offset, {
+      offset_routing_number: null,
+      offset_account_type: null,
+      offset_account_number_encrypted: null,
+      offset_account_last4: null,
+    })
+  } else if (offset_account_number) {
+    offset.offset_account_number_encrypted = encryptAccountNumber(offset_account_number)
+    offset.offset_account_last4 = offset_account_number.slice(-4)
+  } else {
+    const existing = await loadAchSettings(supabase, organizationId)
+    if (!existing?.offset_account_last4) throw new PayrollError("Offset account number is required", 400)
+  }
+
+  const { data, error } = await supabase
+    .from("organization_ach_settings")
+    .upsert(
+      {
+        organization_id: organizationId,
+        ...settings,
+        entry_description: settings.entry_description?.trim() || "PAYROLL",
+        ...offset,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "organization_id" },
+    )
+    .select(SETTINGS_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as AchSettings
+}
+
+async function loadOffsetAccount(supabase: SupabaseClient, settings: AchSettings): Promise<AchAccount | null> {
+  if (!settings.offset_routing_number || !settings.offset_account_type) return null
+  const { data, error } = await supabase
+    .from("organization_ach_settings")
+    .select("offset_account_number_encrypted")
+    .eq("organization_id", settings.organization_id)
+    .single()
+  if (error) throw error
+  if (!data.offset_account_number_encrypted) return null
+  return {
+    routingNumber: settings.offset_routing_number,
+    accountNumber: decryptAccountNumber(data.offset_account_number_encrypted),
+    accountType: settings.offset_account_type,
+  }
+}
+
+function originatorFor(settings: AchSettings): AchOriginator {
+  return {
+    immediateDestination: settings.immediate_destination,
+    immediateDestinationName: settings.immediate_destination_name,
+    immediateOrigin: settings.immediate_origin,
+    immediateOriginName: settings.immediate_origin_name,
+    companyName: settings.company_name,
+    companyIdentification: settings.company_identification,
+    originatingDfi: settings.originating_dfi,
+    entryDescription: settings.entry_description,
+  }
+}
+
+// Files sent to the bank on the same day need distinct modifiers
+async function nextFileIdModifier(supabase: SupabaseClient, organizationId: string, now: Date): Promise<string> {
+  const today = now.toISOString().slice(0, 10)
+  const { count, error } = await supabase
+    .from("payroll_ach_exports")
+    .select("id", { count: "exact", head: true })
+    .eq("organization_id", organizationId)
+    .gte("created_at", `${today}T00:00:00Z`)
+  if (error) throw error
+  const index = count || 0
+  if (index >= FILE_ID_MODIFIERS.length) {
+    throw new PayrollError("Too many ACH files today; the bank accepts 36 per day", 409)
+  }
+  return FILE_ID_MODIFIERS[index]
+}
+
+export async function prepareAchExport(
+  supabase: SupabaseClient,
+  organizationId: string,
+  payDate: string,
+): Promise<AchExport> {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const settings = await loadAchSettings(supabase, organizationId)
+  if (!settings) errors.push("ACH settings are missing. Enter the bank's origination details first.")
+  if (!process.env.BANK_ACCOUNT_ENCRYPTION_KEY) errors.push("BANK_ACCOUNT_ENCRYPTION_KEY is not configured")
+
+  const { data: submissions, error } = await supabase
+    .from("payroll_submissions")
+    .select("id, location_id, status, locations(name)")
+    .eq("organization_id", organizationId)
+    .eq("pay_date", payDate)
+  if (error) throw error
+
+  const approved = (submissions || []).filter((s) => s.status === "approved")
+  const notApproved = (submissions || []).length - approved.length
+  if (notApproved > 0) {
+    warnings.push(`${notApproved} submission(s) for this pay date aren't approved and are left out`)
+  }
+  if (approved.length === 0) errors.push("No approved payroll for this pay date")
+
+  const { data: entries, error: entriesError } = await supabase
+    .from("payroll_entries")
+    .select("submission_id, employee_id, employee_name, employee_first_name, employee_last_name, amount, status")
+    .in(
+      "submission_id",
+      approved.map((s) => s.id),
+    )
+  if (entriesError) throw entriesError
+
+  // One batch per location; an employee paid by two submissions there gets one deposit
+  const batchByLocation = new Map<string, AchReportBatch>()
+  for (const submission of approved) {
+    const location = Array.isArray(submission.locations) ? submission.locations[0] : submission.locations
+    const batch: AchReportBatch = batchByLocation.get(submission.location_id) || {
+      locationId: submission.location_id,
+      locationName: (location as { name?: string } | null)?.name || "Unknown Location",
+      submissionIds: [],
+      entries: [],
+      total: 0,
+    }
+    batch.submissionIds.push(submission.id)
+    batchByLocation.set(submission.location_id, batch)
+  }
+  const locationBySubmission = new Map(approved.map((s) => [s.id, s.location_id]))
+  for (const row of entries || []) {
+    if (row.status && row.status !== "approved") continue
+    const batch = batchByLocation.get(locationBySubmission.get(row.submission_id)!)!
+    const name =
+      row.employee_name || [row.employee_first_name, row.employee_last_name].filter(Boolean).join(" ") || "Unknown"
+    const existing = batch.entries.find((e) => e.employeeId === row.employee_id)
+    if (existing) existing.amount += Number(row.amount || 0)
+    else {
+      batch.entries.push({
+        employeeId: row.employee_id,
+        name,
+        amount: Number(row.amount || 0),
+        accountLast4: null,
+        accountType: null,
+      })
+    }
+  }
+
+  const employeeIds = [...new Set((entries || []).map((e) => e.employee_id))]
+  const accounts = process.env.BANK_ACCOUNT_ENCRYPTION_KEY
+    ? await loadAchAccounts(supabase, organizationId, employeeIds)
+    : new Map()
+
+  const achBatches: AchBatch[] = []
+  const offset = settings && process.env.BANK_ACCOUNT_ENCRYPTION_KEY ? await loadOffsetAccount(supabase, settings) : null
+  for (const batch of batchByLocation.values()) {
+    batch.entries.sort((a, b) => a.name.localeCompare(b.name))
+    const achEntries: AchBatch["entries"] = []
+    for (const entry of batch.entries) {
+      entry.amount = Math.round(entry.amount * 100) / 100
+      if (entry.amount <= 0) {
+        if (entry.amount < 0) errors.push(`${entry.name} (${batch.locationName}) has a negative total of ${entry.amount}`)
+        else warnings.push(`${entry.name} (${batch.locationName}) has nothing to pay and is left out`)
+        continue
+      }
+      const account = accounts.get(entry.employeeId)
+      if (!account) {
+        errors.push(`${entry.name} (${batch.locationName}) has no bank details`)
+        continue
+      }
+      if (!isValidRoutingNumber(account.routingNumber)) {
+        errors.push(`${entry.name} has an invalid routing number`)
+        continue
+      }
+      entry.accountLast4 = account.accountNumber.slice(-4)
+      entry.accountType = account.accountType
+      achEntries.push({
+        name: account.holderName,
+        individualId: entry.employeeId.replace(/-/g, "").slice(0, 15),
+        amountCents: toCents(entry.amount),
+        routingNumber: account.routingNumber,
+        accountNumber: account.accountNumber,
+        accountType: account.accountType,
+      })
+    }
+    batch.total = Math.round(batch.entries.reduce((sum, e) => sum + Math.max(e.amount, 0), 0) * 100) / 100
+    if (achEntries.length > 0) {
+      achBatches.push({
+        effectiveDate: payDate,
+        discretionaryData: batch.locationName,
+        entries: achEntries,
+        offset,
+      })
+    }
+  }
+  if (settings && !offset) {
+    warnings.push("No offset account is set; the bank must settle the file against your account")
+  }
+
+  const { data: previousExports, error: exportsError } = await supabase
+    .from("payroll_ach_exports")
+    .select("id, file_id_modifier, total_credit, created_at")
+    .eq("organization_id", organizationId)
+    .eq("pay_date", payDate)
+    .order("created_at", { ascending: false })
+  if (exportsError) throw exportsError
+  if ((previousExports || []).length > 0) {
+    warnings.push("An ACH file was already exported for this pay date. Don't send both to the bank.")
+  }
+
+  const now = new Date()
+  const ok = errors.length === 0
+  const fileIdModifier = ok ? await nextFileIdModifier(supabase, organizationId, now) : FILE_ID_MODIFIERS[0]
+  const report: AchValidationReport = {
+    payDate,
+    ok,
+    errors,
+    warnings,
+    batches: [...batchByLocation.values()],
+    totals: achFileTotals(achBatches),
+    previousExports: (previousExports || []) as AchValidationReport["previousExports"],
+  }
+
+  return {
+    report,
+    file: ok ? buildNachaFile(originatorFor(settings!), achBatches, { createdAt: now, fileIdModifier }) : null,
+    fileIdModifier,
+  }
+}
+
+export async function recordAchExport(
+  supabase: SupabaseClient,
+  organizationId: string,
+  achExport: AchExport,
+  userId: string,
+): Promise<void> {
+  const { report } = achExport
+  const { error } = await supabase.from("payroll_ach_exports").insert({
+    organization_id: organizationId,
+    pay_date: report.payDate,
+    file_id_modifier: achExport.fileIdModifier,
+    entry_count: report.totals.entryCount,
+    total_credit: report.totals.totalCreditCents / 100,
+    submission_ids: report.batches.flatMap((b) => b.submissionIds),
+    exported_by: userId,
+  })
+  if (error) throw error
+}
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase, type Row } from "@/test/fakeSupabase"
+import type { RequestUser } from "@/lib/auth/server"
+
+const ORG = "org-1"
+
+let db: FakeSupabase
+let platform: FakeSupabase
+let reviews: Row[]
+
+vi.mock("@/lib/auth/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/server")>()),
+  getPlatformAdminClient: () => platform.client,
+}))
+
+const { reviewWithPolicy } = await import("./approvals")
+
+const user = (id: string, role: RequestUser["role"]): RequestUser => ({ id, email: `${id}@example.com`, role, organizationId: ORG })
+
+const submission = (totalAmount: number) => ({
+  id: "sub-1",
+  organization_id: ORG,
+  location_id: "loc-main",
+  total_amount: totalAmount,
+  submitted_by: "owner-1",
+  status: "pending",
+})
+
+beforeEach(() => {
+  platform = new FakeSupabase({
+    users: [
+      { id: "owner-1", email: "owner-1@example.com", name: "Owner", role: "owner", organization_id: ORG, status: "active" },
+      { id: "mgr-1", email: "mgr-1@example.com", name: "Manager", role: "admin", organization_id: ORG, status: "active" },
+      { id: "cfo-1", email: "cfo-1@example.com", name: "CFO", role: "admin", organization_id: ORG, status: "active" },
+    ],
+  })
+  db = new FakeSupabase({ payroll_approvals: [], location_managers: [] })
+
+  // Records the approval the way review_payroll_submission does
+  reviews = []
+  db.onRpc("review_payroll_submission", (args) => {
+    reviews.push(args)
+    db.rows("payroll_approvals").push({
+      id: `approval-${reviews.length}`,
+      submission_id: args.p_submission_id,
+      approved_by: args.p_reviewed_by,
+      approved_at: "2026-03-09T10:00:00Z",
+      action: args.p_action,
+      step_index: args.p_step_index,
+      step_name: args.p_step_name,
+      created_at: `2026-03-09T10:00:0${reviews.length}Z`,
+    })
+    return { status: args.p_final ? "approved" : "pending" }
+  })
+})
+
+describe("reviewWithPolicy", () => {
+  it("doesn't let the submitter approve their own run under the default policy", async () => {
+    db.rows("payroll_submissions").push(submission(1200))
+
+    await expect(reviewWithPolicy(db.client, "sub-1", user("owner-1", "owner"), "approved")).rejects.toMatchObject({ status: 403 })
+    expect(reviews).toHaveLength(0)
+
+    const result = await reviewWithPolicy(db.client, "sub-1", user("mgr-1", "admin"), "approved")
+    expect(result.status).toBe("approved")
+  })
+
+  it("requires min_amount steps for a reversing correction as large as the threshold", async () => {
+    db.rows("payroll_submissions").push(submission(-5000))
+    db.rows("payroll_approval_policies").push({
+      id: "policy-1",
+      organization_id: ORG,
+      location_id: null,
+      steps: [
+        { name: "Manager", approver_type: "users", user_ids: ["mgr-1"] },
+        { name: "Finance", approver_type: "users", user_ids: ["cfo-1"], min_amount: 1000 },
+      ],
+      prevent_self_approval: true,
+      updated_at: null,
+    })
+
+    const result = await reviewWithPolicy(db.client, "sub-1", user("mgr-1", "admin"), "approved")
+
+    expect(reviews[0]).toMatchObject({ p_step_index: 0, p_final: false })
+    expect(result.status).toBe("pending")
+    expect(result.approval.steps.map((s) => s.required)).toEqual([true, true])
+    expect(result.approval.currentStep).toBe(1)
+    expect(result.approval.pendingApprovers.map((a) => a.id)).toEqual(["cfo-1"])
+  })
+})
@@ -0,0 +1,397 @@
+// src/lib/payroll/approvals.ts
+// Server-only. Multi-step payroll approval chains (see
+// scripts/create-payroll-approval-policies.sql).
+//
+// A submission follows its location's policy, else the organization default,
+// else DEFAULT_STEPS (one approval by any admin, the behaviour before chains).
+// Steps with min_amount only apply to larger runs. Each approval is a
+// payroll_approvals row; the review round restarts after a rejection.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ADMIN_ROLES, isAdminRole, isUserRole, type UserRole } from "@/lib/auth/routes"
+import { AuthError, getPlatformAdminClient, type RequestUser } from "@/lib/auth/server"
+import { PayrollError, reviewSubmission, type ReviewAction, type ReviewResult } from "./submissions"
+
+export type ApproverType = "location_manager" | "role" | "users"
+
+export interface ApprovalStep {
+  name: string
+  approver_type: ApproverType
+  roles?: UserRole[]
+  user_ids?: string[]
+  min_amount?: number | null
+}
+
+export interface ApprovalPolicy {
+  id: string | null // null for the built-in default
+  organization_id: string
+  location_id: string | null
+  steps: ApprovalStep[]
+  prevent_self_approval: boolean
+  updated_at: string | null
+}
+
+export type ApprovalPolicyInput = Pick<ApprovalPolicy, "steps" | "prevent_self_approval">
+
+export interface ApprovalRecord {
+  id: string
+  submission_id: string
+  approved_by: string
+  approved_at: string
+  action: ReviewAction
+  notes: string | null
+  step_index: number | null
+  step_name: string | null
+  created_at: string
+}
+
+export interface Approver {
+  id: string
+  name: string | null
+  email: string
+}
+
+export interface ApprovalStepStatus {
+  index: number
+  name: string
+  minAmount: number | null
+  required: boolean
+  approvedBy: string | null
+  approvedAt: string | null
+}
+
+export interface ApprovalStatus {
+  submissionId: string
+  steps: ApprovalStepStatus[]
+  // Index of the next step to approve; null once every required step is done
+  currentStep: number | null
+  pendingApprovers: Approver[]
+}
+
+// Fields of payroll_submissions the chain needs
+export interface ReviewableSubmission {
+  id: string
+  organization_id: string
+  location_id: string
+  total_amount: number
+  submitted_by: string | null
+  status: string
+}
+
+const POLICY_COLUMNS = "id, organization_id, location_id, steps, prevent_self_approval, updated_at"
+const SUBMISSION_COLUMNS = "id, organization_id, location_id, total_amount, submitted_by, status"
+const APPROVER_TYPES: ApproverType[] = ["location_manager", "role", "users"]
+
+const DEFAULT_STEPS: ApprovalStep[] = [{ name: "Admin approval", approver_type: "role", roles: ADMIN_ROLES }]
+
+export function defaultApprovalPolicy(organizationId: string): ApprovalPolicy {
+  return {
+    id: null,
+    organization_id: organizationId,
+    location_id: null,
+    steps: DEFAULT_STEPS,
+    prevent_self_approval: true,
+    updated_at: null,
+  }
+}
+
+/* ------------------------------ Policies ------------------------------ */
+
+export async function listApprovalPolicies(supabase: SupabaseClient, organizationId: string): Promise<ApprovalPolicy[]> {
+  const { data, error } = await supabase
+    .from("payroll_approval_policies")
+    .select(POLICY_COLUMNS)
+    .eq("organization_id", organizationId)
+  if (error) throw error
+  return (data || []) as ApprovalPolicy[]
+}
+
+function policyFor(policies: ApprovalPolicy[], organizationId: string, locationId: string): ApprovalPolicy {
+  return (
+    policies.find((p) => p.location_id === locationId) ||
+    policies.find((p) => p.location_id === null) ||
+    defaultApprovalPolicy(organizationId)
+  )
+}
+
+// Returns an error message, or null when the policy can be saved
+export function validateApprovalPolicy(input: Partial<ApprovalPolicyInput>): string | null {
+  if (!Array.isArray(input.steps) || input.steps.length === 0) return "At least one approval step is required"
+  for (const [i, step] of input.steps.entries()) {
+    const label = `Step ${i + 1}`
+    if (!step || typeof step.name !== "string" || !step.name.trim()) return `${label} needs a name`
+    if (!APPROVER_TYPES.includes(step.approver_type)) {
+      return `${label}: approver_type must be ${APPROVER_TYPES.join(", ")}`
+    }
+    if (step.approver_type === "role" && (!step.roles?.length || !step.roles.every(isUserRole))) {
+      return `${label}: choose at least one role`
+    }
+    if (step.approver_type === "users" && (!step.user_ids?.length || step.user_ids.some((id) => typeof id !== "string"))) {
+      return `${label}: choose at least one approver`
+    }
+    if (step.min_amount != null && !(typeof step.min_amount === "number" && step.min_amount >= 0)) {
+      return `${label}: minimum amount must be a positive number`
+    }
+  }
+  if (input.prevent_self_approval !== undefined && typeof input.prevent_self_approval !== "boolean") {
+    return "prevent_self_approval must be true or false"
+  }
+  return null
+}
+
+// Keeps only the fields that apply to each step's approver type
+function cleanSteps(steps: ApprovalStep[]): ApprovalStep[] {
+  return steps.map((step) => ({
+    name: step.name.trim(),
+    approver_type: step.approver_type,
+    ...(step.approver_type === "role" ? { roles: step.roles } : {}),
+    ...(step.approver_type === "users" ? { user_ids: [...new Set(step.user_ids)] } : {}),
+    min_amount: step.min_amount ?? null,
+  }))
+}
+
+export async function saveApprovalPolicy(
+  supabase: SupabaseClient,
+  organizationId: string,
+  locationId: string | null,
+  input: ApprovalPolicyInput,
+  userId: string,
+): Promise<ApprovalPolicy> {
+  const existing = (await listApprovalPolicies(supabase, organizationId)).find((p) => p.location_id === locationId)
+  const row = {
+    organization_id: organizationId,
+    location_id: locationId,
+    steps: cleanSteps(input.steps),
+    prevent_self_approval: input.prevent_self_approval,
+    updated_by: userId,
+    updated_at: new Date().toISOString(),
+  }
+
+  // The unique indexes are partial, so upsert can't target them
+  const query = existing
+    ? supabase.from("payroll_approval_policies").update(row).eq("id", existing.id)
+    : supabase.from("payroll_approval_policies").insert(row)
+  const { data, error } = await query.select(POLICY_COLUMNS).single()
+  if (error) throw error
+  return data as ApprovalPolicy
+}
+
+export async function deleteApprovalPolicy(
+  supabase: SupabaseClient,
+  organizationId: string,
+  locationId: string | null,
+): Promise<void> {
+  let query = supabase.from("payroll_approval_policies").delete().eq("organization_id", organizationId)
+  query = locationId ? query.eq("location_id", locationId) : query.is("location_id", null)
+  const { error } = await query
+  if (error) throw error
+}
+
+/* ------------------------------ Status ------------------------------ */
+
+async function loadApprovalRecords(
+  supabase: SupabaseClient,
+  submissionIds: string[],
+): Promise<Map<string, ApprovalRecord[]>> {
+  const bySubmission = new Map<string, ApprovalRecord[]>()
+  if (submissionIds.length === 0) return bySubmission
+
+  const { data, error } = await supabase
+    .from("payroll_approvals")
+    .select("id, submission_id, approved_by, approved_at, action, notes, step_index, step_name, created_at")
+    .in("submission_id", submissionIds)
+    .order("created_at")
+  if (error) throw error
+  for (const row of (data || []) as ApprovalRecord[]) {
+    bySubmission.set(row.submission_id, [...(bySubmission.get(row.submission_id) || []), row])
+  }
+  return bySubmission
+}
+
+// Approvals since the last rejection; a resubmitted run starts the chain over
+export function currentRound(records: ApprovalRecord[]): ApprovalRecord[] {
+  const lastRejection = records.map((r) => r.action).lastIndexOf("rejected")
+  return records.slice(lastRejection + 1).filter((r) => r.action === "approved")
+}
+
+// min_amount applies to the run's size, so a reversing correction (a negative
+// total) needs the same sign-off as a run paying that much
+function stepStatuses(policy: ApprovalPolicy, total: number, round: ApprovalRecord[]): ApprovalStepStatus[] {
+  return policy.steps.map((step, index) => {
+    const approval = round.find((r) => r.step_index === index)
+    return {
+      index,
+      name: step.name,
+      minAmount: step.min_amount ?? null,
+      required: step.min_amount == null || Math.abs(total) >= step.min_amount,
+      approvedBy: approval?.approved_by ?? null,
+      approvedAt: approval?.approved_at ?? null,
+    }
+  })
+}
+
+// location_managers user ids by location
+export async function loadLocationManagers(
+  supabase: SupabaseClient,
+  locationIds: string[],
+): Promise<Map<string, Set<string>>> {
+  const byLocation = new Map<string, Set<string>>()
+  if (locationIds.length === 0) return byLocation
+
+  const { data, error } = await supabase
+    .from("location_managers")
+    .select("user_id, location_id")
+    .in("location_id", locationIds)
+  if (error) throw error
+  for (const row of (data || []) as { user_id: string; location_id: string }[]) {
+    byLocation.set(row.location_id, (byLocation.get(row.location_id) || new Set()).add(row.user_id))
+  }
+  return byLocation
+}
+
+function canApproveStep(user: { id: string; role: UserRole | null }, step: ApprovalStep, managers: Set<string>) {
+  switch (step.approver_type) {
+    case "location_manager":
+      return managers.has(user.id)
+    case "role":
+      return !!user.role && (step.roles || []).includes(user.role)
+    case "users":
+      return (step.user_ids || []).includes(user.id)
+  }
+}
+
+// Platform users of the organization who aren't deactivated
+export async function loadOrganizationMembers(organizationId: string) {
+  const { data, error } = await getPlatformAdminClient()
+    .from("users")
+    .select("id, email, name, role, status")
+    .eq("organization_id", organizationId)
+  if (error) throw error
+  return ((data || []) as (Approver & { role: string; status: string | null })[]).filter(
+    (member) => member.status !== "deactivated",
+  )
+}
+
+// Where each pending submission is in its chain and who can approve next
+export async function approvalStatuses(
+  supabase: SupabaseClient,
+  organizationId: string,
+  submissions: ReviewableSubmission[],
+): Promise<Record<string, ApprovalStatus>> {
+  if (submissions.length === 0) return {}
+
+  const [policies, records, managers, members] = await Promise.all([
+    listApprovalPolicies(supabase, organizationId),
+    loadApprovalRecords(
+      supabase,
+      submissions.map((s) => s.id),
+    ),
+    loadLocationManagers(supabase, [...new Set(submissions.map((s) => s.location_id))]),
+    loadOrganizationMembers(organizationId),
+  ])
+
+  const statuses: Record<string, ApprovalStatus> = {}
+  for (const submission of submissions) {
+    const policy = policyFor(policies, organizationId, submission.location_id)
+    const round = currentRound(records.get(submission.id) || [])
+    const steps = stepStatuses(policy, Number(submission.total_amount || 0), round)
+    const current = steps.find((s) => s.required && !s.approvedBy) || null
+    const locationManagers = managers.get(submission.location_id) || new Set<string>()
+
+    const pendingApprovers =
+      current && submission.status === "pending"
+        ? members
+            .filter((m) => canApproveStep({ id: m.id, role: isUserRole(m.role) ? m.role : null }, policy.steps[current.index], locationManagers))
+            .filter((m) => !(policy.prevent_self_approval && m.id === submission.submitted_by))
+            .filter((m) => !round.some((r) => r.approved_by === m.id))
+            .map(({ id, name, email }) => ({ id, name, email }))
+        : []
+
+    statuses[submission.id] = {
+      submissionId: submission.id,
+      steps,
+      currentStep: current?.index ?? null,
+      pendingApprovers,
+    }
+  }
+  return statuses
+}
+
+export async function approvalHistory(supabase: SupabaseClient, submissionId: string): Promise<ApprovalRecord[]> {
+  return (await loadApprovalRecords(supabase, [submissionId])).get(submissionId) || []
+}
+
+export async function getReviewableSubmission(
+  supabase: SupabaseClient,
+  submissionId: string,
+): Promise<ReviewableSubmission> {
+  const { data, error } = await supabase
+    .from("payroll_submissions")
+    .select(SUBMISSION_COLUMNS)
+    .eq("id", submissionId)
+    .maybeSingle()
+  if (error) throw error
+  if (!data) throw new PayrollError("Submission not found", 404)
+  return data as ReviewableSubmission
+}
+
+/* ------------------------------ Review ------------------------------ */
+
+// Approves the submission's current step (posting payroll when it is the last
+// required one) or rejects it. Approvers of the current step and admins may
+// reject; only the current step's approvers may approve.
+export async function reviewWithPolicy(
+  supabase: SupabaseClient,
+  submissionId: string,
+  user: RequestUser,
+  action: ReviewAction,
+  notes?: string | null,
+): Promise<ReviewResult & { approval: ApprovalStatus }> {
+  const submission = await getReviewableSubmission(supabase, submissionId)
+  if (submission.status !== "pending") throw new PayrollError(`Submission is already ${submission.status}`, 409)
+
+  const [policies, records, managers] = await Promise.all([
+    listApprovalPolicies(supabase, submission.organization_id),
+    loadApprovalRecords(supabase, [submissionId]),
+    loadLocationManagers(supabase, [submission.location_id]),
+  ])
+  const policy = policyFor(policies, submission.organization_id, submission.location_id)
+  const round = currentRound(records.get(submissionId) || [])
+  const steps = stepStatuses(policy, Number(submission.total_amount || 0), round)
+  const current = steps.find((s) => s.required && !s.approvedBy) || null
+  const step = current ? policy.steps[current.index] : null
+  const isStepApprover = !!step && canApproveStep(user, step, managers.get(submission.location_id) || new Set())
+
+  let result: ReviewResult
+  if (action === "rejected") {
+    if (!isStepApprover && !isAdminRole(user.role)) {
+      throw new AuthError("Only this step's approvers or an admin can reject this payroll", 403)
+    }
+    result = await reviewSubmission(supabase, submissionId, action, user.id, notes)
+  } else if (!current || !step) {
+    // Every required step is approved (e.g. the policy changed mid-review); an admin posts it
+    if (!isAdminRole(user.role)) throw new AuthError("Only organization admins can do this", 403)
+    result = await reviewSubmission(supabase, submissionId, action, user.id, notes)
+  } else {
+    if (!isStepApprover) {
+      throw new AuthError(`Waiting on "${step.name}"; you are not an approver for this step`, 403)
+    }
+    if (policy.prevent_self_approval && user.id === submission.submitted_by) {
+      throw new AuthError("You can't approve payroll you submitted", 403)
+    }
+    if (round.some((r) => r.approved_by === user.id)) {
+      throw new PayrollError("You already approved this payroll; the next step needs a different approver", 409)
+    }
+    const final = !steps.some((s) => s.index > current.index && s.required && !s.approvedBy)
+    result = await reviewSubmission(supabase, submissionId, action, user.id, notes, {
+      index: current.index,
+      name: step.name,
+      final,
+    })
+  }
+
+  const approval = (
+    await approvalStatuses(supabase, submission.organization_id, [{ ...submission, status: result.status }])
+  )[submissionId]
+  return { ...result, approval }
+}
@@ -0,0 +1,149 @@
+// src/lib/payroll/bankAccounts.ts
+// Server-only. Employee direct-deposit accounts (see scripts/create-payroll-ach.sql).
+//
+// Account numbers are encrypted with AES-256-GCM before they reach the
+// database. BANK_ACCOUNT_ENCRYPTION_KEY is 32 bytes, base64 encoded; the stored
+// value is "v1:<iv>:<auth tag>:<ciphertext>" so the key can be rotated later.
+// Only the last four digits ever leave the server.
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { AchAccount, AchAccountType } from "./nacha"
+import { isValidRoutingNumber } from "./nacha"
+import { PayrollError } from "./submissions"
+
+export interface BankAccountSummary {
+  employee_id: string
+  account_holder_name: string
+  routing_number: string
+  account_last4: string
+  account_type: AchAccountType
+  updated_at: string | null
+}
+
+export interface BankAccountInput {
+  accountHolderName: string
+  routingNumber: string
+  accountNumber: string
+  accountType: AchAccountType
+}
+
+const SUMMARY_COLUMNS = "employee_id, account_holder_name, routing_number, account_last4, account_type, updated_at"
+const CIPHER = "aes-256-gcm"
+
+function encryptionKey(): Buffer {
+  const raw = process.env.BANK_ACCOUNT_ENCRYPTION_KEY
+  if (!raw) throw new Error("Missing BANK_ACCOUNT_ENCRYPTION_KEY environment variable")
+  const key = Buffer.from(raw, "base64")
+  if (key.length !== 32) throw new Error("BANK_ACCOUNT_ENCRYPTION_KEY must be 32 bytes, base64 encoded")
+  return key
+}
+
+export function encryptAccountNumber(accountNumber: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(CIPHER, encryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(accountNumber, "utf8"), cipher.final()])
+  return ["v1", iv.toString("base64"), cipher.getAuthTag().toString("base64"), ciphertext.toString("base64")].join(":")
+}
+
+export function decryptAccountNumber(stored: string): string {
+  const [version, iv, tag, ciphertext] = stored.split(":")
+  if (version !== "v1" || !iv || !tag || !ciphertext) throw new Error("Unrecognized encrypted account number")
+  const decipher = createDecipheriv(CIPHER, encryptionKey(), Buffer.from(iv, "base64"))
+  decipher.setAuthTag(Buffer.from(tag, "base64"))
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8")
+}
+
+// Returns an error message, or null when the details can be saved
+export function validateBankAccount(input: Partial<BankAccountInput>): string | null {
+  if (!input.accountHolderName?.trim()) return "Account holder name is required"
+  if (!input.routingNumber || !isValidRoutingNumber(input.routingNumber)) return "Routing number is not valid"
+  if (!input.accountNumber || !/^\d{4,17}$/.test(input.accountNumber)) return "Account number must be 4 to 17 digits"
+  if (input.accountType !== "checking" && input.accountType !== "savings") {
+    return "Account type must be checking or savings"
+  }
+  return null
+}
+
+export async function listBankAccounts(
+  supabase: SupabaseClient,
+  organizationId: string,
+): Promise<BankAccountSummary[]> {
+  const { data, error } = await supabase
+    .from("employee_bank_accounts")
+    .select(SUMMARY_COLUMNS)
+    .eq("organization_id", organizationId)
+  if (error) throw error
+  return (data || []) as BankAccountSummary[]
+}
+
+export async function saveBankAccount(
+  supabase: SupabaseClient,
+  organizationId: string,
+  employeeId: string,
+  input: BankAccountInput,
+  userId: string,
+): Promise<BankAccountSummary> {
+  const { data, error } = await supabase
+    .from("employee_bank_accounts")
+    .upsert(
+      {
+        employee_id: employeeId,
+        organization_id: organizationId,
+        account_holder_name: input.accountHolderName.trim(),
+        routing_number: input.routingNumber,
+        account_number_encrypted: encryptAccountNumber(input.accountNumber),
+        account_last4: input.accountNumber.slice(-4),
+        account_type: input.accountType,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "employee_id" },
+    )
+    .select(SUMMARY_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as BankAccountSummary
+}
+
+export async function deleteBankAccount(supabase: SupabaseClient, organizationId: string, employeeId: string) {
+  const { error } = await supabase
+    .from("employee_bank_accounts")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("employee_id", employeeId)
+  if (error) throw error
+}
+
+// Decrypted accounts for building an ACH file, keyed by employee id
+export async function loadAchAccounts(
+  supabase: SupabaseClient,
+  organizationId: string,
+  employeeIds: string[],
+): Promise<Map<string, AchAccount & { holderName: string }>> {
+  if (employeeIds.length === 0) return new Map()
+  const { data, error } = await supabase
+    .from("employee_bank_accounts")
+    .select("employee_id, account_holder_name, routing_number, account_number_encrypted, account_type")
+    .eq("organization_id", organizationId)
+    .in("employee_id", employeeIds)
+  if (error) throw error
+
+  const accounts = new Map<string, AchAccount & { holderName: string }>()
+  for (const row of data || []) {
+    try {
+      accounts.set(row.employee_id, {
+        holderName: row.account_holder_name,
+        routingNumber: row.routing_number,
+        accountNumber: decryptAccountNumber(row.account_number_encrypted),
+        accountType: row.account_type,
+      })
+    } catch (error) {
+      throw new PayrollError(
+        `Bank details for employee ${row.employee_id} can't be decrypted: ${error instanceof Error ? error.message : error}`,
+        409,
+      )
+    }
+  }
+  return accounts
+}
@@ -0,0 +1,218 @@
+// src/lib/payroll/calendar.ts
+// Payroll calendars per organization and payroll group (see
+// scripts/create-payroll-calendars.sql) and the pay-period math built on them.
+// All dates are YYYY-MM-DD strings treated as UTC calendar days.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type PayFrequency = "weekly" | "biweekly" | "semi_monthly"
+export type HolidayShift = "previous" | "next" | "none"
+
+export const PAY_FREQUENCIES: PayFrequency[] = ["weekly", "biweekly", "semi_monthly"]
+export const HOLIDAY_SHIFTS: HolidayShift[] = ["previous", "next", "none"]
+
+export interface PayrollCalendar {
+  id: string | null
+  organization_id: string
+  payroll_group: string
+  frequency: PayFrequency
+  anchor_date: string
+  lag_days: number
+  holiday_shift: HolidayShift
+}
+
+export interface PayPeriod {
+  payrollGroup: string
+  periodStart: string
+  periodEnd: string
+  // Pay date after moving off weekends and holidays
+  payDate: string
+  scheduledPayDate: string
+}
+
+export interface PayrollCalendarInput {
+  frequency: PayFrequency
+  anchorDate: string
+  lagDays: number
+  holidayShift: HolidayShift
+}
+
+const CALENDAR_COLUMNS = "id, organization_id, payroll_group, frequency, anchor_date, lag_days, holiday_shift"
+
+// What every org ran on before calendars were configurable
+const DEFAULT_CALENDARS: Omit<PayrollCalendar, "id" | "organization_id">[] = [
+  { payroll_group: "A", frequency: "biweekly", anchor_date: "2025-01-03", lag_days: 9, holiday_shift: "none" },
+  { payroll_group: "B", frequency: "biweekly", anchor_date: "2025-01-10", lag_days: 9, holiday_shift: "none" },
+]
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function toDays(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY)
+}
+
+function fromDays(days: number): string {
+  return new Date(days * MS_PER_DAY).toISOString().slice(0, 10)
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDays(toDays(date) + days)
+}
+
+function isBusinessDay(date: string, holidays: Set<string>): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+  return weekday !== 0 && weekday !== 6 && !holidays.has(date)
+}
+
+function shiftPayDate(date: string, shift: HolidayShift, holidays: Set<string>): string {
+  if (shift === "none") return date
+  const step = shift === "previous" ? -1 : 1
+  let shifted = date
+  while (!isBusinessDay(shifted, holidays)) shifted = addDays(shifted, step)
+  return shifted
+}
+
+function intervalDays(calendar: PayrollCalendar): number {
+  return calendar.frequency === "weekly" ? 7 : 14
+}
+
+// Period number n of a calendar. For weekly/biweekly n counts pay dates from
+// the anchor; for semi-monthly it counts half-months from January of year 0.
+function periodAt(calendar: PayrollCalendar, n: number, holidays: Set<string>): PayPeriod {
+  let periodStart: string
+  let periodEnd: string
+  let scheduledPayDate: string
+
+  if (calendar.frequency === "semi_monthly") {
+    const year = Math.floor(n / 24)
+    const month = Math.floor((n - year * 24) / 2)
+    const secondHalf = n % 2 !== 0
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    const pad = (d: number) => `${String(year).padStart(4, "0")}-${String(month + 1).padStart(2, "0")}-${String(d).padStart(2, "0")}`
+    periodStart = pad(secondHalf ? 16 : 1)
+    periodEnd = pad(secondHalf ? lastDay : 15)
+    scheduledPayDate = addDays(periodEnd, calendar.lag_days)
+  } else {
+    const interval = intervalDays(calendar)
+    scheduledPayDate = addDays(calendar.anchor_date, n * interval)
+    periodEnd = addDays(scheduledPayDate, -calendar.lag_days)
+    periodStart = addDays(periodEnd, 1 - interval)
+  }
+
+  return {
+    payrollGroup: calendar.payroll_group,
+    periodStart,
+    periodEnd,
+    payDate: shiftPayDate(scheduledPayDate, calendar.holiday_shift, holidays),
+    scheduledPayDate,
+  }
+}
+
+// Number of the first period paid on or after `date`
+function firstPeriodOnOrAfter(calendar: PayrollCalendar, date: string, holidays: Set<string>): number {
+  let n: number
+  if (calendar.frequency === "semi_monthly") {
+    const [year, month, day] = addDays(date, -calendar.lag_days).split("-").map(Number)
+    n = year * 24 + (month - 1) * 2 + (day > 15 ? 1 : 0)
+  } else {
+    n = Math.floor((toDays(date) - toDays(calendar.anchor_date)) / intervalDays(calendar))
+  }
+
+  // Holiday shifts can move a pay date across `date`, so settle on the exact one
+  while (periodAt(calendar, n, holidays).payDate < date) n++
+  while (periodAt(calendar, n - 1, holidays).payDate >= date) n--
+  return n
+}
+
+export function listPayPeriods(
+  calendar: PayrollCalendar,
+  holidays: string[],
+  options: { from: string; past: number; future: number },
+): PayPeriod[] {
+  const holidaySet = new Set(holidays)
+  const first = firstPeriodOnOrAfter(calendar, options.from, holidaySet)
+  const periods: PayPeriod[] = []
+  for (let n = first - options.past; n < first + options.future; n++) {
+    periods.push(periodAt(calendar, n, holidaySet))
+  }
+  return periods
+}
+
+// The period paid on `payDate`, or null when it isn't one of the calendar's pay dates
+export function periodForPayDate(calendar: PayrollCalendar, holidays: string[], payDate: string): PayPeriod | null {
+  const holidaySet = new Set(holidays)
+  const period = periodAt(calendar, firstPeriodOnOrAfter(calendar, payDate, holidaySet), holidaySet)
+  return period.payDate === payDate ? period : null
+}
+
+// Calendars for an org, falling back to the legacy A/B schedule for groups
+// that haven't been configured yet
+export async function loadPayrollCalendars(supabase: SupabaseClient, organizationId: string): Promise<PayrollCalendar[]> {
+  const { data, error } = await supabase
+    .from("payroll_calendars")
+    .select(CALENDAR_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("payroll_group")
+
+  if (error) throw error
+  const calendars = (data || []) as PayrollCalendar[]
+
+  for (const fallback of DEFAULT_CALENDARS) {
+    if (!calendars.some((c) => c.payroll_group === fallback.payroll_group)) {
+      calendars.push({ ...fallback, id: null, organization_id: organizationId })
+    }
+  }
+  return calendars.sort((a, b) => a.payroll_group.localeCompare(b.payroll_group))
+}
+
+export async function loadHolidays(
+  supabase: SupabaseClient,
+  organizationId: string,
+  from: string,
+  to: string,
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("payroll_holidays")
+    .select("holiday_date")
+    .eq("organization_id", organizationId)
+    .gte("holiday_date", from)
+    .lte("holiday_date", to)
+
+  if (error) throw error
+  return (data || []).map((row) => row.holiday_date as string)
+}
+
+// Holidays needed for period math `before`/`after` periods either side of `date`.
+// No period is longer than a month, so 31 days each (plus one spare) covers it.
+export function holidayWindow(date: string, before = 0, after = 0): { from: string; to: string } {
+  return { from: addDays(date, -31 * (before + 2)), to: addDays(date, 31 * (after + 2)) }
+}
+
+export async function upsertPayrollCalendar(
+  supabase: SupabaseClient,
+  organizationId: string,
+  payrollGroup: string,
+  input: PayrollCalendarInput,
+  updatedBy: string,
+): Promise<PayrollCalendar> {
+  const { data, error } = await supabase
+    .from("payroll_calendars")
+    .upsert(
+      {
+        organization_id: organizationId,
+        payroll_group: payrollGroup,
+        frequency: input.frequency,
+        anchor_date: input.anchorDate,
+        lag_days: input.lagDays,
+        holiday_shift: input.holidayShift,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "organization_id,payroll_group" },
+    )
+    .select(CALENDAR_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data as PayrollCalendar
+}
@@ -0,0 +1,40 @@
+// src/lib/payroll/calendarClient.ts
+// Browser helper for GET /api/organizations/[orgId]/payroll-calendar, used by the
+// submit pages to offer pay dates and periods from the org's payroll calendar.
+
+import { authFetch } from "@/lib/supabase/client"
+import type { PayPeriod, PayrollCalendar } from "./calendar"
+
+export type { PayPeriod } from "./calendar"
+
+export interface PayPeriodsResponse {
+  date: string
+  calendars: PayrollCalendar[]
+  past: PayPeriod[]
+  upcoming: PayPeriod[]
+}
+
+// Today in the browser's timezone, so "upcoming" matches what the user sees
+export function todayLocal(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`
+}
+
+export async function fetchPayPeriods(
+  organizationId: string,
+  options: { past?: number; future?: number; group?: string } = {},
+): Promise<PayPeriodsResponse> {
+  const params = new URLSearchParams({ date: todayLocal() })
+  if (options.past !== undefined) params.set("past", String(options.past))
+  if (options.future !== undefined) params.set("future", String(options.future))
+  if (options.group) params.set("group", options.group)
+
+  const res = await authFetch(`/api/organizations/${organizationId}/payroll-calendar?${params}`)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json
+}
+
+export function periodKey(period: Pick<PayPeriod, "payDate" | "payrollGroup">): string {
+  return `${period.payDate}|${period.payrollGroup}`
+}
@@ -0,0 +1,365 @@
+// src/lib/payroll/compensation.ts
+// Server-only. Effective-dated employee pay rates (see
+// scripts/create-employee-compensation.sql).
+//
+// Each change is a row with a start date; the previous row is closed the day
+// before. The submit pages resolve rates as of the pay period's start, so an old
+// period keeps the rate it was paid at. The rate columns on `employees` remain
+// the rate in effect today and are updated when a change takes effect now.
+// Changes are written by change_employee_compensation, in one transaction, and
+// only by organization admins, never on their own record.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { isAdminRole } from "@/lib/auth/routes"
+import { AuthError, getPlatformAdminClient, type RequestUser } from "@/lib/auth/server"
+import { loadLocationIds } from "@/lib/auth/locations"
+import { isISODate } from "@/lib/ledger/pl"
+import { readAll } from "@/lib/supabase/paginate"
+import { PayrollError, toPayrollError } from "./submissions"
+
+export type CompensationType = "hourly" | "production" | "fixed"
+
+export const COMPENSATION_TYPES: CompensationType[] = ["hourly", "production", "fixed"]
+
+export interface CompensationRecord {
+  id: string
+  employee_id: string
+  compensation_type: CompensationType
+  rate: number
+  effective_from: string
+  effective_to: string | null
+  reason: string | null
+  approved_by: string | null
+  approved_by_name: string | null
+  created_at: string
+}
+
+export interface CompensationChangeInput {
+  compensation_type: CompensationType
+  rate: number
+  effective_from: string
+  reason: string
+}
+
+// Rate columns as they appear on `employees`
+export interface CompensationColumns {
+  compensation_type: CompensationType
+  hourly_rate: number | null
+  piece_rate: number | null
+  fixed_pay: number | null
+}
+
+export interface ResolvedCompensation extends CompensationColumns {
+  // Start of the history row used; null when the employee has no row for the date
+  effective_from: string | null
+}
+
+export interface CompensationEmployee extends CompensationColumns {
+  id: string
+  organization_id: string
+  location_id: string
+  first_name: string
+  last_name: string
+  email: string | null
+  payroll_group: string | null
+  is_active: boolean
+}
+
+export interface PayTotals {
+  year: number
+  amount: number
+  hours: number
+  units: number
+  payDates: number
+}
+
+export interface PaymentSummary {
+  date: string
+  location: string
+  amount: number
+  hours: number | null
+  units: number | null
+  rate: number | null
+}
+
+export interface EmployeeProfile {
+  employee: CompensationEmployee & { location_name: string | null }
+  // Whether the viewer may change this employee's rate
+  canChangeRate: boolean
+  history: CompensationRecord[]
+  totals: { lifetime: number; yearToDate: number }
+  byYear: PayTotals[]
+  recentPayments: PaymentSummary[]
+}
+
+const EMPLOYEE_COLUMNS =
+  "id, organization_id, location_id, first_name, last_name, email, payroll_group, compensation_type, hourly_rate, piece_rate, fixed_pay, is_active"
+const RECORD_COLUMNS =
+  "id, employee_id, compensation_type, rate, effective_from, effective_to, reason, approved_by, created_at"
+const RECENT_PAY_DATES = 12
+
+type RecordRow = Omit<CompensationRecord, "approved_by_name">
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export function compensationColumns(type: CompensationType, rate: number): CompensationColumns {
+  return {
+    compensation_type: type,
+    hourly_rate: type === "hourly" ? rate : null,
+    piece_rate: type === "production" ? rate : null,
+    fixed_pay: type === "fixed" ? rate : null,
+  }
+}
+
+// Returns an error message, or null when the change can be saved
+export function validateCompensationChange(input: Partial<CompensationChangeInput>): string | null {
+  if (!input.compensation_type || !COMPENSATION_TYPES.includes(input.compensation_type)) {
+    return "compensation_type must be hourly, production or fixed"
+  }
+  if (typeof input.rate !== "number" || !Number.isFinite(input.rate) || input.rate < 0) {
+    return "rate must be a non-negative number"
+  }
+  if (!isISODate(input.effective_from)) return "effective_from must be a YYYY-MM-DD date"
+  if (!input.reason?.trim()) return "A reason is required"
+  return null
+}
+
+// The employee, if the caller may see their pay. Non-admins must manage the
+// employee's location, the same people who submit their payroll. Changing it
+// takes canChangeRate as well.
+export async function employeeForUser(
+  supabase: SupabaseClient,
+  user: RequestUser,
+  organizationId: string,
+  employeeId: string,
+): Promise<CompensationEmployee> {
+  const { data, error } = await supabase
+    .from("employees")
+    .select(EMPLOYEE_COLUMNS)
+    .eq("id", employeeId)
+    .eq("organization_id", organizationId)
+    .maybeSingle()
+  if (error) throw error
+  if (!data) throw new PayrollError("Employee not found", 404)
+
+  const employee = data as CompensationEmployee
+  if (!isAdminRole(user.role)) {
+    const locations = (await loadLocationIds(supabase, [user.id])).get(user.id) || []
+    if (!locations.includes(employee.location_id)) {
+      throw new AuthError("You do not manage this employee's location", 403)
+    }
+  }
+  return employee
+}
+
+// Employees aren't linked to platform users, so this matches on email
+function isOwnRecord(user: RequestUser, employee: CompensationEmployee): boolean {
+  return !!user.email && !!employee.email && user.email.trim().toLowerCase() === employee.email.trim().toLowerCase()
+}
+
+export function canChangeRate(user: RequestUser, employee: CompensationEmployee): boolean {
+  return isAdminRole(user.role) && !isOwnRecord(user, employee)
+}
+
+async function approverNames(ids: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>()
+  if (ids.length === 0) return names
+
+  const { data, error } = await getPlatformAdminClient().from("users").select("id, name, email").in("id", ids)
+  if (error) throw error
+  for (const user of (data || []) as { id: string; name: string | null; email: string }[]) {
+    names.set(user.id, user.name || user.email)
+  }
+  return names
+}
+
+// Newest first
+export async function listCompensation(supabase: SupabaseClient, employeeId: string): Promise<CompensationRecord[]> {
+  const { data, error } = await supabase
+    .from("employee_compensation")
+    .select(RECORD_COLUMNS)
+    .eq("employee_id", employeeId)
+    .order("effective_from", { ascending: false })
+  if (error) throw error
+
+  const rows = (data || []) as RecordRow[]
+  const names = await approverNames([...new Set(rows.map((r) => r.approved_by).filter((id): id is string => !!id))])
+  return rows.map((row) => ({
+    ...row,
+    rate: Number(row.rate),
+    approved_by_name: row.approved_by ? names.get(row.approved_by) || null : null,
+  }))
+}
+
+// Records a rate change starting on input.effective_from. Changes go forward
+// only: the start must be after the latest existing row, which is closed the
+// day before.
+export async function changeCompensation(
+  supabase: SupabaseClient,
+  employee: CompensationEmployee,
+  input: CompensationChangeInput,
+  user: RequestUser,
+): Promise<CompensationRecord> {
+  if (!isAdminRole(user.role)) throw new AuthError("Only organization admins can change pay rates", 403)
+  if (isOwnRecord(user, employee)) throw new AuthError("You can't change your own pay rate", 403)
+
+  const { data, error } = await supabase.rpc("change_employee_compensation", {
+    p_employee_id: employee.id,
+    p_compensation_type: input.compensation_type,
+    p_rate: round2(input.rate),
+    p_effective_from: input.effective_from,
+    p_reason: input.reason.trim(),
+    p_approved_by: user.id,
+  })
+  if (error) throw toPayrollError(error)
+
+  const record = data as RecordRow
+  const names = await approverNames([user.id])
+  return { ...record, rate: Number(record.rate), approved_by_name: names.get(user.id) || null }
+}
+
+// Each active employee's rate at a location as of `asOf`, by employee id.
+// Falls back to the employee's current rate when no history row covers the date.
+export async function resolveCompensation(
+  supabase: SupabaseClient,
+  locationId: string,
+  asOf: string,
+): Promise<Record<string, ResolvedCompensation>> {
+  const { data: employees, error } = await supabase
+    .from("employees")
+    .select("id, compensation_type, hourly_rate, piece_rate, fixed_pay")
+    .eq("location_id", locationId)
+    .eq("is_active", true)
+  if (error) throw error
+
+  const resolved: Record<string, ResolvedCompensation> = {}
+  for (const employee of (employees || []) as (CompensationColumns & { id: string })[]) {
+    resolved[employee.id] = {
+      compensation_type: employee.compensation_type,
+      hourly_rate: employee.hourly_rate,
+      piece_rate: employee.piece_rate,
+      fixed_pay: employee.fixed_pay,
+      effective_from: null,
+    }
+  }
+  const ids = Object.keys(resolved)
+  if (ids.length === 0) return resolved
+
+  const rows = await readAll<RecordRow>((from, to) =>
+    supabase
+      .from("employee_compensation")
+      .select(RECORD_COLUMNS)
+      .in("employee_id", ids)
+      .lte("effective_from", asOf)
+      .or(`effective_to.is.null,effective_to.gte.${asOf}`)
+      .order("effective_from", { ascending: false })
+      .order("id")
+      .range(from, to),
+  )
+  for (const row of rows) {
+    if (resolved[row.employee_id].effective_from) continue // newest already applied
+    resolved[row.employee_id] = {
+      ...compensationColumns(row.compensation_type, Number(row.rate)),
+      effective_from: row.effective_from,
+    }
+  }
+  return resolved
+}
+
+export async function employeeProfile(
+  supabase: SupabaseClient,
+  employee: CompensationEmployee,
+  user: RequestUser,
+): Promise<EmployeeProfile> {
+  const [history, payments, { data: location, error: locationError }] = await Promise.all([
+    listCompensation(supabase, employee.id),
+    readAll<{
+      date: string
+      location_id: string | null
+      total_amount: number | null
+      hours: number | null
+      units: number | null
+      rate: number | null
+    }>((from, to) =>
+      supabase
+        .from("payments")
+        .select("date, location_id, total_amount, hours, units, rate")
+        .eq("employee_id", employee.id)
+        .order("date", { ascending: false })
+        .order("id")
+        .range(from, to),
+    ),
+    supabase.from("locations").select("name").eq("id", employee.location_id).maybeSingle(),
+  ])
+  if (locationError) throw locationError
+
+  const year = new Date().getFullYear()
+  const byYear = new Map<number, PayTotals & { dates: Set<string> }>()
+  for (const payment of payments) {
+    const paymentYear = Number(payment.date.slice(0, 4))
+    const totals = byYear.get(paymentYear) || {
+      year: paymentYear,
+      amount: 0,
+      hours: 0,
+      units: 0,
+      payDates: 0,
+      dates: new Set<string>(),
+    }
+    totals.amount += Number(payment.total_amount || 0)
+    totals.hours += Number(payment.hours || 0)
+    totals.units += Number(payment.units || 0)
+    totals.dates.add(payment.date)
+    byYear.set(paymentYear, totals)
+  }
+
+  // One line per pay date; an employee paid by two locations shows both
+  const recentDates = [...new Set(payments.map((p) => p.date))].slice(0, RECENT_PAY_DATES)
+  const recent = payments.filter((p) => recentDates.includes(p.date))
+  const locationIds = [...new Set(recent.map((p) => p.location_id).filter((id): id is string => !!id))]
+  const locationNames = new Map<string, string>()
+  if (locationIds.length > 0) {
+    const { data: locations, error } = await supabase.from("locations").select("id, name").in("id", locationIds)
+    if (error) throw error
+    for (const row of (locations || []) as { id: string; name: string }[]) locationNames.set(row.id, row.name)
+  }
+
+  const summaries = new Map<string, PaymentSummary>()
+  for (const payment of recent) {
+    const location = (payment.location_id && locationNames.get(payment.location_id)) || "Unknown Location"
+    const key = `${payment.date}|${location}`
+    const summary = summaries.get(key) || {
+      date: payment.date,
+      location,
+      amount: 0,
+      hours: null,
+      units: null,
+      rate: payment.rate == null ? null : Number(payment.rate),
+    }
+    summary.amount = round2(summary.amount + Number(payment.total_amount || 0))
+    if (payment.hours != null) summary.hours = round2((summary.hours || 0) + Number(payment.hours))
+    if (payment.units != null) summary.units = round2((summary.units || 0) + Number(payment.units))
+    summaries.set(key, summary)
+  }
+
+  const years = [...byYear.values()]
+    .sort((a, b) => b.year - a.year)
+    .map(({ dates, ...totals }) => ({
+      ...totals,
+      amount: round2(totals.amount),
+      hours: round2(totals.hours),
+      units: round2(totals.units),
+      payDates: dates.size,
+    }))
+
+  return {
+    employee: { ...employee, location_name: (location as { name?: string } | null)?.name || null },
+    canChangeRate: canChangeRate(user, employee),
+    history,
+    totals: {
+      lifetime: round2(years.reduce((sum, y) => sum + y.amount, 0)),
+      yearToDate: years.find((y) => y.year === year)?.amount || 0,
+    },
+    byYear: years,
+    recentPayments: [...summaries.values()],
+  }
+}
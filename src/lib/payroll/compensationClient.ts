@@ -0,0 +1,96 @@
+// src/lib/payroll/compensationClient.ts
+// Browser helpers for the effective-dated rate endpoints, used by the submit
+// pages and the employee profile page.
+
+import { authFetch } from "@/lib/supabase/client"
+import type {
+  CompensationChangeInput,
+  CompensationColumns,
+  CompensationRecord,
+  EmployeeProfile,
+  ResolvedCompensation,
+} from "./compensation"
+
+export type {
+  CompensationChangeInput,
+  CompensationRecord,
+  CompensationType,
+  EmployeeProfile,
+  PayTotals,
+  PaymentSummary,
+} from "./compensation"
+
+async function request(url: string, init?: RequestInit) {
+  const res = await authFetch(url, init)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json
+}
+
+const employeeUrl = (organizationId: string, employeeId: string) =>
+  `/api/organizations/${organizationId}/employees/${employeeId}/compensation`
+
+// Rates in effect on `asOf` for the location's active employees, by employee id
+export async function fetchRatesAsOf(
+  organizationId: string,
+  locationId: string,
+  asOf: string,
+): Promise<Record<string, ResolvedCompensation>> {
+  const json = await request(
+    `/api/organizations/${organizationId}/locations/${locationId}/compensation?asOf=${encodeURIComponent(asOf)}`,
+  )
+  return json.rates || {}
+}
+
+// Replaces each row's rate columns with the resolved ones; rows without a
+// resolved rate keep what they have
+export function applyRates<T extends CompensationColumns & { id: string }>(
+  rows: T[],
+  rates: Record<string, ResolvedCompensation>,
+): T[] {
+  return rows.map((row) => {
+    const rate = rates[row.id]
+    if (!rate) return row
+    return {
+      ...row,
+      compensation_type: rate.compensation_type,
+      hourly_rate: rate.hourly_rate,
+      piece_rate: rate.piece_rate,
+      fixed_pay: rate.fixed_pay,
+    }
+  })
+}
+
+// The amount for the employee's compensation type
+export function rateOf(columns: CompensationColumns): number {
+  const rate =
+    columns.compensation_type === "hourly"
+      ? columns.hourly_rate
+      : columns.compensation_type === "production"
+        ? columns.piece_rate
+        : columns.fixed_pay
+  return Number(rate || 0)
+}
+
+// True when the rate columns differ, i.e. saving them is a rate change
+export function rateChanged(before: CompensationColumns, after: CompensationColumns): boolean {
+  return before.compensation_type !== after.compensation_type || rateOf(before) !== rateOf(after)
+}
+
+export async function fetchEmployeeProfile(organizationId: string, employeeId: string): Promise<EmployeeProfile> {
+  const json = await request(employeeUrl(organizationId, employeeId))
+  return json.profile
+}
+
+export async function changeEmployeeRate(
+  organizationId: string,
+  employeeId: string,
+  input: CompensationChangeInput,
+): Promise<CompensationRecord> {
+  const json = await request(employeeUrl(organizationId, employeeId), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  })
+  return json.record
+}
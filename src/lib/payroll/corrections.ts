@@ -0,0 +1,168 @@
+// src/lib/payroll/corrections.ts
+// Server-only. Correction runs for approved payroll (see
+// scripts/create-payroll-corrections.sql). Approved submissions are locked, so
+// a mistake is fixed by a new pending submission linked through
+// adjusts_submission_id: reversal entries cancel what each listed employee was
+// paid and replacement entries carry the corrected values. Once approved both
+// land in payments, so totals for the pay date net out.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { toPayrollError, type PayrollEntryInput } from "./submissions"
+
+export type EntryKind = "regular" | "reversal" | "replacement"
+
+// remove = true reverses the employee without a replacement
+export interface CorrectionEntryInput extends PayrollEntryInput {
+  remove?: boolean
+}
+
+// What an employee stands at for the original submission after approved corrections
+export interface CurrentEntry {
+  employee_id: string
+  employee_name: string | null
+  employee_first_name: string | null
+  employee_last_name: string | null
+  employee_type: string | null
+  hours: number | null
+  regular_hours: number | null
+  overtime_hours: number | null
+  double_time_hours: number | null
+  units: number | null
+  fixed_count: number | null
+  adjustment_amount: number | null
+  rate: number | null
+  amount: number
+  notes: string | null
+}
+
+export interface CorrectionRun {
+  id: string
+  status: string
+  correction_reason: string | null
+  total_amount: number
+  employee_count: number
+  submitted_by: string | null
+  submitted_at: string | null
+  approved_at: string | null
+}
+
+export interface CreateCorrectionResult {
+  submission_id: string
+  adjusts_submission_id: string
+  organization_id: string
+  status: "pending"
+  entry_count: number
+  total_amount: number
+}
+
+interface EntryRow extends Omit<CurrentEntry, "amount"> {
+  submission_id?: string
+  amount: number | null
+}
+
+const ENTRY_COLUMNS =
+  "submission_id, employee_id, employee_name, employee_first_name, employee_last_name, employee_type, hours, regular_hours, overtime_hours, double_time_hours, units, fixed_count, adjustment_amount, rate, amount, notes"
+
+const NET_FIELDS = [
+  "hours",
+  "regular_hours",
+  "overtime_hours",
+  "double_time_hours",
+  "units",
+  "fixed_count",
+  "adjustment_amount",
+] as const
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// The original plus its approved corrections, netted per employee. Employees a
+// correction removed drop out.
+export async function currentEntries(supabase: SupabaseClient, submissionId: string): Promise<CurrentEntry[]> {
+  const { data: submissions, error } = await supabase
+    .from("payroll_submissions")
+    .select("id")
+    .or(`id.eq.${submissionId},adjusts_submission_id.eq.${submissionId}`)
+    .eq("status", "approved")
+    .order("created_at")
+  if (error) throw error
+  const ids = (submissions || []).map((s) => s.id as string)
+  if (ids.length === 0) return []
+
+  const { data: rows, error: entriesError } = await supabase
+    .from("payroll_entries")
+    .select(ENTRY_COLUMNS)
+    .in("submission_id", ids)
+  if (entriesError) throw entriesError
+
+  // Oldest run first, so later corrections win on names and rates
+  const ordered = ((rows || []) as EntryRow[]).sort(
+    (a, b) => ids.indexOf(a.submission_id!) - ids.indexOf(b.submission_id!),
+  )
+  const byEmployee = new Map<string, CurrentEntry>()
+  ordered.forEach((row) => {
+    const current = byEmployee.get(row.employee_id)
+    if (!current) {
+      const first: EntryRow = { ...row }
+      delete first.submission_id
+      byEmployee.set(row.employee_id, { ...first, amount: Number(row.amount || 0) })
+      return
+    }
+    // Names, type, rate and notes come from the latest entry; quantities add up
+    NET_FIELDS.forEach((field) => {
+      current[field] = row[field] == null && current[field] == null ? null : Number(current[field] || 0) + Number(row[field] || 0)
+    })
+    current.amount = round2(current.amount + Number(row.amount || 0))
+    current.employee_name = row.employee_name ?? current.employee_name
+    current.employee_first_name = row.employee_first_name ?? current.employee_first_name
+    current.employee_last_name = row.employee_last_name ?? current.employee_last_name
+    current.employee_type = row.employee_type ?? current.employee_type
+    current.rate = row.rate ?? current.rate
+    current.notes = row.notes
+  })
+
+  return [...byEmployee.values()].filter(
+    (e) => e.amount !== 0 || Number(e.hours || 0) !== 0 || Number(e.units || 0) !== 0,
+  )
+}
+
+export async function listCorrections(supabase: SupabaseClient, submissionId: string): Promise<CorrectionRun[]> {
+  const { data, error } = await supabase
+    .from("payroll_submissions")
+    .select("id, status, correction_reason, total_amount, employee_count, submitted_by, submitted_at, approved_at")
+    .eq("adjusts_submission_id", submissionId)
+    .order("created_at", { ascending: false })
+  if (error) throw error
+  return (data || []) as CorrectionRun[]
+}
+
+export function validateCorrection(reason: unknown, entries: unknown): string | null {
+  if (typeof reason !== "string" || !reason.trim()) return "A reason is required for a correction"
+  if (!Array.isArray(entries) || entries.length === 0) return "At least one corrected entry is required"
+  for (const entry of entries as Partial<CorrectionEntryInput>[]) {
+    if (!entry?.employee_id) return "Each entry needs an employee_id"
+    if (!entry.remove && (typeof entry.amount !== "number" || !Number.isFinite(entry.amount))) {
+      return "Each entry needs an amount, or remove: true"
+    }
+  }
+  return null
+}
+
+// Opens the correction as a pending submission; it then goes through the
+// normal approval chain like any other run
+export async function createCorrection(
+  supabase: SupabaseClient,
+  submissionId: string,
+  reason: string,
+  createdBy: string,
+  entries: CorrectionEntryInput[],
+): Promise<CreateCorrectionResult> {
+  const { data, error } = await supabase.rpc("create_payroll_correction", {
+    p_submission_id: submissionId,
+    p_reason: reason.trim(),
+    p_created_by: createdBy,
+    p_entries: entries.map((entry) => (entry.remove ? { ...entry, amount: 0 } : entry)),
+  })
+
+  if (error) throw toPayrollError(error)
+  return data as CreateCorrectionResult
+}
@@ -0,0 +1,509 @@
+// src/lib/payroll/journal.ts
+// Server-only. Payroll journal entries for approved submissions (see
+// scripts/create-payroll-journal-entries.sql).
+//
+// generatePayrollJournal turns a submission's payments into a balanced entry
+// using the organization's account map and writes its lines to
+// journal_entry_lines so the P&L has labor cost before QuickBooks does. Entries
+// reach QBO through the CSV/IIF export or pushPayrollJournals; when the QBO sync
+// later pulls the same doc number, recordSyncedPayrollJournals drops the local
+// lines in favour of the synced ones.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createQboJournalEntry, getQboConnection, queryQbo, type QboConnection, type QboJournalLine } from "@/lib/qbo/client"
+import { normalBalance } from "@/lib/qbo/reports"
+import { PayrollError } from "./submissions"
+
+export type JournalStatus = "generated" | "exported" | "pushed" | "recorded"
+
+export interface PayrollAccountMap {
+  organization_id: string
+  wages_expense_account: string
+  accrued_payroll_account: string
+  employer_tax_expense_account: string | null
+  employer_tax_liability_account: string | null
+  employer_tax_rate: number | null
+  location_classes: Record<string, string>
+}
+
+export type PayrollAccountMapInput = Omit<PayrollAccountMap, "organization_id">
+
+export interface JournalLine {
+  account: string
+  class: string | null
+  debit: number
+  credit: number
+  memo: string
+}
+
+export interface PayrollJournalEntry {
+  id: string
+  organization_id: string
+  submission_id: string
+  location_id: string | null
+  doc_number: string
+  txn_date: string
+  total_amount: number
+  status: JournalStatus
+  lines: JournalLine[]
+  qbo_journal_entry_id: string | null
+  exported_at: string | null
+  pushed_at: string | null
+  recorded_at: string | null
+  push_error: string | null
+}
+
+export interface PushSummary {
+  pushed: number
+  failed: { docNumber: string; error: string }[]
+}
+
+interface ChartAccount {
+  account: string
+  account_type: string | null
+  detail_type: string | null
+  classification: string | null
+  qbo_account_id: string | null
+}
+
+const ENTRY_COLUMNS =
+  "id, organization_id, submission_id, location_id, doc_number, txn_date, total_amount, status, lines, qbo_journal_entry_id, exported_at, pushed_at, recorded_at, push_error"
+
+const MAP_COLUMNS =
+  "organization_id, wages_expense_account, accrued_payroll_account, employer_tax_expense_account, employer_tax_liability_account, employer_tax_rate, location_classes"
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// QBO DocNumber is capped at 21 characters: PR-YYYYMMDD-xxxxxxxx
+export function docNumberFor(payDate: string, submissionId: string): string {
+  return `PR-${payDate.replace(/-/g, "")}-${submissionId.replace(/-/g, "").slice(0, 8)}`
+}
+
+// Employer taxes need both accounts and a rate
+function employerTaxRate(map: PayrollAccountMapInput): number {
+  return map.employer_tax_expense_account && map.employer_tax_liability_account && map.employer_tax_rate
+    ? Number(map.employer_tax_rate)
+    : 0
+}
+
+// Negative wages (a correction that pays less) reverse the sides: the
+// expense is credited and the accrual debited
+export function buildPayrollJournal(
+  map: PayrollAccountMapInput,
+  input: { wages: number; className: string | null; memo: string },
+): JournalLine[] {
+  const wages = round2(Math.abs(input.wages))
+  const reversing = input.wages < 0
+  const line = (account: string, amount: number, side: "debit" | "credit"): JournalLine => {
+    const debit = (side === "debit") !== reversing
+    return {
+      account,
+      class: input.className,
+      debit: debit ? amount : 0,
+      credit: debit ? 0 : amount,
+      memo: input.memo,
+    }
+  }
+
+  const lines = [line(map.wages_expense_account, wages, "debit"), line(map.accrued_payroll_account, wages, "credit")]
+
+  const taxes = round2(wages * employerTaxRate(map))
+  if (taxes > 0) {
+    lines.push(
+      line(map.employer_tax_expense_account!, taxes, "debit"),
+      line(map.employer_tax_liability_account!, taxes, "credit"),
+    )
+  }
+  return lines
+}
+
+export async function loadPayrollAccountMap(
+  supabase: SupabaseClient,
+  organizationId: string,
+): Promise<PayrollAccountMap | null> {
+  const { data, error } = await supabase
+    .from("payroll_account_maps")
+    .select(MAP_COLUMNS)
+    .eq("organization_id", organizationId)
+    .maybeSingle()
+  if (error) throw error
+  return data as PayrollAccountMap | null
+}
+
+async function loadChartAccounts(
+  supabase: SupabaseClient,
+  organizationId: string,
+  names: string[],
+): Promise<Map<string, ChartAccount>> {
+  const { data, error } = await supabase
+    .from("balance_sheet_accounts")
+    .select("account, account_type, detail_type, classification, qbo_account_id")
+    .eq("organization_id", organizationId)
+    .in("account", [...new Set(names)])
+  if (error) throw error
+  return new Map(((data || []) as ChartAccount[]).map((a) => [a.account, a]))
+}
+
+function mapAccountNames(map: PayrollAccountMapInput): string[] {
+  return [
+    map.wages_expense_account,
+    map.accrued_payroll_account,
+    map.employer_tax_expense_account,
+    map.employer_tax_liability_account,
+  ].filter((name): name is string => !!name)
+}
+
+// Every mapped account must be in the synced chart of accounts
+export async function savePayrollAccountMap(
+  supabase: SupabaseClient,
+  organizationId: string,
+  input: PayrollAccountMapInput,
+  userId: string,
+): Promise<PayrollAccountMap> {
+  const names = mapAccountNames(input)
+  const chart = await loadChartAccounts(supabase, organizationId, names)
+  const missing = names.filter((name) => !chart.has(name))
+  if (missing.length > 0) {
+    throw new PayrollError(`Not in the chart of accounts: ${missing.join(", ")}`, 400)
+  }
+
+  const { data, error } = await supabase
+    .from("payroll_account_maps")
+    .upsert(
+      { organization_id: organizationId, ...input, updated_by: userId, updated_at: new Date().toISOString() },
+      { onConflict: "organization_id" },
+    )
+    .select(MAP_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as PayrollAccountMap
+}
+
+// Builds (or rebuilds) the entry for an approved submission and posts its lines
+// to journal_entry_lines. Returns null when the organization has no account map
+// or the payments net to zero. Entries already sent to QBO are left alone.
+// Correction runs get their own entry for the net change they made.
+export async function generatePayrollJournal(
+  supabase: SupabaseClient,
+  submissionId: string,
+): Promise<PayrollJournalEntry | null> {
+  const { data: submission, error } = await supabase
+    .from("payroll_submissions")
+    .select("id, organization_id, location_id, pay_date, payroll_group, status, adjusts_submission_id, locations(name)")
+    .eq("id", submissionId)
+    .maybeSingle()
+  if (error) throw error
+  if (!submission) throw new PayrollError("Submission not found", 404)
+  if (submission.status !== "approved") {
+    throw new PayrollError("Journal entries are only generated for approved payroll", 409)
+  }
+
+  const map = await loadPayrollAccountMap(supabase, submission.organization_id)
+  if (!map) return null
+
+  const existing = await getJournalForSubmission(supabase, submissionId)
+  if (existing && (existing.status === "pushed" || existing.status === "recorded")) {
+    throw new PayrollError(`Journal entry ${existing.doc_number} is already in QuickBooks`, 409)
+  }
+
+  const { data: payments, error: paymentsError } = await supabase
+    .from("payments")
+    .select("total_amount")
+    .eq("submission_id", submissionId)
+  if (paymentsError) throw paymentsError
+  const wages = (payments || []).reduce((sum, p) => sum + Number(p.total_amount || 0), 0)
+  if (round2(wages) === 0) return null
+
+  const location = Array.isArray(submission.locations) ? submission.locations[0] : submission.locations
+  const locationName = (location as { name?: string } | null)?.name || "Unknown Location"
+  const className = map.location_classes?.[submission.location_id] || locationName
+  const docNumber = docNumberFor(submission.pay_date, submissionId)
+  const lines = buildPayrollJournal(map, {
+    wages,
+    className,
+    memo: `${submission.adjusts_submission_id ? "Payroll correction" : "Payroll"} ${submission.pay_date} · ${locationName} · group ${submission.payroll_group}`,
+  })
+
+  const chart = await loadChartAccounts(
+    supabase,
+    submission.organization_id,
+    lines.map((l) => l.account),
+  )
+  const unknown = lines.map((l) => l.account).filter((name) => !chart.has(name))
+  if (unknown.length > 0) {
+    throw new PayrollError(`Payroll account map uses accounts not in the chart of accounts: ${unknown.join(", ")}`, 400)
+  }
+
+  const { error: deleteError } = await supabase
+    .from("journal_entry_lines")
+    .delete()
+    .eq("payroll_submission_id", submissionId)
+  if (deleteError) throw deleteError
+
+  const now = new Date().toISOString()
+  const { error: insertError } = await supabase.from("journal_entry_lines").insert(
+    lines.map((line, i) => {
+      const account = chart.get(line.account)!
+      return {
+        organization_id: submission.organization_id,
+        entry_number: `Payroll-${submissionId}`,
+        line_sequence: i + 1,
+        date: submission.pay_date,
+        type: "Journal Entry",
+        number: docNumber,
+        class: line.class,
+        memo: line.memo,
+        account: line.account,
+        debit: line.debit,
+        credit: line.credit,
+        account_type: account.account_type,
+        detail_type: account.detail_type,
+        report_category: (account.classification || "other").toLowerCase(),
+        normal_balance: normalBalance(account.classification, line.debit, line.credit),
+        is_cash_account: false,
+        entry_bank_account: null,
+        payroll_submission_id: submissionId,
+      }
+    }),
+  )
+  if (insertError) throw insertError
+
+  const { data: entry, error: entryError } = await supabase
+    .from("payroll_journal_entries")
+    .upsert(
+      {
+        organization_id: submission.organization_id,
+        submission_id: submissionId,
+        location_id: submission.location_id,
+        doc_number: docNumber,
+        txn_date: submission.pay_date,
+        total_amount: lines.reduce((sum, l) => round2(sum + l.debit), 0),
+        status: "generated",
+        lines,
+        exported_at: null,
+        push_error: null,
+        updated_at: now,
+      },
+      { onConflict: "submission_id" },
+    )
+    .select(ENTRY_COLUMNS)
+    .single()
+  if (entryError) throw entryError
+
+  return entry as PayrollJournalEntry
+}
+
+export async function getJournalForSubmission(
+  supabase: SupabaseClient,
+  submissionId: string,
+): Promise<PayrollJournalEntry | null> {
+  const { data, error } = await supabase
+    .from("payroll_journal_entries")
+    .select(ENTRY_COLUMNS)
+    .eq("submission_id", submissionId)
+    .maybeSingle()
+  if (error) throw error
+  return data as PayrollJournalEntry | null
+}
+
+export async function listPayrollJournals(
+  supabase: SupabaseClient,
+  organizationId: string,
+  filter: { from?: string | null; to?: string | null; ids?: string[] } = {},
+): Promise<PayrollJournalEntry[]> {
+  let query = supabase
+    .from("payroll_journal_entries")
+    .select(ENTRY_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("txn_date", { ascending: false })
+    .order("doc_number")
+  if (filter.from) query = query.gte("txn_date", filter.from)
+  if (filter.to) query = query.lte("txn_date", filter.to)
+  if (filter.ids) query = query.in("id", filter.ids)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as PayrollJournalEntry[]
+}
+
+/* ------------------------------ Export ------------------------------ */
+
+const usDate = (date: string) => {
+  const [y, m, d] = date.split("-")
+  return `${m}/${d}/${y}`
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const money = (n: number) => (n ? n.toFixed(2) : "")
+
+// QuickBooks Online journal entry import layout, one row per line
+export function toJournalCsv(entries: PayrollJournalEntry[]): string {
+  const rows = [["Journal No.", "Journal Date", "Account Name", "Debits", "Credits", "Description", "Name", "Class"]]
+  entries.forEach((entry) => {
+    entry.lines.forEach((line) => {
+      rows.push([
+        entry.doc_number,
+        usDate(entry.txn_date),
+        line.account,
+        money(line.debit),
+        money(line.credit),
+        line.memo,
+        "",
+        line.class || "",
+      ])
+    })
+  })
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n"
+}
+
+// QuickBooks IIF general journal: first line is the TRNS, the rest SPL; debits positive
+export function toJournalIif(entries: PayrollJournalEntry[]): string {
+  const clean = (value: string | null) => (value || "").replace(/[\t\r\n]+/g, " ")
+  const out = [
+    "!TRNS\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO",
+    "!SPL\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO",
+    "!ENDTRNS",
+  ]
+  entries.forEach((entry) => {
+    entry.lines.forEach((line, i) => {
+      const amount = (line.debit - line.credit).toFixed(2)
+      out.push(
+        [i === 0 ? "TRNS" : "SPL", "GENERAL JOURNAL", usDate(entry.txn_date), clean(line.account), clean(line.class), amount, entry.doc_number, clean(line.memo)].join("\t"),
+      )
+    })
+    out.push("ENDTRNS")
+  })
+  return out.join("\r\n") + "\r\n"
+}
+
+export async function markPayrollJournalsExported(supabase: SupabaseClient, entryIds: string[]): Promise<void> {
+  if (entryIds.length === 0) return
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from("payroll_journal_entries")
+    .update({ status: "exported", exported_at: now, updated_at: now })
+    .in("id", entryIds)
+    .eq("status", "generated")
+  if (error) throw error
+}
+
+/* ------------------------------ QuickBooks ------------------------------ */
+
+async function qboClassIds(conn: QboConnection, names: string[]): Promise<Map<string, string>> {
+  const ids = new Map<string, string>()
+  for (const name of new Set(names)) {
+    const [match] = await queryQbo<{ Id: string }>(conn, "Class", `Name = '${name.replace(/'/g, "\\'")}'`)
+    if (match) ids.set(name, match.Id)
+  }
+  return ids
+}
+
+// Creates QBO journal entries for generated entries (or the given ones, which
+// may include exported entries). Failures are stored on the entry and reported.
+export async function pushPayrollJournals(
+  supabase: SupabaseClient,
+  organizationId: string,
+  entryIds?: string[],
+): Promise<PushSummary> {
+  const entries = (await listPayrollJournals(supabase, organizationId, { ids: entryIds })).filter((e) =>
+    entryIds ? e.status === "generated" || e.status === "exported" : e.status === "generated",
+  )
+  if (entries.length === 0) return { pushed: 0, failed: [] }
+
+  const conn = await getQboConnection(supabase, organizationId)
+  const chart = await loadChartAccounts(
+    supabase,
+    organizationId,
+    entries.flatMap((e) => e.lines.map((l) => l.account)),
+  )
+  const classes = await qboClassIds(
+    conn,
+    entries.flatMap((e) => e.lines.map((l) => l.class).filter((c): c is string => !!c)),
+  )
+
+  const summary: PushSummary = { pushed: 0, failed: [] }
+  for (const entry of entries) {
+    const now = new Date().toISOString()
+    try {
+      const lines: QboJournalLine[] = entry.lines.map((line) => {
+        const accountId = chart.get(line.account)?.qbo_account_id
+        if (!accountId) throw new Error(`Account ${line.account} has no QuickBooks id; run a QuickBooks sync first`)
+        return {
+          postingType: line.debit > 0 ? "Debit" : "Credit",
+          amount: line.debit > 0 ? line.debit : line.credit,
+          accountId,
+          classId: line.class ? classes.get(line.class) : null,
+          description: line.memo,
+        }
+      })
+
+      const qboId = await createQboJournalEntry(conn, {
+        docNumber: entry.doc_number,
+        txnDate: entry.txn_date,
+        memo: entry.lines[0]?.memo,
+        lines,
+      })
+
+      const { error } = await supabase
+        .from("payroll_journal_entries")
+        .update({ status: "pushed", qbo_journal_entry_id: qboId, pushed_at: now, push_error: null, updated_at: now })
+        .eq("id", entry.id)
+      if (error) throw error
+      summary.pushed++
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      console.error(`❌ Payroll journal ${entry.doc_number} push failed:`, message)
+      await supabase.from("payroll_journal_entries").update({ push_error: message, updated_at: now }).eq("id", entry.id)
+      summary.failed.push({ docNumber: entry.doc_number, error: message })
+    }
+  }
+  return summary
+}
+
+// Called by the QBO ledger sync with the lines it pulled. Payroll entries whose
+// doc number now comes back from QuickBooks are marked recorded and their local
+// lines removed, so the synced lines replace them.
+export async function recordSyncedPayrollJournals(
+  supabase: SupabaseClient,
+  organizationId: string,
+  lines: { number: string | null; qbo_txn_id: string }[],
+): Promise<number> {
+  const byDocNumber = new Map<string, string>()
+  lines.forEach((line) => {
+    if (line.number?.startsWith("PR-")) byDocNumber.set(line.number, line.qbo_txn_id)
+  })
+  if (byDocNumber.size === 0) return 0
+
+  const { data, error } = await supabase
+    .from("payroll_journal_entries")
+    .select("id, submission_id, doc_number")
+    .eq("organization_id", organizationId)
+    .neq("status", "recorded")
+    .in("doc_number", [...byDocNumber.keys()])
+  if (error) throw error
+
+  for (const entry of data || []) {
+    const { error: deleteError } = await supabase
+      .from("journal_entry_lines")
+      .delete()
+      .eq("payroll_submission_id", entry.submission_id)
+    if (deleteError) throw deleteError
+
+    const now = new Date().toISOString()
+    const { error: updateError } = await supabase
+      .from("payroll_journal_entries")
+      .update({
+        status: "recorded",
+        qbo_journal_entry_id: byDocNumber.get(entry.doc_number),
+        recorded_at: now,
+        updated_at: now,
+      })
+      .eq("id", entry.id)
+    if (updateError) throw updateError
+  }
+  return (data || []).length
+}
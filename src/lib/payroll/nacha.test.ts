@@ -0,0 +1,142 @@
+import { readFileSync } from "fs"
+import { describe, expect, it } from "vitest"
+import { achFileTotals, buildNachaFile, isValidRoutingNumber, type AchBatch, type AchOriginator } from "./nacha"
+
+// Fixtures were written field by field from the NACHA record layouts, not by this builder
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8")
+
+const ORIGINATOR: AchOriginator = {
+  immediateDestination: "091000019",
+  immediateDestinationName: "Wells Fargo Bank",
+  immediateOrigin: "1234567890",
+  immediateOriginName: "Acme Property Care",
+  companyName: "Acme Property Care",
+  companyIdentification: "1234567890",
+  originatingDfi: "09100001",
+  entryDescription: "Payroll",
+}
+
+const CREATED_AT = new Date("2026-03-05T14:30:00Z")
+
+const BALANCED: AchBatch[] = [
+  {
+    effectiveDate: "2026-03-06",
+    discretionaryData: "LOC Main St",
+    entries: [
+      { routingNumber: "021000021", accountNumber: "123456789", accountType: "checking", amountCents: 125000, individualId: "EMP-001", name: "Dana Álvarez" },
+      { routingNumber: "121000248", accountNumber: "9876543210", accountType: "savings", amountCents: 98765, individualId: "EMP-002", name: "Chris O'Neil" },
+      { routingNumber: "026009593", accountNumber: "00045-1", accountType: "checking", amountCents: 150050, individualId: "EMP-003", name: "Jo Smith-Park" },
+    ],
+    offset: { routingNumber: "091000019", accountNumber: "5550001111", accountType: "checking" },
+  },
+]
+
+const CREDITS: AchBatch[] = [
+  {
+    effectiveDate: "2026-03-13",
+    discretionaryData: "LOC North",
+    entries: [
+      { routingNumber: "322271627", accountNumber: "11112222", accountType: "checking", amountCents: 250000, individualId: "EMP-010", name: "Avery Lee" },
+      { routingNumber: "111000025", accountNumber: "33334444", accountType: "checking", amountCents: 75025, individualId: "EMP-011", name: "Sam Rivera" },
+    ],
+  },
+  {
+    effectiveDate: "2026-03-13",
+    discretionaryData: "LOC South",
+    entries: [
+      { routingNumber: "011401533", accountNumber: "55556666", accountType: "savings", amountCents: 100000, individualId: "EMP-020", name: "Pat Kim" },
+      { routingNumber: "021000021", accountNumber: "77778888", accountType: "checking", amountCents: 1, individualId: "EMP-021", name: "Morgan Diaz" },
+    ],
+  },
+]
+
+const lines = (file: string) => file.replace(/\n$/, "").split("\n")
+
+// Checks a file against its own control records, the way an ODFI would on upload
+function expectConsistent(file: string) {
+  const records = lines(file)
+  expect(records.every((r) => r.length === 94)).toBe(true)
+  expect(records.length % 10).toBe(0)
+
+  const fileControl = records.find((r) => r.startsWith("9") && !/^9+$/.test(r))!
+  const entries = records.filter((r) => r.startsWith("6"))
+  const padding = records.slice(records.indexOf(fileControl) + 1)
+  expect(padding.every((r) => r === "9".repeat(94))).toBe(true)
+
+  const hash = entries.reduce((sum, r) => sum + Number(r.slice(3, 11)), 0)
+  expect(Number(fileControl.slice(1, 7))).toBe(records.filter((r) => r.startsWith("5")).length)
+  expect(Number(fileControl.slice(7, 13))).toBe(records.length / 10)
+  expect(Number(fileControl.slice(13, 21))).toBe(entries.length)
+  expect(fileControl.slice(21, 31)).toBe(String(hash).slice(-10).padStart(10, "0"))
+
+  // Trace numbers identify an entry across the whole file, not just its batch
+  const traces = entries.map((r) => r.slice(79))
+  expect(new Set(traces).size).toBe(traces.length)
+}
+
+describe("buildNachaFile", () => {
+  it("matches the balanced PPD sample with an offset debit", () => {
+    const file = buildNachaFile(ORIGINATOR, BALANCED, { createdAt: CREATED_AT, fileIdModifier: "A", referenceCode: "PAY0306" })
+    expect(file).toBe(fixture("nacha-balanced.ach"))
+  })
+
+  it("matches the credit-only sample with two batches", () => {
+    const file = buildNachaFile(ORIGINATOR, CREDITS, { createdAt: CREATED_AT, fileIdModifier: "A" })
+    expect(file).toBe(fixture("nacha-credits.ach"))
+  })
+
+  it("pads to a whole block with all-9 records only when the last block isn't full", () => {
+    const balanced = lines(fixture("nacha-balanced.ach"))
+    expect(balanced).toHaveLength(10)
+    expect(balanced.slice(8)).toEqual(["9".repeat(94), "9".repeat(94)])
+
+    // 1 + 2 × (header + 2 entries + control) + 1 records already fill the block
+    expect(lines(fixture("nacha-credits.ach")).filter((r) => /^9+$/.test(r))).toHaveLength(0)
+
+    expectConsistent(fixture("nacha-balanced.ach"))
+    expectConsistent(fixture("nacha-credits.ach"))
+  })
+
+  it("reports the same counts and totals as the file control record", () => {
+    const file = buildNachaFile(ORIGINATOR, BALANCED, { createdAt: CREATED_AT, fileIdModifier: "A" })
+    const fileControl = lines(file)[7]
+    const totals = achFileTotals(BALANCED)
+
+    expect(totals).toEqual({ batchCount: 1, entryCount: 4, totalCreditCents: 373815, totalDebitCents: 373815 })
+    expect(Number(fileControl.slice(31, 43))).toBe(totals.totalDebitCents)
+    expect(Number(fileControl.slice(43, 55))).toBe(totals.totalCreditCents)
+  })
+
+  it("keeps the rightmost 10 digits of an entry hash that overflows", () => {
+    const entries = Array.from({ length: 400 }, (_, n) => ({
+      routingNumber: "322271627",
+      accountNumber: String(n),
+      accountType: "checking" as const,
+      amountCents: 100,
+      individualId: `EMP-${n}`,
+      name: "Employee",
+    }))
+    const file = buildNachaFile(ORIGINATOR, [{ effectiveDate: "2026-03-13", entries }], { createdAt: CREATED_AT, fileIdModifier: "B" })
+    const batchControl = lines(file).find((r) => r.startsWith("8"))!
+
+    // 400 × 32227162 = 12890864800
+    expect(batchControl.slice(10, 20)).toBe("2890864800")
+    expect(lines(file)).toHaveLength(410)
+    expectConsistent(file)
+  })
+
+  it("rejects an amount too large for the entry's amount field", () => {
+    const entry = { ...BALANCED[0].entries[0], amountCents: 10_000_000_000 }
+    expect(() => buildNachaFile(ORIGINATOR, [{ ...BALANCED[0], entries: [entry] }], { createdAt: CREATED_AT, fileIdModifier: "A" })).toThrow(
+      /doesn't fit 10 digits/,
+    )
+  })
+})
+
+describe("isValidRoutingNumber", () => {
+  it("checks the ABA check digit", () => {
+    expect(isValidRoutingNumber("021000021")).toBe(true)
+    expect(isValidRoutingNumber("021000022")).toBe(false)
+    expect(isValidRoutingNumber("02100002")).toBe(false)
+  })
+})
@@ -0,0 +1,244 @@
+// src/lib/payroll/nacha.ts
+// NACHA ACH file builder for payroll direct deposit: PPD credits grouped into
+// batches, with batch and file control records (entry hashes, totals) and
+// padding to a multiple of ten 94-character records.
+//
+// Pure functions only; lib/payroll/ach.ts loads the payroll and bank details.
+
+export type AchAccountType = "checking" | "savings"
+
+export interface AchOriginator {
+  immediateDestination: string // ODFI routing number, 9 digits
+  immediateDestinationName: string
+  immediateOrigin: string // up to 10 characters
+  immediateOriginName: string
+  companyName: string
+  companyIdentification: string
+  originatingDfi: string // 8 digits
+  entryDescription: string
+}
+
+export interface AchAccount {
+  routingNumber: string
+  accountNumber: string
+  accountType: AchAccountType
+}
+
+export interface AchEntry extends AchAccount {
+  name: string
+  individualId: string
+  amountCents: number
+}
+
+export interface AchBatch {
+  effectiveDate: string // YYYY-MM-DD
+  discretionaryData?: string
+  entries: AchEntry[]
+  // Settlement account debited for the batch total, making it balanced
+  offset?: AchAccount | null
+}
+
+export interface AchFileOptions {
+  createdAt: Date
+  fileIdModifier: string // A-Z, 0-9
+  referenceCode?: string
+}
+
+export interface AchFileTotals {
+  batchCount: number
+  entryCount: number
+  totalCreditCents: number
+  totalDebitCents: number
+}
+
+const RECORD_SIZE = 94
+const BLOCKING_FACTOR = 10
+
+// Transaction codes: credits (deposits) and debits (offset)
+const CREDIT_CODES: Record<AchAccountType, string> = { checking: "22", savings: "32" }
+const DEBIT_CODES: Record<AchAccountType, string> = { checking: "27", savings: "37" }
+
+// ACH allows upper-case alphanumerics and a few symbols
+function alpha(value: string, length: number): string {
+  const clean = value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,&'/()-]/g, "")
+  return clean.slice(0, length).padEnd(length, " ")
+}
+
+function numeric(value: number | string, length: number): string {
+  const text = String(value)
+  if (!/^\d+$/.test(text) || text.length > length) {
+    throw new Error(`ACH field ${text} doesn't fit ${length} digits`)
+  }
+  return text.padStart(length, "0")
+}
+
+const yymmdd = (date: string) => date.slice(2, 4) + date.slice(5, 7) + date.slice(8, 10)
+
+export function isValidRoutingNumber(routing: string): boolean {
+  if (!/^\d{9}$/.test(routing)) return false
+  const d = routing.split("").map(Number)
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8])
+  return sum % 10 === 0
+}
+
+// Entry hash: sum of the 8-digit receiving DFI ids, keeping the rightmost 10 digits
+function entryHash(routingNumbers: string[]): string {
+  const sum = routingNumbers.reduce((total, r) => total + Number(r.slice(0, 8)), 0)
+  return String(sum).slice(-10).padStart(10, "0")
+}
+
+function entryRecord(
+  transactionCode: string,
+  account: AchAccount,
+  amountCents: number,
+  individualId: string,
+  name: string,
+  traceNumber: string,
+): string {
+  return [
+    "6",
+    transactionCode,
+    account.routingNumber.slice(0, 8),
+    account.routingNumber.slice(8),
+    alpha(account.accountNumber, 17),
+    numeric(amountCents, 10),
+    alpha(individualId, 15),
+    alpha(name, 22),
+    "  ", // discretionary data
+    "0", // no addenda
+    traceNumber,
+  ].join("")
+}
+
+export function buildNachaFile(originator: AchOriginator, batches: AchBatch[], options: AchFileOptions): string {
+  const { createdAt } = options
+  const isoDate = createdAt.toISOString()
+  const records: string[] = []
+
+  records.push(
+    [
+      "1",
+      "01", // priority code
+      ` ${numeric(originator.immediateDestination, 9)}`,
+      originator.immediateOrigin.padStart(10, " ").slice(0, 10),
+      yymmdd(isoDate.slice(0, 10)),
+      isoDate.slice(11, 13) + isoDate.slice(14, 16),
+      alpha(options.fileIdModifier, 1),
+      "094",
+      String(BLOCKING_FACTOR),
+      "1", // format code
+      alpha(originator.immediateDestinationName, 23),
+      alpha(originator.immediateOriginName, 23),
+      alpha(options.referenceCode || "", 8),
+    ].join(""),
+  )
+
+  let fileEntries = 0
+  let fileCredits = 0
+  let fileDebits = 0
+  const fileRoutings: string[] = []
+
+  // Trace numbers run through the whole file so no two entries share one
+  let sequence = 0
+  const trace = () => numeric(originator.originatingDfi, 8) + numeric(++sequence, 7)
+
+  batches.forEach((batch, index) => {
+    const batchNumber = numeric(index + 1, 7)
+    const serviceClass = batch.offset ? "200" : "220"
+    const credits = batch.entries.reduce((sum, e) => sum + e.amountCents, 0)
+    const debits = batch.offset ? credits : 0
+    const routings = batch.entries.map((e) => e.routingNumber)
+
+    records.push(
+      [
+        "5",
+        serviceClass,
+        alpha(originator.companyName, 16),
+        alpha(batch.discretionaryData || "", 20),
+        alpha(originator.companyIdentification, 10),
+        "PPD",
+        alpha(originator.entryDescription, 10),
+        alpha(yymmdd(batch.effectiveDate), 6), // descriptive date
+        yymmdd(batch.effectiveDate),
+        "   ", // settlement date, filled in by the ACH operator
+        "1", // originator status code
+        numeric(originator.originatingDfi, 8),
+        batchNumber,
+      ].join(""),
+    )
+
+    batch.entries.forEach((entry) => {
+      records.push(
+        entryRecord(CREDIT_CODES[entry.accountType], entry, entry.amountCents, entry.individualId, entry.name, trace()),
+      )
+    })
+    if (batch.offset) {
+      routings.push(batch.offset.routingNumber)
+      records.push(
+        entryRecord(DEBIT_CODES[batch.offset.accountType], batch.offset, debits, "", originator.companyName, trace()),
+      )
+    }
+
+    records.push(
+      [
+        "8",
+        serviceClass,
+        numeric(routings.length, 6),
+        entryHash(routings),
+        numeric(debits, 12),
+        numeric(credits, 12),
+        alpha(originator.companyIdentification, 10),
+        " ".repeat(19), // message authentication code
+        " ".repeat(6), // reserved
+        numeric(originator.originatingDfi, 8),
+        batchNumber,
+      ].join(""),
+    )
+
+    fileEntries += routings.length
+    fileCredits += credits
+    fileDebits += debits
+    fileRoutings.push(...routings)
+  })
+
+  const recordCount = records.length + 1
+  const blockCount = Math.ceil(recordCount / BLOCKING_FACTOR)
+
+  records.push(
+    [
+      "9",
+      numeric(batches.length, 6),
+      numeric(blockCount, 6),
+      numeric(fileEntries, 8),
+      entryHash(fileRoutings),
+      numeric(fileDebits, 12),
+      numeric(fileCredits, 12),
+      " ".repeat(39),
+    ].join(""),
+  )
+
+  // Fill the last block with all-9 records
+  while (records.length % BLOCKING_FACTOR !== 0) records.push("9".repeat(RECORD_SIZE))
+
+  records.forEach((record) => {
+    if (record.length !== RECORD_SIZE) throw new Error(`ACH record is ${record.length} characters: ${record}`)
+  })
+  return records.join("\n") + "\n"
+}
+
+export function achFileTotals(batches: AchBatch[]): AchFileTotals {
+  const totalCreditCents = batches.reduce((sum, b) => sum + b.entries.reduce((s, e) => s + e.amountCents, 0), 0)
+  return {
+    batchCount: batches.length,
+    entryCount: batches.reduce((sum, b) => sum + b.entries.length + (b.offset ? 1 : 0), 0),
+    totalCreditCents,
+    totalDebitCents: batches.reduce(
+      (sum, b) => sum + (b.offset ? b.entries.reduce((s, e) => s + e.amountCents, 0) : 0),
+      0,
+    ),
+  }
+}
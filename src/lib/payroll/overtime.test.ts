@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_BREAK_POLICY,
+  FEDERAL_RULES,
+  hourlyPay,
+  localDate,
+  rulesForState,
+  splitHours,
+  workweekStart,
+  type BreakPolicy,
+  type OvertimeRules,
+  type SplitOptions,
+  type WorkedShift,
+} from "./overtime"
+
+const NO_BREAKS: BreakPolicy = { autoBreakAfterHours: null, autoBreakMinutes: 0, deductManualBreaks: false }
+
+// A shift starting at 08:00 UTC on `date`
+const shift = (date: string, hours: number): WorkedShift => {
+  const start = Date.parse(`${date}T08:00:00Z`) / 1000
+  return { start, end: start + hours * 3600 }
+}
+
+// Workweek of Sunday 2026-03-01 through Saturday 2026-03-07
+const WEEK = ["2026-03-01", "2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05", "2026-03-06", "2026-03-07"]
+const [SUN, MON, TUE, WED, THU, FRI, SAT] = WEEK
+
+const options = (rules: OvertimeRules, extra: Partial<SplitOptions> = {}): SplitOptions => ({
+  rules,
+  breakPolicy: NO_BREAKS,
+  timeZone: "UTC",
+  workweekStartDay: 0,
+  ...extra,
+})
+
+const CA = rulesForState("ca")
+
+describe("splitHours", () => {
+  it("pays weekly overtime past 40 hours under federal rules", () => {
+    const shifts = [MON, TUE, WED, THU, FRI].map((date) => shift(date, 9))
+    const { days, total } = splitHours(shifts, options(FEDERAL_RULES))
+
+    expect(total).toEqual({ regular: 40, overtime: 5, doubleTime: 0 })
+    // Daily hours don't matter federally; the 40 runs out on Friday
+    expect(days.map((d) => [d.date, d.regular, d.overtime])).toEqual([
+      [MON, 9, 0],
+      [TUE, 9, 0],
+      [WED, 9, 0],
+      [THU, 9, 0],
+      [FRI, 4, 5],
+    ])
+  })
+
+  it("pays daily overtime after 8 and double time after 12 in California", () => {
+    const { days } = splitHours([shift(MON, 10), shift(TUE, 13)], options(CA))
+
+    expect(days).toEqual([
+      { date: MON, paid: 10, regular: 8, overtime: 2, doubleTime: 0 },
+      { date: TUE, paid: 13, regular: 8, overtime: 4, doubleTime: 1 },
+    ])
+  })
+
+  it("uses Colorado's 12 hour daily threshold without double time", () => {
+    const { total } = splitHours([shift(MON, 14)], options(rulesForState("CO")))
+    expect(total).toEqual({ regular: 12, overtime: 2, doubleTime: 0 })
+  })
+
+  it("applies the weekly threshold only to regular hours left after daily overtime", () => {
+    const weekdays = [MON, TUE, WED, THU, FRI].map((date) => shift(date, 10))
+    expect(splitHours(weekdays, options(CA)).total).toEqual({ regular: 40, overtime: 10, doubleTime: 0 })
+
+    // Saturday's hours are all past the weekly 40
+    const { days, total } = splitHours([...weekdays, shift(SAT, 6)], options(CA))
+    expect(total).toEqual({ regular: 40, overtime: 16, doubleTime: 0 })
+    expect(days[days.length - 1]).toEqual({ date: SAT, paid: 6, regular: 0, overtime: 6, doubleTime: 0 })
+  })
+
+  it("pays the seventh consecutive workday as overtime, then double time after 8", () => {
+    const shifts = [SUN, MON, TUE, WED, THU, FRI].map((date) => shift(date, 6))
+    const { days, total } = splitHours([...shifts, shift(SAT, 10)], options(CA))
+
+    expect(days[6]).toEqual({ date: SAT, paid: 10, regular: 0, overtime: 8, doubleTime: 2 })
+    expect(total).toEqual({ regular: 36, overtime: 8, doubleTime: 2 })
+  })
+
+  it("doesn't apply the seventh-day rule when a day of the workweek was off", () => {
+    const shifts = [SUN, MON, TUE, WED, THU, SAT].map((date) => shift(date, 6))
+    const { total } = splitHours(shifts, options(CA))
+    expect(total).toEqual({ regular: 36, overtime: 0, doubleTime: 0 })
+  })
+
+  it("doesn't apply the seventh-day rule outside states that have one", () => {
+    const shifts = WEEK.map((date) => shift(date, 6))
+    const { total } = splitHours(shifts, options(FEDERAL_RULES))
+    expect(total).toEqual({ regular: 40, overtime: 2, doubleTime: 0 })
+  })
+
+  it("resets the weekly threshold at the start of each workweek", () => {
+    const shifts = [...[MON, TUE, WED, THU, FRI].map((date) => shift(date, 9)), shift("2026-03-09", 9)]
+    const { total } = splitHours(shifts, options(FEDERAL_RULES))
+    expect(total).toEqual({ regular: 49, overtime: 5, doubleTime: 0 })
+  })
+
+  it("counts days before the range toward the week but leaves them out of the totals", () => {
+    const shifts = [MON, TUE, WED, THU, FRI].map((date) => shift(date, 9))
+    const { days, total } = splitHours(shifts, options(FEDERAL_RULES, { from: FRI, to: SAT }))
+
+    expect(days.map((d) => d.date)).toEqual([FRI])
+    expect(total).toEqual({ regular: 4, overtime: 5, doubleTime: 0 })
+  })
+
+  it("takes the auto break off long shifts before splitting", () => {
+    const { total } = splitHours([shift(MON, 10)], options(CA, { breakPolicy: DEFAULT_BREAK_POLICY }))
+    expect(total).toEqual({ regular: 8, overtime: 1, doubleTime: 0 })
+  })
+
+  it("counts a shift on the local date it starts", () => {
+    // 03:00 UTC Monday is still Sunday evening in Los Angeles
+    const start = Date.parse(`${MON}T03:00:00Z`) / 1000
+    const { days } = splitHours([{ start, end: start + 4 * 3600 }], options(FEDERAL_RULES, { timeZone: "America/Los_Angeles" }))
+    expect(days.map((d) => d.date)).toEqual([SUN])
+  })
+})
+
+describe("workweek helpers", () => {
+  it("finds the first day of the workweek", () => {
+    expect(workweekStart(WED, 0)).toBe(SUN)
+    expect(workweekStart(WED, 1)).toBe(MON)
+    expect(workweekStart(SUN, 1)).toBe("2026-02-23")
+  })
+
+  it("formats local dates in the given timezone", () => {
+    expect(localDate(Date.parse("2026-03-02T03:00:00Z") / 1000, "UTC")).toBe(MON)
+    expect(localDate(Date.parse("2026-03-02T03:00:00Z") / 1000, "America/New_York")).toBe(SUN)
+  })
+})
+
+describe("hourlyPay", () => {
+  it("pays overtime at 1.5x and double time at 2x", () => {
+    expect(hourlyPay({ regular: 40, overtime: 5, doubleTime: 1 }, 20)).toBe(990)
+  })
+})
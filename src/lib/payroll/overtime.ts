@@ -0,0 +1,274 @@
+// src/lib/payroll/overtime.ts
+// Splits worked shifts into regular, overtime and double-time hours by workweek
+// and state rules, after the location's break policy (see
+// scripts/create-location-payroll-policies.sql). Pure functions apart from the
+// policy loader/saver at the bottom.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export interface OvertimeRules {
+  // Regular hours in a workweek beyond this are overtime
+  weeklyOvertimeAfter: number | null
+  // Hours in a workday beyond these are overtime / double time
+  dailyOvertimeAfter: number | null
+  dailyDoubleTimeAfter: number | null
+  // Seventh consecutive workday in a workweek: overtime for the first 8 hours,
+  // double time after that
+  seventhDayRule: boolean
+}
+
+export const FEDERAL_RULES: OvertimeRules = {
+  weeklyOvertimeAfter: 40,
+  dailyOvertimeAfter: null,
+  dailyDoubleTimeAfter: null,
+  seventhDayRule: false,
+}
+
+// States whose rules go beyond the FLSA weekly 40
+export const STATE_RULES: Record<string, OvertimeRules> = {
+  CA: { weeklyOvertimeAfter: 40, dailyOvertimeAfter: 8, dailyDoubleTimeAfter: 12, seventhDayRule: true },
+  AK: { weeklyOvertimeAfter: 40, dailyOvertimeAfter: 8, dailyDoubleTimeAfter: null, seventhDayRule: false },
+  CO: { weeklyOvertimeAfter: 40, dailyOvertimeAfter: 12, dailyDoubleTimeAfter: null, seventhDayRule: false },
+}
+
+export function rulesForState(state: string | null | undefined): OvertimeRules {
+  return (state && STATE_RULES[state.toUpperCase()]) || FEDERAL_RULES
+}
+
+export const OVERTIME_MULTIPLIER = 1.5
+export const DOUBLE_TIME_MULTIPLIER = 2
+
+export interface BreakPolicy {
+  // Shifts at least this long get an unpaid auto break; null disables it
+  autoBreakAfterHours: number | null
+  autoBreakMinutes: number
+  // Subtract breaks clocked in Connecteam. The auto break then only covers
+  // whatever part of it the employee didn't clock.
+  deductManualBreaks: boolean
+}
+
+export interface LocationPayrollPolicy extends BreakPolicy {
+  locationId: string
+  state: string | null
+  timeZone: string
+  // 0 = Sunday … 6 = Saturday
+  workweekStartDay: number
+}
+
+// Matches the rule the hours sync always used: 1 hour off any 8+ hour shift
+export const DEFAULT_BREAK_POLICY: BreakPolicy = {
+  autoBreakAfterHours: 8,
+  autoBreakMinutes: 60,
+  deductManualBreaks: false,
+}
+
+export interface WorkedShift {
+  // Unix seconds
+  start: number
+  end: number
+  manualBreakSeconds?: number
+}
+
+export interface HoursSplit {
+  regular: number
+  overtime: number
+  doubleTime: number
+}
+
+export interface DailyHours extends HoursSplit {
+  date: string
+  paid: number
+}
+
+export interface SplitOptions {
+  rules: OvertimeRules
+  breakPolicy: BreakPolicy
+  timeZone: string
+  workweekStartDay: number
+  // Only days in [from, to] count toward the totals. Earlier days in the same
+  // workweek still count toward its weekly threshold.
+  from?: string
+  to?: string
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// Unpaid auto break taken off a shift under the policy
+export function autoBreakHours(shift: WorkedShift, policy: BreakPolicy): number {
+  const shiftHours = Math.max(0, shift.end - shift.start) / 3600
+  if (policy.autoBreakAfterHours === null || shiftHours < policy.autoBreakAfterHours) return 0
+  const manualBreakHours = policy.deductManualBreaks ? (shift.manualBreakSeconds || 0) / 3600 : 0
+  return Math.max(0, policy.autoBreakMinutes / 60 - manualBreakHours)
+}
+
+export function paidShiftHours(shift: WorkedShift, policy: BreakPolicy): number {
+  const shiftHours = Math.max(0, shift.end - shift.start) / 3600
+  const manualBreakHours = policy.deductManualBreaks ? (shift.manualBreakSeconds || 0) / 3600 : 0
+  return Math.max(0, shiftHours - manualBreakHours - autoBreakHours(shift, policy))
+}
+
+// YYYY-MM-DD of a unix timestamp in the given IANA timezone
+export function localDate(timestamp: number, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+    new Date(timestamp * 1000),
+  )
+}
+
+// First day of the workweek containing `date`
+export function workweekStart(date: string, startDay: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() - startDay + 7) % 7))
+  return d.toISOString().slice(0, 10)
+}
+
+function splitDay(hours: number, rules: OvertimeRules, seventhDay: boolean): HoursSplit {
+  if (seventhDay) {
+    return { regular: 0, overtime: Math.min(hours, 8), doubleTime: Math.max(0, hours - 8) }
+  }
+  const doubleTime = rules.dailyDoubleTimeAfter !== null ? Math.max(0, hours - rules.dailyDoubleTimeAfter) : 0
+  const overtime = rules.dailyOvertimeAfter !== null ? Math.max(0, hours - doubleTime - rules.dailyOvertimeAfter) : 0
+  return { regular: hours - overtime - doubleTime, overtime, doubleTime }
+}
+
+// Shifts are counted on the local date they start. Daily rules run first;
+// the weekly threshold then applies to the regular hours that remain, in day
+// order, so no hour is counted as overtime twice.
+export function splitHours(shifts: WorkedShift[], options: SplitOptions): { days: DailyHours[]; total: HoursSplit } {
+  const { rules, breakPolicy, timeZone, workweekStartDay, from, to } = options
+
+  const paidByDate = new Map<string, number>()
+  for (const shift of shifts) {
+    const date = localDate(shift.start, timeZone)
+    paidByDate.set(date, (paidByDate.get(date) || 0) + paidShiftHours(shift, breakPolicy))
+  }
+
+  const weeks = new Map<string, string[]>()
+  for (const date of [...paidByDate.keys()].sort()) {
+    const week = workweekStart(date, workweekStartDay)
+    weeks.set(week, [...(weeks.get(week) || []), date])
+  }
+
+  const days: DailyHours[] = []
+  const total: HoursSplit = { regular: 0, overtime: 0, doubleTime: 0 }
+
+  for (const dates of weeks.values()) {
+    const workedDates = dates.filter((date) => (paidByDate.get(date) || 0) > 0)
+    let weekRegular = 0
+
+    for (const date of dates) {
+      const paid = paidByDate.get(date) || 0
+      const seventhDay = rules.seventhDayRule && workedDates.length === 7 && date === workedDates[6]
+      const split = splitDay(paid, rules, seventhDay)
+
+      if (rules.weeklyOvertimeAfter !== null) {
+        const room = Math.max(0, rules.weeklyOvertimeAfter - weekRegular)
+        if (split.regular > room) {
+          split.overtime += split.regular - room
+          split.regular = room
+        }
+      }
+      weekRegular += split.regular
+
+      if ((from && date < from) || (to && date > to)) continue
+
+      days.push({
+        date,
+        paid: round2(paid),
+        regular: round2(split.regular),
+        overtime: round2(split.overtime),
+        doubleTime: round2(split.doubleTime),
+      })
+      total.regular += split.regular
+      total.overtime += split.overtime
+      total.doubleTime += split.doubleTime
+    }
+  }
+
+  return {
+    days,
+    total: { regular: round2(total.regular), overtime: round2(total.overtime), doubleTime: round2(total.doubleTime) },
+  }
+}
+
+// Split for hours typed in by hand: overtime and double time are part of the total
+export function splitEnteredHours(totalHours: number, overtime: number, doubleTime: number): HoursSplit {
+  const ot = Math.max(0, overtime || 0)
+  const dt = Math.max(0, doubleTime || 0)
+  return { regular: Math.max(0, (totalHours || 0) - ot - dt), overtime: ot, doubleTime: dt }
+}
+
+export function hourlyPay(split: HoursSplit, rate: number): number {
+  return round2(
+    rate * (split.regular + split.overtime * OVERTIME_MULTIPLIER + split.doubleTime * DOUBLE_TIME_MULTIPLIER),
+  )
+}
+
+interface PolicyRow {
+  location_id: string
+  state: string | null
+  time_zone: string
+  workweek_start_day: number
+  auto_break_after_hours: number | string | null
+  auto_break_minutes: number
+  deduct_manual_breaks: boolean
+}
+
+const POLICY_COLUMNS =
+  "location_id, state, time_zone, workweek_start_day, auto_break_after_hours, auto_break_minutes, deduct_manual_breaks"
+
+function toPolicy(row: PolicyRow): LocationPayrollPolicy {
+  return {
+    locationId: row.location_id,
+    state: row.state,
+    timeZone: row.time_zone,
+    workweekStartDay: row.workweek_start_day,
+    autoBreakAfterHours: row.auto_break_after_hours === null ? null : Number(row.auto_break_after_hours),
+    autoBreakMinutes: row.auto_break_minutes,
+    deductManualBreaks: row.deduct_manual_breaks,
+  }
+}
+
+export function defaultPolicy(locationId: string): LocationPayrollPolicy {
+  return { locationId, state: null, timeZone: "UTC", workweekStartDay: 0, ...DEFAULT_BREAK_POLICY }
+}
+
+export async function loadLocationPolicy(supabase: SupabaseClient, locationId: string): Promise<LocationPayrollPolicy> {
+  const { data, error } = await supabase
+    .from("location_payroll_policies")
+    .select(POLICY_COLUMNS)
+    .eq("location_id", locationId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toPolicy(data as PolicyRow) : defaultPolicy(locationId)
+}
+
+export async function saveLocationPolicy(
+  supabase: SupabaseClient,
+  organizationId: string,
+  policy: LocationPayrollPolicy,
+  updatedBy: string,
+): Promise<LocationPayrollPolicy> {
+  const { data, error } = await supabase
+    .from("location_payroll_policies")
+    .upsert(
+      {
+        location_id: policy.locationId,
+        organization_id: organizationId,
+        state: policy.state ? policy.state.toUpperCase() : null,
+        time_zone: policy.timeZone,
+        workweek_start_day: policy.workweekStartDay,
+        auto_break_after_hours: policy.autoBreakAfterHours,
+        auto_break_minutes: policy.autoBreakMinutes,
+        deduct_manual_breaks: policy.deductManualBreaks,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "location_id" },
+    )
+    .select(POLICY_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return toPolicy(data as PolicyRow)
+}
@@ -0,0 +1,157 @@
+// src/lib/payroll/payStubPdf.ts
+// Earnings statement (pay stub) PDFs with jspdf: one letter-size page per
+// employee and submission, showing how the gross pay was computed (hours ×
+// rate, units × piece rate, fixed count × fixed pay plus adjustment) and the
+// year-to-date totals. Taxes and deductions aren't known here; the statement
+// says so.
+//
+// Pure functions only; lib/payroll/payStubs.ts loads the payroll.
+
+import jsPDF from "jspdf"
+import autoTable from "jspdf-autotable"
+
+export type PayStubUnit = "hours" | "units" | "count"
+
+export interface PayStubLine {
+  description: string
+  quantity: number | null
+  unit: PayStubUnit | null
+  rate: number | null
+  amount: number
+}
+
+export interface PayStub {
+  submissionId: string
+  employeeId: string
+  employeeName: string
+  locationName: string
+  payDate: string
+  periodStart: string | null
+  periodEnd: string | null
+  payrollGroup: string | null
+  // Set on statements for a correction run
+  correction: { reason: string | null } | null
+  lines: PayStubLine[]
+  gross: number
+  hours: number
+  notes: string[]
+  // Through the pay date, corrections included
+  ytd: { gross: number; hours: number }
+}
+
+const MARGIN = 48
+
+const money = (n: number) => n.toLocaleString("en-US", { style: "currency", currency: "USD" })
+
+const quantity = (n: number | null, unit: PayStubUnit | null) =>
+  n === null ? "" : `${n.toLocaleString("en-US", { maximumFractionDigits: 2 })}${unit && unit !== "hours" ? ` ${unit}` : ""}`
+
+const usDate = (date: string | null) => {
+  if (!date) return ""
+  const [y, m, d] = date.split("-")
+  return `${m}/${d}/${y}`
+}
+
+const finalY = (doc: jsPDF, fallback: number) =>
+  (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? fallback
+
+function drawStub(doc: jsPDF, stub: PayStub, generatedAt: Date) {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  let y = MARGIN + 8
+
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(18)
+  doc.text(stub.correction ? "Earnings Statement (Correction)" : "Earnings Statement", MARGIN, y)
+  doc.setFontSize(11)
+  doc.text(`Pay date ${usDate(stub.payDate)}`, pageWidth - MARGIN, y, { align: "right" })
+
+  y += 28
+  doc.setFontSize(10)
+  const details: [string, string][] = [
+    ["Employee", stub.employeeName],
+    ["Location", stub.locationName],
+    [
+      "Pay period",
+      stub.periodStart && stub.periodEnd ? `${usDate(stub.periodStart)} - ${usDate(stub.periodEnd)}` : "-",
+    ],
+  ]
+  if (stub.payrollGroup) details.push(["Payroll group", stub.payrollGroup])
+  if (stub.correction) {
+    details.push([
+      "Corrects",
+      `The ${usDate(stub.payDate)} payroll${stub.correction.reason ? `: ${stub.correction.reason}` : ""}`,
+    ])
+  }
+  for (const [label, value] of details) {
+    doc.setFont("helvetica", "bold")
+    doc.text(label, MARGIN, y)
+    doc.setFont("helvetica", "normal")
+    doc.text(doc.splitTextToSize(value, pageWidth - MARGIN * 2 - 90), MARGIN + 90, y)
+    y += 15
+  }
+
+  autoTable(doc, {
+    startY: y + 10,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [["Earnings", "Hours / units", "Rate", "Current"]],
+    body: stub.lines.map((line) => [
+      line.description,
+      quantity(line.quantity, line.unit),
+      line.rate === null ? "" : money(line.rate),
+      money(line.amount),
+    ]),
+    foot: [["Gross pay", quantity(stub.hours || null, "hours"), "", money(stub.gross)]],
+    headStyles: { fillColor: [86, 182, 233] },
+    footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42] },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" } },
+    styles: { fontSize: 10 },
+  })
+
+  autoTable(doc, {
+    startY: finalY(doc, y) + 18,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [["", "Current", "Year to date"]],
+    body: [
+      ["Gross pay", money(stub.gross), money(stub.ytd.gross)],
+      ["Hours", quantity(stub.hours, "hours"), quantity(stub.ytd.hours, "hours")],
+    ],
+    headStyles: { fillColor: [86, 182, 233] },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" } },
+    styles: { fontSize: 10 },
+  })
+
+  y = finalY(doc, y) + 24
+  if (stub.notes.length > 0) {
+    doc.setFont("helvetica", "bold")
+    doc.text("Notes", MARGIN, y)
+    doc.setFont("helvetica", "normal")
+    y += 14
+    for (const note of stub.notes) {
+      const wrapped = doc.splitTextToSize(note, pageWidth - MARGIN * 2)
+      doc.text(wrapped, MARGIN, y)
+      y += wrapped.length * 12 + 4
+    }
+  }
+
+  doc.setFontSize(8)
+  doc.setTextColor(100)
+  doc.text(
+    doc.splitTextToSize(
+      `Gross earnings as approved for this pay date. Taxes, deductions and net pay are calculated by the payroll processor and aren't shown. Generated ${generatedAt.toLocaleDateString("en-US")}.`,
+      pageWidth - MARGIN * 2,
+    ),
+    MARGIN,
+    doc.internal.pageSize.getHeight() - MARGIN,
+  )
+  doc.setTextColor(0)
+}
+
+// All stubs in one document, a page each
+export function buildPayStubPdf(stubs: PayStub[], generatedAt: Date = new Date()): ArrayBuffer {
+  const doc = new jsPDF({ unit: "pt", format: "letter" })
+  stubs.forEach((stub, i) => {
+    if (i > 0) doc.addPage()
+    drawStub(doc, stub, generatedAt)
+  })
+  return doc.output("arraybuffer")
+}
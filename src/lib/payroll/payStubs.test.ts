@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+import { FakeSupabase, MAX_ROWS } from "@/test/fakeSupabase"
+import { loadPayStubs } from "./payStubs"
+
+const ORG = "org-1"
+
+const payment = (n: number, employeeId: string, date: string, amount: number, hours: number) => ({
+  id: `pay-${String(n).padStart(5, "0")}`,
+  organization_id: ORG,
+  employee_id: employeeId,
+  date,
+  total_amount: amount,
+  hours,
+})
+
+describe("loadPayStubs", () => {
+  it("adds up every year-to-date payment, reading past the 1,000-row cap in a stable order", async () => {
+    const db = new FakeSupabase({
+      payroll_submissions: [
+        {
+          id: "sub-1",
+          organization_id: ORG,
+          status: "approved",
+          location_id: "loc-main",
+          locations: { name: "Main St" },
+          pay_date: "2026-03-13",
+          period_start: "2026-02-23",
+          period_end: "2026-03-08",
+          payroll_group: "A",
+          adjusts_submission_id: null,
+          correction_reason: null,
+        },
+      ],
+      payroll_entries: [
+        { submission_id: "sub-1", employee_id: "emp-1", employee_name: "Dana Álvarez", employee_type: "hourly", regular_hours: 8, rate: 20, amount: 160, status: "approved" },
+        { submission_id: "sub-1", employee_id: "emp-2", employee_name: "Avery Lee", employee_type: "hourly", regular_hours: 4, rate: 25, amount: 100, status: "approved" },
+      ],
+      payments: [
+        // Daily payment rows from January on, this pay date's included
+        ...Array.from({ length: 700 }, (_, n) => payment(n, "emp-1", "2026-01-05", 20, 1)),
+        ...Array.from({ length: 700 }, (_, n) => payment(700 + n, "emp-2", "2026-02-20", 25, 1)),
+        payment(1400, "emp-1", "2026-03-13", 160, 8),
+        // Last year's and after the pay date
+        payment(1401, "emp-1", "2025-12-31", 999, 99),
+        payment(1402, "emp-2", "2026-03-14", 999, 99),
+      ],
+    })
+
+    const stubs = await loadPayStubs(db.client, ORG, ["sub-1"])
+
+    expect(stubs.map((s) => [s.employeeName, s.gross, s.ytd])).toEqual([
+      ["Avery Lee", 100, { gross: 17500, hours: 700 }],
+      ["Dana Álvarez", 160, { gross: 14160, hours: 708 }],
+    ])
+    const reads = db.calls.filter((c) => c.table === "payments")
+    expect(reads).toHaveLength(2)
+    expect(reads.every((c) => c.orders.join(",") === "date,id" && c.range !== null && c.range[1] - c.range[0] < MAX_ROWS)).toBe(true)
+  })
+})
@@ -0,0 +1,304 @@
+// src/lib/payroll/payStubs.ts
+// Server-only. Earnings statements for approved submissions (see payStubPdf.ts
+// for the PDF). Each approved submission, correction runs included, gets one
+// statement per employee built from its payroll_entries; year-to-date totals
+// come from `payments` up to the pay date.
+//
+// Employees without an app login get a signed link instead:
+// /api/pay-stubs/<token>, where the token names the submission and employee
+// and expires after PAY_STUB_LINK_DAYS. It is signed with PAY_STUB_LINK_SECRET;
+// rotating the secret revokes every link handed out.
+
+import { createHmac, timingSafeEqual } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { readAll } from "@/lib/supabase/paginate"
+import { DOUBLE_TIME_MULTIPLIER, OVERTIME_MULTIPLIER } from "./overtime"
+import type { PayStub, PayStubLine } from "./payStubPdf"
+
+export type { PayStub, PayStubLine } from "./payStubPdf"
+
+export const PAY_STUB_LINK_DAYS = 30
+
+export interface PayStubLink {
+  employeeId: string
+  employeeName: string
+  url: string
+  expiresAt: string
+}
+
+export type PayStubTokenCheck =
+  | { ok: true; submissionId: string; employeeId: string }
+  | { ok: false; reason: string }
+
+interface SubmissionRow {
+  id: string
+  location_id: string
+  pay_date: string
+  period_start: string | null
+  period_end: string | null
+  payroll_group: string | null
+  adjusts_submission_id: string | null
+  correction_reason: string | null
+  locations: { name?: string } | { name?: string }[] | null
+}
+
+interface EntryRow {
+  submission_id: string
+  employee_id: string
+  employee_name: string | null
+  employee_first_name: string | null
+  employee_last_name: string | null
+  employee_type: string | null
+  hours: number | string | null
+  regular_hours: number | string | null
+  overtime_hours: number | string | null
+  double_time_hours: number | string | null
+  units: number | string | null
+  fixed_count: number | string | null
+  adjustment_amount: number | string | null
+  rate: number | string | null
+  amount: number | string | null
+  notes: string | null
+  entry_kind: string | null
+  status: string | null
+}
+
+const SUBMISSION_COLUMNS =
+  "id, location_id, pay_date, period_start, period_end, payroll_group, adjusts_submission_id, correction_reason, locations(name)"
+
+const ENTRY_COLUMNS =
+  "submission_id, employee_id, employee_name, employee_first_name, employee_last_name, employee_type, hours, regular_hours, overtime_hours, double_time_hours, units, fixed_count, adjustment_amount, rate, amount, notes, entry_kind, status"
+
+const KIND_PREFIX: Record<string, string> = { reversal: "Reversal: ", replacement: "Corrected: " }
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const num = (value: number | string | null) => Number(value || 0)
+
+const entryName = (row: EntryRow) =>
+  row.employee_name || [row.employee_first_name, row.employee_last_name].filter(Boolean).join(" ") || "Unknown"
+
+// How the entry's amount was computed, line by line. Whatever the lines don't
+// explain (entries from before rates were stored) shows as other pay.
+function entryLines(row: EntryRow): { lines: PayStubLine[]; hours: number } {
+  const prefix = KIND_PREFIX[row.entry_kind || ""] || ""
+  const rate = row.rate === null ? null : num(row.rate)
+  const amount = num(row.amount)
+  const regular = num(row.regular_hours ?? row.hours)
+  const overtime = num(row.overtime_hours)
+  const doubleTime = num(row.double_time_hours)
+  const hours = regular + overtime + doubleTime
+  const type = row.employee_type || (hours !== 0 ? "hourly" : num(row.units) !== 0 ? "production" : "fixed")
+
+  const lines: PayStubLine[] = []
+  const line = (description: string, quantity: number | null, unit: PayStubLine["unit"], lineRate: number | null, lineAmount: number) =>
+    lines.push({ description: `${prefix}${description}`, quantity, unit, rate: lineRate, amount: round2(lineAmount) })
+
+  if (type === "hourly") {
+    if (rate === null) {
+      line("Hours", hours, "hours", null, amount)
+    } else {
+      if (regular) line("Regular", regular, "hours", rate, regular * rate)
+      if (overtime) line("Overtime", overtime, "hours", rate * OVERTIME_MULTIPLIER, overtime * rate * OVERTIME_MULTIPLIER)
+      if (doubleTime) {
+        line("Double time", doubleTime, "hours", rate * DOUBLE_TIME_MULTIPLIER, doubleTime * rate * DOUBLE_TIME_MULTIPLIER)
+      }
+    }
+  } else if (type === "production") {
+    line("Production", num(row.units), "units", rate, amount)
+  } else {
+    const adjustment = num(row.adjustment_amount)
+    line("Fixed pay", row.fixed_count === null ? null : num(row.fixed_count), "count", rate, amount - adjustment)
+    if (adjustment) line("Adjustment", null, null, null, adjustment)
+  }
+
+  const difference = round2(amount - lines.reduce((sum, l) => sum + l.amount, 0))
+  if (Math.abs(difference) >= 0.01) line("Other pay", null, null, null, difference)
+  return { lines, hours: type === "hourly" ? hours : 0 }
+}
+
+async function loadYearToDate(
+  supabase: SupabaseClient,
+  organizationId: string,
+  employeeIds: string[],
+  payDate: string,
+): Promise<Map<string, { gross: number; hours: number }>> {
+  const totals = new Map<string, { gross: number; hours: number }>()
+  if (employeeIds.length === 0) return totals
+
+  const rows = await readAll<{ employee_id: string; total_amount: number | null; hours: number | null }>((from, to) =>
+    supabase
+      .from("payments")
+      .select("employee_id, total_amount, hours")
+      .eq("organization_id", organizationId)
+      .in("employee_id", employeeIds)
+      .gte("date", `${payDate.slice(0, 4)}-01-01`)
+      .lte("date", payDate)
+      .order("date")
+      .order("id")
+      .range(from, to),
+  )
+
+  for (const row of rows) {
+    const total = totals.get(row.employee_id) || { gross: 0, hours: 0 }
+    total.gross += num(row.total_amount)
+    total.hours += num(row.hours)
+    totals.set(row.employee_id, total)
+  }
+  totals.forEach((total) => {
+    total.gross = round2(total.gross)
+    total.hours = round2(total.hours)
+  })
+  return totals
+}
+
+// Statements for the given submissions (approved ones only), optionally just
+// one employee's, ordered by location, then employee
+export async function loadPayStubs(
+  supabase: SupabaseClient,
+  organizationId: string,
+  submissionIds: string[],
+  employeeId?: string | null,
+): Promise<PayStub[]> {
+  if (submissionIds.length === 0) return []
+
+  const { data: submissions, error } = await supabase
+    .from("payroll_submissions")
+    .select(SUBMISSION_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("status", "approved")
+    .in("id", submissionIds)
+  if (error) throw error
+  if (!submissions || submissions.length === 0) return []
+
+  let entriesQuery = supabase
+    .from("payroll_entries")
+    .select(ENTRY_COLUMNS)
+    .in(
+      "submission_id",
+      submissions.map((s) => s.id),
+    )
+  if (employeeId) entriesQuery = entriesQuery.eq("employee_id", employeeId)
+  const { data: entries, error: entriesError } = await entriesQuery
+  if (entriesError) throw entriesError
+
+  // A correction run can hold a reversal and a replacement for one employee
+  const stubByKey = new Map<string, PayStub>()
+  const submissionById = new Map((submissions as SubmissionRow[]).map((s) => [s.id, s]))
+  for (const row of (entries || []) as EntryRow[]) {
+    if (row.status && row.status !== "approved") continue
+    const submission = submissionById.get(row.submission_id)!
+    const key = `${row.submission_id}|${row.employee_id}`
+    const location = Array.isArray(submission.locations) ? submission.locations[0] : submission.locations
+
+    const stub: PayStub = stubByKey.get(key) || {
+      submissionId: submission.id,
+      employeeId: row.employee_id,
+      employeeName: entryName(row),
+      locationName: location?.name || "Unknown Location",
+      payDate: submission.pay_date,
+      periodStart: submission.period_start,
+      periodEnd: submission.period_end,
+      payrollGroup: submission.payroll_group,
+      correction: submission.adjusts_submission_id ? { reason: submission.correction_reason } : null,
+      lines: [],
+      gross: 0,
+      hours: 0,
+      notes: [],
+      ytd: { gross: 0, hours: 0 },
+    }
+    const { lines, hours } = entryLines(row)
+    stub.lines.push(...lines)
+    stub.gross = round2(stub.gross + num(row.amount))
+    stub.hours = round2(stub.hours + hours)
+    if (row.notes?.trim()) stub.notes.push(row.notes.trim())
+    stubByKey.set(key, stub)
+  }
+
+  const stubs = [...stubByKey.values()]
+  for (const payDate of new Set(stubs.map((s) => s.payDate))) {
+    const onDate = stubs.filter((s) => s.payDate === payDate)
+    const ytd = await loadYearToDate(supabase, organizationId, [...new Set(onDate.map((s) => s.employeeId))], payDate)
+    onDate.forEach((stub) => (stub.ytd = ytd.get(stub.employeeId) || { gross: 0, hours: 0 }))
+  }
+
+  return stubs.sort(
+    (a, b) =>
+      a.locationName.localeCompare(b.locationName) ||
+      a.employeeName.localeCompare(b.employeeName) ||
+      a.submissionId.localeCompare(b.submissionId),
+  )
+}
+
+// Approved submissions for a pay date, correction runs included
+export async function approvedSubmissionIds(
+  supabase: SupabaseClient,
+  organizationId: string,
+  payDate: string,
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("payroll_submissions")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .eq("pay_date", payDate)
+    .eq("status", "approved")
+  if (error) throw error
+  return (data || []).map((s) => s.id)
+}
+
+/* ------------------------------ Employee links ------------------------------ */
+
+function linkSecret(): string {
+  const secret = process.env.PAY_STUB_LINK_SECRET
+  if (!secret) throw new Error("Missing PAY_STUB_LINK_SECRET environment variable")
+  return secret
+}
+
+const sign = (payload: string) => createHmac("sha256", linkSecret()).update(payload).digest("base64url")
+
+export function createPayStubToken(submissionId: string, employeeId: string, expiresAt: Date): string {
+  const payload = Buffer.from(
+    JSON.stringify({ s: submissionId, e: employeeId, x: Math.floor(expiresAt.getTime() / 1000) }),
+  ).toString("base64url")
+  return `${payload}.${sign(payload)}`
+}
+
+export function verifyPayStubToken(token: string, now: Date = new Date()): PayStubTokenCheck {
+  const [payload, signature] = token.split(".")
+  if (!payload || !signature) return { ok: false, reason: "Invalid link" }
+
+  const expected = Buffer.from(sign(payload))
+  const received = Buffer.from(signature)
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return { ok: false, reason: "Invalid link" }
+  }
+
+  let claims: { s?: unknown; e?: unknown; x?: unknown }
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+  } catch {
+    return { ok: false, reason: "Invalid link" }
+  }
+  if (typeof claims.s !== "string" || typeof claims.e !== "string" || typeof claims.x !== "number") {
+    return { ok: false, reason: "Invalid link" }
+  }
+  if (claims.x * 1000 < now.getTime()) return { ok: false, reason: "This link has expired" }
+  return { ok: true, submissionId: claims.s, employeeId: claims.e }
+}
+
+// One link per employee on the submission; appUrl is the request origin
+export async function payStubLinks(
+  supabase: SupabaseClient,
+  organizationId: string,
+  submissionId: string,
+  appUrl: string,
+  now: Date = new Date(),
+): Promise<PayStubLink[]> {
+  const stubs = await loadPayStubs(supabase, organizationId, [submissionId])
+  const expiresAt = new Date(now.getTime() + PAY_STUB_LINK_DAYS * 24 * 60 * 60 * 1000)
+  return stubs.map((stub) => ({
+    employeeId: stub.employeeId,
+    employeeName: stub.employeeName,
+    url: new URL(`/api/pay-stubs/${createPayStubToken(submissionId, stub.employeeId, expiresAt)}`, appUrl).toString(),
+    expiresAt: expiresAt.toISOString(),
+  }))
+}
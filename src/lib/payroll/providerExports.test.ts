@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { FakeSupabase, MAX_ROWS } from "@/test/fakeSupabase"
+import { prepareProviderExport } from "./providerExports"
+
+const ORG = "org-1"
+const PAY_DATE = "2026-03-13"
+
+let db: FakeSupabase
+
+const submission = (id: string, status: string) => ({
+  id,
+  organization_id: ORG,
+  location_id: "loc-main",
+  locations: { name: "Main St" },
+  pay_date: PAY_DATE,
+  status,
+})
+
+const entry = (n: number, submissionId: string, regularHours: number) => ({
+  id: `entry-${submissionId}-${String(n).padStart(4, "0")}`,
+  submission_id: submissionId,
+  employee_id: `emp-${String(n).padStart(4, "0")}`,
+  employee_name: null,
+  employee_first_name: "Worker",
+  employee_last_name: String(n).padStart(4, "0"),
+  employee_type: "hourly",
+  hours: regularHours,
+  regular_hours: regularHours,
+  overtime_hours: 0,
+  double_time_hours: 0,
+  units: null,
+  adjustment_amount: null,
+  rate: 20,
+  amount: regularHours * 20,
+  status: "approved",
+})
+
+beforeEach(() => {
+  db = new FakeSupabase({
+    payroll_submissions: [submission("sub-1", "approved"), submission("sub-2", "approved"), submission("sub-3", "pending")],
+    payroll_entries: [
+      ...Array.from({ length: 1200 }, (_, n) => entry(n, "sub-1", 8)),
+      // Correction run taking back one person's hours
+      entry(7, "sub-2", -8),
+      entry(9, "sub-3", 8),
+    ],
+  })
+})
+
+describe("prepareProviderExport", () => {
+  it("reads every approved entry past the 1,000-row cap, a page at a time in id order", async () => {
+    const { report, file } = await prepareProviderExport(db.client, ORG, "gusto", PAY_DATE)
+
+    expect(report.ok).toBe(true)
+    expect(report.submissionIds).toEqual(["sub-1", "sub-2"])
+    expect(report.warnings).toContain("1 submission(s) for this pay date aren't approved and are left out")
+    expect(report.totals).toEqual({ employees: 1199, lines: 1199, hours: 1199 * 8, amount: 1199 * 160 })
+    expect(report.lines.some((l) => l.employeeId === "emp-0007")).toBe(false)
+    expect(file!.trimEnd().split("\r\n")).toHaveLength(1 + 1199)
+
+    const reads = db.calls.filter((c) => c.table === "payroll_entries")
+    expect(reads).toHaveLength(2)
+    expect(reads.every((c) => c.orders.includes("id") && c.range !== null && c.range[1] - c.range[0] < MAX_ROWS)).toBe(true)
+  })
+})
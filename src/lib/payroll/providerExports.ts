@@ -0,0 +1,457 @@
+// src/lib/payroll/providerExports.ts
+// Server-only. Payroll processor import files for approved payroll (see
+// scripts/create-payroll-provider-exports.sql and providerFormats.ts).
+//
+// prepareProviderExport gathers every approved submission for a pay date,
+// including correction runs, and nets their approved payroll_entries into one
+// line per employee, location and hourly rate. Hours stay hours so the
+// provider applies its own rates and premiums; production, fixed pay and
+// adjustments go as dollar amounts. As with ACH, the report is shown before
+// export and the file is only built when it has no errors.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { readAll } from "@/lib/supabase/paginate"
+import {
+  EARNING_KINDS,
+  EARNING_LABELS,
+  HOURS_KINDS,
+  PROVIDER_FORMATTERS,
+  validateEarningCodes,
+  type EarningCodes,
+  type EarningKind,
+  type PayrollProvider,
+  type ProviderLine,
+} from "./providerFormats"
+import { PayrollError } from "./submissions"
+
+export interface ProviderSettings {
+  organization_id: string
+  provider: PayrollProvider
+  company_code: string | null
+  batch_id: string | null
+  earning_codes: EarningCodes
+  // Location id -> the provider's department / org code
+  location_codes: Record<string, string>
+  updated_at: string | null
+}
+
+export type ProviderSettingsInput = Omit<ProviderSettings, "organization_id" | "provider" | "updated_at">
+
+export interface EmployeeProviderId {
+  employee_id: string
+  external_id: string
+  updated_at: string | null
+}
+
+export interface ProviderReportLine extends ProviderLine {
+  name: string
+  locationName: string
+  amount: number
+}
+
+export interface ProviderExportReport {
+  provider: PayrollProvider
+  payDate: string
+  ok: boolean
+  errors: string[]
+  warnings: string[]
+  lines: ProviderReportLine[]
+  submissionIds: string[]
+  totals: { employees: number; lines: number; hours: number; amount: number }
+  previousExports: { id: string; line_count: number; total_amount: number; created_at: string }[]
+}
+
+export interface ProviderExport {
+  report: ProviderExportReport
+  // null when the report has errors
+  file: string | null
+  fileName: string
+}
+
+interface EntryRow {
+  submission_id: string
+  employee_id: string
+  employee_name: string | null
+  employee_first_name: string | null
+  employee_last_name: string | null
+  employee_type: string | null
+  hours: number | string | null
+  regular_hours: number | string | null
+  overtime_hours: number | string | null
+  double_time_hours: number | string | null
+  units: number | string | null
+  adjustment_amount: number | string | null
+  rate: number | string | null
+  amount: number | string | null
+  status: string | null
+}
+
+const SETTINGS_COLUMNS = "organization_id, provider, company_code, batch_id, earning_codes, location_codes, updated_at"
+
+const ENTRY_COLUMNS =
+  "submission_id, employee_id, employee_name, employee_first_name, employee_last_name, employee_type, hours, regular_hours, overtime_hours, double_time_hours, units, adjustment_amount, rate, amount, status"
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const num = (value: number | string | null) => Number(value || 0)
+
+const noEarnings = (): Record<EarningKind, number> =>
+  Object.fromEntries(EARNING_KINDS.map((kind) => [kind, 0])) as Record<EarningKind, number>
+
+export async function loadProviderSettings(
+  supabase: SupabaseClient,
+  organizationId: string,
+  provider: PayrollProvider,
+): Promise<ProviderSettings | null> {
+  const { data, error } = await supabase
+    .from("payroll_provider_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("provider", provider)
+    .maybeSingle()
+  if (error) throw error
+  return data as ProviderSettings | null
+}
+
+// Returns an error message, or null when the settings can be saved
+export function validateProviderSettings(
+  provider: PayrollProvider,
+  input: Partial<ProviderSettingsInput>,
+): string | null {
+  const formatter = PROVIDER_FORMATTERS[provider]
+  if (formatter.companyCode && !formatter.companyCode.pattern.test(input.company_code || "")) {
+    return `${formatter.companyCode.label} must be ${formatter.companyCode.hint.toLowerCase()}`
+  }
+  if (formatter.batchId && !formatter.batchId.pattern.test(input.batch_id || "")) {
+    return `${formatter.batchId.label} must be ${formatter.batchId.hint.toLowerCase()}`
+  }
+  if (!input.earning_codes || typeof input.earning_codes !== "object") return "earning_codes is required"
+  if (!input.location_codes || typeof input.location_codes !== "object") return "location_codes is required"
+  if (Object.values(input.location_codes).some((code) => typeof code !== "string" || code.length > 20 || /[\r\n",]/.test(code))) {
+    return "Department codes must be up to 20 characters"
+  }
+  return validateEarningCodes(provider, input.earning_codes)
+}
+
+export async function saveProviderSettings(
+  supabase: SupabaseClient,
+  organizationId: string,
+  provider: PayrollProvider,
+  input: ProviderSettingsInput,
+  userId: string,
+): Promise<ProviderSettings> {
+  const formatter = PROVIDER_FORMATTERS[provider]
+  const trimmed = (codes: Record<string, string | undefined>) =>
+    Object.fromEntries(
+      Object.entries(codes)
+        .map(([key, code]) => [key, code?.trim() || ""])
+        .filter(([, code]) => code),
+    )
+
+  const { data, error } = await supabase
+    .from("payroll_provider_settings")
+    .upsert(
+      {
+        organization_id: organizationId,
+        provider,
+        company_code: formatter.companyCode ? input.company_code : null,
+        batch_id: formatter.batchId ? input.batch_id : null,
+        earning_codes: trimmed(input.earning_codes),
+        location_codes: trimmed(input.location_codes),
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "organization_id,provider" },
+    )
+    .select(SETTINGS_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as ProviderSettings
+}
+
+export async function listEmployeeProviderIds(
+  supabase: SupabaseClient,
+  organizationId: string,
+  provider: PayrollProvider,
+): Promise<EmployeeProviderId[]> {
+  const { data, error } = await supabase
+    .from("employee_provider_ids")
+    .select("employee_id, external_id, updated_at")
+    .eq("organization_id", organizationId)
+    .eq("provider", provider)
+  if (error) throw error
+  return (data || []) as EmployeeProviderId[]
+}
+
+// Returns an error message, or null when the IDs can be saved
+export function validateEmployeeProviderIds(provider: PayrollProvider, ids: Record<string, string | null>): string | null {
+  const { externalId } = PROVIDER_FORMATTERS[provider]
+  const seen = new Set<string>()
+  for (const value of Object.values(ids)) {
+    const id = value?.trim()
+    if (!id) continue
+    if (!externalId.pattern.test(id)) return `${id} is not a valid ${externalId.label}`
+    if (seen.has(id)) return `${id} is given to more than one employee`
+    seen.add(id)
+  }
+  return null
+}
+
+// ids maps employee id -> external id; blank removes the employee's ID
+export async function saveEmployeeProviderIds(
+  supabase: SupabaseClient,
+  organizationId: string,
+  provider: PayrollProvider,
+  ids: Record<string, string | null>,
+  userId: string,
+): Promise<EmployeeProviderId[]> {
+  const employeeIds = Object.keys(ids)
+  if (employeeIds.length === 0) return listEmployeeProviderIds(supabase, organizationId, provider)
+
+  const { data: employees, error: employeesError } = await supabase
+    .from("employees")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .in("id", employeeIds)
+  if (employeesError) throw employeesError
+  if ((employees || []).length !== employeeIds.length) throw new PayrollError("Employee not found", 404)
+
+  const set = employeeIds.filter((id) => ids[id]?.trim())
+  const { externalId } = PROVIDER_FORMATTERS[provider]
+
+  // An ID held by an employee outside this save can't be taken
+  if (set.length > 0) {
+    const { data: taken, error: takenError } = await supabase
+      .from("employee_provider_ids")
+      .select("employee_id, external_id")
+      .eq("organization_id", organizationId)
+      .eq("provider", provider)
+      .in(
+        "external_id",
+        set.map((id) => ids[id]!.trim()),
+      )
+    if (takenError) throw takenError
+    const conflict = (taken || []).find((row) => !employeeIds.includes(row.employee_id))
+    if (conflict) throw new PayrollError(`${externalId.label} ${conflict.external_id} belongs to another employee`, 409)
+  }
+
+  // Clear first so IDs can move between employees in one save
+  const { error: deleteError } = await supabase
+    .from("employee_provider_ids")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("provider", provider)
+    .in("employee_id", employeeIds)
+  if (deleteError) throw deleteError
+  if (set.length > 0) {
+    const now = new Date().toISOString()
+    const { error } = await supabase.from("employee_provider_ids").insert(
+      set.map((employeeId) => ({
+        employee_id: employeeId,
+        organization_id: organizationId,
+        provider,
+        external_id: ids[employeeId]!.trim(),
+        updated_by: userId,
+        updated_at: now,
+      })),
+    )
+    if (error) {
+      if (error.code === "23505") throw new PayrollError(`That ${externalId.label} belongs to another employee`, 409)
+      throw error
+    }
+  }
+  return listEmployeeProviderIds(supabase, organizationId, provider)
+}
+
+// What an entry pays, by kind. Hours come from the overtime split (hours
+// alone on entries from before it); fixed pay is the amount less its
+// adjustment.
+function entryEarnings(row: EntryRow): Record<EarningKind, number> {
+  const earnings = noEarnings()
+  const hasHours = [row.hours, row.regular_hours, row.overtime_hours, row.double_time_hours].some((v) => num(v) !== 0)
+  const type = row.employee_type || (hasHours ? "hourly" : num(row.units) !== 0 ? "production" : "fixed")
+
+  if (type === "hourly") {
+    earnings.regular = num(row.regular_hours ?? row.hours)
+    earnings.overtime = num(row.overtime_hours)
+    earnings.double_time = num(row.double_time_hours)
+  } else if (type === "production") {
+    earnings.production = num(row.amount)
+  } else {
+    earnings.adjustment = num(row.adjustment_amount)
+    earnings.fixed = num(row.amount) - earnings.adjustment
+  }
+  return earnings
+}
+
+const entryName = (row: EntryRow) => {
+  const full = row.employee_name || [row.employee_first_name, row.employee_last_name].filter(Boolean).join(" ")
+  const [first, ...rest] = (full || "").split(" ")
+  return {
+    firstName: row.employee_first_name || first || "",
+    lastName: row.employee_last_name || rest.join(" ") || "",
+    name: full || "Unknown",
+  }
+}
+
+export async function prepareProviderExport(
+  supabase: SupabaseClient,
+  organizationId: string,
+  provider: PayrollProvider,
+  payDate: string,
+): Promise<ProviderExport> {
+  const formatter = PROVIDER_FORMATTERS[provider]
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const settings = await loadProviderSettings(supabase, organizationId, provider)
+  if (!settings && (formatter.companyCode || formatter.batchId)) {
+    errors.push(`${formatter.label} settings are missing. Enter your ${formatter.companyCode?.label || "company code"} first.`)
+  }
+
+  const { data: submissions, error } = await supabase
+    .from("payroll_submissions")
+    .select("id, location_id, status, locations(name)")
+    .eq("organization_id", organizationId)
+    .eq("pay_date", payDate)
+  if (error) throw error
+
+  const approved = (submissions || []).filter((s) => s.status === "approved")
+  const notApproved = (submissions || []).length - approved.length
+  if (notApproved > 0) {
+    warnings.push(`${notApproved} submission(s) for this pay date aren't approved and are left out`)
+  }
+  if (approved.length === 0) errors.push("No approved payroll for this pay date")
+
+  const entries = await readAll<EntryRow>((from, to) =>
+    supabase
+      .from("payroll_entries")
+      .select(ENTRY_COLUMNS)
+      .in(
+        "submission_id",
+        approved.map((s) => s.id),
+      )
+      .order("id")
+      .range(from, to),
+  )
+
+  const crosswalk = new Map(
+    (await listEmployeeProviderIds(supabase, organizationId, provider)).map((row) => [row.employee_id, row.external_id]),
+  )
+  const locationBySubmission = new Map(
+    approved.map((s) => {
+      const location = Array.isArray(s.locations) ? s.locations[0] : s.locations
+      return [s.id, { id: s.location_id as string, name: (location as { name?: string } | null)?.name || "Unknown Location" }]
+    }),
+  )
+
+  // Reversals and replacements net against the original on the same key
+  const lineByKey = new Map<string, ProviderReportLine>()
+  for (const row of entries) {
+    if (row.status && row.status !== "approved") continue
+    const location = locationBySubmission.get(row.submission_id)!
+    const earnings = entryEarnings(row)
+    const rate = HOURS_KINDS.some((kind) => earnings[kind] !== 0) && row.rate !== null ? round2(num(row.rate)) : null
+    const key = `${row.employee_id}|${location.id}|${rate ?? ""}`
+
+    const line: ProviderReportLine = lineByKey.get(key) || {
+      employeeId: row.employee_id,
+      externalId: crosswalk.get(row.employee_id) || null,
+      ...entryName(row),
+      locationCode: settings?.location_codes?.[location.id] || null,
+      locationName: location.name,
+      rate,
+      earnings: noEarnings(),
+      amount: 0,
+    }
+    EARNING_KINDS.forEach((kind) => (line.earnings[kind] += earnings[kind]))
+    line.amount += num(row.amount)
+    lineByKey.set(key, line)
+  }
+
+  const lines: ProviderReportLine[] = []
+  const missingIds = new Set<string>()
+  for (const line of lineByKey.values()) {
+    EARNING_KINDS.forEach((kind) => (line.earnings[kind] = round2(line.earnings[kind])))
+    line.amount = round2(line.amount)
+    if (EARNING_KINDS.every((kind) => line.earnings[kind] === 0)) continue
+    lines.push(line)
+
+    // Adjustments can be deductions; nothing else can go below zero
+    for (const kind of EARNING_KINDS) {
+      if (kind !== "adjustment" && line.earnings[kind] < 0) {
+        errors.push(`${line.name} (${line.locationName}) has negative ${EARNING_LABELS[kind].toLowerCase()} after corrections`)
+      }
+    }
+    if (!line.externalId) {
+      if (formatter.externalId.required) missingIds.add(line.name)
+    } else if (!formatter.externalId.pattern.test(line.externalId)) {
+      errors.push(`${line.name} has an invalid ${formatter.externalId.label}`)
+    }
+  }
+  missingIds.forEach((name) => errors.push(`${name} has no ${formatter.externalId.label}`))
+  if (!formatter.externalId.required && lines.some((line) => !line.externalId)) {
+    warnings.push(`Some employees have no ${formatter.externalId.label} and will be matched by name`)
+  }
+  lines.sort((a, b) => a.name.localeCompare(b.name) || a.locationName.localeCompare(b.locationName))
+
+  const { data: previousExports, error: exportsError } = await supabase
+    .from("payroll_provider_exports")
+    .select("id, line_count, total_amount, created_at")
+    .eq("organization_id", organizationId)
+    .eq("provider", provider)
+    .eq("pay_date", payDate)
+    .order("created_at", { ascending: false })
+  if (exportsError) throw exportsError
+  if ((previousExports || []).length > 0) {
+    warnings.push(`A ${formatter.label} file was already exported for this pay date. Don't import both.`)
+  }
+
+  const ok = errors.length === 0
+  const options = {
+    payDate,
+    companyCode: settings?.company_code || null,
+    batchId: settings?.batch_id || null,
+    earningCodes: settings?.earning_codes || {},
+  }
+  const report: ProviderExportReport = {
+    provider,
+    payDate,
+    ok,
+    errors,
+    warnings,
+    lines,
+    submissionIds: approved.map((s) => s.id),
+    totals: {
+      employees: new Set(lines.map((l) => l.employeeId)).size,
+      lines: lines.length,
+      hours: round2(lines.reduce((sum, l) => sum + HOURS_KINDS.reduce((h, kind) => h + l.earnings[kind], 0), 0)),
+      amount: round2(lines.reduce((sum, l) => sum + l.amount, 0)),
+    },
+    previousExports: (previousExports || []) as ProviderExportReport["previousExports"],
+  }
+
+  return {
+    report,
+    file: ok ? formatter.build(lines, options) : null,
+    fileName: formatter.fileName(options),
+  }
+}
+
+export async function recordProviderExport(
+  supabase: SupabaseClient,
+  organizationId: string,
+  providerExport: ProviderExport,
+  userId: string,
+): Promise<void> {
+  const { report } = providerExport
+  const { error } = await supabase.from("payroll_provider_exports").insert({
+    organization_id: organizationId,
+    provider: report.provider,
+    pay_date: report.payDate,
+    line_count: report.totals.lines,
+    total_amount: report.totals.amount,
+    submission_ids: report.submissionIds,
+    exported_by: userId,
+  })
+  if (error) throw error
+}
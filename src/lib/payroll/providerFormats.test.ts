@@ -0,0 +1,81 @@
+import { readFileSync } from "fs"
+import { describe, expect, it } from "vitest"
+import { EARNING_KINDS, PROVIDER_FORMATTERS, type EarningKind, type ProviderFileOptions, type ProviderLine } from "./providerFormats"
+
+// Fixtures were written cell by cell from each provider's import layout, not by these formatters
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8")
+
+const line = (
+  employeeId: string,
+  externalId: string,
+  [firstName, lastName]: [string, string],
+  locationCode: string,
+  rate: number | null,
+  earnings: Partial<Record<EarningKind, number>>,
+): ProviderLine => ({
+  employeeId,
+  externalId,
+  firstName,
+  lastName,
+  locationCode,
+  rate,
+  earnings: { ...Object.fromEntries(EARNING_KINDS.map((kind) => [kind, 0])), ...earnings } as Record<EarningKind, number>,
+})
+
+// One pay date: Dana worked at two locations at two rates, Chris has
+// production pay and a deduction, Sam fixed pay and a positive adjustment
+const LINES: ProviderLine[] = [
+  line("emp-4", "1004", ["Sam", "Rivera"], "MAIN", null, { fixed: 2000, adjustment: 100 }),
+  line("emp-1", "1001", ["Dana", "Álvarez"], "MAIN", 22.5, { regular: 80, overtime: 4.5 }),
+  line("emp-2", "1002", ["Chris", "O'Neil, Jr."], "MAIN", null, { production: 1250.4, adjustment: -35 }),
+  line("emp-1", "1001", ["Dana", "Álvarez"], "PIER", 24, { regular: 6 }),
+  line("emp-3", "1003", ["Avery", "Lee"], "PIER", 19.75, { regular: 40, overtime: 2, double_time: 1.25 }),
+]
+
+const options = (extra: Partial<ProviderFileOptions> = {}): ProviderFileOptions => ({
+  payDate: "2026-03-13",
+  companyCode: null,
+  batchId: null,
+  earningCodes: {},
+  ...extra,
+})
+
+describe("provider import files", () => {
+  it("builds the Gusto hours import with one row per employee", () => {
+    const gusto = PROVIDER_FORMATTERS.gusto
+    expect(gusto.build(LINES, options())).toBe(fixture("gusto-hours.csv"))
+    expect(gusto.fileName(options())).toBe("gusto-hours-2026-03-13.csv")
+  })
+
+  it("builds the ADP paydata file with one row per employee and department", () => {
+    const adp = PROVIDER_FORMATTERS.adp
+    const adpOptions = options({ companyCode: "XYZ", batchId: "01", earningCodes: { production: "PC" } })
+    expect(adp.build(LINES, adpOptions)).toBe(fixture("adp-epi.csv"))
+    expect(adp.fileName(adpOptions)).toBe("EPIXYZ01.csv")
+  })
+
+  it("builds the Paychex SPI file with one row per pay component, adding kinds that share a code", () => {
+    const paychex = PROVIDER_FORMATTERS.paychex
+    const paychexOptions = options({ companyCode: "70012345", earningCodes: { production: "Flat Pay" } })
+    expect(paychex.build(LINES, paychexOptions)).toBe(fixture("paychex-spi.csv"))
+    expect(paychex.fileName(paychexOptions)).toBe("paychex-spi-70012345-2026-03-13.csv")
+  })
+
+  it("quotes cells with commas, quotes and line breaks, including a bare carriage return", () => {
+    const names: [string, string][] = [
+      ["Jo\rAnn", "Park"],
+      ['Alex "AJ"', "Kim"],
+      ["Lee\nAnn", "Moss"],
+    ]
+    const file = PROVIDER_FORMATTERS.gusto.build(
+      names.map((name, n) => line(`emp-${n}`, `${n}`, name, "MAIN", 20, { regular: 1 })),
+      options(),
+    )
+
+    expect(file.split("\r\n").slice(1, 4)).toEqual([
+      '1,Kim,"Alex ""AJ""",1.00,,,,,',
+      "2,Moss,\"Lee\nAnn\",1.00,,,,,",
+      "0,Park,\"Jo\rAnn\",1.00,,,,,",
+    ])
+  })
+})
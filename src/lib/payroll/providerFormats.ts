@@ -0,0 +1,306 @@
+// src/lib/payroll/providerFormats.ts
+// Import file layouts for outside payroll processors. Each formatter turns the
+// lines of a pay date (one per employee, location and rate, already netted
+// across corrections) into the CSV that provider's payroll import accepts:
+//   gusto   - hours and earnings import, one row per employee
+//   adp     - Workforce Now paydata (EPI) file, one row per employee/department
+//   paychex - Flex SPI file, one row per employee/department/pay component
+//
+// Pure functions only; lib/payroll/providerExports.ts loads the payroll, the
+// organization's earning codes and the employee ID crosswalk.
+
+export type PayrollProvider = "gusto" | "adp" | "paychex"
+
+export const PAYROLL_PROVIDERS: PayrollProvider[] = ["gusto", "adp", "paychex"]
+
+// Hours kinds are exported as hours, the rest as dollar amounts
+export type EarningKind = "regular" | "overtime" | "double_time" | "production" | "fixed" | "adjustment"
+
+export const EARNING_KINDS: EarningKind[] = ["regular", "overtime", "double_time", "production", "fixed", "adjustment"]
+
+export const HOURS_KINDS: EarningKind[] = ["regular", "overtime", "double_time"]
+
+export const EARNING_LABELS: Record<EarningKind, string> = {
+  regular: "Regular hours",
+  overtime: "Overtime hours",
+  double_time: "Double time hours",
+  production: "Production pay",
+  fixed: "Fixed pay",
+  adjustment: "Adjustments",
+}
+
+export type EarningCodes = Partial<Record<EarningKind, string>>
+
+export interface ProviderLine {
+  employeeId: string
+  // The employee's ID at the provider, from the crosswalk
+  externalId: string | null
+  firstName: string
+  lastName: string
+  // Department / org code of the location the pay was submitted for
+  locationCode: string | null
+  // Hourly rate behind the hours; null for lines without hours
+  rate: number | null
+  earnings: Record<EarningKind, number>
+}
+
+export interface ProviderFileOptions {
+  payDate: string // YYYY-MM-DD
+  companyCode: string | null
+  batchId: string | null
+  earningCodes: EarningCodes
+}
+
+export interface ProviderField {
+  label: string
+  pattern: RegExp
+  hint: string
+}
+
+export interface ProviderFormatter {
+  label: string
+  // Kinds of pay the organization maps to its own earning codes; the others
+  // have fixed columns in the layout
+  mappedEarnings: EarningKind[]
+  defaultEarningCodes: EarningCodes
+  // null when the layout has no such field
+  companyCode: ProviderField | null
+  batchId: ProviderField | null
+  // Lines without an external ID are refused when required
+  externalId: ProviderField & { required: boolean }
+  fileName(options: ProviderFileOptions): string
+  build(lines: ProviderLine[], options: ProviderFileOptions): string
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (rows: (string | number | null)[][]) => rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+
+// Blank rather than 0.00, which some imports read as "set to zero"
+const decimal = (n: number) => (Math.abs(n) < 0.005 ? "" : n.toFixed(2))
+
+const usDate = (date: string) => {
+  const [y, m, d] = date.split("-")
+  return `${m}/${d}/${y}`
+}
+
+const byName = (a: ProviderLine, b: ProviderLine) =>
+  a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName) || a.employeeId.localeCompare(b.employeeId)
+
+const codeFor = (kind: EarningKind, options: ProviderFileOptions, formatter: ProviderFormatter) =>
+  options.earningCodes[kind]?.trim() || formatter.defaultEarningCodes[kind] || ""
+
+// Mapped kinds grouped by code, in EARNING_KINDS order; kinds sharing a code
+// are added together
+function codeGroups(formatter: ProviderFormatter, options: ProviderFileOptions): [string, EarningKind[]][] {
+  const groups = new Map<string, EarningKind[]>()
+  for (const kind of EARNING_KINDS) {
+    if (!formatter.mappedEarnings.includes(kind)) continue
+    const code = codeFor(kind, options, formatter)
+    groups.set(code, [...(groups.get(code) || []), kind])
+  }
+  return [...groups.entries()]
+}
+
+const sumKinds = (line: ProviderLine, kinds: EarningKind[]) => kinds.reduce((sum, kind) => sum + line.earnings[kind], 0)
+
+/* ------------------------------ Gusto ------------------------------ */
+
+// Hours & earnings import: a column per earning type, named as in Gusto.
+// Gusto matches rows on the employee ID when given, otherwise on the name.
+const gusto: ProviderFormatter = {
+  label: "Gusto",
+  mappedEarnings: EARNING_KINDS,
+  defaultEarningCodes: {
+    regular: "Regular Hours",
+    overtime: "Overtime Hours",
+    double_time: "Double Overtime Hours",
+    production: "Piece Rate",
+    fixed: "Bonus",
+    adjustment: "Correction Payment",
+  },
+  companyCode: null,
+  batchId: null,
+  externalId: {
+    label: "Gusto employee ID",
+    pattern: /^[A-Za-z0-9-]{1,50}$/,
+    hint: "Optional; rows without one are matched by name",
+    required: false,
+  },
+  fileName: (options) => `gusto-hours-${options.payDate}.csv`,
+  build(lines, options) {
+    const groups = codeGroups(gusto, options)
+
+    // Gusto takes one row per employee, whatever the location or rate
+    const byEmployee = new Map<string, ProviderLine>()
+    for (const line of lines) {
+      const existing = byEmployee.get(line.employeeId)
+      if (!existing) {
+        byEmployee.set(line.employeeId, { ...line, earnings: { ...line.earnings } })
+        continue
+      }
+      EARNING_KINDS.forEach((kind) => (existing.earnings[kind] += line.earnings[kind]))
+    }
+
+    const rows: (string | number | null)[][] = [["Employee ID", "Last Name", "First Name", ...groups.map(([code]) => code)]]
+    const employees = [...byEmployee.values()].sort(byName)
+    employees.forEach((line) => {
+      rows.push([line.externalId, line.lastName, line.firstName, ...groups.map(([, kinds]) => decimal(sumKinds(line, kinds)))])
+    })
+    return toCsv(rows)
+  },
+}
+
+/* ------------------------------ ADP ------------------------------ */
+
+// Workforce Now paydata import (EPI file). Regular and overtime hours have
+// their own columns; double time goes in Hours 3 and the dollar earnings in
+// Earnings 3-5, each under the organization's ADP earning code.
+const ADP_EARNING_SLOTS = 3
+
+const adp: ProviderFormatter = {
+  label: "ADP Workforce Now",
+  mappedEarnings: ["double_time", "production", "fixed", "adjustment"],
+  defaultEarningCodes: {
+    double_time: "D",
+    production: "P",
+    fixed: "F",
+    adjustment: "A",
+  },
+  companyCode: { label: "Co Code", pattern: /^[A-Z0-9]{3}$/, hint: "3 letters or digits" },
+  batchId: { label: "Batch ID", pattern: /^[A-Z0-9]{1,2}$/, hint: "1 or 2 letters or digits, used in the file name" },
+  externalId: { label: "ADP file number", pattern: /^\d{1,6}$/, hint: "Up to 6 digits", required: true },
+  fileName: (options) => `EPI${options.companyCode || ""}${options.batchId || ""}.csv`,
+  build(lines, options) {
+    const doubleTimeCode = codeFor("double_time", options, adp)
+    // At most three codes: production, fixed and adjustments
+    const amountGroups = codeGroups(adp, options).filter(([, kinds]) => !kinds.includes("double_time"))
+
+    const header = ["Co Code", "Batch ID", "File #", "Temp Dept", "Reg Hours", "O/T Hours", "Hours 3 Code", "Hours 3 Amount"]
+    for (let slot = 3; slot < 3 + ADP_EARNING_SLOTS; slot++) header.push(`Earnings ${slot} Code`, `Earnings ${slot} Amount`)
+    const rows: (string | number | null)[][] = [header]
+
+    const sorted = [...lines].sort(byName)
+    sorted.forEach((line) => {
+      const doubleTime = line.earnings.double_time
+      const row: (string | number | null)[] = [
+        options.companyCode,
+        options.batchId,
+        line.externalId,
+        line.locationCode,
+        decimal(line.earnings.regular),
+        decimal(line.earnings.overtime),
+        decimal(doubleTime) ? doubleTimeCode : "",
+        decimal(doubleTime),
+      ]
+      const amounts = amountGroups
+        .map(([code, kinds]) => [code, decimal(sumKinds(line, kinds))])
+        .filter(([, amount]) => amount)
+      for (let slot = 0; slot < ADP_EARNING_SLOTS; slot++) row.push(...(amounts[slot] || ["", ""]))
+      rows.push(row)
+    })
+    return toCsv(rows)
+  },
+}
+
+/* ------------------------------ Paychex ------------------------------ */
+
+// Flex SPI (standard payroll import): one row per pay component. Hours rows
+// carry the rate they were worked at; Paychex applies the overtime premium of
+// the component itself.
+const paychex: ProviderFormatter = {
+  label: "Paychex Flex",
+  mappedEarnings: EARNING_KINDS,
+  defaultEarningCodes: {
+    regular: "Hourly",
+    overtime: "Overtime",
+    double_time: "Double Time",
+    production: "Piecework",
+    fixed: "Flat Pay",
+    adjustment: "Adjustment",
+  },
+  companyCode: { label: "Client ID", pattern: /^[A-Za-z0-9]{1,10}$/, hint: "Up to 10 letters or digits" },
+  batchId: null,
+  externalId: { label: "Paychex worker ID", pattern: /^[A-Za-z0-9]{1,10}$/, hint: "Up to 10 letters or digits", required: true },
+  fileName: (options) => `paychex-spi-${options.companyCode || ""}-${options.payDate}.csv`,
+  build(lines, options) {
+    const groups = codeGroups(paychex, options)
+    const rows: (string | number | null)[][] = [
+      [
+        "Client ID",
+        "Worker ID",
+        "Org",
+        "Job Number",
+        "Pay Component",
+        "Rate",
+        "Rate Number",
+        "Hours",
+        "Units",
+        "Line Date",
+        "Amount",
+        "Check Seq Number",
+        "Override State",
+        "Override Local",
+        "Override Local Jurisdiction",
+        "Labor Assignment",
+      ],
+    ]
+
+    const sorted = [...lines].sort(byName)
+    sorted.forEach((line) => {
+      for (const [code, kinds] of groups) {
+        const hoursKinds = kinds.filter((kind) => HOURS_KINDS.includes(kind))
+        const hours = decimal(sumKinds(line, hoursKinds))
+        const amount = decimal(sumKinds(line, kinds.filter((kind) => !HOURS_KINDS.includes(kind))))
+        if (!hours && !amount) continue
+        rows.push([
+          options.companyCode,
+          line.externalId,
+          line.locationCode,
+          "",
+          code,
+          hours && line.rate !== null ? line.rate.toFixed(2) : "",
+          "",
+          hours,
+          "",
+          usDate(options.payDate),
+          amount,
+          "",
+          "",
+          "",
+          "",
+          "",
+        ])
+      }
+    })
+    return toCsv(rows)
+  },
+}
+
+export const PROVIDER_FORMATTERS: Record<PayrollProvider, ProviderFormatter> = { gusto, adp, paychex }
+
+export const isPayrollProvider = (value: unknown): value is PayrollProvider =>
+  typeof value === "string" && (PAYROLL_PROVIDERS as string[]).includes(value)
+
+// Returns an error message, or null when the codes can be used. A code can't
+// hold both hours and dollars.
+export function validateEarningCodes(provider: PayrollProvider, codes: EarningCodes): string | null {
+  const formatter = PROVIDER_FORMATTERS[provider]
+  const kindsByCode = new Map<string, EarningKind[]>()
+  for (const kind of formatter.mappedEarnings) {
+    const code = codes[kind]?.trim() || formatter.defaultEarningCodes[kind] || ""
+    if (!code) return `${EARNING_LABELS[kind]} needs a ${formatter.label} earning code`
+    if (code.length > 40 || /[\r\n",]/.test(code)) return `${EARNING_LABELS[kind]} has an invalid earning code`
+    kindsByCode.set(code, [...(kindsByCode.get(code) || []), kind])
+  }
+  for (const [code, kinds] of kindsByCode) {
+    const hours = kinds.filter((kind) => HOURS_KINDS.includes(kind))
+    if (hours.length > 0 && hours.length < kinds.length) {
+      return `${code} can't be used for both hours and dollar amounts`
+    }
+  }
+  return null
+}
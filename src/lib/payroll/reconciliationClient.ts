@@ -0,0 +1,38 @@
+// src/lib/payroll/reconciliationClient.ts
+// Browser helpers for /api/connecteam/production/reconciliation, used by the
+// submit pages' unmatched production queue.
+
+import { authFetch } from "@/lib/supabase/client"
+import type { ReconciliationItem, ResolveInput } from "@/lib/connecteam/reconciliation"
+
+export type { ReconciliationItem, ReconciliationStatus, ResolveInput } from "@/lib/connecteam/reconciliation"
+
+async function request(url: string, init?: RequestInit) {
+  const res = await authFetch(url, init)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json
+}
+
+export async function fetchReconciliationItems(
+  locationId: string,
+  periodStart: string,
+  periodEnd: string,
+): Promise<ReconciliationItem[]> {
+  const params = new URLSearchParams({ locationId, periodStart, periodEnd })
+  const json = await request(`/api/connecteam/production/reconciliation?${params}`)
+  return json.items || []
+}
+
+// Returns the updated item plus any of the submitter's other open items a
+// remembered decision resolved
+export async function resolveReconciliationItem(
+  itemId: string,
+  input: ResolveInput,
+): Promise<{ item: ReconciliationItem; alsoResolved: ReconciliationItem[] }> {
+  return request(`/api/connecteam/production/reconciliation/${itemId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  })
+}
@@ -0,0 +1,342 @@
+// src/lib/payroll/reminders.ts
+// Server-only. Payroll submission reminders (see
+// scripts/create-payroll-reminders.sql). For the next pay date of each payroll
+// group, a location is missing when it has active employees in the group and
+// no pending or approved submission: nothing submitted, a draft, or rejected.
+// Its location managers are reminded at each configured number of days before
+// the cutoff; at the escalation offset the organization's admins are told.
+// Every notification goes to the in-app inbox and, if enabled, by email.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { isAdminRole, isUserRole } from "@/lib/auth/routes"
+import type { EmailTransport } from "@/lib/notifications/email"
+import { createNotifications, emailNotifications, type NotificationInput } from "@/lib/notifications/inbox"
+import { loadLocationManagers, loadOrganizationMembers } from "./approvals"
+import { addDays, holidayWindow, listPayPeriods, loadHolidays, loadPayrollCalendars } from "./calendar"
+import { PayrollError } from "./submissions"
+
+export interface ReminderSettings {
+  organization_id: string
+  enabled: boolean
+  cutoff_days: number
+  reminder_offsets: number[]
+  escalation_offset: number
+  send_email: boolean
+  updated_at: string | null
+}
+
+export type ReminderSettingsInput = Omit<ReminderSettings, "organization_id" | "updated_at">
+
+export type MissingStatus = "not_submitted" | "draft" | "rejected"
+
+export interface MissingSubmission {
+  locationId: string
+  locationName: string
+  payrollGroup: string
+  payDate: string
+  cutoff: string
+  // Days from today to the cutoff; negative once it has passed
+  daysToCutoff: number
+  status: MissingStatus
+  rejectionNote: string | null
+}
+
+export interface ReminderRunSummary {
+  date: string
+  organizations: number
+  missing: number
+  reminders: number
+  escalations: number
+  emailed: number
+  emailFailed: number
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettingsInput = {
+  enabled: true,
+  cutoff_days: 3,
+  reminder_offsets: [3, 1, 0],
+  escalation_offset: 0,
+  send_email: true,
+}
+
+const SETTINGS_COLUMNS =
+  "organization_id, enabled, cutoff_days, reminder_offsets, escalation_offset, send_email, updated_at"
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY)
+
+const STATUS_TEXT: Record<MissingStatus, string> = {
+  not_submitted: "hasn't been submitted",
+  draft: "is still a draft",
+  rejected: "was rejected and needs to be resubmitted",
+}
+
+// Saved settings, or the defaults (not enabled until saved) when there are none
+export async function loadReminderSettings(supabase: SupabaseClient, organizationId: string): Promise<ReminderSettings> {
+  const { data, error } = await supabase
+    .from("payroll_reminder_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("organization_id", organizationId)
+    .maybeSingle()
+  if (error) throw error
+  return (
+    (data as ReminderSettings | null) || {
+      organization_id: organizationId,
+      ...DEFAULT_REMINDER_SETTINGS,
+      enabled: false,
+      updated_at: null,
+    }
+  )
+}
+
+// Returns an error message, or null when the settings can be saved
+export function validateReminderSettings(input: Partial<ReminderSettingsInput>): string | null {
+  if (typeof input.enabled !== "boolean") return "enabled must be true or false"
+  if (typeof input.send_email !== "boolean") return "send_email must be true or false"
+  if (!Number.isInteger(input.cutoff_days) || input.cutoff_days! < 0 || input.cutoff_days! > 30) {
+    return "Cutoff must be 0 to 30 days before the pay date"
+  }
+  const offsets = input.reminder_offsets
+  if (!Array.isArray(offsets) || offsets.length === 0 || offsets.length > 10) {
+    return "Give 1 to 10 reminder days"
+  }
+  if (offsets.some((o) => !Number.isInteger(o) || o < 0 || o > 30)) {
+    return "Reminder days must be whole numbers from 0 to 30 before the cutoff"
+  }
+  if (!Number.isInteger(input.escalation_offset) || input.escalation_offset! < -14 || input.escalation_offset! > 30) {
+    return "Escalation must be between 14 days after and 30 days before the cutoff"
+  }
+  return null
+}
+
+export async function saveReminderSettings(
+  supabase: SupabaseClient,
+  organizationId: string,
+  input: ReminderSettingsInput,
+  userId: string,
+): Promise<ReminderSettings> {
+  const { data, error } = await supabase
+    .from("payroll_reminder_settings")
+    .upsert(
+      {
+        organization_id: organizationId,
+        ...input,
+        reminder_offsets: [...new Set(input.reminder_offsets)].sort((a, b) => b - a),
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "organization_id" },
+    )
+    .select(SETTINGS_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as ReminderSettings
+}
+
+// Locations that still owe payroll for each group's next pay date on or after today
+export async function findMissingSubmissions(
+  supabase: SupabaseClient,
+  organizationId: string,
+  cutoffDays: number,
+  today: string,
+): Promise<MissingSubmission[]> {
+  const { from, to } = holidayWindow(today, 0, 1)
+  const [calendars, holidays] = await Promise.all([
+    loadPayrollCalendars(supabase, organizationId),
+    loadHolidays(supabase, organizationId, from, to),
+  ])
+  const periods = calendars.flatMap((calendar) => listPayPeriods(calendar, holidays, { from: today, past: 0, future: 1 }))
+  if (periods.length === 0) return []
+
+  const [{ data: locations, error: locationsError }, { data: employees, error: employeesError }] = await Promise.all([
+    supabase.from("locations").select("id, name").eq("organization_id", organizationId),
+    supabase
+      .from("employees")
+      .select("location_id, payroll_group")
+      .eq("organization_id", organizationId)
+      .eq("is_active", true),
+  ])
+  if (locationsError) throw locationsError
+  if (employeesError) throw employeesError
+
+  // Correction runs don't count as the location's payroll
+  const { data: submissions, error: submissionsError } = await supabase
+    .from("payroll_submissions")
+    .select("location_id, pay_date, payroll_group, status, rejection_note, created_at")
+    .eq("organization_id", organizationId)
+    .in("pay_date", [...new Set(periods.map((p) => p.payDate))])
+    .is("adjusts_submission_id", null)
+    .order("created_at", { ascending: false })
+  if (submissionsError) throw submissionsError
+
+  const latest = new Map<string, { status: string; rejection_note: string | null }>()
+  for (const s of submissions || []) {
+    const key = `${s.location_id}|${s.pay_date}|${s.payroll_group}`
+    if (!latest.has(key)) latest.set(key, s)
+  }
+
+  const groupsByLocation = new Map<string, Set<string>>()
+  for (const e of (employees || []) as { location_id: string | null; payroll_group: string | null }[]) {
+    if (!e.location_id || !e.payroll_group) continue
+    groupsByLocation.set(e.location_id, (groupsByLocation.get(e.location_id) || new Set()).add(e.payroll_group))
+  }
+
+  const missing: MissingSubmission[] = []
+  for (const period of periods) {
+    const cutoff = addDays(period.payDate, -cutoffDays)
+    for (const location of (locations || []) as { id: string; name: string | null }[]) {
+      if (!groupsByLocation.get(location.id)?.has(period.payrollGroup)) continue
+
+      const submission = latest.get(`${location.id}|${period.payDate}|${period.payrollGroup}`)
+      if (submission && submission.status !== "draft" && submission.status !== "rejected") continue
+
+      missing.push({
+        locationId: location.id,
+        locationName: location.name || "Unknown Location",
+        payrollGroup: period.payrollGroup,
+        payDate: period.payDate,
+        cutoff,
+        daysToCutoff: daysBetween(today, cutoff),
+        status: (submission?.status as MissingStatus | undefined) || "not_submitted",
+        rejectionNote: submission?.rejection_note ?? null,
+      })
+    }
+  }
+  return missing
+}
+
+// The reminder stage due now: the closest configured offset the countdown has
+// reached. Null before the first offset and once the cutoff has passed.
+function dueReminderOffset(offsets: number[], daysToCutoff: number): number | null {
+  if (daysToCutoff < 0) return null
+  const reached = offsets.filter((o) => o >= daysToCutoff)
+  return reached.length > 0 ? Math.min(...reached) : null
+}
+
+function dueText(item: MissingSubmission): string {
+  if (item.daysToCutoff > 1) return `is due in ${item.daysToCutoff} days (${item.cutoff})`
+  if (item.daysToCutoff === 1) return `is due tomorrow (${item.cutoff})`
+  if (item.daysToCutoff === 0) return "is due today"
+  return `was due ${item.cutoff}`
+}
+
+function reminderFor(item: MissingSubmission, organizationId: string, userId: string, offset: number): NotificationInput {
+  const note = item.status === "rejected" && item.rejectionNote ? `\n\nReviewer's note: ${item.rejectionNote}` : ""
+  return {
+    organization_id: organizationId,
+    user_id: userId,
+    kind: "payroll_reminder",
+    title: `Payroll for ${item.locationName} ${dueText(item)}`,
+    body: `Group ${item.payrollGroup} payroll for the ${item.payDate} pay date at ${item.locationName} ${STATUS_TEXT[item.status]}. It ${dueText(item)}.${note}`,
+    link: "/payroll-submit",
+    dedupe_key: `payroll_reminder:${item.payDate}:${item.payrollGroup}:${item.locationId}:${offset}`,
+  }
+}
+
+function escalationFor(item: MissingSubmission, organizationId: string, userId: string, managers: string[]): NotificationInput {
+  return {
+    organization_id: organizationId,
+    user_id: userId,
+    kind: "payroll_escalation",
+    title: `Payroll missing: ${item.locationName} (${item.payDate})`,
+    body: `Group ${item.payrollGroup} payroll for the ${item.payDate} pay date at ${item.locationName} ${STATUS_TEXT[item.status]}; it ${dueText(item)}. ${
+      managers.length > 0 ? `Location managers reminded: ${managers.join(", ")}.` : "The location has no manager assigned."
+    }`,
+    link: "/payroll",
+    dedupe_key: `payroll_escalation:${item.payDate}:${item.payrollGroup}:${item.locationId}`,
+  }
+}
+
+// One organization's reminders for `today`. Safe to run repeatedly: each
+// reminder stage and escalation reaches a user once.
+export async function sendOrganizationReminders(
+  supabase: SupabaseClient,
+  settings: ReminderSettings,
+  transport: EmailTransport,
+  options: { today: string; appUrl: string },
+): Promise<Omit<ReminderRunSummary, "date" | "organizations">> {
+  const organizationId = settings.organization_id
+  const summary = { missing: 0, reminders: 0, escalations: 0, emailed: 0, emailFailed: 0 }
+
+  const missing = await findMissingSubmissions(supabase, organizationId, settings.cutoff_days, options.today)
+  summary.missing = missing.length
+  if (missing.length === 0) return summary
+
+  const [managers, members] = await Promise.all([
+    loadLocationManagers(supabase, [...new Set(missing.map((m) => m.locationId))]),
+    loadOrganizationMembers(organizationId),
+  ])
+  const byId = new Map(members.map((m) => [m.id, m]))
+  const admins = members.filter((m) => isAdminRole(isUserRole(m.role) ? m.role : null))
+
+  const inputs: NotificationInput[] = []
+  for (const item of missing) {
+    const locationManagers = [...(managers.get(item.locationId) || [])]
+      .map((id) => byId.get(id))
+      .filter((m): m is (typeof members)[number] => !!m)
+
+    const offset = dueReminderOffset(settings.reminder_offsets, item.daysToCutoff)
+    if (offset !== null) {
+      locationManagers.forEach((m) => inputs.push(reminderFor(item, organizationId, m.id, offset)))
+    }
+    if (item.daysToCutoff <= settings.escalation_offset) {
+      const names = locationManagers.map((m) => m.name || m.email)
+      admins.forEach((admin) => inputs.push(escalationFor(item, organizationId, admin.id, names)))
+    }
+  }
+
+  const created = await createNotifications(supabase, inputs)
+  summary.reminders = created.filter((n) => n.kind === "payroll_reminder").length
+  summary.escalations = created.filter((n) => n.kind === "payroll_escalation").length
+
+  if (settings.send_email && created.length > 0) {
+    const emails = new Map(members.filter((m) => m.email).map((m) => [m.id, m.email]))
+    const result = await emailNotifications(supabase, transport, created, emails, options.appUrl)
+    summary.emailed = result.sent
+    summary.emailFailed = result.failed
+  }
+  return summary
+}
+
+// Every organization with reminders enabled, or just the one given
+export async function runPayrollReminders(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  options: { today: string; appUrl: string; organizationId?: string | null },
+): Promise<ReminderRunSummary> {
+  let query = supabase.from("payroll_reminder_settings").select(SETTINGS_COLUMNS).eq("enabled", true)
+  if (options.organizationId) query = query.eq("organization_id", options.organizationId)
+  const { data, error } = await query
+  if (error) throw error
+
+  const summary: ReminderRunSummary = {
+    date: options.today,
+    organizations: 0,
+    missing: 0,
+    reminders: 0,
+    escalations: 0,
+    emailed: 0,
+    emailFailed: 0,
+  }
+  if (options.organizationId && (data || []).length === 0) {
+    throw new PayrollError("Payroll reminders are not enabled for this organization", 409)
+  }
+
+  for (const settings of (data || []) as ReminderSettings[]) {
+    try {
+      const result = await sendOrganizationReminders(supabase, settings, transport, options)
+      summary.organizations++
+      summary.missing += result.missing
+      summary.reminders += result.reminders
+      summary.escalations += result.escalations
+      summary.emailed += result.emailed
+      summary.emailFailed += result.emailFailed
+    } catch (error) {
+      // One organization's bad data shouldn't stop the others' reminders
+      console.error(`❌ Payroll reminders failed for ${settings.organization_id}:`, error)
+    }
+  }
+  return summary
+}
@@ -0,0 +1,197 @@
+// src/lib/payroll/submissions.ts
+// Server-only. Payroll submit and approve/reject through the transactional
+// Postgres functions in scripts/create-payroll-transaction-functions.sql.
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js"
+import { NextResponse } from "next/server"
+import { holidayWindow, loadHolidays, loadPayrollCalendars, periodForPayDate, type PayPeriod } from "./calendar"
+
+export type ReviewAction = "approved" | "rejected"
+
+// draft saves the entries without sending them for approval
+export type SubmitStatus = "draft" | "pending"
+
+export interface PayrollEntryInput {
+  employee_id: string
+  employee_name?: string | null
+  employee_first_name?: string | null
+  employee_last_name?: string | null
+  employee_type?: string | null
+  hours?: number | null
+  regular_hours?: number | null
+  overtime_hours?: number | null
+  double_time_hours?: number | null
+  units?: number | null
+  fixed_count?: number | null
+  adjustment_amount?: number | null
+  rate?: number | null
+  amount: number
+  notes?: string | null
+}
+
+// An employee row as the submit pages post it to /api/payroll/submit
+export interface SubmittedEmployee {
+  employee_id: string
+  name?: string
+  first_name?: string
+  last_name?: string
+  type?: string
+  hours?: number | null
+  regular_hours?: number | null
+  overtime_hours?: number | null
+  double_time_hours?: number | null
+  units?: number | null
+  fixed_count?: number | null
+  adjustment_amount?: number | null
+  rate?: number | null
+  amount: number
+  notes?: string | null
+}
+
+export interface SubmitPayrollInput {
+  organizationId: string
+  locationId: string
+  payDate: string
+  payrollGroup: string
+  submittedBy: string
+  entries: PayrollEntryInput[]
+  // Resubmit an existing draft or rejected submission instead of creating one
+  submissionId?: string | null
+  status?: SubmitStatus
+}
+
+export interface SubmitPayrollResult {
+  submission_id: string
+  submission_number: number | null
+  organization_id: string
+  status: string
+  entry_count: number
+  total_amount: number
+  resubmitted: boolean
+}
+
+export interface ReviewResult {
+  submission_id: string
+  organization_id: string
+  // pending: an approval step was recorded and later steps remain
+  status: ReviewAction | "pending"
+  entry_count: number
+  payments_created: number
+}
+
+// Approval chain step being reviewed; final = false records the step only
+export interface ReviewStep {
+  index: number
+  name: string
+  final: boolean
+}
+
+export class PayrollError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409,
+  ) {
+    super(message)
+    this.name = "PayrollError"
+  }
+}
+
+// SQLSTATEs raised by the payroll functions
+const ERROR_STATUS: Record<string, 400 | 404 | 409> = {
+  P0002: 404,
+  "55000": 409,
+  "22023": 400,
+}
+
+export function toPayrollError(error: PostgrestError): Error {
+  const status = ERROR_STATUS[error.code]
+  return status ? new PayrollError(error.message, status) : new Error(error.message)
+}
+
+// Period paid on payDate by the group's calendar; payDate must be one of its pay dates
+export async function resolvePayPeriod(
+  supabase: SupabaseClient,
+  organizationId: string,
+  payrollGroup: string,
+  payDate: string,
+): Promise<PayPeriod> {
+  const calendars = await loadPayrollCalendars(supabase, organizationId)
+  const calendar = calendars.find((c) => c.payroll_group === payrollGroup)
+  if (!calendar) throw new PayrollError(`No payroll calendar for group ${payrollGroup}`, 400)
+
+  const { from, to } = holidayWindow(payDate)
+  const period = periodForPayDate(calendar, await loadHolidays(supabase, organizationId, from, to), payDate)
+  if (!period) throw new PayrollError(`${payDate} is not a group ${payrollGroup} pay date`, 400)
+  return period
+}
+
+export async function submitPayroll(supabase: SupabaseClient, input: SubmitPayrollInput): Promise<SubmitPayrollResult> {
+  const { periodStart, periodEnd } = await resolvePayPeriod(
+    supabase,
+    input.organizationId,
+    input.payrollGroup,
+    input.payDate,
+  )
+
+  const { data, error } = await supabase.rpc("submit_payroll", {
+    p_location_id: input.locationId,
+    p_pay_date: input.payDate,
+    p_payroll_group: input.payrollGroup,
+    p_period_start: periodStart,
+    p_period_end: periodEnd,
+    p_submitted_by: input.submittedBy,
+    p_entries: input.entries,
+    p_submission_id: input.submissionId || null,
+    p_status: input.status || "pending",
+  })
+
+  if (error) throw toPayrollError(error)
+  return data as SubmitPayrollResult
+}
+
+export async function reviewSubmission(
+  supabase: SupabaseClient,
+  submissionId: string,
+  action: ReviewAction,
+  reviewedBy: string,
+  notes?: string | null,
+  step?: ReviewStep | null,
+): Promise<ReviewResult> {
+  const { data, error } = await supabase.rpc("review_payroll_submission", {
+    p_submission_id: submissionId,
+    p_action: action,
+    p_reviewed_by: reviewedBy,
+    p_notes: notes || null,
+    p_step_index: step?.index ?? null,
+    p_step_name: step?.name ?? null,
+    p_final: step ? step.final : true,
+  })
+
+  if (error) throw toPayrollError(error)
+  return data as ReviewResult
+}
+
+// Organization that owns a location or submission, for access checks before the RPC
+export async function organizationForLocation(supabase: SupabaseClient, locationId: string): Promise<string | null> {
+  const { data, error } = await supabase.from("locations").select("organization_id").eq("id", locationId).maybeSingle()
+  if (error) throw error
+  return data?.organization_id ?? null
+}
+
+export async function organizationForSubmission(supabase: SupabaseClient, submissionId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("payroll_submissions")
+    .select("organization_id")
+    .eq("id", submissionId)
+    .maybeSingle()
+  if (error) throw error
+  return data?.organization_id ?? null
+}
+
+// Route catch blocks: turns PayrollError into its status, anything else into null
+export function payrollErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof PayrollError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  return null
+}
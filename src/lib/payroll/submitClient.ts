@@ -0,0 +1,144 @@
+// src/lib/payroll/submitClient.ts
+// Browser helpers for /api/payroll/submit, so submit and approval screens go
+// through the same transactional path and approval chain as the API.
+
+import { authFetch } from "@/lib/supabase/client"
+import type { ApprovalStatus } from "./approvals"
+import type { CorrectionEntryInput, CorrectionRun, CreateCorrectionResult, CurrentEntry } from "./corrections"
+import type { PayStubLink } from "./payStubs"
+import type { ReviewAction, ReviewResult, SubmitPayrollResult, SubmitStatus, SubmittedEmployee } from "./submissions"
+import type { VarianceReport } from "./variance"
+
+export type { ApprovalStatus } from "./approvals"
+export type { CorrectionEntryInput, CorrectionRun, CurrentEntry, EntryKind } from "./corrections"
+export type { PayStubLink } from "./payStubs"
+export type { SubmitStatus, SubmittedEmployee } from "./submissions"
+export type { EmployeeVariance, VarianceFlag, VarianceReport } from "./variance"
+
+export interface PayrollSubmitRequest {
+  locationId: string
+  payDate: string
+  payrollGroup: string
+  employees: SubmittedEmployee[]
+  // Existing draft or rejected submission to replace
+  submissionId?: string | null
+  status?: SubmitStatus
+}
+
+// Saves a draft or submits for approval: the submission and its entries in one transaction
+export async function submitPayrollEntries(
+  request: PayrollSubmitRequest,
+): Promise<SubmitPayrollResult & { message: string }> {
+  const res = await authFetch("/api/payroll/submit", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      location_id: request.locationId,
+      pay_date: request.payDate,
+      payroll_group: request.payrollGroup,
+      employees: request.employees,
+      submission_id: request.submissionId || null,
+      status: request.status || "pending",
+    }),
+  })
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json
+}
+
+export async function reviewPayrollSubmission(
+  submissionId: string,
+  action: ReviewAction,
+  notes?: string | null,
+): Promise<ReviewResult & { message: string; approval: ApprovalStatus }> {
+  const res = await authFetch("/api/payroll/submit", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ submission_id: submissionId, action, notes: notes || null }),
+  })
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json
+}
+
+// Approval chain status of the organization's pending submissions, by submission id
+export async function fetchPendingApprovals(organizationId: string): Promise<Record<string, ApprovalStatus>> {
+  const res = await authFetch(`/api/organizations/${organizationId}/payroll-approvals`)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json.approvals || {}
+}
+
+// True when approving now posts the payroll (no required step after the current one)
+export function isFinalApproval(approval: ApprovalStatus | undefined): boolean {
+  if (!approval || approval.currentStep === null) return true
+  return !approval.steps.some((s) => s.index > approval.currentStep! && s.required && !s.approvedBy)
+}
+
+// Pre-approval variance report for a submission
+export async function fetchVarianceReport(submissionId: string): Promise<VarianceReport> {
+  const res = await authFetch(`/api/payroll/submissions/${submissionId}/variance`)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json.report
+}
+
+// Approved values per employee (after earlier corrections) and the correction runs so far
+export async function fetchCorrections(
+  submissionId: string,
+): Promise<{ current: CurrentEntry[]; corrections: CorrectionRun[] }> {
+  const res = await authFetch(`/api/payroll/submissions/${submissionId}/corrections`)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return { current: json.current || [], corrections: json.corrections || [] }
+}
+
+// Opens a pending correction run against an approved submission
+export async function createPayrollCorrection(
+  submissionId: string,
+  reason: string,
+  entries: CorrectionEntryInput[],
+): Promise<CreateCorrectionResult> {
+  const res = await authFetch(`/api/payroll/submissions/${submissionId}/corrections`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason, entries }),
+  })
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json
+}
+
+// Signed links employees can open without logging in, one per employee
+export async function fetchPayStubLinks(submissionId: string): Promise<PayStubLink[]> {
+  const res = await authFetch(`/api/payroll/submissions/${submissionId}/pay-stubs/links`)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json.links || []
+}
+
+async function savePdf(path: string, fallbackName: string): Promise<void> {
+  const res = await authFetch(path)
+  if (!res.ok) {
+    const json = await res.json().catch(() => ({}))
+    throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  }
+  const disposition = res.headers.get("Content-Disposition") || ""
+  const url = URL.createObjectURL(await res.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = disposition.match(/filename="(.+)"/)?.[1] || fallbackName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Earnings statement PDF for an approved submission: everyone, or one employee
+export function downloadPayStubs(submissionId: string, employeeId?: string): Promise<void> {
+  const query = employeeId ? `?employeeId=${encodeURIComponent(employeeId)}` : ""
+  return savePdf(`/api/payroll/submissions/${submissionId}/pay-stubs${query}`, "pay-stubs.pdf")
+}
+
+// Every earnings statement for a pay date's approved payroll, all locations
+export function downloadPayDateStubs(organizationId: string, payDate: string): Promise<void> {
+  return savePdf(`/api/organizations/${organizationId}/pay-stubs?payDate=${payDate}`, `pay-stubs-${payDate}.pdf`)
+}
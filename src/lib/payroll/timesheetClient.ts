@@ -0,0 +1,47 @@
+// src/lib/payroll/timesheetClient.ts
+// Browser helpers for /api/payroll/submissions/[submissionId]/timesheet (and the
+// location's payroll policy), used by the submit pages' timesheet drawer.
+
+import { authFetch } from "@/lib/supabase/client"
+import type { LocationPayrollPolicy } from "./overtime"
+import type { EmployeeTimesheet, EmployeeTimesheetInput } from "./timesheets"
+
+export type { ShiftAdjustment, ShiftFlag, ShiftTimes, TimesheetShift } from "./timesheets"
+
+export const SHIFT_FLAG_LABELS = {
+  missing_start: "Missing clock-in",
+  missing_end: "Missing clock-out",
+  over_14h: "Over 14 hours",
+} as const
+
+async function request(url: string, init?: RequestInit) {
+  const res = await authFetch(url, init)
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.details || json.error || `Request failed with ${res.status}`)
+  return json
+}
+
+const timesheetUrl = (submissionId: string) => `/api/payroll/submissions/${submissionId}/timesheet`
+
+// Shifts are recomputed with this policy when a manager adjusts them
+export async function fetchLocationPolicy(organizationId: string, locationId: string): Promise<LocationPayrollPolicy> {
+  const json = await request(`/api/organizations/${organizationId}/locations/${locationId}/payroll-policy`)
+  return json.policy
+}
+
+export async function fetchTimesheets(submissionId: string): Promise<EmployeeTimesheet[]> {
+  const json = await request(timesheetUrl(submissionId))
+  return json.timesheets || []
+}
+
+export async function saveSubmissionTimesheets(
+  submissionId: string,
+  timesheets: EmployeeTimesheetInput[],
+): Promise<EmployeeTimesheet[]> {
+  const json = await request(timesheetUrl(submissionId), {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ timesheets }),
+  })
+  return json.timesheets || []
+}
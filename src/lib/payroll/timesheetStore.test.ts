@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { FakeSupabase, type Row } from "@/test/fakeSupabase"
+import { defaultPolicy } from "./overtime"
+import { recordImportedShifts, saveTimesheets } from "./timesheetStore"
+import { describeShift, type ShiftTimes } from "./timesheets"
+
+const ORG = "org-1"
+const LOCATION = "loc-main"
+const policy = defaultPolicy(LOCATION)
+
+// 2026-03-02 09:00–17:00 UTC
+const NINE = Date.UTC(2026, 2, 2, 9) / 1000
+const FIVE = Date.UTC(2026, 2, 2, 17) / 1000
+const iso = (unix: number) => new Date(unix * 1000).toISOString()
+
+const submission = (status: string) => ({ id: "sub-1", organization_id: ORG, location_id: LOCATION, status })
+
+const imported = (shiftKey: string, start: number, end: number) => ({
+  organization_id: ORG,
+  location_id: LOCATION,
+  employee_id: "emp-1",
+  shift_key: shiftKey,
+  original_start: iso(start),
+  original_end: iso(end),
+  original_break_minutes: 0,
+})
+
+const correction = (times: ShiftTimes, reason: string) => ({ ...times, reason })
+
+let db: FakeSupabase
+let saves: Row[]
+
+beforeEach(() => {
+  db = new FakeSupabase({
+    employees: [
+      { id: "emp-1", location_id: LOCATION, email: "Dana@Example.com" },
+      { id: "emp-9", location_id: "loc-other", email: "dana@example.com" },
+    ],
+    payroll_imported_shifts: [imported("s1", NINE, FIVE), imported("s2", NINE + 86400, FIVE + 86400)],
+  })
+  db.unique("payroll_imported_shifts", ["location_id", "employee_id", "shift_key"])
+
+  // What save_payroll_timesheet does, minus the locking and status checks
+  saves = []
+  db.onRpc("save_payroll_timesheet", (args) => {
+    saves.push(args)
+    const shifts = db.rows("payroll_timesheet_shifts")
+    shifts.splice(0, shifts.length, ...shifts.filter((r) => r.submission_id !== args.p_submission_id))
+    const own = { organization_id: ORG, submission_id: args.p_submission_id }
+    shifts.push(...(args.p_shifts as Row[]).map((r) => ({ ...r, ...own })))
+    db.rows("payroll_timesheet_adjustments").push(...(args.p_adjustments as Row[]).map((r) => ({ ...r, ...own })))
+    return (args.p_shifts as Row[]).length
+  })
+})
+
+describe("saveTimesheets", () => {
+  it("takes originals from the Connecteam import, not from the client", async () => {
+    const forged = { key: "s1", original: { start: NINE - 3600, end: FIVE + 3600, breakMinutes: 0 }, adjusted: null }
+
+    const [sheet] = await saveTimesheets(db.client, submission("draft"), [{ employeeId: "emp-1", shifts: [forged] }], policy, "mgr-1")
+
+    expect(sheet.shifts[0].original).toEqual({ start: NINE, end: FIVE, breakMinutes: 0 })
+    expect(db.rows("payroll_timesheet_shifts")[0]).toMatchObject({ original_start: iso(NINE), original_end: iso(FIVE) })
+    expect(db.rows("payroll_timesheet_adjustments")).toHaveLength(0)
+  })
+
+  it("audits corrections and every stored shift the save leaves out, in one call", async () => {
+    const both = [
+      { key: "s1", adjusted: null },
+      { key: "s2", adjusted: null },
+    ]
+    await saveTimesheets(db.client, submission("draft"), [{ employeeId: "emp-1", shifts: both }], policy, "mgr-1")
+
+    const late = { start: NINE + 1800, end: FIVE, breakMinutes: 0 }
+    const [sheet] = await saveTimesheets(
+      db.client,
+      submission("draft"),
+      [{ employeeId: "emp-1", shifts: [{ key: "s1", adjusted: correction(late, " Clocked in late ") }] }],
+      policy,
+      "mgr-1",
+    )
+
+    expect(sheet.shifts[0]).toMatchObject({ paidHours: 7.5, adjusted: { reason: "Clocked in late", adjustedBy: "mgr-1" } })
+    expect(saves).toHaveLength(2)
+    expect(db.rows("payroll_timesheet_shifts").map((r) => r.shift_key)).toEqual(["s1"])
+    expect(
+      db.rows("payroll_timesheet_adjustments").map((r) => [r.shift_key, r.previous_start, r.new_start, r.new_break_minutes, r.reason]),
+    ).toEqual([
+      ["s1", iso(NINE), iso(NINE + 1800), 0, "Clocked in late"],
+      ["s2", iso(NINE + 86400), null, null, "Shift removed"],
+    ])
+  })
+
+  it("rejects shifts Connecteam never reported for the location", async () => {
+    const shift = describeShift("made-up", { start: NINE, end: FIVE, breakMinutes: 0 }, null, policy)
+
+    await expect(
+      saveTimesheets(db.client, submission("draft"), [{ employeeId: "emp-1", shifts: [shift] }], policy, "mgr-1"),
+    ).rejects.toMatchObject({ status: 400 })
+    expect(saves).toHaveLength(0)
+  })
+
+  it("won't change approved runs or runs partway through approval", async () => {
+    const sheets = [{ employeeId: "emp-1", shifts: [{ key: "s1", adjusted: null }] }]
+    db.rows("payroll_approvals").push(
+      { id: "a1", submission_id: "sub-1", action: "approved", step_index: 0, created_at: "2026-03-09T10:00:00Z" },
+      { id: "a2", submission_id: "sub-1", action: "rejected", step_index: null, created_at: "2026-03-09T11:00:00Z" },
+    )
+
+    await expect(saveTimesheets(db.client, submission("approved"), sheets, policy, "mgr-1")).rejects.toMatchObject({ status: 409 })
+
+    // The first round ended in a rejection, so the manager can correct hours again
+    await saveTimesheets(db.client, submission("pending"), sheets, policy, "mgr-1")
+    expect(saves).toHaveLength(1)
+
+    db.rows("payroll_approvals").push({ id: "a3", submission_id: "sub-1", action: "approved", step_index: 0, created_at: "2026-03-09T12:00:00Z" })
+    await expect(saveTimesheets(db.client, submission("pending"), sheets, policy, "mgr-1")).rejects.toThrow(/partway through approval/)
+    expect(saves).toHaveLength(1)
+  })
+})
+
+describe("recordImportedShifts", () => {
+  it("stores each shift under the location's employee with that email, replacing earlier imports", async () => {
+    const moved = describeShift("s1", { start: NINE + 900, end: FIVE, breakMinutes: 30 }, null, policy)
+    const stranger = describeShift("x1", { start: NINE, end: FIVE, breakMinutes: 0 }, null, policy)
+
+    await recordImportedShifts(db.client, ORG, LOCATION, { "dana@example.com": [moved], "nobody@example.com": [stranger] })
+
+    const rows = db.rows("payroll_imported_shifts")
+    expect(rows.map((r) => [r.employee_id, r.shift_key, r.original_start, r.original_break_minutes])).toEqual([
+      ["emp-1", "s1", iso(NINE + 900), 30],
+      ["emp-1", "s2", iso(NINE + 86400), 0],
+    ])
+  })
+})
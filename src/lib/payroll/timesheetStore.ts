@@ -0,0 +1,304 @@
+// src/lib/payroll/timesheetStore.ts
+// Server-only. Timesheet snapshots per submission, with an audit row for every
+// correction and removed shift (see scripts/create-payroll-timesheets.sql).
+//
+// A shift's original times are what Connecteam last reported for it, recorded
+// by /api/connecteam/hours in payroll_imported_shifts; the client only sends
+// corrections. Saves go through save_payroll_timesheet so the snapshot and its
+// audit rows change together.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { readAll } from "@/lib/supabase/paginate"
+import { approvalHistory, currentRound } from "./approvals"
+import type { LocationPayrollPolicy } from "./overtime"
+import { PayrollError, toPayrollError } from "./submissions"
+import {
+  describeShift,
+  effectiveTimes,
+  type EmployeeTimesheet,
+  type EmployeeTimesheetInput,
+  type ShiftFlag,
+  type ShiftTimes,
+  type TimesheetShift,
+} from "./timesheets"
+
+const IMPORT_BATCH = 500
+
+interface ShiftRow {
+  employee_id: string
+  shift_key: string
+  work_date: string | null
+  original_start: string | null
+  original_end: string | null
+  original_break_minutes: number | string | null
+  adjusted_start: string | null
+  adjusted_end: string | null
+  adjusted_break_minutes: number | string | null
+  adjustment_reason: string | null
+  adjusted_by: string | null
+  adjusted_at: string | null
+  auto_break_minutes: number | string | null
+  paid_hours: number | string | null
+  flags: ShiftFlag[] | null
+}
+
+interface ImportedShiftRow {
+  employee_id: string
+  shift_key: string
+  original_start: string | null
+  original_end: string | null
+  original_break_minutes: number | string | null
+}
+
+const SHIFT_COLUMNS =
+  "employee_id, shift_key, work_date, original_start, original_end, original_break_minutes, adjusted_start, adjusted_end, adjusted_break_minutes, adjustment_reason, adjusted_by, adjusted_at, auto_break_minutes, paid_hours, flags"
+
+const toUnix = (iso: string | null) => (iso ? Math.round(Date.parse(iso) / 1000) : null)
+const toIso = (unix: number | null) => (unix === null ? null : new Date(unix * 1000).toISOString())
+
+function sameTimes(a: ShiftTimes | null, b: ShiftTimes | null): boolean {
+  if (!a || !b) return a === b
+  return a.start === b.start && a.end === b.end && a.breakMinutes === b.breakMinutes
+}
+
+function toShift(row: ShiftRow): TimesheetShift {
+  return {
+    key: row.shift_key,
+    date: row.work_date,
+    original: {
+      start: toUnix(row.original_start),
+      end: toUnix(row.original_end),
+      breakMinutes: Number(row.original_break_minutes || 0),
+    },
+    adjusted: row.adjusted_at
+      ? {
+          start: toUnix(row.adjusted_start),
+          end: toUnix(row.adjusted_end),
+          breakMinutes: Number(row.adjusted_break_minutes || 0),
+          reason: row.adjustment_reason || "",
+          adjustedBy: row.adjusted_by,
+          adjustedAt: row.adjusted_at,
+        }
+      : null,
+    autoBreakMinutes: Number(row.auto_break_minutes || 0),
+    paidHours: Number(row.paid_hours || 0),
+    flags: row.flags || [],
+  }
+}
+
+export async function loadTimesheets(supabase: SupabaseClient, submissionId: string): Promise<EmployeeTimesheet[]> {
+  const { data, error } = await supabase
+    .from("payroll_timesheet_shifts")
+    .select(SHIFT_COLUMNS)
+    .eq("submission_id", submissionId)
+    .order("original_start", { ascending: true, nullsFirst: false })
+
+  if (error) throw error
+
+  const byEmployee = new Map<string, TimesheetShift[]>()
+  for (const row of (data || []) as ShiftRow[]) {
+    byEmployee.set(row.employee_id, [...(byEmployee.get(row.employee_id) || []), toShift(row)])
+  }
+  return [...byEmployee.entries()].map(([employeeId, shifts]) => ({ employeeId, shifts }))
+}
+
+// Records what Connecteam reported for each shift, keyed like the hours route's
+// response: lower-cased email → shifts. Emails without an employee at the
+// location are skipped.
+export async function recordImportedShifts(
+  supabase: SupabaseClient,
+  organizationId: string,
+  locationId: string,
+  shiftsByEmail: Record<string, TimesheetShift[]>,
+): Promise<void> {
+  const emails = Object.keys(shiftsByEmail).filter((email) => shiftsByEmail[email].length > 0)
+  if (emails.length === 0) return
+
+  const { data: employees, error } = await supabase
+    .from("employees")
+    .select("id, email")
+    .eq("location_id", locationId)
+    .not("email", "is", null)
+  if (error) throw error
+
+  const employeeIds = new Map<string, string>()
+  for (const employee of employees || []) {
+    employeeIds.set(String(employee.email).trim().toLowerCase(), employee.id)
+  }
+
+  const now = new Date().toISOString()
+  const rows = emails.flatMap((email) => {
+    const employeeId = employeeIds.get(email)
+    if (!employeeId) return []
+    return shiftsByEmail[email].map((shift) => ({
+      organization_id: organizationId,
+      location_id: locationId,
+      employee_id: employeeId,
+      shift_key: shift.key,
+      original_start: toIso(shift.original.start),
+      original_end: toIso(shift.original.end),
+      original_break_minutes: shift.original.breakMinutes,
+      imported_at: now,
+    }))
+  })
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH) {
+    const { error: upsertError } = await supabase
+      .from("payroll_imported_shifts")
+      .upsert(rows.slice(i, i + IMPORT_BATCH), { onConflict: "location_id,employee_id,shift_key" })
+    if (upsertError) throw upsertError
+  }
+}
+
+async function loadImportedShifts(
+  supabase: SupabaseClient,
+  locationId: string,
+  employeeIds: string[],
+): Promise<Map<string, ShiftTimes>> {
+  const originals = new Map<string, ShiftTimes>()
+  if (employeeIds.length === 0) return originals
+
+  const rows = await readAll<ImportedShiftRow>((from, to) =>
+    supabase
+      .from("payroll_imported_shifts")
+      .select("employee_id, shift_key, original_start, original_end, original_break_minutes")
+      .eq("location_id", locationId)
+      .in("employee_id", employeeIds)
+      .order("employee_id")
+      .order("shift_key")
+      .range(from, to),
+  )
+  for (const row of rows) {
+    originals.set(`${row.employee_id}:${row.shift_key}`, {
+      start: toUnix(row.original_start),
+      end: toUnix(row.original_end),
+      breakMinutes: Number(row.original_break_minutes || 0),
+    })
+  }
+  return originals
+}
+
+// Approved payroll has already been paid out of these hours, and a reviewer who
+// has approved a step signed off on the hours as they were. A rejection starts
+// a new round, so the manager can correct hours again.
+async function assertTimesheetEditable(supabase: SupabaseClient, submission: { id: string; status: string }) {
+  if (submission.status === "approved") {
+    throw new PayrollError("Submission is approved; its timesheets can't change", 409)
+  }
+  if (submission.status === "pending" && currentRound(await approvalHistory(supabase, submission.id)).length > 0) {
+    throw new PayrollError("Submission is partway through approval; its timesheets can't change", 409)
+  }
+}
+
+// Replaces a submission's timesheet snapshot. Originals come from the Connecteam
+// import, paid hours and flags are recomputed from the policy, and every
+// correction that differs from the stored one, and every stored shift the
+// client left out, gets an audit row. save_payroll_timesheet repeats the
+// editable check with the submission locked.
+export async function saveTimesheets(
+  supabase: SupabaseClient,
+  submission: { id: string; organization_id: string; location_id: string; status: string },
+  timesheets: EmployeeTimesheetInput[],
+  policy: LocationPayrollPolicy,
+  userId: string,
+): Promise<EmployeeTimesheet[]> {
+  await assertTimesheetEditable(supabase, submission)
+
+  const previous = new Map<string, TimesheetShift>()
+  for (const sheet of await loadTimesheets(supabase, submission.id)) {
+    for (const shift of sheet.shifts) previous.set(`${sheet.employeeId}:${shift.key}`, shift)
+  }
+  const imported = await loadImportedShifts(supabase, submission.location_id, [
+    ...new Set(timesheets.map((sheet) => sheet.employeeId)),
+  ])
+
+  const now = new Date().toISOString()
+  const rows: Record<string, unknown>[] = []
+  const audits: Record<string, unknown>[] = []
+  const saved: EmployeeTimesheet[] = []
+
+  const audit = (employeeId: string, shiftKey: string, from: ShiftTimes, to: ShiftTimes | null, reason: string) =>
+    audits.push({
+      employee_id: employeeId,
+      shift_key: shiftKey,
+      previous_start: toIso(from.start),
+      previous_end: toIso(from.end),
+      previous_break_minutes: from.breakMinutes,
+      new_start: to ? toIso(to.start) : null,
+      new_end: to ? toIso(to.end) : null,
+      new_break_minutes: to ? to.breakMinutes : null,
+      reason,
+      adjusted_by: userId,
+    })
+
+  for (const sheet of timesheets) {
+    const shifts: TimesheetShift[] = []
+    for (const input of sheet.shifts) {
+      const id = `${sheet.employeeId}:${input.key}`
+      const before = previous.get(id)
+      previous.delete(id)
+
+      const original = imported.get(id) ?? before?.original
+      if (!original) {
+        throw new PayrollError(`Shift ${input.key} wasn't imported from Connecteam for this location`, 400)
+      }
+
+      let adjusted = input.adjusted
+      if (!sameTimes(before?.adjusted ?? null, adjusted)) {
+        const reason = adjusted ? adjusted.reason.trim() : "Reverted to Connecteam times"
+        if (adjusted) adjusted = { ...adjusted, reason, adjustedBy: userId, adjustedAt: now }
+        audit(sheet.employeeId, input.key, before ? effectiveTimes(before) : original, adjusted ?? original, reason)
+      } else if (before?.adjusted && adjusted) {
+        adjusted = before.adjusted
+      }
+
+      const shift = describeShift(input.key, original, adjusted, policy)
+      shifts.push(shift)
+      rows.push({
+        employee_id: sheet.employeeId,
+        shift_key: shift.key,
+        work_date: shift.date,
+        original_start: toIso(original.start),
+        original_end: toIso(original.end),
+        original_break_minutes: original.breakMinutes,
+        adjusted_start: adjusted ? toIso(adjusted.start) : null,
+        adjusted_end: adjusted ? toIso(adjusted.end) : null,
+        adjusted_break_minutes: adjusted ? adjusted.breakMinutes : null,
+        adjustment_reason: adjusted?.reason ?? null,
+        adjusted_by: adjusted?.adjustedBy ?? null,
+        adjusted_at: adjusted?.adjustedAt ?? null,
+        auto_break_minutes: shift.autoBreakMinutes,
+        paid_hours: shift.paidHours,
+        flags: shift.flags,
+      })
+    }
+    saved.push({ employeeId: sheet.employeeId, shifts })
+  }
+
+  // Whatever is left was stored before and isn't in this save
+  for (const [id, shift] of previous) {
+    audit(id.slice(0, id.indexOf(":")), shift.key, effectiveTimes(shift), null, "Shift removed")
+  }
+
+  const { error } = await supabase.rpc("save_payroll_timesheet", {
+    p_submission_id: submission.id,
+    p_shifts: rows,
+    p_adjustments: audits,
+  })
+  if (error) throw toPayrollError(error)
+
+  return saved
+}
+
+export async function listTimesheetAdjustments(supabase: SupabaseClient, submissionId: string) {
+  const { data, error } = await supabase
+    .from("payroll_timesheet_adjustments")
+    .select(
+      "id, employee_id, shift_key, previous_start, previous_end, previous_break_minutes, new_start, new_end, new_break_minutes, reason, adjusted_by, created_at",
+    )
+    .eq("submission_id", submissionId)
+    .order("created_at", { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
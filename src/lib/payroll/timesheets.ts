@@ -0,0 +1,155 @@
+// src/lib/payroll/timesheets.ts
+// Shift-level timesheets behind an hourly employee's paid hours: what Connecteam
+// recorded, any manager correction (with its reason), and the resulting paid
+// hours and flags. Snapshots are stored per submission through timesheetStore.ts.
+
+import {
+  autoBreakHours,
+  localDate,
+  paidShiftHours,
+  rulesForState,
+  splitHours,
+  type LocationPayrollPolicy,
+  type WorkedShift,
+} from "./overtime"
+
+export type ShiftFlag = "missing_start" | "missing_end" | "over_14h"
+
+// Longest shift that isn't flagged for review
+export const LONG_SHIFT_HOURS = 14
+
+export interface ShiftTimes {
+  // Unix seconds; null when Connecteam has no clock-in/out
+  start: number | null
+  end: number | null
+  breakMinutes: number
+}
+
+export interface ShiftAdjustment extends ShiftTimes {
+  reason: string
+  adjustedBy?: string | null
+  adjustedAt?: string | null
+}
+
+export interface TimesheetShift {
+  key: string
+  // Local date the shift counts on
+  date: string | null
+  original: ShiftTimes
+  adjusted: ShiftAdjustment | null
+  autoBreakMinutes: number
+  paidHours: number
+  flags: ShiftFlag[]
+}
+
+export interface EmployeeTimesheet {
+  employeeId: string
+  shifts: TimesheetShift[]
+}
+
+// What the submit pages send back; originals come from the Connecteam import
+// and everything else is recomputed
+export interface EmployeeTimesheetInput {
+  employeeId: string
+  shifts: Pick<TimesheetShift, "key" | "adjusted">[]
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+export function effectiveTimes(shift: Pick<TimesheetShift, "original" | "adjusted">): ShiftTimes {
+  return shift.adjusted ?? shift.original
+}
+
+function workedShift(times: ShiftTimes): WorkedShift | null {
+  if (times.start === null || times.end === null) return null
+  return { start: times.start, end: times.end, manualBreakSeconds: times.breakMinutes * 60 }
+}
+
+// Paid hours, auto break and flags for a shift from its effective times.
+// Shifts missing a clock-in or clock-out pay nothing until corrected.
+export function describeShift(
+  key: string,
+  original: ShiftTimes,
+  adjusted: ShiftAdjustment | null,
+  policy: LocationPayrollPolicy,
+): TimesheetShift {
+  const times = adjusted ?? original
+  const flags: ShiftFlag[] = []
+  if (times.start === null) flags.push("missing_start")
+  if (times.end === null) flags.push("missing_end")
+
+  const worked = workedShift(times)
+  if (worked && worked.end - worked.start > LONG_SHIFT_HOURS * 3600) flags.push("over_14h")
+
+  const anchor = times.start ?? times.end
+  return {
+    key,
+    date: anchor === null ? null : localDate(anchor, policy.timeZone),
+    original,
+    adjusted,
+    autoBreakMinutes: worked ? Math.round(autoBreakHours(worked, policy) * 60) : 0,
+    paidHours: worked ? round2(paidShiftHours(worked, policy)) : 0,
+    flags,
+  }
+}
+
+// Freshly synced shifts, keeping corrections already made to the same shifts
+export function carryOverAdjustments(
+  synced: TimesheetShift[],
+  previous: TimesheetShift[] | undefined,
+  policy: LocationPayrollPolicy,
+): TimesheetShift[] {
+  return synced.map((shift) => {
+    const adjusted = previous?.find((p) => p.key === shift.key)?.adjusted
+    return adjusted ? describeShift(shift.key, shift.original, adjusted, policy) : shift
+  })
+}
+
+// Splits a timesheet's paid hours in [from, to] by the policy's overtime rules,
+// using corrected times where there are any. Shifts before `from` in the same
+// workweek count toward its weekly threshold; shifts missing a timestamp don't count.
+export function splitTimesheet(shifts: TimesheetShift[], policy: LocationPayrollPolicy, from: string, to: string) {
+  const worked = shifts.map((s) => workedShift(effectiveTimes(s))).filter((s): s is WorkedShift => s !== null)
+  return splitHours(worked, {
+    rules: rulesForState(policy.state),
+    breakPolicy: policy,
+    timeZone: policy.timeZone,
+    workweekStartDay: policy.workweekStartDay,
+    from,
+    to,
+  })
+}
+
+// "YYYY-MM-DDTHH:mm" wall-clock time of a unix timestamp in the given timezone,
+// for datetime-local inputs
+export function zonedDateTime(timestamp: number, timeZone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(timestamp * 1000))
+      .map((p) => [p.type, p.value]),
+  )
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`
+}
+
+// Unix timestamp of a "YYYY-MM-DDTHH:mm" wall-clock time in the given timezone
+export function zonedTimestamp(dateTime: string, timeZone: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(dateTime)
+  if (!match) return null
+  const [, y, mo, d, h, mi] = match.map(Number)
+  const wallClock = Date.UTC(y, mo - 1, d, h, mi) / 1000
+  // Correct for the zone's offset, twice so a DST change in between settles
+  let timestamp = wallClock
+  for (let i = 0; i < 2; i++) {
+    const shown = Date.parse(`${zonedDateTime(timestamp, timeZone)}:00Z`) / 1000
+    timestamp += wallClock - shown
+  }
+  return timestamp
+}
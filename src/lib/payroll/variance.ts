@@ -0,0 +1,312 @@
+// src/lib/payroll/variance.ts
+// Server-only. Variance report shown to reviewers before they approve a
+// submission: the run and each employee compared with the trailing average of
+// the location's recent pay dates in `payments`, plus flags for the things that
+// usually mean a mistake (new people, rate changes, hours spikes, regulars left
+// unpaid, someone paid by two locations on the same pay date).
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { readAll } from "@/lib/supabase/paginate"
+import { PayrollError } from "./submissions"
+
+export type VarianceFlag =
+  | "new_employee"
+  | "rate_change"
+  | "hours_spike"
+  | "amount_spike"
+  | "amount_drop"
+  | "zero_pay_regular"
+  | "duplicate_employee"
+
+export interface VarianceMetric {
+  current: number | null
+  average: number | null
+  // (current - average) / average; null without history
+  changePct: number | null
+}
+
+export interface EmployeeVariance {
+  employeeId: string
+  name: string
+  amount: VarianceMetric
+  hours: VarianceMetric
+  units: VarianceMetric
+  rate: number | null
+  previousRate: number | null
+  // Pay dates in the window this employee was paid on
+  periodsPaid: number
+  flags: VarianceFlag[]
+  // Other locations paying this employee on the same pay date
+  duplicateLocations: string[]
+}
+
+export interface VarianceReport {
+  submissionId: string
+  locationId: string
+  payDate: string
+  // Prior pay dates the averages are taken over, newest first
+  comparedPayDates: string[]
+  amount: VarianceMetric
+  hours: VarianceMetric
+  units: VarianceMetric
+  employeeCount: VarianceMetric
+  flags: VarianceFlag[]
+  employees: EmployeeVariance[]
+  flagCounts: Partial<Record<VarianceFlag, number>>
+}
+
+// Trailing window and thresholds
+const TRAILING_PAY_DATES = 6
+const LOOKBACK_DAYS = 200
+const SPIKE_RATIO = 0.5
+const RUN_VARIANCE_RATIO = 0.25
+const REGULAR_SHARE = 0.5
+
+interface PayRow {
+  employee_id: string | null
+  first_name?: string | null
+  last_name?: string | null
+  date: string
+  total_amount: number | null
+  hours: number | null
+  regular_hours: number | null
+  overtime_hours: number | null
+  double_time_hours: number | null
+  units: number | null
+  rate: number | null
+}
+
+interface EntryRow {
+  employee_id: string
+  employee_name: string | null
+  employee_first_name: string | null
+  employee_last_name: string | null
+  amount: number | null
+  hours: number | null
+  regular_hours: number | null
+  overtime_hours: number | null
+  double_time_hours: number | null
+  units: number | null
+  rate: number | null
+}
+
+const num = (value: number | string | null | undefined) => (value == null ? null : Number(value))
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+function metric(current: number | null, history: number[]): VarianceMetric {
+  const average = history.length > 0 ? round2(history.reduce((sum, v) => sum + v, 0) / history.length) : null
+  return {
+    current: current == null ? null : round2(current),
+    average,
+    changePct: current != null && average ? round2((current - average) / average) : null,
+  }
+}
+
+type RateFields = Pick<PayRow, "hours" | "regular_hours" | "overtime_hours" | "double_time_hours" | "rate"> & {
+  amount?: number | null
+  total_amount?: number | null
+}
+
+// Hourly base rate: the stored rate, else pay divided by overtime-weighted hours
+function effectiveRate(row: RateFields): number | null {
+  const rate = num(row.rate)
+  if (rate) return rate
+  const amount = num(row.amount ?? row.total_amount)
+  const weighted =
+    row.regular_hours != null
+      ? Number(row.regular_hours) + 1.5 * Number(row.overtime_hours || 0) + 2 * Number(row.double_time_hours || 0)
+      : num(row.hours)
+  return amount && weighted ? round2(amount / weighted) : null
+}
+
+function isoDaysBefore(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() - days)
+  return d.toISOString().slice(0, 10)
+}
+
+export async function buildVarianceReport(supabase: SupabaseClient, submissionId: string): Promise<VarianceReport> {
+  const { data: submission, error } = await supabase
+    .from("payroll_submissions")
+    .select("id, organization_id, location_id, pay_date, payroll_group")
+    .eq("id", submissionId)
+    .maybeSingle()
+  if (error) throw error
+  if (!submission) throw new PayrollError("Submission not found", 404)
+
+  const [{ data: entryRows, error: entriesError }, history, { data: samePayDate, error: duplicatesError }] =
+    await Promise.all([
+      supabase
+        .from("payroll_entries")
+        .select(
+          "employee_id, employee_name, employee_first_name, employee_last_name, amount, hours, regular_hours, overtime_hours, double_time_hours, units, rate",
+        )
+        .eq("submission_id", submissionId),
+      readAll<PayRow>((from, to) =>
+        supabase
+          .from("payments")
+          .select(
+            "employee_id, first_name, last_name, date, total_amount, hours, regular_hours, overtime_hours, double_time_hours, units, rate",
+          )
+          .eq("location_id", submission.location_id)
+          .eq("payroll_group", submission.payroll_group)
+          .lt("date", submission.pay_date)
+          .gte("date", isoDaysBefore(submission.pay_date, LOOKBACK_DAYS))
+          .order("date", { ascending: false })
+          .order("id")
+          .range(from, to),
+      ),
+      // Other runs for the same pay date that are paying, or about to pay, people
+      supabase
+        .from("payroll_submissions")
+        .select("id, location_id, locations(name), payroll_entries(employee_id)")
+        .eq("organization_id", submission.organization_id)
+        .eq("pay_date", submission.pay_date)
+        .in("status", ["pending", "approved"])
+        .neq("id", submissionId),
+    ])
+  if (entriesError) throw entriesError
+  if (duplicatesError) throw duplicatesError
+
+  const entries = (entryRows || []) as EntryRow[]
+  const comparedPayDates = [...new Set(history.map((p) => p.date))].slice(0, TRAILING_PAY_DATES)
+  const window = history.filter((p) => comparedPayDates.includes(p.date))
+
+  const byEmployee = new Map<string, PayRow[]>()
+  for (const row of window) {
+    if (!row.employee_id) continue
+    byEmployee.set(row.employee_id, [...(byEmployee.get(row.employee_id) || []), row])
+  }
+
+  const otherLocations = new Map<string, string[]>()
+  for (const other of samePayDate || []) {
+    if (other.location_id === submission.location_id) continue
+    const location = Array.isArray(other.locations) ? other.locations[0] : other.locations
+    const name = (location as { name?: string } | null)?.name || "Unknown Location"
+    for (const entry of (other.payroll_entries || []) as { employee_id: string }[]) {
+      otherLocations.set(entry.employee_id, [...(otherLocations.get(entry.employee_id) || []), name])
+    }
+  }
+
+  // Not in this location's window; new only if they were never paid anywhere before
+  const unseen = entries.map((e) => e.employee_id).filter((id) => !byEmployee.has(id))
+  const paidBefore = new Set<string>()
+  await Promise.all(
+    unseen.map(async (employeeId) => {
+      const { data: earlier, error: earlierError } = await supabase
+        .from("payments")
+        .select("employee_id")
+        .eq("employee_id", employeeId)
+        .lt("date", submission.pay_date)
+        .limit(1)
+      if (earlierError) throw earlierError
+      if ((earlier || []).length > 0) paidBefore.add(employeeId)
+    }),
+  )
+
+  // Per pay date sums of a field over the employee's (or the run's) rows
+  const perDate = (rows: PayRow[], field: (row: PayRow) => number | null) => {
+    const totals = new Map<string, number>()
+    for (const row of rows) {
+      const value = field(row)
+      if (value != null) totals.set(row.date, (totals.get(row.date) || 0) + value)
+    }
+    return [...totals.values()]
+  }
+
+  const employees: EmployeeVariance[] = entries.map((entry) => {
+    const past = byEmployee.get(entry.employee_id) || []
+    const periodsPaid = new Set(past.map((p) => p.date)).size
+    const amount = metric(num(entry.amount) ?? 0, perDate(past, (r) => num(r.total_amount)))
+    const hours = metric(num(entry.hours), perDate(past, (r) => num(r.hours)))
+    const units = metric(num(entry.units), perDate(past, (r) => num(r.units)))
+    const rate = effectiveRate(entry)
+    const previousRate = past.map((p) => effectiveRate(p)).find((r) => r != null) ?? null
+    const duplicateLocations = otherLocations.get(entry.employee_id) || []
+
+    const flags: VarianceFlag[] = []
+    if (periodsPaid === 0 && !paidBefore.has(entry.employee_id)) flags.push("new_employee")
+    if (rate != null && previousRate != null && Math.abs(rate - previousRate) >= 0.01) flags.push("rate_change")
+    if (hours.changePct != null && hours.changePct > SPIKE_RATIO) flags.push("hours_spike")
+    if (amount.changePct != null && amount.changePct > SPIKE_RATIO) flags.push("amount_spike")
+    if (amount.changePct != null && amount.changePct < -SPIKE_RATIO) flags.push("amount_drop")
+    if (!amount.current && periodsPaid >= comparedPayDates.length * REGULAR_SHARE && periodsPaid > 0) {
+      flags.push("zero_pay_regular")
+    }
+    if (duplicateLocations.length > 0) flags.push("duplicate_employee")
+
+    return {
+      employeeId: entry.employee_id,
+      name:
+        entry.employee_name ||
+        [entry.employee_first_name, entry.employee_last_name].filter(Boolean).join(" ") ||
+        "Unknown",
+      amount,
+      hours,
+      units,
+      rate,
+      previousRate,
+      periodsPaid,
+      flags,
+      duplicateLocations,
+    }
+  })
+
+  // Regulars at this location who are missing from the run entirely
+  const inRun = new Set(entries.map((e) => e.employee_id))
+  for (const [employeeId, past] of byEmployee) {
+    const periodsPaid = new Set(past.map((p) => p.date)).size
+    if (inRun.has(employeeId) || periodsPaid < comparedPayDates.length * REGULAR_SHARE) continue
+    employees.push({
+      employeeId,
+      name: [past[0].first_name, past[0].last_name].filter(Boolean).join(" ") || "Unknown",
+      amount: metric(0, perDate(past, (r) => num(r.total_amount))),
+      hours: metric(null, perDate(past, (r) => num(r.hours))),
+      units: metric(null, perDate(past, (r) => num(r.units))),
+      rate: null,
+      previousRate: past.map((p) => effectiveRate(p)).find((r) => r != null) ?? null,
+      periodsPaid,
+      flags: ["zero_pay_regular"],
+      duplicateLocations: [],
+    })
+  }
+
+  const sum = (field: (e: EntryRow) => number | null) => {
+    const values = entries.map(field).filter((v): v is number => v != null)
+    return values.length > 0 ? values.reduce((total, v) => total + v, 0) : null
+  }
+  const amount = metric(sum((e) => num(e.amount)) ?? 0, perDate(window, (r) => num(r.total_amount)))
+  const hours = metric(sum((e) => num(e.hours)), perDate(window, (r) => num(r.hours)))
+  const units = metric(sum((e) => num(e.units)), perDate(window, (r) => num(r.units)))
+  const employeeCount = metric(
+    entries.length,
+    comparedPayDates.map((date) => new Set(window.filter((r) => r.date === date).map((r) => r.employee_id)).size),
+  )
+
+  const flags: VarianceFlag[] = []
+  if (amount.changePct != null && amount.changePct > RUN_VARIANCE_RATIO) flags.push("amount_spike")
+  if (amount.changePct != null && amount.changePct < -RUN_VARIANCE_RATIO) flags.push("amount_drop")
+  if (hours.changePct != null && hours.changePct > RUN_VARIANCE_RATIO) flags.push("hours_spike")
+
+  const flagCounts: Partial<Record<VarianceFlag, number>> = {}
+  for (const employee of employees) {
+    for (const flag of employee.flags) flagCounts[flag] = (flagCounts[flag] || 0) + 1
+  }
+
+  // Flagged employees first, then by pay
+  employees.sort((a, b) => b.flags.length - a.flags.length || (b.amount.current || 0) - (a.amount.current || 0))
+
+  return {
+    submissionId,
+    locationId: submission.location_id,
+    payDate: submission.pay_date,
+    comparedPayDates,
+    amount,
+    hours,
+    units,
+    employeeCount,
+    flags,
+    employees,
+    flagCounts,
+  }
+}
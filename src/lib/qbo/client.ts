@@ -0,0 +1,254 @@
+// src/lib/qbo/client.ts
+// Server-only. Minimal QuickBooks Online REST client used by the sync engine.
+//
+// QBO_API_BASE_URL and QBO_OAUTH_TOKEN_URL can point at scripts/fake-qbo-server.ts
+// so the full sync can run locally without an Intuit sandbox.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+const QBO_API_BASE_URL = process.env.QBO_API_BASE_URL || "https://quickbooks.api.intuit.com"
+const QBO_OAUTH_TOKEN_URL =
+  process.env.QBO_OAUTH_TOKEN_URL || "https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer"
+const QBO_MINOR_VERSION = process.env.QBO_MINOR_VERSION || "70"
+
+const QUERY_PAGE_SIZE = 1000
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+export interface QboConnection {
+  organizationId: string
+  realmId: string
+  accessToken: string
+}
+
+export interface QboReportColumn {
+  ColTitle?: string
+  ColType?: string
+  MetaData?: { Name: string; Value: string }[]
+}
+
+export interface QboColData {
+  value?: string
+  id?: string
+}
+
+export interface QboReportRow {
+  type?: "Section" | "Data"
+  Header?: { ColData?: QboColData[] }
+  Rows?: { Row?: QboReportRow[] }
+  ColData?: QboColData[]
+  Summary?: { ColData?: QboColData[] }
+}
+
+export interface QboReport {
+  Header?: { StartPeriod?: string; EndPeriod?: string; ReportName?: string }
+  Columns?: { Column?: QboReportColumn[] }
+  Rows?: { Row?: QboReportRow[] }
+}
+
+export interface QboJournalLine {
+  postingType: "Debit" | "Credit"
+  amount: number
+  accountId: string
+  classId?: string | null
+  description?: string | null
+}
+
+export interface QboChangedEntity {
+  entity: string
+  id: string
+  txnDate: string | null
+  deleted: boolean
+}
+
+export class QboApiError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "QboApiError"
+    this.status = status
+  }
+}
+
+// Loads the stored OAuth connection for an organization, refreshing the access
+// token (and persisting the rotated refresh token) when it is about to expire.
+export async function getQboConnection(
+  supabase: SupabaseClient,
+  organizationId: string,
+): Promise<QboConnection> {
+  const { data, error } = await supabase
+    .from("qbo_connections")
+    .select("realm_id, access_token, refresh_token, access_token_expires_at")
+    .eq("organization_id", organizationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) {
+    throw new QboApiError(`No QuickBooks connection for organization ${organizationId}`, 404)
+  }
+
+  const expiresAt = data.access_token_expires_at ? new Date(data.access_token_expires_at).getTime() : 0
+  if (data.access_token && expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return { organizationId, realmId: data.realm_id, accessToken: data.access_token }
+  }
+
+  const clientId = process.env.QBO_CLIENT_ID
+  const clientSecret = process.env.QBO_CLIENT_SECRET
+  if (!clientId || !clientSecret) {
+    throw new Error("Missing QBO_CLIENT_ID or QBO_CLIENT_SECRET environment variable")
+  }
+
+  const res = await fetch(QBO_OAUTH_TOKEN_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: data.refresh_token }),
+  })
+
+  if (!res.ok) {
+    throw new QboApiError(`QuickBooks token refresh failed (${res.status})`, res.status)
+  }
+
+  const token = (await res.json()) as { access_token: string; refresh_token?: string; expires_in?: number }
+
+  const { error: updateError } = await supabase
+    .from("qbo_connections")
+    .update({
+      access_token: token.access_token,
+      refresh_token: token.refresh_token || data.refresh_token,
+      access_token_expires_at: new Date(Date.now() + (token.expires_in || 3600) * 1000).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("organization_id", organizationId)
+
+  if (updateError) throw updateError
+
+  return { organizationId, realmId: data.realm_id, accessToken: token.access_token }
+}
+
+async function qboGet<T>(conn: QboConnection, path: string, params: Record<string, string>): Promise<T> {
+  const url = new URL(`${QBO_API_BASE_URL}/v3/company/${conn.realmId}/${path}`)
+  Object.entries({ ...params, minorversion: QBO_MINOR_VERSION }).forEach(([key, value]) => {
+    url.searchParams.set(key, value)
+  })
+
+  const res = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${conn.accessToken}`,
+      Accept: "application/json",
+    },
+  })
+
+  if (!res.ok) {
+    const body = await res.text()
+    throw new QboApiError(`QuickBooks ${path} returned ${res.status}: ${body.slice(0, 300)}`, res.status)
+  }
+
+  return (await res.json()) as T
+}
+
+async function qboPost<T>(conn: QboConnection, path: string, body: unknown): Promise<T> {
+  const url = new URL(`${QBO_API_BASE_URL}/v3/company/${conn.realmId}/${path}`)
+  url.searchParams.set("minorversion", QBO_MINOR_VERSION)
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${conn.accessToken}`,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!res.ok) {
+    const text = await res.text()
+    throw new QboApiError(`QuickBooks ${path} returned ${res.status}: ${text.slice(0, 300)}`, res.status)
+  }
+
+  return (await res.json()) as T
+}
+
+export function fetchQboReport(
+  conn: QboConnection,
+  reportName: string,
+  params: Record<string, string>,
+): Promise<QboReport> {
+  return qboGet<QboReport>(conn, `reports/${reportName}`, params)
+}
+
+// Runs a QBO query statement, following STARTPOSITION pages until exhausted.
+export async function queryQbo<T>(conn: QboConnection, entity: string, where = ""): Promise<T[]> {
+  const results: T[] = []
+  let start = 1
+
+  while (true) {
+    const statement = `SELECT * FROM ${entity}${where ? ` WHERE ${where}` : ""} STARTPOSITION ${start} MAXRESULTS ${QUERY_PAGE_SIZE}`
+    const json = await qboGet<{ QueryResponse?: Record<string, unknown> }>(conn, "query", { query: statement })
+    const page = (json.QueryResponse?.[entity] as T[] | undefined) || []
+    results.push(...page)
+
+    if (page.length < QUERY_PAGE_SIZE) break
+    start += QUERY_PAGE_SIZE
+  }
+
+  return results
+}
+
+// Change data capture: every entity of the given types created, updated or
+// deleted since `changedSince`. QBO only keeps 30 days of CDC history.
+export async function fetchQboChanges(
+  conn: QboConnection,
+  entities: string[],
+  changedSince: string,
+): Promise<QboChangedEntity[]> {
+  const json = await qboGet<{
+    CDCResponse?: { QueryResponse?: Record<string, unknown>[] }[]
+  }>(conn, "cdc", { entities: entities.join(","), changedSince })
+
+  const changes: QboChangedEntity[] = []
+
+  json.CDCResponse?.forEach((response) => {
+    response.QueryResponse?.forEach((queryResponse) => {
+      entities.forEach((entity) => {
+        const rows = (queryResponse[entity] as { Id: string; TxnDate?: string; status?: string }[]) || []
+        rows.forEach((row) => {
+          changes.push({
+            entity,
+            id: row.Id,
+            txnDate: row.TxnDate || null,
+            deleted: row.status === "Deleted",
+          })
+        })
+      })
+    })
+  })
+
+  return changes
+}
+
+// Creates a JournalEntry and returns its QBO Id
+export async function createQboJournalEntry(
+  conn: QboConnection,
+  entry: { docNumber: string; txnDate: string; memo?: string | null; lines: QboJournalLine[] },
+): Promise<string> {
+  const json = await qboPost<{ JournalEntry: { Id: string } }>(conn, "journalentry", {
+    DocNumber: entry.docNumber,
+    TxnDate: entry.txnDate,
+    PrivateNote: entry.memo || undefined,
+    Line: entry.lines.map((line) => ({
+      DetailType: "JournalEntryLineDetail",
+      Amount: line.amount,
+      Description: line.description || undefined,
+      JournalEntryLineDetail: {
+        PostingType: line.postingType,
+        AccountRef: { value: line.accountId },
+        ...(line.classId ? { ClassRef: { value: line.classId } } : {}),
+      },
+    })),
+  })
+  return json.JournalEntry.Id
+}
@@ -0,0 +1,279 @@
+// src/lib/qbo/reports.ts
+// Flattens QBO report JSON (nested Section/Data rows) into the row shapes stored
+// in journal_entry_lines, ar_aging_detail, ap_aging and balance_sheet_accounts.
+
+import type { QboColData, QboReport, QboReportRow } from "./client"
+
+export interface QboAccount {
+  Id: string
+  Name: string
+  FullyQualifiedName?: string
+  AcctNum?: string
+  AccountType: string
+  AccountSubType?: string
+  Classification?: string
+  CurrentBalance?: number
+  Active?: boolean
+}
+
+export interface AccountInfo {
+  name: string
+  accountType: string
+  detailType: string | null
+  classification: string | null
+}
+
+export interface LedgerLineRow {
+  organization_id: string
+  entry_number: string
+  line_sequence: number
+  qbo_txn_id: string
+  qbo_txn_type: string
+  date: string
+  type: string | null
+  number: string | null
+  name: string | null
+  customer: string | null
+  vendor: string | null
+  employee: string | null
+  class: string | null
+  memo: string | null
+  account: string
+  debit: number
+  credit: number
+  account_type: string | null
+  detail_type: string | null
+  report_category: string
+  normal_balance: number
+  is_cash_account: boolean
+  entry_bank_account: string | null
+}
+
+export interface AgingRow {
+  organization_id: string
+  qbo_txn_id: string
+  date: string | null
+  type: string | null
+  number: string | null
+  due_date: string | null
+  amount: number
+  open_balance: number
+}
+
+export type ArAgingRow = AgingRow & { customer: string | null }
+export type ApAgingRow = AgingRow & { vendor: string | null }
+
+// QBO API account types → the report-style labels already stored in account_type
+const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  Bank: "Bank",
+  "Accounts Receivable": "Accounts receivable (A/R)",
+  "Other Current Asset": "Other Current Assets",
+  "Fixed Asset": "Fixed Assets",
+  "Other Asset": "Other Assets",
+  "Accounts Payable": "Accounts payable (A/P)",
+  "Credit Card": "Credit Card",
+  "Other Current Liability": "Other Current Liabilities",
+  "Long Term Liability": "Long Term Liabilities",
+  Equity: "Equity",
+  Income: "Income",
+  "Other Income": "Other Income",
+  "Cost of Goods Sold": "Cost of Goods Sold",
+  Expense: "Expenses",
+  "Other Expense": "Other Expense",
+}
+
+const CREDIT_NORMAL_CLASSIFICATIONS = new Set(["Liability", "Equity", "Revenue"])
+
+// Signed amount in the account's normal direction (credits for liabilities, equity and revenue)
+export function normalBalance(classification: string | null | undefined, debit: number, credit: number): number {
+  return CREDIT_NORMAL_CLASSIFICATIONS.has(classification || "") ? credit - debit : debit - credit
+}
+
+export function toAccountInfo(account: QboAccount): AccountInfo {
+  return {
+    name: account.FullyQualifiedName || account.Name,
+    accountType: ACCOUNT_TYPE_LABELS[account.AccountType] || account.AccountType,
+    detailType: account.AccountSubType || null,
+    classification: account.Classification || null,
+  }
+}
+
+export function toBalanceSheetAccountRow(organizationId: string, account: QboAccount, syncedAt: string) {
+  const info = toAccountInfo(account)
+  return {
+    organization_id: organizationId,
+    qbo_account_id: account.Id,
+    account_name: info.name,
+    account: info.name,
+    account_number: account.AcctNum || null,
+    account_type: info.accountType,
+    detail_type: info.detailType,
+    classification: info.classification,
+    current_balance: account.CurrentBalance ?? null,
+    is_active: account.Active !== false,
+    synced_at: syncedAt,
+    updated_at: syncedAt,
+  }
+}
+
+// Maps each column to its index by ColKey metadata, falling back to a
+// snake_cased ColTitle so reports without metadata still resolve.
+function columnIndex(report: QboReport): Record<string, number> {
+  const index: Record<string, number> = {}
+  ;(report.Columns?.Column || []).forEach((column, i) => {
+    const key = column.MetaData?.find((m) => m.Name === "ColKey")?.Value
+    if (key) index[key] = i
+    if (column.ColTitle) {
+      index[column.ColTitle.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_")] = i
+    }
+  })
+  return index
+}
+
+function cell(cols: QboColData[] | undefined, index: Record<string, number>, ...keys: string[]): QboColData | null {
+  for (const key of keys) {
+    const i = index[key]
+    if (i !== undefined && cols?.[i]) return cols[i]
+  }
+  return null
+}
+
+function text(col: QboColData | null): string | null {
+  const value = col?.value?.trim()
+  return value ? value : null
+}
+
+function amount(col: QboColData | null): number {
+  const n = Number.parseFloat(col?.value || "")
+  return Number.isFinite(n) ? n : 0
+}
+
+// Depth-first walk over Data rows, passing along the innermost section header.
+function walkRows(
+  rows: QboReportRow[] | undefined,
+  section: QboColData | null,
+  visit: (row: QboReportRow, section: QboColData | null) => void,
+) {
+  ;(rows || []).forEach((row) => {
+    if (row.Rows?.Row) {
+      walkRows(row.Rows.Row, row.Header?.ColData?.[0] || section, visit)
+    } else if (row.ColData) {
+      visit(row, section)
+    }
+  })
+}
+
+export function parseGeneralLedger(
+  report: QboReport,
+  organizationId: string,
+  accounts: Map<string, AccountInfo>,
+): LedgerLineRow[] {
+  const index = columnIndex(report)
+  const accountsByName = new Map(Array.from(accounts.values()).map((a) => [a.name, a]))
+  const lines: LedgerLineRow[] = []
+  const sequenceByEntry = new Map<string, number>()
+
+  walkRows(report.Rows?.Row, null, (row, section) => {
+    const cols = row.ColData
+    const txnCol = cell(cols, index, "txn_type", "transaction_type")
+    const txnId = txnCol?.id
+    const txnType = text(txnCol)
+    const date = text(cell(cols, index, "tx_date", "date"))
+
+    // Beginning-balance and subtotal rows carry no transaction id
+    if (!txnId || !txnType || !date) return
+
+    const accountCol = cell(cols, index, "account_name", "account")
+    const accountName = text(accountCol) || text(section) || "Uncategorized"
+    const account =
+      (accountCol?.id && accounts.get(accountCol.id)) ||
+      (section?.id && accounts.get(section.id)) ||
+      accountsByName.get(accountName) ||
+      null
+
+    const entryNumber = `${txnType}-${txnId}`
+    const lineSequence = (sequenceByEntry.get(entryNumber) || 0) + 1
+    sequenceByEntry.set(entryNumber, lineSequence)
+
+    const debit = amount(cell(cols, index, "debt_amt", "debit"))
+    const credit = amount(cell(cols, index, "credit_amt", "credit"))
+
+    lines.push({
+      organization_id: organizationId,
+      entry_number: entryNumber,
+      line_sequence: lineSequence,
+      qbo_txn_id: txnId,
+      qbo_txn_type: txnType,
+      date,
+      type: txnType,
+      number: text(cell(cols, index, "doc_num", "num")),
+      name: text(cell(cols, index, "name")),
+      customer: text(cell(cols, index, "cust_name", "customer")),
+      vendor: text(cell(cols, index, "vend_name", "vendor")),
+      employee: text(cell(cols, index, "emp_name", "employee")),
+      class: text(cell(cols, index, "klass_name", "class")),
+      memo: text(cell(cols, index, "memo", "memo_description")),
+      account: accountName,
+      debit,
+      credit,
+      account_type: account?.accountType || null,
+      detail_type: account?.detailType || null,
+      report_category: txnType === "Transfer" ? "transfer" : (account?.classification || "other").toLowerCase(),
+      normal_balance: normalBalance(account?.classification, debit, credit),
+      is_cash_account: account?.accountType === "Bank",
+      entry_bank_account: null,
+    })
+  })
+
+  // Every line of an entry carries the bank account it moved cash through
+  const bankByEntry = new Map<string, string>()
+  lines.forEach((line) => {
+    if (line.is_cash_account && !bankByEntry.has(line.entry_number)) {
+      bankByEntry.set(line.entry_number, line.account)
+    }
+  })
+  lines.forEach((line) => {
+    line.entry_bank_account = bankByEntry.get(line.entry_number) || null
+  })
+
+  return lines
+}
+
+function parseAgingDetail(report: QboReport, organizationId: string, partyKeys: string[]) {
+  const index = columnIndex(report)
+  const rows: (AgingRow & { party: string | null })[] = []
+
+  walkRows(report.Rows?.Row, null, (row) => {
+    const cols = row.ColData
+    const txnCol = cell(cols, index, "txn_type", "transaction_type")
+    if (!txnCol?.id) return
+
+    rows.push({
+      organization_id: organizationId,
+      qbo_txn_id: txnCol.id,
+      date: text(cell(cols, index, "tx_date", "date")),
+      type: text(txnCol),
+      number: text(cell(cols, index, "doc_num", "num")),
+      due_date: text(cell(cols, index, "due_date")),
+      amount: amount(cell(cols, index, "subt_amount", "amount")),
+      open_balance: amount(cell(cols, index, "subt_open_bal", "open_balance")),
+      party: text(cell(cols, index, ...partyKeys)),
+    })
+  })
+
+  return rows
+}
+
+export function parseAgedReceivables(report: QboReport, organizationId: string): ArAgingRow[] {
+  return parseAgingDetail(report, organizationId, ["cust_name", "customer"]).map(({ party, ...row }) => ({
+    ...row,
+    customer: party,
+  }))
+}
+
+export function parseAgedPayables(report: QboReport, organizationId: string): ApAgingRow[] {
+  return parseAgingDetail(report, organizationId, ["vend_name", "vendor"]).map(({ party, ...row }) => ({
+    ...row,
+    vendor: party,
+  }))
+}
@@ -0,0 +1,155 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase } from "@/test/fakeSupabase"
+import { startFakeQboServer } from "@/test/fakeQboServer"
+
+const ORG = "org-1"
+const TODAY = new Date().toISOString().slice(0, 10)
+const MONTH_START = `${TODAY.slice(0, 8)}01`
+
+// client.ts reads the base URLs when it loads
+const qbo = await startFakeQboServer()
+process.env.QBO_API_BASE_URL = qbo.url
+process.env.QBO_OAUTH_TOKEN_URL = `${qbo.url}/oauth2/v1/tokens/bearer`
+process.env.QBO_CLIENT_ID = "client"
+process.env.QBO_CLIENT_SECRET = "secret"
+process.env.QBO_SYNC_START_DATE = MONTH_START
+
+const { runQboSync } = await import("./sync")
+
+const ACCOUNTS = [
+  { Id: "1", Name: "Checking", AccountType: "Bank", Classification: "Asset" },
+  { Id: "2", Name: "Sales", AccountType: "Income", Classification: "Revenue" },
+  { Id: "3", Name: "Rent", AccountType: "Expense", Classification: "Expense" },
+  ...Array.from({ length: 1497 }, (_, n) => ({ Id: String(n + 4), Name: `Account ${n + 4}`, AccountType: "Expense", Classification: "Expense" })),
+]
+
+const COLUMNS = ["tx_date", "txn_type", "doc_num", "account_name", "debt_amt", "credit_amt"]
+
+const glLine = (txnType: string, txnId: string, [accountId, account]: [string, string], debit: number, credit: number) => ({
+  type: "Data",
+  ColData: [
+    { value: TODAY },
+    { value: txnType, id: txnId },
+    { value: `${txnType.slice(0, 3).toUpperCase()}-${txnId}` },
+    { value: account, id: accountId },
+    { value: debit ? debit.toFixed(2) : "" },
+    { value: credit ? credit.toFixed(2) : "" },
+  ],
+})
+
+const ledger = (...lines: ReturnType<typeof glLine>[]) => ({
+  Header: { ReportName: "GeneralLedger" },
+  Columns: { Column: COLUMNS.map((key) => ({ ColTitle: key, MetaData: [{ Name: "ColKey", Value: key }] })) },
+  Rows: { Row: lines },
+})
+
+const CHECKING: [string, string] = ["1", "Checking"]
+const SALES: [string, string] = ["2", "Sales"]
+const RENT: [string, string] = ["3", "Rent"]
+
+let db: FakeSupabase
+
+const reportRequests = () => qbo.requests.filter((r) => r.path.endsWith("/reports/GeneralLedger"))
+const cursor = (stream: string) => db.rows("qbo_sync_cursors").find((r) => r.stream === stream)?.cursor_value
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  qbo.requests.length = 0
+  qbo.fixtures.accounts = ACCOUNTS
+  qbo.fixtures.changes = {}
+  qbo.fixtures.reports = {
+    GeneralLedger: ledger(
+      glLine("Invoice", "101", CHECKING, 100, 0),
+      glLine("Invoice", "101", SALES, 0, 100),
+      glLine("Journal Entry", "102", RENT, 50, 0),
+      glLine("Journal Entry", "102", CHECKING, 0, 50),
+    ),
+  }
+
+  db = new FakeSupabase({
+    // Expired, so the first call refreshes it
+    qbo_connections: [
+      { organization_id: ORG, realm_id: "9130", access_token: "old", refresh_token: "refresh", access_token_expires_at: "2020-01-01T00:00:00Z" },
+    ],
+  })
+  // Same keys as scripts/create-qbo-sync-tables.sql
+  db.unique("qbo_sync_cursors", ["organization_id", "stream"])
+  db.unique("balance_sheet_accounts", ["organization_id", "qbo_account_id"])
+  db.unique("journal_entry_lines", ["organization_id", "entry_number", "line_sequence"])
+  db.unique("ar_aging_detail", ["organization_id", "qbo_txn_id"])
+  db.unique("ap_aging", ["organization_id", "qbo_txn_id"])
+})
+
+afterAll(() => qbo.close())
+
+describe("runQboSync against the fake QBO server", () => {
+  it("pulls every account page and the whole ledger window on the first run, then stores cursors", async () => {
+    const summary = await runQboSync(db.client, ORG)
+
+    expect(summary.errors).toEqual([])
+    expect(db.rows("qbo_connections")[0].access_token).toBe("fake-access-token")
+
+    const queries = qbo.requests.filter((r) => r.path.endsWith("/query")).map((r) => r.params.query)
+    expect(queries).toEqual([
+      "SELECT * FROM Account WHERE Active IN (true, false) STARTPOSITION 1 MAXRESULTS 1000",
+      "SELECT * FROM Account WHERE Active IN (true, false) STARTPOSITION 1001 MAXRESULTS 1000",
+    ])
+    expect(db.rows("balance_sheet_accounts")).toHaveLength(1500)
+
+    expect(qbo.requests.some((r) => r.path.endsWith("/cdc"))).toBe(false)
+    expect(reportRequests().map((r) => [r.params.start_date, r.params.end_date])).toEqual([[MONTH_START, TODAY]])
+    expect(summary.streams.find((s) => s.stream === "general_ledger")).toMatchObject({ added: 4, changed: 0, deleted: 0 })
+    expect(db.rows("journal_entry_lines").find((r) => r.entry_number === "Invoice-101")).toMatchObject({
+      account_type: "Bank",
+      is_cash_account: true,
+      debit: 100,
+    })
+
+    expect(db.rows("qbo_sync_cursors").map((r) => r.stream).sort()).toEqual(["accounts", "ap_aging", "ar_aging", "general_ledger"])
+  })
+
+  it("re-pulls only the dates CDC reports as changed since the cursor, including deletions", async () => {
+    await runQboSync(db.client, ORG)
+    const accountsCursor = cursor("accounts")
+    const ledgerCursor = cursor("general_ledger")
+    qbo.requests.length = 0
+
+    // QBO filters on LastUpdatedTime itself; the fake serves what it would return
+    qbo.fixtures.accounts = [{ ...ACCOUNTS[2], Name: "Rent & Lease" }]
+    qbo.fixtures.changes = { Invoice: [{ Id: "101", TxnDate: TODAY }], JournalEntry: [{ Id: "102", status: "Deleted" }] }
+    qbo.fixtures.reports = {
+      GeneralLedger: ledger(glLine("Invoice", "101", CHECKING, 120, 0), glLine("Invoice", "101", SALES, 0, 120)),
+    }
+
+    const summary = await runQboSync(db.client, ORG)
+
+    expect(summary.errors).toEqual([])
+    expect(qbo.requests.find((r) => r.path.endsWith("/query"))!.params.query).toContain(
+      `MetaData.LastUpdatedTime > '${accountsCursor}'`,
+    )
+    expect(summary.streams.find((s) => s.stream === "accounts")).toMatchObject({ added: 0, changed: 1 })
+
+    const cdc = qbo.requests.filter((r) => r.path.endsWith("/cdc"))
+    expect(cdc).toHaveLength(1)
+    expect(cdc[0].params.changedSince).toBe(ledgerCursor)
+    expect(reportRequests().map((r) => [r.params.start_date, r.params.end_date])).toEqual([[TODAY, TODAY]])
+
+    expect(summary.streams.find((s) => s.stream === "general_ledger")).toMatchObject({ added: 0, changed: 2, deleted: 2 })
+    expect(db.rows("journal_entry_lines").map((r) => [r.entry_number, r.debit, r.credit])).toEqual([
+      ["Invoice-101", 120, 0],
+      ["Invoice-101", 0, 120],
+    ])
+    expect(cursor("general_ledger")! > ledgerCursor!).toBe(true)
+  })
+
+  it("skips the ledger report when CDC has no changes", async () => {
+    await runQboSync(db.client, ORG)
+    qbo.requests.length = 0
+
+    const summary = await runQboSync(db.client, ORG, { streams: ["general_ledger"] })
+
+    expect(qbo.requests.map((r) => r.path.split("/").pop())).toEqual(["cdc"])
+    expect(summary.streams).toEqual([{ stream: "general_ledger", added: 0, changed: 0, deleted: 0, error: null }])
+    expect(db.rows("journal_entry_lines")).toHaveLength(4)
+  })
+})
@@ -0,0 +1,488 @@
+// src/lib/qbo/sync.ts
+// Server-only. Incremental QuickBooks Online → Supabase sync.
+//
+// Streams run in dependency order (accounts first so ledger lines can be typed).
+// Each stream keeps its own cursor in qbo_sync_cursors and only advances it after
+// a successful pull, so a failed stream is retried from the same point next run.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  fetchQboChanges,
+  fetchQboReport,
+  getQboConnection,
+  queryQbo,
+  type QboConnection,
+} from "./client"
+import {
+  parseAgedPayables,
+  parseAgedReceivables,
+  parseGeneralLedger,
+  toBalanceSheetAccountRow,
+  type AccountInfo,
+  type QboAccount,
+} from "./reports"
+import { readAll } from "@/lib/supabase/paginate"
+import { recordSyncedPayrollJournals } from "@/lib/payroll/journal"
+
+export type SyncStream = "accounts" | "general_ledger" | "ar_aging" | "ap_aging"
+
+export const SYNC_STREAMS: SyncStream[] = ["accounts", "general_ledger", "ar_aging", "ap_aging"]
+
+export interface StreamSummary {
+  stream: SyncStream
+  added: number
+  changed: number
+  deleted: number
+  error: string | null
+}
+
+export interface SyncSummary {
+  organizationId: string
+  startedAt: string
+  finishedAt: string
+  rowsAdded: number
+  rowsChanged: number
+  rowsDeleted: number
+  streams: StreamSummary[]
+  errors: string[]
+}
+
+export interface SyncOptions {
+  streams?: SyncStream[]
+  // Ignore cursors and re-pull the whole window
+  full?: boolean
+}
+
+// Transaction entities that can produce general ledger lines
+const GL_ENTITIES = [
+  "Invoice",
+  "Payment",
+  "SalesReceipt",
+  "CreditMemo",
+  "RefundReceipt",
+  "Deposit",
+  "Transfer",
+  "JournalEntry",
+  "Bill",
+  "BillPayment",
+  "VendorCredit",
+  "Purchase",
+]
+
+const GL_COLUMNS = [
+  "tx_date",
+  "txn_type",
+  "doc_num",
+  "name",
+  "cust_name",
+  "vend_name",
+  "emp_name",
+  "klass_name",
+  "memo",
+  "account_name",
+  "debt_amt",
+  "credit_amt",
+].join(",")
+
+const AGING_COLUMNS = "tx_date,txn_type,doc_num,cust_name,vend_name,due_date,subt_amount,subt_open_bal"
+
+const CDC_MAX_AGE_DAYS = 30
+const UPSERT_BATCH_SIZE = 500
+
+const todayISO = () => new Date().toISOString().slice(0, 10)
+
+function defaultStartDate(): string {
+  return process.env.QBO_SYNC_START_DATE || `${new Date().getFullYear() - 1}-01-01`
+}
+
+// Splits [start, end] into calendar-month windows to stay under QBO's report size cap
+function monthWindows(start: string, end: string): { start: string; end: string }[] {
+  const windows: { start: string; end: string }[] = []
+  let cursor = new Date(`${start}T00:00:00Z`)
+  const last = new Date(`${end}T00:00:00Z`)
+
+  while (cursor <= last) {
+    const monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 0))
+    const windowEnd = monthEnd < last ? monthEnd : last
+    windows.push({ start: cursor.toISOString().slice(0, 10), end: windowEnd.toISOString().slice(0, 10) })
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1))
+  }
+
+  return windows
+}
+
+async function getCursor(supabase: SupabaseClient, organizationId: string, stream: SyncStream) {
+  const { data, error } = await supabase
+    .from("qbo_sync_cursors")
+    .select("cursor_value")
+    .eq("organization_id", organizationId)
+    .eq("stream", stream)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data?.cursor_value as string | null) || null
+}
+
+async function setCursor(supabase: SupabaseClient, organizationId: string, stream: SyncStream, value: string) {
+  const { error } = await supabase
+    .from("qbo_sync_cursors")
+    .upsert(
+      { organization_id: organizationId, stream, cursor_value: value, updated_at: new Date().toISOString() },
+      { onConflict: "organization_id,stream" },
+    )
+
+  if (error) throw error
+}
+
+async function upsertInBatches(
+  supabase: SupabaseClient,
+  table: string,
+  rows: Record<string, unknown>[],
+  onConflict: string,
+) {
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase.from(table).upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict })
+    if (error) throw new Error(`${table} upsert failed: ${error.message}`)
+  }
+}
+
+function fingerprint(row: Record<string, unknown>, fields: string[]): string {
+  return fields
+    .map((f) => {
+      const v = row[f]
+      return typeof v === "number" || (typeof v === "string" && /^-?\d+(\.\d+)?$/.test(v)) ? Number(v).toFixed(2) : String(v ?? "")
+    })
+    .join("|")
+}
+
+/* ------------------------------ Streams ------------------------------ */
+
+async function syncAccounts(
+  supabase: SupabaseClient,
+  conn: QboConnection,
+  cursor: string | null,
+  syncedAt: string,
+): Promise<Omit<StreamSummary, "stream" | "error">> {
+  const where = cursor
+    ? `Active IN (true, false) AND MetaData.LastUpdatedTime > '${cursor}'`
+    : "Active IN (true, false)"
+  const accounts = await queryQbo<QboAccount>(conn, "Account", where)
+
+  const existing = await readAll<{ qbo_account_id: string }>((from, to) =>
+    supabase
+      .from("balance_sheet_accounts")
+      .select("qbo_account_id")
+      .eq("organization_id", conn.organizationId)
+      .not("qbo_account_id", "is", null)
+      .order("qbo_account_id")
+      .range(from, to),
+  )
+  const known = new Set(existing.map((r) => r.qbo_account_id))
+
+  const rows = accounts.map((a) => toBalanceSheetAccountRow(conn.organizationId, a, syncedAt))
+  await upsertInBatches(supabase, "balance_sheet_accounts", rows, "organization_id,qbo_account_id")
+
+  const added = rows.filter((r) => !known.has(r.qbo_account_id)).length
+  return { added, changed: rows.length - added, deleted: 0 }
+}
+
+async function loadAccountMap(supabase: SupabaseClient, organizationId: string): Promise<Map<string, AccountInfo>> {
+  const rows = await readAll<{
+    qbo_account_id: string
+    account: string
+    account_type: string
+    detail_type: string | null
+    classification: string | null
+  }>((from, to) =>
+    supabase
+      .from("balance_sheet_accounts")
+      .select("qbo_account_id, account, account_type, detail_type, classification")
+      .eq("organization_id", organizationId)
+      .not("qbo_account_id", "is", null)
+      .order("qbo_account_id")
+      .range(from, to),
+  )
+
+  return new Map(
+    rows.map((r) => [
+      r.qbo_account_id,
+      { name: r.account, accountType: r.account_type, detailType: r.detail_type, classification: r.classification },
+    ]),
+  )
+}
+
+const LEDGER_FIELDS = [
+  "date",
+  "type",
+  "number",
+  "name",
+  "customer",
+  "vendor",
+  "employee",
+  "class",
+  "memo",
+  "account",
+  "debit",
+  "credit",
+  "account_type",
+  "entry_bank_account",
+]
+
+// Works out which dates need re-pulling. With a fresh cursor this is driven by
+// CDC; without one (first run, stale cursor or `full`) it is the whole window.
+async function ledgerWindow(
+  supabase: SupabaseClient,
+  conn: QboConnection,
+  cursor: string | null,
+): Promise<{ start: string; end: string } | null> {
+  const fullWindow = { start: defaultStartDate(), end: todayISO() }
+  if (!cursor) return fullWindow
+
+  const cursorAgeDays = (Date.now() - new Date(cursor).getTime()) / 86_400_000
+  if (!(cursorAgeDays < CDC_MAX_AGE_DAYS)) return fullWindow
+
+  const changes = await fetchQboChanges(conn, GL_ENTITIES, cursor)
+  if (changes.length === 0) return null
+
+  const dates = changes.map((c) => c.txnDate).filter((d): d is string => !!d)
+
+  // Deleted entities come back without a TxnDate; find where we stored them
+  const deletedIds = changes.filter((c) => c.deleted).map((c) => c.id)
+  if (deletedIds.length > 0) {
+    const { data, error } = await supabase
+      .from("journal_entry_lines")
+      .select("date")
+      .eq("organization_id", conn.organizationId)
+      .in("qbo_txn_id", deletedIds)
+    if (error) throw new Error(error.message)
+    ;(data || []).forEach((r: { date: string }) => dates.push(r.date))
+  }
+
+  if (dates.length === 0) return null
+
+  const sorted = dates.sort()
+  const end = sorted[sorted.length - 1] > fullWindow.end ? sorted[sorted.length - 1] : fullWindow.end
+  return { start: sorted[0], end }
+}
+
+async function syncGeneralLedger(
+  supabase: SupabaseClient,
+  conn: QboConnection,
+  cursor: string | null,
+  syncedAt: string,
+): Promise<Omit<StreamSummary, "stream" | "error">> {
+  const window = await ledgerWindow(supabase, conn, cursor)
+  if (!window) return { added: 0, changed: 0, deleted: 0 }
+
+  const accounts = await loadAccountMap(supabase, conn.organizationId)
+
+  const fetched = new Map<string, Record<string, unknown>>()
+  for (const month of monthWindows(window.start, window.end)) {
+    const report = await fetchQboReport(conn, "GeneralLedger", {
+      start_date: month.start,
+      end_date: month.end,
+      accounting_method: "Accrual",
+      columns: GL_COLUMNS,
+    })
+    parseGeneralLedger(report, conn.organizationId, accounts).forEach((line) => {
+      fetched.set(`${line.entry_number}#${line.line_sequence}`, { ...line, synced_at: syncedAt })
+    })
+  }
+
+  const existing = await readAll<Record<string, unknown>>((from, to) =>
+    supabase
+      .from("journal_entry_lines")
+      .select(`entry_number, line_sequence, ${LEDGER_FIELDS.join(", ")}`)
+      .eq("organization_id", conn.organizationId)
+      // Payroll journal lines are generated locally, not pulled from QBO
+      .is("payroll_submission_id", null)
+      .gte("date", window.start)
+      .lte("date", window.end)
+      .order("entry_number")
+      .order("line_sequence")
+      .range(from, to),
+  )
+  const existingByKey = new Map(existing.map((r) => [`${r.entry_number}#${r.line_sequence}`, r]))
+
+  let added = 0
+  let changed = 0
+  const toUpsert: Record<string, unknown>[] = []
+
+  fetched.forEach((row, key) => {
+    const current = existingByKey.get(key)
+    if (!current) {
+      added++
+      toUpsert.push(row)
+    } else if (fingerprint(current, LEDGER_FIELDS) !== fingerprint(row, LEDGER_FIELDS)) {
+      changed++
+      toUpsert.push(row)
+    }
+  })
+
+  await upsertInBatches(supabase, "journal_entry_lines", toUpsert, "organization_id,entry_number,line_sequence")
+
+  const recorded = await recordSyncedPayrollJournals(
+    supabase,
+    conn.organizationId,
+    Array.from(fetched.values()) as { number: string | null; qbo_txn_id: string }[],
+  )
+  if (recorded > 0) console.log(`🧾 ${recorded} payroll journal entries now come from QBO`)
+
+  // Lines we hold for the window that QBO no longer reports were deleted upstream
+  const staleByEntry = new Map<string, number[]>()
+  existingByKey.forEach((row, key) => {
+    if (fetched.has(key)) return
+    const entry = String(row.entry_number)
+    staleByEntry.set(entry, [...(staleByEntry.get(entry) || []), Number(row.line_sequence)])
+  })
+
+  let deleted = 0
+  for (const [entryNumber, sequences] of staleByEntry) {
+    const { error } = await supabase
+      .from("journal_entry_lines")
+      .delete()
+      .eq("organization_id", conn.organizationId)
+      .eq("entry_number", entryNumber)
+      .in("line_sequence", sequences)
+    if (error) throw new Error(`journal_entry_lines delete failed: ${error.message}`)
+    deleted += sequences.length
+  }
+
+  return { added, changed, deleted }
+}
+
+const AGING_FIELDS = ["date", "type", "number", "due_date", "amount", "open_balance"]
+
+// Aging reports are point-in-time, so each run reconciles the full snapshot
+async function syncAging(
+  supabase: SupabaseClient,
+  conn: QboConnection,
+  kind: "ar" | "ap",
+  syncedAt: string,
+): Promise<Omit<StreamSummary, "stream" | "error">> {
+  const table = kind === "ar" ? "ar_aging_detail" : "ap_aging"
+  const partyField = kind === "ar" ? "customer" : "vendor"
+  const report = await fetchQboReport(conn, kind === "ar" ? "AgedReceivableDetail" : "AgedPayableDetail", {
+    report_date: todayISO(),
+    columns: AGING_COLUMNS,
+  })
+
+  const rows = (kind === "ar"
+    ? parseAgedReceivables(report, conn.organizationId)
+    : parseAgedPayables(report, conn.organizationId)
+  ).map((r) => ({ ...r, synced_at: syncedAt }) as Record<string, unknown>)
+
+  const fields = [...AGING_FIELDS, partyField]
+  const existing = await readAll<Record<string, unknown>>((from, to) =>
+    supabase
+      .from(table)
+      .select(`qbo_txn_id, ${fields.join(", ")}`)
+      .eq("organization_id", conn.organizationId)
+      .order("qbo_txn_id")
+      .range(from, to),
+  )
+  const existingById = new Map(existing.map((r) => [String(r.qbo_txn_id), r]))
+
+  let added = 0
+  let changed = 0
+  const toUpsert = rows.filter((row) => {
+    const current = existingById.get(String(row.qbo_txn_id))
+    if (!current) {
+      added++
+      return true
+    }
+    if (fingerprint(current, fields) !== fingerprint(row, fields)) {
+      changed++
+      return true
+    }
+    return false
+  })
+
+  await upsertInBatches(supabase, table, toUpsert, "organization_id,qbo_txn_id")
+
+  const currentIds = new Set(rows.map((r) => String(r.qbo_txn_id)))
+  const closedIds = Array.from(existingById.keys()).filter((id) => !currentIds.has(id))
+
+  for (let i = 0; i < closedIds.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq("organization_id", conn.organizationId)
+      .in("qbo_txn_id", closedIds.slice(i, i + UPSERT_BATCH_SIZE))
+    if (error) throw new Error(`${table} delete failed: ${error.message}`)
+  }
+
+  return { added, changed, deleted: closedIds.length }
+}
+
+/* ------------------------------ Entry point ------------------------------ */
+
+export async function runQboSync(
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: SyncOptions = {},
+): Promise<SyncSummary> {
+  const startedAt = new Date().toISOString()
+  const requested = options.streams?.length ? options.streams : SYNC_STREAMS
+  const streams: StreamSummary[] = []
+
+  let conn: QboConnection
+  try {
+    conn = await getQboConnection(supabase, organizationId)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    return {
+      organizationId,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      rowsAdded: 0,
+      rowsChanged: 0,
+      rowsDeleted: 0,
+      streams: [],
+      errors: [`connection: ${message}`],
+    }
+  }
+
+  for (const stream of SYNC_STREAMS.filter((s) => requested.includes(s))) {
+    try {
+      const cursor = options.full ? null : await getCursor(supabase, organizationId, stream)
+      const syncedAt = new Date().toISOString()
+
+      let result: Omit<StreamSummary, "stream" | "error">
+      switch (stream) {
+        case "accounts":
+          result = await syncAccounts(supabase, conn, cursor, syncedAt)
+          break
+        case "general_ledger":
+          result = await syncGeneralLedger(supabase, conn, cursor, syncedAt)
+          break
+        case "ar_aging":
+          result = await syncAging(supabase, conn, "ar", syncedAt)
+          break
+        case "ap_aging":
+          result = await syncAging(supabase, conn, "ap", syncedAt)
+          break
+      }
+
+      // Cursor is the time the pull started, so edits made mid-run are picked up next time
+      await setCursor(supabase, organizationId, stream, syncedAt)
+      streams.push({ stream, ...result, error: null })
+      console.log(`✅ QBO ${stream}: +${result.added} ~${result.changed} -${result.deleted}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      console.error(`❌ QBO ${stream} sync failed:`, message)
+      streams.push({ stream, added: 0, changed: 0, deleted: 0, error: message })
+    }
+  }
+
+  return {
+    organizationId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    rowsAdded: streams.reduce((sum, s) => sum + s.added, 0),
+    rowsChanged: streams.reduce((sum, s) => sum + s.changed, 0),
+    rowsDeleted: streams.reduce((sum, s) => sum + s.deleted, 0),
+    streams,
+    errors: streams.filter((s) => s.error).map((s) => `${s.stream}: ${s.error}`),
+  }
+}
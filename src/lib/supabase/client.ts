@@ -3,6 +3,7 @@
 // Two Supabase instances: Platform (auth) + Client (data)
 
 import { createClient as createSupabaseClient, SupabaseClient, type Session } from "@supabase/supabase-js"
+import { ACCESS_TOKEN_COOKIE } from "@/lib/auth/session"
 
 // ============================================
 // PLATFORM SUPABASE - Authentication
@@ -92,6 +93,35 @@ export async function syncDataClientSession(session: Session | null): Promise<vo
   }
 }
 
+// Mirrors the platform access token into a cookie so src/middleware.ts can
+// check the session on page requests. Cleared on sign-out.
+export function syncSessionCookie(session: Session | null): void {
+  if (typeof document === "undefined") return
+
+  const secure = window.location.protocol === "https:" ? "; Secure" : ""
+  if (!session?.access_token) {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax${secure}`
+    return
+  }
+
+  const maxAge = session.expires_in || 3600
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=${encodeURIComponent(session.access_token)}; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`
+}
+
+// ============================================
+// API CALLS - Send the platform session to our own routes
+// ============================================
+
+// fetch() for /api routes that check the caller's organization
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const { data: { session } } = await getAuthClient().auth.getSession()
+  const headers = new Headers(init.headers)
+  if (session?.access_token) {
+    headers.set("Authorization", `Bearer ${session.access_token}`)
+  }
+  return fetch(input, { ...init, headers })
+}
+
 // ============================================
 // BACKWARDS COMPATIBILITY
 // ============================================
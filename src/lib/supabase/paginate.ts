@@ -0,0 +1,20 @@
+// src/lib/supabase/paginate.ts
+// Helpers for reading past PostgREST's default 1,000-row response cap
+
+export const READ_PAGE_SIZE = 1000
+
+// Reads every matching row. `build` must apply a stable .order() so pages don't overlap.
+export async function readAll<T>(
+  build: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>,
+  pageSize = READ_PAGE_SIZE,
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += pageSize) {
+    const result = await build(from, from + pageSize - 1)
+    if (result.error) throw new Error(result.error.message)
+    const data = result.data as T[] | null
+    rows.push(...(data || []))
+    if (!data || data.length < pageSize) break
+  }
+  return rows
+}
@@ -0,0 +1,34 @@
+// src/lib/supabase/server.ts
+// Server-only. Do NOT import into "use client" files.
+// Service-role client for the Client (data) Supabase project, used by API routes
+// and background jobs that must write across tables regardless of RLS.
+
+import { createClient as createSupabaseClient, SupabaseClient } from "@supabase/supabase-js"
+
+let serverDataClient: SupabaseClient | null = null
+
+export function getServerDataClient(): SupabaseClient {
+  if (serverDataClient) {
+    return serverDataClient
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.SUPABASE_SERVICE_ROLE ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!url || !key) {
+    throw new Error("Missing Supabase environment variables for server client")
+  }
+
+  serverDataClient = createSupabaseClient(url, key, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  })
+
+  return serverDataClient
+}
@@ -0,0 +1,155 @@
+// src/lib/sync/runs.ts
+// Server-only. Persisted sync run log backing /api/sync/runs and /api/sync/status.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { SyncSummary } from "@/lib/qbo/sync"
+
+export type SyncRunStatus = "running" | "succeeded" | "partial" | "failed"
+
+export interface SyncRun {
+  id: string
+  organization_id: string
+  source: string
+  status: SyncRunStatus
+  triggered_by: string | null
+  started_at: string
+  finished_at: string | null
+  rows_added: number
+  rows_changed: number
+  rows_deleted: number
+  error_text: string | null
+  streams: SyncSummary["streams"] | null
+}
+
+export interface SyncStatus {
+  organizationId: string
+  source: string
+  running: boolean
+  lastRun: SyncRun | null
+  lastSuccessAt: string | null
+  minutesSinceSuccess: number | null
+  stale: boolean
+}
+
+// Data older than this is flagged as stale in the UI
+const STALE_AFTER_MINUTES = Number(process.env.SYNC_STALE_AFTER_MINUTES || 24 * 60)
+
+// Runs stuck in "running" longer than this are treated as crashed
+const RUNNING_TIMEOUT_MINUTES = 30
+
+const RUN_COLUMNS =
+  "id, organization_id, source, status, triggered_by, started_at, finished_at, rows_added, rows_changed, rows_deleted, error_text, streams"
+
+export async function startSyncRun(
+  supabase: SupabaseClient,
+  organizationId: string,
+  source: string,
+  triggeredBy: string | null,
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .insert({ organization_id: organizationId, source, status: "running", triggered_by: triggeredBy })
+    .select("id")
+    .single()
+
+  if (error) throw error
+  return data.id as string
+}
+
+export async function finishSyncRun(supabase: SupabaseClient, runId: string, summary: SyncSummary) {
+  const allFailed = summary.errors.length > 0 && summary.streams.every((s) => s.error !== null)
+  const status: SyncRunStatus = summary.errors.length === 0 ? "succeeded" : allFailed ? "failed" : "partial"
+
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({
+      status,
+      finished_at: summary.finishedAt,
+      rows_added: summary.rowsAdded,
+      rows_changed: summary.rowsChanged,
+      rows_deleted: summary.rowsDeleted,
+      error_text: summary.errors.length > 0 ? summary.errors.join("\n") : null,
+      streams: summary.streams,
+    })
+    .eq("id", runId)
+
+  if (error) throw error
+  return status
+}
+
+export async function failSyncRun(supabase: SupabaseClient, runId: string, message: string) {
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({ status: "failed", finished_at: new Date().toISOString(), error_text: message })
+    .eq("id", runId)
+
+  if (error) console.error("❌ Failed to record sync failure:", error)
+}
+
+export async function listSyncRuns(
+  supabase: SupabaseClient,
+  organizationId: string,
+  { source, limit = 20 }: { source?: string; limit?: number } = {},
+): Promise<SyncRun[]> {
+  let query = supabase
+    .from("sync_runs")
+    .select(RUN_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("started_at", { ascending: false })
+    .limit(Math.max(1, Math.min(limit, 100)))
+
+  if (source) query = query.eq("source", source)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as SyncRun[]
+}
+
+export async function getSyncStatus(
+  supabase: SupabaseClient,
+  organizationId: string,
+  source = "quickbooks",
+): Promise<SyncStatus> {
+  const [lastRunResult, lastSuccessResult] = await Promise.all([
+    supabase
+      .from("sync_runs")
+      .select(RUN_COLUMNS)
+      .eq("organization_id", organizationId)
+      .eq("source", source)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("sync_runs")
+      .select("finished_at")
+      .eq("organization_id", organizationId)
+      .eq("source", source)
+      .in("status", ["succeeded", "partial"])
+      .order("finished_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+
+  if (lastRunResult.error) throw lastRunResult.error
+  if (lastSuccessResult.error) throw lastSuccessResult.error
+
+  const lastRun = (lastRunResult.data as SyncRun | null) || null
+  const lastSuccessAt = (lastSuccessResult.data?.finished_at as string | undefined) || null
+  const minutesSinceSuccess = lastSuccessAt
+    ? Math.floor((Date.now() - new Date(lastSuccessAt).getTime()) / 60_000)
+    : null
+
+  const running =
+    lastRun?.status === "running" &&
+    Date.now() - new Date(lastRun.started_at).getTime() < RUNNING_TIMEOUT_MINUTES * 60_000
+
+  return {
+    organizationId,
+    source,
+    running,
+    lastRun,
+    lastSuccessAt,
+    minutesSinceSuccess,
+    stale: minutesSinceSuccess === null || minutesSinceSuccess > STALE_AFTER_MINUTES,
+  }
+}
@@ -0,0 +1,58 @@
+// src/middleware.ts
+// Server-side route protection: every page needs a valid platform session, and
+// the user's role must allow the route (see lib/auth/routes.ts). API routes
+// check access themselves and are excluded by the matcher.
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { canAccessRoute, defaultRouteForRole, isPublicRoute } from '@/lib/auth/routes'
+import { ACCESS_TOKEN_COOKIE, resolveSessionUser } from '@/lib/auth/session'
+
+const MOBILE_UA = /iPhone|iPad|iPod|Android/i
+
+function redirectTo(req: NextRequest, pathname: string, params: Record<string, string> = {}) {
+  const url = req.nextUrl.clone()
+  url.pathname = pathname
+  url.search = new URLSearchParams(params).toString()
+  return NextResponse.redirect(url)
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl
+
+  if (isPublicRoute(pathname)) {
+    return NextResponse.next()
+  }
+
+  const token = req.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  let user = null
+  if (token) {
+    try {
+      user = await resolveSessionUser(token)
+    } catch (error) {
+      console.error('❌ Middleware session check failed:', error)
+    }
+  }
+
+  if (!user) {
+    // /login restores the session from storage (or the platform) and comes back
+    const response = redirectTo(req, '/login', { returnTo: `${pathname}${search}` })
+    if (token) response.cookies.delete(ACCESS_TOKEN_COOKIE)
+    return response
+  }
+
+  if (!user.role) {
+    return redirectTo(req, '/login', { returnTo: `${pathname}${search}`, error: 'not_invited' })
+  }
+
+  const isMobile = MOBILE_UA.test(req.headers.get('user-agent') || '')
+
+  if (pathname === '/' || !canAccessRoute(user.role, pathname)) {
+    return redirectTo(req, defaultRouteForRole(user.role, isMobile))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|favicon\\.ico|favicon\\.png|.*\\.(?:png|jpg|jpeg|gif|svg|webp|ico)$).*)'],
+}
@@ -0,0 +1,60 @@
+// Manual Connecteam inbox retries: an organization admin retries only their
+// own organization's events; retrying everyone's takes the cron secret or a
+// super admin.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase } from "./fakeSupabase"
+import { apiRequest, installFakePlatform } from "./fakePlatform"
+
+const ORG_A = "11111111-1111-1111-1111-111111111111"
+const ORG_B = "22222222-2222-2222-2222-222222222222"
+
+let db: FakeSupabase
+
+vi.mock("@/lib/supabase/server", () => ({ getServerDataClient: () => db.client }))
+
+const { POST } = await import("@/app/api/webhooks/connectteam/retry/route")
+
+const retry = (query: string, token: string) => POST(apiRequest(`/api/webhooks/connectteam/retry${query}`, token, { method: "POST" }))
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  installFakePlatform([
+    { token: "alice", id: "user-a", email: "alice@a.test", role: "admin", organizationId: ORG_A },
+    { token: "root", id: "user-r", email: "root@platform.test", role: "super_admin", organizationId: null },
+  ])
+  db = new FakeSupabase({
+    connecteam_webhook_events: [
+      { id: "event-b", organization_id: ORG_B, status: "failed", attempts: 2, next_attempt_at: "2026-01-01T00:00:00Z" },
+    ],
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("POST /api/webhooks/connectteam/retry", () => {
+  it("doesn't let an organization admin retry every organization's events", async () => {
+    expect((await retry("", "alice")).status).toBe(403)
+    expect((await retry(`?organizationId=${ORG_B}`, "alice")).status).toBe(403)
+    expect(db.calls).toHaveLength(0)
+  })
+
+  it("retries only the admin's own organization's due events", async () => {
+    const res = await retry(`?organizationId=${ORG_A}`, "alice")
+
+    expect(await res.json()).toEqual({ success: true, processed: 0, failed: 0, dead: 0, skipped: 0 })
+    expect(db.calls).toHaveLength(1)
+    expect(db.calls[0].filters).toContain(`organization_id=${ORG_A}`)
+    expect(db.rows("connecteam_webhook_events")[0]).toMatchObject({ status: "failed", attempts: 2 })
+  })
+
+  it("reads every organization's due events for a super admin", async () => {
+    db.rows("connecteam_webhook_events").length = 0
+
+    expect((await retry("", "root")).status).toBe(200)
+    expect(db.calls[0].filters.some((f) => f.startsWith("organization_id"))).toBe(false)
+  })
+})
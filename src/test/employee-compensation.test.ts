@@ -0,0 +1,120 @@
+// Rate changes: organization admins only, never on their own employee record,
+// and written through one change_employee_compensation call.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase, type Row } from "./fakeSupabase"
+import { apiRequest, installFakePlatform } from "./fakePlatform"
+
+const ORG = "11111111-1111-1111-1111-111111111111"
+const LOCATION = "loc-main"
+
+let db: FakeSupabase
+let platform: FakeSupabase
+let changes: Row[]
+
+vi.mock("@/lib/supabase/server", () => ({ getServerDataClient: () => db.client }))
+vi.mock("@/lib/auth/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/server")>()),
+  getPlatformAdminClient: () => platform.client,
+}))
+
+const { GET, POST } = await import("@/app/api/organizations/[orgId]/employees/[employeeId]/compensation/route")
+
+const params = (employeeId: string) => ({ params: Promise.resolve({ orgId: ORG, employeeId }) })
+const url = (employeeId: string) => `/api/organizations/${ORG}/employees/${employeeId}/compensation`
+
+const change = (employeeId: string, token: string) =>
+  POST(
+    apiRequest(url(employeeId), token, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ compensation_type: "hourly", rate: 21.255, effective_from: "2026-04-01", reason: "Annual review" }),
+    }),
+    params(employeeId),
+  )
+
+const employee = (id: string, email: string) => ({
+  id,
+  organization_id: ORG,
+  location_id: LOCATION,
+  first_name: "Pat",
+  last_name: id,
+  email,
+  payroll_group: "A",
+  compensation_type: "hourly",
+  hourly_rate: 20,
+  piece_rate: null,
+  fixed_pay: null,
+  is_active: true,
+})
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  installFakePlatform([
+    { token: "alice", id: "user-a", email: "Alice@Example.com", role: "admin", organizationId: ORG },
+    { token: "manny", id: "user-m", email: "manny@example.com", role: "employee", organizationId: ORG },
+  ])
+  platform = new FakeSupabase({ users: [{ id: "user-a", name: "Alice", email: "alice@example.com" }] })
+  db = new FakeSupabase({
+    employees: [employee("emp-1", "sam@example.com"), employee("emp-alice", "alice@example.com")],
+    location_managers: [{ user_id: "user-m", location_id: LOCATION }],
+  })
+
+  changes = []
+  db.onRpc("change_employee_compensation", (args) => {
+    changes.push(args)
+    return {
+      id: "comp-1",
+      employee_id: args.p_employee_id,
+      compensation_type: args.p_compensation_type,
+      rate: String(args.p_rate),
+      effective_from: args.p_effective_from,
+      effective_to: null,
+      reason: args.p_reason,
+      approved_by: args.p_approved_by,
+      created_at: "2026-03-20T12:00:00Z",
+    }
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("/api/organizations/[orgId]/employees/[employeeId]/compensation", () => {
+  it("records an admin's change in a single call", async () => {
+    const res = await change("emp-1", "alice")
+
+    expect(res.status).toBe(200)
+    expect((await res.json()).record).toMatchObject({ rate: 21.26, approved_by_name: "Alice" })
+    expect(changes).toEqual([
+      {
+        p_employee_id: "emp-1",
+        p_compensation_type: "hourly",
+        p_rate: 21.26,
+        p_effective_from: "2026-04-01",
+        p_reason: "Annual review",
+        p_approved_by: "user-a",
+      },
+    ])
+    expect(db.calls.filter((c) => c.op !== "select")).toHaveLength(0)
+  })
+
+  it("doesn't let a location manager change rates, though they can view them", async () => {
+    expect((await change("emp-1", "manny")).status).toBe(403)
+    expect(changes).toHaveLength(0)
+
+    const res = await GET(apiRequest(url("emp-1"), "manny"), params("emp-1"))
+    expect(res.status).toBe(200)
+    expect((await res.json()).profile.canChangeRate).toBe(false)
+  })
+
+  it("doesn't let an admin change their own rate", async () => {
+    const res = await change("emp-alice", "alice")
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toMatchObject({ error: "You can't change your own pay rate" })
+    expect(changes).toHaveLength(0)
+  })
+})
@@ -0,0 +1,47 @@
+// src/test/fakePlatform.ts
+// Stands in for the Platform (auth) project that lib/auth/session.ts calls with
+// plain fetch: each bearer token maps to an auth user and their `users` row.
+
+import { vi } from "vitest"
+
+export interface PlatformUser {
+  token: string
+  id: string
+  email: string
+  role: string | null
+  organizationId: string | null
+  status?: string
+}
+
+const PLATFORM_URL = "https://platform.test"
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })
+
+export function installFakePlatform(users: PlatformUser[]) {
+  process.env.NEXT_PUBLIC_PLATFORM_SUPABASE_URL = PLATFORM_URL
+  process.env.NEXT_PUBLIC_PLATFORM_SUPABASE_ANON_KEY = "anon"
+
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input))
+    const auth = new Headers(init?.headers).get("authorization") || ""
+    const user = users.find((u) => auth === `Bearer ${u.token}`)
+    if (!user) return json({ message: "invalid JWT" }, 401)
+
+    if (url.pathname === "/auth/v1/user") return json({ id: user.id, email: user.email })
+    if (url.pathname === "/rest/v1/users") {
+      return json(
+        user.role ? [{ role: user.role, organization_id: user.organizationId, status: user.status || "active" }] : [],
+      )
+    }
+    return json({ message: `unexpected ${url.pathname}` }, 404)
+  })
+  vi.stubGlobal("fetch", fetchMock)
+  return fetchMock
+}
+
+export function apiRequest(path: string, token?: string, init: RequestInit = {}): Request {
+  const headers = new Headers(init.headers)
+  if (token) headers.set("Authorization", `Bearer ${token}`)
+  return new Request(`http://localhost${path}`, { ...init, headers })
+}
@@ -0,0 +1,90 @@
+// src/test/fakeQboServer.ts
+// Minimal QuickBooks Online API serving fixture data, for the sync tests and
+// for scripts/fake-qbo-server.ts. Handles the OAuth token refresh, account and
+// class queries (honouring STARTPOSITION / MAXRESULTS), reports, CDC and
+// journal entry creation.
+
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+
+export interface QboFixtures {
+  accounts?: Record<string, unknown>[]
+  classes?: Record<string, unknown>[]
+  reports?: Record<string, unknown>
+  changes?: Record<string, unknown[]>
+}
+
+export interface QboRequest {
+  method: string
+  path: string
+  params: Record<string, string>
+}
+
+function emptyReport(name: string) {
+  return { Header: { ReportName: name }, Columns: { Column: [] }, Rows: { Row: [] } }
+}
+
+// `fixtures` is called on every request so they can change between sync runs
+export function createFakeQboServer(fixtures: () => QboFixtures, onRequest: (request: QboRequest) => void = () => {}): Server {
+  return createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    const data = fixtures()
+    onRequest({ method: req.method || "GET", path: url.pathname, params: Object.fromEntries(url.searchParams) })
+
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" })
+      res.end(JSON.stringify(body))
+    }
+
+    if (req.method === "POST" && url.pathname === "/oauth2/v1/tokens/bearer") {
+      return send(200, { access_token: "fake-access-token", refresh_token: "fake-refresh-token", expires_in: 3600 })
+    }
+
+    // Payroll journal push: accepted and given a new Id, not stored
+    if (req.method === "POST" && /^\/v3\/company\/[^/]+\/journalentry$/.test(url.pathname)) {
+      return send(200, { JournalEntry: { Id: String(Date.now()) } })
+    }
+
+    const match = url.pathname.match(/^\/v3\/company\/[^/]+\/(reports\/(\w+)|query|cdc)$/)
+    if (req.method !== "GET" || !match) {
+      return send(404, { error: `No fake handler for ${req.method} ${url.pathname}` })
+    }
+
+    if (match[2]) {
+      return send(200, data.reports?.[match[2]] || emptyReport(match[2]))
+    }
+
+    if (match[1] === "query") {
+      const statement = url.searchParams.get("query") || ""
+      const start = Number(statement.match(/STARTPOSITION (\d+)/i)?.[1] || 1)
+      const max = Number(statement.match(/MAXRESULTS (\d+)/i)?.[1] || 1000)
+      if (/FROM Class/i.test(statement)) {
+        const name = statement.match(/Name = '((?:[^'\\]|\\.)*)'/)?.[1]?.replace(/\\'/g, "'")
+        return send(200, { QueryResponse: { Class: (data.classes || []).filter((c) => !name || c.Name === name) } })
+      }
+      const accounts = (data.accounts || []).slice(start - 1, start - 1 + max)
+      return send(200, { QueryResponse: { Account: accounts } })
+    }
+
+    const entities = (url.searchParams.get("entities") || "").split(",")
+    const queryResponse = Object.fromEntries(entities.map((e) => [e, data.changes?.[e] || []]))
+    return send(200, { CDCResponse: [{ QueryResponse: [queryResponse] }] })
+  })
+}
+
+// Starts a server on a free local port serving `fixtures`, which the test can
+// change between runs; requests lists what the client asked for
+export async function startFakeQboServer(fixtures: QboFixtures = {}) {
+  const requests: QboRequest[] = []
+  const server = createFakeQboServer(
+    () => fixtures,
+    (request) => requests.push(request),
+  )
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  return {
+    fixtures,
+    requests,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,96 @@
+// src/test/fakeSmtpServer.ts
+// Minimal SMTP server that accepts mail and hands each message to a callback,
+// for tests of the smtp email transport and for scripts/fake-smtp-server.ts.
+// Speaks just enough of RFC 5321 for lib/notifications/email.ts.
+
+import { createServer, type AddressInfo, type Server } from "net"
+
+export interface ReceivedMessage {
+  from: string
+  to: string[]
+  // AUTH PLAIN user, if the client logged in
+  user: string | null
+  data: string
+  receivedAt: string
+}
+
+export interface FakeSmtpOptions {
+  // Recipients refused with a 550 at RCPT TO
+  rejectRecipient?: (address: string) => boolean
+}
+
+export function createFakeSmtpServer(onMessage: (message: ReceivedMessage) => void, options: FakeSmtpOptions = {}): Server {
+  return createServer((socket) => {
+    socket.setEncoding("utf8")
+    let buffer = ""
+    let inData = false
+    let user: string | null = null
+    let message: ReceivedMessage = { from: "", to: [], user: null, data: "", receivedAt: "" }
+
+    const reply = (line: string) => socket.write(`${line}\r\n`)
+    reply("220 fake-smtp ready")
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk
+      let index: number
+      while ((index = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+
+        if (inData) {
+          if (line === ".") {
+            inData = false
+            onMessage({ ...message, user, receivedAt: new Date().toISOString() })
+            message = { from: "", to: [], user: null, data: "", receivedAt: "" }
+            reply("250 OK: queued")
+          } else {
+            message.data += (line.startsWith("..") ? line.slice(1) : line) + "\n"
+          }
+          continue
+        }
+
+        const verb = line.split(" ")[0].toUpperCase()
+        if (verb === "EHLO" || verb === "HELO") {
+          reply("250-fake-smtp")
+          reply("250 AUTH PLAIN")
+        } else if (verb === "AUTH") {
+          user = Buffer.from(line.split(" ")[2] || "", "base64").toString("utf8").split("\0")[1] || null
+          reply("235 Authenticated")
+        } else if (verb === "MAIL") {
+          message.from = line.match(/<([^>]*)>/)?.[1] || ""
+          reply("250 OK")
+        } else if (verb === "RCPT") {
+          const address = line.match(/<([^>]*)>/)?.[1] || ""
+          if (options.rejectRecipient?.(address)) {
+            reply(`550 ${address}: mailbox unavailable`)
+          } else {
+            message.to.push(address)
+            reply("250 OK")
+          }
+        } else if (verb === "DATA") {
+          inData = true
+          reply("354 End data with <CR><LF>.<CR><LF>")
+        } else if (verb === "RSET" || verb === "NOOP") {
+          reply("250 OK")
+        } else if (verb === "QUIT") {
+          reply("221 Bye")
+          socket.end()
+        } else {
+          reply(`502 ${verb} not implemented`)
+        }
+      }
+    })
+  })
+}
+
+// Starts a server on a free local port; close() stops it
+export async function startFakeSmtpServer(options: FakeSmtpOptions = {}) {
+  const messages: ReceivedMessage[] = []
+  const server = createFakeSmtpServer((message) => messages.push(message), options)
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  return {
+    messages,
+    port: (server.address() as AddressInfo).port,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
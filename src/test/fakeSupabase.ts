@@ -0,0 +1,334 @@
+// src/test/fakeSupabase.ts
+// In-memory stand-in for the supabase-js query builder, for tests of server
+// modules and API routes. Seed it with rows per table; it applies the filters,
+// ordering and ranges the code under test asks for and logs every query.
+//
+// Like PostgREST it returns at most MAX_ROWS rows when no .range() is given,
+// so code that forgets to paginate loses rows here too. Joins (`locations(name)`)
+// aren't resolved: seed the embedded value on the row instead.
+
+import { randomUUID } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type Row = Record<string, unknown>
+
+export const MAX_ROWS = 1000
+
+export interface QueryLog {
+  table: string
+  op: "select" | "insert" | "update" | "upsert" | "delete"
+  filters: string[]
+  orders: string[]
+  range: [number, number] | null
+  onConflict?: string
+}
+
+type Filter = { label: string; test: (row: Row) => boolean }
+
+const compare = (a: unknown, b: unknown) => {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return (a as number | string) < (b as number | string) ? -1 : 1
+}
+
+// LIKE / ILIKE pattern semantics: % any run, _ any one character
+const likeToRegExp = (pattern: string, flags: string) =>
+  new RegExp(
+    `^${pattern
+      .split("")
+      .map((c) => (c === "%" ? ".*" : c === "_" ? "." : c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+      .join("")}$`,
+    flags,
+  )
+
+class FakeQuery implements PromiseLike<{ data: unknown; error: { message: string } | null; count?: number }> {
+  private op: QueryLog["op"] = "select"
+  private filters: Filter[] = []
+  private orders: { column: string; ascending: boolean }[] = []
+  private rangeWindow: [number, number] | null = null
+  private limitCount: number | null = null
+  private payload: Row[] = []
+  private values: Row = {}
+  private onConflict: string | undefined
+  private ignoreDuplicates = false
+  private singleMode: "single" | "maybeSingle" | null = null
+
+  constructor(
+    private db: FakeSupabase,
+    private table: string,
+  ) {}
+
+  select() {
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.op = "insert"
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.op = "upsert"
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    this.onConflict = options.onConflict
+    this.ignoreDuplicates = !!options.ignoreDuplicates
+    return this
+  }
+
+  update(values: Row) {
+    this.op = "update"
+    this.values = values
+    return this
+  }
+
+  delete() {
+    this.op = "delete"
+    return this
+  }
+
+  private where(label: string, test: (row: Row) => boolean) {
+    this.filters.push({ label, test })
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(`${column}=${value}`, (row) => row[column] === value)
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(`${column}!=${value}`, (row) => row[column] !== value)
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(`${column} in (${values.length})`, (row) => values.includes(row[column]))
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.where(`${column} is ${value}`, (row) =>
+      value === null ? row[column] === null || row[column] === undefined : row[column] === value,
+    )
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    if (operator !== "is" || value !== null) throw new Error(`FakeSupabase: unsupported not(${operator})`)
+    return this.where(`${column} is not null`, (row) => row[column] !== null && row[column] !== undefined)
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(`${column}>${value}`, (row) => compare(row[column], value) > 0)
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(`${column}>=${value}`, (row) => compare(row[column], value) >= 0)
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(`${column}<${value}`, (row) => compare(row[column], value) < 0)
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where(`${column}<=${value}`, (row) => compare(row[column], value) <= 0)
+  }
+
+  like(column: string, pattern: string) {
+    const re = likeToRegExp(pattern, "")
+    return this.where(`${column} like ${pattern}`, (row) => re.test(String(row[column] ?? "")))
+  }
+
+  ilike(column: string, pattern: string) {
+    const re = likeToRegExp(pattern, "i")
+    return this.where(`${column} ilike ${pattern}`, (row) => re.test(String(row[column] ?? "")))
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.rangeWindow = [from, to]
+    return this
+  }
+
+  limit(count: number) {
+    this.limitCount = count
+    return this
+  }
+
+  single() {
+    this.singleMode = "single"
+    return this
+  }
+
+  maybeSingle() {
+    this.singleMode = "maybeSingle"
+    return this
+  }
+
+  then<TResult1 = { data: unknown; error: { message: string } | null }, TResult2 = never>(
+    onfulfilled?: ((value: { data: unknown; error: { message: string } | null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected)
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((f) => f.test(row))
+  }
+
+  private execute(): { data: unknown; error: { message: string } | null } {
+    const rows = this.db.rows(this.table)
+    this.db.calls.push({
+      table: this.table,
+      op: this.op,
+      filters: this.filters.map((f) => f.label),
+      orders: this.orders.map((o) => `${o.column}${o.ascending ? "" : " desc"}`),
+      range: this.rangeWindow,
+      onConflict: this.onConflict,
+    })
+
+    let result: Row[]
+    if (this.op === "insert") {
+      result = this.payload.map((row) => ({ id: randomUUID(), ...row }))
+      const error = this.db.checkUnique(this.table, result)
+      if (error) return { data: null, error }
+      rows.push(...result)
+    } else if (this.op === "upsert") {
+      const keys = (this.onConflict || "id").split(",").map((k) => k.trim())
+      const error = this.db.checkConflictTarget(this.table, keys)
+      if (error) return { data: null, error }
+      // ON CONFLICT DO NOTHING returns only the rows it inserted
+      result = this.payload.flatMap((row) => {
+        const existing = rows.find((r) => keys.every((k) => r[k] === row[k]))
+        if (existing) return this.ignoreDuplicates ? [] : [Object.assign(existing, row)]
+        const inserted = { id: randomUUID(), ...row }
+        rows.push(inserted)
+        return [inserted]
+      })
+    } else if (this.op === "update") {
+      result = rows.filter((row) => this.matches(row))
+      result.forEach((row) => Object.assign(row, this.values))
+    } else if (this.op === "delete") {
+      result = rows.filter((row) => this.matches(row))
+      this.db.tables.set(
+        this.table,
+        rows.filter((row) => !result.includes(row)),
+      )
+    } else {
+      result = rows.filter((row) => this.matches(row))
+      if (this.orders.length > 0) {
+        result = [...result].sort((a, b) => {
+          for (const { column, ascending } of this.orders) {
+            const c = compare(a[column], b[column])
+            if (c !== 0) return ascending ? c : -c
+          }
+          return 0
+        })
+      }
+      if (this.rangeWindow) result = result.slice(this.rangeWindow[0], this.rangeWindow[1] + 1)
+      result = result.slice(0, Math.min(this.limitCount ?? MAX_ROWS, MAX_ROWS))
+    }
+
+    const data = result.map((row) => ({ ...row }))
+    if (this.singleMode === "single" && data.length !== 1) {
+      return { data: null, error: { message: `Expected one row, got ${data.length}` } }
+    }
+    if (this.singleMode) {
+      if (data.length > 1) return { data: null, error: { message: `Expected at most one row, got ${data.length}` } }
+      return { data: data[0] ?? null, error: null }
+    }
+    return { data, error: null }
+  }
+}
+
+export class FakeSupabase {
+  tables = new Map<string, Row[]>()
+  calls: QueryLog[] = []
+  // Unique constraints per table (column lists), checked on insert and used
+  // to validate upsert conflict targets the way Postgres does
+  uniqueKeys = new Map<string, string[][]>()
+  rpcHandlers = new Map<string, (args: Row) => unknown>()
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables.set(
+        table,
+        rows.map((row) => ({ ...row })),
+      )
+    }
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, [])
+    return this.tables.get(table)!
+  }
+
+  unique(table: string, columns: string[]) {
+    this.uniqueKeys.set(table, [...(this.uniqueKeys.get(table) || []), columns])
+    return this
+  }
+
+  checkUnique(table: string, inserted: Row[]): { message: string } | null {
+    const existing = this.rows(table)
+    for (const columns of this.uniqueKeys.get(table) || []) {
+      const seen = new Set(existing.map((r) => JSON.stringify(columns.map((c) => r[c]))))
+      for (const row of inserted) {
+        if (columns.some((c) => row[c] === null || row[c] === undefined)) continue
+        const key = JSON.stringify(columns.map((c) => row[c]))
+        if (seen.has(key)) return { message: `duplicate key value violates unique constraint on ${columns.join(",")}` }
+        seen.add(key)
+      }
+    }
+    return null
+  }
+
+  // ON CONFLICT needs a full unique constraint on exactly those columns
+  checkConflictTarget(table: string, keys: string[]): { message: string } | null {
+    if (keys.length === 1 && keys[0] === "id") return null
+    const known = (this.uniqueKeys.get(table) || []).some(
+      (columns) => columns.length === keys.length && columns.every((c) => keys.includes(c)),
+    )
+    return known
+      ? null
+      : { message: "there is no unique or exclusion constraint matching the ON CONFLICT specification" }
+  }
+
+  onRpc(name: string, handler: (args: Row) => unknown) {
+    this.rpcHandlers.set(name, handler)
+    return this
+  }
+
+  get client(): SupabaseClient {
+    const from = (table: string) => new FakeQuery(this, table)
+    // Thenable like the real builder so .range() can page array results
+    const rpc = (name: string, args: Row = {}) => {
+      let window: [number, number] | null = null
+      const run = async () => {
+        const handler = this.rpcHandlers.get(name)
+        // What PostgREST answers for a function that isn't installed
+        if (!handler) return { data: null, error: { code: "PGRST202", message: `FakeSupabase: no rpc ${name}` } }
+        try {
+          const data = await handler(args)
+          return { data: window && Array.isArray(data) ? data.slice(window[0], window[1] + 1) : data, error: null }
+        } catch (error) {
+          return { data: null, error: { message: error instanceof Error ? error.message : String(error) } }
+        }
+      }
+      const call = {
+        range(from: number, to: number) {
+          window = [from, to]
+          return call
+        },
+        then<T>(onFulfilled: (result: Awaited<ReturnType<typeof run>>) => T, onRejected?: (reason: unknown) => T) {
+          return run().then(onFulfilled, onRejected)
+        },
+      }
+      return call
+    }
+    return { from, rpc } as unknown as SupabaseClient
+  }
+}
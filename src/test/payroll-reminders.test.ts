@@ -0,0 +1,153 @@
+// The scheduled reminders call (.github/workflows/send-payroll-reminders.yml)
+// end to end: cron secret in, reminder and escalation emails out through the
+// smtp transport to a fake SMTP server.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase } from "./fakeSupabase"
+import { startFakeSmtpServer } from "./fakeSmtpServer"
+import { apiRequest, installFakePlatform } from "./fakePlatform"
+import { addDays, listPayPeriods, type PayrollCalendar } from "@/lib/payroll/calendar"
+
+const ORG = "11111111-1111-1111-1111-111111111111"
+const CRON_SECRET = "cron-secret"
+
+let db: FakeSupabase
+let platform: FakeSupabase
+let smtp: Awaited<ReturnType<typeof startFakeSmtpServer>>
+
+vi.mock("@/lib/supabase/server", () => ({ getServerDataClient: () => db.client }))
+vi.mock("@/lib/auth/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/server")>()),
+  getPlatformAdminClient: () => platform.client,
+}))
+
+const { POST } = await import("@/app/api/payroll/reminders/route")
+
+// Group A's next pay date on the calendar every org starts with, and the day
+// its 3-day cutoff falls on
+const CALENDAR: PayrollCalendar = {
+  id: null,
+  organization_id: ORG,
+  payroll_group: "A",
+  frequency: "biweekly",
+  anchor_date: "2025-01-03",
+  lag_days: 9,
+  holiday_shift: "none",
+}
+const PAY_DATE = listPayPeriods(CALENDAR, [], { from: "2026-03-01", past: 0, future: 1 })[0].payDate
+const CUTOFF = addDays(PAY_DATE, -3)
+
+const remind = (date: string, token = CRON_SECRET) =>
+  POST(apiRequest(`/api/payroll/reminders?date=${date}`, token, { method: "POST" }))
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+  smtp = await startFakeSmtpServer({ rejectRecipient: (address) => address.endsWith("@gone.test") })
+  process.env.CRON_SECRET = CRON_SECRET
+  process.env.EMAIL_TRANSPORT = "smtp"
+  process.env.SMTP_HOST = "127.0.0.1"
+  process.env.SMTP_PORT = String(smtp.port)
+  process.env.EMAIL_FROM = "Payroll <payroll@acme.test>"
+
+  db = new FakeSupabase({
+    payroll_reminder_settings: [
+      { organization_id: ORG, enabled: true, cutoff_days: 3, reminder_offsets: [3, 1, 0], escalation_offset: 0, send_email: true, updated_at: null },
+    ],
+    locations: [
+      { id: "loc-main", organization_id: ORG, name: "Main St" },
+      { id: "loc-pier", organization_id: ORG, name: "Pier" },
+    ],
+    employees: [
+      { organization_id: ORG, location_id: "loc-main", payroll_group: "A", is_active: true },
+      { organization_id: ORG, location_id: "loc-pier", payroll_group: "A", is_active: true },
+    ],
+    location_managers: [
+      { user_id: "mgr-main", location_id: "loc-main" },
+      { user_id: "mgr-pier", location_id: "loc-pier" },
+    ],
+    // Pier has already submitted
+    payroll_submissions: [
+      { organization_id: ORG, location_id: "loc-pier", pay_date: PAY_DATE, payroll_group: "A", status: "pending", rejection_note: null, adjusts_submission_id: null, created_at: "2026-03-01T00:00:00Z" },
+    ],
+  })
+  db.unique("user_notifications", ["user_id", "dedupe_key"])
+
+  platform = new FakeSupabase({
+    users: [
+      { id: "mgr-main", organization_id: ORG, email: "morgan@acme.test", name: "Morgan", role: "employee", status: "active" },
+      { id: "mgr-pier", organization_id: ORG, email: "pat@acme.test", name: "Pat", role: "employee", status: "active" },
+      { id: "owner-1", organization_id: ORG, email: "owner@acme.test", name: "Owner", role: "owner", status: "active" },
+    ],
+  })
+})
+
+afterEach(async () => {
+  await smtp.close()
+  for (const key of ["CRON_SECRET", "EMAIL_TRANSPORT", "SMTP_HOST", "SMTP_PORT", "EMAIL_FROM"]) delete process.env[key]
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe("POST /api/payroll/reminders", () => {
+  it("needs the cron secret or an organization admin", async () => {
+    installFakePlatform([
+      { token: "manager", id: "mgr-main", email: "morgan@acme.test", role: "employee", organizationId: ORG },
+      { token: "owner", id: "owner-1", email: "owner@acme.test", role: "owner", organizationId: ORG },
+    ])
+
+    expect((await remind(CUTOFF, "wrong")).status).toBe(400)
+    expect((await POST(apiRequest(`/api/payroll/reminders?organizationId=${ORG}&date=${CUTOFF}`, "wrong"))).status).toBe(401)
+    expect((await POST(apiRequest(`/api/payroll/reminders?organizationId=${ORG}&date=${CUTOFF}`, "manager"))).status).toBe(403)
+    expect(smtp.messages).toHaveLength(0)
+
+    const res = await POST(apiRequest(`/api/payroll/reminders?organizationId=${ORG}&date=${CUTOFF}`, "owner"))
+    expect(await res.json()).toMatchObject({ success: true, emailed: 2 })
+  })
+
+  it("emails the missing location's manager and escalates to admins on cutoff day", async () => {
+    const res = await remind(CUTOFF)
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ success: true, organizations: 1, missing: 1, reminders: 1, escalations: 1, emailed: 2, emailFailed: 0 })
+
+    expect(smtp.messages.map((m) => m.to[0]).sort()).toEqual(["morgan@acme.test", "owner@acme.test"])
+    expect(smtp.messages.every((m) => m.from === "payroll@acme.test")).toBe(true)
+
+    const reminder = smtp.messages.find((m) => m.to[0] === "morgan@acme.test")!
+    expect(reminder.data).toContain("Subject: Payroll for Main St is due today\n")
+    expect(reminder.data).toContain(`Group A payroll for the ${PAY_DATE} pay date at Main St hasn't been submitted.`)
+    expect(reminder.data).toContain("http://localhost/payroll-submit")
+
+    const escalation = smtp.messages.find((m) => m.to[0] === "owner@acme.test")!
+    expect(escalation.data).toContain(`Subject: Payroll missing: Main St (${PAY_DATE})\n`)
+    expect(escalation.data).toContain("Location managers reminded: Morgan.")
+
+    expect(db.rows("user_notifications").every((n) => n.emailed_at && !n.email_error)).toBe(true)
+  })
+
+  it("doesn't email the same reminder twice when the schedule runs again", async () => {
+    await remind(CUTOFF)
+    const again = await (await remind(CUTOFF)).json()
+
+    expect(again).toMatchObject({ missing: 1, reminders: 0, escalations: 0, emailed: 0 })
+    expect(smtp.messages).toHaveLength(2)
+  })
+
+  it("sends nothing before the first reminder day", async () => {
+    const body = await (await remind(addDays(CUTOFF, -5))).json()
+    expect(body).toMatchObject({ missing: 1, reminders: 0, emailed: 0 })
+    expect(smtp.messages).toHaveLength(0)
+  })
+
+  it("records a refused address on the notification and still sends the rest", async () => {
+    platform.rows("users")[0].email = "morgan@gone.test"
+
+    const body = await (await remind(CUTOFF)).json()
+    expect(body).toMatchObject({ emailed: 1, emailFailed: 1 })
+    expect(smtp.messages.map((m) => m.to[0])).toEqual(["owner@acme.test"])
+
+    const failed = db.rows("user_notifications").find((n) => n.user_id === "mgr-main")!
+    expect(failed.emailed_at).toBeUndefined()
+    expect(failed.email_error).toContain("550 morgan@gone.test")
+  })
+})
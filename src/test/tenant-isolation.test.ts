@@ -0,0 +1,159 @@
+// Two organizations share the data project; a member of one must never get
+// the other's rows back from the /api/organizations/[orgId] routes.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase } from "./fakeSupabase"
+import { apiRequest, installFakePlatform } from "./fakePlatform"
+
+const ORG_A = "11111111-1111-1111-1111-111111111111"
+const ORG_B = "22222222-2222-2222-2222-222222222222"
+
+let db: FakeSupabase
+
+vi.mock("@/lib/supabase/server", () => ({ getServerDataClient: () => db.client }))
+
+const { GET: getPL } = await import("@/app/api/organizations/[orgId]/pl/route")
+const { GET: getDashboardSummary } = await import("@/app/api/organizations/[orgId]/dashboard-summary/route")
+const { GET: getClassificationRules } = await import("@/app/api/organizations/[orgId]/classification-rules/route")
+const { GET: getTrendData } = await import("@/app/api/organizations/[orgId]/trend-data/route")
+
+const params = (orgId: string) => ({ params: Promise.resolve({ orgId }) })
+
+const line = (organizationId: string, n: number, account: string, customer: string, credit: number) => ({
+  organization_id: organizationId,
+  entry_number: `JE-${n}`,
+  line_sequence: 0,
+  date: "2026-03-15",
+  account,
+  account_type: "Income",
+  detail_type: null,
+  report_category: null,
+  customer,
+  memo: null,
+  debit: 0,
+  credit,
+})
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  installFakePlatform([
+    { token: "alice", id: "user-a", email: "alice@a.test", role: "admin", organizationId: ORG_A },
+    { token: "bob", id: "user-b", email: "bob@b.test", role: "employee", organizationId: ORG_B },
+    { token: "gone", id: "user-c", email: "carol@a.test", role: "admin", organizationId: ORG_A, status: "deactivated" },
+    { token: "root", id: "user-r", email: "root@platform.test", role: "super_admin", organizationId: null },
+  ])
+  db = new FakeSupabase({
+    journal_entry_lines: [
+      line(ORG_A, 1, "Rental Income", "Beach House", 1200),
+      line(ORG_A, 2, "Cleaning Fees", "Beach House", 150),
+      line(ORG_B, 3, "Consulting Revenue", "Acme Corp", 9000),
+    ],
+    ledger_classification_rules: [
+      { id: "rule-a", organization_id: ORG_A, match_field: "account", match_value: "Cleaning Fees", pl_section: "other_income", cash_flow_section: null, priority: 1 },
+      { id: "rule-b", organization_id: ORG_B, match_field: "account", match_value: "Consulting*", pl_section: "other_income", cash_flow_section: null, priority: 5 },
+    ],
+  })
+})
+
+afterEach(() => {
+  // Whatever a route reads from the shared ledger, it reads for one organization
+  const ledgerReads = db.calls.filter((c) => c.table === "journal_entry_lines")
+  expect(ledgerReads.every((c) => c.filters.some((f) => f.startsWith("organization_id=")))).toBe(true)
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("organization routes", () => {
+  it("rejects requests without a session", async () => {
+    const res = await getPL(apiRequest(`/api/organizations/${ORG_A}/pl?start=2026-01-01&end=2026-12-31`), params(ORG_A))
+    expect(res.status).toBe(401)
+    expect(db.calls).toHaveLength(0)
+  })
+
+  it("refuses another organization's P&L without reading its ledger", async () => {
+    const res = await getPL(
+      apiRequest(`/api/organizations/${ORG_B}/pl?start=2026-01-01&end=2026-12-31`, "alice"),
+      params(ORG_B),
+    )
+    expect(res.status).toBe(403)
+    expect(db.calls).toHaveLength(0)
+  })
+
+  it("returns only the caller's own ledger", async () => {
+    const res = await getPL(
+      apiRequest(`/api/organizations/${ORG_A}/pl?start=2026-01-01&end=2026-12-31`, "alice"),
+      params(ORG_A),
+    )
+    expect(res.status).toBe(200)
+    const body = JSON.stringify(await res.json())
+    expect(body).toContain("Rental Income")
+    expect(body).not.toContain("Consulting Revenue")
+    expect(db.calls.filter((c) => c.table === "journal_entry_lines").every((c) => c.filters.includes(`organization_id=${ORG_A}`))).toBe(true)
+  })
+
+  it("keeps other tenants out of the per-customer breakdown", async () => {
+    const url = `/api/organizations/${ORG_B}/dashboard-summary?includeProperties=true&start=2026-03-01&end=2026-03-31`
+    expect((await getDashboardSummary(apiRequest(url, "alice"), params(ORG_B))).status).toBe(403)
+
+    const own = await getDashboardSummary(apiRequest(url, "bob"), params(ORG_B))
+    expect(own.status).toBe(200)
+    const { propertyBreakdown } = await own.json()
+    expect(propertyBreakdown.map((p: { name: string }) => p.name)).toEqual(["Acme Corp"])
+  })
+
+  it("refuses another organization's trend data without reading its ledger", async () => {
+    const res = await getTrendData(
+      apiRequest(`/api/organizations/${ORG_B}/trend-data?months=3&endMonth=3&endYear=2026`, "alice"),
+      params(ORG_B),
+    )
+    expect(res.status).toBe(403)
+    expect(db.calls).toHaveLength(0)
+  })
+
+  it("builds trend data from the caller's own ledger only", async () => {
+    for (const [token, orgId, revenue] of [
+      ["alice", ORG_A, 1350],
+      ["bob", ORG_B, 9000],
+    ] as const) {
+      db.calls.length = 0
+      const res = await getTrendData(
+        apiRequest(`/api/organizations/${orgId}/trend-data?months=3&endMonth=3&endYear=2026`, token),
+        params(orgId),
+      )
+      expect(res.status).toBe(200)
+      const { monthlyData } = await res.json()
+      expect(monthlyData.map((m: { monthName: string; totalRevenue: number }) => [m.monthName, m.totalRevenue])).toEqual([
+        ["January", 0],
+        ["February", 0],
+        ["March", revenue],
+      ])
+
+      const ledgerReads = db.calls.filter((c) => c.table === "journal_entry_lines")
+      expect(ledgerReads.length).toBeGreaterThan(0)
+      expect(ledgerReads.every((c) => c.filters.includes(`organization_id=${orgId}`))).toBe(true)
+    }
+  })
+
+  it("serves each organization only its own classification rules", async () => {
+    const res = await getClassificationRules(apiRequest(`/api/organizations/${ORG_A}/classification-rules`, "alice"), params(ORG_A))
+    const { rules } = await res.json()
+    expect(rules.map((r: { id: string }) => r.id)).toEqual(["rule-a"])
+
+    const cross = await getClassificationRules(apiRequest(`/api/organizations/${ORG_A}/classification-rules`, "bob"), params(ORG_A))
+    expect(cross.status).toBe(403)
+  })
+
+  it("treats a deactivated member as having no account", async () => {
+    const res = await getClassificationRules(apiRequest(`/api/organizations/${ORG_A}/classification-rules`, "gone"), params(ORG_A))
+    expect(res.status).toBe(403)
+  })
+
+  it("lets a super admin read any organization", async () => {
+    for (const orgId of [ORG_A, ORG_B]) {
+      const res = await getClassificationRules(apiRequest(`/api/organizations/${orgId}/classification-rules`, "root"), params(orgId))
+      expect(res.status).toBe(200)
+    }
+  })
+})